@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "running_strategies" (
+    "id" TEXT NOT NULL,
+    "strategy_id" TEXT NOT NULL,
+    "user_id" TEXT,
+    "wallet_address" TEXT,
+    "status" "StrategyStatus" NOT NULL DEFAULT 'ACTIVE',
+    "mode" TEXT NOT NULL DEFAULT 'live',
+    "current_step_id" TEXT,
+    "pending_step_id" TEXT,
+    "variables" JSONB NOT NULL DEFAULT '{}',
+    "step_results" JSONB NOT NULL DEFAULT '{}',
+    "execution_count" INTEGER NOT NULL DEFAULT 0,
+    "restart_delay" INTEGER NOT NULL,
+    "tracking_enabled" BOOLEAN NOT NULL DEFAULT true,
+    "initial_balance_sol" DOUBLE PRECISION,
+    "paper_trading_session_id" TEXT,
+    "paper_session_config" JSONB,
+    "last_error" TEXT,
+    "started_at" TIMESTAMP(3) NOT NULL,
+    "last_execution_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "running_strategies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "running_strategies_strategy_id_idx" ON "running_strategies"("strategy_id");
+
+-- CreateIndex
+CREATE INDEX "running_strategies_user_id_idx" ON "running_strategies"("user_id");
+
+-- CreateIndex
+CREATE INDEX "running_strategies_status_idx" ON "running_strategies"("status");
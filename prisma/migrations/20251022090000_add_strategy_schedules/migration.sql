@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "strategy_schedules" (
+    "id" TEXT NOT NULL,
+    "strategy_id" TEXT NOT NULL,
+    "user_id" TEXT,
+    "wallet_address" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "windows" JSONB,
+    "cron" TEXT,
+    "duration_minutes" INTEGER,
+    "start_at" TIMESTAMP(3),
+    "end_at" TIMESTAMP(3),
+    "off_window_action" TEXT NOT NULL DEFAULT 'pause',
+    "run_config" JSONB NOT NULL DEFAULT '{}',
+    "running_id" TEXT,
+    "state" TEXT NOT NULL DEFAULT 'idle',
+    "last_transition_at" TIMESTAMP(3),
+    "next_transition_at" TIMESTAMP(3),
+    "last_error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "strategy_schedules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "strategy_schedules_strategy_id_key" ON "strategy_schedules"("strategy_id");
+
+-- CreateIndex
+CREATE INDEX "strategy_schedules_enabled_idx" ON "strategy_schedules"("enabled");
+
+-- CreateIndex
+CREATE INDEX "strategy_schedules_user_id_idx" ON "strategy_schedules"("user_id");
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "candles" (
+    "id" TEXT NOT NULL,
+    "token_address" TEXT NOT NULL,
+    "interval" TEXT NOT NULL,
+    "open_time" TIMESTAMP(3) NOT NULL,
+    "open" DOUBLE PRECISION NOT NULL,
+    "high" DOUBLE PRECISION NOT NULL,
+    "low" DOUBLE PRECISION NOT NULL,
+    "close" DOUBLE PRECISION NOT NULL,
+    "volume_sol" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "volume_tokens" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "buy_volume_sol" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "sell_volume_sol" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "trades" INTEGER NOT NULL DEFAULT 0,
+    "source" TEXT NOT NULL DEFAULT 'trade',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "candles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "candles_open_time_idx" ON "candles"("open_time");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "candles_token_address_interval_open_time_key" ON "candles"("token_address", "interval", "open_time");
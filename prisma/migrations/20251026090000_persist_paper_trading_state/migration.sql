@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "paper_trading_sessions" ADD COLUMN "state" JSONB,
+ALTER COLUMN "user_id" DROP NOT NULL;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "launch_creators" (
+    "creator" TEXT NOT NULL,
+    "launches" INTEGER NOT NULL DEFAULT 0,
+    "last_launch_at" TIMESTAMP(3) NOT NULL,
+    "mints" JSONB NOT NULL DEFAULT '[]',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "launch_creators_pkey" PRIMARY KEY ("creator")
+);
+
+-- CreateIndex
+CREATE INDEX "launch_creators_last_launch_at_idx" ON "launch_creators"("last_launch_at");
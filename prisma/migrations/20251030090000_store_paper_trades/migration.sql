@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "trades" ALTER COLUMN "user_id" DROP NOT NULL;
+
+-- Live trades still need a user (Prisma cannot express this, see the Trade model)
+ALTER TABLE "trades" ADD CONSTRAINT "trades_user_id_required_for_live" CHECK ("is_paper" OR "user_id" IS NOT NULL);
@@ -16,6 +16,8 @@ import { SYSTEM_PROMPTS } from './strategyPrompts';
 import { strategyParser, ParsedStrategy } from './strategyParser';
 import { strategyValidator } from './strategyValidator'; // AI-FIRST: Lightweight validator
 import { createStrategyFromTemplate } from '../trading_utils/StrategyTemplates';
+import { indicatorEngine, formatIndicatorSummary } from '../trading_utils/indicators';
+import { DryRunResult, formatDryRunSummary } from '../trading_utils/dryrun';
 import { strategyBuilder } from '../trading_utils/StrategyBuilder';
 import { strategyExecutionManager } from '../trading_utils/StrategyExecutionManager';
 import { strategyExecutionTracker } from '../trading_utils/StrategyExecutionTracker';
@@ -55,6 +57,7 @@ export interface AgentResponse {
   requiresConfirmation?: boolean;
   actions?: string[];
   strategyId?: string; // ID of running strategy if simulation started
+  dryRun?: DryRunResult; // What the suggested strategy would do, shown before confirmation
 }
 
 export class AgentController {
@@ -785,12 +788,16 @@ export class AgentController {
         }
       });
 
+      // Explain what the strategy would do before the user confirms it
+      const dryRun = shouldShowActivateButton ? await this.dryRunSuggestedStrategy(session.currentStrategy!) : undefined;
+
       return {
-        message: processedResponse,
+        message: dryRun ? `${processedResponse}\n\n${formatDryRunSummary(dryRun)}` : processedResponse,
         suggestedStrategy: session.currentStrategy,
         requiresWallet: actions.includes('connect_wallet'),
         requiresConfirmation: shouldShowActivateButton, // Use calculated value
-        actions
+        actions,
+        dryRun
       };
     } catch (error: any) {
       await awsLogger.error('Agent message processing failed', {
@@ -804,6 +811,22 @@ export class AgentController {
     }
   }
 
+  /**
+   * Dry-run a suggested strategy on a throwaway copy (undefined when it cannot be built yet)
+   */
+  private async dryRunSuggestedStrategy(suggested: ParsedStrategy): Promise<DryRunResult | undefined> {
+    const previewId = `${suggested.config.id || 'strategy'}-preview-${Date.now()}`;
+    try {
+      createStrategyFromTemplate(suggested.template, { ...suggested.config, id: previewId });
+      return await strategyBuilder.dryRunStrategy(previewId);
+    } catch (error) {
+      console.warn(` [DRY-RUN] Could not dry-run ${suggested.template}:`, error instanceof Error ? error.message : error);
+      return undefined;
+    } finally {
+      strategyBuilder.deleteStrategy(previewId);
+    }
+  }
+
   /**
    *  Check if strategy has all required configuration
    *  UNIVERSAL: Works with ALL strategy types by trusting AI's isComplete flag
@@ -872,6 +895,26 @@ export class AgentController {
             console.log(` [isStrategyConfigComplete] Contrarian validation: ${hasContrarianFields}`);
             return hasContrarianFields;
           }
+
+          // Launch snipers pick their own tokens - no tokenAddress
+          if (config.strategyType === 'launch_sniper' || config.strategyType === 'pumpfun_sniper') {
+            const hasSniperFields = !!(config.id && config.buyAmountSOL > 0);
+            console.log(` [isStrategyConfigComplete] Launch sniper validation: ${hasSniperFields}`);
+            return hasSniperFields;
+          }
+
+          // Copy traders follow wallets - the leaders pick the tokens
+          if (config.strategyType === 'copy_trading' || config.strategyType === 'copy_trader' || config.strategyType === 'wallet_copy') {
+            const hasSizing = config.sizingMode === 'fixed' ? config.fixedAmountSOL > 0 : (config.copyRatio === undefined || config.copyRatio > 0);
+            const hasCopyFields = !!(
+              config.id &&
+              Array.isArray(config.leaderWallets) && config.leaderWallets.length > 0 &&
+              config.maxPerTokenSOL > 0 &&
+              hasSizing
+            );
+            console.log(` [isStrategyConfigComplete] Copy trading validation: ${hasCopyFields}`);
+            return hasCopyFields;
+          }
           
           // Universal validation: Does it have the basic fields needed for ANY strategy?
           const hasBasicFields = !!(
@@ -2255,6 +2298,16 @@ Transaction ID: \`${data.transaction}\`
       prompt += `\n\nIMPORTANT: If user wants to switch strategies, help them with the NEW strategy.`;
     }
 
+    // Add live indicator readings for the token under discussion
+    const indicatorToken: string | undefined = session.currentStrategy?.config?.tokenAddress ||
+      userMessage.match(/\b[1-9A-HJ-NP-Za-km-z]{32,44}\b/)?.[0];
+    if (indicatorToken) {
+      const indicators = indicatorEngine.getIndicators(indicatorToken) || indicatorEngine.getIndicators(indicatorToken.toLowerCase());
+      if (indicators) {
+        prompt += `\n\n${formatIndicatorSummary(indicators)}`;
+      }
+    }
+
     // Add conversation history
     if (session.conversationHistory.length > 0) {
       const recentHistory = session.conversationHistory.slice(-8);
@@ -0,0 +1,78 @@
+/**
+ * Candles Data Access Layer
+ * OHLCV bars written by CandleAggregator
+ */
+
+import { prisma, Candle } from '../client';
+
+export interface UpsertCandleInput {
+  tokenAddress: string;
+  interval: string;
+  openTime: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volumeSol: number;
+  volumeTokens: number;
+  buyVolumeSol: number;
+  sellVolumeSol: number;
+  trades: number;
+  source: string;
+}
+
+/**
+ * Insert or overwrite candles (keyed by token, interval and open time)
+ */
+export async function upsertCandles(candles: UpsertCandleInput[]): Promise<number> {
+  if (candles.length === 0) return 0;
+
+  await prisma.$transaction(
+    candles.map(candle => {
+      const { tokenAddress, interval, openTime, ...values } = candle;
+      return prisma.candle.upsert({
+        where: {
+          tokenAddress_interval_openTime: { tokenAddress, interval, openTime },
+        },
+        create: candle,
+        update: values,
+      });
+    })
+  );
+  return candles.length;
+}
+
+/**
+ * Most recent candles in a range (oldest first)
+ */
+export async function findCandles(
+  tokenAddress: string,
+  interval: string,
+  startDate: Date,
+  endDate: Date,
+  limit: number = 500
+): Promise<Candle[]> {
+  const candles = await prisma.candle.findMany({
+    where: {
+      tokenAddress,
+      interval,
+      openTime: { gte: startDate, lte: endDate },
+    },
+    take: limit,
+    orderBy: { openTime: 'desc' },
+  });
+  return candles.reverse();
+}
+
+/**
+ * Delete candles older than a cutoff (optionally for one interval)
+ */
+export async function deleteCandlesBefore(cutoff: Date, interval?: string): Promise<number> {
+  const result = await prisma.candle.deleteMany({
+    where: {
+      openTime: { lt: cutoff },
+      ...(interval ? { interval } : {}),
+    },
+  });
+  return result.count;
+}
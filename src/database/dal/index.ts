@@ -8,4 +8,8 @@ export * from './strategies';
 export * from './trades';
 export * from './paperTradingSessions';
 export * from './executionLogs';
-export * from './auditLogs';
\ No newline at end of file
+export * from './auditLogs';
+export * from './runningStrategies';
+export * from './strategySchedules';
+export * from './candles';
+export * from './launchCreators';
\ No newline at end of file
@@ -0,0 +1,41 @@
+/**
+ * Launch Creators Data Access Layer
+ * Per-creator launch counts kept by LaunchMonitor (survive restarts)
+ */
+
+import { prisma, LaunchCreator } from '../client';
+
+export interface UpsertLaunchCreatorInput {
+  creator: string;
+  launches: number;
+  lastLaunchAt: Date;
+  mints: string[];
+}
+
+/**
+ * Insert or overwrite creator histories
+ */
+export async function upsertLaunchCreators(creators: UpsertLaunchCreatorInput[]): Promise<number> {
+  if (creators.length === 0) return 0;
+
+  await prisma.$transaction(
+    creators.map(({ creator, ...values }) =>
+      prisma.launchCreator.upsert({
+        where: { creator },
+        create: { creator, ...values },
+        update: values,
+      })
+    )
+  );
+  return creators.length;
+}
+
+/**
+ * Most recently active creators (newest first)
+ */
+export async function findRecentLaunchCreators(limit: number): Promise<LaunchCreator[]> {
+  return prisma.launchCreator.findMany({
+    take: limit,
+    orderBy: { lastLaunchAt: 'desc' },
+  });
+}
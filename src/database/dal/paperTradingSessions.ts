@@ -34,6 +34,31 @@ export interface UpdatePaperSessionInput {
   endedAt?: Date;
 }
 
+export interface SavePaperSessionStateInput {
+  id: string;
+  userId?: string;
+  tokenAddress: string;
+  status: SessionStatus;
+  initialBalanceSOL: number;
+  initialBalanceUSDC: number;
+  currentBalanceSOL: number;
+  currentBalanceUSDC: number;
+  balanceTokens: number;
+  totalPnL: number;
+  totalPnLUSD: number;
+  realizedPnL: number;
+  realizedPnLUSD: number;
+  unrealizedPnL: number;
+  unrealizedPnLUSD: number;
+  roi: number;
+  totalValueUSD: number;
+  tradeCount: number;
+  winRate: number;
+  state: Prisma.InputJsonValue;
+  startedAt: Date;
+  endedAt: Date | null;
+}
+
 /**
  * Create a new paper trading session
  */
@@ -116,6 +141,52 @@ export async function updatePaperSession(
   });
 }
 
+/**
+ * Insert or overwrite a session with its full engine state.
+ * The user is linked only when userId names a users row (engine sessions may carry any id).
+ */
+export async function savePaperSessionState(
+  input: SavePaperSessionStateInput
+): Promise<PaperTradingSession> {
+  const { id, userId, ...data } = input;
+
+  const existing = await prisma.paperTradingSession.findUnique({
+    where: { id },
+    select: { id: true },
+  });
+  if (existing) {
+    return prisma.paperTradingSession.update({
+      where: { id },
+      data,
+    });
+  }
+
+  const user = userId
+    ? await prisma.user.findUnique({ where: { id: userId }, select: { id: true } })
+    : null;
+  return prisma.paperTradingSession.create({
+    data: {
+      id,
+      userId: user?.id,
+      name: `Paper Session ${id}`,
+      ...data,
+    },
+  });
+}
+
+/**
+ * Find sessions to load back into the engine on boot (active or paused, with saved state)
+ */
+export async function findRestorablePaperSessions(): Promise<PaperTradingSession[]> {
+  return prisma.paperTradingSession.findMany({
+    where: {
+      status: { in: ['ACTIVE', 'PAUSED'] },
+      state: { not: Prisma.DbNull },
+    },
+    orderBy: { startedAt: 'asc' },
+  });
+}
+
 /**
  * Update session balances
  */
@@ -193,7 +264,7 @@ export async function listPaperSessions(
     strategyId?: string;
   }
 ): Promise<{
-  sessions: PaperTradingSession[];
+  sessions: Omit<PaperTradingSession, 'state'>[];
   total: number;
   pages: number;
 }> {
@@ -210,6 +281,7 @@ export async function listPaperSessions(
       skip,
       take: limit,
       orderBy: { createdAt: 'desc' },
+      omit: { state: true }, // Trades and positions are read per session
       include: {
         user: {
           select: {
@@ -0,0 +1,107 @@
+/**
+ * Running Strategies Data Access Layer
+ * Durable execution state for StrategyExecutionManager (survives restarts)
+ */
+
+import { prisma, RunningStrategyState, StrategyStatus, Prisma } from '../client';
+
+export interface SaveRunningStrategyInput {
+  id: string;
+  strategyId: string;
+  userId?: string;
+  walletAddress?: string;
+  status: StrategyStatus;
+  mode: string;
+  currentStepId?: string | null;
+  pendingStepId?: string | null;
+  variables: Prisma.InputJsonValue;
+  stepResults: Prisma.InputJsonValue;
+  executionCount: number;
+  restartDelay: number;
+  trackingEnabled: boolean;
+  initialBalanceSOL?: number;
+  paperTradingSessionId?: string;
+  paperSessionConfig?: Prisma.InputJsonValue;
+  lastError?: string | null;
+  startedAt: Date;
+  lastExecutionAt?: Date;
+}
+
+/**
+ * Insert or overwrite the checkpoint for a running strategy
+ */
+export async function saveRunningStrategy(
+  input: SaveRunningStrategyInput
+): Promise<RunningStrategyState> {
+  const { id, ...data } = input;
+  return prisma.runningStrategyState.upsert({
+    where: { id },
+    create: input,
+    update: data,
+  });
+}
+
+/**
+ * Find running strategy state by running ID
+ */
+export async function findRunningStrategyById(
+  id: string
+): Promise<RunningStrategyState | null> {
+  return prisma.runningStrategyState.findUnique({
+    where: { id },
+  });
+}
+
+/**
+ * Find strategies that should be resumed on boot (running or paused)
+ */
+export async function findResumableRunningStrategies(): Promise<RunningStrategyState[]> {
+  return prisma.runningStrategyState.findMany({
+    where: {
+      status: { in: ['ACTIVE', 'PAUSED'] },
+    },
+    orderBy: { startedAt: 'asc' },
+  });
+}
+
+/**
+ * Find running strategies by user ID
+ */
+export async function findRunningStrategiesByUserId(
+  userId: string,
+  status?: StrategyStatus
+): Promise<RunningStrategyState[]> {
+  const where: Prisma.RunningStrategyStateWhereInput = { userId };
+  if (status) where.status = status;
+
+  return prisma.runningStrategyState.findMany({
+    where,
+    orderBy: { startedAt: 'desc' },
+  });
+}
+
+/**
+ * Update running strategy status
+ */
+export async function updateRunningStrategyStatus(
+  id: string,
+  status: StrategyStatus,
+  lastError?: string | null
+): Promise<RunningStrategyState> {
+  return prisma.runningStrategyState.update({
+    where: { id },
+    data: {
+      status,
+      ...(lastError !== undefined && { lastError }),
+    },
+  });
+}
+
+/**
+ * Delete running strategy state
+ */
+export async function deleteRunningStrategy(id: string): Promise<RunningStrategyState> {
+  return prisma.runningStrategyState.delete({
+    where: { id },
+  });
+}
@@ -0,0 +1,94 @@
+/**
+ * Strategy Schedules Data Access Layer
+ * Activation windows / cron schedules for StrategyScheduler (survive restarts)
+ */
+
+import { prisma, StrategySchedule, Prisma } from '../client';
+
+export interface SaveStrategyScheduleInput {
+  strategyId: string;
+  userId?: string;
+  walletAddress?: string;
+  enabled: boolean;
+  windows?: Prisma.InputJsonValue;
+  cron?: string | null;
+  durationMinutes?: number | null;
+  startAt?: Date | null;
+  endAt?: Date | null;
+  offWindowAction: string;
+  runConfig: Prisma.InputJsonValue;
+  runningId?: string | null;
+  state: string;
+}
+
+export interface UpdateStrategyScheduleStateInput {
+  enabled?: boolean;
+  runningId?: string | null;
+  state?: string;
+  lastTransitionAt?: Date;
+  nextTransitionAt?: Date | null;
+  lastError?: string | null;
+}
+
+/**
+ * Create or replace the schedule for a strategy
+ */
+export async function saveStrategySchedule(
+  input: SaveStrategyScheduleInput
+): Promise<StrategySchedule> {
+  const data = {
+    ...input,
+    windows: input.windows ?? Prisma.DbNull,
+    nextTransitionAt: null,
+    lastError: null,
+  };
+
+  return prisma.strategySchedule.upsert({
+    where: { strategyId: input.strategyId },
+    create: data,
+    update: data,
+  });
+}
+
+/**
+ * Find schedule by strategy ID
+ */
+export async function findStrategyScheduleByStrategyId(
+  strategyId: string
+): Promise<StrategySchedule | null> {
+  return prisma.strategySchedule.findUnique({
+    where: { strategyId },
+  });
+}
+
+/**
+ * List schedules (optionally only enabled ones)
+ */
+export async function listStrategySchedules(enabledOnly: boolean = false): Promise<StrategySchedule[]> {
+  return prisma.strategySchedule.findMany({
+    where: enabledOnly ? { enabled: true } : undefined,
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * Record a scheduler transition
+ */
+export async function updateStrategyScheduleState(
+  strategyId: string,
+  input: UpdateStrategyScheduleStateInput
+): Promise<StrategySchedule> {
+  return prisma.strategySchedule.update({
+    where: { strategyId },
+    data: input,
+  });
+}
+
+/**
+ * Delete schedule
+ */
+export async function deleteStrategySchedule(strategyId: string): Promise<StrategySchedule> {
+  return prisma.strategySchedule.delete({
+    where: { strategyId },
+  });
+}
@@ -26,6 +26,24 @@ export interface CreateTradeInput {
   trigger?: string;
 }
 
+export interface AppendPaperTradeInput {
+  id: string; // Engine trade id
+  strategyId?: string;
+  type: TradeType;
+  tokenAddress: string;
+  amountSOL: number;
+  amountTokens: number;
+  price: number;
+  priceUSD: number;
+  total: number;
+  fee: number;
+  slippage: number;
+  profitLoss?: number;
+  trigger?: string;
+  metadata: Prisma.InputJsonValue;
+  createdAt: Date;
+}
+
 /**
  * Create a new trade record
  */
@@ -91,6 +109,59 @@ export async function findTradesBySessionId(sessionId: string): Promise<Trade[]>
   });
 }
 
+/**
+ * Append paper trades to a session; trades already stored (same id) are skipped.
+ * Users and strategies are linked only when they have rows (engine sessions may carry any id).
+ */
+export async function appendPaperTrades(
+  sessionId: string,
+  userId: string | undefined,
+  trades: AppendPaperTradeInput[]
+): Promise<number> {
+  if (trades.length === 0) return 0;
+
+  const strategyIds = Array.from(new Set(trades.map(trade => trade.strategyId).filter((id): id is string => !!id)));
+  const [user, strategies] = await Promise.all([
+    userId ? prisma.user.findUnique({ where: { id: userId }, select: { id: true } }) : null,
+    strategyIds.length > 0
+      ? prisma.strategy.findMany({ where: { id: { in: strategyIds } }, select: { id: true } })
+      : [],
+  ]);
+  const knownStrategies = new Set(strategies.map(strategy => strategy.id));
+
+  const result = await prisma.trade.createMany({
+    data: trades.map(({ strategyId, ...trade }) => ({
+      ...trade,
+      sessionId,
+      userId: user?.id,
+      strategyId: strategyId && knownStrategies.has(strategyId) ? strategyId : undefined,
+      isPaper: true,
+    })),
+    skipDuplicates: true,
+  });
+  return result.count;
+}
+
+/**
+ * Paper trades of a session, oldest first
+ */
+export async function findPaperTradesBySessionId(sessionId: string): Promise<Trade[]> {
+  return prisma.trade.findMany({
+    where: { sessionId, isPaper: true },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * Delete the paper trades of a session (session reset or deleted)
+ */
+export async function deletePaperTradesBySessionId(sessionId: string): Promise<number> {
+  const result = await prisma.trade.deleteMany({
+    where: { sessionId, isPaper: true },
+  });
+  return result.count;
+}
+
 /**
  * Find trades by user ID
  */
@@ -297,6 +368,28 @@ export async function getRecentTrades(
   });
 }
 
+/**
+ * Trades in a token over a time range (oldest first)
+ */
+export async function findTradesByTokenInRange(
+  tokenAddress: string,
+  startDate: Date,
+  endDate: Date,
+  filters?: { isPaper?: boolean; limit?: number }
+): Promise<Trade[]> {
+  const where: Prisma.TradeWhereInput = {
+    tokenAddress,
+    createdAt: { gte: startDate, lte: endDate },
+  };
+  if (filters?.isPaper !== undefined) where.isPaper = filters.isPaper;
+
+  return prisma.trade.findMany({
+    where,
+    take: filters?.limit,
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
 /**
  * Delete trade
  */
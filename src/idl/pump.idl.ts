@@ -20,15 +20,56 @@ export const IDL = {
       "args": []
     }
   ],
-  "accounts": [],
+  "accounts": [
+    {
+      "name": "bondingCurve",
+      "discriminator": [23, 183, 248, 55, 96, 216, 172, 96]
+    }
+  ],
   "events": [
     {
       "name": "tradeEvent",
       "discriminator": [189, 219, 127, 211, 78, 230, 97, 238]
+    },
+    {
+      "name": "createEvent",
+      "discriminator": [27, 114, 169, 77, 222, 235, 99, 118]
     }
   ],
   "errors": [],
   "types": [
+    {
+      "name": "bondingCurve",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "virtualTokenReserves",
+            "type": "u64"
+          },
+          {
+            "name": "virtualSolReserves",
+            "type": "u64"
+          },
+          {
+            "name": "realTokenReserves",
+            "type": "u64"
+          },
+          {
+            "name": "realSolReserves",
+            "type": "u64"
+          },
+          {
+            "name": "tokenTotalSupply",
+            "type": "u64"
+          },
+          {
+            "name": "complete",
+            "type": "bool"
+          }
+        ]
+      }
+    },
     {
       "name": "tradeEvent",
       "type": {
@@ -124,6 +165,62 @@ export const IDL = {
           }
         ]
       }
+    },
+    {
+      "name": "createEvent",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "name",
+            "type": "string"
+          },
+          {
+            "name": "symbol",
+            "type": "string"
+          },
+          {
+            "name": "uri",
+            "type": "string"
+          },
+          {
+            "name": "mint",
+            "type": "pubkey"
+          },
+          {
+            "name": "bondingCurve",
+            "type": "pubkey"
+          },
+          {
+            "name": "user",
+            "type": "pubkey"
+          },
+          {
+            "name": "creator",
+            "type": "pubkey"
+          },
+          {
+            "name": "timestamp",
+            "type": "i64"
+          },
+          {
+            "name": "virtualTokenReserves",
+            "type": "u64"
+          },
+          {
+            "name": "virtualSolReserves",
+            "type": "u64"
+          },
+          {
+            "name": "realTokenReserves",
+            "type": "u64"
+          },
+          {
+            "name": "tokenTotalSupply",
+            "type": "u64"
+          }
+        ]
+      }
     }
   ]
 };
@@ -7,6 +7,23 @@ import { Request, Response, NextFunction } from 'express';
 import { z, ZodError } from 'zod';
 import { ValidationError } from './errorHandler';
 
+/**
+ * Launch filters (waitForLaunch steps and the launch sniper template)
+ */
+const launchFiltersSchema = z.object({
+  maxCreatorLaunches: z.number().int().nonnegative().optional(),
+  minInitialBuySol: z.number().nonnegative().optional(),
+  maxInitialBuySol: z.number().nonnegative().optional(),
+  namePattern: z.string().max(200).optional(),
+  symbolPattern: z.string().max(200).optional(),
+  excludePattern: z.string().max(200).optional(),
+  requireMetadata: z.array(z.enum(['name', 'symbol', 'description', 'image', 'twitter', 'telegram', 'website'])).optional(),
+  maxLaunchAgeSeconds: z.number().positive().max(86400).optional(),
+});
+
+const solanaAddressSchema = z.string().min(32).max(44);
+const swapVenueSchema = z.enum(['pumpfun', 'raydium', 'jupiter']);
+
 /**
  * Zod schema for strategy creation
  */
@@ -16,12 +33,39 @@ export const createStrategySchema = z.object({
   description: z.string().max(1000).optional(),
   steps: z.array(z.object({
     id: z.string().min(1),
-    type: z.enum(['buy', 'sell', 'wait', 'condition', 'get_price', 'custom']),
+    type: z.enum(['buy', 'sell', 'wait', 'condition', 'get_price', 'custom', 'setVariable', 'loop', 'branch', 'notify', 'stop', 'subStrategy', 'waitForLaunch', 'waitForGraduation', 'waitForLeaderTrade']),
     amountInSol: z.number().positive().optional(),
     amountToSell: z.number().optional(),
+    tokenAddress: z.string().min(32).max(44).optional(),
+    quoteCurrency: z.enum(['SOL', 'USDC']).optional(),
     targetPrice: z.number().positive().optional(),
     durationMs: z.number().positive().optional(),
     condition: z.string().optional(),
+    expression: z.string().max(1000).optional(),
+    variable: z.string().min(1).max(100).optional(),
+    value: z.any().optional(),
+    increment: z.number().optional(),
+    key: z.string().max(1000).optional(),
+    bodyStepId: z.string().optional(),
+    times: z.number().int().nonnegative().optional(),
+    until: z.string().max(1000).optional(),
+    branches: z.array(z.object({
+      when: z.string().min(1).max(1000),
+      goto: z.string().min(1),
+    })).optional(),
+    message: z.string().max(1000).optional(),
+    level: z.enum(['info', 'success', 'warning', 'error']).optional(),
+    reason: z.string().max(500).optional(),
+    strategyId: z.string().min(1).max(100).optional(),
+    inputs: z.record(z.string().max(1000)).optional(),
+    outputs: z.record(z.string().max(100)).optional(),
+    filters: launchFiltersSchema.optional(),
+    timeoutMs: z.number().positive().optional(),
+    wallets: z.array(solanaAddressSchema).min(1).max(20).optional(),
+    blocklist: z.array(solanaAddressSchema).max(500).optional(),
+    venues: z.array(swapVenueSchema).min(1).optional(),
+    maxDelayMs: z.number().positive().optional(),
+    positionsVariable: z.string().min(1).max(100).optional(),
     onSuccess: z.string().optional(),
     onFailure: z.string().optional(),
     description: z.string().optional(),
@@ -53,7 +97,7 @@ export const updateStrategySchema = z.object({
  * Zod schema for template-based strategy creation
  */
 export const createFromTemplateSchema = z.object({
-  templateName: z.enum(['dca', 'grid', 'stop_loss', 'momentum', 'dollar_cost_averaging', 'grid_trading', 'stop_loss_take_profit', 'momentum_trading']),
+  templateName: z.enum(['dca', 'grid', 'stop_loss', 'momentum', 'dollar_cost_averaging', 'grid_trading', 'stop_loss_take_profit', 'momentum_trading', 'mean_reversion', 'execution_algo', 'twap', 'vwap', 'laddered_exit', 'take_profit_ladder', 'scaled_exit', 'launch_sniper', 'pumpfun_sniper', 'copy_trading', 'copy_trader', 'wallet_copy']),
   config: z.object({
     id: z.string().min(1).max(100),
     buyAmountSOL: z.number().positive().max(100).optional(),
@@ -70,7 +114,51 @@ export const createFromTemplateSchema = z.object({
     momentumThreshold: z.number().min(0).max(100).optional(),
     sellThreshold: z.number().min(0).max(100).optional(),
     timeframeMinutes: z.number().positive().optional(),
-  }),
+    maxEntryRsi: z.number().min(0).max(100).optional(),
+    requireAboveEma: z.boolean().optional(),
+    tokenAddress: z.string().min(32).max(44).optional(),
+    deviationThreshold: z.number().positive().max(10).optional(),
+    lookbackPeriod: z.number().positive().max(1440).optional(),
+    positionSize: z.number().positive().max(100).optional(),
+    rsiOversold: z.number().min(0).max(100).optional(),
+    side: z.enum(['buy', 'sell']).optional(),
+    mode: z.enum(['twap', 'vwap']).optional(),
+    totalAmount: z.number().positive().optional(),
+    durationMinutes: z.number().positive().max(1440).optional(),
+    slices: z.number().int().min(1).max(40).optional(),
+    participationRate: z.number().positive().max(1).optional(),
+    checkIntervalSeconds: z.number().positive().max(3600).optional(),
+    minChildAmount: z.number().positive().optional(),
+    maxChildAmount: z.number().positive().optional(),
+    sizeJitterPercentage: z.number().min(0).max(90).optional(),
+    maxImpactPercentage: z.number().positive().max(100).optional(),
+    maxPriceDeviationPercentage: z.number().positive().max(100).optional(),
+    maxDurationMinutes: z.number().positive().max(1440).optional(),
+    entryLevels: z.array(z.object({
+      dropPercentage: z.number().min(0).max(100),
+      allocationPercentage: z.number().positive().max(100),
+    })).min(1).max(6).optional(),
+    takeProfitLevels: z.array(z.object({
+      profitPercentage: z.number().positive().max(10000),
+      sellPercentage: z.number().positive().max(100),
+    })).min(1).max(6).optional(),
+    trailingStopPercentage: z.number().positive().max(99).optional(),
+    moveStopToBreakeven: z.boolean().optional(),
+    entryTimeoutMinutes: z.number().positive().max(1440).optional(),
+    maxHoldMinutes: z.number().positive().max(1440).optional(),
+    launchWaitMinutes: z.number().positive().max(1440).optional(),
+    maxSnipes: z.number().int().positive().max(1000).optional(),
+    leaderWallets: z.array(solanaAddressSchema).min(1).max(20).optional(),
+    sizingMode: z.enum(['proportional', 'fixed']).optional(),
+    copyRatio: z.number().positive().max(100).optional(),
+    fixedAmountSOL: z.number().positive().max(1000).optional(),
+    maxPerTokenSOL: z.number().positive().max(1000).optional(),
+    minTradeSOL: z.number().nonnegative().max(1000).optional(),
+    maxDelaySeconds: z.number().positive().max(3600).optional(),
+    blocklist: z.array(solanaAddressSchema).max(500).optional(),
+    venues: z.array(swapVenueSchema).min(1).optional(),
+    leaderTradeTimeoutMinutes: z.number().positive().max(1440).optional(),
+  }).merge(launchFiltersSchema),
 });
 
 /**
@@ -81,6 +169,171 @@ export const executeStrategySchema = z.object({
   restartDelay: z.number().int().positive().max(3600000).optional(), // Max 1 hour
 });
 
+/**
+ * Recorded history replayed by backtests and parameter sweeps
+ */
+const backtestDatasetSchema = z.object({
+  tokenAddress: z.string().min(32).max(44),
+  tokenSymbol: z.string().optional(),
+  solPriceUSD: z.number().positive().optional(),
+  prices: z.array(z.object({
+    timestamp: z.number().int().nonnegative(),
+    price: z.number().positive(),
+    priceUSD: z.number().positive().optional(),
+    solPrice: z.number().positive().optional(),
+    volume: z.number().nonnegative().optional(),
+  })).max(500000),
+  trades: z.array(z.object({
+    tokenAddress: z.string(),
+    type: z.enum(['buy', 'sell']),
+    solAmount: z.number().nonnegative(),
+    tokenAmount: z.number().nonnegative(),
+    trader: z.string(),
+    signature: z.string(),
+    timestamp: z.number().int().nonnegative(),
+    price: z.number().nonnegative(),
+    isRealTrade: z.literal(true),
+  })).max(500000).optional(),
+});
+
+const backtestConfigSchema = z.object({
+  initialBalanceSOL: z.number().positive().max(10000).optional(),
+  initialBalanceUSDC: z.number().nonnegative().optional(),
+  fillModel: z.object({
+    enableSlippage: z.boolean().optional(),
+    slippagePercentage: z.number().min(0).max(100).optional(),
+    enableFees: z.boolean().optional(),
+    tradingFeePercentage: z.number().min(0).max(100).optional(),
+    networkFeeSOL: z.number().nonnegative().optional(),
+    enableVenueFees: z.boolean().optional(),
+    feeVenue: z.enum(['pumpfun', 'raydium', 'jupiter']).optional(),
+  }).optional(),
+  startTime: z.number().int().nonnegative().optional(),
+  endTime: z.number().int().nonnegative().optional(),
+  restartDelayMs: z.number().int().positive().max(3600000).optional(),
+  maxExecutions: z.number().int().positive().max(1000000).optional(),
+  equitySampleIntervalMs: z.number().int().nonnegative().optional(),
+  variables: z.record(z.any()).optional(),
+});
+
+/**
+ * Zod schema for strategy backtests
+ */
+export const backtestStrategySchema = z.object({
+  dataset: backtestDatasetSchema,
+  config: backtestConfigSchema.optional(),
+});
+
+/**
+ * Zod schema for dry runs (POST /strategies/:id/dry-run) - synthetic price path when prices is omitted
+ */
+export const dryRunStrategySchema = z.object({
+  prices: z.array(z.number().positive()).min(1).max(10000).optional(),
+  intervalMs: z.number().int().positive().max(86400000).optional(),
+  synthetic: z.object({
+    startPrice: z.number().positive().optional(),
+    points: z.number().int().min(1).max(10000).optional(),
+    volatilityPercentage: z.number().min(0).max(100).optional(),
+    driftPercentage: z.number().min(-50).max(50).optional(),
+    seed: z.number().int().optional(),
+  }).optional(),
+  solPriceUSD: z.number().positive().optional(),
+  tokenAddress: z.string().min(1).max(44).optional(),
+  variables: z.record(z.any()).optional(),
+  maxSteps: z.number().int().positive().max(20000).optional(),
+});
+
+/**
+ * Zod schema for launch tape replays (POST /strategies/:id/launch-replay)
+ */
+export const launchReplaySchema = z.object({
+  tape: z.object({
+    launches: z.array(z.object({
+      launch: z.object({
+        mint: z.string().min(32).max(44),
+        name: z.string().max(200),
+        symbol: z.string().max(50),
+        uri: z.string().max(500),
+        creator: z.string().min(32).max(44),
+        bondingCurve: z.string().max(44),
+        timestamp: z.number().int().nonnegative(),
+        initialBuySol: z.number().nonnegative(),
+        initialBuyTokens: z.number().nonnegative(),
+        initialPrice: z.number().nonnegative(),
+        signature: z.string().optional(),
+      }),
+      metadata: z.record(z.string()).optional(),
+      prices: backtestDatasetSchema.shape.prices.optional(),
+      trades: backtestDatasetSchema.shape.trades,
+    })).min(1).max(10000),
+    creatorHistory: z.record(z.number().int().nonnegative()).optional(),
+    solPriceUSD: z.number().positive().optional(),
+  }),
+  config: backtestConfigSchema.omit({ equitySampleIntervalMs: true }).optional(),
+});
+
+/**
+ * Zod schema for template parameter sweeps
+ */
+export const optimizeStrategySchema = z.object({
+  dataset: backtestDatasetSchema,
+  templateName: z.string().min(1).max(100),
+  strategyType: z.string().min(1).max(100).optional(),
+  baseConfig: z.record(z.any()).optional(),
+  parameters: z.array(z.object({
+    name: z.string().min(1).max(100),
+    min: z.number().optional(),
+    max: z.number().optional(),
+    step: z.number().positive().optional(),
+    integer: z.boolean().optional(),
+    values: z.array(z.union([z.string(), z.number(), z.boolean()])).min(1).max(100).optional(),
+  })).min(1).max(10),
+  method: z.enum(['grid', 'random', 'bayesian']),
+  objective: z.enum(['sharpe', 'roi', 'maxDrawdown', 'totalPnL', 'winRate', 'profitFactor']),
+  maxEvaluations: z.number().int().positive().max(500).optional(),
+  gridPoints: z.number().int().positive().max(50).optional(),
+  initialSamples: z.number().int().positive().max(500).optional(),
+  seed: z.number().int().optional(),
+  walkForward: z.object({
+    folds: z.number().int().positive().max(20),
+    trainRatio: z.number().gt(0).lt(1).optional(),
+  }).optional(),
+  backtest: backtestConfigSchema.optional(),
+});
+
+/**
+ * Zod schema for strategy activation schedules (all times UTC)
+ */
+export const strategyScheduleSchema = z.object({
+  windows: z.array(z.object({
+    days: z.array(z.number().int().min(0).max(6)).min(1).max(7).optional(),
+    start: z.string().regex(/^\d{2}:\d{2}$/, 'start must be HH:MM'),
+    end: z.string().regex(/^\d{2}:\d{2}$/, 'end must be HH:MM'),
+  })).min(1).max(20).optional(),
+  cron: z.string().min(1).max(100).optional(),
+  durationMinutes: z.number().int().positive().max(366 * 24 * 60).optional(),
+  startAt: z.string().datetime().optional(),
+  endAt: z.string().datetime().optional(),
+  runForMinutes: z.number().int().positive().optional(), // Shorthand for endAt = (startAt or now) + runForMinutes
+  offWindowAction: z.enum(['pause', 'stop']).optional(),
+  enabled: z.boolean().optional(),
+  runConfig: z.object({
+    restartDelay: z.number().int().min(0).optional(),
+    enableTracking: z.boolean().optional(),
+    initialBalanceSOL: z.number().positive().optional(),
+    paperTradingMode: z.enum(['paper', 'live']).optional(),
+    paperTradingSessionId: z.string().optional(),
+  }).optional(),
+  userId: z.string().optional(),
+  walletAddress: z.string().optional(),
+}).refine(data => !(data.windows && data.cron), {
+  message: 'Use either windows or cron, not both',
+}).refine(data => !data.cron || data.durationMinutes !== undefined, {
+  message: 'durationMinutes is required with cron',
+}).refine(data => !(data.endAt && data.runForMinutes), {
+  message: 'Use either endAt or runForMinutes, not both',
+});
+
 /**
  * Zod schema for trading operations
  */
@@ -0,0 +1,129 @@
+/**
+ * Market Data API Routes
+ *
+ * OHLCV candles built by CandleAggregator, new token launches seen by LaunchMonitor
+ * and bonding curve graduations seen by GraduationDetector
+ */
+
+import { Router, Request, Response } from 'express';
+import { candleAggregator, CANDLE_INTERVAL_MS, isCandleInterval } from '../../trading_utils/candles';
+import { launchMonitor } from '../../trading_utils/launches';
+import { graduationDetector } from '../../trading_utils/graduation';
+import { GRADUATION_CONFIG, LAUNCH_CONFIG } from '../../trading_utils/config';
+import { asyncHandler, ValidationError } from '../middleware/errorHandler';
+
+const router = Router();
+
+/**
+ * Accepts epoch milliseconds or an ISO date string
+ */
+function parseTime(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const raw = String(value);
+  const time = /^\d+$/.test(raw) ? Number(raw) : Date.parse(raw);
+  if (!Number.isFinite(time)) {
+    throw new ValidationError(`${name} must be epoch milliseconds or an ISO date`);
+  }
+  return time;
+}
+
+/**
+ * GET /api/v1/market/launches
+ * Recent pump.fun launches, newest first (?limit), with their creator's launch count
+ */
+router.get('/launches', asyncHandler(async (req: Request, res: Response) => {
+  let limit = 50;
+  if (req.query.limit !== undefined) {
+    limit = parseInt(String(req.query.limit), 10);
+    if (!Number.isFinite(limit) || limit < 1 || limit > LAUNCH_CONFIG.MAX_RECENT_LAUNCHES) {
+      throw new ValidationError(`limit must be between 1 and ${LAUNCH_CONFIG.MAX_RECENT_LAUNCHES}`);
+    }
+  }
+
+  const launches = launchMonitor.getRecentLaunches(limit).map(candidate => ({
+    ...candidate,
+    creatorTotalLaunches: launchMonitor.getCreatorHistory(candidate.launch.creator)?.launches ?? 1,
+  }));
+
+  res.json({
+    success: true,
+    data: {
+      watching: launchMonitor.isWatching(),
+      launches,
+      count: launches.length,
+    },
+    timestamp: new Date().toISOString(),
+  });
+}));
+
+/**
+ * GET /api/v1/market/graduations
+ * Recent pump.fun graduations (curve completed, migrated to an AMM pool), newest first (?limit)
+ */
+router.get('/graduations', asyncHandler(async (req: Request, res: Response) => {
+  let limit = 50;
+  if (req.query.limit !== undefined) {
+    limit = parseInt(String(req.query.limit), 10);
+    if (!Number.isFinite(limit) || limit < 1 || limit > GRADUATION_CONFIG.MAX_RECENT_GRADUATIONS) {
+      throw new ValidationError(`limit must be between 1 and ${GRADUATION_CONFIG.MAX_RECENT_GRADUATIONS}`);
+    }
+  }
+
+  const graduations = graduationDetector.getRecentGraduations(limit);
+
+  res.json({
+    success: true,
+    data: {
+      watchedTokens: graduationDetector.getWatchedTokens(),
+      graduations,
+      count: graduations.length,
+    },
+    timestamp: new Date().toISOString(),
+  });
+}));
+
+/**
+ * GET /api/v1/market/:token/candles
+ * OHLCV candles for a token (?interval=1s|1m|5m|1h&from&to&limit), oldest first
+ */
+router.get('/:token/candles', asyncHandler(async (req: Request, res: Response) => {
+  const { token } = req.params;
+  const interval = req.query.interval ?? '1m';
+
+  if (token.length < 32 || token.length > 44) {
+    throw new ValidationError('token must be a 32-44 character Solana address');
+  }
+  if (!isCandleInterval(interval) || !candleAggregator.getIntervals().includes(interval)) {
+    throw new ValidationError(`interval must be one of: ${candleAggregator.getIntervals().join(', ')}`);
+  }
+
+  const from = parseTime(req.query.from, 'from');
+  const to = parseTime(req.query.to, 'to');
+  if (from !== undefined && to !== undefined && from > to) {
+    throw new ValidationError('from must be before to');
+  }
+
+  let limit: number | undefined;
+  if (req.query.limit !== undefined) {
+    limit = parseInt(String(req.query.limit), 10);
+    if (!Number.isFinite(limit) || limit < 1) {
+      throw new ValidationError('limit must be a positive integer');
+    }
+  }
+
+  const candles = await candleAggregator.getCandles(token, interval, { from, to, limit });
+
+  res.json({
+    success: true,
+    data: {
+      tokenAddress: token,
+      interval,
+      intervalMs: CANDLE_INTERVAL_MS[interval],
+      candles,
+      count: candles.length,
+    },
+    timestamp: new Date().toISOString(),
+  });
+}));
+
+export default router;
@@ -6,12 +6,19 @@
 
 import { Router, Request, Response } from 'express';
 import { paperTradingEngine } from '../../trading_utils/paper-trading/PaperTradingEngine';
+import { paperOrderBook } from '../../trading_utils/paper-trading/PaperOrderBook';
+import { paperExperimentManager } from '../../trading_utils/paper-trading/PaperExperimentManager';
+import { PaperOrderStatus } from '../../trading_utils/paper-trading/types';
+import type { SessionStatus } from '../../database/client';
 import { strategyExecutionManager } from '../../trading_utils/StrategyExecutionManager';
+import { strategyBuilder } from '../../trading_utils/StrategyBuilder';
 import { asyncHandler, NotFoundError, ValidationError } from '../middleware/errorHandler';
 import { awsLogger } from '../../aws/logger';
 
 const router = Router();
 
+const SESSION_STATUSES: SessionStatus[] = ['ACTIVE', 'PAUSED', 'COMPLETED', 'CANCELLED'];
+
 /**
  * GET /api/v1/paper-trading/config
  * Get default paper trading configuration
@@ -66,14 +73,51 @@ router.post('/sessions', asyncHandler(async (req: Request, res: Response) => {
   });
 }));
 
+/**
+ * GET /api/v1/paper-trading/sessions
+ * List sessions from the database, newest first (?userId&status=active|paused|completed|cancelled&page&limit)
+ */
+router.get('/sessions', asyncHandler(async (req: Request, res: Response) => {
+  const { userId, status } = req.query;
+  const page = req.query.page !== undefined ? parseInt(String(req.query.page), 10) : 1;
+  const limit = req.query.limit !== undefined ? parseInt(String(req.query.limit), 10) : 50;
+
+  if (!Number.isFinite(page) || page < 1) {
+    throw new ValidationError('page must be a positive integer');
+  }
+  if (!Number.isFinite(limit) || limit < 1 || limit > 200) {
+    throw new ValidationError('limit must be between 1 and 200');
+  }
+  const statusFilter = status !== undefined ? String(status).toUpperCase() : undefined;
+  if (statusFilter !== undefined && !SESSION_STATUSES.includes(statusFilter as SessionStatus)) {
+    throw new ValidationError(`status must be one of: ${SESSION_STATUSES.map(s => s.toLowerCase()).join(', ')}`);
+  }
+
+  const { sessions, total, pages } = await paperTradingEngine.listSessions(page, limit, {
+    userId: userId !== undefined ? String(userId) : undefined,
+    status: statusFilter as SessionStatus | undefined,
+  });
+
+  res.json({
+    success: true,
+    data: {
+      sessions,
+      total,
+      page,
+      pages,
+    },
+    timestamp: new Date().toISOString(),
+  });
+}));
+
 /**
  * GET /api/v1/paper-trading/sessions/:sessionId
- * Get paper trading session state
+ * Get paper trading session state (ended sessions are read from the database)
  */
 router.get('/sessions/:sessionId', asyncHandler(async (req: Request, res: Response) => {
   const { sessionId } = req.params;
 
-  const session = paperTradingEngine.getSession(sessionId);
+  const session = await paperTradingEngine.findSession(sessionId);
 
   if (!session) {
     throw new NotFoundError(`Paper trading session '${sessionId}' not found`);
@@ -99,6 +143,8 @@ router.delete('/sessions/:sessionId', asyncHandler(async (req: Request, res: Res
     throw new NotFoundError(`Paper trading session '${sessionId}' not found`);
   }
 
+  paperOrderBook.clearSession(sessionId);
+
   await awsLogger.info('Paper trading session deleted via API', {
     metadata: { sessionId }
   });
@@ -138,12 +184,14 @@ router.get('/sessions/:sessionId/trades', asyncHandler(async (req: Request, res:
   const { sessionId } = req.params;
   const { limit, offset } = req.query;
 
-  let trades = paperTradingEngine.getTrades(sessionId);
+  const session = await paperTradingEngine.findSession(sessionId);
 
-  if (!trades) {
+  if (!session) {
     throw new NotFoundError(`Paper trading session '${sessionId}' not found`);
   }
 
+  let trades = session.trades;
+
   // Apply pagination
   const limitNum = limit ? parseInt(limit as string) : undefined;
   const offsetNum = offset ? parseInt(offset as string) : 0;
@@ -200,7 +248,7 @@ router.get('/sessions/:sessionId/logs', asyncHandler(async (req: Request, res: R
 router.post('/sessions/:sessionId/pause', asyncHandler(async (req: Request, res: Response) => {
   const { sessionId } = req.params;
 
-  const success = paperTradingEngine.pauseSession(sessionId);
+  const success = await paperTradingEngine.pauseSession(sessionId);
 
   if (!success) {
     throw new NotFoundError(`Paper trading session '${sessionId}' not found`);
@@ -224,7 +272,7 @@ router.post('/sessions/:sessionId/pause', asyncHandler(async (req: Request, res:
 router.post('/sessions/:sessionId/resume', asyncHandler(async (req: Request, res: Response) => {
   const { sessionId } = req.params;
 
-  const success = paperTradingEngine.resumeSession(sessionId);
+  const success = await paperTradingEngine.resumeSession(sessionId);
 
   if (!success) {
     throw new NotFoundError(`Paper trading session '${sessionId}' not found`);
@@ -254,6 +302,8 @@ router.post('/sessions/:sessionId/end', asyncHandler(async (req: Request, res: R
     throw new NotFoundError(`Paper trading session '${sessionId}' not found`);
   }
 
+  paperOrderBook.cancelAllOrders(sessionId);
+
   const metrics = await paperTradingEngine.getMetrics(sessionId);
 
   await awsLogger.info('Paper trading session ended', {
@@ -281,6 +331,8 @@ router.post('/sessions/:sessionId/reset', asyncHandler(async (req: Request, res:
     throw new NotFoundError(`Paper trading session '${sessionId}' not found`);
   }
 
+  paperOrderBook.cancelAllOrders(sessionId);
+
   await awsLogger.info('Paper trading session reset', {
     metadata: { sessionId }
   });
@@ -304,7 +356,7 @@ router.put('/sessions/:sessionId/config', asyncHandler(async (req: Request, res:
     throw new ValidationError('config is required');
   }
 
-  const success = paperTradingEngine.updateConfig(sessionId, config);
+  const success = await paperTradingEngine.updateConfig(sessionId, config);
 
   if (!success) {
     throw new NotFoundError(`Paper trading session '${sessionId}' not found`);
@@ -334,6 +386,8 @@ router.delete('/sessions/:sessionId', asyncHandler(async (req: Request, res: Res
     throw new NotFoundError(`Paper trading session '${sessionId}' not found`);
   }
 
+  paperOrderBook.clearSession(sessionId);
+
   await awsLogger.info('Paper trading session deleted', {
     metadata: { sessionId }
   });
@@ -345,6 +399,255 @@ router.delete('/sessions/:sessionId', asyncHandler(async (req: Request, res: Res
   });
 }));
 
+/**
+ * GET /api/v1/paper-trading/sessions/:sessionId/orders
+ * List resting orders for a session (optional ?status=open|triggered|filled|cancelled|rejected|expired)
+ */
+router.get('/sessions/:sessionId/orders', asyncHandler(async (req: Request, res: Response) => {
+  const { sessionId } = req.params;
+  const status = req.query.status as PaperOrderStatus | undefined;
+
+  if (!paperTradingEngine.getSession(sessionId)) {
+    throw new NotFoundError(`Paper trading session '${sessionId}' not found`);
+  }
+
+  const orders = paperOrderBook.getOrders(sessionId, status);
+
+  res.json({
+    success: true,
+    data: {
+      orders,
+      total: orders.length,
+    },
+    timestamp: new Date().toISOString(),
+  });
+}));
+
+/**
+ * POST /api/v1/paper-trading/sessions/:sessionId/orders
+ * Place a limit, stop_market or stop_limit order (prices in SOL per token, buy amounts in quoteCurrency - SOL or USDC)
+ */
+router.post('/sessions/:sessionId/orders', asyncHandler(async (req: Request, res: Response) => {
+  const { sessionId } = req.params;
+  const { tokenAddress, side, type, amount, quoteCurrency, limitPrice, stopPrice, expiresAt, strategyId, strategyName } = req.body;
+
+  if (!paperTradingEngine.getSession(sessionId)) {
+    throw new NotFoundError(`Paper trading session '${sessionId}' not found`);
+  }
+
+  const request = { tokenAddress, side, type, amount, quoteCurrency, limitPrice, stopPrice, expiresAt, strategyId, strategyName };
+  const validationError = paperOrderBook.validateOrderRequest(request);
+  if (validationError) {
+    throw new ValidationError(validationError);
+  }
+
+  const order = paperOrderBook.placeOrder(sessionId, request);
+
+  await awsLogger.info('Paper trading order placed', {
+    metadata: { sessionId, orderId: order.id, side, type, tokenAddress }
+  });
+
+  res.status(201).json({
+    success: true,
+    data: { order },
+    timestamp: new Date().toISOString(),
+  });
+}));
+
+/**
+ * GET /api/v1/paper-trading/sessions/:sessionId/orders/:orderId
+ * Get a single order
+ */
+router.get('/sessions/:sessionId/orders/:orderId', asyncHandler(async (req: Request, res: Response) => {
+  const { sessionId, orderId } = req.params;
+
+  const order = paperOrderBook.getOrder(sessionId, orderId);
+
+  if (!order) {
+    throw new NotFoundError(`Order '${orderId}' not found on session '${sessionId}'`);
+  }
+
+  res.json({
+    success: true,
+    data: { order },
+    timestamp: new Date().toISOString(),
+  });
+}));
+
+/**
+ * PATCH /api/v1/paper-trading/sessions/:sessionId/orders/:orderId
+ * Modify amount, limitPrice, stopPrice or expiresAt of a working order
+ */
+router.patch('/sessions/:sessionId/orders/:orderId', asyncHandler(async (req: Request, res: Response) => {
+  const { sessionId, orderId } = req.params;
+  const { amount, limitPrice, stopPrice, expiresAt } = req.body;
+
+  if (!paperOrderBook.getOrder(sessionId, orderId)) {
+    throw new NotFoundError(`Order '${orderId}' not found on session '${sessionId}'`);
+  }
+
+  let order;
+  try {
+    order = paperOrderBook.modifyOrder(sessionId, orderId, { amount, limitPrice, stopPrice, expiresAt });
+  } catch (error) {
+    throw new ValidationError(error instanceof Error ? error.message : String(error));
+  }
+
+  await awsLogger.info('Paper trading order modified', {
+    metadata: { sessionId, orderId, amount, limitPrice, stopPrice, expiresAt }
+  });
+
+  res.json({
+    success: true,
+    data: { order },
+    timestamp: new Date().toISOString(),
+  });
+}));
+
+/**
+ * DELETE /api/v1/paper-trading/sessions/:sessionId/orders/:orderId
+ * Cancel a working order
+ */
+router.delete('/sessions/:sessionId/orders/:orderId', asyncHandler(async (req: Request, res: Response) => {
+  const { sessionId, orderId } = req.params;
+
+  if (!paperOrderBook.getOrder(sessionId, orderId)) {
+    throw new NotFoundError(`Order '${orderId}' not found on session '${sessionId}'`);
+  }
+
+  let order;
+  try {
+    order = paperOrderBook.cancelOrder(sessionId, orderId);
+  } catch (error) {
+    throw new ValidationError(error instanceof Error ? error.message : String(error));
+  }
+
+  await awsLogger.info('Paper trading order cancelled', {
+    metadata: { sessionId, orderId }
+  });
+
+  res.json({
+    success: true,
+    data: { order },
+    timestamp: new Date().toISOString(),
+  });
+}));
+
+/**
+ * POST /api/v1/paper-trading/experiments
+ * Start an A/B experiment: N strategy variants in linked paper sessions on one shared market feed (the first variant is the control)
+ */
+router.post('/experiments', asyncHandler(async (req: Request, res: Response) => {
+  const { name, userId, tokenAddress, variants, config, tickIntervalMs, durationMs } = req.body;
+
+  const request = { name, userId, tokenAddress, variants, config, tickIntervalMs, durationMs };
+  const validationError = paperExperimentManager.validateExperimentRequest(request);
+  if (validationError) {
+    throw new ValidationError(validationError);
+  }
+
+  for (const variant of request.variants) {
+    if (!strategyBuilder.getStrategy(variant.strategyId)) {
+      throw new NotFoundError(`Strategy '${variant.strategyId}' not found`);
+    }
+  }
+
+  const experiment = await paperExperimentManager.createExperiment(request);
+
+  await awsLogger.info('Paper trading experiment created via API', {
+    metadata: { experimentId: experiment.id, userId, tokenAddress, variants: experiment.variants.length }
+  });
+
+  res.status(201).json({
+    success: true,
+    data: { experiment },
+    timestamp: new Date().toISOString(),
+  });
+}));
+
+/**
+ * GET /api/v1/paper-trading/experiments
+ * List experiments, newest first (optional ?userId)
+ */
+router.get('/experiments', asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.query.userId ? String(req.query.userId) : undefined;
+
+  const experiments = paperExperimentManager.listExperiments(userId);
+
+  res.json({
+    success: true,
+    data: {
+      experiments,
+      total: experiments.length,
+    },
+    timestamp: new Date().toISOString(),
+  });
+}));
+
+/**
+ * GET /api/v1/paper-trading/experiments/:experimentId
+ * Get an experiment and the status of its variants
+ */
+router.get('/experiments/:experimentId', asyncHandler(async (req: Request, res: Response) => {
+  const { experimentId } = req.params;
+
+  const experiment = paperExperimentManager.getExperiment(experimentId);
+
+  if (!experiment) {
+    throw new NotFoundError(`Paper trading experiment '${experimentId}' not found`);
+  }
+
+  res.json({
+    success: true,
+    data: { experiment },
+    timestamp: new Date().toISOString(),
+  });
+}));
+
+/**
+ * GET /api/v1/paper-trading/experiments/:experimentId/report
+ * Comparative metrics (ROI, drawdown, win rate, fees) per variant, with significance against the control
+ */
+router.get('/experiments/:experimentId/report', asyncHandler(async (req: Request, res: Response) => {
+  const { experimentId } = req.params;
+
+  const report = await paperExperimentManager.getReport(experimentId);
+
+  if (!report) {
+    throw new NotFoundError(`Paper trading experiment '${experimentId}' not found`);
+  }
+
+  res.json({
+    success: true,
+    data: { report },
+    timestamp: new Date().toISOString(),
+  });
+}));
+
+/**
+ * POST /api/v1/paper-trading/experiments/:experimentId/stop
+ * Stop an experiment and end its sessions
+ */
+router.post('/experiments/:experimentId/stop', asyncHandler(async (req: Request, res: Response) => {
+  const { experimentId } = req.params;
+
+  const experiment = await paperExperimentManager.stopExperiment(experimentId);
+
+  if (!experiment) {
+    throw new NotFoundError(`Paper trading experiment '${experimentId}' not found`);
+  }
+
+  await awsLogger.info('Paper trading experiment stopped via API', {
+    metadata: { experimentId }
+  });
+
+  res.json({
+    success: true,
+    data: { experiment },
+    timestamp: new Date().toISOString(),
+  });
+}));
+
 /**
  * GET /api/v1/paper-trading/active-sessions
  * Get all active paper trading sessions
@@ -6,12 +6,20 @@
 import { Router, Request, Response } from 'express';
 import { strategyBuilder } from '../../trading_utils/StrategyBuilder';
 import { createStrategyFromTemplate } from '../../trading_utils/StrategyTemplates';
+import { backtestEngine, parameterSweepOptimizer, SweepConfigError } from '../../trading_utils/backtesting';
+import { launchTapeReplay } from '../../trading_utils/launches';
+import { formatDryRunSummary, DryRunConfigError } from '../../trading_utils/dryrun';
 import {
   validateRequest,
   validateStrategyId,
   createStrategySchema,
   updateStrategySchema,
   createFromTemplateSchema,
+  backtestStrategySchema,
+  dryRunStrategySchema,
+  launchReplaySchema,
+  optimizeStrategySchema,
+  strategyScheduleSchema,
 } from '../middleware/validation';
 import { asyncHandler, NotFoundError, ValidationError } from '../middleware/errorHandler';
 import { strategyCreationLimiter } from '../middleware/rateLimiting';
@@ -349,6 +357,292 @@ router.post('/:id/save', validateStrategyId, asyncHandler(async (req: Request, r
   });
 }));
 
+/**
+ * POST /api/v1/strategies/:id/dry-run
+ * Explain what a strategy would do on a supplied or synthetic price path (no orders are sent)
+ */
+router.post(
+  '/:id/dry-run',
+  validateStrategyId,
+  validateRequest(dryRunStrategySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const strategy = strategyBuilder.getStrategy(id);
+    if (!strategy) {
+      throw new NotFoundError(`Strategy '${id}' not found`);
+    }
+
+    let result;
+    try {
+      result = await strategyBuilder.dryRunStrategy(id, req.body);
+    } catch (error) {
+      // Bad price paths are caller errors, anything else is ours
+      if (error instanceof DryRunConfigError) {
+        throw new ValidationError(error.message);
+      }
+      throw error;
+    }
+
+    res.json({
+      success: true,
+      data: { result, summary: formatDryRunSummary(result) },
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * POST /api/v1/strategies/:id/backtest
+ * Start replaying a strategy against recorded price/trade history in the background
+ */
+router.post(
+  '/:id/backtest',
+  validateStrategyId,
+  validateRequest(backtestStrategySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { dataset, config } = req.body;
+
+    const strategy = strategyBuilder.getStrategy(id);
+    if (!strategy) {
+      throw new NotFoundError(`Strategy '${id}' not found`);
+    }
+
+    if (dataset.prices.length === 0 && (!dataset.trades || dataset.trades.length === 0)) {
+      throw new ValidationError('dataset must contain at least one price point or trade');
+    }
+
+    const job = backtestEngine.startJob(strategy, dataset, config);
+
+    awsLogger.info('Backtest started', {
+      strategyId: id,
+      metadata: { jobId: job.id, tokenAddress: job.tokenAddress },
+    });
+
+    res.status(202).json({
+      success: true,
+      data: { job },
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * GET /api/v1/strategies/backtest/jobs/:jobId
+ * Poll a backtest; the result is included once it completes
+ */
+router.get('/backtest/jobs/:jobId', asyncHandler(async (req: Request, res: Response) => {
+  const { jobId } = req.params;
+
+  const job = backtestEngine.getJob(jobId);
+  if (!job) {
+    throw new NotFoundError(`Backtest job '${jobId}' not found`);
+  }
+
+  res.json({
+    success: true,
+    data: { job },
+    timestamp: new Date().toISOString(),
+  });
+}));
+
+/**
+ * POST /api/v1/strategies/:id/launch-replay
+ * Replay a launch-watching strategy against a recorded launch tape
+ */
+router.post(
+  '/:id/launch-replay',
+  validateStrategyId,
+  validateRequest(launchReplaySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { tape, config } = req.body;
+
+    const strategy = strategyBuilder.getStrategy(id);
+    if (!strategy) {
+      throw new NotFoundError(`Strategy '${id}' not found`);
+    }
+
+    if (!strategy.steps.some(step => step.type === 'waitForLaunch')) {
+      throw new ValidationError(`Strategy '${id}' has no waitForLaunch step - use /backtest for single-token strategies`);
+    }
+
+    const result = await launchTapeReplay.runReplay(strategy, tape, config);
+
+    res.json({
+      success: true,
+      data: { result },
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * POST /api/v1/strategies/optimize
+ * Start a template parameter search; candidates are backtested on recorded history in the background
+ */
+router.post(
+  '/optimize',
+  validateRequest(optimizeStrategySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { dataset, ...sweepConfig } = req.body;
+
+    if (dataset.prices.length === 0 && (!dataset.trades || dataset.trades.length === 0)) {
+      throw new ValidationError('dataset must contain at least one price point or trade');
+    }
+
+    let job;
+    try {
+      job = parameterSweepOptimizer.startJob(dataset, sweepConfig);
+    } catch (error) {
+      // Range/bounds problems are caller errors, anything else is ours
+      if (error instanceof SweepConfigError) {
+        throw new ValidationError(error.message);
+      }
+      throw error;
+    }
+
+    awsLogger.info('Parameter sweep started', {
+      metadata: { jobId: job.id, templateName: job.templateName, method: job.method },
+    });
+
+    res.status(202).json({
+      success: true,
+      data: { job },
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * GET /api/v1/strategies/optimize/jobs/:jobId
+ * Poll a parameter search; the ranked result is included once it completes
+ */
+router.get('/optimize/jobs/:jobId', asyncHandler(async (req: Request, res: Response) => {
+  const { jobId } = req.params;
+
+  const job = parameterSweepOptimizer.getJob(jobId);
+  if (!job) {
+    throw new NotFoundError(`Optimization job '${jobId}' not found`);
+  }
+
+  res.json({
+    success: true,
+    data: { job },
+    timestamp: new Date().toISOString(),
+  });
+}));
+
+/**
+ * GET /api/v1/strategies/schedules/upcoming
+ * Upcoming scheduled runs across all strategies
+ */
+router.get('/schedules/upcoming', asyncHandler(async (req: Request, res: Response) => {
+  const count = Math.min(Math.max(parseInt(req.query.count as string) || 20, 1), 200);
+
+  const { strategyScheduler } = await import('../../trading_utils/StrategyScheduler');
+
+  res.json({
+    success: true,
+    data: {
+      upcoming: strategyScheduler.getUpcomingRuns(count),
+      schedules: strategyScheduler.listSchedules(1).length,
+    },
+    timestamp: new Date().toISOString(),
+  });
+}));
+
+/**
+ * GET /api/v1/strategies/:id/schedule
+ * Get a strategy's schedule and its upcoming runs
+ */
+router.get('/:id/schedule', validateStrategyId, asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const count = Math.min(Math.max(parseInt(req.query.count as string) || 5, 1), 100);
+
+  const { strategyScheduler } = await import('../../trading_utils/StrategyScheduler');
+  const schedule = strategyScheduler.getSchedule(id, count);
+
+  if (!schedule) {
+    throw new NotFoundError(`Strategy '${id}' has no schedule`);
+  }
+
+  res.json({
+    success: true,
+    data: { schedule },
+    timestamp: new Date().toISOString(),
+  });
+}));
+
+/**
+ * PUT /api/v1/strategies/:id/schedule
+ * Create or replace a strategy's activation schedule (windows or cron, UTC)
+ */
+router.put(
+  '/:id/schedule',
+  validateStrategyId,
+  validateRequest(strategyScheduleSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { startAt, endAt, runForMinutes, ...rest } = req.body;
+
+    const strategy = strategyBuilder.getStrategy(id);
+    if (!strategy) {
+      throw new NotFoundError(`Strategy '${id}' not found`);
+    }
+
+    const start = startAt ? new Date(startAt) : undefined;
+    const end = endAt
+      ? new Date(endAt)
+      : runForMinutes
+        ? new Date((start?.getTime() ?? Date.now()) + runForMinutes * 60 * 1000)
+        : undefined;
+
+    const { strategyScheduler, validateScheduleInput } = await import('../../trading_utils/StrategyScheduler');
+    const input = { ...rest, startAt: start, endAt: end };
+
+    try {
+      validateScheduleInput(input);
+    } catch (error) {
+      // Bad cron / window definitions are caller errors
+      throw new ValidationError(error instanceof Error ? error.message : String(error));
+    }
+
+    const schedule = await strategyScheduler.setSchedule(id, input);
+
+    awsLogger.info('Strategy schedule set via API', { metadata: { strategyId: id, state: schedule.state } });
+
+    res.json({
+      success: true,
+      data: { schedule },
+      message: `Schedule for strategy '${id}' saved`,
+      timestamp: new Date().toISOString(),
+    });
+  })
+);
+
+/**
+ * DELETE /api/v1/strategies/:id/schedule
+ * Remove a strategy's schedule (a run it started keeps its current state)
+ */
+router.delete('/:id/schedule', validateStrategyId, asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const { strategyScheduler } = await import('../../trading_utils/StrategyScheduler');
+  const removed = await strategyScheduler.removeSchedule(id);
+
+  if (!removed) {
+    throw new NotFoundError(`Strategy '${id}' has no schedule`);
+  }
+
+  res.json({
+    success: true,
+    message: `Schedule for strategy '${id}' removed`,
+    timestamp: new Date().toISOString(),
+  });
+}));
+
 /**
  * POST /api/v1/strategies/:id/stop
  * Stop a running strategy
@@ -416,14 +710,8 @@ router.post('/:id/pause', validateStrategyId, asyncHandler(async (req: Request,
     throw new ValidationError(`Strategy is not running (current status: ${runningStrategy.status})`);
   }
 
-  // Update status to paused
-  runningStrategy.status = 'paused';
-  
-  // Clear the interval to pause execution
-  if (runningStrategy.intervalId) {
-    clearTimeout(runningStrategy.intervalId);
-    runningStrategy.intervalId = undefined;
-  }
+  // Update status to paused and clear the pending execution
+  strategyExecutionManager.pauseStrategy(runningId);
 
   // Broadcast status change via WebSocket
   const { getWebSocketHandlers } = await import('../websocket');
@@ -445,10 +733,11 @@ router.post('/:id/pause', validateStrategyId, asyncHandler(async (req: Request,
 /**
  * POST /api/v1/strategies/:id/resume
  * Resume a paused strategy
+ * skipPendingStep: treat a trade step interrupted by a restart as filled instead of re-running it
  */
 router.post('/:id/resume', validateStrategyId, asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
-  const { runningId } = req.body;
+  const { runningId, skipPendingStep } = req.body;
 
   if (!runningId) {
     throw new ValidationError('runningId is required');
@@ -467,12 +756,8 @@ router.post('/:id/resume', validateStrategyId, asyncHandler(async (req: Request,
     throw new ValidationError(`Strategy is not paused (current status: ${runningStrategy.status})`);
   }
 
-  // Update status back to running
-  runningStrategy.status = 'running';
-  
-  // Resume execution
-  // Access the private method through the manager instance
-  (strategyExecutionManager as any).executeStrategyContinuously(runningId);
+  // Update status back to running and resume execution
+  strategyExecutionManager.resumeStrategy(runningId, skipPendingStep === true);
 
   // Broadcast status change via WebSocket
   const { getWebSocketHandlers } = await import('../websocket');
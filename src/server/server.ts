@@ -13,7 +13,9 @@ import { performanceMonitor } from "../trading_utils/PerformanceOptimizer";
 import { awsLogger } from "../aws/logger";
 import { getAWSConfig } from "../aws/config";
 import { mpcWalletManager } from "../trading_utils/MPCWallet";
-import { MPC_CONFIG } from "../trading_utils/config";
+import { MPC_CONFIG, PLUGIN_CONFIG } from "../trading_utils/config";
+import { strategyPluginLoader } from "../trading_utils/StrategyPluginLoader";
+import { strategyScheduler } from "../trading_utils/StrategyScheduler";
 import authRoutes from "./routes/auth";
 
 // Database imports
@@ -32,11 +34,16 @@ import performanceRoutes from "./routes/performance";
 import approvalRoutes from "./routes/approvals";
 import paperTradingRoutes from "./routes/paper-trading";
 import monitoringRoutes from "./routes/monitoring";
+import marketRoutes from "./routes/market";
 import { setupSwagger } from "./swagger";
 import { WebSocketHandlers, setWebSocketHandlers } from "./websocket";
 import { performanceBroadcaster } from "./websocket/performanceBroadcaster";
 import { initializeSecrets } from "../security/SecretsManager";
 import { paperTradingEngine } from "../trading_utils/paper-trading/PaperTradingEngine";
+import { paperOrderBook } from "../trading_utils/paper-trading/PaperOrderBook";
+import { executionSimulator } from "../trading_utils/paper-trading/ExecutionSimulator";
+import { paperExperimentManager } from "../trading_utils/paper-trading/PaperExperimentManager";
+import { candleAggregator } from "../trading_utils/candles";
 import { agentController } from "../agent/agentController";
 import { RealTradeFeedService } from "./websocket/RealTradeFeedService";
 import { TokenValidationService } from "../trading_utils/TokenValidationService";
@@ -78,6 +85,9 @@ performanceBroadcaster.initialize(wsHandlers);
 
 // Initialize paper trading engine with WebSocket
 paperTradingEngine.setSocketIO(io);
+paperOrderBook.setSocketIO(io);
+paperExperimentManager.setSocketIO(io);
+candleAggregator.setSocketIO(io);
 
 // Initialize agent controller with WebSocket
 agentController.setSocketIO(io);
@@ -86,6 +96,7 @@ console.log('AgentController WebSocket configured in server.ts');
 // Initialize strategy execution manager with WebSocket
 strategyExecutionManager.setWebSocketServer(io);
 console.log('StrategyExecutionManager WebSocket configured in server.ts');
+strategyScheduler.setWebSocketServer(io);
 
 // Log RPC configuration
 logRPCConfiguration();
@@ -99,6 +110,10 @@ realTradeFeed.start();
 
 // Connect Real Trade Feed to Strategy Execution Manager
 strategyExecutionManager.setRealTradeFeed(realTradeFeed);
+paperOrderBook.setRealTradeFeed(realTradeFeed);
+executionSimulator.setRealTradeFeed(realTradeFeed);
+paperExperimentManager.setRealTradeFeed(realTradeFeed);
+candleAggregator.attachTradeFeed(realTradeFeed);
 console.log('✅ Real Trade Feed Service connected to Strategy Execution Manager');
 
 // Initialize Token Validation Service with optimized connection
@@ -176,6 +191,7 @@ app.get("/", (req, res) => {
       trade: "/api/v1/wallet/trade/:type",
       health: awsConfig.healthCheckPath,
       performance: "/api/performance",
+      candles: "/api/v1/market/:token/candles",
     },
     timestamp: new Date().toISOString(),
   });
@@ -191,6 +207,7 @@ app.use('/api/approvals', approvalRoutes);
 app.use('/api/v1/paper-trading', paperTradingRoutes);
 app.use('/api/auth', authRoutes);
 app.use('/api/monitoring', monitoringRoutes);
+app.use('/api/v1/market', marketRoutes);
 
 // Jupiter DEX Integration endpoints
 app.get('/api/jupiter/quote', async (req, res) => {
@@ -495,9 +512,12 @@ app.use(errorHandler);
 // Graceful shutdown handler
 process.on("SIGTERM", async () => {
   awsLogger.info("SIGTERM received, starting graceful shutdown");
-  await disconnectDatabase(); // Disconnect database
   wsHandlers.shutdown();
-  await strategyExecutionManager.shutdown();
+  strategyPluginLoader.stopWatching();
+  strategyScheduler.stop();
+  await strategyExecutionManager.shutdown(); // Checkpoints strategies, so run before disconnecting
+  await candleAggregator.stop(); // Writes forming candles
+  await disconnectDatabase(); // Disconnect database
   server.close(() => {
     awsLogger.info("Server shutdown complete");
     process.exit(0);
@@ -506,9 +526,12 @@ process.on("SIGTERM", async () => {
 
 process.on("SIGINT", async () => {
   awsLogger.info("SIGINT received, starting graceful shutdown");
-  await disconnectDatabase(); // Disconnect database
   wsHandlers.shutdown();
-  await strategyExecutionManager.shutdown();
+  strategyPluginLoader.stopWatching();
+  strategyScheduler.stop();
+  await strategyExecutionManager.shutdown(); // Checkpoints strategies, so run before disconnecting
+  await candleAggregator.stop(); // Writes forming candles
+  await disconnectDatabase(); // Disconnect database
   server.close(() => {
     awsLogger.info("Server shutdown complete");
     process.exit(0);
@@ -523,6 +546,25 @@ export const startServer = async () => {
     await connectDatabase();
     console.log(' Database connected successfully');
 
+    // Discover strategy plugins (registers their types before anything uses the registry)
+    if (PLUGIN_CONFIG.ENABLED) {
+      await strategyPluginLoader.loadAll();
+      if (PLUGIN_CONFIG.HOT_RELOAD) {
+        strategyPluginLoader.watch();
+      }
+    }
+
+    // Reload paper sessions first so resumed paper strategies keep their balances and trades
+    await paperTradingEngine.rehydrateSessions();
+
+    // Resume strategies that were running before the last shutdown/crash
+    await strategyExecutionManager.rehydrateStrategies();
+
+    // Pick up schedules after rehydration so runs they own are back in memory
+    await strategyScheduler.start();
+
+    candleAggregator.start();
+
     // Initialize AWS Secrets Manager (if enabled)
     await initializeSecrets();
     
@@ -611,10 +653,13 @@ async function gracefulShutdown(signal: string) {
       });
     });
     
-    // 2. Stop all running strategies
+    // 2. Stop all running strategies (state is kept so they resume on next boot)
     console.log(' Stopping all strategies...');
-    await strategyExecutionManager.stopAllStrategies();
+    strategyScheduler.stop(); // Otherwise a tick could restart what we just stopped
+    await strategyExecutionManager.shutdown();
     console.log('✅ All strategies stopped');
+    strategyPluginLoader.stopWatching();
+    await candleAggregator.stop();
     
     // 3. Close WebSocket connections
     console.log(' Closing WebSocket connections...');
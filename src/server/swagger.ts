@@ -58,7 +58,10 @@ const options: swaggerJsdoc.Options = {
                   id: { type: 'string' },
                   type: { type: 'string', enum: ['buy', 'sell', 'wait', 'condition', 'get_price', 'custom'] },
                   amountInSol: { type: 'number' },
+                  tokenAddress: { type: 'string', description: 'Mint this buy/sell/getPrice step targets (defaults to the strategy token)' },
                   targetPrice: { type: 'number' },
+                  condition: { type: 'string', enum: ['priceAbove', 'priceBelow', 'custom', 'expression'] },
+                  expression: { type: 'string', example: 'price < vars.entry * 0.9 && volume5m > 20' },
                   onSuccess: { type: 'string' },
                   onFailure: { type: 'string' },
                 },
@@ -7,10 +7,13 @@
 
 import { EventEmitter } from 'events';
 import { SolanaTradeMonitor } from './SolanaTradeMonitor';
-import { PumpFunWebSocketListener } from '../../trading_utils/PumpFunWebSocketListener';
+import { PumpFunWebSocketListener, PumpFunLaunchEvent } from '../../trading_utils/PumpFunWebSocketListener';
 import { RaydiumWebSocketListener } from '../../trading_utils/RaydiumWebSocketListener';
 import { JupiterWebSocketListener } from '../../trading_utils/JupiterWebSocketListener';
+import { WalletWebSocketListener, WalletSwapEvent } from '../../trading_utils/WalletWebSocketListener';
 import { TokenRouter, getTokenRouter } from '../../trading_utils/TokenRouter';
+import { indicatorEngine, IndicatorPeriods, IndicatorSnapshot } from '../../trading_utils/indicators';
+import type { TokenGraduation } from '../../trading_utils/graduation';
 import { Connection } from '@solana/web3.js';
 import { Server as SocketServer } from 'socket.io';
 import { IDL } from '../../idl/pump.idl';
@@ -50,6 +53,7 @@ export class RealTradeFeedService extends EventEmitter {
   private webSocketListener?: PumpFunWebSocketListener;
   private raydiumListener?: RaydiumWebSocketListener;
   private jupiterListener?: JupiterWebSocketListener;
+  private walletListener?: WalletWebSocketListener;
   private tokenRouter: TokenRouter;
   private io: SocketServer;
   private rpcUrl: string;
@@ -57,6 +61,9 @@ export class RealTradeFeedService extends EventEmitter {
   // Trade statistics per token
   private tradeStats: Map<string, TradeStats> = new Map();
   
+  // Who asked for each token (socket ids, running strategy ids, paper services) - listeners stop with the last one
+  private tokenSubscribers: Map<string, Set<string>> = new Map();
+
   // Recent trades buffer (last 100 trades per token)
   private recentTrades: Map<string, RealTradeEvent[]> = new Map();
   private readonly MAX_TRADES_PER_TOKEN = 100;
@@ -98,6 +105,9 @@ export class RealTradeFeedService extends EventEmitter {
 
     // Initialize Jupiter WebSocket Listener (aggregator trades - captures most DexScreener trades)
     this.jupiterListener = new JupiterWebSocketListener(this.rpcUrl);
+
+    // Initialize Wallet WebSocket Listener (swaps of followed wallets for copy trading)
+    this.walletListener = new WalletWebSocketListener(this.rpcUrl, IDL as Idl);
     
     this.setupEventHandlers();
     this.setupEventForwarding();
@@ -209,6 +219,7 @@ export class RealTradeFeedService extends EventEmitter {
 
       // Update statistics (all trades)
       this.updateTradeStats(trade);
+      indicatorEngine.update(trade);
 
       // Create enhanced trade object for strategy consumption
       const enhancedTrade = {
@@ -248,6 +259,9 @@ export class RealTradeFeedService extends EventEmitter {
         totalUSD: totalUSD
       });
       
+      // Unfiltered feed for price consumers (paper order book)
+      this.emit('market_trade', enhancedTrade);
+
       // Only forward to strategy if trade matches the filter
       if (shouldForwardToStrategy) {
         console.log(`\n🚀🚀🚀 [STRATEGY TRIGGER] ${trade.type.toUpperCase()} MATCH -> FORWARDING TO STRATEGY 🚀🚀🚀`);
@@ -355,6 +369,17 @@ export class RealTradeFeedService extends EventEmitter {
         console.log(`🚀 [RealTradeFeedService] Pump.fun trade detected (bonding curve)`);
         
         this.handleRealTrade(trade);
+
+        // A buy that empties the curve completes it - the token migrates to an AMM pool next
+        if (tradeData.isBuy && tradeData.realTokenReserves <= 0) {
+          this.emit('curve_complete', { tokenAddress: tradeData.mint, timestamp: trade.timestamp });
+        }
+      });
+
+      // New token launches (only emitted while launches are watched)
+      this.webSocketListener.on('launch', (launch: PumpFunLaunchEvent) => {
+        this.updateLastTradeTimestamp();
+        this.emit('launch', launch);
       });
       
       console.log('[RealTradeFeedService] ✅ Event handlers connected to PumpFunWebSocketListener');
@@ -423,6 +448,16 @@ export class RealTradeFeedService extends EventEmitter {
       console.log('[RealTradeFeedService] ✅ Event handlers connected to JupiterWebSocketListener');
       console.log('[RealTradeFeedService] ⚡ Monitoring Jupiter aggregator routes (CAPTURES MOST DEXSCREENER TRADES)');
     }
+
+    // Swaps signed by followed wallets (any token, any supported venue)
+    if (this.walletListener) {
+      this.walletListener.on('wallet_trade', (swap: WalletSwapEvent) => {
+        this.updateLastTradeTimestamp();
+        this.emit('wallet_trade', swap);
+      });
+
+      console.log('[RealTradeFeedService] ✅ Event handlers connected to WalletWebSocketListener');
+    }
   }
 
   /**
@@ -517,12 +552,16 @@ export class RealTradeFeedService extends EventEmitter {
       // Reconnect PumpFun listener
       if (this.webSocketListener) {
         const pumpTokens = this.webSocketListener.getMonitoredTokens();
-        if (pumpTokens.length > 0) {
+        const watchingLaunches = this.webSocketListener.isWatchingLaunches();
+        if (pumpTokens.length > 0 || watchingLaunches) {
           await this.webSocketListener.stop();
           for (const token of pumpTokens) {
             await this.webSocketListener.start(token);
           }
-          console.log(`[RealTradeFeedService] ✅ PumpFun reconnected: ${pumpTokens.length} tokens`);
+          if (watchingLaunches) {
+            await this.webSocketListener.watchLaunches();
+          }
+          console.log(`[RealTradeFeedService] ✅ PumpFun reconnected: ${pumpTokens.length} tokens${watchingLaunches ? ' + launches' : ''}`);
         }
       }
 
@@ -549,6 +588,18 @@ export class RealTradeFeedService extends EventEmitter {
           console.log(`[RealTradeFeedService] ✅ Jupiter reconnected: ${jupiterTokens.length} tokens`);
         }
       }
+
+      // Reconnect Wallet listener
+      if (this.walletListener) {
+        const wallets = this.walletListener.getMonitoredWallets();
+        if (wallets.length > 0) {
+          await this.walletListener.stop();
+          for (const wallet of wallets) {
+            await this.walletListener.start(wallet);
+          }
+          console.log(`[RealTradeFeedService] ✅ Wallets reconnected: ${wallets.length} wallets`);
+        }
+      }
     } catch (error) {
       console.error('[RealTradeFeedService] ❌ Reconnection failed:', error);
     }
@@ -615,6 +666,10 @@ export class RealTradeFeedService extends EventEmitter {
     if (this.jupiterListener) {
       await this.jupiterListener.stop();
     }
+
+    if (this.walletListener) {
+      await this.walletListener.stop();
+    }
     
     this.removeAllListeners();
     console.log('[RealTradeFeedService] Service stopped');
@@ -739,6 +794,11 @@ export class RealTradeFeedService extends EventEmitter {
         if (!this.recentTrades.has(tokenAddress)) {
           this.recentTrades.set(tokenAddress, []);
         }
+
+        if (!this.tokenSubscribers.has(tokenAddress)) {
+          this.tokenSubscribers.set(tokenAddress, new Set());
+        }
+        this.tokenSubscribers.get(tokenAddress)!.add(socketId);
       } else {
         console.error('[Subscribe] Failed - no listener available');
       }
@@ -751,10 +811,61 @@ export class RealTradeFeedService extends EventEmitter {
   }
 
   /**
-   * Unsubscribe from token trades
+   * Move a token that just left its bonding curve from the PumpFun listener to Raydium + Jupiter.
+   * Trades keep arriving as trade:<token>, so strategy listeners stay attached.
+   */
+  async switchToGraduatedRoute(graduation: TokenGraduation): Promise<void> {
+    const { tokenAddress } = graduation;
+
+    if (this.webSocketListener?.isMonitoringToken(tokenAddress)) {
+      console.log(`🎓 [RealTradeFeedService] ${tokenAddress.substring(0, 8)}... graduated - switching from PumpFun to MULTI-DEX monitoring`);
+      await this.webSocketListener.stopToken(tokenAddress);
+
+      let switched = false;
+      if (this.raydiumListener && !this.raydiumListener.isMonitoringToken(tokenAddress)) {
+        try {
+          await this.raydiumListener.start(tokenAddress);
+          switched = true;
+        } catch (error) {
+          console.log(`⚠️ [RealTradeFeedService] Raydium listener failed (this is OK if token uses Jupiter):`, error instanceof Error ? error.message : error);
+        }
+      }
+      if (this.jupiterListener && !this.jupiterListener.isMonitoringToken(tokenAddress)) {
+        try {
+          await this.jupiterListener.start(tokenAddress);
+          switched = true;
+        } catch (error) {
+          console.error(`❌ [RealTradeFeedService] Jupiter listener failed:`, error instanceof Error ? error.message : error);
+        }
+      }
+
+      if (switched) {
+        console.log(`✅ [RealTradeFeedService] ${tokenAddress.substring(0, 8)}... now monitored on its graduated route`);
+      } else {
+        console.error(`❌ [RealTradeFeedService] No listener took over graduated token ${tokenAddress.substring(0, 8)}...`);
+      }
+    }
+
+    this.io.emit('token:graduated', graduation);
+  }
+
+  /**
+   * Unsubscribe from token trades (listeners keep running while other subscribers remain)
    */
   async unsubscribeFromToken(tokenAddress: string, socketId: string): Promise<void> {
-    // Try all listeners
+    const subscribers = this.tokenSubscribers.get(tokenAddress);
+    if (subscribers) {
+      if (!subscribers.delete(socketId)) {
+        return; // Not one of this token's subscribers - leave the others' listeners alone
+      }
+      if (subscribers.size > 0) {
+        console.log(`[RealTradeFeedService] ${socketId} left ${tokenAddress.substring(0, 8)}... - ${subscribers.size} subscriber(s) remain`);
+        return;
+      }
+      this.tokenSubscribers.delete(tokenAddress);
+    }
+
+    // Last subscriber gone - stop all listeners
     if (this.webSocketListener && this.webSocketListener.isMonitoringToken(tokenAddress)) {
       await this.webSocketListener.stopToken(tokenAddress);
       console.log(`🛑 [RealTradeFeedService] Unsubscribed from PumpFun: ${tokenAddress}`);
@@ -771,6 +882,19 @@ export class RealTradeFeedService extends EventEmitter {
     }
   }
 
+  /**
+   * Drop every subscription held by one subscriber (e.g. a disconnected socket)
+   */
+  async unsubscribeAll(socketId: string): Promise<void> {
+    const tokens = Array.from(this.tokenSubscribers.entries())
+      .filter(([, subscribers]) => subscribers.has(socketId))
+      .map(([tokenAddress]) => tokenAddress);
+
+    for (const tokenAddress of tokens) {
+      await this.unsubscribeFromToken(tokenAddress, socketId);
+    }
+  }
+
   /**
    * Check for recent buy activity (for SELL strategies)
    * Returns the most recent buy volume if detected in last N seconds
@@ -850,6 +974,13 @@ export class RealTradeFeedService extends EventEmitter {
     return this.tradeStats.get(tokenAddress);
   }
 
+  /**
+   * Get rolling technical indicators for a token (SMA/EMA/RSI/Bollinger/ATR/VWAP/pressure)
+   */
+  getIndicators(tokenAddress: string, periods?: Partial<IndicatorPeriods>): IndicatorSnapshot | undefined {
+    return indicatorEngine.getIndicators(tokenAddress, periods);
+  }
+
   /**
    * Get recent trades for a token
    */
@@ -889,10 +1020,39 @@ export class RealTradeFeedService extends EventEmitter {
       pumpFunConnected: this.webSocketListener?.isActive() || false,
       raydiumConnected: this.raydiumListener?.isActive() || false,
       jupiterConnected: this.jupiterListener?.isActive() || false,
+      walletsFollowed: this.walletListener?.getMonitoredWallets().length || 0,
       isConnected: totalMonitored > 0,
     };
   }
 
+  /**
+   * Start emitting 'launch' events for new pump.fun tokens
+   */
+  async watchLaunches(): Promise<void> {
+    await this.webSocketListener?.watchLaunches();
+  }
+
+  /**
+   * Stop emitting 'launch' events
+   */
+  async unwatchLaunches(): Promise<void> {
+    await this.webSocketListener?.unwatchLaunches();
+  }
+
+  /**
+   * Start emitting 'wallet_trade' events for a wallet's swaps
+   */
+  async followWallet(wallet: string): Promise<void> {
+    await this.walletListener?.start(wallet);
+  }
+
+  /**
+   * Stop emitting 'wallet_trade' events for a wallet
+   */
+  async unfollowWallet(wallet: string): Promise<void> {
+    await this.walletListener?.stopWallet(wallet);
+  }
+
   /**
    * Get the underlying trade monitor instance (for advanced use)
    */
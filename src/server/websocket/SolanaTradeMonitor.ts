@@ -8,6 +8,7 @@
 import { Connection, PublicKey, ParsedTransactionWithMeta, PartiallyDecodedInstruction } from '@solana/web3.js';
 import { Server as SocketServer } from 'socket.io';
 import { WS_EVENTS } from './types';
+import { candleAggregator } from '../../trading_utils/candles';
 
 // Pump.fun program ID on Solana mainnet
 const PUMP_FUN_PROGRAM_ID = new PublicKey('6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P');
@@ -184,6 +185,7 @@ export class SolanaTradeMonitor {
                   subscription!.lastActivity = new Date();
                   this.stats.totalTradesDetected++;
                   this.stats.tradesPerToken.set(tokenAddress, (this.stats.tradesPerToken.get(tokenAddress) || 0) + 1);
+                  candleAggregator.ingestTrade(tradeData);
 
                   // Broadcast to all subscribers for this token
                   this.broadcastRealTrade(tokenAddress, tradeData);
@@ -16,6 +16,10 @@ import {
   SystemStatus,
 } from './types';
 import { strategyExecutionTracker } from '../../trading_utils/StrategyExecutionTracker';
+import { paperOrderBook } from '../../trading_utils/paper-trading/PaperOrderBook';
+import { strategyScheduler } from '../../trading_utils/StrategyScheduler';
+import { candleAggregator, candleRoom, isCandleInterval } from '../../trading_utils/candles';
+import { PaperOrderRequest, PaperOrderUpdate } from '../../trading_utils/paper-trading/types';
 
 export class WebSocketHandlers {
   private io: SocketServer;
@@ -36,6 +40,7 @@ export class WebSocketHandlers {
     this.priceService = new PriceService(io);
     this.strategyMonitor = new StrategyMonitor(io);
     this.realTradeFeedService = new RealTradeFeedService(io);
+    candleAggregator.attachTradeFeed(this.realTradeFeedService);
     this.startTime = new Date();
   }
 
@@ -67,6 +72,7 @@ export class WebSocketHandlers {
     socket.priceSubscriptions = new Set();
     socket.strategySubscriptions = new Set();
     socket.paperTradingSubscriptions = new Set();
+    socket.candleSubscriptions = new Set();
 
     this.stats.totalConnections++;
     this.stats.activeConnections++;
@@ -245,6 +251,63 @@ export class WebSocketHandlers {
       }
     });
 
+    // Live OHLCV candles ('candles:update' on every change, closed: true once the bucket ends)
+    socket.on('candles:subscribe', async (data: { tokenAddress: string; interval?: string; limit?: number }) => {
+      try {
+        this.stats.messagesReceived++;
+        const { tokenAddress } = data;
+        const interval = data.interval || '1m';
+
+        if (!isCandleInterval(interval) || !candleAggregator.getIntervals().includes(interval)) {
+          throw new Error(`interval must be one of: ${candleAggregator.getIntervals().join(', ')}`);
+        }
+
+        // Candles are built from the trade feed, so make sure the token is being watched
+        if (!this.realTradeFeedService.isMonitoring(tokenAddress)) {
+          await this.realTradeFeedService.subscribeToToken(tokenAddress, socket.id);
+        }
+
+        const room = candleRoom(tokenAddress, interval);
+        socket.join(room);
+        socket.candleSubscriptions?.add(room);
+
+        const candles = await candleAggregator.getCandles(tokenAddress, interval, { limit: data.limit });
+        socket.emit('candles:subscribed', {
+          tokenAddress,
+          interval,
+          candles,
+          subscribedAt: new Date().toISOString(),
+        });
+
+        console.log(`[WebSocket] ${socket.id} subscribed to ${interval} candles for ${tokenAddress}`);
+      } catch (error: any) {
+        this.handleError(socket, 'candles:subscribe', error);
+      }
+    });
+
+    // Leaves the candle stream only - the trade feed subscription is managed by pumpfun:unsubscribe
+    socket.on('candles:unsubscribe', (data: { tokenAddress: string; interval?: string }) => {
+      try {
+        this.stats.messagesReceived++;
+        const { tokenAddress } = data;
+        const interval = data.interval || '1m';
+
+        if (isCandleInterval(interval)) {
+          const room = candleRoom(tokenAddress, interval);
+          socket.leave(room);
+          socket.candleSubscriptions?.delete(room);
+        }
+
+        socket.emit('candles:unsubscribed', {
+          tokenAddress,
+          interval,
+          unsubscribedAt: new Date().toISOString(),
+        });
+      } catch (error: any) {
+        this.handleError(socket, 'candles:unsubscribe', error);
+      }
+    });
+
     // Get real-time stats for a token
     socket.on('pumpfun:stats', (data: { tokenAddress: string }) => {
       try {
@@ -461,6 +524,73 @@ export class WebSocketHandlers {
       }
     });
 
+    // Resting paper orders (same operations as /paper-trading/sessions/:sessionId/orders)
+    socket.on('paper:order:place', (data: { sessionId: string; order: PaperOrderRequest }) => {
+      try {
+        this.stats.messagesReceived++;
+        const order = paperOrderBook.placeOrder(data.sessionId, data.order);
+        socket.emit('paper:order:response', { action: 'place', order });
+      } catch (error: any) {
+        this.handleError(socket, 'paper:order:place', error);
+      }
+    });
+
+    socket.on('paper:order:modify', (data: { sessionId: string; orderId: string; update: PaperOrderUpdate }) => {
+      try {
+        this.stats.messagesReceived++;
+        const order = paperOrderBook.modifyOrder(data.sessionId, data.orderId, data.update || {});
+        socket.emit('paper:order:response', { action: 'modify', order });
+      } catch (error: any) {
+        this.handleError(socket, 'paper:order:modify', error);
+      }
+    });
+
+    socket.on('paper:order:cancel', (data: { sessionId: string; orderId: string }) => {
+      try {
+        this.stats.messagesReceived++;
+        const order = paperOrderBook.cancelOrder(data.sessionId, data.orderId);
+        socket.emit('paper:order:response', { action: 'cancel', order });
+      } catch (error: any) {
+        this.handleError(socket, 'paper:order:cancel', error);
+      }
+    });
+
+    socket.on('paper:orders:request', (data: { sessionId: string }) => {
+      try {
+        this.stats.messagesReceived++;
+        socket.emit('paper:orders', {
+          sessionId: data.sessionId,
+          orders: paperOrderBook.getOrders(data.sessionId),
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error: any) {
+        this.handleError(socket, 'paper:orders:request', error);
+      }
+    });
+
+    // Upcoming scheduled runs (pushed as 'schedule:upcoming' whenever a schedule changes)
+    socket.on('schedule:upcoming:request', (data: { strategyId?: string; count?: number } = {}) => {
+      try {
+        this.stats.messagesReceived++;
+        if (data.strategyId) {
+          const schedule = strategyScheduler.getSchedule(data.strategyId, data.count);
+          socket.emit('schedule:upcoming', {
+            strategyId: data.strategyId,
+            state: schedule?.state ?? null,
+            upcoming: schedule?.upcoming ?? [],
+            timestamp: new Date().toISOString(),
+          });
+        } else {
+          socket.emit('schedule:upcoming', {
+            upcoming: strategyScheduler.getUpcomingRuns(data.count),
+            timestamp: new Date().toISOString(),
+          });
+        }
+      } catch (error: any) {
+        this.handleError(socket, 'schedule:upcoming:request', error);
+      }
+    });
+
     // Ping/Pong for connection health
     socket.on('ping', () => {
       socket.emit('pong', { timestamp: new Date().toISOString() });
@@ -476,6 +606,11 @@ export class WebSocketHandlers {
 
       console.log(`[WebSocket] Client disconnected: ${socket.id} (Reason: ${reason}, Remaining: ${this.stats.activeConnections})`);
 
+      // Release the socket's trade feed subscriptions (listeners stop once nobody else needs them)
+      this.realTradeFeedService.unsubscribeAll(socket.id).catch((error) => {
+        console.error(`[WebSocket] Failed to release trade feed subscriptions of ${socket.id}:`, error);
+      });
+
       // Cleanup price subscriptions
       if (socket.priceSubscriptions) {
         socket.priceSubscriptions.forEach(token => {
@@ -487,6 +622,7 @@ export class WebSocketHandlers {
       socket.priceSubscriptions?.clear();
       socket.strategySubscriptions?.clear();
       socket.paperTradingSubscriptions?.clear();
+      socket.candleSubscriptions?.clear();
     });
   }
 
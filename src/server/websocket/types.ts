@@ -191,6 +191,7 @@ export interface ExtendedSocket extends Socket {
   strategySubscriptions?: Set<string>;
   performanceSubscriptions?: Set<string>;
   paperTradingSubscriptions?: Set<string>;
+  candleSubscriptions?: Set<string>; // candleRoom names
   connectedAt: Date;
 }
 
@@ -0,0 +1,175 @@
+/**
+ * Cron Expressions
+ * Standard 5-field cron (minute hour day-of-month month day-of-week), evaluated in UTC
+ *
+ * Supports *, lists (1,5), ranges (1-5), steps (*\/15, 0-30/5), month/day names
+ * (JAN, MON) and the @hourly / @daily / @weekly / @monthly / @yearly shortcuts.
+ * As in Vixie cron, when both day-of-month and day-of-week are restricted a day
+ * matching either one fires.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const SEARCH_LIMIT_MS = 5 * 366 * 24 * 60 * MINUTE_MS; // Give up after ~5 years (e.g. "0 0 31 2 *")
+
+const SHORTCUTS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  nameOffset?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  { name: 'day-of-week', min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 }, // 7 = Sunday
+];
+
+export class CronExpression {
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private daysOfMonth: Set<number>;
+  private months: Set<number>;
+  private daysOfWeek: Set<number>;
+  private domRestricted: boolean;
+  private dowRestricted: boolean;
+
+  constructor(readonly source: string) {
+    const expanded = SHORTCUTS[source.trim().toLowerCase()] || source.trim();
+    const parts = expanded.split(/\s+/);
+    if (parts.length !== 5) {
+      throw new Error(`Invalid cron expression "${source}": expected 5 fields, got ${parts.length}`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) => parseField(part, FIELDS[i], source));
+    this.minutes = minutes;
+    this.hours = hours;
+    this.daysOfMonth = daysOfMonth;
+    this.months = months;
+    this.daysOfWeek = new Set(Array.from(daysOfWeek, d => d % 7));
+    this.domRestricted = parts[2] !== '*' && parts[2] !== '?';
+    this.dowRestricted = parts[4] !== '*' && parts[4] !== '?';
+  }
+
+  /**
+   * First fire time strictly after `after` (epoch ms), or null if there is none within ~5 years
+   */
+  next(after: number): number | null {
+    const limit = after + SEARCH_LIMIT_MS;
+    const t = new Date(Math.floor(after / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+
+    while (t.getTime() <= limit) {
+      if (!this.months.has(t.getUTCMonth() + 1)) {
+        t.setUTCMonth(t.getUTCMonth() + 1, 1);
+        t.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+      if (!this.matchesDay(t)) {
+        t.setUTCDate(t.getUTCDate() + 1);
+        t.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+      if (!this.hours.has(t.getUTCHours())) {
+        t.setUTCHours(t.getUTCHours() + 1, 0, 0, 0);
+        continue;
+      }
+      if (!this.minutes.has(t.getUTCMinutes())) {
+        t.setUTCMinutes(t.getUTCMinutes() + 1, 0, 0);
+        continue;
+      }
+      return t.getTime();
+    }
+    return null;
+  }
+
+  /**
+   * Next `count` fire times after `after`
+   */
+  nextN(after: number, count: number): number[] {
+    const fires: number[] = [];
+    let cursor = after;
+    while (fires.length < count) {
+      const fire = this.next(cursor);
+      if (fire === null) break;
+      fires.push(fire);
+      cursor = fire;
+    }
+    return fires;
+  }
+
+  private matchesDay(t: Date): boolean {
+    const domMatch = this.daysOfMonth.has(t.getUTCDate());
+    const dowMatch = this.daysOfWeek.has(t.getUTCDay());
+    if (this.domRestricted && this.dowRestricted) {
+      return domMatch || dowMatch;
+    }
+    return domMatch && dowMatch;
+  }
+}
+
+function parseField(part: string, spec: FieldSpec, source: string): Set<number> {
+  const values = new Set<number>();
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid cron expression "${source}": ${spec.name} ${reason}`);
+  };
+
+  for (const item of part.split(',')) {
+    const [rangePart, stepPart, ...rest] = item.split('/');
+    if (rest.length > 0 || !rangePart) fail(`"${item}" is malformed`);
+
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) fail(`step "${stepPart}" must be a positive integer`);
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*' || rangePart === '?') {
+      start = spec.min;
+      end = spec.max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(from, spec, fail);
+      end = parseValue(to, spec, fail);
+    } else {
+      start = parseValue(rangePart, spec, fail);
+      end = stepPart === undefined ? start : spec.max; // "5/10" means 5-max/10
+    }
+
+    if (start > end) fail(`range "${rangePart}" is reversed`);
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+
+  return values;
+}
+
+function parseValue(raw: string, spec: FieldSpec, fail: (reason: string) => never): number {
+  const nameIndex = spec.names?.indexOf(raw.toUpperCase()) ?? -1;
+  const value = nameIndex >= 0 ? nameIndex + (spec.nameOffset || 0) : Number(raw);
+  if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+    fail(`value "${raw}" must be between ${spec.min} and ${spec.max}`);
+  }
+  return value;
+}
+
+/**
+ * Parse a cron expression (throws with a readable message when invalid)
+ */
+export function parseCronExpression(expression: string): CronExpression {
+  return new CronExpression(expression);
+}
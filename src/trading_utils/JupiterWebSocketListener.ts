@@ -1,7 +1,7 @@
 import { Connection, PublicKey, Logs, Context } from '@solana/web3.js';
 import { EventEmitter } from 'events';
 
-const JUPITER_V6_PROGRAM_ID = 'JUP6LkbZbjS2jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
+export const JUPITER_V6_PROGRAM_ID = 'JUP6LkbZbjS2jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
 
 /**
  * Jupiter trade event data structure
@@ -2,7 +2,7 @@ import { Connection, PublicKey, Logs, Context } from '@solana/web3.js';
 import { BorshCoder, EventParser, Event, Idl } from '@coral-xyz/anchor';
 import { EventEmitter } from 'events';
 
-const PUMPFUN_PROGRAM_ID = '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P';
+export const PUMPFUN_PROGRAM_ID = '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P';
 
 /**
  * Trade event data structure from pump.fun program
@@ -18,6 +18,23 @@ export interface PumpFunTradeEvent {
   realTokenReserves: number;
 }
 
+/**
+ * Token creation on pump.fun, paired with the creator's buy in the same transaction
+ */
+export interface PumpFunLaunchEvent {
+  mint: string;
+  name: string;
+  symbol: string;
+  uri: string;            // Metadata JSON (image, description, socials)
+  creator: string;
+  bondingCurve: string;
+  timestamp: number;      // Unix timestamp in milliseconds
+  initialBuySol: number;  // Creator's buy in the create transaction (0 if none)
+  initialBuyTokens: number;
+  initialPrice: number;   // SOL per token after the creator's buy
+  signature?: string;
+}
+
 /**
  * Real-time WebSocket listener for pump.fun trades
  * Listens to Solana blockchain events directly - works for ANY token
@@ -28,6 +45,7 @@ export class PumpFunWebSocketListener extends EventEmitter {
   private eventParser: EventParser;
   private isMonitoring = false;
   private monitoredTokens: Set<string> = new Set(); // Track multiple tokens
+  private watchingLaunches = false; // Keep the subscription alive for create events
   private reconnectTimer: NodeJS.Timeout | null = null;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
@@ -84,11 +102,44 @@ export class PumpFunWebSocketListener extends EventEmitter {
     console.log(`📊 [PumpFunWebSocket] Remaining tokens: ${this.monitoredTokens.size}`);
 
     // If no tokens left, close subscription
+    if (this.monitoredTokens.size === 0 && !this.watchingLaunches) {
+      await this.stop();
+    }
+  }
+
+  /**
+   * Start emitting 'launch' events for newly created tokens
+   */
+  async watchLaunches(): Promise<void> {
+    this.watchingLaunches = true;
+    console.log(`🚀 [PumpFunWebSocket] Watching new token launches`);
+
+    if (this.isMonitoring && this.subscriptionId !== null) {
+      return;
+    }
+
+    await this.subscribe();
+  }
+
+  /**
+   * Stop emitting 'launch' events (closes the subscription if no tokens are monitored)
+   */
+  async unwatchLaunches(): Promise<void> {
+    this.watchingLaunches = false;
+    console.log(`🛑 [PumpFunWebSocket] Stopped watching token launches`);
+
     if (this.monitoredTokens.size === 0) {
       await this.stop();
     }
   }
 
+  /**
+   * Check if launch events are being emitted
+   */
+  isWatchingLaunches(): boolean {
+    return this.watchingLaunches;
+  }
+
   /**
    * Subscribe to pump.fun program logs
    * PRODUCTION FIX: Added health monitoring and better error handling
@@ -150,6 +201,8 @@ export class PumpFunWebSocketListener extends EventEmitter {
         // Only process tradeEvent (buy/sell transactions)
         if (event.name === 'tradeEvent') {
           this.processTradeEvent(event);
+        } else if (event.name === 'createEvent' && this.watchingLaunches) {
+          this.processCreateEvent(event, events, logs.signature);
         }
       }
     } catch (error) {
@@ -219,6 +272,49 @@ export class PumpFunWebSocketListener extends EventEmitter {
     }
   }
 
+  /**
+   * Process a create event; the creator's initial buy is a tradeEvent in the same transaction
+   */
+  private processCreateEvent(event: Event, events: Event[], signature?: string): void {
+    try {
+      this.lastEventTimestamp = Date.now();
+
+      const data = event.data as any;
+      const mint = data.mint.toString();
+      const creator = (data.creator ?? data.user).toString();
+
+      const devBuy = events.find(e => {
+        const trade = e.data as any;
+        return e.name === 'tradeEvent' && trade.isBuy
+          && trade.mint.toString() === mint && trade.user.toString() === creator;
+      })?.data as any;
+
+      const virtualSol = this.convertLamportsToSol(devBuy ? devBuy.virtualSolReserves : data.virtualSolReserves);
+      const virtualTokens = this.convertToTokenAmount(devBuy ? devBuy.virtualTokenReserves : data.virtualTokenReserves);
+
+      const launch: PumpFunLaunchEvent = {
+        mint,
+        name: data.name,
+        symbol: data.symbol,
+        uri: data.uri,
+        creator,
+        bondingCurve: data.bondingCurve.toString(),
+        timestamp: data.timestamp.toNumber() * 1000,
+        initialBuySol: devBuy ? this.convertLamportsToSol(devBuy.solAmount) : 0,
+        initialBuyTokens: devBuy ? this.convertToTokenAmount(devBuy.tokenAmount) : 0,
+        initialPrice: virtualTokens > 0 ? virtualSol / virtualTokens : 0,
+        signature,
+      };
+
+      console.log(`🆕 [PumpFunWebSocket] Launch: ${launch.symbol} (${launch.mint.slice(0, 8)}...) by ${launch.creator.slice(0, 8)}..., dev buy ${launch.initialBuySol.toFixed(3)} SOL`);
+
+      this.emit('launch', launch);
+
+    } catch (error) {
+      console.error('[PumpFunWebSocket] Error processing create event:', error);
+    }
+  }
+
   /**
    * Convert lamports to SOL (1 SOL = 1e9 lamports)
    */
@@ -265,7 +361,7 @@ export class PumpFunWebSocketListener extends EventEmitter {
    * PRODUCTION FIX: Perform health check
    */
   private performHealthCheck(): void {
-    if (!this.isMonitoring || this.monitoredTokens.size === 0) {
+    if (!this.isMonitoring || (this.monitoredTokens.size === 0 && !this.watchingLaunches)) {
       return; // No tokens being monitored
     }
     
@@ -288,7 +384,7 @@ export class PumpFunWebSocketListener extends EventEmitter {
       });
       
       // Auto-reconnect if connection seems dead
-      if (timeSinceLastEvent > this.MAX_SILENCE_DURATION_MS * 2 && this.monitoredTokens.size > 0) {
+      if (timeSinceLastEvent > this.MAX_SILENCE_DURATION_MS * 2 && (this.monitoredTokens.size > 0 || this.watchingLaunches)) {
         console.error(`❌ [PumpFunWebSocket] Connection appears dead, forcing reconnect...`);
         this.stop().then(() => {
           // Restart with existing tokens
@@ -299,6 +395,11 @@ export class PumpFunWebSocketListener extends EventEmitter {
               console.error(`Failed to reconnect token ${token}:`, err)
             );
           }
+          if (this.watchingLaunches) {
+            this.watchLaunches().catch(err =>
+              console.error('Failed to resume launch watching:', err)
+            );
+          }
         });
       }
     } else if (minutesSilent > 1) {
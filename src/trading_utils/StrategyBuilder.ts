@@ -1,10 +1,33 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { awsLogger } from '../aws/logger';
-import { TradingProvider, TradingProviderFactory, TradingResult, PriceResult } from './TradingProvider';
+import { TradingProvider, TradingProviderFactory, TradingResult, PriceResult, TradeFill } from './TradingProvider';
 import { ENV_CONFIG } from '../config/environment';
 import { timeStamp } from 'console';
 import { marketDataProvider } from './paper-trading';
+import {
+  CompiledExpression,
+  ExpressionScope,
+  ExpressionType,
+  INDICATOR_IDENTIFIERS,
+  TRADE_FEED_IDENTIFIERS,
+  checkExpression,
+  evaluateCondition,
+  evaluateExpression,
+  parseExpression,
+} from './StrategyExpression';
+import type { IndicatorPeriods, IndicatorSnapshot } from './indicators';
+import type { LaunchFilterCriteria, LaunchWaitOptions, LaunchWaitResult } from './launches/types';
+import { validateLaunchCriteria } from './launches/LaunchFilter';
+import type { GraduationWaitOptions, TokenGraduation } from './graduation/types';
+import type { LeaderTradeFilter, LeaderTradeWaitOptions, LeaderTradeWaitResult, WalletSwapVenue } from './copytrading/types';
+import { validateLeaderTradeFilter } from './copytrading/CopyTradeMonitor';
+import { COPY_TRADE_CONFIG, GRADUATION_CONFIG, LAUNCH_CONFIG } from './config';
+import { HistoricalMarketData } from './backtesting/HistoricalMarketData';
+import { DryRunTradingProvider } from './dryrun/DryRunTradingProvider';
+import { assessCapitalUsage, buildDryRunPricePath } from './dryrun/DryRunAnalysis';
+import type { DryRunConfig, DryRunResult, DryRunStopReason, DryRunTimelineEntry } from './dryrun/types';
+import type { QuoteCurrency } from './paper-trading/types';
 
 // Lazy-loaded imports for backward compatibility
 let tokenUtilsModule: any = null;
@@ -65,7 +88,16 @@ export type StrategyStepType =
   | "getJupiterPrice"
   | "getSolPrice"
   | "wait"
-  | "condition";
+  | "condition"
+  | "setVariable"
+  | "loop"
+  | "branch"
+  | "notify"
+  | "stop"
+  | "subStrategy"
+  | "waitForLaunch"
+  | "waitForGraduation"
+  | "waitForLeaderTrade";
 
 // Base strategy step interface
 export interface BaseStrategyStep {
@@ -77,14 +109,19 @@ export interface BaseStrategyStep {
 }
 
 // Specific step interfaces
+// Buy and sell results carry data.fill (tokenAmount, solAmount, executionPrice) when the provider reports fills.
 export interface BuyStep extends BaseStrategyStep {
   type: "buy";
-  amountInSol: number; // Required: Amount in SOL to spend on buying tokens
+  amountInSol: number; // Required: Amount in SOL to spend on buying tokens (in USDC when quoteCurrency is 'USDC')
+  tokenAddress?: string; // Mint to buy (defaults to variables.tokenAddress; the SOL mint buys SOL with USDC)
+  quoteCurrency?: QuoteCurrency; // Currency to pay with (default SOL, paper trading only for USDC)
 }
 
 export interface SellStep extends BaseStrategyStep {
   type: "sell";
   amountToSell: number; // Required: Amount of tokens to sell (-1 for all tokens)
+  tokenAddress?: string; // Mint to sell (defaults to variables.tokenAddress; the SOL mint sells SOL for USDC)
+  quoteCurrency?: QuoteCurrency; // Currency to receive (default SOL, paper trading only for USDC)
 }
 
 export interface WaitPriceAboveStep extends BaseStrategyStep {
@@ -103,6 +140,7 @@ export interface WaitPriceBelowStep extends BaseStrategyStep {
 
 export interface GetPriceStep extends BaseStrategyStep {
   type: "getPrice";
+  tokenAddress?: string; // Mint to price (defaults to variables.tokenAddress)
 }
 
 export interface GetJupiterPriceStep extends BaseStrategyStep {
@@ -120,10 +158,115 @@ export interface WaitStep extends BaseStrategyStep {
 
 export interface ConditionStep extends BaseStrategyStep {
   type: "condition";
-  condition: "priceAbove" | "priceBelow" | "custom";
+  condition: "priceAbove" | "priceBelow" | "custom" | "expression";
   targetPrice?: number;
   useJupiterPrice?: boolean; // For trading consistency
   customCondition?: (context: StrategyContext) => boolean | Promise<boolean>;
+  expression?: string; // Serializable condition, e.g. "price < vars.entry * 0.9 && volume5m > 20" (see StrategyExpression)
+}
+
+export interface SetVariableStep extends BaseStrategyStep {
+  type: "setVariable";
+  variable: string; // Key in context.variables
+  value?: any; // Literal value
+  expression?: string; // Computed value (expression language, see StrategyExpression)
+  increment?: number; // Add to the current value (missing counts as 0)
+  key?: string; // Expression naming an entry of the object variable to set instead, e.g. "vars.tokenAddress" (null removes it)
+}
+
+// Runs bodyStepId until `times`/`until` is reached, then continues at onSuccess.
+// The body must route back to the loop step; the counter lives in variables[`_loop_<id>`].
+// `times` counts every pass into the body, retries included - to count successful executions,
+// increment a variable in the body and exit with `until` (e.g. "vars.executionCount >= 10").
+// Iterations share executeStrategy's MAX_STEPS_PER_EXECUTION guard with every other step.
+export interface LoopStep extends BaseStrategyStep {
+  type: "loop";
+  bodyStepId: string;
+  times?: number; // Omit for unlimited (until stopped or `until` is true)
+  until?: string; // Expression checked before each iteration - exit once true
+}
+
+// First branch whose `when` expression is true wins; otherwise continues at onSuccess
+export interface BranchStep extends BaseStrategyStep {
+  type: "branch";
+  branches: Array<{ when: string; goto: string }>;
+}
+
+export interface NotifyStep extends BaseStrategyStep {
+  type: "notify";
+  message: string; // `{{ expression }}` placeholders are interpolated
+  level?: StrategyNotification['level'];
+}
+
+// Ends the strategy (onSuccess/onFailure are ignored)
+export interface StopStep extends BaseStrategyStep {
+  type: "stop";
+  reason?: string;
+}
+
+// Runs another registered strategy as a subroutine in a fresh context (tokenAddress is inherited).
+// Succeeds when the sub-strategy finishes and its last step succeeded, so onSuccess/onFailure branch on it.
+// Its variables and step results land in stepResults[<id>].data; a stop step only ends the sub-strategy.
+export interface SubStrategyStep extends BaseStrategyStep {
+  type: "subStrategy";
+  strategyId: string;
+  inputs?: Record<string, string>; // Sub-strategy variable -> expression evaluated in this strategy
+  outputs?: Record<string, string>; // Variable in this strategy -> sub-strategy variable to copy back
+}
+
+// Waits for a new pump.fun launch that passes `filters` and makes its mint vars.tokenAddress.
+// The launch lands in stepResults[<id>].data; fails after timeoutMs without a match and ends the
+// strategy once a replayed launch tape runs out. Launches already considered are not evaluated again.
+export interface WaitForLaunchStep extends BaseStrategyStep {
+  type: "waitForLaunch";
+  filters?: LaunchFilterCriteria;
+  timeoutMs?: number; // Default LAUNCH_CONFIG.DEFAULT_WAIT_TIMEOUT_MS
+}
+
+// Waits until a pump.fun token completes its bonding curve and migrates to an AMM pool ("on graduation").
+// Sets vars.graduated and vars.poolAddress; the graduation lands in stepResults[<id>].data.
+// Succeeds at once for a token that already graduated and fails after timeoutMs.
+export interface WaitForGraduationStep extends BaseStrategyStep {
+  type: "waitForGraduation";
+  tokenAddress?: string; // Mint to watch (defaults to variables.tokenAddress)
+  timeoutMs?: number; // Default GRADUATION_CONFIG.DEFAULT_WAIT_TIMEOUT_MS
+}
+
+// Waits for a swap by one of the followed leader wallets (copy trading) and makes its mint vars.tokenAddress.
+// The swap plus delayMs and soldFraction (share of the leader's holding sold) land in stepResults[<id>].data.
+// Buys seen more than maxDelayMs after the leader's block are skipped; sells are only passed on for mints
+// with a positive entry in the positionsVariable object when one is given. Fails after timeoutMs without a match.
+export interface WaitForLeaderTradeStep extends BaseStrategyStep {
+  type: "waitForLeaderTrade";
+  wallets: string[]; // Leader wallets to follow
+  blocklist?: string[]; // Token mints never copied
+  venues?: WalletSwapVenue[]; // Default: pump.fun, Raydium and Jupiter
+  maxDelayMs?: number; // Default COPY_TRADE_CONFIG.DEFAULT_MAX_DELAY_MS
+  positionsVariable?: string; // Variable holding open position sizes keyed by mint
+  timeoutMs?: number; // Default COPY_TRADE_CONFIG.DEFAULT_WAIT_TIMEOUT_MS
+}
+
+// Maximum sub-strategy nesting (checked by validateStrategy and again at runtime)
+export const MAX_SUB_STRATEGY_DEPTH = 5;
+
+// Steps one executeStrategy run may take before it fails as a runaway loop.
+// Every step counts, so a loop whose body takes N steps gets about MAX_STEPS_PER_EXECUTION / (N + 1) iterations per run.
+export const MAX_STEPS_PER_EXECUTION = 1000;
+
+// Step types that block until time passes or the market moves - a cycle needs one of these not to busy-spin
+const WAITING_STEP_TYPES: StrategyStepType[] = ['wait', 'waitPriceAbove', 'waitPriceBelow', 'waitForLaunch', 'waitForGraduation', 'waitForLeaderTrade'];
+
+// Step types that wait on live feeds (launches, graduations, leader wallets) and cannot be dry-run
+const LIVE_FEED_STEP_TYPES: StrategyStepType[] = ['waitForLaunch', 'waitForGraduation', 'waitForLeaderTrade'];
+const DRY_RUN_DEFAULT_MAX_STEPS = 5000;
+const DRY_RUN_STEPS_PER_EXECUTION = 900; // Stay under executeStrategy's loop guard, then re-invoke with the same context
+
+export interface StrategyNotification {
+  strategyId: string;
+  stepId: string;
+  level: 'info' | 'success' | 'warning' | 'error';
+  message: string;
+  timestamp: number;
 }
 
 // Union type for all step types
@@ -136,7 +279,16 @@ export type StrategyStep =
   | GetJupiterPriceStep
   | GetSolPriceStep
   | WaitStep
-  | ConditionStep;
+  | ConditionStep
+  | SetVariableStep
+  | LoopStep
+  | BranchStep
+  | NotifyStep
+  | StopStep
+  | SubStrategyStep
+  | WaitForLaunchStep
+  | WaitForGraduationStep
+  | WaitForLeaderTradeStep;
 
 // Strategy definition
 export interface Strategy {
@@ -176,6 +328,47 @@ export interface StrategyExecutionResult {
   subscriptionRequested?: boolean; // Flag to indicate reactive strategy needs subscription
 }
 
+// Trade feed stats available to condition expressions (implemented by RealTradeFeedService)
+export interface ExpressionFeedSource {
+  getVolumeInWindow(tokenAddress: string, windowMinutes?: number): { buyVolume: number; sellVolume: number };
+  getTokenStats(tokenAddress: string): {
+    totalBuys: number;
+    totalSells: number;
+    avgBuySize: number;
+    avgSellSize: number;
+    tradeCount: number;
+  } | undefined;
+  getIndicators?(tokenAddress: string, periods?: Partial<IndicatorPeriods>): IndicatorSnapshot | undefined;
+}
+
+// New token launches for waitForLaunch steps (LaunchMonitor live, LaunchTapeMarketData in replays)
+export interface LaunchFeedSource {
+  waitForLaunch(criteria: LaunchFilterCriteria, options: LaunchWaitOptions): Promise<LaunchWaitResult>;
+}
+
+// Bonding curve graduations for waitForGraduation steps (GraduationDetector)
+export interface GraduationFeedSource {
+  waitForGraduation(tokenAddress: string, options: GraduationWaitOptions): Promise<TokenGraduation | undefined>;
+}
+
+// Swaps of followed wallets for waitForLeaderTrade steps (CopyTradeMonitor)
+export interface LeaderTradeFeedSource {
+  waitForLeaderTrade(filter: LeaderTradeFilter, options: LeaderTradeWaitOptions): Promise<LeaderTradeWaitResult>;
+}
+
+// Per-step callbacks (used by StrategyExecutionManager to checkpoint progress).
+// Awaited: a step does not run until beforeStep has resolved.
+// Steps inside a sub-strategy reach the same hooks with `caller` set to the top-level subStrategy step.
+export interface StrategyExecutionHooks {
+  beforeStep?: (step: StrategyStep, context: StrategyContext, caller?: StepCaller) => Promise<void>;
+  afterStep?: (step: StrategyStep, context: StrategyContext, caller?: StepCaller) => Promise<void>;
+}
+
+export interface StepCaller {
+  step: SubStrategyStep;
+  context: StrategyContext;
+}
+
 // Strategy builder class
 export class StrategyBuilder {
 
@@ -359,6 +552,15 @@ export class StrategyBuilder {
   }
   private strategies: Map<string, Strategy> = new Map();
   private tradingProvider: TradingProvider;
+  // Shared by reference with builders from withTradingProvider, so feeds attached later reach them too
+  private feeds: {
+    trade?: ExpressionFeedSource;
+    launch?: LaunchFeedSource;
+    graduation?: GraduationFeedSource;
+    leaderTrade?: LeaderTradeFeedSource;
+  } = {};
+  private expressionCache: Map<string, CompiledExpression> = new Map();
+  private notificationListeners: Array<(notification: StrategyNotification) => void> = [];
 
   constructor(tradingProvider?: TradingProvider) {
     // Use provided trading provider or get from factory
@@ -447,6 +649,42 @@ export class StrategyBuilder {
     // Trading provider changed
   }
 
+  // Builder that trades through its own provider but shares this one's strategies,
+  // feeds and notification listeners (for runs that must not swap the shared provider)
+  withTradingProvider(provider: TradingProvider): StrategyBuilder {
+    const builder = new StrategyBuilder(provider);
+    builder.strategies = this.strategies;
+    builder.feeds = this.feeds;
+    builder.expressionCache = this.expressionCache;
+    builder.notificationListeners = this.notificationListeners;
+    return builder;
+  }
+
+  // Attach the real trade feed used for volume/flow stats in condition expressions
+  setTradeFeed(feed: ExpressionFeedSource): void {
+    this.feeds.trade = feed;
+  }
+
+  // Attach the launch feed used by waitForLaunch steps
+  setLaunchFeed(feed: LaunchFeedSource): void {
+    this.feeds.launch = feed;
+  }
+
+  // Attach the graduation feed used by waitForGraduation steps
+  setGraduationFeed(feed: GraduationFeedSource): void {
+    this.feeds.graduation = feed;
+  }
+
+  // Attach the leader wallet feed used by waitForLeaderTrade steps
+  setLeaderTradeFeed(feed: LeaderTradeFeedSource): void {
+    this.feeds.leaderTrade = feed;
+  }
+
+  // Subscribe to notify-step messages
+  onNotification(listener: (notification: StrategyNotification) => void): void {
+    this.notificationListeners.push(listener);
+  }
+
   // Get current trading provider info
   getTradingProviderInfo(): { name: string; initialized: boolean } {
     return {
@@ -514,6 +752,54 @@ export class StrategyBuilder {
     return strategy;
   }
 
+  // Register an already-built strategy (e.g. one created on another builder instance)
+  registerStrategy(strategy: Strategy): void {
+    if (this.strategies.has(strategy.id)) {
+      throw new Error(
+        `Strategy with ID '${strategy.id}' already exists. Use a different ID or delete the existing strategy first.`
+      );
+    }
+
+    this.strategies.set(strategy.id, strategy);
+  }
+
+  // Every registered strategy reachable through subStrategy steps (to copy onto another builder instance)
+  collectSubStrategies(strategy: Strategy): Strategy[] {
+    const found = new Map<string, Strategy>();
+    const toVisit = [strategy];
+    while (toVisit.length > 0) {
+      for (const step of toVisit.pop()!.steps) {
+        if (step.type !== 'subStrategy' || found.has(step.strategyId) || step.strategyId === strategy.id) continue;
+        const subStrategy = this.strategies.get(step.strategyId);
+        if (subStrategy) {
+          found.set(subStrategy.id, subStrategy);
+          toVisit.push(subStrategy);
+        }
+      }
+    }
+    return Array.from(found.values());
+  }
+
+  // Whether any expression (including in sub-strategies) reads trade-feed volume or indicators
+  usesTradeFeed(strategyId: string): boolean {
+    const strategy = this.strategies.get(strategyId);
+    if (!strategy) return false;
+    if (strategy.variables?._usesTradeFeed === true) return true; // Set by templates that read the feed from custom conditions
+
+    const feedNames = new Set([...TRADE_FEED_IDENTIFIERS, ...INDICATOR_IDENTIFIERS]);
+    return [strategy, ...this.collectSubStrategies(strategy)].some((s) =>
+      s.steps.some((step) =>
+        this.getStepExpressions(step).some((source) => {
+          try {
+            return Array.from(this.compileExpression(source).identifiers).some((name) => feedNames.has(name));
+          } catch {
+            return false; // Invalid expressions are reported by validateStrategy
+          }
+        })
+      )
+    );
+  }
+
   // Add a single step to a strategy
   addStep(strategyId: string, step: StrategyStep): void {
     const strategy = this.strategies.get(strategyId);
@@ -616,7 +902,8 @@ export class StrategyBuilder {
   async executeStrategy(
     strategyId: string,
     existingContext?: StrategyContext,
-    abortSignal?: AbortSignal  // Accept AbortSignal to enable immediate cancellation
+    abortSignal?: AbortSignal,  // Accept AbortSignal to enable immediate cancellation
+    hooks?: StrategyExecutionHooks
   ): Promise<StrategyExecutionResult> {
     const strategy = this.strategies.get(strategyId);
     if (!strategy) {
@@ -688,7 +975,7 @@ export class StrategyBuilder {
 
     const completedSteps: string[] = [];
     let loopCount = 0;
-    const maxLoops = 1000; // Safety limit to prevent infinite loops
+    const maxLoops = MAX_STEPS_PER_EXECUTION; // Safety limit to prevent infinite loops
 
     try {
       context.logs.push(`Starting strategy execution: ${strategy.name}`);
@@ -744,8 +1031,10 @@ export class StrategyBuilder {
           console.log(`🔍 [DEBUG StrategyBuilder] Executing step: ${step.id} (type: ${step.type}), stop flag: ${context.variables._shouldStop}`);
         }
 
+        await hooks?.beforeStep?.(step, context);
+
         try {
-          const result = await this.executeStep(step, context);
+          const result = await this.executeStep(step, context, abortSignal, hooks);
           context.stepResults[step.id] = result;
           completedSteps.push(step.id);
 
@@ -775,6 +1064,8 @@ export class StrategyBuilder {
               console.log(`🔥 [StrategyBuilder] Advanced to failure step: ${context.currentStepId}`);
             }
 
+            await hooks?.afterStep?.(step, context);
+
             // Return immediately with partial completion
             context.logs.push(`Strategy paused for subscription setup after ${loopCount} iterations`);
             return {
@@ -787,8 +1078,11 @@ export class StrategyBuilder {
             };
           }
 
-          // Determine next step
-          if (result.success && step.onSuccess) {
+          // Determine next step (control-flow steps pick their own target)
+          if (result.nextStepId !== undefined) {
+            context.currentStepId = result.nextStepId;
+            console.log(`🔍 [DEBUG StrategyBuilder] Next step (${step.type}): ${context.currentStepId || 'NONE'}`);
+          } else if (result.success && step.onSuccess) {
             context.currentStepId = step.onSuccess;
             console.log(`🔍 [DEBUG StrategyBuilder] Next step (onSuccess): ${context.currentStepId}`);
           } else if (!result.success && step.onFailure) {
@@ -817,6 +1111,8 @@ export class StrategyBuilder {
           }
         }
 
+        await hooks?.afterStep?.(step, context);
+
         // Reduced logging - only every 100 iterations
         if (loopCount % 100 === 0 || !context.currentStepId?.includes('wait')) {
           console.log(`🔍 [DEBUG StrategyBuilder] End of loop iteration ${loopCount}, next step: ${context.currentStepId || 'NONE'}, stop flag: ${context.variables._shouldStop}`);
@@ -849,8 +1145,10 @@ export class StrategyBuilder {
   // Execute a single step
   private async executeStep(
     step: StrategyStep,
-    context: StrategyContext
-  ): Promise<{ success: boolean; data?: any; message?: string }> {
+    context: StrategyContext,
+    abortSignal?: AbortSignal,
+    hooks?: StrategyExecutionHooks
+  ): Promise<{ success: boolean; data?: any; message?: string; nextStepId?: string }> {
     // ISSUE #2B FIX: Check stop flag BEFORE executing any step
     if (context.variables._shouldStop === true) {
       console.log(`🛑 [StrategyBuilder] Step ${step.id} cancelled - stop requested`);
@@ -896,11 +1194,15 @@ export class StrategyBuilder {
             console.log(`[BUY STEP] Using static amount from config: ${actualAmountInSol.toFixed(6)} SOL`);
           }
 
-          const signature = await this.tradingProvider.buyTokens(actualAmountInSol, context);
+          // Per-step token (rotation strategies) falls back to the strategy token
+          const buyTokenAddress = buyStep.tokenAddress || context.variables.tokenAddress;
+          const buyQuote = buyStep.quoteCurrency || 'SOL';
+          const signature = await this.tradingProvider.buyTokens(actualAmountInSol, context, buyStep.tokenAddress, buyStep.quoteCurrency);
+          const buyFill = await this.getTradeFill(signature);
           return {
             success: true,
-            data: { signature, solAmount: actualAmountInSol },
-            message: `Buy order executed: ${signature} (Amount: ${actualAmountInSol.toFixed(6)} SOL)`,
+            data: { signature, solAmount: actualAmountInSol, tokenAddress: buyTokenAddress, quoteCurrency: buyQuote, fill: buyFill },
+            message: `Buy order executed: ${signature} (Amount: ${actualAmountInSol.toFixed(6)} ${buyQuote}${buyStep.tokenAddress ? ` of ${buyStep.tokenAddress}` : ''})`,
           };
         } catch (error) {
           return {
@@ -944,14 +1246,16 @@ export class StrategyBuilder {
 
           // Calling tradingProvider.sellTokens
 
-          const signature = await this.tradingProvider.sellTokens(actualSellAmount, context);
+          const sellTokenAddress = sellStep.tokenAddress || context.variables.tokenAddress;
+          const signature = await this.tradingProvider.sellTokens(actualSellAmount, context, sellStep.tokenAddress, sellStep.quoteCurrency);
+          const sellFill = await this.getTradeFill(signature);
           return {
             success: true,
-            data: { signature, amountToSell: actualSellAmount },
+            data: { signature, amountToSell: actualSellAmount, tokenAddress: sellTokenAddress, quoteCurrency: sellStep.quoteCurrency || 'SOL', fill: sellFill },
             message: `Sell order executed: ${signature} (Amount: ${sellStep.amountToSell === -1
                 ? "ALL tokens"
                 : sellStep.amountToSell + " tokens"
-              })`,
+              }${sellStep.tokenAddress ? ` of ${sellStep.tokenAddress}` : ''})`,
           };
         } catch (error) {
           // Sell Failed
@@ -1006,15 +1310,18 @@ export class StrategyBuilder {
         }
 
       case "getPrice":
-        // FIX #5: Require explicit tokenAddress from context (no ENV_CONFIG fallback)
-        const tokenAddress = context.variables.tokenAddress;
+        // FIX #5: Require explicit tokenAddress from step or context (no ENV_CONFIG fallback)
+        const tokenAddress = (step as GetPriceStep).tokenAddress || context.variables.tokenAddress;
         
         if (!tokenAddress || tokenAddress.length !== 44) {
           throw new Error(`tokenAddress is required for getPrice step. Received: ${tokenAddress}`);
         }
         
         // Use MarketDataProvider which returns CORRECT price types
-        const marketData = await marketDataProvider.fetchTokenPrice(tokenAddress);
+        // (unless the provider replays its own market data, e.g. backtests)
+        const marketData = this.tradingProvider.getMarketData
+          ? await this.tradingProvider.getMarketData(tokenAddress)
+          : await marketDataProvider.fetchTokenPrice(tokenAddress);
 
         if (!marketData) {
           throw new Error('Failed to fetch market data');
@@ -1024,6 +1331,7 @@ export class StrategyBuilder {
         return {
           success: true,
           data: {
+            tokenAddress,
             price: marketData.price,           // TOKEN/SOL (for calculations)
             priceUSD: marketData.priceUSD,     // TOKEN/USD (for display) 
             solPrice: marketData.solPrice,     // SOL/USD (for USD conversions) 
@@ -1092,6 +1400,15 @@ export class StrategyBuilder {
       case "wait":
         const waitStep = step as WaitStep;
         try {
+          // Providers with their own clock (backtests) advance simulated time instead
+          if (this.tradingProvider.sleep) {
+            await this.tradingProvider.sleep(waitStep.durationMs);
+            return {
+              success: true,
+              message: `Waited for ${waitStep.durationMs}ms`,
+            };
+          }
+
           // Make wait interruptible by checking stop flag periodically
           const checkInterval = 1000; // Check every 1 second
           const totalDuration = waitStep.durationMs;
@@ -1150,11 +1467,18 @@ export class StrategyBuilder {
             conditionStep.customCondition
           ) {
             conditionMet = await conditionStep.customCondition(context);
+          } else if (
+            conditionStep.condition === "expression" &&
+            conditionStep.expression
+          ) {
+            const compiled = this.compileExpression(conditionStep.expression);
+            const scope = await this.buildExpressionScope(compiled, context);
+            conditionMet = evaluateCondition(compiled, scope);
           }
 
           return {
             success: conditionMet,
-            data: { conditionMet },
+            data: { conditionMet, ...(conditionStep.expression && { expression: conditionStep.expression }) },
             message: `Condition ${conditionMet ? "met" : "not met"}`,
           };
         } catch (error) {
@@ -1164,148 +1488,1264 @@ export class StrategyBuilder {
           };
         }
 
-      default:
-        return {
-          success: false,
-          message: `Unknown step type: ${(step as any).type}`,
-        };
-    }
-  }
+      case "setVariable": {
+        const setStep = step as SetVariableStep;
+        try {
+          let value: any;
+          if (setStep.expression) {
+            const compiled = this.compileExpression(setStep.expression);
+            value = evaluateExpression(compiled, await this.buildExpressionScope(compiled, context));
+          } else if (setStep.increment === undefined) {
+            value = setStep.value;
+          }
 
-  /**
-   * Validate strategy for production readiness
-   */
-  validateStrategy(strategyId: string): StrategyValidationError[] {
-    const strategy = this.strategies.get(strategyId);
-    if (!strategy) {
-      return [{
-        stepId: 'strategy',
-        errorType: 'validation',
-        message: `Strategy ${strategyId} not found`,
-        severity: 'error'
-      }];
-    }
+          if (setStep.key) {
+            const compiledKey = this.compileExpression(setStep.key);
+            const key = evaluateExpression(compiledKey, await this.buildExpressionScope(compiledKey, context));
+            if (typeof key !== 'string' && typeof key !== 'number') {
+              throw new Error(`key ${setStep.key} is ${JSON.stringify(key)}, not a string or number`);
+            }
+            const entries = { ...(context.variables[setStep.variable] || {}) };
+            if (setStep.increment !== undefined) {
+              value = (Number(entries[key]) || 0) + setStep.increment;
+            }
+            if (value === null || value === undefined) {
+              delete entries[key];
+            } else {
+              entries[key] = value;
+            }
+            context.variables[setStep.variable] = entries;
+            return {
+              success: true,
+              data: { variable: setStep.variable, key, value },
+              message: `Set ${setStep.variable}[${JSON.stringify(key)}] = ${JSON.stringify(value)}`,
+            };
+          }
 
-    const errors: StrategyValidationError[] = [];
+          if (setStep.increment !== undefined) {
+            value = (Number(context.variables[setStep.variable]) || 0) + setStep.increment;
+          }
+          context.variables[setStep.variable] = value;
+          return {
+            success: true,
+            data: { variable: setStep.variable, value },
+            message: `Set ${setStep.variable} = ${JSON.stringify(value)}`,
+          };
+        } catch (error) {
+          return {
+            success: false,
+            message: `Set variable failed: ${error}`,
+          };
+        }
+      }
 
-    // Basic validation
-    if (!strategy.startStepId) {
-      errors.push({
-        stepId: 'strategy',
-        errorType: 'validation',
-        message: 'Strategy must have a start step',
-        severity: 'error'
-      });
-    }
+      case "loop": {
+        const loopStep = step as LoopStep;
+        const counterKey = `_loop_${loopStep.id}`;
+        const completed = Number(context.variables[counterKey]) || 0;
+        try {
+          let finished = loopStep.times !== undefined && completed >= loopStep.times;
+          if (!finished && loopStep.until) {
+            const compiled = this.compileExpression(loopStep.until);
+            finished = evaluateCondition(compiled, await this.buildExpressionScope(compiled, context));
+          }
 
-    if (strategy.steps.length === 0) {
-      errors.push({
-        stepId: 'strategy',
-        errorType: 'validation',
-        message: 'Strategy must have at least one step',
-        severity: 'error'
-      });
-    }
+          if (finished) {
+            // Reset so an enclosing loop can run this one again
+            delete context.variables[counterKey];
+            return {
+              success: true,
+              data: { iterations: completed, finished: true },
+              message: `Loop finished after ${completed} iteration(s)`,
+              nextStepId: loopStep.onSuccess || '',
+            };
+          }
 
-    // Validate each step
-    for (const step of strategy.steps) {
-      // Required fields validation
-      if (!step.id || !step.type) {
-        errors.push({
-          stepId: step.id || 'unknown',
-          errorType: 'validation',
-          message: 'Step must have id and type',
-          severity: 'error'
-        });
+          context.variables[counterKey] = completed + 1;
+          return {
+            success: true,
+            data: { iteration: completed + 1, times: loopStep.times },
+            message: `Loop iteration ${completed + 1}${loopStep.times !== undefined ? `/${loopStep.times}` : ''}`,
+            nextStepId: loopStep.bodyStepId,
+          };
+        } catch (error) {
+          return {
+            success: false,
+            message: `Loop check failed: ${error}`,
+          };
+        }
       }
 
-      // Step-specific validation
-      if (step.type === 'buy') {
-        const buyStep = step as BuyStep;
-        // Allow -1 for dynamic amount from context (like sell steps)
-        if (buyStep.amountInSol === 0 || buyStep.amountInSol < -1) {
-          errors.push({
-            stepId: step.id,
-            errorType: 'validation',
-            message: 'Buy step must have valid amountInSol (-1 for dynamic from context, or positive number)',
-            severity: 'error'
-          });
-        }
+      case "branch": {
+        const branchStep = step as BranchStep;
+        try {
+          for (let i = 0; i < branchStep.branches.length; i++) {
+            const compiled = this.compileExpression(branchStep.branches[i].when);
+            if (evaluateCondition(compiled, await this.buildExpressionScope(compiled, context))) {
+              return {
+                success: true,
+                data: { matched: i, when: branchStep.branches[i].when },
+                message: `Branch ${i} matched, going to ${branchStep.branches[i].goto}`,
+                nextStepId: branchStep.branches[i].goto,
+              };
+            }
+          }
 
-        // Risk validation (skip if using dynamic amount)
-        if (buyStep.amountInSol > 0 && buyStep.amountInSol > strategy.riskLimits.maxPositionSizeSOL) {
-          errors.push({
-            stepId: step.id,
-            errorType: 'risk',
-            message: `Buy amount ${buyStep.amountInSol} SOL exceeds max position size ${strategy.riskLimits.maxPositionSizeSOL} SOL`,
-            severity: 'error'
-          });
+          return {
+            success: true,
+            data: { matched: -1 },
+            message: 'No branch matched',
+            nextStepId: branchStep.onSuccess || '',
+          };
+        } catch (error) {
+          return {
+            success: false,
+            message: `Branch evaluation failed: ${error}`,
+          };
         }
       }
 
-      if (step.type === 'sell') {
-        const sellStep = step as SellStep;
-        if (sellStep.amountToSell === 0 || sellStep.amountToSell < -1) {
-          errors.push({
-            stepId: step.id,
-            errorType: 'validation',
-            message: 'Sell step must have valid amountToSell (-1 for all, or positive number)',
-            severity: 'error'
-          });
-        }
-      }
+      case "notify": {
+        const notifyStep = step as NotifyStep;
+        const notification: StrategyNotification = {
+          strategyId: context.strategyId,
+          stepId: notifyStep.id,
+          level: notifyStep.level || 'info',
+          message: await this.interpolateMessage(notifyStep.message, context),
+          timestamp: this.tradingProvider.now?.() ?? Date.now(), // Simulated time in backtests and dry runs
+        };
 
-      // Navigation validation
-      if (step.onSuccess && !strategy.steps.find(s => s.id === step.onSuccess)) {
-        errors.push({
-          stepId: step.id,
-          errorType: 'logic',
-          message: `onSuccess step '${step.onSuccess}' not found in strategy`,
-          severity: 'error'
+        context.logs.push(`[notify:${notification.level}] ${notification.message}`);
+        awsLogger.info('Strategy notification', {
+          strategyId: context.strategyId,
+          metadata: { stepId: notifyStep.id, level: notification.level, message: notification.message }
         });
+        for (const listener of this.notificationListeners) {
+          try {
+            listener(notification);
+          } catch (error) {
+            console.warn(`⚠️ [StrategyBuilder] Notification listener failed:`, error);
+          }
+        }
+
+        return {
+          success: true,
+          data: notification,
+          message: notification.message,
+        };
       }
 
-      if (step.onFailure && !strategy.steps.find(s => s.id === step.onFailure)) {
-        errors.push({
-          stepId: step.id,
-          errorType: 'logic',
-          message: `onFailure step '${step.onFailure}' not found in strategy`,
-          severity: 'error'
-        });
+      case "stop": {
+        const stopStep = step as StopStep;
+        context.variables._stopReason = stopStep.reason || 'Stop step reached';
+        return {
+          success: true,
+          data: { reason: context.variables._stopReason },
+          message: `Strategy stopped: ${context.variables._stopReason}`,
+          nextStepId: '',
+        };
       }
-    }
 
-    // Check for unreachable steps
-    const reachableSteps = this.findReachableSteps(strategy);
-    const unreachableSteps = strategy.steps.filter(step => !reachableSteps.has(step.id));
-    for (const step of unreachableSteps) {
-      errors.push({
-        stepId: step.id,
-        errorType: 'logic',
-        message: 'Step is unreachable from start step',
-        severity: 'warning'
-      });
-    }
+      case "subStrategy":
+        return this.executeSubStrategy(step as SubStrategyStep, context, abortSignal, hooks);
 
-    return errors;
+      case "waitForLaunch":
+        return this.executeWaitForLaunch(step as WaitForLaunchStep, context);
+
+      case "waitForGraduation":
+        return this.executeWaitForGraduation(step as WaitForGraduationStep, context);
+
+      case "waitForLeaderTrade":
+        return this.executeWaitForLeaderTrade(step as WaitForLeaderTradeStep, context);
+
+      default:
+        return {
+          success: false,
+          message: `Unknown step type: ${(step as any).type}`,
+        };
+    }
   }
 
   /**
-   * Find all steps reachable from start step
+   * Wait for a launch that passes the step filters and switch the strategy to its mint
    */
-  private findReachableSteps(strategy: Strategy): Set<string> {
-    const reachable = new Set<string>();
-    const toVisit = [strategy.startStepId];
+  private async executeWaitForLaunch(
+    step: WaitForLaunchStep,
+    context: StrategyContext
+  ): Promise<{ success: boolean; data?: any; message?: string; nextStepId?: string }> {
+    if (!this.feeds.launch) {
+      return {
+        success: false,
+        message: 'No launch feed attached - waitForLaunch needs the launch monitor',
+      };
+    }
 
-    while (toVisit.length > 0) {
-      const stepId = toVisit.pop()!;
+    const cursorKey = `_launch_${step.id}`;
+    const timeoutMs = step.timeoutMs ?? LAUNCH_CONFIG.DEFAULT_WAIT_TIMEOUT_MS;
+
+    try {
+      const result = await this.feeds.launch.waitForLaunch(step.filters || {}, {
+        timeoutMs,
+        cursor: context.variables[cursorKey],
+        shouldStop: () => context.variables._shouldStop === true,
+      });
+      if (result.cursor !== undefined) {
+        context.variables[cursorKey] = result.cursor;
+      }
+
+      if (result.candidate) {
+        const { launch, creatorLaunchCount } = result.candidate;
+        context.variables.tokenAddress = launch.mint;
+        return {
+          success: true,
+          data: {
+            mint: launch.mint,
+            name: launch.name,
+            symbol: launch.symbol,
+            creator: launch.creator,
+            creatorLaunchCount,
+            initialBuySol: launch.initialBuySol,
+            initialPrice: launch.initialPrice,
+            launchedAt: launch.timestamp,
+            rejected: result.rejected,
+          },
+          message: `Launch ${launch.symbol} (${launch.mint}) passed filters (${result.rejected} rejected)`,
+        };
+      }
+
+      if (result.exhausted) {
+        context.variables._stopReason = 'Launch tape exhausted';
+        return {
+          success: true,
+          data: { rejected: result.rejected },
+          message: `No launches left (${result.rejected} rejected)`,
+          nextStepId: '',
+        };
+      }
+
+      return {
+        success: false,
+        data: { rejected: result.rejected },
+        message: `No launch passed filters within ${timeoutMs}ms (${result.rejected} rejected)`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `waitForLaunch failed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Wait for the token to leave its bonding curve and record the pool it migrated to
+   */
+  private async executeWaitForGraduation(
+    step: WaitForGraduationStep,
+    context: StrategyContext
+  ): Promise<{ success: boolean; data?: any; message?: string }> {
+    if (!this.feeds.graduation) {
+      return {
+        success: false,
+        message: 'No graduation feed attached - waitForGraduation needs the graduation detector',
+      };
+    }
+
+    const tokenAddress: string | undefined = step.tokenAddress || context.variables.tokenAddress;
+    if (!tokenAddress) {
+      return {
+        success: false,
+        message: 'tokenAddress is required for waitForGraduation step',
+      };
+    }
+
+    const timeoutMs = step.timeoutMs ?? GRADUATION_CONFIG.DEFAULT_WAIT_TIMEOUT_MS;
+
+    try {
+      const graduation = await this.feeds.graduation.waitForGraduation(tokenAddress, {
+        timeoutMs,
+        shouldStop: () => context.variables._shouldStop === true,
+      });
+
+      if (!graduation) {
+        return {
+          success: false,
+          message: `${tokenAddress} did not graduate within ${timeoutMs}ms`,
+        };
+      }
+
+      context.variables.graduated = true;
+      context.variables.poolAddress = graduation.poolAddress;
+      return {
+        success: true,
+        data: graduation,
+        message: `${tokenAddress} graduated (pool ${graduation.poolAddress ?? 'not found yet - trading via Jupiter'})`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `waitForGraduation failed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Wait for a leader wallet swap that passes the step filters and switch the strategy to its mint
+   */
+  private async executeWaitForLeaderTrade(
+    step: WaitForLeaderTradeStep,
+    context: StrategyContext
+  ): Promise<{ success: boolean; data?: any; message?: string }> {
+    if (!this.feeds.leaderTrade) {
+      return {
+        success: false,
+        message: 'No leader trade feed attached - waitForLeaderTrade needs the copy trade monitor',
+      };
+    }
+
+    const cursorKey = `_leader_${step.id}`;
+    const timeoutMs = step.timeoutMs ?? COPY_TRADE_CONFIG.DEFAULT_WAIT_TIMEOUT_MS;
+    const positions = step.positionsVariable ? context.variables[step.positionsVariable] : undefined;
+
+    try {
+      const result = await this.feeds.leaderTrade.waitForLeaderTrade({
+        wallets: step.wallets,
+        blocklist: step.blocklist,
+        venues: step.venues,
+        maxDelayMs: step.maxDelayMs,
+        exitTokens: step.positionsVariable
+          ? Object.keys(positions || {}).filter(mint => Number(positions[mint]) > 0)
+          : undefined,
+      }, {
+        timeoutMs,
+        cursor: context.variables[cursorKey],
+        shouldStop: () => context.variables._shouldStop === true,
+      });
+      if (result.cursor !== undefined) {
+        context.variables[cursorKey] = result.cursor;
+      }
+
+      if (!result.trade) {
+        return {
+          success: false,
+          data: { rejected: result.rejected },
+          message: `No leader trade passed filters within ${timeoutMs}ms (${result.rejected} rejected)`,
+        };
+      }
+
+      const { swap } = result.trade;
+      // A leader selling everything (or a holding we could not read) is a full exit
+      const soldFraction = swap.isBuy
+        ? 0
+        : swap.walletTokensBefore > 0
+          ? Math.min(1, (swap.walletTokensBefore - swap.walletTokensAfter) / swap.walletTokensBefore)
+          : 1;
+
+      context.variables.tokenAddress = swap.tokenMint;
+      return {
+        success: true,
+        data: {
+          ...swap,
+          side: swap.isBuy ? 'buy' : 'sell',
+          delayMs: result.delayMs,
+          soldFraction,
+          rejected: result.rejected,
+        },
+        message: `Leader ${swap.wallet} ${swap.isBuy ? 'bought' : 'sold'} ${swap.tokenAmount} of ${swap.tokenMint} for ${swap.solAmount} SOL on ${swap.venue}`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `waitForLeaderTrade failed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Run a sub-strategy step in its own context and report the outcome back to the caller.
+   * The caller's abort signal and step hooks apply to the sub-strategy's steps too.
+   */
+  private async executeSubStrategy(
+    step: SubStrategyStep,
+    context: StrategyContext,
+    abortSignal?: AbortSignal,
+    hooks?: StrategyExecutionHooks
+  ): Promise<{ success: boolean; data?: any; message?: string }> {
+    const subStrategy = this.strategies.get(step.strategyId);
+    if (!subStrategy) {
+      return { success: false, message: `Sub-strategy ${step.strategyId} not found` };
+    }
+
+    const depth = (Number(context.variables._subStrategyDepth) || 0) + 1;
+    if (depth > MAX_SUB_STRATEGY_DEPTH) {
+      return { success: false, message: `Sub-strategy nesting exceeds maximum depth ${MAX_SUB_STRATEGY_DEPTH}` };
+    }
+
+    const variables: Record<string, any> = {
+      ...(subStrategy.variables || {}),
+      ...(context.variables.tokenAddress && { tokenAddress: context.variables.tokenAddress }),
+    };
+    try {
+      for (const [name, source] of Object.entries(step.inputs || {})) {
+        const compiled = this.compileExpression(source);
+        variables[name] = evaluateExpression(compiled, await this.buildExpressionScope(compiled, context));
+      }
+    } catch (error) {
+      return { success: false, message: `Sub-strategy input failed: ${error}` };
+    }
+    variables._subStrategyDepth = depth;
+
+    // Stopping the caller stops the sub-strategy too (wait loops and custom conditions read this flag)
+    let stopRequested = false;
+    Object.defineProperty(variables, '_shouldStop', {
+      get: () => stopRequested || context.variables._shouldStop === true,
+      set: (value) => { stopRequested = value === true; },
+      enumerable: false,
+    });
+
+    // Nested sub-strategies keep reporting the outermost caller
+    const subHooks: StrategyExecutionHooks | undefined = hooks && {
+      beforeStep: async (subStep, subContext, caller) => {
+        await hooks.beforeStep?.(subStep, subContext, caller ?? { step, context });
+      },
+      afterStep: async (subStep, subContext, caller) => {
+        await hooks.afterStep?.(subStep, subContext, caller ?? { step, context });
+      },
+    };
+
+    const result = await this.executeStrategy(subStrategy.id, {
+      strategyId: subStrategy.id,
+      currentStepId: subStrategy.startStepId,
+      variables,
+      stepResults: {},
+      startTime: this.tradingProvider.now?.() ?? Date.now(),
+      logs: [],
+    }, abortSignal, subHooks);
+    context.logs.push(...result.context.logs.map((line) => `[${subStrategy.id}] ${line}`));
+
+    for (const [target, source] of Object.entries(step.outputs || {})) {
+      context.variables[target] = result.context.variables[source];
+    }
+
+    const lastStepId = result.completedSteps[result.completedSteps.length - 1];
+    const lastStepSucceeded = !lastStepId || result.context.stepResults[lastStepId]?.success !== false;
+    let failure: string | undefined;
+    if (!result.success) {
+      failure = result.error || 'execution failed';
+    } else if (result.subscriptionRequested || result.completed === false) {
+      failure = 'reactive (subscription) strategies cannot run as sub-strategies';
+    } else if (!lastStepSucceeded) {
+      failure = `step ${lastStepId} failed`;
+    }
+
+    return {
+      success: !failure,
+      data: {
+        strategyId: subStrategy.id,
+        depth,
+        variables: Object.fromEntries(
+          Object.entries(result.context.variables).filter(([name]) => !name.startsWith('_'))
+        ),
+        stepResults: result.context.stepResults,
+        completedSteps: result.completedSteps,
+        ...(failure && { error: failure }),
+      },
+      message: failure
+        ? `Sub-strategy ${subStrategy.id} failed: ${failure}`
+        : `Sub-strategy ${subStrategy.id} completed (${result.completedSteps.length} steps)`,
+    };
+  }
+
+  /**
+   * Actual fill of an executed order for the step result (null when the provider cannot tell)
+   * The order already went through, so a failed lookup never fails the step
+   */
+  private async getTradeFill(signature: string): Promise<TradeFill | null> {
+    try {
+      return (await this.tradingProvider.getTradeFill?.(signature)) ?? null;
+    } catch (error) {
+      console.warn(`⚠️ [StrategyBuilder] Could not read the fill of ${signature}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * Parse an expression once and reuse the AST on every evaluation
+   */
+  private compileExpression(source: string): CompiledExpression {
+    let compiled = this.expressionCache.get(source);
+    if (!compiled) {
+      compiled = parseExpression(source);
+      this.expressionCache.set(source, compiled);
+    }
+    return compiled;
+  }
+
+  /**
+   * Replace `{{ expression }}` placeholders in a notify message
+   * A failing placeholder is rendered inline instead of failing the step
+   */
+  private async interpolateMessage(template: string, context: StrategyContext): Promise<string> {
+    const placeholders = Array.from(template.matchAll(/\{\{([^}]+)\}\}/g));
+    let message = template;
+
+    for (const match of placeholders) {
+      let rendered: string;
+      try {
+        const compiled = this.compileExpression(match[1].trim());
+        const value = evaluateExpression(compiled, await this.buildExpressionScope(compiled, context));
+        rendered = typeof value === 'string' ? value : JSON.stringify(value) ?? 'undefined';
+      } catch (error) {
+        rendered = `<${error instanceof Error ? error.message : String(error)}>`;
+      }
+      message = message.replace(match[0], rendered);
+    }
+
+    return message;
+  }
+
+  /**
+   * Resolve only the names an expression references (price lookups hit the network)
+   */
+  private async buildExpressionScope(
+    compiled: CompiledExpression,
+    context: StrategyContext
+  ): Promise<ExpressionScope> {
+    const uses = (...names: string[]) => names.some((name) => compiled.identifiers.has(name));
+    const now = this.tradingProvider.now ? this.tradingProvider.now() : Date.now();
+    const scope: ExpressionScope = {
+      vars: context.variables,
+      steps: context.stepResults,
+      now,
+      elapsedMs: now - context.startTime,
+    };
+
+    if (uses('price')) {
+      scope.price = (await this.tradingProvider.getTokenPriceUSD()).price;
+    }
+    if (uses('solPrice') && this.tradingProvider.getSolPriceUSD) {
+      scope.solPrice = (await this.tradingProvider.getSolPriceUSD()).price;
+    }
+
+    const tokenAddress: string | undefined = context.variables.tokenAddress;
+    if (!this.feeds.trade || !tokenAddress) {
+      return scope;
+    }
+    // Feed keys are case-sensitive; event-driven strategies subscribe with a lowercased mint
+    const key = this.feeds.trade.getTokenStats(tokenAddress) ? tokenAddress : tokenAddress.toLowerCase();
+
+    if (uses(...TRADE_FEED_IDENTIFIERS)) {
+      const windowVolume = (minutes: number) => {
+        const { buyVolume, sellVolume } = this.feeds.trade!.getVolumeInWindow(key, minutes);
+        return { buyVolume, sellVolume, total: buyVolume + sellVolume };
+      };
+      const fiveMinutes = windowVolume(5);
+      const stats = this.feeds.trade.getTokenStats(key);
+
+      scope.volume1m = windowVolume(1).total;
+      scope.volume5m = fiveMinutes.total;
+      scope.volume15m = windowVolume(15).total;
+      scope.buyVolume5m = fiveMinutes.buyVolume;
+      scope.sellVolume5m = fiveMinutes.sellVolume;
+      scope.trades = stats?.tradeCount ?? 0;
+      scope.buys = stats?.totalBuys ?? 0;
+      scope.sells = stats?.totalSells ?? 0;
+      scope.avgBuySize = stats?.avgBuySize ?? 0;
+      scope.avgSellSize = stats?.avgSellSize ?? 0;
+    }
+
+    if (uses(...INDICATOR_IDENTIFIERS) && this.feeds.trade.getIndicators) {
+      // Indicators are undefined until enough bars exist - guard with defined(rsi) etc.
+      const indicators = this.feeds.trade.getIndicators(key, context.variables.indicatorPeriods);
+      scope.tradePrice = indicators?.lastPrice;
+      scope.sma = indicators?.sma;
+      scope.ema = indicators?.ema;
+      scope.rsi = indicators?.rsi;
+      scope.bbUpper = indicators?.bollinger?.upper;
+      scope.bbMiddle = indicators?.bollinger?.middle;
+      scope.bbLower = indicators?.bollinger?.lower;
+      scope.bbStdDev = indicators?.bollinger?.stdDev;
+      scope.atr = indicators?.atr;
+      scope.vwap = indicators?.vwap;
+      scope.buyPressure = indicators?.buyPressure;
+      scope.pressureRatio = indicators?.pressureRatio;
+    }
+
+    return scope;
+  }
+
+  /**
+   * Walk the step graph against a supplied or synthetic price path on a simulated clock.
+   * Orders are recorded, never sent: runs on a private builder with no live provider or feeds.
+   * Custom conditions that read Date.now() or live services directly still see live data.
+   */
+  async dryRunStrategy(strategyId: string, config: DryRunConfig = {}): Promise<DryRunResult> {
+    const strategy = this.strategies.get(strategyId);
+    if (!strategy) {
+      throw new Error(`Strategy ${strategyId} not found`);
+    }
+
+    const maxSteps = config.maxSteps ?? DRY_RUN_DEFAULT_MAX_STEPS;
+    const { dataset, pricePath } = buildDryRunPricePath(strategy, config, Date.now());
+    const feed = new HistoricalMarketData(dataset);
+    const provider = new DryRunTradingProvider(feed);
+
+    const builder = new StrategyBuilder(provider);
+    builder.registerStrategy({ ...strategy, variables: { ...(strategy.variables || {}) } });
+    for (const subStrategy of this.collectSubStrategies(strategy)) {
+      builder.registerStrategy({ ...subStrategy, variables: { ...(subStrategy.variables || {}) } });
+    }
+
+    const context: StrategyContext = {
+      strategyId,
+      currentStepId: strategy.startStepId,
+      variables: {
+        ...(strategy.variables || {}),
+        tokenAddress: dataset.tokenAddress,
+        ...config.variables,
+      },
+      stepResults: {},
+      startTime: feed.now(),
+      logs: [],
+    };
+
+    const timeline: DryRunTimelineEntry[] = [];
+    let stopReason: DryRunStopReason | undefined;
+    let previousResult: unknown;
+    let chunkSteps = 0;
+    let result: StrategyExecutionResult;
+
+    while (true) {
+      chunkSteps = 0;
+      result = await builder.executeStrategy(strategyId, context, undefined, {
+        beforeStep: async (step, ctx, caller) => {
+          if (caller) return; // A sub-strategy is explained as its one calling step
+          previousResult = ctx.stepResults[step.id];
+        },
+        afterStep: async (step, ctx, caller) => {
+          if (caller) return;
+          // A thrown step leaves the previous result in place
+          const stepResult = ctx.stepResults[step.id];
+          const threw = stepResult === previousResult;
+          timeline.push({
+            index: timeline.length,
+            stepId: step.id,
+            type: step.type,
+            description: step.description,
+            timestamp: feed.now(),
+            elapsedMs: feed.now() - feed.getStartTime(),
+            priceUSD: feed.getCurrentTick().priceUSD!,
+            outcome: threw ? 'error' : stepResult.success ? 'success' : 'failure',
+            message: threw ? undefined : stepResult.message,
+            nextStepId: ctx.currentStepId || null,
+          });
+
+          if (LIVE_FEED_STEP_TYPES.includes(step.type)) {
+            stopReason = 'needs_live_feed';
+          } else if (timeline.length >= maxSteps) {
+            stopReason = 'max_steps';
+          } else if (feed.isExhausted()) {
+            stopReason = 'path_exhausted';
+          }
+          if (stopReason || ++chunkSteps >= DRY_RUN_STEPS_PER_EXECUTION) {
+            ctx.variables._shouldStop = true;
+          }
+        },
+      });
+
+      if (stopReason || !result.success || chunkSteps < DRY_RUN_STEPS_PER_EXECUTION) {
+        break;
+      }
+      context.variables._shouldStop = false;
+    }
+
+    if (!stopReason) {
+      stopReason = !result.success ? 'error' : result.subscriptionRequested ? 'needs_live_feed' : 'completed';
+    }
+
+    // Static view of the graph: what can never run, and buys that repeat
+    const reachable = this.findReachableSteps(strategy);
+    const visited = new Set(timeline.map(entry => entry.stepId));
+    const reachableBuys = strategy.steps.filter((step): step is BuyStep => step.type === 'buy' && reachable.has(step.id));
+    const fixedAmounts = reachableBuys.map(step => step.amountInSol).filter(amount => amount > 0);
+
+    const { _shouldStop, ...finalVariables } = result.context.variables;
+    console.log(`🧪 [DryRun] ${strategy.name}: ${timeline.length} steps, ${provider.getOrders().length} orders (${stopReason})`);
+
+    return {
+      strategyId,
+      strategyName: strategy.name,
+      tokenAddress: dataset.tokenAddress,
+      stopReason,
+      error: result.error,
+      pricePath,
+      timeline,
+      orders: provider.getOrders(),
+      capital: assessCapitalUsage(provider.getOrders(), provider.getPeakExposureSOL(), strategy.riskLimits, {
+        maxStaticOrderSOL: fixedAmounts.length > 0 ? Math.max(...fixedAmounts) : null,
+        repeatingBuySteps: this.findStepCycles(strategy, step => reachable.has(step.id))
+          .flat()
+          .filter(id => reachableBuys.some(step => step.id === id)),
+      }),
+      unreachableSteps: strategy.steps.filter(step => !reachable.has(step.id)).map(step => step.id),
+      unvisitedSteps: strategy.steps.filter(step => reachable.has(step.id) && !visited.has(step.id)).map(step => step.id),
+      liveFeedSteps: strategy.steps.filter(step => LIVE_FEED_STEP_TYPES.includes(step.type)).map(step => step.id),
+      finalVariables,
+    };
+  }
+
+  /**
+   * Validate strategy for production readiness
+   */
+  validateStrategy(strategyId: string): StrategyValidationError[] {
+    const strategy = this.strategies.get(strategyId);
+    if (!strategy) {
+      return [{
+        stepId: 'strategy',
+        errorType: 'validation',
+        message: `Strategy ${strategyId} not found`,
+        severity: 'error'
+      }];
+    }
+
+    const errors: StrategyValidationError[] = [];
+
+    // Basic validation
+    if (!strategy.startStepId) {
+      errors.push({
+        stepId: 'strategy',
+        errorType: 'validation',
+        message: 'Strategy must have a start step',
+        severity: 'error'
+      });
+    }
+
+    if (strategy.steps.length === 0) {
+      errors.push({
+        stepId: 'strategy',
+        errorType: 'validation',
+        message: 'Strategy must have at least one step',
+        severity: 'error'
+      });
+    }
+
+    if (strategy.startStepId && !strategy.steps.find(s => s.id === strategy.startStepId)) {
+      errors.push({
+        stepId: 'strategy',
+        errorType: 'logic',
+        message: `Start step '${strategy.startStepId}' not found in strategy`,
+        severity: 'error'
+      });
+    }
+
+    // Validate each step
+    for (const step of strategy.steps) {
+      // Required fields validation
+      if (!step.id || !step.type) {
+        errors.push({
+          stepId: step.id || 'unknown',
+          errorType: 'validation',
+          message: 'Step must have id and type',
+          severity: 'error'
+        });
+      }
+
+      // Step-specific validation
+      if (step.type === 'buy') {
+        const buyStep = step as BuyStep;
+        // Allow -1 for dynamic amount from context (like sell steps)
+        if (buyStep.amountInSol === 0 || buyStep.amountInSol < -1) {
+          errors.push({
+            stepId: step.id,
+            errorType: 'validation',
+            message: 'Buy step must have valid amountInSol (-1 for dynamic from context, or positive number)',
+            severity: 'error'
+          });
+        }
+
+        // Risk validation (skip if using dynamic amount; USDC-quoted amounts aren't in SOL)
+        if (buyStep.quoteCurrency !== 'USDC' && buyStep.amountInSol > 0 && buyStep.amountInSol > strategy.riskLimits.maxPositionSizeSOL) {
+          errors.push({
+            stepId: step.id,
+            errorType: 'risk',
+            message: `Buy amount ${buyStep.amountInSol} SOL exceeds max position size ${strategy.riskLimits.maxPositionSizeSOL} SOL`,
+            severity: 'error'
+          });
+        }
+      }
+
+      if (step.type === 'sell') {
+        const sellStep = step as SellStep;
+        if (sellStep.amountToSell === 0 || sellStep.amountToSell < -1) {
+          errors.push({
+            stepId: step.id,
+            errorType: 'validation',
+            message: 'Sell step must have valid amountToSell (-1 for all, or positive number)',
+            severity: 'error'
+          });
+        }
+      }
+
+      if (step.type === 'condition') {
+        const conditionStep = step as ConditionStep;
+        if (conditionStep.condition === 'expression') {
+          const expressionErrors = conditionStep.expression
+            ? checkExpression(conditionStep.expression)
+            : ['Expression condition requires an expression'];
+          for (const message of expressionErrors) {
+            errors.push({
+              stepId: step.id,
+              errorType: 'validation',
+              message: `Invalid condition expression: ${message}`,
+              severity: 'error'
+            });
+          }
+        } else if (conditionStep.condition === 'custom' && typeof conditionStep.customCondition !== 'function') {
+          // Functions do not survive saveStrategy/loadStrategy
+          errors.push({
+            stepId: step.id,
+            errorType: 'validation',
+            message: 'Custom condition has no customCondition function (use condition: "expression" for saved strategies)',
+            severity: 'error'
+          });
+        }
+      }
+
+      // Per-step token targets must be mint addresses
+      const stepTokenAddress = (step as BuyStep | SellStep | GetPriceStep | WaitForGraduationStep).tokenAddress;
+      if (stepTokenAddress !== undefined && !/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(stepTokenAddress)) {
+        errors.push({
+          stepId: step.id,
+          errorType: 'validation',
+          message: `Invalid tokenAddress '${stepTokenAddress}' (expected a base58 mint address)`,
+          severity: 'error'
+        });
+      }
+
+      errors.push(...this.validateControlFlowStep(strategy, step));
+
+      // Navigation validation
+      if (step.onSuccess && !strategy.steps.find(s => s.id === step.onSuccess)) {
+        errors.push({
+          stepId: step.id,
+          errorType: 'logic',
+          message: `onSuccess step '${step.onSuccess}' not found in strategy`,
+          severity: 'error'
+        });
+      }
+
+      if (step.onFailure && !strategy.steps.find(s => s.id === step.onFailure)) {
+        errors.push({
+          stepId: step.id,
+          errorType: 'logic',
+          message: `onFailure step '${step.onFailure}' not found in strategy`,
+          severity: 'error'
+        });
+      }
+    }
+
+    errors.push(...this.validateStrategyGraph(strategy));
+
+    return errors;
+  }
+
+  /**
+   * Structural checks over the whole step graph: unreachable steps, loops that
+   * never wait, sells that can run before any buy and worst-case cumulative spend
+   */
+  private validateStrategyGraph(strategy: Strategy): StrategyValidationError[] {
+    const errors: StrategyValidationError[] = [];
+    const stepsById = new Map(strategy.steps.map(step => [step.id, step]));
+    const reachable = this.findReachableSteps(strategy);
+
+    // Check for unreachable steps
+    for (const step of strategy.steps.filter(step => !reachable.has(step.id))) {
+      errors.push({
+        stepId: step.id,
+        errorType: 'logic',
+        message: 'Step is unreachable from start step',
+        severity: 'warning'
+      });
+    }
+
+    // Cycles through steps that never block run back-to-back (each pass hits RPC immediately).
+    // Bodies of loops with a fixed `times` are bounded, so those edges are left out. An exit
+    // branch does not bound a cycle - its condition may never become true.
+    const busyLoops = this.findStepCycles(
+      strategy,
+      step => reachable.has(step.id) && !this.stepWaits(step),
+      (step, targetId) => !(step.type === 'loop' && step.times !== undefined && targetId === step.bodyStepId)
+    );
+    for (const cycle of busyLoops) {
+      errors.push({
+        stepId: cycle[0],
+        errorType: 'logic',
+        message: `Steps ${cycle.join(' -> ')} can loop without a wait or price-gated step and would busy-spin against RPC`
+          + ' (add a wait step or bound the loop with `times`)',
+        severity: 'error'
+      });
+    }
+
+    // Sells reachable from the start without passing a buy have nothing to sell unless the wallet already holds the token
+    const beforeFirstBuy = this.findReachableSteps(strategy, strategy.startStepId, undefined, step => step.type === 'buy');
+    for (const step of strategy.steps) {
+      if (step.type === 'sell' && beforeFirstBuy.has(step.id)) {
+        errors.push({
+          stepId: step.id,
+          errorType: 'logic',
+          message: 'Sell step can run before any buy step',
+          severity: 'warning'
+        });
+      }
+    }
+
+    // Worst-case cumulative spend: heaviest path of fixed buy amounts, unbounded if a buy can repeat
+    const cycles = this.findStepCycles(strategy, step => reachable.has(step.id));
+    const repeatingBuys = cycles.flat().filter(id => stepsById.get(id)!.type === 'buy');
+    const maxPositionSizeSOL = strategy.riskLimits.maxPositionSizeSOL;
+    if (repeatingBuys.length > 0) {
+      errors.push({
+        stepId: repeatingBuys[0],
+        errorType: 'risk',
+        message: `Buy step(s) ${repeatingBuys.join(', ')} can repeat in a loop, so cumulative spend has no bound below maxPositionSizeSOL (${maxPositionSizeSOL} SOL)`,
+        severity: 'warning'
+      });
+    } else if (stepsById.has(strategy.startStepId)) {
+      // Cycles hold no buys here, so each one collapses into a single node of a DAG
+      const cycleOf = new Map(cycles.flatMap(cycle => cycle.map(id => [id, cycle] as const)));
+      const spendFrom = new Map<string, number>();
+      const maxSpend = (stepId: string): number => {
+        const group = cycleOf.get(stepId) || [stepId];
+        if (spendFrom.has(group[0])) return spendFrom.get(group[0])!;
+
+        let spend = 0;
+        for (const step of group.map(id => stepsById.get(id)).filter((step): step is StrategyStep => !!step)) {
+          const own = step.type === 'buy' && step.quoteCurrency !== 'USDC' && step.amountInSol > 0 ? step.amountInSol : 0;
+          const next = this.getStepTargets(step).filter(target => !group.includes(target)).map(maxSpend);
+          spend = Math.max(spend, own + Math.max(0, ...next));
+        }
+        spendFrom.set(group[0], spend);
+        return spend;
+      };
+      const worstCase = maxSpend(strategy.startStepId);
+      if (worstCase > maxPositionSizeSOL) {
+        errors.push({
+          stepId: 'strategy',
+          errorType: 'risk',
+          message: `Buy steps on one path spend up to ${worstCase} SOL in total, above maxPositionSizeSOL (${maxPositionSizeSOL} SOL)`,
+          severity: 'warning'
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Whether a step blocks until time passes or the market moves (sub-strategies count if any of their steps do)
+   */
+  private stepWaits(step: StrategyStep): boolean {
+    if (WAITING_STEP_TYPES.includes(step.type)) return true;
+    if (step.type !== 'subStrategy') return false;
+    const subStrategy = this.strategies.get(step.strategyId);
+    return !!subStrategy && [subStrategy, ...this.collectSubStrategies(subStrategy)]
+      .some(s => s.steps.some(subStep => WAITING_STEP_TYPES.includes(subStep.type)));
+  }
+
+  /**
+   * Groups of steps that can repeat (strongly connected components with a cycle), in strategy order.
+   * Only steps passing `includeStep` and edges passing `followEdge` are considered.
+   */
+  private findStepCycles(
+    strategy: Strategy,
+    includeStep: (step: StrategyStep) => boolean = () => true,
+    followEdge: (step: StrategyStep, targetId: string) => boolean = () => true
+  ): string[][] {
+    const steps = new Map(strategy.steps.filter(includeStep).map(step => [step.id, step]));
+    const edges = new Map(Array.from(steps.values(), step => [
+      step.id,
+      this.getStepTargets(step).filter(target => steps.has(target) && followEdge(step, target)),
+    ]));
+    const order = new Map(strategy.steps.map((step, index) => [step.id, index]));
+
+    // Tarjan's algorithm
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const cycles: string[][] = [];
+
+    const visit = (stepId: string) => {
+      index.set(stepId, index.size);
+      lowLink.set(stepId, index.get(stepId)!);
+      stack.push(stepId);
+      onStack.add(stepId);
+
+      for (const target of edges.get(stepId)!) {
+        if (!index.has(target)) {
+          visit(target);
+          lowLink.set(stepId, Math.min(lowLink.get(stepId)!, lowLink.get(target)!));
+        } else if (onStack.has(target)) {
+          lowLink.set(stepId, Math.min(lowLink.get(stepId)!, index.get(target)!));
+        }
+      }
+
+      if (lowLink.get(stepId) === index.get(stepId)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== stepId);
+
+        if (component.length > 1 || edges.get(stepId)!.includes(stepId)) {
+          cycles.push(component.sort((a, b) => order.get(a)! - order.get(b)!));
+        }
+      }
+    };
+
+    for (const stepId of steps.keys()) {
+      if (!index.has(stepId)) visit(stepId);
+    }
+    return cycles.sort((a, b) => order.get(a[0])! - order.get(b[0])!);
+  }
+
+  /**
+   * Validate setVariable/loop/branch/notify/stop/subStrategy steps
+   */
+  private validateControlFlowStep(strategy: Strategy, step: StrategyStep): StrategyValidationError[] {
+    const errors: StrategyValidationError[] = [];
+    const addError = (message: string, errorType: StrategyValidationError['errorType'] = 'validation', severity: StrategyValidationError['severity'] = 'error') =>
+      errors.push({ stepId: step.id, errorType, message, severity });
+    const stepExists = (id: string) => strategy.steps.some(s => s.id === id);
+    const checkExpr = (label: string, source: string, expected: ExpressionType) =>
+      checkExpression(source, expected).forEach(message => addError(`Invalid ${label} expression: ${message}`));
+
+    switch (step.type) {
+      case 'setVariable': {
+        if (!step.variable || !/^[A-Za-z_$][\w$]*$/.test(step.variable)) {
+          addError('setVariable step needs a valid variable name');
+        }
+        const sources = [step.value !== undefined, step.expression !== undefined, step.increment !== undefined].filter(Boolean).length;
+        if (sources !== 1) {
+          addError('setVariable step needs exactly one of value, expression or increment');
+        }
+        if (step.expression !== undefined) checkExpr('setVariable', step.expression, 'any');
+        if (step.key !== undefined) checkExpr('setVariable key', step.key, 'any');
+        if (step.increment !== undefined && typeof step.increment !== 'number') {
+          addError('setVariable increment must be a number');
+        }
+        break;
+      }
+
+      case 'loop': {
+        if (!step.bodyStepId || !stepExists(step.bodyStepId)) {
+          addError(`Loop body step '${step.bodyStepId}' not found in strategy`, 'logic');
+        } else if (!this.findReachableSteps(strategy, step.bodyStepId, step.id).has(step.id)) {
+          addError('Loop body never routes back to the loop step, so it runs at most once', 'logic', 'warning');
+        }
+        if (step.times !== undefined && (!Number.isInteger(step.times) || step.times < 0)) {
+          addError('Loop times must be a non-negative integer');
+        }
+        if (step.until !== undefined) checkExpr('loop until', step.until, 'boolean');
+        if (step.times === undefined && step.until === undefined) {
+          addError('Loop has no times or until - it runs until the strategy is stopped', 'logic', 'warning');
+        }
+        break;
+      }
+
+      case 'branch': {
+        if (!Array.isArray(step.branches) || step.branches.length === 0) {
+          addError('Branch step needs at least one branch');
+          break;
+        }
+        step.branches.forEach((branch, index) => {
+          checkExpr(`branch ${index}`, branch.when, 'boolean');
+          if (!branch.goto || !stepExists(branch.goto)) {
+            addError(`Branch ${index} target '${branch.goto}' not found in strategy`, 'logic');
+          }
+        });
+        break;
+      }
+
+      case 'notify': {
+        if (!step.message) {
+          addError('Notify step needs a message');
+          break;
+        }
+        for (const match of step.message.matchAll(/\{\{([^}]+)\}\}/g)) {
+          checkExpr('notify placeholder', match[1].trim(), 'any');
+        }
+        break;
+      }
+
+      case 'waitForLaunch': {
+        if (step.timeoutMs !== undefined && !(step.timeoutMs > 0)) {
+          addError('waitForLaunch timeoutMs must be positive');
+        }
+        try {
+          validateLaunchCriteria(step.filters || {});
+        } catch (error) {
+          addError(`Invalid launch filters: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        if (!step.onFailure) {
+          addError('waitForLaunch has no onFailure - the strategy ends when no launch matches in time', 'logic', 'warning');
+        }
+        break;
+      }
+
+      case 'waitForGraduation': {
+        if (step.timeoutMs !== undefined && !(step.timeoutMs > 0)) {
+          addError('waitForGraduation timeoutMs must be positive');
+        }
+        if (!step.onFailure) {
+          addError('waitForGraduation has no onFailure - the strategy ends when the token does not graduate in time', 'logic', 'warning');
+        }
+        break;
+      }
+
+      case 'waitForLeaderTrade': {
+        if (step.timeoutMs !== undefined && !(step.timeoutMs > 0)) {
+          addError('waitForLeaderTrade timeoutMs must be positive');
+        }
+        try {
+          validateLeaderTradeFilter({
+            wallets: step.wallets,
+            blocklist: step.blocklist,
+            venues: step.venues,
+            maxDelayMs: step.maxDelayMs,
+          });
+        } catch (error) {
+          addError(`Invalid leader trade filter: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        if (!step.onFailure) {
+          addError('waitForLeaderTrade has no onFailure - the strategy ends when the leaders do not trade in time', 'logic', 'warning');
+        }
+        break;
+      }
+
+      case 'stop':
+        if (step.onSuccess || step.onFailure) {
+          addError('Stop step ends the strategy - onSuccess/onFailure are ignored', 'logic', 'warning');
+        }
+        break;
+
+      case 'subStrategy': {
+        const isName = (name: string) => /^[A-Za-z_$][\w$]*$/.test(name);
+        Object.entries(step.inputs || {}).forEach(([name, source]) => {
+          if (!isName(name)) addError(`Sub-strategy input '${name}' is not a valid variable name`);
+          checkExpr(`sub-strategy input '${name}'`, source, 'any');
+        });
+        Object.entries(step.outputs || {}).forEach(([target, source]) => {
+          if (!isName(target) || !isName(source)) addError(`Sub-strategy output '${target}' <- '${source}' needs valid variable names`);
+        });
+
+        if (!step.strategyId) {
+          addError('Sub-strategy step needs a strategyId');
+          break;
+        }
+        if (!this.strategies.has(step.strategyId)) {
+          addError(`Sub-strategy '${step.strategyId}' not found`, 'logic');
+          break;
+        }
+        const { cycle, depth } = this.inspectSubStrategyCalls(strategy.id, step.strategyId);
+        if (cycle) {
+          addError(`Sub-strategy cycle: ${cycle.join(' -> ')}`, 'logic');
+        } else if (depth > MAX_SUB_STRATEGY_DEPTH) {
+          addError(`Sub-strategy nesting depth ${depth} exceeds maximum ${MAX_SUB_STRATEGY_DEPTH}`, 'logic');
+        }
+        break;
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Follow sub-strategy references from `calleeId` (called by `callerId`): first cycle found and deepest nesting
+   */
+  private inspectSubStrategyCalls(callerId: string, calleeId: string): { cycle?: string[]; depth: number } {
+    let cycle: string[] | undefined;
+    const visit = (strategyId: string, path: string[]): number => {
+      if (path.includes(strategyId)) {
+        cycle = cycle || [...path, strategyId];
+        return 0;
+      }
+      const callee = this.strategies.get(strategyId);
+      // Past the limit the exact depth no longer matters
+      if (!callee || path.length > MAX_SUB_STRATEGY_DEPTH) return 1;
+
+      let deepest = 0;
+      for (const step of callee.steps) {
+        if (step.type === 'subStrategy' && step.strategyId) {
+          deepest = Math.max(deepest, visit(step.strategyId, [...path, strategyId]));
+        }
+      }
+      return 1 + deepest;
+    };
+
+    const depth = visit(calleeId, [callerId]);
+    return { cycle, depth };
+  }
+
+  /**
+   * Expression sources a step evaluates
+   */
+  private getStepExpressions(step: StrategyStep): string[] {
+    switch (step.type) {
+      case 'condition':
+        return step.condition === 'expression' && step.expression ? [step.expression] : [];
+      case 'setVariable':
+        return [step.expression, step.key].filter((source): source is string => !!source);
+      case 'loop':
+        return step.until ? [step.until] : [];
+      case 'branch':
+        return Array.isArray(step.branches) ? step.branches.map((branch) => branch.when) : [];
+      case 'notify':
+        return Array.from((step.message || '').matchAll(/\{\{([^}]+)\}\}/g), (match) => match[1].trim());
+      case 'subStrategy':
+        return Object.values(step.inputs || {});
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Every step a step can route to (including loop bodies and branch targets)
+   */
+  private getStepTargets(step: StrategyStep): string[] {
+    const targets: string[] = [];
+    if (step.onSuccess) targets.push(step.onSuccess);
+    if (step.onFailure) targets.push(step.onFailure);
+    if (step.type === 'loop' && step.bodyStepId) targets.push(step.bodyStepId);
+    if (step.type === 'branch' && Array.isArray(step.branches)) {
+      step.branches.forEach(branch => branch.goto && targets.push(branch.goto));
+    }
+    return targets;
+  }
+
+  /**
+   * Find all steps reachable from start step
+   */
+  private findReachableSteps(
+    strategy: Strategy,
+    fromStepId: string = strategy.startStepId,
+    stopAtStepId?: string, // Record but do not expand this step (used for loop bodies)
+    isBarrier?: (step: StrategyStep) => boolean // Neither record nor expand matching steps
+  ): Set<string> {
+    const reachable = new Set<string>();
+    const toVisit = [fromStepId];
+
+    while (toVisit.length > 0) {
+      const stepId = toVisit.pop()!;
       if (reachable.has(stepId)) continue;
 
-      reachable.add(stepId);
       const step = strategy.steps.find(s => s.id === stepId);
+      if (step && isBarrier?.(step)) continue;
+      reachable.add(stepId);
+      if (stepId === stopAtStepId) continue;
       if (step) {
-        if (step.onSuccess) toVisit.push(step.onSuccess);
-        if (step.onFailure) toVisit.push(step.onFailure);
+        toVisit.push(...this.getStepTargets(step));
       }
     }
 
@@ -1,7 +1,10 @@
 import {
   strategyBuilder,
+  StrategyBuilder,
   StrategyExecutionResult,
   StrategyContext,
+  StrategyExecutionHooks,
+  StrategyStep,
 } from "./StrategyBuilder";
 import { awsLogger } from "../aws/logger";
 import { AWS_CONFIG } from "../aws/config";
@@ -14,16 +17,28 @@ import { Connection, LAMPORTS_PER_SOL } from "@solana/web3.js";
 import { paperTradingEngine } from "./paper-trading/PaperTradingEngine";
 import { PaperTradingMode } from "./paper-trading/types";
 import { PaperTradingProvider } from "./paper-trading/PaperTradingProvider";
+import type { TradingProvider } from "./TradingProvider";
 import { Server as SocketServer } from "socket.io";
 import { DebugLogger } from "../utils/logger";
 import { RealTradeFeedService } from "../server/websocket/RealTradeFeedService";
 import { TokenValidationService } from "./TokenValidationService";
+import { launchMonitor } from "./launches";
+import { graduationDetector, TokenGraduation } from "./graduation";
+import { copyTradeMonitor } from "./copytrading";
 import { exec } from "child_process";
 import e from "cors";
 import { timeStamp } from "console";
 import { DEFAULT_REQUEST_TIMEOUT_MSEC } from "@modelcontextprotocol/sdk/shared/protocol";
 import { DeallocateFundsRequest } from "fireblocks-sdk";
-import { findLogsByRunningId } from "../database/dal";
+import {
+  findLogsByRunningId,
+  saveRunningStrategy,
+  findResumableRunningStrategies,
+  updateRunningStrategyStatus,
+} from "../database/dal";
+import type { RunningStrategyState, StrategyStatus as PersistedStatus } from "../database/client";
+import * as fs from "fs";
+import * as path from "path";
 
 export interface RunningStrategy {
   id: string;
@@ -43,6 +58,9 @@ export interface RunningStrategy {
   initialBalanceSOL?: number; // Initial SOL balance when strategy started
   paperTradingMode?: PaperTradingMode; // 'paper' or 'live'
   paperTradingSessionId?: string; // Paper trading session ID if in paper mode
+  paperSessionConfig?: Record<string, any>; // Config the paper session was created with (to recreate it on restart)
+  pendingStepId?: string; // Buy/sell step that started but has not reported back yet
+  builder?: StrategyBuilder; // Own builder (and trading provider) - runs without one use the shared strategyBuilder
   abortController?: AbortController; // Abort controller for cancelling operations
   isExecuting?: boolean; // Flag to prevent concurrent executions
   retryCount?: number; // Track retry attempts
@@ -57,8 +75,12 @@ export interface RunningStrategy {
 export class StrategyExecutionManager {
   private realTradeFeed?: RealTradeFeedService;
   private eventSubscriptions: Map<string, any> = new Map();
+  private feedSubscriptions: Map<string, string> = new Map(); // runningId -> token monitored for expression volume/indicator reads
+  private graduationWatches: Map<string, string> = new Map(); // runningId -> token whose bonding curve is watched for graduation
   private runningStrategies: Map<string, RunningStrategy> = new Map();
   private isShuttingDown = false;
+  private preserveStateOnStop = false; // Set on shutdown so stopped strategies stay resumable in the DB
+  private persistQueue: Map<string, Promise<void>> = new Map(); // runningId -> last pending DB write
   private io: any = null;
   private tokenValidator?: TokenValidationService;
 
@@ -98,6 +120,18 @@ export class StrategyExecutionManager {
   // Method to set real trade feed service
   setRealTradeFeed(service: RealTradeFeedService): void {
     this.realTradeFeed = service;
+    strategyBuilder.setTradeFeed(service);
+    // waitForLaunch steps get new pump.fun launches from the same feed
+    launchMonitor.attachSource(service);
+    strategyBuilder.setLaunchFeed(launchMonitor);
+    // Graduations re-route the feed, then flag running strategies on that token
+    graduationDetector.attachSource(service);
+    graduationDetector.on('token:graduated', (graduation: TokenGraduation) => this.handleTokenGraduated(graduation));
+    graduationDetector.on('token:pool_discovered', (graduation: TokenGraduation) => this.handleTokenGraduated(graduation));
+    strategyBuilder.setGraduationFeed(graduationDetector);
+    // waitForLeaderTrade steps follow leader wallets through the feed's wallet listener
+    copyTradeMonitor.attachSource(service);
+    strategyBuilder.setLeaderTradeFeed(copyTradeMonitor);
     console.log('[StrategyExecutionManager] Real trade feed service connected');
   }
 
@@ -114,6 +148,14 @@ export class StrategyExecutionManager {
      */
   setWebSocketServer(io: any): void {
     this.io = io;
+
+    // Forward notify-step messages to the UI, tagged with the running instance
+    strategyBuilder.onNotification((notification) => {
+      const running = this.listRunningStrategies().find(
+        (rs) => rs.strategyId === notification.strategyId && rs.status === 'running'
+      );
+      this.io?.emit('strategy:notification', { ...notification, runningId: running?.id });
+    });
     console.log('✅ StrategyExecutionManager: WebSocket IO configured');
   }
 
@@ -223,6 +265,7 @@ export class StrategyExecutionManager {
 
     // Initialize paper trading session if in paper mode
     let paperTradingSessionId: string | undefined;
+    let paperSessionConfig: Record<string, any> | undefined;
     if (paperTradingMode === 'paper') {
       // Check if this is a SELL strategy - if so, we need to start with tokens
       const isSellStrategy = strategy.name.toLowerCase().includes('sell') ||
@@ -342,6 +385,8 @@ export class StrategyExecutionManager {
         strategySide: isSellStrategy ? 'sell' : 'buy',
       };
 
+      paperSessionConfig = initialConfig;
+
       console.log(`✅ [startStrategy] Paper trading config prepared:`, {
         initialBalanceSOL: initialConfig.initialBalanceSOL,
         initialBalanceTokens: initialConfig.initialBalanceTokens,
@@ -383,7 +428,7 @@ export class StrategyExecutionManager {
           // The session may have been created with default config, but now we have strategy-specific requirements
           console.log(`🔧🔧🔧 [StrategyExecutionManager] Updating existing session config with strategy settings`);
           console.log(`🔧 [StrategyExecutionManager] initialConfig being sent:`, initialConfig);
-          const updateSuccess = paperTradingEngine.updateConfig(existingPaperSessionId, initialConfig);
+          const updateSuccess = await paperTradingEngine.updateConfig(existingPaperSessionId, initialConfig);
           if (updateSuccess) {
             console.log(`✅✅✅ [StrategyExecutionManager] Session config updated with initialTokenBalance: ${initialConfig.initialTokenBalance?.toLocaleString() || 'none'}`);
           } else {
@@ -554,6 +599,7 @@ export class StrategyExecutionManager {
       initialBalanceSOL,
       paperTradingMode,
       paperTradingSessionId,
+      paperSessionConfig,
       abortController: new AbortController(), // Create abort controller
       retryCount: 0, // Initialize retry count
       maxRetries: 3, // Default max retries
@@ -578,6 +624,10 @@ export class StrategyExecutionManager {
       this.userExecutionCount.set(userId, dailyCount + 1);
     }
 
+    await this.subscribeTradeFeed(runningId, strategyId, tokenAddress);
+    this.watchGraduation(runningId, tokenAddress);
+
+    this.persistState(runningId);
     this.executeStrategyContinuously(runningId);
 
     awsLogger.strategyStarted(strategyId, runningId);
@@ -612,6 +662,19 @@ export class StrategyExecutionManager {
       console.log(`[StrategyExecutionManager] ✅ Unsubscribed ${runningId} from ${subscription.tokenAddress} events`);
     }
 
+    const feedToken = this.feedSubscriptions.get(runningId);
+    if (feedToken && this.realTradeFeed) {
+      this.feedSubscriptions.delete(runningId);
+      // The feed ref-counts subscribers, so other runs, sockets and experiments on the token keep it
+      await this.realTradeFeed.unsubscribeFromToken(feedToken, runningId);
+    }
+
+    const graduationToken = this.graduationWatches.get(runningId);
+    if (graduationToken) {
+      this.graduationWatches.delete(runningId);
+      graduationDetector.unwatch(graduationToken);
+    }
+
     // Remove from user's strategy set
     const userId = runningStrategy.userId;
     if (userId) {
@@ -703,6 +766,7 @@ export class StrategyExecutionManager {
     }
 
     awsLogger.strategyStopped(runningStrategy.strategyId, runningId);
+    this.persistState(runningId);
 
     console.log(`✅ [StrategyExecutionManager] Strategy ${runningId} STOPPED successfully`);
 
@@ -809,11 +873,30 @@ export class StrategyExecutionManager {
         return;
       }
 
+      // Checkpoint around trade steps so a crash mid-trade can be detected on restart.
+      // The pending checkpoint must be written before the trade is sent.
+      const hooks: StrategyExecutionHooks = {
+        // A trade inside a sub-strategy checkpoints its calling step: resuming re-runs (or skips) the whole sub-strategy
+        beforeStep: async (step, context, caller) => {
+          if (this.isTradeStep(step)) {
+            runningStrategy.pendingStepId = caller?.step.id ?? step.id;
+            await this.persistState(runningId, caller?.context ?? context);
+          }
+        },
+        afterStep: async (step, context, caller) => {
+          if (this.isTradeStep(step)) {
+            runningStrategy.pendingStepId = undefined;
+            await this.persistState(runningId, caller?.context ?? context);
+          }
+        },
+      };
+
       // Pass existing context to preserve state between executions (critical for iteration counting!)
-      const result = await strategyBuilder.executeStrategy(
+      const result = await (runningStrategy.builder || strategyBuilder).executeStrategy(
         runningStrategy.strategyId,
         runningStrategy.currentContext, // Preserve executionCount and other variables
-        runningStrategy.abortController?.signal // CRITICAL: Pass abort signal for immediate cancellation
+        runningStrategy.abortController?.signal, // CRITICAL: Pass abort signal for immediate cancellation
+        hooks
       );
 
       DebugLogger.debug(`🔍 [DEBUG executeStrategyContinuously] Execution result: success=${result.success}, completed=${result.completed}, subscriptionRequested=${result.subscriptionRequested}`);
@@ -1044,6 +1127,10 @@ export class StrategyExecutionManager {
           console.log(`📡 [StrategyExecutionManager] Broadcasted strategy:failed event for ${runningId}`);
         }
       }
+    } finally {
+      // The execution finished (or failed) - nothing is in flight any more
+      runningStrategy.pendingStepId = undefined;
+      this.persistState(runningId);
     }
   }
   /**
@@ -1189,6 +1276,60 @@ export class StrategyExecutionManager {
     }
   }
 
+  /**
+   * Expressions that read volume/indicators need the token's trades flowing into the feed
+   */
+  private async subscribeTradeFeed(runningId: string, strategyId: string, tokenAddress?: string): Promise<void> {
+    if (tokenAddress && this.realTradeFeed && !this.eventSubscriptions.has(runningId) && strategyBuilder.usesTradeFeed(strategyId)) {
+      if (await this.realTradeFeed.subscribeToToken(tokenAddress, runningId)) {
+        this.feedSubscriptions.set(runningId, tokenAddress);
+      }
+    }
+  }
+
+  /**
+   * Watch the bonding curve of a running strategy's token so a mid-run graduation is noticed
+   */
+  private watchGraduation(runningId: string, tokenAddress?: string): void {
+    if (!this.realTradeFeed || !tokenAddress || tokenAddress === 'So11111111111111111111111111111111111111112') {
+      return;
+    }
+    graduationDetector.watch(tokenAddress);
+    this.graduationWatches.set(runningId, tokenAddress);
+  }
+
+  /**
+   * A token left its bonding curve. The feed and TokenRouter were already switched to the new
+   * route, so strategies on it keep running - they only get vars.graduated / vars.poolAddress.
+   * Runs again with the pool once discovery finds it.
+   */
+  private handleTokenGraduated(graduation: TokenGraduation): void {
+    const token = graduation.tokenAddress.toLowerCase();
+
+    for (const [runningId, execution] of this.runningStrategies) {
+      const variables = execution.currentContext?.variables;
+      const strategyToken = variables?.tokenAddress || this.graduationWatches.get(runningId);
+      if (!variables || execution.status === 'stopped' || strategyToken?.toLowerCase() !== token) {
+        continue;
+      }
+
+      variables.graduated = true;
+      variables.poolAddress = graduation.poolAddress;
+      console.log(`🎓 [StrategyExecutionManager] ${runningId} token graduated - continuing on ${graduation.poolAddress ?? 'Jupiter'}`);
+      this.persistState(runningId);
+
+      if (this.io) {
+        this.io.emit('strategy:token_graduated', {
+          strategyId: execution.strategyId,
+          runningId,
+          tokenAddress: graduation.tokenAddress,
+          poolAddress: graduation.poolAddress,
+          timestamp: Date.now(),
+        });
+      }
+    }
+  }
+
   // Real-time event handler
   private async handleRealTimeEvent(runningId: string, tradeEvent: any): Promise<void> {
     const execution = this.runningStrategies.get(runningId);
@@ -1355,7 +1496,7 @@ export class StrategyExecutionManager {
       console.log(`🎯 [IMMEDIATE EXEC] Executing strategy from step: ${execution.currentContext.currentStepId}`);
 
       // Execute the strategy (will process current step and advance)
-      const result = await strategyBuilder.executeStrategy(
+      const result = await (execution.builder || strategyBuilder).executeStrategy(
         execution.strategyId,
         execution.currentContext,
         execution.abortController?.signal
@@ -1816,15 +1957,16 @@ export class StrategyExecutionManager {
         const data = result.data;
         if (!data) continue;
 
-        // Track buy execution
-        if (data.signature && data.amountInSol) {
+        // Track buy execution (buy steps report solAmount)
+        const buyAmountSOL = data.amountInSol ?? data.solAmount;
+        if (data.signature && buyAmountSOL) {
           const tradeExecution: TradeExecution = {
             tradeId: `trade_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
             strategyId: runningId,
             timestamp: Date.now(),
             type: 'buy',
-            tokenAddress: result.context?.variables?.tokenAddress || 'unknown',
-            amountSOL: data.amountInSol,
+            tokenAddress: data.tokenAddress || result.context?.variables?.tokenAddress || 'unknown',
+            amountSOL: buyAmountSOL,
             amountTokens: data.tokensReceived || 0,
             priceUSD: tokenPrice,
             solPriceUSD: solPrice,
@@ -1846,7 +1988,7 @@ export class StrategyExecutionManager {
             strategyId: runningId,
             timestamp: Date.now(),
             type: 'sell',
-            tokenAddress: result.context?.variables?.tokenAddress || 'unknown',
+            tokenAddress: data.tokenAddress || result.context?.variables?.tokenAddress || 'unknown',
             amountSOL: data.receivedSOL || 0,
             amountTokens: data.amountToSell,
             priceUSD: tokenPrice,
@@ -1872,11 +2014,346 @@ export class StrategyExecutionManager {
   // Graceful shutdown
   async shutdown(): Promise<void> {
     awsLogger.info("Starting graceful shutdown of StrategyExecutionManager");
+
+    // Checkpoint everything as-is, then stop without overwriting the checkpoints
+    // so rehydrateStrategies() picks these strategies up on the next boot
+    await Promise.all(Array.from(this.runningStrategies.keys()).map((id) => this.persistState(id)));
+    this.preserveStateOnStop = true;
+
     await this.stopAllStrategies();
     this.runningStrategies.clear();
+    await launchMonitor.stop();
+    await graduationDetector.stop();
+    await copyTradeMonitor.stop();
     awsLogger.info("StrategyExecutionManager shutdown complete");
   }
 
+  /**
+   * Checkpoint a running strategy to the database.
+   * Best-effort: failures are logged, and writes for one strategy are applied in order.
+   */
+  persistState(runningId: string, context?: StrategyContext): Promise<void> {
+    const runningStrategy = this.runningStrategies.get(runningId);
+    if (!runningStrategy || this.preserveStateOnStop) {
+      return Promise.resolve();
+    }
+
+    // Snapshot now - the context keeps mutating while the write is queued
+    let snapshot: ReturnType<StrategyExecutionManager['toPersistedState']>;
+    try {
+      snapshot = this.toPersistedState(runningStrategy, context || runningStrategy.currentContext);
+    } catch (error) {
+      awsLogger.warn('Failed to serialize running strategy state', {
+        metadata: { runningId, error: error instanceof Error ? error.message : String(error) }
+      });
+      return Promise.resolve();
+    }
+
+    const previous = this.persistQueue.get(runningId) || Promise.resolve();
+    const write = previous
+      .then(() => saveRunningStrategy(snapshot))
+      .then(() => undefined)
+      .catch((error) => {
+        awsLogger.warn('Failed to persist running strategy state', {
+          metadata: { runningId, error: error instanceof Error ? error.message : String(error) }
+        });
+      });
+
+    this.persistQueue.set(runningId, write);
+    write.then(() => {
+      if (this.persistQueue.get(runningId) === write) {
+        this.persistQueue.delete(runningId);
+      }
+    });
+
+    return write;
+  }
+
+  private toPersistedState(runningStrategy: RunningStrategy, context?: StrategyContext) {
+    // JSON round-trip drops functions/undefined and turns bigints into strings
+    const toJson = (value: any) => JSON.parse(JSON.stringify(value ?? {}, (_key, v) =>
+      typeof v === 'bigint' ? v.toString() : v
+    ));
+
+    return {
+      id: runningStrategy.id,
+      strategyId: runningStrategy.strategyId,
+      userId: runningStrategy.userId,
+      walletAddress: runningStrategy.walletAddress,
+      status: this.toPersistedStatus(runningStrategy.status),
+      mode: runningStrategy.paperTradingMode || 'live',
+      currentStepId: context?.currentStepId || null,
+      pendingStepId: runningStrategy.pendingStepId || null,
+      variables: toJson(context?.variables),
+      stepResults: toJson(context?.stepResults),
+      executionCount: runningStrategy.executionCount,
+      restartDelay: runningStrategy.restartDelay,
+      trackingEnabled: runningStrategy.trackingEnabled ?? false,
+      initialBalanceSOL: runningStrategy.initialBalanceSOL,
+      paperTradingSessionId: runningStrategy.paperTradingSessionId,
+      paperSessionConfig: runningStrategy.paperSessionConfig ? toJson(runningStrategy.paperSessionConfig) : undefined,
+      lastError: runningStrategy.error || null,
+      startedAt: new Date(runningStrategy.startTime),
+      lastExecutionAt: runningStrategy.lastExecutionTime ? new Date(runningStrategy.lastExecutionTime) : undefined,
+    };
+  }
+
+  private toPersistedStatus(status: RunningStrategy['status']): PersistedStatus {
+    switch (status) {
+      case 'running': return 'ACTIVE';
+      case 'paused': return 'PAUSED';
+      case 'error': return 'ERROR';
+      default: return 'STOPPED';
+    }
+  }
+
+  private isTradeStep(step: StrategyStep): boolean {
+    return step.type === 'buy' || step.type === 'sell';
+  }
+
+  /**
+   * Reload running/paused strategies from the database after a restart and resume them.
+   *
+   * Mid-trade policy: a strategy whose last checkpoint is inside a buy/sell step may or
+   * may not have filled before the process died.
+   * - paper mode: the step is re-run (no funds at risk)
+   * - live mode: the strategy comes back paused with pendingStepId set; resume it to
+   *   re-run the step, or resume with skipPendingStep once the fill is confirmed on-chain
+   */
+  async rehydrateStrategies(): Promise<{ resumed: string[]; paused: string[]; failed: string[] }> {
+    const summary = { resumed: [] as string[], paused: [] as string[], failed: [] as string[] };
+
+    // Resumed waitForLaunch steps need the creator launch counts from before the restart
+    await launchMonitor.loadCreatorHistory();
+
+    let records: RunningStrategyState[];
+    try {
+      records = await findResumableRunningStrategies();
+    } catch (error) {
+      awsLogger.warn('Failed to load persisted running strategies', {
+        metadata: { error: error instanceof Error ? error.message : String(error) }
+      });
+      return summary;
+    }
+
+    for (const record of records) {
+      if (this.runningStrategies.has(record.id)) {
+        continue;
+      }
+
+      try {
+        const status = await this.rehydrateStrategy(record);
+        (status === 'running' ? summary.resumed : summary.paused).push(record.id);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        summary.failed.push(record.id);
+        awsLogger.error('Failed to rehydrate running strategy', {
+          strategyId: record.strategyId,
+          runningId: record.id,
+          metadata: { error: message }
+        });
+        await updateRunningStrategyStatus(record.id, 'ERROR', `Resume after restart failed: ${message}`)
+          .catch(() => undefined);
+      }
+    }
+
+    if (records.length > 0) {
+      console.log(`♻️ [StrategyExecutionManager] Rehydrated strategies: ${summary.resumed.length} resumed, ${summary.paused.length} paused, ${summary.failed.length} failed`);
+    }
+
+    return summary;
+  }
+
+  private async rehydrateStrategy(record: RunningStrategyState): Promise<RunningStrategy['status']> {
+    const strategy = strategyBuilder.getStrategy(record.strategyId) || this.loadSavedStrategy(record.strategyId);
+    if (!strategy) {
+      throw new Error(`Strategy definition ${record.strategyId} is not registered and has no saved file`);
+    }
+
+    const paperTradingMode: PaperTradingMode = record.mode === 'paper' ? 'paper' : 'live';
+    const pendingStepId = record.pendingStepId || undefined;
+    const midTrade = !!pendingStepId;
+
+    let status: RunningStrategy['status'] = record.status === 'PAUSED' ? 'paused' : 'running';
+    let error = record.lastError || undefined;
+    if (midTrade && paperTradingMode === 'live') {
+      status = 'paused';
+      error = `Interrupted during trade step '${pendingStepId}' - verify the wallet, then resume (re-runs the step) or resume with skipPendingStep`;
+    }
+
+    const paperSessionConfig = (record.paperSessionConfig as Record<string, any> | null) || undefined;
+
+    if (paperTradingMode === 'paper' && record.paperTradingSessionId) {
+      // The session is normally back from PaperTradingEngine.rehydrateSessions() - recreate it
+      // with its original config only when it was never persisted
+      if (!paperTradingEngine.getSession(record.paperTradingSessionId)) {
+        await paperTradingEngine.createSession(
+          record.paperTradingSessionId,
+          record.userId || undefined,
+          record.strategyId,
+          paperSessionConfig
+        );
+      }
+
+    }
+
+    // Several records resume together, so each gets its own provider instead of swapping the shared one
+    let provider: TradingProvider;
+    if (paperTradingMode === 'paper' && record.paperTradingSessionId) {
+      provider = new PaperTradingProvider(
+        record.paperTradingSessionId,
+        record.strategyId,
+        strategy.name,
+        paperSessionConfig?.tokenAddress
+      );
+    } else {
+      const { TradingProviderFactory } = require('./TradingProvider');
+      provider = TradingProviderFactory.getInstance();
+    }
+
+    const variables = record.variables as Record<string, any>;
+    const currentContext: StrategyContext | undefined = record.currentStepId || Object.keys(variables).length > 0
+      ? {
+        strategyId: record.strategyId,
+        currentStepId: record.currentStepId || '',
+        variables,
+        stepResults: record.stepResults as Record<string, any>,
+        startTime: record.startedAt.getTime(),
+        logs: [],
+      }
+      : undefined;
+
+    let trackingEnabled = record.trackingEnabled;
+    if (trackingEnabled) {
+      try {
+        await strategyExecutionTracker.initializeStrategy(record.id, strategy.name, record.initialBalanceSOL || 0);
+      } catch (trackingError) {
+        trackingEnabled = false;
+      }
+    }
+
+    const runningStrategy: RunningStrategy = {
+      id: record.id,
+      strategyId: record.strategyId,
+      userId: record.userId || undefined,
+      walletAddress: record.walletAddress || undefined,
+      status,
+      startTime: record.startedAt.getTime(),
+      lastExecutionTime: record.lastExecutionAt?.getTime(),
+      executionCount: record.executionCount,
+      currentContext,
+      error,
+      restartDelay: record.restartDelay,
+      trackingEnabled,
+      initialBalanceSOL: record.initialBalanceSOL ?? undefined,
+      paperTradingMode,
+      paperTradingSessionId: record.paperTradingSessionId || undefined,
+      paperSessionConfig,
+      // Paper strategies re-run the interrupted step, live ones keep it for the operator
+      pendingStepId: paperTradingMode === 'live' ? pendingStepId : undefined,
+      builder: strategyBuilder.withTradingProvider(provider),
+      abortController: new AbortController(),
+      retryCount: 0,
+      maxRetries: 3,
+    };
+
+    this.runningStrategies.set(record.id, runningStrategy);
+
+    if (runningStrategy.userId) {
+      if (!this.userStrategies.has(runningStrategy.userId)) {
+        this.userStrategies.set(runningStrategy.userId, new Set());
+      }
+      this.userStrategies.get(runningStrategy.userId)!.add(record.id);
+    }
+
+    awsLogger.info('Strategy rehydrated after restart', {
+      strategyId: record.strategyId,
+      runningId: record.id,
+      metadata: { status, paperTradingMode, currentStepId: record.currentStepId, pendingStepId, midTrade }
+    });
+
+    // Volume/indicator reads need the token's trades flowing again (paused runs keep theirs, as before the restart)
+    const tokenAddress = variables.tokenAddress;
+    await this.subscribeTradeFeed(record.id, record.strategyId, tokenAddress);
+
+    if (status !== 'running') {
+      this.persistState(record.id);
+      return status;
+    }
+
+    // Event-driven strategies only run when the trade feed fires - re-subscribe them
+    const isReactive = strategy.name.includes('Reactive') || strategy.name.includes('Mirror');
+    const isWaitingForTrades = currentContext?.currentStepId?.includes('wait_for_trigger') ||
+      currentContext?.currentStepId?.includes('detect_activity');
+    if (isReactive || (isWaitingForTrades && tokenAddress)) {
+      await this.subscribeToBlockchainEvents(record.id, tokenAddress ? { ...strategy, tokenAddress } : strategy);
+    }
+    this.watchGraduation(record.id, tokenAddress);
+
+    this.executeStrategyContinuously(record.id);
+    return status;
+  }
+
+  /**
+   * Strategy definitions are in-memory only; fall back to a file written by saveStrategy
+   */
+  private loadSavedStrategy(strategyId: string) {
+    const filePath = path.join(process.cwd(), 'strategies', `${strategyId}.json`);
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+    return strategyBuilder.loadStrategy(filePath);
+  }
+
+  /**
+   * Pause a running strategy (its context is kept so resumeStrategy continues where it left off)
+   */
+  pauseStrategy(runningId: string): boolean {
+    const runningStrategy = this.runningStrategies.get(runningId);
+    if (!runningStrategy || runningStrategy.status !== 'running') {
+      return false;
+    }
+
+    runningStrategy.status = 'paused';
+
+    // Clear the interval to pause execution
+    if (runningStrategy.intervalId) {
+      clearTimeout(runningStrategy.intervalId);
+      runningStrategy.intervalId = undefined;
+    }
+    this.persistState(runningId);
+    return true;
+  }
+
+  /**
+   * Resume a paused strategy.
+   * With skipPendingStep, an interrupted trade step is treated as filled and the
+   * strategy continues from that step's onSuccess target instead of re-running it.
+   */
+  resumeStrategy(runningId: string, skipPendingStep: boolean = false): boolean {
+    const runningStrategy = this.runningStrategies.get(runningId);
+    if (!runningStrategy || runningStrategy.status !== 'paused') {
+      return false;
+    }
+
+    const pendingStepId = runningStrategy.pendingStepId;
+    if (pendingStepId && skipPendingStep && runningStrategy.currentContext) {
+      const strategy = strategyBuilder.getStrategy(runningStrategy.strategyId);
+      const step = strategy?.steps.find((s) => s.id === pendingStepId);
+      runningStrategy.currentContext.currentStepId = step?.onSuccess || '';
+      runningStrategy.currentContext.stepResults[pendingStepId] = {
+        success: true,
+        message: 'Skipped on resume after restart (fill confirmed by operator)',
+      };
+    }
+
+    runningStrategy.pendingStepId = undefined;
+    runningStrategy.error = undefined;
+    runningStrategy.status = 'running';
+    this.executeStrategyContinuously(runningId);
+    return true;
+  }
+
   // Health check for AWS
   getHealthStatus(): {
     healthy: boolean;
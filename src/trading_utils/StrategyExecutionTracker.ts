@@ -33,6 +33,23 @@ export interface TradeExecution {
   };
 }
 
+/**
+ * Per-token position accounting (average cost basis, prices in SOL per token)
+ */
+export interface TokenPositionPerformance {
+  tokenAddress: string;
+  tokenBalance: number;
+  averageEntryPrice: number;
+  costBasisSOL: number; // Cost of the tokens still held
+  totalInvestedSOL: number;
+  totalReturnedSOL: number;
+  realizedProfitSOL: number;
+  unrealizedProfitSOL: number;
+  buyExecutions: number;
+  sellExecutions: number;
+  lastKnownPrice?: number; // Fallback when the price API fails
+}
+
 export interface StrategyPerformance {
   strategyId: string;
   strategyName: string;
@@ -50,7 +67,8 @@ export interface StrategyPerformance {
   currentBalanceSOL: number;
   totalInvestedSOL: number;
   totalReturnedSOL: number;
-  currentTokenBalance: number;
+  currentTokenBalance: number; // Sum across all positions
+  positions: Record<string, TokenPositionPerformance>; // Keyed by token mint
   
   // Profit/Loss
   realizedProfitSOL: number;
@@ -111,6 +129,7 @@ export class StrategyExecutionTracker {
       totalInvestedSOL: 0,
       totalReturnedSOL: 0,
       currentTokenBalance: 0,
+      positions: {},
       realizedProfitSOL: 0,
       realizedProfitUSD: 0,
       unrealizedProfitSOL: 0,
@@ -156,14 +175,17 @@ export class StrategyExecutionTracker {
       performance.buyExecutions++;
       performance.totalInvestedSOL += trade.amountSOL;
       performance.currentBalanceSOL -= trade.amountSOL;
-      performance.currentTokenBalance += trade.amountTokens;
     } else {
       performance.sellExecutions++;
       performance.totalReturnedSOL += trade.amountSOL;
       performance.currentBalanceSOL += trade.amountSOL;
-      performance.currentTokenBalance -= trade.amountTokens;
     }
 
+    // Per-token accounting (rotation strategies hold several tokens)
+    this.applyTradeToPosition(performance, trade);
+    performance.currentTokenBalance = Object.values(performance.positions)
+      .reduce((sum, position) => sum + position.tokenBalance, 0);
+
     // Update fees
     performance.totalFeesSOL += trade.fees.totalFeeSOL;
     performance.totalFeesUSD += trade.fees.totalFeeSOL * trade.solPriceUSD;
@@ -217,70 +239,33 @@ export class StrategyExecutionTracker {
     const latestTrade = performance.trades[performance.trades.length - 1];
     if (!latestTrade) return;
 
-    // Calculate realized profit
-    if (performance.sellExecutions > 0) {
-      performance.realizedProfitSOL = performance.totalReturnedSOL - performance.totalInvestedSOL;
-      performance.realizedProfitUSD = performance.realizedProfitSOL * latestTrade.solPriceUSD;
-    }
-
-    // Calculate unrealized profit (current token holdings) with price fallback
-    if (performance.currentTokenBalance > 0 && performance.tokenAddress) {
-      // Calculate average entry price from total invested and total tokens bought
-      const totalTokensBought = performance.trades
-        .filter(t => t.type === 'buy')
-        .reduce((sum, t) => sum + t.amountTokens, 0);
-      const averageEntryPrice = totalTokensBought > 0 
-        ? performance.totalInvestedSOL / totalTokensBought 
-        : 0;
-      
-      // Start with fallback: use last known price or average entry price
-      let currentPrice = performance.lastKnownTokenPrice || averageEntryPrice;
-      let priceSource = performance.lastKnownTokenPrice ? 'cached' : 'entry_price';
-      
-      try {
-        // Fetch token price in SOL (not USD!)
-        const priceData = await marketDataProvider.fetchTokenPrice(performance.tokenAddress);
-        
-        if (priceData?.price && priceData.price > 0) {
-          currentPrice = priceData.price; // This is in SOL per token
-          performance.lastKnownTokenPrice = currentPrice; // Cache for next time
-          priceSource = 'live';
-        }
-      } catch (error) {
-        console.warn(`⚠️ [Unrealized P&L] Using ${priceSource} price for ${performance.tokenSymbol || 'token'}: ${currentPrice.toFixed(10)} SOL`);
-        awsLogger.warn('Failed to fetch current price, using fallback', { 
-          metadata: { 
-            strategyId: performance.strategyId, 
-            fallbackPrice: currentPrice,
-            priceSource,
-            error 
-          } 
-        });
+    // Realized profit is booked per token against its average cost
+    performance.realizedProfitSOL = Object.values(performance.positions)
+      .reduce((sum, position) => sum + position.realizedProfitSOL, 0);
+    performance.realizedProfitUSD = performance.realizedProfitSOL * latestTrade.solPriceUSD;
+
+    // Unrealized profit of every open position, each priced with its own fallback
+    let unrealizedProfitSOL = 0;
+    for (const position of Object.values(performance.positions)) {
+      if (position.tokenBalance <= 0) {
+        position.unrealizedProfitSOL = 0;
+        continue;
       }
-      
-      // Calculate in SOL first (all prices are in SOL per token)
-      const costBasisSOL = performance.currentTokenBalance * averageEntryPrice;
-      const currentValueSOL = performance.currentTokenBalance * currentPrice;
-      
-      // Calculate P&L in SOL, then convert to USD
-      performance.unrealizedProfitSOL = currentValueSOL - costBasisSOL;
-      performance.unrealizedProfitUSD = performance.unrealizedProfitSOL * latestTrade.solPriceUSD;
-      
-      console.log(`💎 [Unrealized P&L] ${performance.tokenSymbol || 'Token'}:`, {
-        tokens: performance.currentTokenBalance.toFixed(2),
-        avgEntrySOL: averageEntryPrice.toFixed(10),
+
+      const currentPrice = await this.fetchPositionPrice(performance, position);
+      position.unrealizedProfitSOL = position.tokenBalance * currentPrice - position.costBasisSOL;
+      unrealizedProfitSOL += position.unrealizedProfitSOL;
+
+      console.log(`💎 [Unrealized P&L] ${position.tokenAddress.substring(0, 8)}...:`, {
+        tokens: position.tokenBalance.toFixed(2),
+        avgEntrySOL: position.averageEntryPrice.toFixed(10),
         currentPriceSOL: currentPrice.toFixed(10),
-        priceSource,
-        costBasisSOL: costBasisSOL.toFixed(6),
-        currentValueSOL: currentValueSOL.toFixed(6),
-        unrealizedSOL: performance.unrealizedProfitSOL.toFixed(6),
-        unrealizedUSD: performance.unrealizedProfitUSD.toFixed(2),
-        solPriceUSD: latestTrade.solPriceUSD.toFixed(2)
+        costBasisSOL: position.costBasisSOL.toFixed(6),
+        unrealizedSOL: position.unrealizedProfitSOL.toFixed(6)
       });
-    } else {
-      performance.unrealizedProfitSOL = 0;
-      performance.unrealizedProfitUSD = 0;
     }
+    performance.unrealizedProfitSOL = unrealizedProfitSOL;
+    performance.unrealizedProfitUSD = unrealizedProfitSOL * latestTrade.solPriceUSD;
 
     // Calculate total profit
     // IMPORTANT: Fees are already deducted in realized P&L from individual trades
@@ -307,18 +292,8 @@ export class StrategyExecutionTracker {
     // Calculate ROI: (Current Portfolio Value - Initial Investment) / Initial Investment * 100
     // Current Portfolio Value = Cash Balance + Current Value of Open Positions
     if (performance.initialBalanceSOL > 0) {
-      // Calculate current token value at market price
-      let currentTokenValueSOL = 0;
-      if (performance.currentTokenBalance > 0) {
-        const totalTokensBought = performance.trades
-          .filter(t => t.type === 'buy')
-          .reduce((sum, t) => sum + t.amountTokens, 0);
-        const averageEntryPrice = totalTokensBought > 0 
-          ? performance.totalInvestedSOL / totalTokensBought 
-          : 0;
-        const tokenPrice = performance.lastKnownTokenPrice || averageEntryPrice;
-        currentTokenValueSOL = performance.currentTokenBalance * tokenPrice;
-      }
+      // Calculate current value of all open positions at market price
+      const currentTokenValueSOL = this.getOpenPositionsValueSOL(performance);
       
       // Total current portfolio value in SOL
       const currentPortfolioValue = performance.currentBalanceSOL + currentTokenValueSOL;
@@ -336,7 +311,7 @@ export class StrategyExecutionTracker {
         initialBalanceSOL: performance.initialBalanceSOL.toFixed(4),
         currentBalanceSOL: performance.currentBalanceSOL.toFixed(4),
         currentTokenBalance: performance.currentTokenBalance.toFixed(2),
-        tokenPrice: (performance.lastKnownTokenPrice || 0).toFixed(8),
+        openPositions: Object.values(performance.positions).filter(p => p.tokenBalance > 0).length,
         currentTokenValueSOL: currentTokenValueSOL.toFixed(4),
         currentPortfolioValue: currentPortfolioValue.toFixed(4),
         changeInValue: (currentPortfolioValue - performance.initialBalanceSOL).toFixed(4),
@@ -376,17 +351,7 @@ export class StrategyExecutionTracker {
     }
     
     // Check 2: ROI should reflect change in portfolio value
-    let currentTokenValueSOL = 0;
-    if (perf.currentTokenBalance > 0) {
-      const totalTokensBought = perf.trades
-        .filter(t => t.type === 'buy')
-        .reduce((sum, t) => sum + t.amountTokens, 0);
-      const averageEntryPrice = totalTokensBought > 0 
-        ? perf.totalInvestedSOL / totalTokensBought 
-        : 0;
-      const tokenPrice = perf.lastKnownTokenPrice || averageEntryPrice;
-      currentTokenValueSOL = perf.currentTokenBalance * tokenPrice;
-    }
+    const currentTokenValueSOL = this.getOpenPositionsValueSOL(perf);
     const currentValue = perf.currentBalanceSOL + currentTokenValueSOL;
     const expectedROI = ((currentValue - perf.initialBalanceSOL) / perf.initialBalanceSOL) * 100;
     
@@ -399,6 +364,101 @@ export class StrategyExecutionTracker {
     }
   }
 
+  /**
+   * Apply a trade to its token's position (average cost basis)
+   */
+  private applyTradeToPosition(performance: StrategyPerformance, trade: TradeExecution): void {
+    let position = performance.positions[trade.tokenAddress];
+    if (!position) {
+      position = {
+        tokenAddress: trade.tokenAddress,
+        tokenBalance: 0,
+        averageEntryPrice: 0,
+        costBasisSOL: 0,
+        totalInvestedSOL: 0,
+        totalReturnedSOL: 0,
+        realizedProfitSOL: 0,
+        unrealizedProfitSOL: 0,
+        buyExecutions: 0,
+        sellExecutions: 0,
+      };
+      performance.positions[trade.tokenAddress] = position;
+    }
+
+    if (trade.type === 'buy') {
+      position.buyExecutions++;
+      position.totalInvestedSOL += trade.amountSOL;
+      position.costBasisSOL += trade.amountSOL;
+      position.tokenBalance += trade.amountTokens;
+      position.averageEntryPrice = position.tokenBalance > 0 ? position.costBasisSOL / position.tokenBalance : 0;
+      return;
+    }
+
+    // -1 (sell all) and oversells close the whole position
+    const tokensSold = trade.amountTokens < 0
+      ? position.tokenBalance
+      : Math.min(trade.amountTokens, position.tokenBalance);
+    const costOfSoldSOL = tokensSold * position.averageEntryPrice;
+
+    position.sellExecutions++;
+    position.totalReturnedSOL += trade.amountSOL;
+    position.realizedProfitSOL += trade.amountSOL - costOfSoldSOL;
+    position.costBasisSOL = Math.max(0, position.costBasisSOL - costOfSoldSOL);
+    position.tokenBalance -= tokensSold;
+    if (position.tokenBalance <= 0) {
+      position.tokenBalance = 0;
+      position.costBasisSOL = 0;
+    }
+  }
+
+  /**
+   * Current token price in SOL, falling back to the last known or entry price
+   */
+  private async fetchPositionPrice(
+    performance: StrategyPerformance,
+    position: TokenPositionPerformance
+  ): Promise<number> {
+    let currentPrice = position.lastKnownPrice || position.averageEntryPrice;
+    let priceSource = position.lastKnownPrice ? 'cached' : 'entry_price';
+
+    try {
+      // Fetch token price in SOL (not USD!)
+      const priceData = await marketDataProvider.fetchTokenPrice(position.tokenAddress);
+
+      if (priceData?.price && priceData.price > 0) {
+        currentPrice = priceData.price; // This is in SOL per token
+        position.lastKnownPrice = currentPrice; // Cache for next time
+        priceSource = 'live';
+        if (position.tokenAddress === performance.tokenAddress) {
+          performance.lastKnownTokenPrice = currentPrice;
+        }
+      }
+    } catch (error) {
+      console.warn(`⚠️ [Unrealized P&L] Using ${priceSource} price for ${position.tokenAddress.substring(0, 8)}...: ${currentPrice.toFixed(10)} SOL`);
+      awsLogger.warn('Failed to fetch current price, using fallback', { 
+        metadata: { 
+          strategyId: performance.strategyId, 
+          tokenAddress: position.tokenAddress,
+          fallbackPrice: currentPrice,
+          priceSource,
+          error 
+        } 
+      });
+    }
+
+    return currentPrice;
+  }
+
+  /**
+   * Value of all open positions in SOL at their last known prices
+   */
+  private getOpenPositionsValueSOL(performance: StrategyPerformance): number {
+    return Object.values(performance.positions).reduce(
+      (sum, position) => sum + position.tokenBalance * (position.lastKnownPrice || position.averageEntryPrice),
+      0
+    );
+  }
+
   /**
    * Update current token price for unrealized P&L
    */
@@ -593,6 +653,16 @@ ${perf.trades.length === 0 ? '   No trades executed yet.' : ''}
         totalReturnedSOL: parseFloat(perf.totalReturnedSOL.toFixed(4)),
         currentTokenBalance: parseFloat(perf.currentTokenBalance.toFixed(2)),
       },
+      positions: Object.values(perf.positions).map(p => ({
+        tokenAddress: p.tokenAddress,
+        tokenBalance: parseFloat(p.tokenBalance.toFixed(2)),
+        averageEntryPrice: p.averageEntryPrice,
+        costBasisSOL: parseFloat(p.costBasisSOL.toFixed(4)),
+        realizedProfitSOL: parseFloat(p.realizedProfitSOL.toFixed(4)),
+        unrealizedProfitSOL: parseFloat(p.unrealizedProfitSOL.toFixed(4)),
+        buys: p.buyExecutions,
+        sells: p.sellExecutions,
+      })),
       profitLoss: {
         realized: {
           sol: parseFloat(perf.realizedProfitSOL.toFixed(4)),
@@ -617,6 +687,7 @@ ${perf.trades.length === 0 ? '   No trades executed yet.' : ''}
       trades: perf.trades.map(t => ({
         id: t.tradeId,
         type: t.type,
+        tokenAddress: t.tokenAddress,
         timestamp: t.timestamp,
         amountSOL: parseFloat(t.amountSOL.toFixed(4)),
         amountTokens: parseFloat(t.amountTokens.toFixed(2)),
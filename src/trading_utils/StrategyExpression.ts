@@ -0,0 +1,720 @@
+/**
+ * Strategy Expression Language
+ *
+ * Small, sandboxed expression language for ConditionStep so conditions can be
+ * stored as JSON (saveStrategy, Strategy.config, agent output) instead of JS functions.
+ *
+ *   price < vars.entry * 0.9 && volume5m > 20
+ *   defined(steps.buy_entry) ? pct(price, vars.entry) >= 25 : false
+ *   vars.copyTokens[vars.tokenAddress] > 0
+ *
+ * Expressions are parsed into an AST and interpreted - nothing is ever passed to
+ * eval/Function, member access only reads own properties of plain data, and only
+ * the whitelisted functions below can be called.
+ */
+
+export type ExpressionType = 'number' | 'boolean' | 'string' | 'null' | 'any';
+
+export class ExpressionError extends Error {
+  constructor(message: string, public position?: number) {
+    super(position !== undefined ? `${message} (at position ${position})` : message);
+    this.name = 'ExpressionError';
+  }
+}
+
+/**
+ * Names an expression can reference
+ * `vars` and `steps` are free-form objects, everything else is resolved per evaluation
+ */
+export const EXPRESSION_VARIABLES: Record<string, { type: ExpressionType; description: string }> = {
+  vars: { type: 'any', description: 'Strategy variables (context.variables)' },
+  steps: { type: 'any', description: 'Step results by step id (context.stepResults)' },
+  price: { type: 'number', description: 'Token price in USD (same source as priceAbove/priceBelow)' },
+  solPrice: { type: 'number', description: 'SOL price in USD' },
+  now: { type: 'number', description: 'Current time (ms since epoch)' },
+  elapsedMs: { type: 'number', description: 'Time since the strategy context started (ms)' },
+  volume1m: { type: 'number', description: 'SOL traded in the last minute (trade feed)' },
+  volume5m: { type: 'number', description: 'SOL traded in the last 5 minutes (trade feed)' },
+  volume15m: { type: 'number', description: 'SOL traded in the last 15 minutes (trade feed)' },
+  buyVolume5m: { type: 'number', description: 'SOL bought in the last 5 minutes (trade feed)' },
+  sellVolume5m: { type: 'number', description: 'SOL sold in the last 5 minutes (trade feed)' },
+  trades: { type: 'number', description: 'Trades seen by the feed for this token' },
+  buys: { type: 'number', description: 'Buys seen by the feed for this token' },
+  sells: { type: 'number', description: 'Sells seen by the feed for this token' },
+  avgBuySize: { type: 'number', description: 'Average buy size in SOL (trade feed)' },
+  avgSellSize: { type: 'number', description: 'Average sell size in SOL (trade feed)' },
+  // Indicators are in trade-feed units (SOL per token) - compare them with tradePrice, not price
+  tradePrice: { type: 'number', description: 'Last trade price in SOL per token (trade feed)' },
+  sma: { type: 'number', description: 'Simple moving average of bar closes (SOL per token)' },
+  ema: { type: 'number', description: 'Exponential moving average of bar closes (SOL per token)' },
+  rsi: { type: 'number', description: 'Relative strength index, 0-100' },
+  bbUpper: { type: 'number', description: 'Upper Bollinger band (SOL per token)' },
+  bbMiddle: { type: 'number', description: 'Middle Bollinger band - the band SMA (SOL per token)' },
+  bbLower: { type: 'number', description: 'Lower Bollinger band (SOL per token)' },
+  bbStdDev: { type: 'number', description: 'Standard deviation behind the Bollinger bands' },
+  atr: { type: 'number', description: 'Average true range (SOL per token)' },
+  vwap: { type: 'number', description: 'Volume-weighted average price (SOL per token)' },
+  buyPressure: { type: 'number', description: 'Buy share of recent volume, 0-1' },
+  pressureRatio: { type: 'number', description: 'Recent buy volume / sell volume' },
+};
+
+// Names resolved from the trade feed (only available while the token's trades are monitored)
+export const TRADE_FEED_IDENTIFIERS = ['volume1m', 'volume5m', 'volume15m', 'buyVolume5m', 'sellVolume5m', 'trades', 'buys', 'sells', 'avgBuySize', 'avgSellSize'];
+export const INDICATOR_IDENTIFIERS = ['tradePrice', 'sma', 'ema', 'rsi', 'bbUpper', 'bbMiddle', 'bbLower', 'bbStdDev', 'atr', 'vwap', 'buyPressure', 'pressureRatio'];
+
+interface ExpressionFunction {
+  minArgs: number;
+  maxArgs: number;
+  argType: ExpressionType;
+  returns: ExpressionType;
+  fn: (...args: any[]) => unknown;
+}
+
+const FUNCTIONS: Record<string, ExpressionFunction> = {
+  abs: { minArgs: 1, maxArgs: 1, argType: 'number', returns: 'number', fn: Math.abs },
+  min: { minArgs: 1, maxArgs: 16, argType: 'number', returns: 'number', fn: Math.min },
+  max: { minArgs: 1, maxArgs: 16, argType: 'number', returns: 'number', fn: Math.max },
+  floor: { minArgs: 1, maxArgs: 1, argType: 'number', returns: 'number', fn: Math.floor },
+  ceil: { minArgs: 1, maxArgs: 1, argType: 'number', returns: 'number', fn: Math.ceil },
+  sqrt: { minArgs: 1, maxArgs: 1, argType: 'number', returns: 'number', fn: Math.sqrt },
+  round: {
+    minArgs: 1, maxArgs: 2, argType: 'number', returns: 'number',
+    fn: (value: number, digits: number = 0) => {
+      const factor = Math.pow(10, digits);
+      return Math.round(value * factor) / factor;
+    },
+  },
+  // % change from `base` to `value`, e.g. pct(price, vars.entry) <= -10
+  pct: {
+    minArgs: 2, maxArgs: 2, argType: 'number', returns: 'number',
+    fn: (value: number, base: number) => ((value - base) / base) * 100,
+  },
+  // random() in [0, 1), random(max) in [0, max), random(min, max) in [min, max) - e.g. randomized order sizes
+  random: {
+    minArgs: 0, maxArgs: 2, argType: 'number', returns: 'number',
+    fn: (a?: number, b?: number) => {
+      const [min, max] = b === undefined ? [0, a ?? 1] : [a!, b];
+      return min + Math.random() * (max - min);
+    },
+  },
+  // Not null/undefined - guards optional variables and step results
+  defined: {
+    minArgs: 1, maxArgs: 1, argType: 'any', returns: 'boolean',
+    fn: (value: unknown) => value !== undefined && value !== null,
+  },
+};
+
+// Own properties only, so names like 'toString' never resolve to Object.prototype members
+function lookupFunction(name: string): ExpressionFunction | undefined {
+  return Object.prototype.hasOwnProperty.call(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+}
+
+const MAX_SOURCE_LENGTH = 1000;
+const MAX_DEPTH = 50;
+const FORBIDDEN_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+export type ExpressionNode =
+  | { kind: 'literal'; value: number | string | boolean | null; pos: number }
+  | { kind: 'identifier'; name: string; pos: number }
+  | { kind: 'member'; object: ExpressionNode; property: string; pos: number }
+  | { kind: 'index'; object: ExpressionNode; key: ExpressionNode; pos: number }
+  | { kind: 'unary'; op: '!' | '-'; operand: ExpressionNode; pos: number }
+  | { kind: 'binary'; op: string; left: ExpressionNode; right: ExpressionNode; pos: number }
+  | { kind: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode; pos: number }
+  | { kind: 'call'; callee: string; args: ExpressionNode[]; pos: number };
+
+export interface CompiledExpression {
+  source: string;
+  ast: ExpressionNode;
+  identifiers: Set<string>; // Root names referenced, so callers only fetch what is used
+}
+
+export type ExpressionScope = Record<string, unknown>;
+
+// ============================================
+// TOKENIZER
+// ============================================
+
+type Token =
+  | { type: 'number'; value: number; pos: number }
+  | { type: 'string'; value: string; pos: number }
+  | { type: 'identifier'; value: string; pos: number }
+  | { type: 'operator'; value: string; pos: number }
+  | { type: 'eof'; pos: number };
+
+const OPERATORS = ['===', '!==', '&&', '||', '==', '!=', '<=', '>=', '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '(', ')', ',', '.', '[', ']'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const numberMatch = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+    if (numberMatch) {
+      tokens.push({ type: 'number', value: parseFloat(numberMatch[0]), pos: i });
+      i += numberMatch[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          i++;
+        }
+        value += source[i];
+        i++;
+      }
+      if (i >= source.length) {
+        throw new ExpressionError('Unterminated string', start);
+      }
+      i++;
+      tokens.push({ type: 'string', value, pos: start });
+      continue;
+    }
+
+    const identMatch = /^[A-Za-z_$][\w$]*/.exec(source.slice(i));
+    if (identMatch) {
+      tokens.push({ type: 'identifier', value: identMatch[0], pos: i });
+      i += identMatch[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find((candidate) => source.startsWith(candidate, i));
+    if (op) {
+      // === / !== are accepted as aliases; equality is always strict
+      tokens.push({ type: 'operator', value: op.length === 3 ? op.slice(0, 2) : op, pos: i });
+      i += op.length;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character '${char}'`, i);
+  }
+
+  tokens.push({ type: 'eof', pos: source.length });
+  return tokens;
+}
+
+// ============================================
+// PARSER (precedence climbing)
+// ============================================
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3, '!=': 3,
+  '<': 4, '<=': 4, '>': 4, '>=': 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6, '%': 6,
+};
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+  readonly identifiers = new Set<string>();
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseConditional();
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw new ExpressionError(`Unexpected '${this.describe(next)}'`, next.pos);
+    }
+    return node;
+  }
+
+  private parseConditional(): ExpressionNode {
+    this.enter();
+    const test = this.parseBinary(1);
+    if (this.matchOperator('?')) {
+      const consequent = this.parseConditional();
+      this.expectOperator(':');
+      const alternate = this.parseConditional();
+      this.depth--;
+      return { kind: 'conditional', test, consequent, alternate, pos: test.pos };
+    }
+    this.depth--;
+    return test;
+  }
+
+  private parseBinary(minPrecedence: number): ExpressionNode {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const token = this.peek();
+      const precedence = token.type === 'operator' ? BINARY_PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) {
+        return left;
+      }
+      this.index++;
+      const right = this.parseBinary(precedence + 1);
+      left = { kind: 'binary', op: (token as { value: string }).value, left, right, pos: token.pos };
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (token.type === 'operator' && (token.value === '!' || token.value === '-')) {
+      this.index++;
+      this.enter();
+      const operand = this.parseUnary();
+      this.depth--;
+      return { kind: 'unary', op: token.value, operand, pos: token.pos };
+    }
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(node: ExpressionNode): ExpressionNode {
+    for (;;) {
+      if (this.matchOperator('.')) {
+        const property = this.next();
+        if (property.type !== 'identifier') {
+          throw new ExpressionError('Expected property name after \'.\'', property.pos);
+        }
+        node = { kind: 'member', object: node, property: property.value, pos: property.pos };
+      } else if (this.matchOperator('[')) {
+        const key = this.parseConditional();
+        this.expectOperator(']');
+        node = key.kind === 'literal' && (typeof key.value === 'string' || typeof key.value === 'number')
+          ? { kind: 'member', object: node, property: String(key.value), pos: key.pos }
+          : { kind: 'index', object: node, key, pos: key.pos }; // Computed key, e.g. vars.positions[vars.tokenAddress]
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { kind: 'literal', value: token.value, pos: token.pos };
+
+      case 'identifier': {
+        if (token.value === 'true' || token.value === 'false') {
+          return { kind: 'literal', value: token.value === 'true', pos: token.pos };
+        }
+        if (token.value === 'null') {
+          return { kind: 'literal', value: null, pos: token.pos };
+        }
+
+        if (this.matchOperator('(')) {
+          const args: ExpressionNode[] = [];
+          if (!this.matchOperator(')')) {
+            do {
+              args.push(this.parseConditional());
+            } while (this.matchOperator(','));
+            this.expectOperator(')');
+          }
+          return { kind: 'call', callee: token.value, args, pos: token.pos };
+        }
+
+        this.identifiers.add(token.value);
+        return { kind: 'identifier', name: token.value, pos: token.pos };
+      }
+
+      case 'operator':
+        if (token.value === '(') {
+          const inner = this.parseConditional();
+          this.expectOperator(')');
+          return inner;
+        }
+        throw new ExpressionError(`Unexpected '${token.value}'`, token.pos);
+
+      default:
+        throw new ExpressionError('Unexpected end of expression', token.pos);
+    }
+  }
+
+  private enter(): void {
+    if (++this.depth > MAX_DEPTH) {
+      throw new ExpressionError(`Expression is nested too deeply (max ${MAX_DEPTH})`);
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'eof') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private matchOperator(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOperator(value: string): void {
+    const token = this.peek();
+    if (!this.matchOperator(value)) {
+      throw new ExpressionError(`Expected '${value}' but found '${this.describe(token)}'`, token.pos);
+    }
+  }
+
+  private describe(token: Token): string {
+    return token.type === 'eof' ? 'end of expression' : String(token.value);
+  }
+}
+
+/**
+ * Parse an expression (throws ExpressionError on syntax errors)
+ */
+export function parseExpression(source: string): CompiledExpression {
+  if (typeof source !== 'string' || source.trim().length === 0) {
+    throw new ExpressionError('Expression is empty');
+  }
+  if (source.length > MAX_SOURCE_LENGTH) {
+    throw new ExpressionError(`Expression is too long (max ${MAX_SOURCE_LENGTH} characters)`);
+  }
+
+  const parser = new Parser(tokenize(source));
+  const ast = parser.parse();
+  return { source, ast, identifiers: parser.identifiers };
+}
+
+// ============================================
+// TYPE CHECKER
+// ============================================
+
+function literalType(value: unknown): ExpressionType {
+  if (value === null) return 'null';
+  return typeof value as ExpressionType;
+}
+
+function isNumeric(type: ExpressionType): boolean {
+  return type === 'number' || type === 'any';
+}
+
+function isBoolean(type: ExpressionType): boolean {
+  return type === 'boolean' || type === 'any';
+}
+
+function inferType(node: ExpressionNode, errors: string[]): ExpressionType {
+  switch (node.kind) {
+    case 'literal':
+      return literalType(node.value);
+
+    case 'identifier': {
+      const variable = EXPRESSION_VARIABLES[node.name];
+      if (!variable) {
+        errors.push(`Unknown identifier '${node.name}' at position ${node.pos} (available: ${Object.keys(EXPRESSION_VARIABLES).join(', ')})`);
+        return 'any';
+      }
+      return variable.type;
+    }
+
+    case 'member': {
+      const objectType = inferType(node.object, errors);
+      if (objectType !== 'any') {
+        errors.push(`Cannot read property '${node.property}' of a ${objectType} at position ${node.pos}`);
+      }
+      if (FORBIDDEN_PROPERTIES.has(node.property)) {
+        errors.push(`Property '${node.property}' is not accessible at position ${node.pos}`);
+      }
+      return 'any';
+    }
+
+    case 'index': {
+      const objectType = inferType(node.object, errors);
+      if (objectType !== 'any') {
+        errors.push(`Cannot index a ${objectType} at position ${node.pos}`);
+      }
+      const keyType = inferType(node.key, errors);
+      if (keyType !== 'string' && keyType !== 'number' && keyType !== 'any') {
+        errors.push(`Index must be a string or number, got ${keyType} at position ${node.pos}`);
+      }
+      return 'any';
+    }
+
+    case 'unary': {
+      const operandType = inferType(node.operand, errors);
+      if (node.op === '!') {
+        if (!isBoolean(operandType)) {
+          errors.push(`Operator '!' expects a boolean, got ${operandType} at position ${node.pos}`);
+        }
+        return 'boolean';
+      }
+      if (!isNumeric(operandType)) {
+        errors.push(`Operator '-' expects a number, got ${operandType} at position ${node.pos}`);
+      }
+      return 'number';
+    }
+
+    case 'binary': {
+      const left = inferType(node.left, errors);
+      const right = inferType(node.right, errors);
+
+      switch (node.op) {
+        case '&&':
+        case '||':
+          if (!isBoolean(left) || !isBoolean(right)) {
+            errors.push(`Operator '${node.op}' expects booleans, got ${left} and ${right} at position ${node.pos}`);
+          }
+          return 'boolean';
+
+        case '==':
+        case '!=':
+          return 'boolean';
+
+        case '<':
+        case '<=':
+        case '>':
+        case '>=': {
+          const bothStrings = (left === 'string' || left === 'any') && (right === 'string' || right === 'any')
+            && (left === 'string' || right === 'string');
+          if (!bothStrings && (!isNumeric(left) || !isNumeric(right))) {
+            errors.push(`Operator '${node.op}' expects numbers, got ${left} and ${right} at position ${node.pos}`);
+          }
+          return 'boolean';
+        }
+
+        case '+':
+          if (left === 'string' && right === 'string') return 'string';
+          if (isNumeric(left) && isNumeric(right)) return left === 'any' || right === 'any' ? 'any' : 'number';
+          if ((left === 'string' && right === 'any') || (left === 'any' && right === 'string')) return 'any';
+          errors.push(`Operator '+' expects numbers or strings, got ${left} and ${right} at position ${node.pos}`);
+          return 'any';
+
+        default:
+          if (!isNumeric(left) || !isNumeric(right)) {
+            errors.push(`Operator '${node.op}' expects numbers, got ${left} and ${right} at position ${node.pos}`);
+          }
+          return 'number';
+      }
+    }
+
+    case 'conditional': {
+      const testType = inferType(node.test, errors);
+      if (!isBoolean(testType)) {
+        errors.push(`Condition of '?:' must be a boolean, got ${testType} at position ${node.pos}`);
+      }
+      const consequent = inferType(node.consequent, errors);
+      const alternate = inferType(node.alternate, errors);
+      return consequent === alternate ? consequent : 'any';
+    }
+
+    case 'call': {
+      const fn = lookupFunction(node.callee);
+      if (!fn) {
+        errors.push(`Unknown function '${node.callee}' at position ${node.pos} (available: ${Object.keys(FUNCTIONS).join(', ')})`);
+        node.args.forEach((arg) => inferType(arg, errors));
+        return 'any';
+      }
+      if (node.args.length < fn.minArgs || node.args.length > fn.maxArgs) {
+        const expected = fn.minArgs === fn.maxArgs ? `${fn.minArgs}` : `${fn.minArgs}-${fn.maxArgs}`;
+        errors.push(`Function '${node.callee}' expects ${expected} argument(s), got ${node.args.length} at position ${node.pos}`);
+      }
+      node.args.forEach((arg, index) => {
+        const argType = inferType(arg, errors);
+        if (fn.argType === 'number' && !isNumeric(argType)) {
+          errors.push(`Argument ${index + 1} of '${node.callee}' must be a number, got ${argType} at position ${arg.pos}`);
+        }
+      });
+      return fn.returns;
+    }
+  }
+}
+
+/**
+ * Type-check an expression; returns a list of problems (empty when valid)
+ * Accepts either source text or an already parsed expression.
+ */
+export function checkExpression(
+  expression: string | CompiledExpression,
+  expected: ExpressionType = 'boolean'
+): string[] {
+  let compiled: CompiledExpression;
+  try {
+    compiled = typeof expression === 'string' ? parseExpression(expression) : expression;
+  } catch (error) {
+    return [error instanceof Error ? error.message : String(error)];
+  }
+
+  const errors: string[] = [];
+  const resultType = inferType(compiled.ast, errors);
+  if (expected !== 'any' && resultType !== expected && resultType !== 'any') {
+    errors.push(`Expression must evaluate to a ${expected}, got ${resultType}`);
+  }
+  return errors;
+}
+
+// ============================================
+// EVALUATOR
+// ============================================
+
+function describeNode(node: ExpressionNode): string {
+  switch (node.kind) {
+    case 'identifier': return node.name;
+    case 'member': return `${describeNode(node.object)}.${node.property}`;
+    case 'index': return `${describeNode(node.object)}[${describeNode(node.key)}]`;
+    case 'literal': return JSON.stringify(node.value);
+    case 'call': return `${node.callee}(...)`;
+    default: return 'expression';
+  }
+}
+
+function requireNumber(value: unknown, op: string, node: ExpressionNode): number {
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new ExpressionError(`Operator '${op}' expects a number but ${describeNode(node)} is ${value === undefined ? 'undefined' : JSON.stringify(value)}`, node.pos);
+  }
+  return value;
+}
+
+function requireBoolean(value: unknown, op: string, node: ExpressionNode): boolean {
+  if (typeof value !== 'boolean') {
+    throw new ExpressionError(`'${op}' expects a boolean but ${describeNode(node)} is ${value === undefined ? 'undefined' : JSON.stringify(value)}`, node.pos);
+  }
+  return value;
+}
+
+function evaluateNode(node: ExpressionNode, scope: ExpressionScope): unknown {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+
+    case 'identifier':
+      if (!Object.prototype.hasOwnProperty.call(EXPRESSION_VARIABLES, node.name)) {
+        throw new ExpressionError(`Unknown identifier '${node.name}'`, node.pos);
+      }
+      return scope[node.name];
+
+    case 'member': {
+      const object = evaluateNode(node.object, scope);
+      // Reading through null/undefined yields undefined (like ?.) so defined() can guard paths
+      if (object === null || object === undefined || typeof object !== 'object') {
+        return undefined;
+      }
+      if (FORBIDDEN_PROPERTIES.has(node.property) || !Object.prototype.hasOwnProperty.call(object, node.property)) {
+        return undefined;
+      }
+      const value = (object as Record<string, unknown>)[node.property];
+      return typeof value === 'function' ? undefined : value;
+    }
+
+    case 'index': {
+      const object = evaluateNode(node.object, scope);
+      const key = evaluateNode(node.key, scope);
+      // Same rules as member access; keys that are not strings/numbers read as undefined
+      if (object === null || object === undefined || typeof object !== 'object') {
+        return undefined;
+      }
+      if (typeof key !== 'string' && typeof key !== 'number') {
+        return undefined;
+      }
+      const property = String(key);
+      if (FORBIDDEN_PROPERTIES.has(property) || !Object.prototype.hasOwnProperty.call(object, property)) {
+        return undefined;
+      }
+      const value = (object as Record<string, unknown>)[property];
+      return typeof value === 'function' ? undefined : value;
+    }
+
+    case 'unary': {
+      const operand = evaluateNode(node.operand, scope);
+      return node.op === '!'
+        ? !requireBoolean(operand, '!', node.operand)
+        : -requireNumber(operand, '-', node.operand);
+    }
+
+    case 'binary': {
+      if (node.op === '&&' || node.op === '||') {
+        const left = requireBoolean(evaluateNode(node.left, scope), node.op, node.left);
+        if (node.op === '&&' ? !left : left) {
+          return left;
+        }
+        return requireBoolean(evaluateNode(node.right, scope), node.op, node.right);
+      }
+
+      const left = evaluateNode(node.left, scope);
+      const right = evaluateNode(node.right, scope);
+
+      switch (node.op) {
+        case '==':
+          return left === right || (left == null && right == null);
+        case '!=':
+          return !(left === right || (left == null && right == null));
+        case '+':
+          if (typeof left === 'string' && typeof right === 'string') {
+            return left + right;
+          }
+          return requireNumber(left, '+', node.left) + requireNumber(right, '+', node.right);
+        case '<':
+        case '<=':
+        case '>':
+        case '>=': {
+          const bothStrings = typeof left === 'string' && typeof right === 'string';
+          const a = bothStrings ? left : requireNumber(left, node.op, node.left);
+          const b = bothStrings ? right : requireNumber(right, node.op, node.right);
+          if (node.op === '<') return a < b;
+          if (node.op === '<=') return a <= b;
+          if (node.op === '>') return a > b;
+          return a >= b;
+        }
+        default: {
+          const a = requireNumber(left, node.op, node.left);
+          const b = requireNumber(right, node.op, node.right);
+          if (node.op === '-') return a - b;
+          if (node.op === '*') return a * b;
+          if (node.op === '/') return a / b;
+          return a % b;
+        }
+      }
+    }
+
+    case 'conditional':
+      return requireBoolean(evaluateNode(node.test, scope), '?:', node.test)
+        ? evaluateNode(node.consequent, scope)
+        : evaluateNode(node.alternate, scope);
+
+    case 'call': {
+      const fn = lookupFunction(node.callee);
+      if (!fn) {
+        throw new ExpressionError(`Unknown function '${node.callee}'`, node.pos);
+      }
+      const args = node.args.map((arg) => {
+        const value = evaluateNode(arg, scope);
+        return fn.argType === 'number' ? requireNumber(value, node.callee, arg) : value;
+      });
+      return fn.fn(...args);
+    }
+  }
+}
+
+/**
+ * Evaluate a parsed expression against a scope (throws ExpressionError on runtime type errors)
+ */
+export function evaluateExpression(compiled: CompiledExpression, scope: ExpressionScope): unknown {
+  return evaluateNode(compiled.ast, scope);
+}
+
+/**
+ * Evaluate a parsed expression that must produce a boolean
+ */
+export function evaluateCondition(compiled: CompiledExpression, scope: ExpressionScope): boolean {
+  const result = evaluateExpression(compiled, scope);
+  if (typeof result !== 'boolean') {
+    throw new ExpressionError(`Condition must evaluate to true/false, got ${result === undefined ? 'undefined' : JSON.stringify(result)}`);
+  }
+  return result;
+}
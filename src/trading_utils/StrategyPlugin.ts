@@ -4,7 +4,28 @@
  * Plugins can be loaded dynamically without modifying core code
  */
 
-import { StrategyTypeDefinition, strategyRegistry } from './StrategyRegistry';
+import { StrategyFieldDefinition, StrategyTypeDefinition, strategyRegistry } from './StrategyRegistry';
+
+/**
+ * Capabilities a plugin declares in its manifest
+ * Checked against PLUGIN_CONFIG.ALLOWED_PERMISSIONS at load time
+ */
+export type StrategyPluginPermission = 'market-data' | 'trade' | 'network' | 'filesystem' | 'wallet';
+
+/**
+ * Plugin manifest (plugin.json, or the "strategyPlugin" field of package.json)
+ */
+export interface StrategyPluginManifest {
+  name: string;
+  version: string;
+  author?: string;
+  description?: string;
+  main?: string; // Entry module relative to the plugin directory (default: index.js)
+  pluginApi: string; // Semver range the plugin supports, e.g. "^3.0.0"
+  strategyTypes: string[]; // Strategy types the entry module registers
+  permissions?: StrategyPluginPermission[];
+  configSchema?: StrategyFieldDefinition[]; // customValidator is not expressible in JSON
+}
 
 export interface TradingContext {
   tokenAddress: string;
@@ -36,7 +57,11 @@ export interface StrategyPlugin {
   version: string;
   author: string;
   description?: string;
-  
+
+  // Set by the filesystem loader (undefined for plugins loaded in code)
+  manifest?: StrategyPluginManifest;
+  config?: Record<string, any>;
+
   // Strategy Definition
   getStrategyDefinition(): StrategyTypeDefinition;
   
@@ -69,57 +94,91 @@ export class StrategyPluginManager {
     console.log('🔌 [PLUGIN] Initializing Strategy Plugin Manager v' + this.version);
   }
 
+  /**
+   * Plugin API version (manifests declare a compatible range via pluginApi)
+   */
+  getVersion(): string {
+    return this.version;
+  }
+
   /**
    * Load and register a plugin
    */
   async loadPlugin(plugin: StrategyPlugin): Promise<void> {
     try {
-      // Validate plugin structure
-      if (!plugin.name || !plugin.version || !plugin.author) {
-        throw new Error('Invalid plugin: missing required metadata (name, version, author)');
-      }
+      await this.initPlugin(plugin);
+      await this.installPlugin(plugin);
+    } catch (error: any) {
+      console.error(`❌ [PLUGIN] Failed to load plugin ${plugin.name}:`, error.message);
+      throw error;
+    }
+  }
 
-      if (typeof plugin.getStrategyDefinition !== 'function') {
-        throw new Error('Invalid plugin: missing getStrategyDefinition() method');
-      }
+  /**
+   * Validate a plugin and run its onInit hook without registering it
+   * A running version of the same plugin keeps serving until installPlugin swaps it out
+   */
+  async initPlugin(plugin: StrategyPlugin): Promise<void> {
+    // Validate plugin structure
+    if (!plugin.name || !plugin.version || !plugin.author) {
+      throw new Error('Invalid plugin: missing required metadata (name, version, author)');
+    }
 
-      if (typeof plugin.execute !== 'function') {
-        throw new Error('Invalid plugin: missing execute() method');
-      }
+    if (typeof plugin.getStrategyDefinition !== 'function') {
+      throw new Error('Invalid plugin: missing getStrategyDefinition() method');
+    }
 
-      // Check for duplicate
-      if (this.plugins.has(plugin.name)) {
-        console.warn(`⚠️ [PLUGIN] Plugin ${plugin.name} already loaded, overwriting...`);
-      }
+    if (typeof plugin.execute !== 'function') {
+      throw new Error('Invalid plugin: missing execute() method');
+    }
 
-      // Get strategy definition
-      const definition = plugin.getStrategyDefinition();
-      
-      // Validate definition
-      if (!definition.type || !definition.displayName) {
-        throw new Error('Invalid strategy definition: missing type or displayName');
-      }
+    // Get strategy definition
+    const definition = plugin.getStrategyDefinition();
+    
+    // Validate definition
+    if (!definition.type || !definition.displayName) {
+      throw new Error('Invalid strategy definition: missing type or displayName');
+    }
 
-      // Call onInit lifecycle hook if present
-      if (plugin.onInit) {
-        console.log(`🔄 [PLUGIN] Initializing ${plugin.name}...`);
-        await plugin.onInit();
-      }
+    // Call onInit lifecycle hook if present
+    if (plugin.onInit) {
+      console.log(`🔄 [PLUGIN] Initializing ${plugin.name}...`);
+      await plugin.onInit();
+    }
+  }
 
-      // Register strategy type in registry
-      strategyRegistry.register(definition);
+  /**
+   * Register a plugin that passed initPlugin, destroying the version it replaces
+   */
+  async installPlugin(plugin: StrategyPlugin): Promise<void> {
+    const definition = plugin.getStrategyDefinition();
+
+    // Check for duplicate
+    const previous = this.plugins.get(plugin.name);
+    if (previous && previous !== plugin) {
+      console.warn(`⚠️ [PLUGIN] Plugin ${plugin.name} already loaded, replacing v${previous.version}...`);
+      if (previous.onDestroy) {
+        try {
+          await previous.onDestroy();
+        } catch (error: any) {
+          console.error(`❌ [PLUGIN] ${plugin.name} v${previous.version} failed to shut down:`, error.message);
+        }
+      }
+      const previousType = previous.getStrategyDefinition().type;
+      if (previousType !== definition.type) {
+        strategyRegistry.unregister(previousType);
+      }
+    }
 
-      // Store plugin
-      this.plugins.set(plugin.name, plugin);
+    // Register strategy type in registry
+    strategyRegistry.register(definition);
 
-      console.log(`✅ [PLUGIN] Loaded: ${plugin.name} v${plugin.version} by ${plugin.author}`);
-      console.log(`   Strategy Type: ${definition.type}`);
-      console.log(`   Risk Level: ${definition.riskLevel}`);
+    // Store plugin
+    this.plugins.set(plugin.name, plugin);
 
-    } catch (error: any) {
-      console.error(`❌ [PLUGIN] Failed to load plugin ${plugin.name}:`, error.message);
-      throw error;
-    }
+    console.log(`✅ [PLUGIN] Loaded: ${plugin.name} v${plugin.version} by ${plugin.author}`);
+    console.log(`   Strategy Type: ${definition.type}`);
+    console.log(`   Risk Level: ${definition.riskLevel}`);
   }
 
   /**
@@ -137,6 +196,7 @@ export class StrategyPluginManager {
       await plugin.onDestroy();
     }
 
+    strategyRegistry.unregister(plugin.getStrategyDefinition().type);
     this.plugins.delete(pluginName);
     console.log(`✅ [PLUGIN] Unloaded: ${pluginName}`);
   }
@@ -245,7 +305,16 @@ export class StrategyPluginManager {
 
       // Execute
       console.log(`🚀 [PLUGIN] Executing strategy: ${strategyType} via ${plugin.name}`);
-      const result = await plugin.execute(config, context);
+      let result = await plugin.execute(config, context);
+
+      // Manifest plugins may only emit trade actions if they were granted 'trade'
+      if (plugin.manifest && (result.action === 'buy' || result.action === 'sell') &&
+          !(plugin.manifest.permissions || []).includes('trade')) {
+        result = {
+          success: false,
+          error: `Plugin ${plugin.name} returned a ${result.action} action without the 'trade' permission`
+        };
+      }
 
       // Store execution history
       if (!this.executionHistory.has(strategyType)) {
@@ -306,12 +375,11 @@ export class StrategyPluginManager {
 
   /**
    * Reload a plugin (useful for development)
+   * The new version is initialized first, so if that fails the old one keeps running
    */
   async reloadPlugin(plugin: StrategyPlugin): Promise<void> {
-    if (this.plugins.has(plugin.name)) {
-      await this.unloadPlugin(plugin.name);
-    }
-    await this.loadPlugin(plugin);
+    await this.initPlugin(plugin);
+    await this.installPlugin(plugin);
   }
 }
 
@@ -324,6 +392,8 @@ export abstract class BaseStrategyPlugin implements StrategyPlugin {
   abstract version: string;
   abstract author: string;
   description?: string;
+  manifest?: StrategyPluginManifest;
+  config: Record<string, any> = {};
 
   abstract getStrategyDefinition(): StrategyTypeDefinition;
   abstract execute(config: any, context: TradingContext): Promise<StrategyExecutionResult>;
@@ -0,0 +1,572 @@
+/**
+ * Strategy Plugin Loader
+ * Discovers plugin packages in PLUGIN_CONFIG.PLUGINS_DIR and registers them through
+ * the plugin manager (and therefore into the strategy registry)
+ *
+ * Package layout:
+ *   <PLUGINS_DIR>/<package>/plugin.json   manifest (or a "strategyPlugin" field in package.json)
+ *   <PLUGINS_DIR>/<package>/<main>        entry module (default index.js)
+ *   <PLUGINS_DIR>/<package>/config.json   optional config, validated against manifest.configSchema
+ *
+ * The entry module may export a plugin class, a plugin instance, an array of them,
+ * or a createPlugin(config, manifest) factory.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  pluginManager,
+  StrategyPlugin,
+  StrategyPluginManager,
+  StrategyPluginManifest,
+  StrategyPluginPermission
+} from './StrategyPlugin';
+import { StrategyFieldDefinition, strategyRegistry } from './StrategyRegistry';
+import { PLUGIN_CONFIG } from './config';
+import { awsLogger } from '../aws/logger';
+
+const KNOWN_PERMISSIONS: StrategyPluginPermission[] = ['market-data', 'trade', 'network', 'filesystem', 'wallet'];
+const MANIFEST_FILE = 'plugin.json';
+const PACKAGE_FILE = 'package.json';
+const CONFIG_FILE = 'config.json';
+const RELOAD_DEBOUNCE_MS = 300;
+
+export interface LoadedPluginPackage {
+  directory: string;
+  manifest: StrategyPluginManifest;
+  config: Record<string, any>;
+  pluginNames: string[];
+  loadedAt: number;
+}
+
+export interface PluginLoadReport {
+  loaded: LoadedPluginPackage[];
+  failed: Array<{ directory: string; error: string }>;
+}
+
+export interface StrategyPluginLoaderOptions {
+  pluginsDir?: string;
+  allowedPermissions?: string[];
+}
+
+interface PendingReload {
+  timer: NodeJS.Timeout;
+  codeChanged: boolean;
+}
+
+export class StrategyPluginLoader {
+  private packages: Map<string, LoadedPluginPackage> = new Map(); // Keyed by directory
+  private watchers: Map<string, fs.FSWatcher> = new Map();
+  private rootWatcher: fs.FSWatcher | null = null;
+  private pendingReloads: Map<string, PendingReload> = new Map();
+  private pluginsDir: string;
+  private allowedPermissions: Set<string>;
+
+  constructor(
+    private manager: StrategyPluginManager = pluginManager,
+    options: StrategyPluginLoaderOptions = {}
+  ) {
+    this.pluginsDir = path.resolve(options.pluginsDir || PLUGIN_CONFIG.PLUGINS_DIR);
+    this.allowedPermissions = new Set(options.allowedPermissions || PLUGIN_CONFIG.ALLOWED_PERMISSIONS);
+  }
+
+  getPluginsDir(): string {
+    return this.pluginsDir;
+  }
+
+  getLoadedPackages(): LoadedPluginPackage[] {
+    return Array.from(this.packages.values());
+  }
+
+  /**
+   * Load every plugin package in the plugins directory
+   * A broken package is reported and skipped, it never blocks the others
+   */
+  async loadAll(): Promise<PluginLoadReport> {
+    const report: PluginLoadReport = { loaded: [], failed: [] };
+
+    if (!fs.existsSync(this.pluginsDir)) {
+      console.log(`ℹ️ [PLUGIN] No plugin directory at ${this.pluginsDir}, skipping discovery`);
+      return report;
+    }
+
+    const entries = fs.readdirSync(this.pluginsDir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory() && !entry.name.startsWith('.'))
+      .map(entry => entry.name)
+      .sort();
+
+    for (const name of entries) {
+      const directory = path.join(this.pluginsDir, name);
+      try {
+        report.loaded.push(await this.loadPackage(directory));
+      } catch (error: any) {
+        report.failed.push({ directory, error: error.message });
+        console.error(`❌ [PLUGIN] Skipping ${name}: ${error.message}`);
+        awsLogger.warn('Strategy plugin failed to load', {
+          metadata: { directory, error: error.message }
+        });
+      }
+    }
+
+    console.log(`🔌 [PLUGIN] Discovery finished: ${report.loaded.length} loaded, ${report.failed.length} failed`);
+    return report;
+  }
+
+  /**
+   * Load (or reload) one plugin package
+   * Everything is validated before the manager is touched, so a bad update leaves the old version running
+   */
+  async loadPackage(directory: string): Promise<LoadedPluginPackage> {
+    directory = path.resolve(directory);
+
+    const manifest = this.readManifest(directory);
+    this.checkCompatibility(manifest);
+    this.checkPermissions(manifest);
+    const config = this.readConfig(directory, manifest);
+    const plugins = await this.instantiate(directory, manifest, config);
+    this.checkStrategyTypes(manifest, plugins);
+
+    // Initialize the whole new build before swapping anything, so a failing onInit never
+    // leaves the package half on the old version and half on the new one
+    const initialized: StrategyPlugin[] = [];
+    try {
+      for (const plugin of plugins) {
+        plugin.manifest = manifest;
+        plugin.config = { ...config };
+        await this.manager.initPlugin(plugin);
+        initialized.push(plugin);
+      }
+    } catch (error) {
+      for (const plugin of initialized) {
+        await plugin.onDestroy?.().catch(() => undefined);
+      }
+      throw error;
+    }
+
+    // Drop plugins the new build no longer exports
+    const previous = this.packages.get(directory);
+    const pluginNames = plugins.map(plugin => plugin.name);
+    for (const name of previous?.pluginNames || []) {
+      if (!pluginNames.includes(name) && this.manager.getPlugin(name)) {
+        await this.manager.unloadPlugin(name);
+      }
+    }
+
+    for (const plugin of plugins) {
+      await this.manager.installPlugin(plugin);
+    }
+
+    const loaded: LoadedPluginPackage = { directory, manifest, config, pluginNames, loadedAt: Date.now() };
+    this.packages.set(directory, loaded);
+
+    awsLogger.info('Strategy plugin package loaded', {
+      metadata: {
+        name: manifest.name,
+        version: manifest.version,
+        strategyTypes: manifest.strategyTypes,
+        permissions: manifest.permissions || [],
+      }
+    });
+    return loaded;
+  }
+
+  /**
+   * Unload every plugin a package registered
+   */
+  async unloadPackage(directory: string): Promise<boolean> {
+    directory = path.resolve(directory);
+    const loaded = this.packages.get(directory);
+    if (!loaded) return false;
+
+    for (const name of loaded.pluginNames) {
+      if (this.manager.getPlugin(name)) {
+        await this.manager.unloadPlugin(name);
+      }
+    }
+
+    this.watchers.get(directory)?.close();
+    this.watchers.delete(directory);
+    this.packages.delete(directory);
+    this.clearRequireCache(directory);
+    console.log(`✅ [PLUGIN] Unloaded package: ${loaded.manifest.name}`);
+    return true;
+  }
+
+  /**
+   * Watch the plugins directory and hot reload packages when they change
+   * Edits to config.json only trigger onConfigChange; anything else reloads the code
+   */
+  watch(): void {
+    if (this.rootWatcher || !fs.existsSync(this.pluginsDir)) return;
+
+    this.rootWatcher = fs.watch(this.pluginsDir, (_event, filename) => {
+      if (!filename || filename.startsWith('.')) return;
+      this.scheduleReload(path.join(this.pluginsDir, filename), true);
+    });
+
+    // Also watch packages that failed to load, so fixing them triggers a retry
+    for (const entry of fs.readdirSync(this.pluginsDir, { withFileTypes: true })) {
+      if (entry.isDirectory() && !entry.name.startsWith('.')) {
+        this.watchPackage(path.join(this.pluginsDir, entry.name));
+      }
+    }
+    console.log(`👀 [PLUGIN] Watching ${this.pluginsDir} for changes`);
+  }
+
+  /**
+   * Stop all file watchers and pending reloads
+   */
+  stopWatching(): void {
+    this.rootWatcher?.close();
+    this.rootWatcher = null;
+
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+
+    for (const pending of this.pendingReloads.values()) {
+      clearTimeout(pending.timer);
+    }
+    this.pendingReloads.clear();
+  }
+
+  private watchPackage(directory: string): void {
+    if (this.watchers.has(directory)) return;
+
+    const watcher = fs.watch(directory, { recursive: true }, (_event, filename) => {
+      if (!filename || filename.split(path.sep).some(part => part.startsWith('.') || part === 'node_modules')) return;
+      this.scheduleReload(directory, filename !== CONFIG_FILE);
+    });
+    watcher.on('error', () => {
+      watcher.close();
+      this.watchers.delete(directory);
+    });
+    this.watchers.set(directory, watcher);
+  }
+
+  private scheduleReload(directory: string, codeChanged: boolean): void {
+    const pending = this.pendingReloads.get(directory);
+    if (pending) {
+      clearTimeout(pending.timer);
+    }
+
+    const timer = setTimeout(() => {
+      const reload = this.pendingReloads.get(directory);
+      this.pendingReloads.delete(directory);
+      this.handleChange(directory, reload?.codeChanged ?? codeChanged).catch((error: any) => {
+        console.error(`❌ [PLUGIN] Hot reload failed for ${path.basename(directory)}: ${error.message}`);
+        awsLogger.warn('Strategy plugin hot reload failed', {
+          metadata: { directory, error: error.message }
+        });
+      });
+    }, RELOAD_DEBOUNCE_MS);
+
+    this.pendingReloads.set(directory, { timer, codeChanged: codeChanged || !!pending?.codeChanged });
+  }
+
+  private async handleChange(directory: string, codeChanged: boolean): Promise<void> {
+    const isPackage = fs.existsSync(directory) && fs.statSync(directory).isDirectory();
+
+    if (!isPackage) {
+      await this.unloadPackage(directory);
+      return;
+    }
+
+    this.watchPackage(directory);
+
+    if (!codeChanged && this.packages.has(directory)) {
+      await this.applyConfigChange(directory);
+      return;
+    }
+
+    console.log(`🔄 [PLUGIN] Reloading ${path.basename(directory)}...`);
+    await this.loadPackage(directory);
+  }
+
+  /**
+   * Push a new config.json to running plugins without reloading their code
+   */
+  private async applyConfigChange(directory: string): Promise<void> {
+    const loaded = this.packages.get(directory)!;
+    const newConfig = this.readConfig(directory, loaded.manifest);
+    if (JSON.stringify(newConfig) === JSON.stringify(loaded.config)) return;
+
+    for (const name of loaded.pluginNames) {
+      const plugin = this.manager.getPlugin(name);
+      if (!plugin) continue;
+
+      const oldConfig = plugin.config || {};
+      plugin.config = { ...newConfig };
+      if (plugin.onConfigChange) {
+        await plugin.onConfigChange(oldConfig, plugin.config);
+      }
+    }
+
+    loaded.config = newConfig;
+    console.log(`✅ [PLUGIN] Applied config change to ${loaded.manifest.name}`);
+  }
+
+  /**
+   * Read plugin.json, falling back to the "strategyPlugin" field of package.json
+   */
+  private readManifest(directory: string): StrategyPluginManifest {
+    let manifest: any;
+    const manifestPath = path.join(directory, MANIFEST_FILE);
+    const packagePath = path.join(directory, PACKAGE_FILE);
+
+    if (fs.existsSync(manifestPath)) {
+      manifest = readJson(manifestPath);
+    } else if (fs.existsSync(packagePath)) {
+      const pkg = readJson(packagePath);
+      if (!pkg.strategyPlugin) {
+        throw new Error(`${PACKAGE_FILE} has no "strategyPlugin" manifest`);
+      }
+      manifest = {
+        name: pkg.name,
+        version: pkg.version,
+        author: typeof pkg.author === 'string' ? pkg.author : pkg.author?.name,
+        description: pkg.description,
+        main: pkg.main,
+        ...pkg.strategyPlugin,
+      };
+    } else {
+      throw new Error(`No ${MANIFEST_FILE} or ${PACKAGE_FILE} manifest found`);
+    }
+
+    const errors: string[] = [];
+    if (typeof manifest.name !== 'string' || !manifest.name) errors.push('name is required');
+    if (typeof manifest.version !== 'string' || !parseVersion(manifest.version)) errors.push('version must be a semver version');
+    if (typeof manifest.pluginApi !== 'string' || !manifest.pluginApi) errors.push('pluginApi range is required');
+    if (!Array.isArray(manifest.strategyTypes) || manifest.strategyTypes.length === 0 ||
+        manifest.strategyTypes.some((t: any) => typeof t !== 'string' || !t)) {
+      errors.push('strategyTypes must be a non-empty array of strings');
+    }
+    if (manifest.permissions !== undefined) {
+      if (!Array.isArray(manifest.permissions)) {
+        errors.push('permissions must be an array');
+      } else {
+        const unknown = manifest.permissions.filter((p: any) => !KNOWN_PERMISSIONS.includes(p));
+        if (unknown.length > 0) errors.push(`unknown permissions: ${unknown.join(', ')}`);
+      }
+    }
+    if (manifest.configSchema !== undefined && !Array.isArray(manifest.configSchema)) {
+      errors.push('configSchema must be an array of field definitions');
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid manifest: ${errors.join('; ')}`);
+    }
+    return manifest as StrategyPluginManifest;
+  }
+
+  private checkCompatibility(manifest: StrategyPluginManifest): void {
+    const apiVersion = this.manager.getVersion();
+    if (!satisfiesVersion(apiVersion, manifest.pluginApi)) {
+      throw new Error(
+        `${manifest.name}@${manifest.version} requires plugin API ${manifest.pluginApi}, this server provides ${apiVersion}`
+      );
+    }
+  }
+
+  private checkPermissions(manifest: StrategyPluginManifest): void {
+    const denied = (manifest.permissions || []).filter(p => !this.allowedPermissions.has(p));
+    if (denied.length > 0) {
+      throw new Error(`${manifest.name} requests permissions that are not allowed: ${denied.join(', ')}`);
+    }
+  }
+
+  /**
+   * Build the plugin config: schema defaults overlaid with config.json
+   */
+  private readConfig(directory: string, manifest: StrategyPluginManifest): Record<string, any> {
+    const schema = manifest.configSchema || [];
+    const configPath = path.join(directory, CONFIG_FILE);
+    const overrides = fs.existsSync(configPath) ? readJson(configPath) : {};
+
+    const config: Record<string, any> = {};
+    for (const field of schema) {
+      if (field.defaultValue !== undefined) {
+        config[field.name] = field.defaultValue;
+      }
+    }
+    Object.assign(config, overrides);
+
+    const errors: string[] = [];
+    for (const key of Object.keys(config)) {
+      if (!schema.some(field => field.name === key)) {
+        errors.push(`unknown field ${key}`);
+      }
+    }
+    for (const field of schema) {
+      errors.push(...validateConfigField(field, config[field.name]));
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid config for ${manifest.name}: ${errors.join('; ')}`);
+    }
+    return config;
+  }
+
+  /**
+   * Require the entry module (fresh from disk) and build its plugin instances
+   */
+  private async instantiate(
+    directory: string,
+    manifest: StrategyPluginManifest,
+    config: Record<string, any>
+  ): Promise<StrategyPlugin[]> {
+    const entry = path.resolve(directory, manifest.main || 'index.js');
+    if (!entry.startsWith(directory + path.sep)) {
+      throw new Error(`Entry ${manifest.main} is outside the plugin directory`);
+    }
+
+    this.clearRequireCache(directory);
+    const mod = require(entry);
+    const exported = mod.createPlugin ?? mod.default ?? mod;
+
+    let created: unknown = exported;
+    if (typeof exported === 'function') {
+      created = exported.prototype?.getStrategyDefinition
+        ? new exported()
+        : await exported({ ...config }, manifest);
+    }
+
+    const plugins = (Array.isArray(created) ? created : [created]) as StrategyPlugin[];
+    for (const plugin of plugins) {
+      if (!plugin || typeof plugin.getStrategyDefinition !== 'function' || typeof plugin.execute !== 'function') {
+        throw new Error(`Entry ${path.relative(directory, entry)} does not export a strategy plugin`);
+      }
+      if (plugin.version !== manifest.version) {
+        throw new Error(`Plugin ${plugin.name} reports version ${plugin.version}, manifest says ${manifest.version}`);
+      }
+    }
+    return plugins;
+  }
+
+  /**
+   * Registered types must match the manifest exactly, and must not take over
+   * a type owned by the built-ins or by another package
+   */
+  private checkStrategyTypes(manifest: StrategyPluginManifest, plugins: StrategyPlugin[]): void {
+    const provided = plugins.map(plugin => plugin.getStrategyDefinition().type);
+
+    const undeclared = provided.filter(type => !manifest.strategyTypes.includes(type));
+    if (undeclared.length > 0) {
+      throw new Error(`${manifest.name} registers undeclared strategy types: ${undeclared.join(', ')}`);
+    }
+
+    const missing = manifest.strategyTypes.filter(type => !provided.includes(type));
+    if (missing.length > 0) {
+      throw new Error(`${manifest.name} declares strategy types it does not provide: ${missing.join(', ')}`);
+    }
+
+    for (const type of provided) {
+      if (!strategyRegistry.has(type)) continue;
+      const owner = this.manager.getPluginByStrategyType(type);
+      if (owner?.manifest?.name !== manifest.name) {
+        throw new Error(`Strategy type ${type} is already registered${owner ? ` by ${owner.name}` : ''}`);
+      }
+    }
+  }
+
+  private clearRequireCache(directory: string): void {
+    const prefix = directory + path.sep;
+    for (const key of Object.keys(require.cache)) {
+      if (key.startsWith(prefix)) {
+        delete require.cache[key];
+      }
+    }
+  }
+}
+
+function readJson(filePath: string): any {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`Could not read ${path.basename(filePath)}: ${error.message}`);
+  }
+}
+
+/**
+ * Same rules as StrategyRegistry.validateField, applied to plugin config
+ */
+function validateConfigField(field: StrategyFieldDefinition, value: any): string[] {
+  if (value === undefined || value === null) {
+    return field.required ? [`missing required field ${field.name}`] : [];
+  }
+
+  const errors: string[] = [];
+  const actualType = Array.isArray(value) ? 'array' : typeof value;
+  if (actualType !== field.type) {
+    errors.push(`${field.name} must be type ${field.type}, got ${actualType}`);
+    return errors;
+  }
+
+  const { min, max, pattern } = field.validation || {};
+  if (field.type === 'number') {
+    if (min !== undefined && value < min) errors.push(`${field.name} must be >= ${min}`);
+    if (max !== undefined && value > max) errors.push(`${field.name} must be <= ${max}`);
+  }
+  if (field.type === 'string' && pattern && !new RegExp(pattern).test(value)) {
+    errors.push(`${field.name} does not match pattern ${pattern}`);
+  }
+  return errors;
+}
+
+type Version = [number, number, number];
+
+function parseVersion(version: string): Version | null {
+  const match = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:[-+].*)?$/.exec(version.trim());
+  if (!match) return null;
+  return [Number(match[1]), Number(match[2] || 0), Number(match[3] || 0)];
+}
+
+function compareVersions(a: Version, b: Version): number {
+  for (let i = 0; i < 3; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
+}
+
+/**
+ * Minimal semver range check: "*", "x", exact, ^, ~, >, >=, <, <=,
+ * space-separated comparators (AND) and "||" alternatives
+ */
+export function satisfiesVersion(version: string, range: string): boolean {
+  const current = parseVersion(version);
+  if (!current) return false;
+
+  return range.split('||').some(alternative => {
+    const comparators = alternative.trim().split(/\s+/).filter(Boolean);
+    if (comparators.length === 0) return false;
+
+    return comparators.every(comparator => {
+      if (comparator === '*' || comparator.toLowerCase() === 'x') return true;
+
+      const match = /^(\^|~|>=|<=|>|<|=)?(.+)$/.exec(comparator);
+      const target = match && parseVersion(match[2]);
+      if (!match || !target) return false;
+
+      const diff = compareVersions(current, target);
+      switch (match[1]) {
+        case '^':
+          // ^1.2.3 := >=1.2.3 <2.0.0, ^0.2.3 := >=0.2.3 <0.3.0
+          if (diff < 0) return false;
+          return target[0] > 0
+            ? current[0] === target[0]
+            : current[0] === 0 && current[1] === target[1];
+        case '~':
+          return diff >= 0 && current[0] === target[0] && current[1] === target[1];
+        case '>=': return diff >= 0;
+        case '<=': return diff <= 0;
+        case '>': return diff > 0;
+        case '<': return diff < 0;
+        default: return diff === 0;
+      }
+    });
+  });
+}
+
+// Singleton instance
+export const strategyPluginLoader = new StrategyPluginLoader();
@@ -59,6 +59,17 @@ export class StrategyRegistry {
     console.log(`✅ [REGISTRY] Registered strategy: ${definition.displayName} (${definition.type})`);
   }
 
+  /**
+   * Remove a strategy type (used when its plugin is unloaded)
+   */
+  unregister(type: string): boolean {
+    const removed = this.strategies.delete(type);
+    if (removed) {
+      console.log(`🗑️ [REGISTRY] Unregistered strategy: ${type}`);
+    }
+    return removed;
+  }
+
   /**
    * Get strategy definition by type
    */
@@ -165,7 +176,8 @@ export class StrategyRegistry {
           for (const field of optionalFields) {
             prompt += `- \`${field.name}\` (${field.type}): ${field.description}`;
             if (field.defaultValue !== undefined) {
-              prompt += ` (default: ${field.defaultValue})`;
+              const defaultValue = typeof field.defaultValue === 'object' ? JSON.stringify(field.defaultValue) : field.defaultValue;
+              prompt += ` (default: ${defaultValue})`;
             }
             prompt += '\n';
           }
@@ -748,7 +760,7 @@ export class StrategyRegistry {
       category: 'trend',
       riskLevel: 'high',
       version: '1.0.0',
-      aiPromptHint: 'User wants to follow strong trends and breakouts.',
+      aiPromptHint: 'User wants to follow strong trends and breakouts. Entries can be confirmed with live indicators: set maxEntryRsi to skip overbought entries (e.g. "RSI below 70") and requireAboveEma when the user wants price above its moving average.',
       aiDetectionKeywords: [
         'momentum',
         'trend',
@@ -807,6 +819,23 @@ export class StrategyRegistry {
           validation: {
             min: 0.001
           }
+        },
+        {
+          name: 'maxEntryRsi',
+          type: 'number',
+          required: false,
+          description: 'Skip entries while RSI (live trade feed) is above this value',
+          validation: {
+            min: 1,
+            max: 100
+          }
+        },
+        {
+          name: 'requireAboveEma',
+          type: 'boolean',
+          required: false,
+          description: 'Only enter while price trades above its EMA (live trade feed)',
+          defaultValue: false
         }
       ],
       exampleConfig: {
@@ -830,7 +859,7 @@ export class StrategyRegistry {
       category: 'volatility',
       riskLevel: 'medium',
       version: '1.0.0',
-      aiPromptHint: 'User wants to trade price extremes and reversions to average.',
+      aiPromptHint: 'User wants to trade price extremes and reversions to average. Entries use Bollinger bands from the live trade feed: deviationThreshold is the band width in standard deviations over lookbackPeriod minutes. Set rsiOversold when the user also mentions RSI (e.g. "RSI below 30").',
       aiDetectionKeywords: [
         'mean reversion',
         'oversold',
@@ -866,7 +895,7 @@ export class StrategyRegistry {
           name: 'deviationThreshold',
           type: 'number',
           required: true,
-          description: 'Price deviation threshold (standard deviations or percentage)',
+          description: 'Bollinger band width in standard deviations below the lookback average',
           validation: {
             min: 0.1,
             max: 10
@@ -890,6 +919,26 @@ export class StrategyRegistry {
           validation: {
             min: 0.001
           }
+        },
+        {
+          name: 'rsiOversold',
+          type: 'number',
+          required: false,
+          description: 'Also require RSI at or below this value to enter',
+          validation: {
+            min: 1,
+            max: 100
+          }
+        },
+        {
+          name: 'stopLossPercentage',
+          type: 'number',
+          required: false,
+          description: 'Sell if price falls this far below the entry (percentage)',
+          validation: {
+            min: 0.1,
+            max: 100
+          }
         }
       ],
       exampleConfig: {
@@ -905,6 +954,628 @@ export class StrategyRegistry {
       }
     });
 
+    // 7. EXECUTION ALGORITHM (TWAP / VWAP)
+    this.register({
+      type: 'execution_algo',
+      displayName: 'TWAP / VWAP Execution',
+      description: 'Work one large buy or sell as many smaller randomized child orders, either evenly over time (TWAP) or as a share of market volume (VWAP), to limit price impact.',
+      category: 'timing',
+      riskLevel: 'low',
+      version: '1.0.0',
+      aiPromptHint: 'User wants to get a LARGE order filled without moving the price. Use mode "twap" with durationMinutes/slices for "spread over N minutes", or mode "vwap" with participationRate (0-1) for "follow the volume" / "10% of volume". totalAmount is SOL for buys and tokens for sells (set side).',
+      aiDetectionKeywords: [
+        'twap',
+        'vwap',
+        'time weighted',
+        'volume weighted',
+        'split the order',
+        'slice',
+        'large order',
+        'price impact',
+        'without moving the price',
+        'participation'
+      ],
+      exampleInputs: [
+        'Buy 20 SOL of this token over the next hour without moving the price',
+        'TWAP sell 5M tokens in 20 slices over 2 hours',
+        'VWAP buy 10 SOL at 10% of volume'
+      ],
+      recommendedFor: [
+        'Large orders on thin bonding curves',
+        'Accumulating or distributing a position',
+        'Reducing slippage'
+      ],
+      fields: [
+        {
+          name: 'tokenAddress',
+          type: 'string',
+          required: true,
+          description: 'Solana token address to trade',
+          validation: {
+            pattern: '^[1-9A-HJ-NP-Za-km-z]{32,44}$'
+          }
+        },
+        {
+          name: 'side',
+          type: 'string',
+          required: true,
+          description: 'buy or sell',
+          defaultValue: 'buy'
+        },
+        {
+          name: 'totalAmount',
+          type: 'number',
+          required: true,
+          description: 'Parent order size: SOL to spend (buy) or tokens to sell (sell)',
+          validation: {
+            min: 0.001
+          }
+        },
+        {
+          name: 'mode',
+          type: 'string',
+          required: false,
+          description: 'twap (evenly over time) or vwap (share of market volume)',
+          defaultValue: 'twap'
+        },
+        {
+          name: 'durationMinutes',
+          type: 'number',
+          required: false,
+          description: 'TWAP: spread the order over this many minutes',
+          validation: {
+            min: 1,
+            max: 1440
+          },
+          defaultValue: 30
+        },
+        {
+          name: 'slices',
+          type: 'number',
+          required: false,
+          description: 'TWAP: number of child orders',
+          validation: {
+            min: 1,
+            max: 40
+          },
+          defaultValue: 10
+        },
+        {
+          name: 'participationRate',
+          type: 'number',
+          required: false,
+          description: 'VWAP: fraction of market volume to trade each interval (0-1)',
+          validation: {
+            min: 0.01,
+            max: 1
+          },
+          defaultValue: 0.1
+        },
+        {
+          name: 'sizeJitterPercentage',
+          type: 'number',
+          required: false,
+          description: 'Randomize each child size by up to this percentage',
+          validation: {
+            min: 0,
+            max: 90
+          },
+          defaultValue: 20
+        },
+        {
+          name: 'maxImpactPercentage',
+          type: 'number',
+          required: false,
+          description: 'Halve later children when one moves the price more than this percentage',
+          validation: {
+            min: 0.1,
+            max: 100
+          },
+          defaultValue: 3
+        },
+        {
+          name: 'maxPriceDeviationPercentage',
+          type: 'number',
+          required: false,
+          description: 'Pause while price is this far against the arrival price (percentage)',
+          validation: {
+            min: 0.1,
+            max: 100
+          }
+        },
+        {
+          name: 'maxDurationMinutes',
+          type: 'number',
+          required: false,
+          description: 'Stop working the order after this many minutes',
+          validation: {
+            min: 1,
+            max: 1440
+          }
+        }
+      ],
+      exampleConfig: {
+        id: 'twap-buy-1730304000',
+        strategyType: 'execution_algo',
+        description: 'Buy 20 SOL in 12 slices over 60 minutes',
+        tokenAddress: '<YOUR_TOKEN_ADDRESS_HERE>',
+        side: 'buy',
+        mode: 'twap',
+        totalAmount: 20,
+        durationMinutes: 60,
+        slices: 12,
+        confidence: 1.0,
+        isComplete: true
+      }
+    });
+
+    // 8. LADDERED TAKE-PROFIT / SCALED ENTRY
+    this.register({
+      type: 'laddered_exit',
+      displayName: 'Laddered Take-Profit',
+      description: 'Scale into a position at one or more price levels, sell it in tranches at rising profit targets and let the rest ride a trailing stop. The stop moves to breakeven after the first take-profit.',
+      category: 'trend',
+      riskLevel: 'high',
+      version: '1.0.0',
+      aiPromptHint: 'User wants to take profits in PARTS ("sell 25% at +30%, 25% at +60%, trail the rest"). Put each partial exit in takeProfitLevels as { profitPercentage, sellPercentage } - sellPercentage is a share of the position and all of them must add up to LESS than 100 (the rest is the trailing-stop runner). For "buy in parts" / "add on dips" use entryLevels as { dropPercentage, allocationPercentage } with allocations adding up to 100 (dropPercentage 0 = buy now). buyAmountSOL is the total budget across all entries.',
+      aiDetectionKeywords: [
+        'ladder',
+        'laddered',
+        'tranche',
+        'take profit in parts',
+        'partial take profit',
+        'scale out',
+        'scale in',
+        'scaled entry',
+        'breakeven',
+        'trailing stop',
+        'moonbag',
+        'runner'
+      ],
+      exampleInputs: [
+        'Buy 1 SOL, sell 25% at +30%, 25% at +60% and trail the rest by 20%',
+        'Scale in with 0.5 SOL now and 0.5 SOL at -15%, take half off at 2x, move stop to breakeven',
+        'Ape 0.2 SOL, take profits in thirds at +50%, +100%, +200% and keep a moonbag'
+      ],
+      recommendedFor: [
+        'Memecoin entries',
+        'Locking in profit while keeping upside',
+        'Volatile tokens where timing the top is hard'
+      ],
+      fields: [
+        {
+          name: 'tokenAddress',
+          type: 'string',
+          required: true,
+          description: 'Solana token address to trade',
+          validation: {
+            pattern: '^[1-9A-HJ-NP-Za-km-z]{32,44}$'
+          }
+        },
+        {
+          name: 'buyAmountSOL',
+          type: 'number',
+          required: true,
+          description: 'Total SOL to invest across all entry levels',
+          validation: {
+            min: 0.001,
+            max: 100
+          }
+        },
+        {
+          name: 'takeProfitLevels',
+          type: 'array',
+          required: false,
+          description: 'Partial exits as [{ profitPercentage, sellPercentage }] (percent above average entry, percent of the position); sellPercentage total must stay below 100',
+          validation: {
+            customValidator: (levels: any[]) => levels.length > 0 && levels.length <= 6
+              && levels.every(l => l?.profitPercentage > 0 && l?.sellPercentage > 0)
+              && levels.reduce((sum, l) => sum + l.sellPercentage, 0) < 100
+          },
+          defaultValue: [
+            { profitPercentage: 30, sellPercentage: 25 },
+            { profitPercentage: 60, sellPercentage: 25 }
+          ]
+        },
+        {
+          name: 'trailingStopPercentage',
+          type: 'number',
+          required: false,
+          description: 'Trail the remaining position this far below its high once the first tranche is sold',
+          validation: {
+            min: 1,
+            max: 90
+          },
+          defaultValue: 20
+        },
+        {
+          name: 'stopLossPercentage',
+          type: 'number',
+          required: false,
+          description: 'Stop-loss below the average entry until the first take-profit (then breakeven)',
+          validation: {
+            min: 1,
+            max: 90
+          },
+          defaultValue: 25
+        },
+        {
+          name: 'entryLevels',
+          type: 'array',
+          required: false,
+          description: 'Scaled entry as [{ dropPercentage, allocationPercentage }] (percent below the start price, percent of buyAmountSOL); allocations must add up to 100 and every drop must be smaller than stopLossPercentage',
+          validation: {
+            customValidator: (levels: any[]) => levels.length > 0 && levels.length <= 6
+              && levels.every(l => l?.dropPercentage >= 0 && l?.allocationPercentage > 0)
+              && Math.abs(levels.reduce((sum, l) => sum + l.allocationPercentage, 0) - 100) <= 0.01
+          },
+          defaultValue: [{ dropPercentage: 0, allocationPercentage: 100 }]
+        },
+        {
+          name: 'moveStopToBreakeven',
+          type: 'boolean',
+          required: false,
+          description: 'Move the stop to the average entry after the first take-profit',
+          defaultValue: true
+        },
+        {
+          name: 'entryTimeoutMinutes',
+          type: 'number',
+          required: false,
+          description: 'Cancel if no entry level fills within this many minutes',
+          validation: {
+            min: 1,
+            max: 1440
+          }
+        },
+        {
+          name: 'checkIntervalSeconds',
+          type: 'number',
+          required: false,
+          description: 'Seconds between price checks',
+          validation: {
+            min: 1,
+            max: 3600
+          },
+          defaultValue: 10
+        }
+      ],
+      exampleConfig: {
+        id: 'ladder-1730304000',
+        strategyType: 'laddered_exit',
+        description: 'Buy 1 SOL, take 25% off at +30% and 25% at +60%, trail the rest by 20%',
+        tokenAddress: '<YOUR_TOKEN_ADDRESS_HERE>',
+        buyAmountSOL: 1,
+        takeProfitLevels: [
+          { profitPercentage: 30, sellPercentage: 25 },
+          { profitPercentage: 60, sellPercentage: 25 }
+        ],
+        trailingStopPercentage: 20,
+        stopLossPercentage: 25,
+        confidence: 1.0,
+        isComplete: true
+      }
+    });
+
+    // 9. PUMP.FUN LAUNCH SNIPER
+    this.register({
+      type: 'launch_sniper',
+      displayName: 'Launch Sniper',
+      description: 'Watch pump.fun for newly created tokens, buy the first launch that passes the filters (creator history, creator\'s initial buy, name/symbol pattern, metadata) and exit with take-profit tranches, a trailing stop, a stop-loss and a maximum hold time. Then wait for the next launch.',
+      category: 'timing',
+      riskLevel: 'extreme',
+      version: '1.0.0',
+      aiPromptHint: 'User wants to buy NEW pump.fun tokens as they launch - there is NO tokenAddress, the strategy picks launches itself. Map filters: "fresh dev"/"no serial deployers" -> maxCreatorLaunches (0 = creator\'s first token); "dev bought at least X SOL" -> minInitialBuySol; "only tokens named like X" -> namePattern/symbolPattern (case-insensitive regex); "skip X" -> excludePattern; "must have twitter/website/image" -> requireMetadata. buyAmountSOL is spent per launch; maxSnipes limits how many launches are traded.',
+      aiDetectionKeywords: [
+        'snipe',
+        'sniper',
+        'sniping',
+        'new launch',
+        'new launches',
+        'new tokens',
+        'fresh launch',
+        'just launched',
+        'token creation',
+        'dev buy',
+        'deployer'
+      ],
+      exampleInputs: [
+        'Snipe new pump.fun launches with 0.1 SOL if the dev bought at least 1 SOL',
+        'Buy every new token with "cat" in the name that has a twitter and website, take half at 2x',
+        'Snipe launches from first-time creators only, max 5 trades, exit after 15 minutes'
+      ],
+      recommendedFor: [
+        'Early entries on new pump.fun tokens',
+        'Filtering out serial rug deployers',
+        'Testing launch filters offline with a recorded launch tape'
+      ],
+      fields: [
+        {
+          name: 'buyAmountSOL',
+          type: 'number',
+          required: true,
+          description: 'SOL to spend on each launch',
+          validation: {
+            min: 0.001,
+            max: 100
+          }
+        },
+        {
+          name: 'maxCreatorLaunches',
+          type: 'number',
+          required: false,
+          description: 'Skip creators with more earlier launches than this (0 = first-time creators only)',
+          validation: {
+            min: 0,
+            max: 1000
+          }
+        },
+        {
+          name: 'minInitialBuySol',
+          type: 'number',
+          required: false,
+          description: 'Minimum SOL the creator bought in the launch transaction',
+          validation: {
+            min: 0,
+            max: 100
+          }
+        },
+        {
+          name: 'maxInitialBuySol',
+          type: 'number',
+          required: false,
+          description: 'Maximum SOL the creator bought in the launch transaction',
+          validation: {
+            min: 0,
+            max: 100
+          }
+        },
+        {
+          name: 'namePattern',
+          type: 'string',
+          required: false,
+          description: 'Case-insensitive regex the token name must match'
+        },
+        {
+          name: 'symbolPattern',
+          type: 'string',
+          required: false,
+          description: 'Case-insensitive regex the token symbol must match'
+        },
+        {
+          name: 'excludePattern',
+          type: 'string',
+          required: false,
+          description: 'Case-insensitive regex neither name nor symbol may match'
+        },
+        {
+          name: 'requireMetadata',
+          type: 'array',
+          required: false,
+          description: 'Metadata fields that must be filled in: name, symbol, description, image, twitter, telegram, website',
+          validation: {
+            customValidator: (fields: any[]) => fields.every(f => ['name', 'symbol', 'description', 'image', 'twitter', 'telegram', 'website'].includes(f))
+          }
+        },
+        {
+          name: 'maxLaunchAgeSeconds',
+          type: 'number',
+          required: false,
+          description: 'Skip launches older than this when they are evaluated',
+          validation: {
+            min: 1,
+            max: 3600
+          },
+          defaultValue: 30
+        },
+        {
+          name: 'takeProfitLevels',
+          type: 'array',
+          required: false,
+          description: 'Partial exits as [{ profitPercentage, sellPercentage }] (percent above entry, percent of the position); sellPercentage total must stay below 100',
+          validation: {
+            customValidator: (levels: any[]) => levels.length > 0 && levels.length <= 6
+              && levels.every(l => l?.profitPercentage > 0 && l?.sellPercentage > 0)
+              && levels.reduce((sum, l) => sum + l.sellPercentage, 0) < 100
+          },
+          defaultValue: [{ profitPercentage: 100, sellPercentage: 50 }]
+        },
+        {
+          name: 'trailingStopPercentage',
+          type: 'number',
+          required: false,
+          description: 'Trail the rest this far below its high once the first tranche is sold',
+          validation: {
+            min: 1,
+            max: 90
+          },
+          defaultValue: 25
+        },
+        {
+          name: 'stopLossPercentage',
+          type: 'number',
+          required: false,
+          description: 'Stop-loss below the entry until the first take-profit (then breakeven)',
+          validation: {
+            min: 1,
+            max: 90
+          },
+          defaultValue: 30
+        },
+        {
+          name: 'maxHoldMinutes',
+          type: 'number',
+          required: false,
+          description: 'Close whatever is left this many minutes after buying',
+          validation: {
+            min: 1,
+            max: 1440
+          },
+          defaultValue: 30
+        },
+        {
+          name: 'maxSnipes',
+          type: 'number',
+          required: false,
+          description: 'Stop after this many launches were traded (unlimited when omitted)',
+          validation: {
+            min: 1,
+            max: 1000
+          }
+        }
+      ],
+      exampleConfig: {
+        id: 'sniper-1730304000',
+        strategyType: 'launch_sniper',
+        description: 'Snipe first-time creators with a 1+ SOL dev buy and a twitter link, 0.1 SOL each',
+        buyAmountSOL: 0.1,
+        maxCreatorLaunches: 0,
+        minInitialBuySol: 1,
+        requireMetadata: ['twitter'],
+        takeProfitLevels: [{ profitPercentage: 100, sellPercentage: 50 }],
+        trailingStopPercentage: 25,
+        stopLossPercentage: 30,
+        maxHoldMinutes: 30,
+        confidence: 1.0,
+        isComplete: true
+      }
+    });
+
+    // 10. WALLET COPY TRADING
+    this.register({
+      type: 'copy_trading',
+      displayName: 'Wallet Copy Trading',
+      description: 'Follow one or more leader wallets and replicate their pump.fun, Raydium and Jupiter swaps. Entries are sized proportionally to the leader or at a fixed SOL amount and capped per token; entries seen too late or on blocklisted tokens are skipped. When a leader sells, the same share of the copied position is sold.',
+      category: 'trend',
+      riskLevel: 'high',
+      version: '1.0.0',
+      aiPromptHint: 'User wants to follow/copy specific wallets - there is NO tokenAddress, the leader\'s swaps pick the tokens. leaderWallets are the wallet addresses to copy. "copy X% of their size" -> sizingMode proportional with copyRatio = X/100; "buy 0.1 SOL whenever they buy" -> sizingMode fixed with fixedAmountSOL. maxPerTokenSOL caps the SOL put into one token. "ignore token X" -> blocklist; "only pump.fun" -> venues. maxDelaySeconds skips entries that are seen too late.',
+      aiDetectionKeywords: [
+        'copy trade',
+        'copy trading',
+        'copytrade',
+        'copy wallet',
+        'follow wallet',
+        'follow this wallet',
+        'mirror wallet',
+        'smart money',
+        'whale wallet',
+        'leader wallet'
+      ],
+      exampleInputs: [
+        'Copy this wallet with 10% of their size, max 1 SOL per token',
+        'Follow these two wallets and buy 0.2 SOL whenever they buy, sell when they sell',
+        'Copy trade this whale on pump.fun only, skip trades older than 5 seconds'
+      ],
+      recommendedFor: [
+        'Following profitable wallets',
+        'Replicating another trader\'s entries and exits with smaller size',
+        'Capping exposure per token while copying'
+      ],
+      fields: [
+        {
+          name: 'leaderWallets',
+          type: 'array',
+          required: true,
+          description: 'Wallet addresses to copy (up to 20)',
+          validation: {
+            customValidator: (wallets: any[]) => wallets.length > 0 && wallets.length <= 20
+              && wallets.every(w => typeof w === 'string' && /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(w))
+          }
+        },
+        {
+          name: 'sizingMode',
+          type: 'string',
+          required: false,
+          description: 'proportional (copyRatio of the leader\'s SOL) or fixed (fixedAmountSOL per entry)',
+          validation: {
+            customValidator: (mode: string) => mode === 'proportional' || mode === 'fixed'
+          },
+          defaultValue: 'proportional'
+        },
+        {
+          name: 'copyRatio',
+          type: 'number',
+          required: false,
+          description: 'Share of the leader\'s SOL to spend per entry (proportional sizing)',
+          validation: {
+            min: 0.001,
+            max: 100
+          },
+          defaultValue: 0.1
+        },
+        {
+          name: 'fixedAmountSOL',
+          type: 'number',
+          required: false,
+          description: 'SOL to spend per copied entry (fixed sizing)',
+          validation: {
+            min: 0.001,
+            max: 100
+          }
+        },
+        {
+          name: 'maxPerTokenSOL',
+          type: 'number',
+          required: true,
+          description: 'Maximum SOL invested in one token across copied entries',
+          validation: {
+            min: 0.001,
+            max: 1000
+          }
+        },
+        {
+          name: 'minTradeSOL',
+          type: 'number',
+          required: false,
+          description: 'Skip entries smaller than this after sizing and the per-token cap',
+          validation: {
+            min: 0,
+            max: 100
+          },
+          defaultValue: 0.001
+        },
+        {
+          name: 'maxDelaySeconds',
+          type: 'number',
+          required: false,
+          description: 'Skip leader entries seen later than this after their block (exits are always copied)',
+          validation: {
+            min: 1,
+            max: 3600
+          },
+          defaultValue: 15
+        },
+        {
+          name: 'blocklist',
+          type: 'array',
+          required: false,
+          description: 'Token mints that are never copied'
+        },
+        {
+          name: 'venues',
+          type: 'array',
+          required: false,
+          description: 'Venues to copy: pumpfun, raydium, jupiter (all when omitted)',
+          validation: {
+            customValidator: (venues: any[]) => venues.every(v => ['pumpfun', 'raydium', 'jupiter'].includes(v))
+          }
+        }
+      ],
+      exampleConfig: {
+        id: 'copy-1730304000',
+        strategyType: 'copy_trading',
+        description: 'Copy one wallet with 10% of its size, at most 1 SOL per token',
+        leaderWallets: ['9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM'],
+        sizingMode: 'proportional',
+        copyRatio: 0.1,
+        maxPerTokenSOL: 1,
+        maxDelaySeconds: 15,
+        confidence: 1.0,
+        isComplete: true
+      }
+    });
+
     const stats = this.getStats();
     console.log(`✅ [REGISTRY] Registered ${stats.totalStrategies} built-in strategies:`, stats);
   }
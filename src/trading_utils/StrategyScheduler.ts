@@ -0,0 +1,566 @@
+/**
+ * Strategy Scheduler
+ * Starts, pauses and stops strategies on time-of-day windows or cron expressions
+ *
+ * Schedules live in Postgres (strategy_schedules) and are reconciled every tick:
+ * the scheduler works out whether the strategy should be active right now and
+ * drives StrategyExecutionManager towards that. All times are UTC.
+ */
+
+import { Server as SocketServer } from 'socket.io';
+import type { StrategySchedule } from '../database/client';
+import {
+  saveStrategySchedule,
+  listStrategySchedules,
+  updateStrategyScheduleState,
+  deleteStrategySchedule,
+  UpdateStrategyScheduleStateInput,
+} from '../database/dal';
+import { strategyExecutionManager } from './StrategyExecutionManager';
+import { CronExpression, parseCronExpression } from './CronExpression';
+import { PaperTradingMode } from './paper-trading/types';
+import { awsLogger } from '../aws/logger';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const TICK_INTERVAL_MS = parseInt(process.env.STRATEGY_SCHEDULER_TICK_MS || '15000');
+const WINDOW_SCAN_DAYS = 400; // How far ahead to look for the next matching window
+const MAX_CRON_FIRES = 2000; // Per upcoming-runs computation
+
+/**
+ * Daily window, e.g. { days: [1,2,3,4,5], start: '13:00', end: '21:00' }
+ * days: 0 = Sunday (all days when omitted); end <= start wraps past midnight
+ */
+export interface ScheduleWindow {
+  days?: number[];
+  start: string;
+  end: string;
+}
+
+export type ScheduleOffWindowAction = 'pause' | 'stop';
+export type ScheduleState = 'idle' | 'active' | 'paused' | 'stopped' | 'completed';
+
+/**
+ * Options passed to startStrategy when the scheduler starts a run
+ */
+export interface ScheduleRunConfig {
+  restartDelay?: number;
+  enableTracking?: boolean;
+  initialBalanceSOL?: number;
+  paperTradingMode?: PaperTradingMode;
+  paperTradingSessionId?: string;
+}
+
+/**
+ * windows and cron are mutually exclusive; with neither the strategy runs
+ * for the whole startAt..endAt range ("run this DCA for 14 days")
+ */
+export interface StrategyScheduleInput {
+  windows?: ScheduleWindow[];
+  cron?: string;
+  durationMinutes?: number; // Required with cron: length of each run
+  startAt?: Date;
+  endAt?: Date;
+  offWindowAction?: ScheduleOffWindowAction;
+  runConfig?: ScheduleRunConfig;
+  enabled?: boolean;
+  userId?: string;
+  walletAddress?: string;
+}
+
+export interface ScheduledRun {
+  startsAt: string;
+  endsAt: string | null; // null = open-ended
+}
+
+export interface StrategyScheduleView {
+  strategyId: string;
+  enabled: boolean;
+  windows: ScheduleWindow[] | null;
+  cron: string | null;
+  durationMinutes: number | null;
+  startAt: string | null;
+  endAt: string | null;
+  offWindowAction: ScheduleOffWindowAction;
+  runConfig: ScheduleRunConfig;
+  state: ScheduleState;
+  runningId: string | null;
+  lastTransitionAt: string | null;
+  nextTransitionAt: string | null;
+  lastError: string | null;
+  upcoming: ScheduledRun[];
+}
+
+interface ParsedWindow {
+  days: Set<number> | null;
+  startMinute: number;
+  endMinute: number;
+}
+
+interface ScheduleEntry {
+  record: StrategySchedule;
+  windows: ParsedWindow[] | null;
+  cron: CronExpression | null;
+}
+
+type Interval = [number, number]; // [start, end) in epoch ms, end may be Infinity
+
+export class StrategyScheduler {
+  private schedules: Map<string, ScheduleEntry> = new Map();
+  private tickTimer?: NodeJS.Timeout;
+  private ticking = false;
+  private io?: SocketServer;
+
+  setWebSocketServer(io: SocketServer): void {
+    this.io = io;
+  }
+
+  /**
+   * Load persisted schedules and start ticking
+   * Call after StrategyExecutionManager.rehydrateStrategies() so runs it owns are back in memory
+   */
+  async start(): Promise<void> {
+    try {
+      const records = await listStrategySchedules();
+      for (const record of records) {
+        this.schedules.set(record.strategyId, this.toEntry(record));
+      }
+      console.log(`⏰ [StrategyScheduler] Loaded ${records.length} schedule(s)`);
+    } catch (error) {
+      awsLogger.warn('Failed to load strategy schedules', {
+        metadata: { error: error instanceof Error ? error.message : String(error) }
+      });
+    }
+
+    await this.tick();
+    if (!this.tickTimer) {
+      this.tickTimer = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+    }
+  }
+
+  stop(): void {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = undefined;
+    }
+  }
+
+  /**
+   * Create or replace a strategy's schedule
+   * A run the previous schedule started stays under scheduler control
+   */
+  async setSchedule(strategyId: string, input: StrategyScheduleInput): Promise<StrategyScheduleView> {
+    validateScheduleInput(input);
+    const windows = input.windows ? input.windows.map(parseWindow) : null;
+
+    const existing = this.schedules.get(strategyId)?.record;
+    const run = existing?.runningId ? strategyExecutionManager.getStrategyStatus(existing.runningId) : undefined;
+    const ownsLiveRun = !!run && (run.status === 'running' || run.status === 'paused');
+
+    const record = await saveStrategySchedule({
+      strategyId,
+      userId: input.userId,
+      walletAddress: input.walletAddress,
+      enabled: input.enabled !== false,
+      windows: input.windows as any,
+      cron: input.cron ?? null,
+      durationMinutes: input.durationMinutes ?? null,
+      startAt: input.startAt ?? null,
+      endAt: input.endAt ?? null,
+      offWindowAction: input.offWindowAction || 'pause',
+      runConfig: (input.runConfig || {}) as any,
+      runningId: ownsLiveRun ? existing!.runningId : null,
+      state: ownsLiveRun ? existing!.state : 'idle',
+    });
+
+    const entry: ScheduleEntry = { record, windows, cron: input.cron ? parseCronExpression(input.cron) : null };
+    this.schedules.set(strategyId, entry);
+
+    awsLogger.info('Strategy schedule saved', {
+      strategyId,
+      metadata: { cron: record.cron, windows: input.windows?.length || 0, endAt: record.endAt }
+    });
+
+    await this.reconcile(entry, Date.now());
+    this.broadcastUpcoming(entry);
+    return this.toView(entry);
+  }
+
+  /**
+   * Delete a schedule. The strategy is left in whatever state it is in
+   */
+  async removeSchedule(strategyId: string): Promise<boolean> {
+    const entry = this.schedules.get(strategyId);
+    try {
+      await deleteStrategySchedule(strategyId);
+    } catch (error) {
+      if (!entry) return false;
+      throw error;
+    }
+
+    this.schedules.delete(strategyId);
+    this.io?.emit('schedule:upcoming', { strategyId, upcoming: [], timestamp: new Date().toISOString() });
+    return true;
+  }
+
+  getSchedule(strategyId: string, count: number = 5): StrategyScheduleView | undefined {
+    const entry = this.schedules.get(strategyId);
+    return entry ? this.toView(entry, count) : undefined;
+  }
+
+  listSchedules(count: number = 5): StrategyScheduleView[] {
+    return Array.from(this.schedules.values()).map(entry => this.toView(entry, count));
+  }
+
+  /**
+   * Upcoming runs across all schedules, soonest first
+   */
+  getUpcomingRuns(count: number = 20): Array<ScheduledRun & { strategyId: string }> {
+    const now = Date.now();
+    const runs: Array<{ strategyId: string; start: number; end: number }> = [];
+
+    for (const entry of this.schedules.values()) {
+      if (!entry.record.enabled) continue;
+      for (const [start, end] of this.computeRuns(entry, now, count)) {
+        runs.push({ strategyId: entry.record.strategyId, start, end });
+      }
+    }
+
+    return runs
+      .sort((a, b) => a.start - b.start)
+      .slice(0, count)
+      .map(run => ({ strategyId: run.strategyId, ...toScheduledRun([run.start, run.end]) }));
+  }
+
+  private async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const now = Date.now();
+      for (const entry of this.schedules.values()) {
+        if (!entry.record.enabled) continue;
+        try {
+          await this.reconcile(entry, now);
+        } catch (error) {
+          console.error(`❌ [StrategyScheduler] Reconcile failed for ${entry.record.strategyId}:`, error);
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Move the strategy towards the state its schedule wants at `now`
+   */
+  private async reconcile(entry: ScheduleEntry, now: number): Promise<void> {
+    const { record } = entry;
+    if (!record.enabled) return;
+
+    const runs = this.computeRuns(entry, now, 1);
+    const current = runs[0];
+    const shouldBeActive = !!current && current[0] <= now;
+    const nextTransition = current ? (shouldBeActive ? current[1] : current[0]) : null;
+    const nextTransitionAt = nextTransition !== null && Number.isFinite(nextTransition) ? new Date(nextTransition) : null;
+
+    const run = record.runningId ? strategyExecutionManager.getStrategyStatus(record.runningId) : undefined;
+    const runStatus = run?.status;
+
+    if (!current) {
+      // Past endAt (or no window will ever match): stop and retire the schedule
+      if (runStatus === 'running' || runStatus === 'paused') {
+        await strategyExecutionManager.stopStrategy(record.runningId!);
+      }
+      await this.transition(entry, 'complete', { state: 'completed', enabled: false, nextTransitionAt: null });
+      return;
+    }
+
+    if (shouldBeActive) {
+      if (runStatus === 'paused' && record.state === 'paused') {
+        strategyExecutionManager.resumeStrategy(record.runningId!);
+        await this.transition(entry, 'resume', { state: 'active', nextTransitionAt });
+      } else if (record.state !== 'active') {
+        await this.startRun(entry, nextTransitionAt);
+      } else {
+        // Manually paused/stopped runs are left alone until the next window
+        await this.syncNextTransition(entry, nextTransitionAt);
+      }
+      return;
+    }
+
+    if (record.state === 'active') {
+      if (record.offWindowAction === 'stop') {
+        if (runStatus === 'running' || runStatus === 'paused') {
+          await strategyExecutionManager.stopStrategy(record.runningId!);
+        }
+        await this.transition(entry, 'stop', { state: 'stopped', nextTransitionAt });
+      } else {
+        if (runStatus === 'running') {
+          strategyExecutionManager.pauseStrategy(record.runningId!);
+        }
+        await this.transition(entry, 'pause', { state: runStatus === 'running' || runStatus === 'paused' ? 'paused' : 'stopped', nextTransitionAt });
+      }
+      return;
+    }
+
+    await this.syncNextTransition(entry, nextTransitionAt);
+  }
+
+  private async startRun(entry: ScheduleEntry, nextTransitionAt: Date | null): Promise<void> {
+    const { record } = entry;
+    const runConfig = (record.runConfig || {}) as ScheduleRunConfig;
+
+    // Don't leave the previous run dangling when a new window starts
+    const previous = record.runningId ? strategyExecutionManager.getStrategyStatus(record.runningId) : undefined;
+    if (previous && (previous.status === 'running' || previous.status === 'paused')) {
+      await strategyExecutionManager.stopStrategy(previous.id);
+    }
+
+    try {
+      const runningId = await strategyExecutionManager.startStrategy(
+        record.strategyId,
+        runConfig.restartDelay,
+        runConfig.enableTracking !== false,
+        runConfig.initialBalanceSOL,
+        runConfig.paperTradingMode || 'paper',
+        runConfig.paperTradingSessionId,
+        record.userId || undefined,
+        record.walletAddress || undefined
+      );
+      await this.transition(entry, 'start', { state: 'active', runningId, nextTransitionAt, lastError: null });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (record.lastError !== message) {
+        console.error(`❌ [StrategyScheduler] Could not start ${record.strategyId}: ${message}`);
+        awsLogger.error('Scheduled strategy start failed', {
+          strategyId: record.strategyId,
+          metadata: { error: message }
+        });
+        await this.persist(entry, { lastError: message, nextTransitionAt });
+      }
+    }
+  }
+
+  private async syncNextTransition(entry: ScheduleEntry, nextTransitionAt: Date | null): Promise<void> {
+    if (entry.record.nextTransitionAt?.getTime() !== nextTransitionAt?.getTime()) {
+      await this.persist(entry, { nextTransitionAt });
+    }
+  }
+
+  private async transition(
+    entry: ScheduleEntry,
+    action: 'start' | 'pause' | 'resume' | 'stop' | 'complete',
+    update: UpdateStrategyScheduleStateInput
+  ): Promise<void> {
+    await this.persist(entry, { ...update, lastTransitionAt: new Date() });
+
+    const { record } = entry;
+    console.log(`⏰ [StrategyScheduler] ${record.strategyId}: ${action} (${record.state})`);
+    awsLogger.info('Strategy schedule transition', {
+      strategyId: record.strategyId,
+      metadata: { action, state: record.state, runningId: record.runningId }
+    });
+
+    this.io?.emit('schedule:transition', {
+      strategyId: record.strategyId,
+      runningId: record.runningId,
+      action,
+      state: record.state,
+      nextTransitionAt: record.nextTransitionAt?.toISOString() ?? null,
+      timestamp: new Date().toISOString(),
+    });
+    this.broadcastUpcoming(entry);
+  }
+
+  /**
+   * Apply to the cached record and write through (best-effort, like execution checkpoints)
+   */
+  private async persist(entry: ScheduleEntry, update: UpdateStrategyScheduleStateInput): Promise<void> {
+    Object.assign(entry.record, update);
+    try {
+      await updateStrategyScheduleState(entry.record.strategyId, update);
+    } catch (error) {
+      awsLogger.warn('Failed to persist strategy schedule state', {
+        strategyId: entry.record.strategyId,
+        metadata: { error: error instanceof Error ? error.message : String(error) }
+      });
+    }
+  }
+
+  private broadcastUpcoming(entry: ScheduleEntry): void {
+    this.io?.emit('schedule:upcoming', {
+      strategyId: entry.record.strategyId,
+      state: entry.record.state,
+      upcoming: this.computeRuns(entry, Date.now(), 5).map(toScheduledRun),
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Activation intervals that end after `from`, clipped to startAt/endAt
+   */
+  private computeRuns(entry: ScheduleEntry, from: number, count: number): Interval[] {
+    const { record } = entry;
+    const startBound = record.startAt?.getTime() ?? -Infinity;
+    const endBound = record.endAt?.getTime() ?? Infinity;
+    if (from >= endBound) return [];
+
+    const horizon = Math.max(from, startBound);
+    let raw: Interval[];
+    if (entry.windows) {
+      raw = windowIntervals(entry.windows, horizon, count);
+    } else if (entry.cron) {
+      raw = cronIntervals(entry.cron, (record.durationMinutes || 0) * MINUTE_MS, horizon, count);
+    } else {
+      raw = [[Number.isFinite(startBound) ? startBound : record.createdAt.getTime(), Infinity]];
+    }
+
+    const runs: Interval[] = [];
+    for (const [start, end] of raw) {
+      const clipped: Interval = [Math.max(start, startBound), Math.min(end, endBound)];
+      if (clipped[1] > clipped[0] && clipped[1] > from) {
+        runs.push(clipped);
+      }
+      if (runs.length >= count) break;
+    }
+    return runs;
+  }
+
+  private toEntry(record: StrategySchedule): ScheduleEntry {
+    const windows = record.windows as unknown as ScheduleWindow[] | null;
+    return {
+      record,
+      windows: windows ? windows.map(parseWindow) : null,
+      cron: record.cron ? parseCronExpression(record.cron) : null,
+    };
+  }
+
+  private toView(entry: ScheduleEntry, count: number = 5): StrategyScheduleView {
+    const { record } = entry;
+    return {
+      strategyId: record.strategyId,
+      enabled: record.enabled,
+      windows: record.windows as unknown as ScheduleWindow[] | null,
+      cron: record.cron,
+      durationMinutes: record.durationMinutes,
+      startAt: record.startAt?.toISOString() ?? null,
+      endAt: record.endAt?.toISOString() ?? null,
+      offWindowAction: record.offWindowAction as ScheduleOffWindowAction,
+      runConfig: record.runConfig as ScheduleRunConfig,
+      state: record.state as ScheduleState,
+      runningId: record.runningId,
+      lastTransitionAt: record.lastTransitionAt?.toISOString() ?? null,
+      nextTransitionAt: record.nextTransitionAt?.toISOString() ?? null,
+      lastError: record.lastError,
+      upcoming: record.enabled ? this.computeRuns(entry, Date.now(), count).map(toScheduledRun) : [],
+    };
+  }
+}
+
+/**
+ * Throws with a readable message if the schedule can't be evaluated
+ */
+export function validateScheduleInput(input: StrategyScheduleInput): void {
+  if (input.windows && input.cron) {
+    throw new Error('Use either windows or cron, not both');
+  }
+  if (input.cron && !input.durationMinutes) {
+    throw new Error('durationMinutes is required with cron');
+  }
+  if (input.startAt && input.endAt && input.endAt <= input.startAt) {
+    throw new Error('endAt must be after startAt');
+  }
+  input.windows?.forEach(parseWindow);
+  if (input.cron) parseCronExpression(input.cron);
+}
+
+function parseWindow(window: ScheduleWindow): ParsedWindow {
+  const toMinute = (value: string, field: string): number => {
+    const match = /^(\d{2}):(\d{2})$/.exec(value);
+    const minute = match ? Number(match[1]) * 60 + Number(match[2]) : NaN;
+    if (!match || Number(match[2]) > 59 || minute > 24 * 60) {
+      throw new Error(`Invalid window ${field} "${value}": expected HH:MM (UTC)`);
+    }
+    return minute;
+  };
+
+  if (window.days && (window.days.length === 0 || window.days.some(d => !Number.isInteger(d) || d < 0 || d > 6))) {
+    throw new Error('Window days must be a non-empty list of 0-6 (0 = Sunday)');
+  }
+
+  return {
+    days: window.days ? new Set(window.days) : null,
+    startMinute: toMinute(window.start, 'start'),
+    endMinute: toMinute(window.end, 'end'),
+  };
+}
+
+/**
+ * Merged window occurrences, starting with the one that contains `from` (if any)
+ */
+function windowIntervals(windows: ParsedWindow[], from: number, count: number): Interval[] {
+  const merged: Interval[] = [];
+  const firstDay = Math.floor(from / DAY_MS) * DAY_MS - DAY_MS; // Yesterday's overnight window may still be open
+
+  for (let d = 0; d < WINDOW_SCAN_DAYS; d++) {
+    const dayStart = firstDay + d * DAY_MS;
+    const weekday = new Date(dayStart).getUTCDay();
+
+    const today = windows
+      .filter(w => !w.days || w.days.has(weekday))
+      .map((w): Interval => {
+        const start = dayStart + w.startMinute * MINUTE_MS;
+        let end = dayStart + w.endMinute * MINUTE_MS;
+        if (end <= start) end += DAY_MS;
+        return [start, end];
+      })
+      .sort((a, b) => a[0] - b[0]);
+
+    for (const interval of today) {
+      mergeInto(merged, interval);
+    }
+
+    // The last interval may still grow, so stop once there is one beyond `count`
+    if (merged.filter(([, end]) => end > from).length > count) break;
+  }
+
+  return merged.filter(([, end]) => end > from);
+}
+
+/**
+ * Each fire opens a run of `durationMs`; overlapping runs merge
+ */
+function cronIntervals(cron: CronExpression, durationMs: number, from: number, count: number): Interval[] {
+  const merged: Interval[] = [];
+  let cursor = from - durationMs;
+
+  for (let i = 0; i < MAX_CRON_FIRES; i++) {
+    const fire = cron.next(cursor);
+    if (fire === null) break;
+    mergeInto(merged, [fire, fire + durationMs]);
+    cursor = fire;
+    if (merged.length > count) break;
+  }
+
+  return merged.filter(([, end]) => end > from);
+}
+
+function mergeInto(merged: Interval[], interval: Interval): void {
+  const last = merged[merged.length - 1];
+  if (last && interval[0] <= last[1]) {
+    last[1] = Math.max(last[1], interval[1]);
+  } else {
+    merged.push([interval[0], interval[1]]);
+  }
+}
+
+function toScheduledRun([start, end]: Interval): ScheduledRun {
+  return {
+    startsAt: new Date(start).toISOString(),
+    endsAt: Number.isFinite(end) ? new Date(end).toISOString() : null,
+  };
+}
+
+// Singleton instance
+export const strategyScheduler = new StrategyScheduler();
@@ -8,7 +8,11 @@
  */
 
 import { timeStamp } from 'console';
-import { Strategy, StrategyStep, strategyBuilder } from './StrategyBuilder';
+import { MAX_STEPS_PER_EXECUTION, Strategy, StrategyStep, strategyBuilder } from './StrategyBuilder';
+import { INDICATOR_CONFIG } from './config';
+import { indicatorEngine } from './indicators';
+import { LaunchFilterCriteria, validateLaunchCriteria } from './launches';
+import { WalletSwapVenue, validateLeaderTradeFilter } from './copytrading';
 
 
 export interface StrategyTemplateConfig {
@@ -60,6 +64,14 @@ export function createDCAStrategy(config: {
     throw new Error(`[createDCAStrategy] Invalid ${config.side || 'buy'} amount: ${amount}. Must be a positive number.`);
   }
 
+  // One execution walks loop -> [price -> amount ->] trade -> total -> count -> notify -> wait, and a single
+  // executeStrategy run stops at MAX_STEPS_PER_EXECUTION steps (the final loop check and stop take two more),
+  // so larger counts could never finish. Failed attempts use up steps too, and unlimited DCAs hit the same guard.
+  const maxCount = Math.floor((MAX_STEPS_PER_EXECUTION - 2) / (config.side === 'sell' ? 8 : 6));
+  if (count !== undefined && count !== null && count > maxCount) {
+    throw new Error(`[createDCAStrategy] Invalid ${config.side || 'buy'} count: ${count}. At most ${maxCount} executions fit in one run.`);
+  }
+
   console.log(`[createDCAStrategy] Validated amount: ${amount} SOL, count: ${count === undefined ? 'unlimited' : count}`);
 
   // If count is defined, use it. Otherwise, use maxTotalInvestmentSOL or default to large number for risk limits
@@ -72,7 +84,12 @@ export function createDCAStrategy(config: {
   const strategy = strategyBuilder.createStrategy(
     config.id,
     `DCA ${config.side?.toUpperCase()} Strategy - ${amount} SOL every ${config.intervalMinutes}min${countDescription}`,
-    `Dollar Cost Averaging ${config.side} strategy ${config.side === 'sell' ? 'selling' : 'buying'} ${amount} SOL worth of tokens every ${config.intervalMinutes} minutes${count ? ` for ${count} executions` : ` until manually stopped`}.`
+    `Dollar Cost Averaging ${config.side} strategy ${config.side === 'sell' ? 'selling' : 'buying'} ${amount} SOL worth of tokens every ${config.intervalMinutes} minutes${count ? ` for ${count} executions` : ` until manually stopped`}.`,
+    {
+      executionCount: 0,
+      ...(config.side === 'sell' ? { totalSold: 0, sellAmountSOL: amount } : { totalInvested: 0, buyAmountSOL: amount }),
+      ...(config.tokenAddress && { tokenAddress: config.tokenAddress }),
+    }
   );
 
   // Update risk limits for DCA strategy
@@ -83,93 +100,29 @@ export function createDCAStrategy(config: {
     takeProfitPercentage: config.targetProfitPercentage || (config.side === 'sell' ? 50 : 100),
   });
 
-  // Main DCA loop
-  const steps: StrategyStep[] = [
-    {
-      id: 'check_investment_limit',
-      type: 'condition' as const,
-      condition: 'custom' as const,
-      customCondition: (context: any) => {
-        console.log(`🔍 [DEBUG DCA check_investment_limit] Entry - stop flag: ${context.variables._shouldStop}`);
-
-        //  Check stop flag FIRST before any other logic
-        if (context.variables._shouldStop === true) {
-          console.log(`🛑 [DCA STRATEGY] Stop requested - exiting after ${context.variables.executionCount || 0} executions`);
-          return false; // Exit strategy immediately
-        }
-
-        // Initialize execution counter and other variables
-        if (!context.variables.executionCount) {
-          context.variables.executionCount = 0;
-          context.variables.totalInvested = 0;
-
-          // Initialize tokenAddress from config
-          if (config.tokenAddress) {
-            context.variables.tokenAddress = config.tokenAddress;
-            console.log(`🎯 [DCA INIT] Token address set: ${config.tokenAddress}`);
-          }
-
-          // Handle both buy and sell strategies
-          if (config.side === 'sell' && config.sellAmountSOL) {
-            context.variables.sellAmountSOL = config.sellAmountSOL;
-            const countMsg = config.sellCount ? `${config.sellCount} times` : 'until manually stopped';
-            //console.log(`DCA SELL Strategy initialized: Will sell ${config.sellAmountSOL} SOL worth ${countMsg}`);
-          } else if (config.buyAmountSOL) {
-            context.variables.buyAmountSOL = config.buyAmountSOL;
-            const countMsg = config.buyCount ? `${config.buyCount} times` : 'until manually stopped';
-            // console.log(`DCA BUY Strategy initialized: Will buy ${config.buyAmountSOL} SOL ${countMsg}`);
-          }
-
-          //  ADD THIS VALIDATION LOGGING
-          /* console.log(`[check_investment_limit] Context variables initialized:`, {
-             executionCount: context.variables.executionCount,
-             buyAmountSOL: context.variables.buyAmountSOL,
-             sellAmountSOL: context.variables.sellAmountSOL,
-             totalInvested: context.variables.totalInvested,
-             configBuyAmount: config.buyAmountSOL,
-             configSellAmount: config.sellAmountSOL
-           });*/
-        }
-
-        // ===== Only check count if it's defined =====
-        const count = config.side === 'sell' ? config.sellCount : config.buyCount;
-        if (count !== undefined && count !== null) {
-          const canContinue = context.variables.executionCount < count;
-          const action = config.side === 'sell' ? 'sells' : 'buys';
-
-          console.log(`🔍 [DCA LIMIT CHECK] Execution ${context.variables.executionCount}/${count} ${action}`, {
-            executionCount: context.variables.executionCount,
-            limit: count,
-            canContinue,
-            willStop: !canContinue
-          });
-
-          if (!canContinue) {
-            console.log(`✅ [DCA COMPLETE] Reached limit: ${context.variables.executionCount} of ${count} ${action} completed`);
-          }
-          return canContinue;
-        }
+  const side = config.side === 'sell' ? 'sell' : 'buy';
+  const hasCount = count !== undefined && count !== null;
+  const totalVariable = side === 'sell' ? 'totalSold' : 'totalInvested';
 
-        // If no count specified, continue indefinitely (until manually stopped)
-        // Only check max investment for buy strategies without count
-        if (config.side !== 'sell' && config.maxTotalInvestmentSOL) {
-          const currentInvested = context.variables.totalInvested || 0;
-          const canContinue = currentInvested < config.maxTotalInvestmentSOL;
-          if (!canContinue) {
-            // console.log(` DCA BUY Strategy completed: Reached max investment of ${config.maxTotalInvestmentSOL} SOL`);
-          }
-          return canContinue;
-        }
+  // The loop counts executions rather than arrivals, since failed trades also come back through it.
+  // Without a count, buy strategies stop at maxTotalInvestmentSOL (if set), otherwise run until stopped
+  const until = hasCount
+    ? `vars.executionCount >= ${count}`
+    : side === 'buy' && config.maxTotalInvestmentSOL
+      ? `vars.totalInvested >= ${config.maxTotalInvestmentSOL}`
+      : undefined;
 
-        // For unlimited strategies, always return true (runs until manually stopped)
-        console.log(`🔍 [DEBUG DCA check_investment_limit] Returning true (unlimited strategy)`);
-        return true;
-      },
-      onSuccess: config.side === 'sell' ? 'get_current_price_for_sell' : 'dca_buy',
-      onFailure: 'strategy_complete',
-      description: 'Check if we should continue executing'
+  // Main DCA loop: loop -> trade -> count -> wait -> loop (failures: wait -> loop)
+  const steps: StrategyStep[] = [
+    {
+      id: 'dca_loop',
+      type: 'loop',
+      until,
+      bodyStepId: side === 'sell' ? 'get_current_price_for_sell' : 'dca_buy',
+      onSuccess: 'strategy_complete',
+      description: `Repeat the ${side}${hasCount ? ` ${count} times` : ' until manually stopped'}`
     },
-    ...(config.side === 'sell' ? [
+    ...(side === 'sell' ? [
 
       // DCA SELL steps for sell strategies
       {
@@ -181,29 +134,11 @@ export function createDCAStrategy(config: {
       },
       {
         id: 'calculate_sell_amount',
-        type: 'condition' as const,
-        condition: 'custom' as const,
-        customCondition: (context: any) => {
-          if (config.side !== 'sell') return false;
-
-          const currentPrice = context.stepResults.get_current_price_for_sell?.data?.price;
-          const sellAmountSOL = config.sellAmountSOL;
-
-          if (!currentPrice || !sellAmountSOL) {
-            // console.log(` DCA SELL: Missing price or sell amount`);
-            return false;
-          }
-
-          // Calculate token amount to sell based on SOL amount and current price
-          const tokenAmountToSell = sellAmountSOL;
-          context.variables.tokenAmountToSell = tokenAmountToSell;
-
-          //console.log(` DCA SELL: Selling ${tokenAmountToSell.toFixed(6)} tokens worth ${sellAmountSOL} SOL at ${currentPrice} price`);
-          return true;
-        },
+        type: 'setVariable' as const,
+        variable: 'tokenAmountToSell',
+        value: config.sellAmountSOL,
         onSuccess: 'dca_sell',
-        onFailure: 'handle_sell_failure',
-        description: 'Calculate token amount to sell based on SOL value'
+        description: 'Set token amount for the dynamic sell'
       },
       {
         id: 'dca_sell',
@@ -212,71 +147,65 @@ export function createDCAStrategy(config: {
         onSuccess: 'update_amount',
         onFailure: 'handle_sell_failure',
         description: `Sell tokens worth ${config.sellAmountSOL} SOL`
+      },
+      {
+        id: 'handle_sell_failure',
+        type: 'wait' as const,
+        durationMs: 60000, // Wait 1 minute on failure
+        onSuccess: 'dca_loop',
+        description: 'Wait after sell failure, then retry through the loop check'
+      }
+    ] : [
+      {
+        id: 'dca_buy',
+        type: 'buy' as const,
+        amountInSol: config.buyAmountSOL!,
+        onSuccess: 'update_amount',
+        onFailure: 'handle_buy_failure',
+        description: `Buy ${config.buyAmountSOL} SOL worth of tokens`
+      },
+      {
+        id: 'handle_buy_failure',
+        type: 'wait' as const,
+        durationMs: 60000, // Wait 1 minute on failure
+        onSuccess: 'dca_loop',
+        description: 'Wait after buy failure, then retry through the loop check'
       }
-    ] : [{
-      id: 'dca_buy',
-      type: 'buy' as const,
-      amountInSol: config.buyAmountSOL!,
-      onSuccess: 'update_amount',
-      onFailure: 'handle_buy_failure',
-      description: `Buy ${config.buyAmountSOL} SOL worth of tokens`
-    }]),
+    ]),
     {
       id: 'update_amount',
-      type: 'condition' as const,
-      condition: 'custom' as const,
-      customCondition: (context: any) => {
-        // Increment execution counter
-        context.variables.executionCount = (context.variables.executionCount || 0) + 1;
-
-        if (config.side === 'sell' && config.sellAmountSOL) {
-          context.variables.totalSold = (context.variables.totalSold || 0) + config.sellAmountSOL;
-          const countMsg = config.sellCount ? `/${config.sellCount}` : ' (unlimited)';
-          console.log(`📊 [DCA SELL] Progress: ${context.variables.executionCount}${countMsg} executions, ${context.variables.totalSold.toFixed(2)} SOL sold`);
-        } else if (config.buyAmountSOL) {
-          context.variables.totalInvested = (context.variables.totalInvested || 0) + config.buyAmountSOL;
-          const countMsg = config.buyCount ? `/${config.buyCount}` : ' (unlimited)';
-          console.log(`📊 [DCA BUY] Progress: ${context.variables.executionCount}${countMsg} executions, ${context.variables.totalInvested.toFixed(4)} SOL invested`);
-        }
-
-        return true;
-      },
-      onSuccess: 'wait_interval',
+      type: 'setVariable',
+      variable: totalVariable,
+      increment: amount,
+      onSuccess: 'count_execution',
       description: 'Update total amount'
     },
     {
-      id: 'wait_interval',
-      type: 'wait',
-      durationMs: config.intervalMinutes * 60 * 1000,
-      onSuccess: 'check_investment_limit',
-      description: `Wait ${config.intervalMinutes} minutes before next ${config.side === 'sell' ? 'sell' : 'buy'}`
+      id: 'count_execution',
+      type: 'setVariable',
+      variable: 'executionCount',
+      increment: 1,
+      onSuccess: 'report_progress',
+      description: 'Increment execution counter'
     },
     {
-      id: 'handle_buy_failure',
-      type: 'wait',
-      durationMs: 60000, // Wait 1 minute on failure
-      onSuccess: 'check_investment_limit',
-      description: 'Wait after buy failure before retrying'
+      id: 'report_progress',
+      type: 'notify',
+      message: `DCA ${side.toUpperCase()} progress: {{vars.executionCount}}${hasCount ? `/${count}` : ' (unlimited)'} executions, {{round(vars.${totalVariable}, 4)}} SOL ${side === 'sell' ? 'sold' : 'invested'}`,
+      onSuccess: 'wait_interval',
+      description: 'Report progress'
     },
     {
-      id: 'handle_sell_failure',
+      id: 'wait_interval',
       type: 'wait',
-      durationMs: 60000, // Wait 1 minute on failure
-      onSuccess: 'check_investment_limit',
-      description: 'Wait after sell failure before retrying'
+      durationMs: config.intervalMinutes * 60 * 1000,
+      onSuccess: 'dca_loop',
+      description: `Wait ${config.intervalMinutes} minutes before next ${side}`
     },
     {
       id: 'strategy_complete',
-      type: 'condition' as const,
-      condition: 'custom' as const,
-      customCondition: () => {
-        if (config.side === 'sell') {
-          console.log(` DCA SELL Strategy Complete`);
-        } else {
-          console.log(` DCA BUY Strategy Complete`);
-        }
-        return false; // Returning false stops the strategy
-      },
+      type: 'stop',
+      reason: `DCA ${side.toUpperCase()} strategy complete`,
       description: 'DCA strategy completed successfully'
     }
   ];
@@ -462,6 +391,391 @@ export function createDCASellStrategy(config: {
   return strategyBuilder.getStrategy(config.id)!;
 }
 
+// StrategyBuilder caps one execution at 1000 steps; each child order takes ~15
+const MAX_EXECUTION_SLICES = 40;
+
+/**
+ * Execution Algorithm (TWAP / VWAP) Template
+ * Works a large parent order as randomized child orders instead of one price-moving trade.
+ * - twap: `slices` children spread evenly over `durationMinutes`
+ * - vwap: every check interval, trades `participationRate` of the SOL volume seen in the last minute
+ * A child that moves the price more than maxImpactPercentage halves later children (they grow back
+ * while impact stays low); maxPriceDeviationPercentage pauses while price runs away from arrival.
+ * Prices are sampled with getPrice (SOL per token) before and after each child; their midpoint is
+ * the fill estimate behind the completion report (average fill vs arrival price).
+ * Amounts are SOL for buys and tokens for sells. Expression-only, so it runs in paper and live modes.
+ */
+export function createExecutionAlgoStrategy(config: {
+  id: string;
+  tokenAddress: string;
+  totalAmount: number;
+  side?: 'buy' | 'sell';
+  mode?: 'twap' | 'vwap';
+  durationMinutes?: number; // TWAP window (default 30)
+  slices?: number; // TWAP child count (default 10)
+  participationRate?: number; // VWAP share of market volume, 0-1 (default 0.1)
+  checkIntervalSeconds?: number; // VWAP sampling interval (default 60)
+  minChildAmount?: number;
+  maxChildAmount?: number;
+  sizeJitterPercentage?: number; // Random +/- variation of each child (default 20)
+  maxImpactPercentage?: number; // Default 3
+  maxPriceDeviationPercentage?: number;
+  maxDurationMinutes?: number; // Give up after this long (default 2x the TWAP window, 60 for VWAP)
+  maxChildFailures?: number; // Default 3
+  description?: string;
+}): Strategy {
+  const side = config.side === 'sell' ? 'sell' : 'buy';
+  const mode = config.mode === 'vwap' ? 'vwap' : 'twap';
+  const unit = side === 'buy' ? 'SOL' : 'tokens';
+
+  if (!config.tokenAddress) {
+    throw new Error('[createExecutionAlgoStrategy] tokenAddress is required');
+  }
+  if (!(config.totalAmount > 0)) {
+    throw new Error(`[createExecutionAlgoStrategy] Invalid totalAmount: ${config.totalAmount}. Must be a positive number.`);
+  }
+
+  const durationMinutes = config.durationMinutes ?? 30;
+  const slices = Math.round(config.slices ?? 10);
+  const participationRate = config.participationRate ?? 0.1;
+  const checkIntervalSeconds = config.checkIntervalSeconds ?? 60;
+  if (mode === 'twap' && (!(durationMinutes > 0) || slices < 1 || slices > MAX_EXECUTION_SLICES)) {
+    throw new Error(`[createExecutionAlgoStrategy] TWAP needs durationMinutes > 0 and 1-${MAX_EXECUTION_SLICES} slices`);
+  }
+  if (mode === 'vwap' && (!(participationRate > 0) || participationRate > 1 || !(checkIntervalSeconds > 0))) {
+    throw new Error('[createExecutionAlgoStrategy] VWAP needs participationRate between 0 and 1 and checkIntervalSeconds > 0');
+  }
+
+  const baseChild = mode === 'twap' ? config.totalAmount / slices : config.totalAmount / MAX_EXECUTION_SLICES;
+  const minChild = config.minChildAmount ?? (mode === 'twap' ? baseChild / 4 : baseChild);
+  const maxChild = config.maxChildAmount ?? (mode === 'twap' ? config.totalAmount : config.totalAmount / 4);
+  if (!(minChild > 0) || maxChild < minChild) {
+    throw new Error('[createExecutionAlgoStrategy] minChildAmount must be positive and not above maxChildAmount');
+  }
+
+  const sizeJitterPercentage = config.sizeJitterPercentage ?? 20;
+  if (sizeJitterPercentage < 0 || sizeJitterPercentage >= 100) {
+    throw new Error('[createExecutionAlgoStrategy] sizeJitterPercentage must be between 0 and 100');
+  }
+
+  const intervalMs = mode === 'twap' ? (durationMinutes * 60 * 1000) / slices : checkIntervalSeconds * 1000;
+  const maxDurationMinutes = config.maxDurationMinutes ?? (mode === 'twap' ? durationMinutes * 2 : 60);
+  const maxImpactPercentage = config.maxImpactPercentage ?? 3;
+  const hasDeviationGuard = config.maxPriceDeviationPercentage !== undefined;
+  const modeLabel = mode.toUpperCase();
+  const amountVariable = side === 'buy' ? 'solAmountToBuy' : 'tokenAmountToSell';
+
+  strategyBuilder.createStrategy(
+    config.id,
+    `${modeLabel} ${side.toUpperCase()} - ${config.totalAmount} ${unit}`,
+    config.description || (mode === 'twap'
+      ? `${side === 'buy' ? 'Buy' : 'Sell'} ${config.totalAmount} ${unit} in ${slices} randomized child orders over ${durationMinutes} minutes`
+      : `${side === 'buy' ? 'Buy' : 'Sell'} ${config.totalAmount} ${unit} at ${participationRate * 100}% of market volume`),
+    {
+      tokenAddress: config.tokenAddress,
+      executionSide: side,
+      executionMode: mode,
+      totalAmount: config.totalAmount,
+      remaining: config.totalAmount,
+      filledAmount: 0,
+      fillWeight: 0, // Buys: sum of SOL / fill price
+      fillNotional: 0, // Sells: sum of tokens * fill price
+      childOrders: 0,
+      failedChildren: 0,
+      sizeScale: 1,
+      baseChild,
+      minChild,
+      maxChild,
+      sizeJitter: sizeJitterPercentage / 100,
+      participationRate,
+      intervalSeconds: intervalMs / 1000,
+      maxImpactPercentage,
+      maxChildFailures: config.maxChildFailures ?? 3,
+      ...(hasDeviationGuard && { maxPriceDeviationPercentage: config.maxPriceDeviationPercentage }),
+    }
+  );
+
+  if (side === 'buy') {
+    strategyBuilder.updateRiskLimits(config.id, {
+      maxPositionSizeSOL: config.totalAmount,
+    });
+  }
+
+  const jitter = '(1 + random(-vars.sizeJitter, vars.sizeJitter))';
+  const targetChild = mode === 'twap'
+    ? `max(vars.minChild, vars.baseChild * vars.sizeScale * ${jitter})`
+    : `volume1m * vars.intervalSeconds / 60 * vars.participationRate * vars.sizeScale * ${jitter}` +
+      (side === 'sell' ? ' / steps.child_price.data.price' : '');
+  const adverseMove = side === 'buy'
+    ? 'pct(steps.child_price.data.price, vars.arrivalPrice) > vars.maxPriceDeviationPercentage'
+    : 'pct(steps.child_price.data.price, vars.arrivalPrice) < -vars.maxPriceDeviationPercentage';
+
+  const steps: StrategyStep[] = [
+    {
+      id: 'get_arrival_price',
+      type: 'getPrice',
+      onSuccess: 'record_arrival',
+      onFailure: 'retry_arrival_price',
+      description: 'Sample the arrival price'
+    },
+    {
+      id: 'retry_arrival_price',
+      type: 'wait',
+      durationMs: 5000,
+      onSuccess: 'get_arrival_price',
+      description: 'Wait before retrying the arrival price'
+    },
+    {
+      id: 'record_arrival',
+      type: 'setVariable',
+      variable: 'arrivalPrice',
+      expression: 'steps.get_arrival_price.data.price',
+      onSuccess: 'set_deadline',
+      description: 'Remember the arrival price (SOL per token)'
+    },
+    {
+      id: 'set_deadline',
+      type: 'setVariable',
+      variable: 'deadlineAt',
+      expression: `now + ${maxDurationMinutes * 60 * 1000}`,
+      onSuccess: 'execution_loop',
+      description: `Give up after ${maxDurationMinutes} minutes`
+    },
+    {
+      id: 'execution_loop',
+      type: 'loop',
+      until: 'vars.remaining <= 0 || now >= vars.deadlineAt || vars.failedChildren >= vars.maxChildFailures',
+      bodyStepId: 'child_price',
+      onSuccess: 'compute_avg_fill',
+      description: `Work the parent order until it is filled, ${maxDurationMinutes} minutes pass or children keep failing`
+    },
+    {
+      id: 'child_price',
+      type: 'getPrice',
+      onSuccess: hasDeviationGuard ? 'check_deviation' : 'size_child',
+      onFailure: 'wait_interval',
+      description: 'Sample the price before the child order'
+    },
+    ...(hasDeviationGuard ? [{
+      id: 'check_deviation',
+      type: 'branch' as const,
+      branches: [{ when: adverseMove, goto: 'wait_interval' }],
+      onSuccess: 'size_child',
+      description: `Pause while price is more than ${config.maxPriceDeviationPercentage}% against the arrival price`
+    }] : []),
+    {
+      id: 'size_child',
+      type: 'setVariable',
+      variable: amountVariable,
+      expression: `min(vars.remaining, vars.maxChild, ${targetChild})`,
+      onSuccess: 'snap_child',
+      onFailure: 'wait_interval',
+      description: mode === 'twap' ? 'Size the next slice (randomized)' : 'Size the next child from recent market volume (randomized)'
+    },
+    {
+      id: 'snap_child',
+      type: 'setVariable',
+      variable: amountVariable,
+      expression: `vars.${amountVariable} > 0 && vars.remaining - vars.${amountVariable} < vars.minChild ? vars.remaining : vars.${amountVariable}`,
+      onSuccess: 'check_child',
+      description: 'Fold a leftover smaller than the minimum child into this one'
+    },
+    {
+      id: 'check_child',
+      type: 'condition',
+      condition: 'expression',
+      expression: `vars.${amountVariable} > 0 && (vars.${amountVariable} >= vars.minChild || vars.${amountVariable} >= vars.remaining)`,
+      onSuccess: 'child_order',
+      onFailure: 'wait_interval',
+      description: 'Skip this interval if the child is below the minimum size'
+    },
+    side === 'buy'
+      ? {
+        id: 'child_order',
+        type: 'buy',
+        amountInSol: -1,
+        onSuccess: 'post_child_price',
+        onFailure: 'count_failure',
+        description: 'Buy the child order (solAmountToBuy)'
+      }
+      : {
+        id: 'child_order',
+        type: 'sell',
+        amountToSell: -1,
+        onSuccess: 'post_child_price',
+        onFailure: 'count_failure',
+        description: 'Sell the child order (tokenAmountToSell)'
+      },
+    {
+      id: 'count_failure',
+      type: 'setVariable',
+      variable: 'failedChildren',
+      increment: 1,
+      onSuccess: 'wait_interval',
+      description: 'Count the failed child order'
+    },
+    {
+      id: 'post_child_price',
+      type: 'getPrice',
+      onSuccess: 'record_fill',
+      onFailure: 'record_fill_without_impact',
+      description: 'Sample the price after the child order'
+    },
+    {
+      id: 'record_fill',
+      type: 'setVariable',
+      variable: 'lastFillPrice',
+      expression: '(steps.child_price.data.price + steps.post_child_price.data.price) / 2',
+      onSuccess: 'check_impact',
+      description: 'Estimate the child fill price'
+    },
+    {
+      id: 'record_fill_without_impact',
+      type: 'setVariable',
+      variable: 'lastFillPrice',
+      expression: 'steps.child_price.data.price',
+      onSuccess: 'update_filled',
+      description: 'Fall back to the pre-trade price as the fill estimate'
+    },
+    {
+      id: 'check_impact',
+      type: 'branch',
+      branches: [
+        { when: 'abs(pct(steps.post_child_price.data.price, steps.child_price.data.price)) > vars.maxImpactPercentage', goto: 'shrink_children' },
+        { when: 'vars.sizeScale < 1', goto: 'grow_children' },
+      ],
+      onSuccess: 'update_filled',
+      description: `Check whether the child moved the price more than ${maxImpactPercentage}%`
+    },
+    {
+      id: 'shrink_children',
+      type: 'setVariable',
+      variable: 'sizeScale',
+      expression: 'max(0.1, vars.sizeScale / 2)',
+      onSuccess: 'notify_impact',
+      description: 'Halve later children'
+    },
+    {
+      id: 'notify_impact',
+      type: 'notify',
+      level: 'warning',
+      message: `${modeLabel}: child moved the price {{ round(pct(steps.post_child_price.data.price, steps.child_price.data.price), 2) }}% - children scaled to {{ round(vars.sizeScale * 100) }}%`,
+      onSuccess: 'update_filled',
+      description: 'Report the impact guard'
+    },
+    {
+      id: 'grow_children',
+      type: 'setVariable',
+      variable: 'sizeScale',
+      expression: 'min(1, vars.sizeScale * 1.25)',
+      onSuccess: 'update_filled',
+      description: 'Let children grow back while impact stays low'
+    },
+    {
+      id: 'update_filled',
+      type: 'setVariable',
+      variable: 'filledAmount',
+      expression: `vars.filledAmount + vars.${amountVariable}`,
+      onSuccess: 'update_remaining',
+      description: 'Add the child to the filled amount'
+    },
+    {
+      id: 'update_remaining',
+      type: 'setVariable',
+      variable: 'remaining',
+      expression: `max(0, vars.remaining - vars.${amountVariable})`,
+      onSuccess: 'update_fill_price',
+      description: 'Reduce the remaining amount'
+    },
+    side === 'buy'
+      ? {
+        id: 'update_fill_price',
+        type: 'setVariable',
+        variable: 'fillWeight',
+        expression: 'vars.fillWeight + vars.solAmountToBuy / vars.lastFillPrice',
+        onSuccess: 'count_child',
+        description: 'Accumulate for the average fill price'
+      }
+      : {
+        id: 'update_fill_price',
+        type: 'setVariable',
+        variable: 'fillNotional',
+        expression: 'vars.fillNotional + vars.tokenAmountToSell * vars.lastFillPrice',
+        onSuccess: 'count_child',
+        description: 'Accumulate for the average fill price'
+      },
+    {
+      id: 'count_child',
+      type: 'setVariable',
+      variable: 'childOrders',
+      increment: 1,
+      onSuccess: 'check_done',
+      description: 'Count the child order'
+    },
+    {
+      id: 'check_done',
+      type: 'branch',
+      branches: [{ when: 'vars.remaining <= 0', goto: 'compute_avg_fill' }],
+      onSuccess: 'wait_interval',
+      description: 'Finish without waiting once the parent is filled'
+    },
+    {
+      id: 'wait_interval',
+      type: 'wait',
+      durationMs: intervalMs,
+      onSuccess: 'execution_loop',
+      description: `Wait ${Math.round(intervalMs / 1000)}s before the next child`
+    },
+    {
+      id: 'compute_avg_fill',
+      type: 'setVariable',
+      variable: 'avgFillPrice',
+      expression: side === 'buy'
+        ? 'vars.fillWeight > 0 ? vars.filledAmount / vars.fillWeight : 0'
+        : 'vars.filledAmount > 0 ? vars.fillNotional / vars.filledAmount : 0',
+      onSuccess: 'compute_cost',
+      description: 'Average fill price (SOL per token)'
+    },
+    {
+      id: 'compute_cost',
+      type: 'setVariable',
+      variable: 'executionCostPct',
+      // Positive = worse than arrival (paid more on a buy, received less on a sell)
+      expression: `vars.avgFillPrice > 0 ? ${side === 'buy' ? '' : '-'}pct(vars.avgFillPrice, vars.arrivalPrice) : 0`,
+      onSuccess: 'set_status',
+      description: 'Execution cost versus the arrival price'
+    },
+    {
+      id: 'set_status',
+      type: 'setVariable',
+      variable: 'executionStatus',
+      expression: "vars.remaining <= 0 ? 'completed' : vars.failedChildren >= vars.maxChildFailures ? 'failed' : 'expired'",
+      onSuccess: 'report_completion',
+      description: 'Record how the parent order ended'
+    },
+    {
+      id: 'report_completion',
+      type: 'notify',
+      level: 'success',
+      message: `${modeLabel} ${side.toUpperCase()} {{ vars.executionStatus }}: filled {{ round(vars.filledAmount, 6) }}/{{ vars.totalAmount }} ${unit} in {{ vars.childOrders }} child orders ({{ vars.failedChildren }} failed), avg fill {{ vars.avgFillPrice }} vs arrival {{ vars.arrivalPrice }} SOL per token ({{ round(vars.executionCostPct, 3) }}% cost)`,
+      onSuccess: 'execution_complete',
+      description: 'Completion report'
+    },
+    {
+      id: 'execution_complete',
+      type: 'stop',
+      reason: `${modeLabel} execution finished`,
+      description: 'Parent order done'
+    }
+  ];
+
+  for (const step of steps) {
+    strategyBuilder.addStep(config.id, step);
+  }
+
+  return strategyBuilder.getStrategy(config.id)!;
+}
+
 /**
  * Grid Trading Strategy Template
  * Places buy/sell orders at predetermined price levels
@@ -548,163 +862,1219 @@ export function createGridTradingStrategy(config: {
       description: 'Check if any grid level should trigger'
     },
     {
-      id: 'execute_grid_order',
-      type: 'condition' as const,
-      condition: 'custom' as const,
-      customCondition: (context: any) => {
-        const action = context.variables.pendingAction;
-        context.variables.pendingLevel.executed = true;
-        console.log(`Grid ${action.toUpperCase()} executed at level ${context.variables.pendingLevel.price}`);
-        return true;
-      },
-      onSuccess: 'wait_and_retry',
-      description: 'Execute grid order'
+      id: 'execute_grid_order',
+      type: 'condition' as const,
+      condition: 'custom' as const,
+      customCondition: (context: any) => {
+        const action = context.variables.pendingAction;
+        context.variables.pendingLevel.executed = true;
+        console.log(`Grid ${action.toUpperCase()} executed at level ${context.variables.pendingLevel.price}`);
+        return true;
+      },
+      onSuccess: 'wait_and_retry',
+      description: 'Execute grid order'
+    },
+    {
+      id: 'wait_and_retry',
+      type: 'wait',
+      durationMs: 30000,
+      onSuccess: 'monitor_grid',
+      description: 'Wait before checking grid again'
+    }
+  ];
+
+  for (const step of steps) {
+    strategyBuilder.addStep(config.id, step);
+  }
+  return strategyBuilder.getStrategy(config.id)!;
+}
+
+/**
+ * Stop-Loss/Take-Profit Strategy Template
+ */
+export function createStopLossTakeProfitStrategy(config: {
+  id: string;
+  buyAmountSOL: number;
+  stopLossPercentage: number;
+  takeProfitPercentage: number;
+}): Strategy {
+  const strategy = strategyBuilder.createStrategy(
+    config.id,
+    `Stop-Loss/Take-Profit Strategy`,
+    `Buy ${config.buyAmountSOL} SOL, exit at -${config.stopLossPercentage}% or +${config.takeProfitPercentage}%`
+  );
+
+  strategyBuilder.updateRiskLimits(config.id, {
+    maxPositionSizeSOL: config.buyAmountSOL,
+    stopLossPercentage: config.stopLossPercentage,
+    takeProfitPercentage: config.takeProfitPercentage,
+  });
+
+  const steps: StrategyStep[] = [
+    {
+      id: 'initial_buy',
+      type: 'buy',
+      amountInSol: config.buyAmountSOL,
+      onSuccess: 'store_entry_price',
+      onFailure: 'strategy_failed',
+      description: 'Execute initial buy'
+    },
+    {
+      id: 'store_entry_price',
+      type: 'getPrice',
+      onSuccess: 'set_exit_targets',
+      onFailure: 'strategy_failed',
+      description: 'Get entry price'
+    },
+    {
+      id: 'set_exit_targets',
+      type: 'condition' as const,
+      condition: 'custom' as const,
+      customCondition: (context: any) => {
+        const entryPrice = context.stepResults.store_entry_price?.data?.price;
+        context.variables.entryPrice = entryPrice;
+        context.variables.stopLossPrice = entryPrice * (1 - config.stopLossPercentage / 100);
+        context.variables.takeProfitPrice = entryPrice * (1 + config.takeProfitPercentage / 100);
+        // console.log(`Exit targets set: SL=${context.variables.stopLossPrice}, TP=${context.variables.takeProfitPrice}`);
+        return true;
+      },
+      onSuccess: 'monitor_position',
+      description: 'Calculate exit targets'
+    },
+    {
+      id: 'monitor_position',
+      type: 'getPrice',
+      onSuccess: 'check_exit_conditions',
+      onFailure: 'wait_and_monitor',
+      description: 'Monitor current price'
+    },
+    {
+      id: 'check_exit_conditions',
+      type: 'condition' as const,
+      condition: 'custom' as const,
+      customCondition: (context: any) => {
+        // Check stop flag FIRST before any other logic
+        if (context.variables._shouldStop === true) {
+          console.log(`🛑 [STOP-LOSS/TAKE-PROFIT] Stop requested - exiting strategy`);
+          context.variables.exitReason = 'Manually stopped by user';
+          return true; // Exit to execute_exit step
+        }
+
+        const currentPrice = context.stepResults.monitor_position?.data?.price;
+        const stopLoss = context.variables.stopLossPrice;
+        const takeProfit = context.variables.takeProfitPrice;
+
+        if (currentPrice <= stopLoss) {
+          context.variables.exitReason = 'Stop-loss triggered';
+          return true;
+        } else if (currentPrice >= takeProfit) {
+          context.variables.exitReason = 'Take-profit triggered';
+          return true;
+        }
+        return false;
+      },
+      onSuccess: 'execute_exit',
+      onFailure: 'wait_and_monitor',
+      description: 'Check if stop-loss or take-profit should trigger'
+    },
+    {
+      id: 'execute_exit',
+      type: 'sell',
+      amountToSell: -1,
+      onSuccess: 'strategy_completed',
+      onFailure: 'retry_exit',
+      description: 'Execute exit trade'
+    },
+    {
+      id: 'retry_exit',
+      type: 'wait',
+      durationMs: 5000,
+      onSuccess: 'execute_exit',
+      description: 'Wait before retrying exit'
+    },
+    {
+      id: 'wait_and_monitor',
+      type: 'wait',
+      durationMs: 10000,
+      onSuccess: 'monitor_position',
+      description: 'Wait before next price check'
+    },
+    {
+      id: 'strategy_completed',
+      type: 'condition' as const,
+      condition: 'custom' as const,
+      customCondition: (context: any) => {
+        console.log(`Strategy completed: ${context.variables.exitReason}`);
+        return true;
+      },
+      description: 'Strategy execution completed'
+    },
+    {
+      id: 'strategy_failed',
+      type: 'condition' as const,
+      condition: 'custom' as const,
+      customCondition: () => {
+        console.log(`Strategy failed to initialize`);
+        return true;
+      },
+      description: 'Strategy failed'
+    }
+  ];
+
+  for (const step of steps) {
+    strategyBuilder.addStep(config.id, step);
+  }
+
+  return strategyBuilder.getStrategy(config.id)!;
+}
+
+/**
+ * Stop-Loss/Take-Profit Exit Block
+ * Reusable building block for `subStrategy` steps: checks the price once and sells everything
+ * if it is stopLossPercentage below or takeProfitPercentage above vars.entryPrice.
+ * Callers pass entryPrice (and optionally the percentages) as inputs; without an entryPrice
+ * the current price is used. Outputs: exited, exitReason, entryPrice.
+ *
+ * One check per run keeps the block inside the per-execution step limit however long the
+ * position is held. The caller re-enters it on its own schedule, e.g.
+ *   exit_block (subStrategy) -> branch `vars.exited` -> done, else wait -> exit_block
+ */
+export function createStopLossTakeProfitExitBlock(config: {
+  id: string;
+  stopLossPercentage: number;
+  takeProfitPercentage: number;
+}): Strategy {
+  if (config.stopLossPercentage <= 0 || config.takeProfitPercentage <= 0) {
+    throw new Error('[createStopLossTakeProfitExitBlock] Stop-loss and take-profit percentages must be positive');
+  }
+
+  strategyBuilder.createStrategy(
+    config.id,
+    `Exit Block - SL ${config.stopLossPercentage}% / TP ${config.takeProfitPercentage}%`,
+    `Sell the whole position at -${config.stopLossPercentage}% or +${config.takeProfitPercentage}% from entry (sub-strategy building block, one check per run)`,
+    {
+      stopLossPercentage: config.stopLossPercentage,
+      takeProfitPercentage: config.takeProfitPercentage,
+      exited: false,
+      exitReason: '',
+    }
+  );
+
+  strategyBuilder.updateRiskLimits(config.id, {
+    stopLossPercentage: config.stopLossPercentage,
+    takeProfitPercentage: config.takeProfitPercentage,
+  });
+
+  const steps: StrategyStep[] = [
+    {
+      id: 'set_entry',
+      type: 'setVariable',
+      variable: 'entryPrice',
+      expression: 'defined(vars.entryPrice) ? vars.entryPrice : price',
+      onSuccess: 'check_exit',
+      description: 'Use the caller\'s entry price (or the current price)'
+    },
+    {
+      id: 'check_exit',
+      type: 'branch',
+      branches: [
+        { when: 'pct(price, vars.entryPrice) <= -vars.stopLossPercentage', goto: 'mark_stop_loss' },
+        { when: 'pct(price, vars.entryPrice) >= vars.takeProfitPercentage', goto: 'mark_take_profit' },
+      ],
+      onSuccess: 'hold',
+      onFailure: 'hold',
+      description: 'Check if stop-loss or take-profit should trigger'
+    },
+    {
+      id: 'hold',
+      type: 'setVariable',
+      variable: 'exited',
+      value: false,
+      description: 'Neither level reached - return to the caller'
+    },
+    {
+      id: 'mark_stop_loss',
+      type: 'setVariable',
+      variable: 'exitReason',
+      value: 'Stop-loss triggered',
+      onSuccess: 'execute_exit',
+      description: 'Record exit reason'
+    },
+    {
+      id: 'mark_take_profit',
+      type: 'setVariable',
+      variable: 'exitReason',
+      value: 'Take-profit triggered',
+      onSuccess: 'execute_exit',
+      description: 'Record exit reason'
+    },
+    {
+      id: 'execute_exit',
+      type: 'sell',
+      amountToSell: -1,
+      onSuccess: 'mark_exited',
+      onFailure: 'retry_exit',
+      description: 'Execute exit trade'
+    },
+    {
+      id: 'retry_exit',
+      type: 'wait',
+      durationMs: 5000,
+      onSuccess: 'execute_exit',
+      description: 'Wait before retrying exit'
+    },
+    {
+      id: 'mark_exited',
+      type: 'setVariable',
+      variable: 'exited',
+      value: true,
+      onSuccess: 'exit_completed',
+      description: 'Tell the caller the position is closed'
+    },
+    {
+      id: 'exit_completed',
+      type: 'notify',
+      level: 'success',
+      message: '{{ vars.exitReason }} - position closed',
+      description: 'Exit completed'
+    }
+  ];
+
+  for (const step of steps) {
+    strategyBuilder.addStep(config.id, step);
+  }
+
+  return strategyBuilder.getStrategy(config.id)!;
+}
+
+// One branch per ladder level, so keep the check step readable
+const MAX_LADDER_LEVELS = 6;
+
+/**
+ * Entry and exit rules of one laddered position (laddered exit and launch sniper templates)
+ */
+interface LadderRules {
+  buyAmountSOL: number;
+  entryLevels?: Array<{ dropPercentage: number; allocationPercentage: number }>; // Default: all at market
+  takeProfitLevels?: Array<{ profitPercentage: number; sellPercentage: number }>; // Default: 25% at +30%, 25% at +60%
+  trailingStopPercentage?: number; // Default 20
+  stopLossPercentage?: number; // Default 25
+  moveStopToBreakeven?: boolean; // Default true
+  entryTimeoutMinutes?: number; // Give up if no entry level fills in time
+  maxHoldMinutes?: number; // Sell the rest this long after the first entry
+  checkIntervalSeconds?: number; // Default 10
+}
+
+type ResolvedLadderRules = Required<Omit<LadderRules, 'entryTimeoutMinutes' | 'maxHoldMinutes' | 'checkIntervalSeconds'>>
+  & Pick<LadderRules, 'entryTimeoutMinutes' | 'maxHoldMinutes'>
+  & { intervalMs: number };
+
+// Position bookkeeping, reset before every laddered position
+const LADDER_POSITION_VARIABLES = {
+  entriesFilled: 0,
+  exitsDone: 0,
+  positionTokens: 0, // Estimated from SOL spent / price
+  exitBaseTokens: 0, // Position when the first tranche sold; tranche sizes are a share of it
+  costSol: 0,
+  proceedsSol: 0, // Estimated from tokens sold * price
+  avgEntryPrice: 0,
+  stopPrice: 0,
+  highWater: 0,
+};
+
+/**
+ * Apply defaults and reject ladders that could never play out
+ */
+function resolveLadderRules(rules: LadderRules, caller: string): ResolvedLadderRules {
+  const entryLevels = [...(rules.entryLevels?.length ? rules.entryLevels : [{ dropPercentage: 0, allocationPercentage: 100 }])]
+    .sort((a, b) => a.dropPercentage - b.dropPercentage);
+  const takeProfitLevels = [...(rules.takeProfitLevels?.length ? rules.takeProfitLevels : [
+    { profitPercentage: 30, sellPercentage: 25 },
+    { profitPercentage: 60, sellPercentage: 25 },
+  ])].sort((a, b) => a.profitPercentage - b.profitPercentage);
+  const trailingStopPercentage = rules.trailingStopPercentage ?? 20;
+  const stopLossPercentage = rules.stopLossPercentage ?? 25;
+  const intervalMs = (rules.checkIntervalSeconds ?? 10) * 1000;
+
+  if (!(rules.buyAmountSOL > 0)) {
+    throw new Error(`[${caller}] Invalid buyAmountSOL: ${rules.buyAmountSOL}. Must be a positive number.`);
+  }
+  if (entryLevels.length > MAX_LADDER_LEVELS || takeProfitLevels.length > MAX_LADDER_LEVELS) {
+    throw new Error(`[${caller}] At most ${MAX_LADDER_LEVELS} entry and ${MAX_LADDER_LEVELS} take-profit levels`);
+  }
+  if (!(stopLossPercentage > 0 && stopLossPercentage < 100) || !(trailingStopPercentage > 0 && trailingStopPercentage < 100)) {
+    throw new Error(`[${caller}] stopLossPercentage and trailingStopPercentage must be between 0 and 100`);
+  }
+  if (!(intervalMs > 0)) {
+    throw new Error(`[${caller}] checkIntervalSeconds must be positive`);
+  }
+  if ((rules.entryTimeoutMinutes !== undefined && !(rules.entryTimeoutMinutes > 0))
+    || (rules.maxHoldMinutes !== undefined && !(rules.maxHoldMinutes > 0))) {
+    throw new Error(`[${caller}] entryTimeoutMinutes and maxHoldMinutes must be positive`);
+  }
+
+  const totalAllocation = entryLevels.reduce((sum, level) => sum + level.allocationPercentage, 0);
+  if (entryLevels.some(level => !(level.allocationPercentage > 0) || !(level.dropPercentage >= 0))) {
+    throw new Error(`[${caller}] Entry levels need dropPercentage >= 0 and a positive allocationPercentage`);
+  }
+  if (Math.abs(totalAllocation - 100) > 0.01) {
+    throw new Error(`[${caller}] Entry allocations must add up to 100%, got ${totalAllocation}%`);
+  }
+  // The stop is checked before entries, so a deeper level could never fill
+  if (entryLevels[entryLevels.length - 1].dropPercentage >= stopLossPercentage) {
+    throw new Error(`[${caller}] Every entry dropPercentage must be smaller than stopLossPercentage`);
+  }
+
+  const totalSold = takeProfitLevels.reduce((sum, level) => sum + level.sellPercentage, 0);
+  if (takeProfitLevels.some(level => !(level.profitPercentage > 0) || !(level.sellPercentage > 0))) {
+    throw new Error(`[${caller}] Take-profit levels need a positive profitPercentage and sellPercentage`);
+  }
+  if (totalSold >= 100) {
+    throw new Error(`[${caller}] Take-profit tranches must leave a runner for the trailing stop (they sell ${totalSold}%)`);
+  }
+
+  return {
+    buyAmountSOL: rules.buyAmountSOL,
+    entryLevels,
+    takeProfitLevels,
+    trailingStopPercentage,
+    stopLossPercentage,
+    moveStopToBreakeven: rules.moveStopToBreakeven !== false,
+    entryTimeoutMinutes: rules.entryTimeoutMinutes,
+    maxHoldMinutes: rules.maxHoldMinutes,
+    intervalMs,
+  };
+}
+
+/**
+ * Steps of one laddered position, starting at `get_reference_price`.
+ * Continues at onClosed once the position is sold, or at onEntryExpired when
+ * entryTimeoutMinutes passes without a fill. Expects LADDER_POSITION_VARIABLES plus
+ * stopLossPercentage, trailingStopPercentage and the level counts in variables.
+ */
+function buildLadderSteps(
+  ladder: ResolvedLadderRules,
+  targets: { onClosed: string; onEntryExpired?: string }
+): StrategyStep[] {
+  const livePrice = 'steps.monitor_price.data.price';
+  const { entryLevels, takeProfitLevels } = ladder;
+
+  return [
+    {
+      id: 'get_reference_price',
+      type: 'getPrice',
+      onSuccess: 'record_reference',
+      onFailure: 'retry_reference_price',
+      description: 'Sample the price entry levels are measured from'
+    },
+    {
+      id: 'retry_reference_price',
+      type: 'wait',
+      durationMs: 5000,
+      onSuccess: 'get_reference_price',
+      description: 'Wait before retrying the reference price'
+    },
+    {
+      id: 'record_reference',
+      type: 'setVariable',
+      variable: 'referencePrice',
+      expression: 'steps.get_reference_price.data.price',
+      onSuccess: 'record_ladder_start',
+      description: 'Remember the reference price (SOL per token)'
+    },
+    {
+      id: 'record_ladder_start',
+      type: 'setVariable',
+      variable: 'ladderStartedAt',
+      expression: 'now',
+      onSuccess: 'monitor_price',
+      description: 'Start the entry timeout'
+    },
+    {
+      id: 'monitor_price',
+      type: 'getPrice',
+      onSuccess: 'track_high',
+      onFailure: 'wait_and_monitor',
+      description: 'Monitor current price'
+    },
+    {
+      id: 'track_high',
+      type: 'setVariable',
+      variable: 'highWater',
+      expression: `vars.positionTokens > 0 ? max(vars.highWater, ${livePrice}) : 0`,
+      onSuccess: 'check_levels',
+      description: 'Track the highest price while holding (trailing stop anchor)'
+    },
+    {
+      id: 'check_levels',
+      type: 'branch',
+      branches: [
+        { when: `vars.positionTokens > 0 && ${livePrice} <= vars.stopPrice`, goto: 'mark_stop_loss' },
+        { when: `vars.exitsDone > 0 && ${livePrice} <= vars.highWater * (1 - vars.trailingStopPercentage / 100)`, goto: 'mark_trailing_stop' },
+        ...(ladder.maxHoldMinutes !== undefined ? [{
+          when: `vars.positionTokens > 0 && now - vars.enteredAt >= ${ladder.maxHoldMinutes * 60 * 1000}`,
+          goto: 'mark_max_hold',
+        }] : []),
+        ...takeProfitLevels.map((level, k) => ({
+          when: `vars.exitsDone == ${k} && vars.positionTokens > 0 && ${livePrice} >= vars.avgEntryPrice * ${1 + level.profitPercentage / 100}`,
+          goto: `size_tranche_${k + 1}`,
+        })),
+        ...entryLevels.map((level, i) => ({
+          when: `vars.entriesFilled == ${i} && vars.exitsDone == 0 && ${livePrice} <= vars.referencePrice * ${1 - level.dropPercentage / 100}`,
+          goto: `size_entry_${i + 1}`,
+        })),
+        ...(ladder.entryTimeoutMinutes !== undefined && targets.onEntryExpired ? [{
+          when: `vars.entriesFilled == 0 && now - vars.ladderStartedAt >= ${ladder.entryTimeoutMinutes * 60 * 1000}`,
+          goto: targets.onEntryExpired,
+        }] : []),
+      ],
+      onSuccess: 'wait_and_monitor',
+      onFailure: 'wait_and_monitor',
+      description: 'Check stops, the next take-profit level and the next entry level'
+    },
+    {
+      id: 'wait_and_monitor',
+      type: 'wait',
+      durationMs: ladder.intervalMs,
+      onSuccess: 'monitor_price',
+      description: 'Wait before next price check'
+    },
+
+    // Scaled entry
+    ...entryLevels.map((level, i): StrategyStep => ({
+      id: `size_entry_${i + 1}`,
+      type: 'setVariable',
+      variable: 'solAmountToBuy',
+      value: ladder.buyAmountSOL * level.allocationPercentage / 100,
+      onSuccess: 'entry_buy',
+      description: `Entry ${i + 1}: ${level.allocationPercentage}% of the budget at -${level.dropPercentage}%`
+    })),
+    {
+      id: 'entry_buy',
+      type: 'buy',
+      amountInSol: -1,
+      onSuccess: 'record_entry_tokens',
+      onFailure: 'wait_and_monitor',
+      description: 'Buy the entry level (solAmountToBuy)'
+    },
+    {
+      id: 'record_entry_tokens',
+      type: 'setVariable',
+      variable: 'positionTokens',
+      expression: `vars.positionTokens + vars.solAmountToBuy / ${livePrice}`,
+      onSuccess: 'record_entry_cost',
+      description: 'Add the estimated tokens bought'
+    },
+    {
+      id: 'record_entry_cost',
+      type: 'setVariable',
+      variable: 'costSol',
+      expression: 'vars.costSol + vars.solAmountToBuy',
+      onSuccess: 'count_entry',
+      description: 'Add the SOL spent'
+    },
+    {
+      id: 'count_entry',
+      type: 'setVariable',
+      variable: 'entriesFilled',
+      increment: 1,
+      onSuccess: 'record_entry_time',
+      description: 'Count the filled entry level'
+    },
+    {
+      id: 'record_entry_time',
+      type: 'setVariable',
+      variable: 'enteredAt',
+      expression: 'vars.entriesFilled == 1 ? now : vars.enteredAt',
+      onSuccess: 'update_avg_entry',
+      description: 'Remember when the position was opened'
+    },
+    {
+      id: 'update_avg_entry',
+      type: 'setVariable',
+      variable: 'avgEntryPrice',
+      expression: 'vars.costSol / vars.positionTokens',
+      onSuccess: 'set_stop_loss',
+      description: 'Average entry price (SOL per token)'
+    },
+    {
+      id: 'set_stop_loss',
+      type: 'setVariable',
+      variable: 'stopPrice',
+      expression: 'vars.avgEntryPrice * (1 - vars.stopLossPercentage / 100)',
+      onSuccess: 'notify_entry',
+      description: `Stop ${ladder.stopLossPercentage}% below the average entry`
+    },
+    {
+      id: 'notify_entry',
+      type: 'notify',
+      level: 'info',
+      message: 'Ladder entry {{ vars.entriesFilled }}/{{ vars.entryLevelCount }}: bought {{ vars.solAmountToBuy }} SOL, avg entry {{ vars.avgEntryPrice }} SOL per token, stop {{ vars.stopPrice }}',
+      onSuccess: 'wait_and_monitor',
+      description: 'Report the entry'
+    },
+
+    // Take-profit tranches
+    ...takeProfitLevels.map((level, k): StrategyStep => ({
+      id: `size_tranche_${k + 1}`,
+      type: 'setVariable',
+      variable: 'tranchePercentage',
+      value: level.sellPercentage,
+      onSuccess: 'set_exit_base',
+      description: `Tranche ${k + 1}: sell ${level.sellPercentage}% at +${level.profitPercentage}%`
+    })),
+    {
+      id: 'set_exit_base',
+      type: 'setVariable',
+      variable: 'exitBaseTokens',
+      expression: 'vars.exitsDone == 0 ? vars.positionTokens : vars.exitBaseTokens',
+      onSuccess: 'size_tranche',
+      description: 'Freeze the position size tranches are a share of'
+    },
+    {
+      id: 'size_tranche',
+      type: 'setVariable',
+      variable: 'tokenAmountToSell',
+      expression: 'min(vars.positionTokens, vars.exitBaseTokens * vars.tranchePercentage / 100)',
+      onSuccess: 'sell_tranche',
+      description: 'Size the tranche in tokens'
+    },
+    {
+      id: 'sell_tranche',
+      type: 'sell',
+      amountToSell: -1,
+      onSuccess: 'record_tranche_proceeds',
+      onFailure: 'wait_and_monitor',
+      description: 'Sell the tranche (tokenAmountToSell)'
+    },
+    {
+      id: 'record_tranche_proceeds',
+      type: 'setVariable',
+      variable: 'proceedsSol',
+      expression: `vars.proceedsSol + vars.tokenAmountToSell * ${livePrice}`,
+      onSuccess: 'reduce_position',
+      description: 'Add the estimated SOL received'
+    },
+    {
+      id: 'reduce_position',
+      type: 'setVariable',
+      variable: 'positionTokens',
+      expression: 'max(0, vars.positionTokens - vars.tokenAmountToSell)',
+      onSuccess: 'count_exit',
+      description: 'Remove the sold tokens from the position'
+    },
+    {
+      id: 'count_exit',
+      type: 'setVariable',
+      variable: 'exitsDone',
+      increment: 1,
+      onSuccess: 'notify_tranche',
+      description: 'Count the take-profit exit'
+    },
+    {
+      id: 'notify_tranche',
+      type: 'notify',
+      level: 'success',
+      message: `Take-profit {{ vars.exitsDone }}/{{ vars.takeProfitLevelCount }}: sold {{ vars.tranchePercentage }}% at {{ round(pct(${livePrice}, vars.avgEntryPrice), 2) }}% above entry, {{ round(vars.positionTokens, 2) }} tokens left`,
+      onSuccess: ladder.moveStopToBreakeven ? 'check_breakeven' : 'wait_and_monitor',
+      description: 'Report the tranche'
+    },
+    ...(ladder.moveStopToBreakeven ? [
+      {
+        id: 'check_breakeven',
+        type: 'branch' as const,
+        branches: [{ when: 'vars.exitsDone == 1 && vars.stopPrice < vars.avgEntryPrice', goto: 'move_stop_to_breakeven' }],
+        onSuccess: 'wait_and_monitor',
+        description: 'Move the stop after the first exit only'
+      },
+      {
+        id: 'move_stop_to_breakeven',
+        type: 'setVariable' as const,
+        variable: 'stopPrice',
+        expression: 'vars.avgEntryPrice',
+        onSuccess: 'notify_breakeven',
+        description: 'Move the stop on the remaining position to breakeven'
+      },
+      {
+        id: 'notify_breakeven',
+        type: 'notify' as const,
+        level: 'info' as const,
+        message: 'Stop moved to breakeven ({{ vars.stopPrice }} SOL per token); trailing the rest by {{ vars.trailingStopPercentage }}%',
+        onSuccess: 'wait_and_monitor',
+        description: 'Report the breakeven stop'
+      },
+    ] : []),
+
+    // Exit the rest
+    {
+      id: 'mark_stop_loss',
+      type: 'setVariable',
+      variable: 'exitReason',
+      expression: "vars.exitsDone > 0 && vars.stopPrice >= vars.avgEntryPrice ? 'Breakeven stop hit' : 'Stop-loss triggered'",
+      onSuccess: 'exit_remaining',
+      description: 'Record exit reason'
+    },
+    {
+      id: 'mark_trailing_stop',
+      type: 'setVariable',
+      variable: 'exitReason',
+      value: 'Trailing stop triggered',
+      onSuccess: 'exit_remaining',
+      description: 'Record exit reason'
+    },
+    ...(ladder.maxHoldMinutes !== undefined ? [{
+      id: 'mark_max_hold',
+      type: 'setVariable' as const,
+      variable: 'exitReason',
+      value: `Held for ${ladder.maxHoldMinutes} minutes`,
+      onSuccess: 'exit_remaining',
+      description: 'Record exit reason'
+    }] : []),
+    {
+      id: 'exit_remaining',
+      type: 'setVariable',
+      variable: 'tokenAmountToSell',
+      value: 0,
+      onSuccess: 'sell_remaining',
+      description: 'Clear the tranche size so the exit sells ALL tokens (no estimation dust)'
+    },
+    {
+      id: 'sell_remaining',
+      type: 'sell',
+      amountToSell: -1,
+      onSuccess: 'record_final_proceeds',
+      onFailure: 'retry_exit',
+      description: 'Sell the rest of the position'
+    },
+    {
+      id: 'retry_exit',
+      type: 'wait',
+      durationMs: 5000,
+      onSuccess: 'sell_remaining',
+      description: 'Wait before retrying exit'
+    },
+    {
+      id: 'record_final_proceeds',
+      type: 'setVariable',
+      variable: 'proceedsSol',
+      expression: `vars.proceedsSol + vars.positionTokens * ${livePrice}`,
+      onSuccess: 'close_position',
+      description: 'Add the estimated SOL received'
+    },
+    {
+      id: 'close_position',
+      type: 'setVariable',
+      variable: 'positionTokens',
+      value: 0,
+      onSuccess: 'compute_pnl',
+      description: 'Position closed'
+    },
+    {
+      id: 'compute_pnl',
+      type: 'setVariable',
+      variable: 'realizedPnlPct',
+      expression: 'vars.costSol > 0 ? pct(vars.proceedsSol, vars.costSol) : 0',
+      onSuccess: 'report_exit',
+      description: 'Estimated return on the SOL spent'
+    },
+    {
+      id: 'report_exit',
+      type: 'notify',
+      level: 'success',
+      message: '{{ vars.exitReason }} - position closed after {{ vars.exitsDone }} take-profit exits: ~{{ round(vars.proceedsSol, 4) }} SOL back for {{ vars.costSol }} SOL ({{ round(vars.realizedPnlPct, 2) }}%)',
+      onSuccess: targets.onClosed,
+      description: 'Exit report'
+    },
+  ];
+}
+
+/**
+ * Laddered Take-Profit / Scaled Entry Template
+ * Scales into a position at several price levels and exits it in tranches:
+ * - entryLevels: buy allocationPercentage of buyAmountSOL once price is dropPercentage below the
+ *   price at start (a 0% level buys immediately); unfilled levels are dropped after the first exit
+ * - takeProfitLevels: sell sellPercentage of the position at profitPercentage above the average entry
+ * - the rest rides a trailing stop (trailingStopPercentage below the high) once the first tranche is out
+ * The stop starts stopLossPercentage below the average entry and moves to breakeven after the first
+ * exit. Token amounts are estimated from getPrice (SOL per token); the final exit sells ALL tokens.
+ * Expression-only, so it runs in paper and live modes.
+ */
+export function createLadderedExitStrategy(config: LadderRules & {
+  id: string;
+  tokenAddress: string;
+  description?: string;
+}): Strategy {
+  if (!config.tokenAddress) {
+    throw new Error('[createLadderedExitStrategy] tokenAddress is required');
+  }
+  const ladder = resolveLadderRules(config, 'createLadderedExitStrategy');
+  const { entryLevels, takeProfitLevels } = ladder;
+
+  const ladderLabel = takeProfitLevels.map(level => `${level.sellPercentage}% at +${level.profitPercentage}%`).join(', ');
+  const entryLabel = entryLevels.length === 1 && entryLevels[0].dropPercentage === 0
+    ? `Buy ${config.buyAmountSOL} SOL`
+    : `Scale ${config.buyAmountSOL} SOL in at ${entryLevels.map(level => `-${level.dropPercentage}%`).join('/')}`;
+
+  strategyBuilder.createStrategy(
+    config.id,
+    `Laddered Exit - ${config.buyAmountSOL} SOL`,
+    config.description || `${entryLabel}, take ${ladderLabel}, trail the rest by ${ladder.trailingStopPercentage}%`,
+    {
+      tokenAddress: config.tokenAddress,
+      buyAmountSOL: config.buyAmountSOL,
+      stopLossPercentage: ladder.stopLossPercentage,
+      trailingStopPercentage: ladder.trailingStopPercentage,
+      entryLevelCount: entryLevels.length,
+      takeProfitLevelCount: takeProfitLevels.length,
+      ...LADDER_POSITION_VARIABLES,
+    }
+  );
+
+  strategyBuilder.updateRiskLimits(config.id, {
+    maxPositionSizeSOL: config.buyAmountSOL,
+    stopLossPercentage: ladder.stopLossPercentage,
+    takeProfitPercentage: takeProfitLevels[takeProfitLevels.length - 1].profitPercentage,
+  });
+
+  const steps: StrategyStep[] = [
+    ...buildLadderSteps(ladder, { onClosed: 'ladder_complete', onEntryExpired: 'entry_expired' }),
+    {
+      id: 'ladder_complete',
+      type: 'stop',
+      reason: 'Laddered exit finished',
+      description: 'Position closed'
+    },
+    ...(config.entryTimeoutMinutes !== undefined ? [
+      {
+        id: 'entry_expired',
+        type: 'notify' as const,
+        level: 'warning' as const,
+        message: `No entry level filled within ${config.entryTimeoutMinutes} minutes - ladder cancelled`,
+        onSuccess: 'ladder_expired',
+        description: 'Report the expired entry'
+      },
+      {
+        id: 'ladder_expired',
+        type: 'stop' as const,
+        reason: 'Entry timed out',
+        description: 'Nothing bought'
+      },
+    ] : []),
+  ];
+
+  for (const step of steps) {
+    strategyBuilder.addStep(config.id, step);
+  }
+
+  return strategyBuilder.getStrategy(config.id)!;
+}
+
+/**
+ * Pump.fun Launch Sniper Template
+ * Waits for new pump.fun launches, buys the first one that passes the launch filters
+ * (creator history, creator's initial buy, name/symbol regex, metadata completeness, age)
+ * and manages it like the laddered exit: take-profit tranches, a trailing stop on the rest,
+ * a stop-loss and an optional maximum hold time. Then it goes back to waiting, up to maxSnipes.
+ * Needs the launch monitor live; paper mode and launch tape replays work the same way.
+ */
+export function createLaunchSniperStrategy(config: Omit<LadderRules, 'entryLevels'> & LaunchFilterCriteria & {
+  id: string;
+  launchWaitMinutes?: number; // Per wait; the strategy keeps waiting after a timeout (default 10)
+  maxSnipes?: number; // Stop after this many positions (default: unlimited)
+  description?: string;
+}): Strategy {
+  if (config.maxSnipes !== undefined && !(Number.isInteger(config.maxSnipes) && config.maxSnipes > 0)) {
+    throw new Error('[createLaunchSniperStrategy] maxSnipes must be a positive integer');
+  }
+  if (config.launchWaitMinutes !== undefined && !(config.launchWaitMinutes > 0)) {
+    throw new Error('[createLaunchSniperStrategy] launchWaitMinutes must be positive');
+  }
+
+  const filters: LaunchFilterCriteria = {
+    maxCreatorLaunches: config.maxCreatorLaunches,
+    minInitialBuySol: config.minInitialBuySol,
+    maxInitialBuySol: config.maxInitialBuySol,
+    namePattern: config.namePattern,
+    symbolPattern: config.symbolPattern,
+    excludePattern: config.excludePattern,
+    requireMetadata: config.requireMetadata,
+    maxLaunchAgeSeconds: config.maxLaunchAgeSeconds ?? 30,
+  };
+  try {
+    validateLaunchCriteria(filters);
+  } catch (error) {
+    throw new Error(`[createLaunchSniperStrategy] ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  // Launches move fast: tighter defaults than the laddered exit, and a bounded hold
+  const ladder = resolveLadderRules({
+    buyAmountSOL: config.buyAmountSOL,
+    takeProfitLevels: config.takeProfitLevels?.length ? config.takeProfitLevels : [{ profitPercentage: 100, sellPercentage: 50 }],
+    trailingStopPercentage: config.trailingStopPercentage ?? 25,
+    stopLossPercentage: config.stopLossPercentage ?? 30,
+    moveStopToBreakeven: config.moveStopToBreakeven,
+    entryTimeoutMinutes: config.entryTimeoutMinutes ?? 2,
+    maxHoldMinutes: config.maxHoldMinutes ?? 30,
+    checkIntervalSeconds: config.checkIntervalSeconds ?? 5,
+  }, 'createLaunchSniperStrategy');
+
+  const ladderLabel = ladder.takeProfitLevels.map(level => `${level.sellPercentage}% at +${level.profitPercentage}%`).join(', ');
+  const filterLabel = [
+    filters.maxCreatorLaunches !== undefined && `creator launches <= ${filters.maxCreatorLaunches}`,
+    filters.minInitialBuySol !== undefined && `dev buy >= ${filters.minInitialBuySol} SOL`,
+    filters.maxInitialBuySol !== undefined && `dev buy <= ${filters.maxInitialBuySol} SOL`,
+    filters.namePattern && `name /${filters.namePattern}/`,
+    filters.symbolPattern && `symbol /${filters.symbolPattern}/`,
+    filters.requireMetadata?.length && `metadata ${filters.requireMetadata.join('+')}`,
+  ].filter(Boolean).join(', ') || 'any launch';
+
+  strategyBuilder.createStrategy(
+    config.id,
+    `Launch Sniper - ${config.buyAmountSOL} SOL`,
+    config.description || `Buy ${config.buyAmountSOL} SOL of new pump.fun launches (${filterLabel}), take ${ladderLabel}, trail the rest by ${ladder.trailingStopPercentage}%`,
+    {
+      buyAmountSOL: config.buyAmountSOL,
+      stopLossPercentage: ladder.stopLossPercentage,
+      trailingStopPercentage: ladder.trailingStopPercentage,
+      entryLevelCount: ladder.entryLevels.length,
+      takeProfitLevelCount: ladder.takeProfitLevels.length,
+      snipes: 0,
+      ...LADDER_POSITION_VARIABLES,
+    }
+  );
+
+  strategyBuilder.updateRiskLimits(config.id, {
+    maxPositionSizeSOL: config.buyAmountSOL,
+    stopLossPercentage: ladder.stopLossPercentage,
+    takeProfitPercentage: ladder.takeProfitLevels[ladder.takeProfitLevels.length - 1].profitPercentage,
+  });
+
+  // Every position starts from clean bookkeeping
+  const positionVariables = Object.keys(LADDER_POSITION_VARIABLES) as Array<keyof typeof LADDER_POSITION_VARIABLES>;
+  const resetSteps: StrategyStep[] = positionVariables.map((variable, i) => ({
+    id: `reset_${variable}`,
+    type: 'setVariable',
+    variable,
+    value: LADDER_POSITION_VARIABLES[variable],
+    onSuccess: i + 1 < positionVariables.length ? `reset_${positionVariables[i + 1]}` : 'get_reference_price',
+    description: `Reset ${variable} for the new position`
+  }));
+
+  const steps: StrategyStep[] = [
+    {
+      id: 'wait_for_launch',
+      type: 'waitForLaunch',
+      filters,
+      timeoutMs: (config.launchWaitMinutes ?? 10) * 60 * 1000,
+      onSuccess: 'notify_launch',
+      onFailure: 'retry_launch_wait',
+      description: 'Wait for a launch that passes the filters'
     },
     {
-      id: 'wait_and_retry',
+      id: 'retry_launch_wait',
       type: 'wait',
-      durationMs: 30000,
-      onSuccess: 'monitor_grid',
-      description: 'Wait before checking grid again'
-    }
+      durationMs: 1000,
+      onSuccess: 'wait_for_launch',
+      description: 'Keep waiting for launches'
+    },
+    {
+      id: 'notify_launch',
+      type: 'notify',
+      level: 'info',
+      message: 'Sniping {{ steps.wait_for_launch.data.symbol }} ({{ vars.tokenAddress }}): creator has {{ steps.wait_for_launch.data.creatorLaunchCount }} earlier launches, dev buy {{ steps.wait_for_launch.data.initialBuySol }} SOL',
+      onSuccess: `reset_${positionVariables[0]}`,
+      description: 'Report the selected launch'
+    },
+    ...resetSteps,
+    ...buildLadderSteps(ladder, { onClosed: 'count_snipe', onEntryExpired: 'entry_missed' }),
+    {
+      id: 'entry_missed',
+      type: 'notify',
+      level: 'warning',
+      message: `Could not enter {{ vars.tokenAddress }} within ${ladder.entryTimeoutMinutes} minutes - skipping it`,
+      onSuccess: 'wait_for_launch',
+      description: 'Give up on a launch the buy keeps failing on'
+    },
+    {
+      id: 'count_snipe',
+      type: 'setVariable',
+      variable: 'snipes',
+      increment: 1,
+      onSuccess: config.maxSnipes !== undefined ? 'check_snipes' : 'wait_for_launch',
+      description: 'Count the closed position'
+    },
+    ...(config.maxSnipes !== undefined ? [
+      {
+        id: 'check_snipes',
+        type: 'branch' as const,
+        branches: [{ when: `vars.snipes >= ${config.maxSnipes}`, goto: 'sniper_done' }],
+        onSuccess: 'wait_for_launch',
+        description: 'Stop after maxSnipes positions'
+      },
+      {
+        id: 'sniper_done',
+        type: 'stop' as const,
+        reason: `Closed ${config.maxSnipes} launch positions`,
+        description: 'Snipe limit reached'
+      },
+    ] : []),
   ];
 
   for (const step of steps) {
     strategyBuilder.addStep(config.id, step);
   }
+
   return strategyBuilder.getStrategy(config.id)!;
 }
 
 /**
- * Stop-Loss/Take-Profit Strategy Template
+ * Wallet Copy Trading Strategy Template
+ * Follows leader wallets and replicates their pump.fun / Raydium / Jupiter swaps: entries are sized
+ * proportionally to the leader's SOL or at a fixed amount and capped per token, exits copy the share
+ * of their holding the leader sold. Positions are tracked per mint in vars.copyTokens / vars.copyCostSol.
  */
-export function createStopLossTakeProfitStrategy(config: {
+export function createCopyTradingStrategy(config: {
   id: string;
-  buyAmountSOL: number;
-  stopLossPercentage: number;
-  takeProfitPercentage: number;
+  leaderWallets: string[];
+  sizingMode?: 'proportional' | 'fixed'; // Default proportional
+  copyRatio?: number; // Proportional: share of the leader's SOL to spend (default 0.1)
+  fixedAmountSOL?: number; // Fixed: SOL per copied entry
+  maxPerTokenSOL: number; // Cap on SOL invested in one token across copied entries
+  minTradeSOL?: number; // Entries smaller than this (after the cap) are skipped (default 0.001)
+  maxDelaySeconds?: number; // Skip entries seen later than this after the leader's block (default 15)
+  blocklist?: string[]; // Token mints never copied
+  venues?: WalletSwapVenue[]; // Default: every supported venue
+  leaderTradeTimeoutMinutes?: number; // Per wait; the strategy keeps waiting after a timeout (default 10)
+  description?: string;
 }): Strategy {
-  const strategy = strategyBuilder.createStrategy(
+  const sizingMode = config.sizingMode || 'proportional';
+  const copyRatio = config.copyRatio ?? 0.1;
+  const minTradeSOL = config.minTradeSOL ?? 0.001;
+  const maxDelayMs = (config.maxDelaySeconds ?? 15) * 1000;
+
+  if (sizingMode !== 'proportional' && sizingMode !== 'fixed') {
+    throw new Error('[createCopyTradingStrategy] sizingMode must be proportional or fixed');
+  }
+  if (sizingMode === 'proportional' && !(copyRatio > 0)) {
+    throw new Error('[createCopyTradingStrategy] copyRatio must be positive');
+  }
+  if (sizingMode === 'fixed' && !(config.fixedAmountSOL! > 0)) {
+    throw new Error('[createCopyTradingStrategy] fixedAmountSOL must be positive for fixed sizing');
+  }
+  if (!(config.maxPerTokenSOL > 0)) {
+    throw new Error('[createCopyTradingStrategy] maxPerTokenSOL must be positive');
+  }
+  if (!(minTradeSOL >= 0) || minTradeSOL > config.maxPerTokenSOL) {
+    throw new Error('[createCopyTradingStrategy] minTradeSOL must be between 0 and maxPerTokenSOL');
+  }
+  if (config.leaderTradeTimeoutMinutes !== undefined && !(config.leaderTradeTimeoutMinutes > 0)) {
+    throw new Error('[createCopyTradingStrategy] leaderTradeTimeoutMinutes must be positive');
+  }
+  try {
+    validateLeaderTradeFilter({
+      wallets: config.leaderWallets,
+      blocklist: config.blocklist,
+      venues: config.venues,
+      maxDelayMs,
+    });
+  } catch (error) {
+    throw new Error(`[createCopyTradingStrategy] ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const leader = 'steps.wait_for_leader.data';
+  const investedSol = 'max(0, defined(vars.copyCostSol[vars.tokenAddress]) ? vars.copyCostSol[vars.tokenAddress] : 0)';
+  const heldTokens = 'defined(vars.copyTokens[vars.tokenAddress]) ? vars.copyTokens[vars.tokenAddress] : 0';
+  // Tokens actually bought / sold; providers that do not report fills fall back to the requested size
+  const boughtTokens = `defined(steps.copy_buy.data.fill) ? steps.copy_buy.data.fill.tokenAmount : vars.solAmountToBuy / ${leader}.price`;
+  const soldTokens = 'defined(steps.copy_sell.data.fill) ? steps.copy_sell.data.fill.tokenAmount : vars.tokenAmountToSell';
+  const sizingLabel = sizingMode === 'fixed'
+    ? `${config.fixedAmountSOL} SOL per entry`
+    : `${copyRatio * 100}% of the leader's size`;
+  const walletLabel = config.leaderWallets.length === 1
+    ? config.leaderWallets[0]
+    : `${config.leaderWallets.length} wallets`;
+
+  strategyBuilder.createStrategy(
     config.id,
-    `Stop-Loss/Take-Profit Strategy`,
-    `Buy ${config.buyAmountSOL} SOL, exit at -${config.stopLossPercentage}% or +${config.takeProfitPercentage}%`
+    'Wallet Copy Trading Strategy',
+    config.description || `Copy ${walletLabel}: enter with ${sizingLabel} (max ${config.maxPerTokenSOL} SOL per token), exit when the leader exits`,
+    {
+      leaderWallets: config.leaderWallets,
+      sizingMode,
+      copyRatio,
+      fixedAmountSOL: config.fixedAmountSOL,
+      maxPerTokenSOL: config.maxPerTokenSOL,
+      minTradeSOL,
+      copyTokens: {}, // mint -> tokens held (from fills, estimated from SOL spent / leader price without them)
+      copyCostSol: {}, // mint -> SOL still invested
+      copiedEntries: 0,
+      copiedExits: 0,
+    }
   );
 
   strategyBuilder.updateRiskLimits(config.id, {
-    maxPositionSizeSOL: config.buyAmountSOL,
-    stopLossPercentage: config.stopLossPercentage,
-    takeProfitPercentage: config.takeProfitPercentage,
+    maxPositionSizeSOL: config.maxPerTokenSOL,
   });
 
   const steps: StrategyStep[] = [
     {
-      id: 'initial_buy',
+      id: 'wait_for_leader',
+      type: 'waitForLeaderTrade',
+      wallets: config.leaderWallets,
+      blocklist: config.blocklist,
+      venues: config.venues,
+      maxDelayMs,
+      positionsVariable: 'copyTokens',
+      timeoutMs: (config.leaderTradeTimeoutMinutes ?? 10) * 60 * 1000,
+      onSuccess: 'route_leader_trade',
+      onFailure: 'retry_leader_wait',
+      description: 'Wait for a leader swap that passes the filters'
+    },
+    {
+      id: 'retry_leader_wait',
+      type: 'wait',
+      durationMs: 1000,
+      onSuccess: 'wait_for_leader',
+      description: 'Keep waiting for leader swaps'
+    },
+    {
+      id: 'route_leader_trade',
+      type: 'branch',
+      branches: [{ when: `${leader}.isBuy`, goto: 'size_entry' }],
+      onSuccess: 'size_exit',
+      description: 'Copy entries and exits separately'
+    },
+
+    // Entry: size, cap per token, buy, record
+    {
+      id: 'size_entry',
+      type: 'setVariable',
+      variable: 'solAmountToBuy',
+      expression: sizingMode === 'fixed'
+        ? `round(min(${config.fixedAmountSOL}, ${config.maxPerTokenSOL} - ${investedSol}), 9)`
+        : `round(min(${leader}.solAmount * ${copyRatio}, ${config.maxPerTokenSOL} - ${investedSol}), 9)`,
+      onSuccess: 'check_entry_size',
+      description: `Size the entry (${sizingLabel}, capped at ${config.maxPerTokenSOL} SOL per token)`
+    },
+    {
+      id: 'check_entry_size',
+      type: 'branch',
+      branches: [{ when: `vars.solAmountToBuy < ${Math.max(minTradeSOL, 1e-9)}`, goto: 'skip_entry' }],
+      onSuccess: 'copy_buy',
+      description: 'Skip entries below the minimum or over the per-token cap'
+    },
+    {
+      id: 'skip_entry',
+      type: 'notify',
+      level: 'info',
+      message: `Not copying {{ ${leader}.wallet }}'s buy of {{ vars.tokenAddress }}: {{ vars.solAmountToBuy }} SOL left under the ${config.maxPerTokenSOL} SOL cap or below ${minTradeSOL} SOL`,
+      onSuccess: 'wait_for_leader',
+      description: 'Report a skipped entry'
+    },
+    {
+      id: 'copy_buy',
       type: 'buy',
-      amountInSol: config.buyAmountSOL,
-      onSuccess: 'store_entry_price',
-      onFailure: 'strategy_failed',
-      description: 'Execute initial buy'
+      amountInSol: -1, // Uses vars.solAmountToBuy
+      onSuccess: 'record_entry_tokens',
+      onFailure: 'copy_failed',
+      description: 'Copy the leader entry'
     },
     {
-      id: 'store_entry_price',
-      type: 'getPrice',
-      onSuccess: 'set_exit_targets',
-      onFailure: 'strategy_failed',
-      description: 'Get entry price'
+      id: 'record_entry_tokens',
+      type: 'setVariable',
+      variable: 'copyTokens',
+      key: 'vars.tokenAddress',
+      expression: `(${heldTokens}) + (${boughtTokens})`,
+      onSuccess: 'record_entry_cost',
+      description: 'Add the copied tokens to the position'
     },
     {
-      id: 'set_exit_targets',
-      type: 'condition' as const,
-      condition: 'custom' as const,
-      customCondition: (context: any) => {
-        const entryPrice = context.stepResults.store_entry_price?.data?.price;
-        context.variables.entryPrice = entryPrice;
-        context.variables.stopLossPrice = entryPrice * (1 - config.stopLossPercentage / 100);
-        context.variables.takeProfitPrice = entryPrice * (1 + config.takeProfitPercentage / 100);
-        // console.log(`Exit targets set: SL=${context.variables.stopLossPrice}, TP=${context.variables.takeProfitPrice}`);
-        return true;
-      },
-      onSuccess: 'monitor_position',
-      description: 'Calculate exit targets'
+      id: 'record_entry_cost',
+      type: 'setVariable',
+      variable: 'copyCostSol',
+      key: 'vars.tokenAddress',
+      expression: `${investedSol} + vars.solAmountToBuy`,
+      onSuccess: 'count_entry',
+      description: 'Add the SOL spent to the position'
     },
     {
-      id: 'monitor_position',
-      type: 'getPrice',
-      onSuccess: 'check_exit_conditions',
-      onFailure: 'wait_and_monitor',
-      description: 'Monitor current price'
+      id: 'count_entry',
+      type: 'setVariable',
+      variable: 'copiedEntries',
+      increment: 1,
+      onSuccess: 'notify_entry',
+      description: 'Count the copied entry'
     },
     {
-      id: 'check_exit_conditions',
-      type: 'condition' as const,
-      condition: 'custom' as const,
-      customCondition: (context: any) => {
-        // Check stop flag FIRST before any other logic
-        if (context.variables._shouldStop === true) {
-          console.log(`🛑 [STOP-LOSS/TAKE-PROFIT] Stop requested - exiting strategy`);
-          context.variables.exitReason = 'Manually stopped by user';
-          return true; // Exit to execute_exit step
-        }
-
-        const currentPrice = context.stepResults.monitor_position?.data?.price;
-        const stopLoss = context.variables.stopLossPrice;
-        const takeProfit = context.variables.takeProfitPrice;
+      id: 'notify_entry',
+      type: 'notify',
+      level: 'success',
+      message: `Copied {{ ${leader}.wallet }}: bought {{ vars.solAmountToBuy }} SOL of {{ vars.tokenAddress }} on {{ ${leader}.venue }} ({{ ${leader}.delayMs }}ms behind)`,
+      onSuccess: 'wait_for_leader',
+      description: 'Report the copied entry'
+    },
 
-        if (currentPrice <= stopLoss) {
-          context.variables.exitReason = 'Stop-loss triggered';
-          return true;
-        } else if (currentPrice >= takeProfit) {
-          context.variables.exitReason = 'Take-profit triggered';
-          return true;
-        }
-        return false;
-      },
-      onSuccess: 'execute_exit',
-      onFailure: 'wait_and_monitor',
-      description: 'Check if stop-loss or take-profit should trigger'
+    // Exit: sell the share of the position the leader sold
+    {
+      id: 'size_exit',
+      type: 'setVariable',
+      variable: 'tokenAmountToSell',
+      // -1 sells the whole balance, so a full exit leaves no dust from an estimated position
+      expression: `${leader}.soldFraction >= 0.99 ? -1 : (${heldTokens}) * ${leader}.soldFraction`,
+      onSuccess: 'copy_sell',
+      description: 'Sell the same share of the position as the leader (everything when they sold it all)'
     },
     {
-      id: 'execute_exit',
+      id: 'copy_sell',
       type: 'sell',
-      amountToSell: -1,
-      onSuccess: 'strategy_completed',
-      onFailure: 'retry_exit',
-      description: 'Execute exit trade'
+      amountToSell: -1, // Uses vars.tokenAmountToSell (-1: all)
+      onSuccess: 'record_exit_cost',
+      onFailure: 'copy_failed',
+      description: 'Copy the leader exit'
     },
     {
-      id: 'retry_exit',
-      type: 'wait',
-      durationMs: 5000,
-      onSuccess: 'execute_exit',
-      description: 'Wait before retrying exit'
+      id: 'record_exit_cost',
+      type: 'setVariable',
+      variable: 'copyCostSol',
+      key: 'vars.tokenAddress',
+      expression: `vars.tokenAmountToSell < 0 ? null : ${investedSol} * max(0, 1 - (${soldTokens}) / (${heldTokens}))`,
+      onSuccess: 'record_exit_tokens',
+      description: 'Release the cost of the share actually sold'
     },
     {
-      id: 'wait_and_monitor',
-      type: 'wait',
-      durationMs: 10000,
-      onSuccess: 'monitor_position',
-      description: 'Wait before next price check'
+      id: 'record_exit_tokens',
+      type: 'setVariable',
+      variable: 'copyTokens',
+      key: 'vars.tokenAddress',
+      expression: `vars.tokenAmountToSell < 0 ? null : max(0, (${heldTokens}) - (${soldTokens}))`,
+      onSuccess: 'count_exit',
+      description: 'Remove the sold tokens from the position'
     },
     {
-      id: 'strategy_completed',
-      type: 'condition' as const,
-      condition: 'custom' as const,
-      customCondition: (context: any) => {
-        console.log(`Strategy completed: ${context.variables.exitReason}`);
-        return true;
-      },
-      description: 'Strategy execution completed'
+      id: 'count_exit',
+      type: 'setVariable',
+      variable: 'copiedExits',
+      increment: 1,
+      onSuccess: 'notify_exit',
+      description: 'Count the copied exit'
     },
     {
-      id: 'strategy_failed',
-      type: 'condition' as const,
-      condition: 'custom' as const,
-      customCondition: () => {
-        console.log(`Strategy failed to initialize`);
-        return true;
-      },
-      description: 'Strategy failed'
-    }
+      id: 'notify_exit',
+      type: 'notify',
+      level: 'success',
+      message: `Copied {{ ${leader}.wallet }}: sold {{ defined(steps.copy_sell.data.fill) ? steps.copy_sell.data.fill.tokenAmount : vars.tokenAmountToSell < 0 ? 'all' : vars.tokenAmountToSell }} of {{ vars.tokenAddress }} ({{ round(${leader}.soldFraction * 100, 1) }}% of the leader's holding)`,
+      onSuccess: 'wait_for_leader',
+      description: 'Report the copied exit'
+    },
+
+    {
+      id: 'copy_failed',
+      type: 'notify',
+      level: 'error',
+      message: `Could not copy {{ ${leader}.wallet }}'s {{ ${leader}.side }} of {{ vars.tokenAddress }} - waiting for the next leader swap`,
+      onSuccess: 'retry_leader_wait',
+      description: 'Report a failed copy and keep following'
+    },
   ];
 
   for (const step of steps) {
@@ -714,6 +2084,20 @@ export function createStopLossTakeProfitStrategy(config: {
   return strategyBuilder.getStrategy(config.id)!;
 }
 
+/**
+ * Reason the live indicators reject a momentum entry (undefined = allowed, including before they warm up)
+ */
+function momentumIndicatorVeto(tokenAddress: string, maxEntryRsi?: number, requireAboveEma?: boolean): string | undefined {
+  const indicators = indicatorEngine.getIndicators(tokenAddress) || indicatorEngine.getIndicators(tokenAddress.toLowerCase());
+  if (maxEntryRsi !== undefined && indicators?.rsi !== undefined && indicators.rsi > maxEntryRsi) {
+    return `RSI ${indicators.rsi.toFixed(1)} > ${maxEntryRsi}`;
+  }
+  if (requireAboveEma && indicators?.ema !== undefined && indicators.lastPrice < indicators.ema) {
+    return `price ${indicators.lastPrice} below EMA ${indicators.ema}`;
+  }
+  return undefined;
+}
+
 /**
  * Momentum Trading Strategy Template
  */
@@ -728,6 +2112,8 @@ export function createMomentumStrategy(config: {
   tokenAddress?: string;
   description?: string;
   sellAmountTokens?: number; // NEW: Specific amount to sell (optional, defaults to -1 = sell all)
+  maxEntryRsi?: number; // Skip entries while RSI is above this (live trade feed indicators)
+  requireAboveEma?: boolean; // Only enter while the last trade is above the EMA
 }): Strategy {
   // Map different field names to standard ones
   const buyAmount = config.buyAmountSOL || config.positionSize || 0.01;
@@ -735,10 +2121,14 @@ export function createMomentumStrategy(config: {
   const sellThreshold = config.sellThreshold || -3; // Default: sell on -3% reversal
   const sellAmount = config.sellAmountTokens || -1; // Default: -1 means sell ALL tokens
 
+  const usesIndicators = !!config.tokenAddress && (config.maxEntryRsi !== undefined || config.requireAboveEma === true);
+
   const strategy = strategyBuilder.createStrategy(
     config.id,
     config.description || `Momentum Trading Strategy`,
-    config.description || `Buy ${buyAmount} SOL on +${config.momentumThreshold}% momentum, sell on ${sellThreshold}% reversal`
+    config.description || `Buy ${buyAmount} SOL on +${config.momentumThreshold}% momentum, sell on ${sellThreshold}% reversal`,
+    // Indicator confirmation needs the token's trades flowing into the feed
+    usesIndicators ? { tokenAddress: config.tokenAddress, _usesTradeFeed: true } : undefined
   );
 
   strategyBuilder.updateRiskLimits(config.id, {
@@ -832,6 +2222,12 @@ export function createMomentumStrategy(config: {
 
         // BUY condition: momentum exceeds threshold and no position
         if (!context.variables.hasPosition && momentum >= config.momentumThreshold) {
+          const veto = usesIndicators ? momentumIndicatorVeto(config.tokenAddress!, config.maxEntryRsi, config.requireAboveEma) : undefined;
+          if (veto) {
+            console.log(`⏸️ [MOMENTUM] Entry skipped by indicators: ${veto}`);
+            context.variables.initialPrice = currentPrice;
+            return false;
+          }
           console.log(`🟢 [MOMENTUM BUY TRIGGER] Momentum ${momentum.toFixed(2)}% >= ${config.momentumThreshold}%`);
           context.variables.shouldSell = false; // Explicitly set to false
           return true;
@@ -962,6 +2358,167 @@ export function createMomentumStrategy(config: {
   return strategyBuilder.getStrategy(config.id)!;
 }
 
+/**
+ * Mean Reversion Strategy Template
+ * Buys when the last trade closes below the lower Bollinger band (deviationThreshold standard
+ * deviations under the lookback average) and sells once price is back at the average.
+ * Signals come from the live trade feed indicators, so entries wait until the bands warm up.
+ */
+export function createMeanReversionStrategy(config: {
+  id: string;
+  tokenAddress: string;
+  deviationThreshold: number;
+  lookbackPeriod: number; // Minutes
+  positionSize?: number;
+  buyAmountSOL?: number;
+  rsiOversold?: number; // Also require RSI at or below this to enter
+  stopLossPercentage?: number;
+  checkIntervalSeconds?: number;
+  description?: string;
+}): Strategy {
+  const buyAmount = config.positionSize || config.buyAmountSOL;
+  if (!buyAmount || buyAmount <= 0) {
+    throw new Error(`[createMeanReversionStrategy] Invalid position size: ${buyAmount}. Must be a positive number.`);
+  }
+  if (!config.tokenAddress) {
+    throw new Error('[createMeanReversionStrategy] tokenAddress is required');
+  }
+  if (!(config.deviationThreshold > 0) || !(config.lookbackPeriod > 0)) {
+    throw new Error('[createMeanReversionStrategy] deviationThreshold and lookbackPeriod must be positive');
+  }
+
+  const lookbackBars = Math.min(
+    Math.max(Math.ceil((config.lookbackPeriod * 60) / INDICATOR_CONFIG.BAR_SECONDS), 2),
+    INDICATOR_CONFIG.MAX_BARS
+  );
+  const checkIntervalMs = (config.checkIntervalSeconds || INDICATOR_CONFIG.BAR_SECONDS) * 1000;
+
+  strategyBuilder.createStrategy(
+    config.id,
+    `Mean Reversion Strategy - ${config.deviationThreshold}σ over ${config.lookbackPeriod}min`,
+    config.description || `Buy ${buyAmount} SOL ${config.deviationThreshold} standard deviations below the ${config.lookbackPeriod}-minute average, sell back at the average`,
+    {
+      tokenAddress: config.tokenAddress,
+      buyAmountSOL: buyAmount,
+      ...(config.rsiOversold !== undefined && { rsiOversold: config.rsiOversold }),
+      ...(config.stopLossPercentage !== undefined && { stopLossPercentage: config.stopLossPercentage }),
+      indicatorPeriods: {
+        sma: lookbackBars,
+        bollinger: lookbackBars,
+        bollingerStdDev: config.deviationThreshold,
+      },
+    }
+  );
+
+  strategyBuilder.updateRiskLimits(config.id, {
+    maxPositionSizeSOL: buyAmount,
+    ...(config.stopLossPercentage !== undefined && { stopLossPercentage: config.stopLossPercentage }),
+  });
+
+  const entryCondition = 'defined(bbLower) && tradePrice <= bbLower' +
+    (config.rsiOversold !== undefined ? ' && defined(rsi) && rsi <= vars.rsiOversold' : '');
+
+  const steps: StrategyStep[] = [
+    {
+      id: 'check_entry',
+      type: 'condition',
+      condition: 'expression',
+      expression: entryCondition,
+      onSuccess: 'execute_buy',
+      onFailure: 'wait_entry',
+      description: 'Check if price is stretched below the lower band'
+    },
+    {
+      id: 'wait_entry',
+      type: 'wait',
+      durationMs: checkIntervalMs,
+      onSuccess: 'check_entry',
+      description: 'Wait before next entry check'
+    },
+    {
+      id: 'execute_buy',
+      type: 'buy',
+      amountInSol: buyAmount,
+      onSuccess: 'record_entry',
+      onFailure: 'wait_entry',
+      description: `Buy ${buyAmount} SOL below the band`
+    },
+    {
+      id: 'record_entry',
+      type: 'setVariable',
+      variable: 'entryTradePrice',
+      expression: 'tradePrice',
+      onSuccess: 'check_exit',
+      onFailure: 'check_exit',
+      description: 'Remember the entry price'
+    },
+    {
+      id: 'check_exit',
+      type: 'branch',
+      branches: [
+        { when: 'defined(bbMiddle) && tradePrice >= bbMiddle', goto: 'mark_reverted' },
+        ...(config.stopLossPercentage !== undefined
+          ? [{ when: 'defined(vars.entryTradePrice) && pct(tradePrice, vars.entryTradePrice) <= -vars.stopLossPercentage', goto: 'mark_stop_loss' }]
+          : []),
+      ],
+      onSuccess: 'wait_exit',
+      onFailure: 'wait_exit',
+      description: 'Check if price reverted to the average'
+    },
+    {
+      id: 'wait_exit',
+      type: 'wait',
+      durationMs: checkIntervalMs,
+      onSuccess: 'check_exit',
+      description: 'Wait before next exit check'
+    },
+    {
+      id: 'mark_reverted',
+      type: 'setVariable',
+      variable: 'exitReason',
+      value: 'Reverted to mean',
+      onSuccess: 'execute_sell',
+      description: 'Record exit reason'
+    },
+    ...(config.stopLossPercentage !== undefined ? [{
+      id: 'mark_stop_loss',
+      type: 'setVariable' as const,
+      variable: 'exitReason',
+      value: 'Stop-loss triggered',
+      onSuccess: 'execute_sell',
+      description: 'Record exit reason'
+    }] : []),
+    {
+      id: 'execute_sell',
+      type: 'sell',
+      amountToSell: -1,
+      onSuccess: 'notify_exit',
+      onFailure: 'retry_sell',
+      description: 'Sell the whole position'
+    },
+    {
+      id: 'retry_sell',
+      type: 'wait',
+      durationMs: 5000,
+      onSuccess: 'execute_sell',
+      description: 'Wait before retrying exit'
+    },
+    {
+      id: 'notify_exit',
+      type: 'notify',
+      message: '{{ vars.exitReason }} - sold at {{ tradePrice }} SOL',
+      onSuccess: 'wait_entry',
+      description: 'Report exit and wait before looking for the next entry'
+    }
+  ];
+
+  for (const step of steps) {
+    strategyBuilder.addStep(config.id, step);
+  }
+
+  return strategyBuilder.getStrategy(config.id)!;
+}
+
 /**
  * Custom Strategy Template
  * For advanced strategies that don't fit standard templates
@@ -2743,6 +4300,21 @@ export function createStrategyFromTemplate(templateName: string, config: any): S
     } else if (strategyType === 'stop_loss' || strategyType === 'stop_loss_take_profit') {
       actualTemplate = 'stop_loss';
       console.log(`✅ [Template Mapping] Mapped strategyType "${config.strategyType}" → Stop Loss template`);
+    } else if (strategyType === 'mean_reversion') {
+      actualTemplate = 'mean_reversion';
+      console.log(`✅ [Template Mapping] Mapped strategyType "${config.strategyType}" → Mean Reversion template`);
+    } else if (strategyType === 'execution_algo' || strategyType === 'twap' || strategyType === 'vwap') {
+      actualTemplate = strategyType;
+      console.log(`✅ [Template Mapping] Mapped strategyType "${config.strategyType}" → Execution Algorithm template`);
+    } else if (strategyType === 'laddered_exit' || strategyType === 'take_profit_ladder' || strategyType === 'scaled_exit') {
+      actualTemplate = 'laddered_exit';
+      console.log(`✅ [Template Mapping] Mapped strategyType "${config.strategyType}" → Laddered Exit template`);
+    } else if (strategyType === 'launch_sniper' || strategyType === 'pumpfun_sniper') {
+      actualTemplate = 'launch_sniper';
+      console.log(`✅ [Template Mapping] Mapped strategyType "${config.strategyType}" → Launch Sniper template`);
+    } else if (strategyType === 'copy_trading' || strategyType === 'copy_trader' || strategyType === 'wallet_copy') {
+      actualTemplate = 'copy_trading';
+      console.log(`✅ [Template Mapping] Mapped strategyType "${config.strategyType}" → Copy Trading template`);
     } else {
       console.log(`ℹ️ [Template Mapping] Custom strategyType "${config.strategyType}" → using Custom template`);
     }
@@ -2789,11 +4361,37 @@ export function createStrategyFromTemplate(templateName: string, config: any): S
     case 'momentum_trading':
       return createMomentumStrategy(config);
 
+    case 'mean_reversion':
+      return createMeanReversionStrategy(config);
+
+    case 'execution_algo':
+    case 'twap':
+    case 'vwap':
+      return createExecutionAlgoStrategy({
+        ...config,
+        totalAmount: config.totalAmount ?? (config.side === 'sell' ? config.sellAmountTokens : config.buyAmountSOL),
+        mode: config.mode || (actualTemplate === 'vwap' ? 'vwap' : 'twap'),
+      });
+
+    case 'laddered_exit':
+    case 'take_profit_ladder':
+    case 'scaled_exit':
+      return createLadderedExitStrategy(config);
+
+    case 'launch_sniper':
+    case 'pumpfun_sniper':
+      return createLaunchSniperStrategy(config);
+
+    case 'copy_trading':
+    case 'copy_trader':
+    case 'wallet_copy':
+      return createCopyTradingStrategy(config);
+
     case 'custom':
     case 'advanced':
       return createCustomStrategy(config);
 
     default:
-      throw new Error(`Unknown strategy template: ${actualTemplate}. Available templates: dca, grid, stop_loss, momentum, custom`);
+      throw new Error(`Unknown strategy template: ${actualTemplate}. Available templates: dca, grid, stop_loss, momentum, mean_reversion, twap, vwap, laddered_exit, launch_sniper, copy_trading, custom`);
   }
 }
\ No newline at end of file
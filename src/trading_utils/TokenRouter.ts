@@ -498,6 +498,29 @@ export class TokenRouter {
     toKeep.forEach(([key, value]) => this.tokenCache.set(key, value));
   }
 
+  /**
+   * Record that a pump.fun token left its bonding curve so later routes go to Jupiter/Raydium
+   * (called by the graduation detector when a curve completes mid-run)
+   */
+  public markGraduated(mintAddress: string, poolAddress?: string | null, bondingCurveAddress?: string): TokenInfo {
+    const cached = this.findInCacheByLowercase(mintAddress);
+    const tokenInfo: TokenInfo = {
+      ...(cached || { mintAddress, isValid: true }),
+      type: TokenType.JUPITER,
+      metadata: {
+        ...cached?.metadata,
+        isPumpToken: true,
+        isGraduated: true,
+        bondingCurveAddress: cached?.metadata?.bondingCurveAddress || bondingCurveAddress,
+        raydiumPoolAddress: poolAddress || cached?.metadata?.raydiumPoolAddress,
+      },
+    };
+
+    console.log(`🎓 [TokenRouter] ${tokenInfo.mintAddress.substring(0, 12)}... graduated → routing via JUPITER`);
+    this.cacheTokenInfo(tokenInfo);
+    return tokenInfo;
+  }
+
   /**
    * Clear all cache
    */
@@ -188,9 +188,12 @@ function clearPriceCache(): void {
 // Buy tokens using Jupiter
 async function buyTokens(
   amountInSol: number = TRADING_CONFIG.BUY_AMOUNT_SOL,
-  connectionOverride?: Connection
+  connectionOverride?: Connection,
+  tokenAddressOverride?: string
 ): Promise<string> {
   ensureInitialized(); // Lazy initialization
+  // Use override token address if provided (per-step token targeting), otherwise use config
+  const tokenAddressStr = tokenAddressOverride || TRADING_CONFIG.TOKEN_ADDRESS;
   // Use override connection for testing, otherwise use global connection
   const activeConnection = connectionOverride || connection!;
   const tradeStartTime = Date.now();
@@ -263,7 +266,7 @@ async function buyTokens(
         const timeoutId = setTimeout(() => controller.abort(), 10000); // 10s timeout
 
         const quoteResponse = await fetch(
-          `https://quote-api.jup.ag/v6/quote?inputMint=So11111111111111111111111111111111111111112&outputMint=${TRADING_CONFIG.TOKEN_ADDRESS}&amount=${amountInLamports}&slippageBps=${adjustedSlippage}`,
+          `https://quote-api.jup.ag/v6/quote?inputMint=So11111111111111111111111111111111111111112&outputMint=${tokenAddressStr}&amount=${amountInLamports}&slippageBps=${adjustedSlippage}`,
           { signal: controller.signal }
         );
 
@@ -375,7 +378,7 @@ async function buyTokens(
         metadata: {
           type: 'buy',
           amount: amountInSol,
-          token: TRADING_CONFIG.TOKEN_ADDRESS,
+          token: tokenAddressStr,
         },
         requiredSignatures: TRADING_CONFIG.MPC_CONFIG.WALLET.SIGNATURE_THRESHOLD,
         timeoutMs: 60000, // 1 minute timeout
@@ -497,9 +500,12 @@ async function buyTokens(
 async function sellTokens(
   amountToSell: number | null = null,
   connectionOverride?: Connection,
-  context?: any
+  context?: any,
+  tokenAddressOverride?: string
 ): Promise<string> {
   ensureInitialized(); // Lazy initialization
+  // Use override token address if provided (per-step token targeting), otherwise use config
+  const tokenAddressStr = tokenAddressOverride || TRADING_CONFIG.TOKEN_ADDRESS;
   // Use override connection for testing, otherwise use global connection
   const activeConnection = connectionOverride || connection!;
   const tradeStartTime = Date.now();
@@ -539,7 +545,7 @@ async function sellTokens(
 
     const tokenAccounts = await activeConnection.getParsedTokenAccountsByOwner(
       walletPublicKey!,
-      { mint: new PublicKey(TRADING_CONFIG.TOKEN_ADDRESS) }
+      { mint: new PublicKey(tokenAddressStr) }
     );
 
     if (tokenAccounts.value.length === 0) {
@@ -590,7 +596,7 @@ async function sellTokens(
     );
 
     const quoteResponse = await fetch(
-      `https://quote-api.jup.ag/v6/quote?inputMint=${TRADING_CONFIG.TOKEN_ADDRESS}&outputMint=So11111111111111111111111111111111111111112&amount=${sellAmount}&slippageBps=${adjustedSlippage}`
+      `https://quote-api.jup.ag/v6/quote?inputMint=${tokenAddressStr}&outputMint=So11111111111111111111111111111111111111112&amount=${sellAmount}&slippageBps=${adjustedSlippage}`
     );
     const quoteData = (await quoteResponse.json()) as JupiterQuoteResponse;
 
@@ -637,7 +643,7 @@ async function sellTokens(
         metadata: {
           type: 'sell',
           amount: tokensToSell,
-          token: TRADING_CONFIG.TOKEN_ADDRESS,
+          token: tokenAddressStr,
         },
         requiredSignatures: TRADING_CONFIG.MPC_CONFIG.WALLET.SIGNATURE_THRESHOLD,
         timeoutMs: 60000, // 1 minute timeout
@@ -4,12 +4,21 @@
  * and testing without wallet initialization dependencies.
  */
 
+import type { MarketData, QuoteCurrency } from './paper-trading/types';
+import type { UnifiedTradeResult } from './UnifiedTrading';
+
 export interface TradingResult {
   success: boolean;
   data?: any;
   message: string;
 }
 
+export interface TradeFill {
+  tokenAmount: number; // Tokens bought or sold
+  solAmount: number; // SOL spent (buy) or received after fees (sell)
+  executionPrice: number; // SOL per token
+}
+
 export interface PriceResult {
   price: number;
   source: string;
@@ -25,15 +34,19 @@ export interface TradingProvider {
    * Buy tokens with SOL
    * @param amountInSol Amount of SOL to spend
    * @param context Optional context with strategy variables (e.g., tokenAddress)
+   * @param tokenAddress Optional mint to buy (per-step target, overrides the strategy token)
+   * @param quoteCurrency Optional currency to pay with (amountInSol is then in USDC for 'USDC')
    */
-  buyTokens(amountInSol: number, context?: any): Promise<string>;
+  buyTokens(amountInSol: number, context?: any, tokenAddress?: string, quoteCurrency?: QuoteCurrency): Promise<string>;
   
   /**
    * Sell tokens
    * @param amountToSell Amount to sell (-1 for all tokens)
    * @param context Optional context with strategy variables
+   * @param tokenAddress Optional mint to sell (per-step target, overrides the strategy token)
+   * @param quoteCurrency Optional currency to receive (defaults to SOL)
    */
-  sellTokens(amountToSell: number, context?: any): Promise<string>;
+  sellTokens(amountToSell: number, context?: any, tokenAddress?: string, quoteCurrency?: QuoteCurrency): Promise<string>;
   
   /**
    * Get current token price in USD
@@ -52,6 +65,23 @@ export interface TradingProvider {
   getSolPriceUSD?(): Promise<PriceResult>;
   waitForPriceAbove?(targetPrice: number, timeoutMs: number): Promise<TradingResult>;
   waitForPriceBelow?(targetPrice: number, timeoutMs: number): Promise<TradingResult>;
+  /**
+   * Token market data (TOKEN/SOL, TOKEN/USD, SOL/USD) for getPrice steps.
+   * Providers that replay history implement this so steps never hit live feeds.
+   */
+  getMarketData?(tokenAddress: string): Promise<MarketData | null>;
+  /**
+   * Sleep on the provider's clock (simulated time in backtests)
+   */
+  sleep?(durationMs: number): Promise<void>;
+  /**
+   * Current time on the provider's clock (simulated time in backtests)
+   */
+  now?(): number;
+  /**
+   * Actual fill of the order that returned `signature` (null when the provider cannot tell)
+   */
+  getTradeFill?(signature: string): Promise<TradeFill | null>;
 }
 
 // Alias for backward compatibility
@@ -333,12 +363,38 @@ class RealTradingProvider implements TradingProvider {
     return true;
   }
   
-  async buyTokens(amountInSol: number, context?: any): Promise<string> {
-    return this.tokenUtils.buyTokens(amountInSol);
+  async buyTokens(amountInSol: number, context?: any, tokenAddress?: string, quoteCurrency?: QuoteCurrency): Promise<string> {
+    if (quoteCurrency === 'USDC') {
+      throw new Error('USDC-quoted orders are only supported in paper trading');
+    }
+    if (!tokenAddress) {
+      return this.tokenUtils.buyTokens(amountInSol);
+    }
+
+    // Per-step token: let TokenRouter pick Pump.fun or Jupiter for this mint
+    // (lazy loaded like TokenUtils to avoid circular dependencies)
+    const { buyAnyToken } = require('./UnifiedTrading');
+    const result: UnifiedTradeResult = await buyAnyToken(tokenAddress, amountInSol);
+    if (!result.success || !result.signature) {
+      throw new Error(result.error || `Buy failed for ${tokenAddress} via ${result.engine}`);
+    }
+    return result.signature;
   }
   
-  async sellTokens(amountToSell: number, context?: any): Promise<string> {
-    return this.tokenUtils.sellTokens(amountToSell);
+  async sellTokens(amountToSell: number, context?: any, tokenAddress?: string, quoteCurrency?: QuoteCurrency): Promise<string> {
+    if (quoteCurrency === 'USDC') {
+      throw new Error('USDC-quoted orders are only supported in paper trading');
+    }
+    if (!tokenAddress) {
+      return this.tokenUtils.sellTokens(amountToSell);
+    }
+
+    const { sellAnyToken } = require('./UnifiedTrading');
+    const result: UnifiedTradeResult = await sellAnyToken(tokenAddress, amountToSell);
+    if (!result.success || !result.signature) {
+      throw new Error(result.error || `Sell failed for ${tokenAddress} via ${result.engine}`);
+    }
+    return result.signature;
   }
   
   async getTokenPriceUSD(): Promise<PriceResult> {
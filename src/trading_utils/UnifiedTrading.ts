@@ -203,9 +203,8 @@ export class UnifiedTrading {
     //console.log(`\n Executing buy via Jupiter`);
 
     try {
-      // Use existing Jupiter buy function
-      // Note: You'll need to update TokenUtils to accept token mint parameter
-      const signature = await jupiterBuy(params.amount, this.connection);
+      // Use existing Jupiter buy function against the routed mint
+      const signature = await jupiterBuy(params.amount, this.connection, route.tokenInfo.mintAddress);
 
       return {
         success: true,
@@ -235,7 +234,7 @@ export class UnifiedTrading {
 
     try {
       // Use existing Jupiter sell function
-      const signature = await jupiterSell(params.amount, this.connection);
+      const signature = await jupiterSell(params.amount, this.connection, undefined, route.tokenInfo.mintAddress);
 
       return {
         success: true,
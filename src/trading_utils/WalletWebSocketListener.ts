@@ -0,0 +1,261 @@
+import { Connection, PublicKey, Logs, Context, ParsedTransactionWithMeta } from '@solana/web3.js';
+import { BorshCoder, EventParser, Event, Idl } from '@coral-xyz/anchor';
+import { EventEmitter } from 'events';
+import { PUMPFUN_PROGRAM_ID } from './PumpFunWebSocketListener';
+import { RAYDIUM_AMM_V4_PROGRAM_ID, RAYDIUM_CPMM_PROGRAM_ID } from './RaydiumWebSocketListener';
+import { JUPITER_V6_PROGRAM_ID } from './JupiterWebSocketListener';
+
+const NATIVE_SOL_MINT = 'So11111111111111111111111111111111111111112';
+const MIN_SOL_LEG = 0.0001; // Smaller SOL changes are fees/rent, not a swap
+const MAX_PROCESSED_SIGNATURES = 1000;
+
+export type WalletSwapVenue = 'pumpfun' | 'raydium' | 'jupiter';
+
+/**
+ * A SOL <-> token swap signed by a followed wallet
+ */
+export interface WalletSwapEvent {
+  wallet: string;
+  tokenMint: string;
+  isBuy: boolean;
+  solAmount: number;
+  tokenAmount: number;
+  price: number;              // SOL per token
+  venue: WalletSwapVenue;
+  walletTokensBefore: number; // Wallet balance of the token around the swap (sizes copied exits)
+  walletTokensAfter: number;
+  signature: string;
+  timestamp: number;          // Block time in milliseconds
+}
+
+/**
+ * Venue of a transaction from the programs its logs invoke (Jupiter routes through the others)
+ */
+export function detectSwapVenue(logMessages: string[]): WalletSwapVenue | null {
+  const invoked = (programId: string) => logMessages.some(line => line.startsWith(`Program ${programId} invoke`));
+  if (invoked(JUPITER_V6_PROGRAM_ID)) return 'jupiter';
+  if (invoked(PUMPFUN_PROGRAM_ID)) return 'pumpfun';
+  if (invoked(RAYDIUM_AMM_V4_PROGRAM_ID) || invoked(RAYDIUM_CPMM_PROGRAM_ID)) return 'raydium';
+  return null;
+}
+
+/**
+ * Decode the swaps `wallet` made in a transaction.
+ * pump.fun trades come from the program's tradeEvent (exact amounts); other venues
+ * from the wallet's own SOL/token balance changes, so only single-token SOL swaps are reported.
+ */
+export function decodeWalletSwaps(
+  tx: ParsedTransactionWithMeta,
+  wallet: string,
+  eventParser: EventParser,
+  signature: string
+): WalletSwapEvent[] {
+  const meta = tx.meta;
+  if (!meta || meta.err) return [];
+
+  const logMessages = meta.logMessages || [];
+  const venue = detectSwapVenue(logMessages);
+  if (!venue) return [];
+
+  const timestamp = (tx.blockTime ?? Math.floor(Date.now() / 1000)) * 1000;
+  const walletBalance = (balances: typeof meta.preTokenBalances, mint: string) =>
+    (balances || [])
+      .filter(balance => balance.owner === wallet && balance.mint === mint)
+      .reduce((sum, balance) => sum + (balance.uiTokenAmount.uiAmount ?? 0), 0);
+
+  // pump.fun: the program logs every trade with its user
+  let pumpEvents: Event[] = [];
+  try {
+    pumpEvents = Array.from(eventParser.parseLogs(logMessages))
+      .filter(event => event.name === 'tradeEvent' && (event.data as any).user?.toString() === wallet);
+  } catch {
+    // Logs without a decodable pump.fun event
+  }
+  if (pumpEvents.length > 0) {
+    return pumpEvents.map((event) => {
+      const data = event.data as any;
+      const mint = data.mint.toString();
+      const solAmount = Number(data.solAmount.toString()) / 1e9;
+      const tokenAmount = Number(data.tokenAmount.toString()) / 1e6;
+      return {
+        wallet,
+        tokenMint: mint,
+        isBuy: data.isBuy,
+        solAmount,
+        tokenAmount,
+        price: tokenAmount > 0 ? solAmount / tokenAmount : 0,
+        venue,
+        walletTokensBefore: walletBalance(meta.preTokenBalances, mint),
+        walletTokensAfter: walletBalance(meta.postTokenBalances, mint),
+        signature,
+        timestamp,
+      };
+    });
+  }
+
+  // Raydium / Jupiter: the wallet's own balance changes
+  const mints = new Set(
+    [...(meta.preTokenBalances || []), ...(meta.postTokenBalances || [])]
+      .filter(balance => balance.owner === wallet && balance.mint !== NATIVE_SOL_MINT)
+      .map(balance => balance.mint)
+  );
+  const changed = Array.from(mints)
+    .map(mint => ({
+      mint,
+      before: walletBalance(meta.preTokenBalances, mint),
+      after: walletBalance(meta.postTokenBalances, mint),
+    }))
+    .filter(change => change.after !== change.before);
+  if (changed.length !== 1) {
+    return []; // Token-to-token route or a transfer - no single SOL leg to copy
+  }
+
+  const accountIndex = tx.transaction.message.accountKeys.findIndex(key => key.pubkey.toString() === wallet);
+  if (accountIndex < 0) return [];
+  let lamports = meta.postBalances[accountIndex] - meta.preBalances[accountIndex];
+  if (accountIndex === 0) {
+    lamports += meta.fee; // The fee payer's change includes the fee
+  }
+  const solDelta = lamports / 1e9
+    + walletBalance(meta.postTokenBalances, NATIVE_SOL_MINT)
+    - walletBalance(meta.preTokenBalances, NATIVE_SOL_MINT);
+
+  const [{ mint, before, after }] = changed;
+  const isBuy = after > before;
+  if (Math.abs(solDelta) < MIN_SOL_LEG || (isBuy ? solDelta > 0 : solDelta < 0)) {
+    return [];
+  }
+
+  const solAmount = Math.abs(solDelta);
+  const tokenAmount = Math.abs(after - before);
+  return [{
+    wallet,
+    tokenMint: mint,
+    isBuy,
+    solAmount,
+    tokenAmount,
+    price: solAmount / tokenAmount,
+    venue,
+    walletTokensBefore: before,
+    walletTokensAfter: after,
+    signature,
+    timestamp,
+  }];
+}
+
+/**
+ * Real-time WebSocket listener for swaps signed by specific wallets
+ * Subscribes to each wallet's logs and decodes pump.fun, Raydium and Jupiter swaps
+ */
+export class WalletWebSocketListener extends EventEmitter {
+  private connection: Connection;
+  private eventParser: EventParser;
+  private subscriptions: Map<string, number> = new Map(); // wallet -> logs subscription id
+  private processedSignatures: Set<string> = new Set();
+
+  constructor(rpcUrl: string, idl: Idl) {
+    super();
+
+    const wsUrl = rpcUrl.replace('https://', 'wss://').replace('http://', 'ws://');
+    this.connection = new Connection(rpcUrl, {
+      wsEndpoint: wsUrl,
+      commitment: 'confirmed'
+    });
+
+    // pump.fun trades are decoded from the program's events
+    this.eventParser = new EventParser(new PublicKey(PUMPFUN_PROGRAM_ID), new BorshCoder(idl));
+  }
+
+  /**
+   * Start emitting 'wallet_trade' events for a wallet
+   */
+  async start(wallet: string): Promise<void> {
+    if (this.subscriptions.has(wallet)) {
+      return;
+    }
+
+    const subscriptionId = this.connection.onLogs(
+      new PublicKey(wallet),
+      (logs: Logs, context: Context) => {
+        this.handleLogs(wallet, logs, context);
+      },
+      'confirmed'
+    );
+    this.subscriptions.set(wallet, subscriptionId);
+    console.log(`👛 [WalletWS] Following ${wallet.substring(0, 8)}... (${this.subscriptions.size} wallet(s))`);
+  }
+
+  /**
+   * Stop following a wallet
+   */
+  async stopWallet(wallet: string): Promise<void> {
+    const subscriptionId = this.subscriptions.get(wallet);
+    if (subscriptionId === undefined) {
+      return;
+    }
+
+    this.subscriptions.delete(wallet);
+    try {
+      await this.connection.removeOnLogsListener(subscriptionId);
+    } catch (error) {
+      console.error(`[WalletWS] Error unsubscribing ${wallet.substring(0, 8)}...:`, error);
+    }
+    console.log(`🛑 [WalletWS] Stopped following ${wallet.substring(0, 8)}...`);
+  }
+
+  private handleLogs(wallet: string, logs: Logs, context: Context): void {
+    if (logs.err || !detectSwapVenue(logs.logs)) {
+      return; // Failed transaction or not a swap on a supported venue
+    }
+    if (this.processedSignatures.has(logs.signature)) {
+      return;
+    }
+
+    this.processedSignatures.add(logs.signature);
+    if (this.processedSignatures.size > MAX_PROCESSED_SIGNATURES) {
+      this.processedSignatures = new Set(Array.from(this.processedSignatures).slice(-MAX_PROCESSED_SIGNATURES / 2));
+    }
+
+    this.processTransaction(wallet, logs.signature).catch((error) => {
+      console.error(`❌ [WalletWS] Error processing ${logs.signature.substring(0, 12)}...:`, error instanceof Error ? error.message : error);
+    });
+  }
+
+  private async processTransaction(wallet: string, signature: string): Promise<void> {
+    const tx = await this.connection.getParsedTransaction(signature, {
+      maxSupportedTransactionVersion: 0,
+      commitment: 'confirmed'
+    });
+    if (!tx) {
+      console.log(`⚠️ [WalletWS] Transaction not available: ${signature.substring(0, 12)}...`);
+      return;
+    }
+
+    for (const swap of decodeWalletSwaps(tx, wallet, this.eventParser, signature)) {
+      console.log(`👛 [WalletWS] ${wallet.substring(0, 8)}... ${swap.isBuy ? '🟢 BUY' : '🔴 SELL'} ${swap.tokenAmount.toFixed(2)} ${swap.tokenMint.substring(0, 8)}... for ${swap.solAmount.toFixed(4)} SOL on ${swap.venue}`);
+      this.emit('wallet_trade', swap);
+    }
+  }
+
+  /**
+   * Stop following every wallet
+   */
+  async stop(): Promise<void> {
+    for (const wallet of Array.from(this.subscriptions.keys())) {
+      await this.stopWallet(wallet);
+    }
+    this.processedSignatures.clear();
+  }
+
+  isActive(): boolean {
+    return this.subscriptions.size > 0;
+  }
+
+  getMonitoredWallets(): string[] {
+    return Array.from(this.subscriptions.keys());
+  }
+
+  isMonitoringWallet(wallet: string): boolean {
+    return this.subscriptions.has(wallet);
+  }
+}
@@ -0,0 +1,302 @@
+/**
+ * Backtest Engine
+ *
+ * Drives a StrategyBuilder step graph over recorded price/trade history on a
+ * simulated clock. Fills go through the paper trading fee/slippage model and
+ * the result is reported as PaperTradingMetrics plus an equity curve.
+ *
+ * Note: custom conditions that read Date.now() or live feeds directly still see
+ * wall-clock/live data - only provider calls are replayed.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { StrategyBuilder, Strategy, StrategyContext, strategyBuilder } from '../StrategyBuilder';
+import { PaperTradingPortfolio } from '../paper-trading/PaperTradingPortfolio';
+import { paperTradingEngine } from '../paper-trading/PaperTradingEngine';
+import { PaperTrade, PaperTradingConfig } from '../paper-trading/types';
+import { awsLogger } from '../../aws/logger';
+import { HistoricalMarketData } from './HistoricalMarketData';
+import { BacktestTradingProvider } from './BacktestTradingProvider';
+import {
+  BacktestConfig,
+  BacktestDataset,
+  BacktestJob,
+  BacktestResult,
+  BacktestStopReason,
+  EquityPoint,
+} from './types';
+
+const DEFAULT_RESTART_DELAY_MS = 5000; // Same default loop delay as the strategy routes
+const DEFAULT_MAX_EXECUTIONS = 100000;
+const MAX_RETAINED_JOBS = 50; // Finished jobs kept for polling before the oldest are dropped
+
+/**
+ * Max peak-to-trough drop of total value (in SOL), as a percentage
+ */
+export function calculateMaxDrawdown(curve: EquityPoint[]): number {
+  let peak = curve[0].totalValueSOL;
+  let maxDrawdown = 0;
+
+  for (const point of curve) {
+    if (point.totalValueSOL > peak) {
+      peak = point.totalValueSOL;
+    }
+    const drawdown = peak > 0 ? ((peak - point.totalValueSOL) / peak) * 100 : 0;
+    if (drawdown > maxDrawdown) {
+      maxDrawdown = drawdown;
+    }
+  }
+
+  return maxDrawdown;
+}
+
+/**
+ * Sharpe ratio over realized sell P&L (same formula as PaperTradingEngine.calculateRiskMetrics)
+ */
+export function calculateSharpeRatio(trades: PaperTrade[]): number {
+  const returns = trades
+    .filter(t => t.type === 'sell' && t.realizedPnL !== undefined)
+    .map(t => t.realizedPnL || 0);
+
+  const avgReturn = returns.length > 0
+    ? returns.reduce((sum, r) => sum + r, 0) / returns.length
+    : 0;
+
+  const variance = returns.length > 1
+    ? returns.reduce((sum, r) => sum + Math.pow(r - avgReturn, 2), 0) / (returns.length - 1)
+    : 0;
+
+  const stdDev = Math.sqrt(variance);
+  return stdDev > 0 ? (avgReturn / stdDev) * Math.sqrt(252) : 0; // Annualized
+}
+
+export class BacktestEngine {
+  private jobs: Map<string, BacktestJob> = new Map();
+
+  /**
+   * Run a backtest in the background; poll it with getJob()
+   */
+  startJob(strategy: Strategy, dataset: BacktestDataset, config: BacktestConfig = {}): BacktestJob {
+    const job: BacktestJob = {
+      id: uuidv4(),
+      status: 'running',
+      strategyId: strategy.id,
+      tokenAddress: dataset.tokenAddress,
+      createdAt: Date.now(),
+    };
+    this.jobs.set(job.id, job);
+    this.pruneJobs();
+
+    this.runBacktest(strategy, dataset, config)
+      .then(result => {
+        job.status = 'completed';
+        job.result = result;
+      })
+      .catch(error => {
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message : String(error);
+        awsLogger.error('Backtest job failed', { strategyId: strategy.id, metadata: { jobId: job.id, error: job.error } });
+      })
+      .finally(() => {
+        job.completedAt = Date.now();
+      });
+
+    return job;
+  }
+
+  getJob(jobId: string): BacktestJob | undefined {
+    return this.jobs.get(jobId);
+  }
+
+  /**
+   * Replay a strategy against recorded history
+   */
+  async runBacktest(
+    strategy: Strategy,
+    dataset: BacktestDataset,
+    config: BacktestConfig = {}
+  ): Promise<BacktestResult> {
+    const fillConfig: PaperTradingConfig = {
+      ...paperTradingEngine.getDefaultConfig(),
+      ...config.fillModel,
+      enabled: true,
+    };
+    const initialBalanceSOL = config.initialBalanceSOL ?? fillConfig.initialBalanceSOL;
+    const initialBalanceUSDC = config.initialBalanceUSDC ?? fillConfig.initialBalanceUSDC;
+    const restartDelayMs = config.restartDelayMs ?? DEFAULT_RESTART_DELAY_MS;
+    const maxExecutions = config.maxExecutions ?? DEFAULT_MAX_EXECUTIONS;
+
+    const feed = new HistoricalMarketData(dataset, config.startTime, config.endTime);
+    const portfolio = new PaperTradingPortfolio(initialBalanceSOL, initialBalanceUSDC, feed, () => feed.now());
+    const provider = new BacktestTradingProvider(feed, portfolio, fillConfig, strategy.id, strategy.name);
+
+    // Private builder so the replay never touches the live provider or shared strategy state
+    const builder = new StrategyBuilder(provider);
+    builder.registerStrategy({ ...strategy, variables: { ...(strategy.variables || {}) } });
+    for (const subStrategy of strategyBuilder.collectSubStrategies(strategy)) {
+      builder.registerStrategy({ ...subStrategy, variables: { ...(subStrategy.variables || {}) } });
+    }
+
+    let context: StrategyContext = {
+      strategyId: strategy.id,
+      currentStepId: strategy.startStepId,
+      variables: {
+        ...(strategy.variables || {}),
+        tokenAddress: dataset.tokenAddress,
+        ...config.variables,
+      },
+      stepResults: {},
+      startTime: feed.now(),
+      logs: [],
+    };
+
+    console.log(`🧪 [Backtest] Starting ${strategy.name} on ${dataset.tokenAddress.substring(0, 8)}... (${new Date(feed.getStartTime()).toISOString()} → ${new Date(feed.getEndTime()).toISOString()})`);
+
+    let executions = 0;
+    let failedExecutions = 0;
+    let lastError: string | undefined;
+    let stopReason: BacktestStopReason = 'data_exhausted';
+
+    while (true) {
+      if (executions >= maxExecutions) {
+        stopReason = 'max_executions';
+        break;
+      }
+
+      // Same re-invocation contract as StrategyExecutionManager: preserve context between runs
+      const result = await builder.executeStrategy(strategy.id, context);
+      executions++;
+      context = result.context;
+
+      if (result.completed) {
+        stopReason = 'completed';
+        lastError = undefined;
+        break;
+      }
+
+      if (!result.success) {
+        failedExecutions++;
+        lastError = result.error;
+      } else {
+        lastError = undefined;
+      }
+
+      if (feed.isExhausted()) {
+        stopReason = lastError ? 'error' : 'data_exhausted';
+        break;
+      }
+
+      feed.advanceBy(restartDelayMs);
+
+      // Replayed provider calls resolve at once - let other requests in between executions
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    const trades = portfolio.getTrades();
+    const equityCurve = this.buildEquityCurve(feed, trades, initialBalanceSOL, config.equitySampleIntervalMs || 0);
+
+    const metrics = await portfolio.calculateMetrics(strategy.id, strategy.name);
+    metrics.endTime = feed.now();
+    metrics.sharpeRatio = calculateSharpeRatio(trades);
+    if (equityCurve.length > 0) {
+      // Mark-to-market drawdown is more accurate than the trade-balance approximation
+      metrics.maxDrawdown = calculateMaxDrawdown(equityCurve);
+    }
+
+    await awsLogger.info('Backtest completed', {
+      strategyId: strategy.id,
+      metadata: {
+        tokenAddress: dataset.tokenAddress,
+        stopReason,
+        executions,
+        totalTrades: metrics.totalTrades,
+        roi: metrics.roi,
+      },
+    });
+
+    console.log(`🧪 [Backtest] ${strategy.name} finished (${stopReason}): ${metrics.totalTrades} trades, ROI ${metrics.roi.toFixed(2)}%`);
+
+    return {
+      strategyId: strategy.id,
+      strategyName: strategy.name,
+      tokenAddress: dataset.tokenAddress,
+      startTime: feed.getStartTime(),
+      endTime: feed.now(),
+      stopReason,
+      error: lastError,
+      executions,
+      failedExecutions,
+      metrics,
+      equityCurve,
+      trades,
+      finalContext: context,
+    };
+  }
+
+  /**
+   * Drop the oldest finished jobs once more than MAX_RETAINED_JOBS are held
+   */
+  private pruneJobs(): void {
+    const finished = Array.from(this.jobs.values())
+      .filter(job => job.status !== 'running')
+      .sort((a, b) => (a.completedAt ?? a.createdAt) - (b.completedAt ?? b.createdAt));
+    for (const job of finished.slice(0, Math.max(0, this.jobs.size - MAX_RETAINED_JOBS))) {
+      this.jobs.delete(job.id);
+    }
+  }
+
+  /**
+   * Mark the portfolio to market at every tick (and at every fill)
+   */
+  private buildEquityCurve(
+    feed: HistoricalMarketData,
+    trades: PaperTrade[],
+    initialBalanceSOL: number,
+    sampleIntervalMs: number
+  ): EquityPoint[] {
+    const events = [
+      ...feed.getTicksInRange().map(tick => ({
+        timestamp: tick.timestamp,
+        price: tick.price,
+        solPrice: tick.solPrice!,
+        trade: undefined as PaperTrade | undefined,
+      })),
+      ...trades.map(trade => ({
+        timestamp: trade.timestamp,
+        price: trade.marketPrice,
+        solPrice: trade.solPriceUSD,
+        trade,
+      })),
+    ].sort((a, b) => a.timestamp - b.timestamp);
+
+    const curve: EquityPoint[] = [];
+    let balanceSOL = initialBalanceSOL;
+    let balanceTokens = 0;
+    let lastSampled = -Infinity;
+
+    for (const event of events) {
+      if (event.trade) {
+        balanceSOL = event.trade.balanceSOL;
+        balanceTokens = event.trade.balanceTokens;
+      } else if (event.timestamp - lastSampled < sampleIntervalMs) {
+        continue;
+      }
+
+      const totalValueSOL = balanceSOL + balanceTokens * event.price;
+      curve.push({
+        timestamp: event.timestamp,
+        price: event.price,
+        balanceSOL,
+        balanceTokens,
+        totalValueSOL,
+        totalValueUSD: totalValueSOL * event.solPrice,
+      });
+      lastSampled = event.timestamp;
+    }
+
+    return curve;
+  }
+}
+
+// Singleton instance
+export const backtestEngine = new BacktestEngine();
@@ -0,0 +1,279 @@
+/**
+ * Backtest Trading Provider
+ * Implements TradingProvider against recorded history on a simulated clock.
+ * Fills use the same fee/slippage model as PaperTradingEngine.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { TradingProvider, TradingResult, PriceResult, TradeFill } from '../TradingProvider';
+import { PaperTradingPortfolio } from '../paper-trading/PaperTradingPortfolio';
+import { quoteBuyFill, quoteSellFill } from '../paper-trading/FillModel';
+import { buildVenueFeeSchedule } from '../paper-trading/FeeModels';
+import { MarketData, PaperOrderSide, PaperTrade, PaperTradingConfig, QuoteCurrency, VenueFeeSchedule } from '../paper-trading/types';
+import { TRADING_CONFIG } from '../config';
+import { ReplayMarketData } from './types';
+
+export class BacktestTradingProvider implements TradingProvider {
+  private feed: ReplayMarketData;
+  private portfolio: PaperTradingPortfolio;
+  private config: PaperTradingConfig;
+  private strategyId: string;
+  private strategyName: string;
+
+  constructor(
+    feed: ReplayMarketData,
+    portfolio: PaperTradingPortfolio,
+    config: PaperTradingConfig,
+    strategyId: string,
+    strategyName: string
+  ) {
+    this.feed = feed;
+    this.portfolio = portfolio;
+    this.config = config;
+    this.strategyId = strategyId;
+    this.strategyName = strategyName;
+  }
+
+  async initialize(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Simulate a market buy at the current historical tick
+   */
+  async buyTokens(amountInSol: number, context?: any, stepTokenAddress?: string, quoteCurrency?: QuoteCurrency): Promise<string> {
+    const tokenAddress = this.resolveTokenAddress(context, stepTokenAddress);
+
+    if (quoteCurrency === 'USDC') {
+      throw new Error('[BacktestTradingProvider] USDC-quoted orders are not supported in backtests - use paper trading');
+    }
+
+    if (!amountInSol || amountInSol <= 0) {
+      throw new Error(`[BacktestTradingProvider] Invalid buy amount: ${amountInSol}. Must be positive number.`);
+    }
+
+    const state = this.portfolio.getPortfolio();
+    if (!this.portfolio.hasSufficientBalance(amountInSol)) {
+      throw new Error(`Insufficient SOL balance. Required: ${amountInSol}, Available: ${state.balanceSOL}`);
+    }
+
+    const marketData = this.feed.toMarketData(this.feed.getCurrentTick());
+    const venueFees = this.getFillFees('buy', !this.portfolio.getPosition(tokenAddress));
+    const fill = quoteBuyFill(this.config, marketData.price, amountInSol, null, venueFees);
+
+    const trade: PaperTrade = {
+      id: uuidv4(),
+      strategyId: this.strategyId,
+      strategyName: this.strategyName,
+      timestamp: this.feed.now(),
+      type: 'buy',
+      tokenAddress,
+      tokenSymbol: marketData.tokenSymbol,
+      orderType: 'market',
+      requestedAmount: amountInSol,
+      executedAmount: amountInSol,
+      marketPrice: marketData.price,
+      executionPrice: fill.executionPrice,
+      priceUSD: marketData.priceUSD,
+      solPriceUSD: marketData.solPrice,
+      amountSOL: amountInSol,
+      amountTokens: fill.tokensReceived,
+      tradingFee: fill.tradingFee,
+      networkFee: fill.networkFee,
+      slippage: fill.slippageAmount,
+      venueFees: venueFees || undefined,
+      totalCost: amountInSol,
+      balanceSOL: state.balanceSOL - amountInSol,
+      balanceUSDC: state.balanceUSDC,
+      balanceTokens: (this.portfolio.getPosition(tokenAddress)?.amount || 0) + fill.tokensReceived,
+      trigger: 'backtest',
+    };
+
+    this.portfolio.addTrade(trade);
+    return trade.id;
+  }
+
+  /**
+   * Simulate a market sell at the current historical tick
+   */
+  async sellTokens(amountToSell: number, context?: any, stepTokenAddress?: string, quoteCurrency?: QuoteCurrency): Promise<string> {
+    const tokenAddress = this.resolveTokenAddress(context, stepTokenAddress);
+
+    if (quoteCurrency === 'USDC') {
+      throw new Error('[BacktestTradingProvider] USDC-quoted orders are not supported in backtests - use paper trading');
+    }
+
+    // Same dynamic-amount convention as PaperTradingProvider
+    let actualAmountToSell = amountToSell;
+    if (context?.variables?.tokenAmountToSell && amountToSell === -1) {
+      actualAmountToSell = context.variables.tokenAmountToSell;
+    }
+
+    if (actualAmountToSell === 0 || actualAmountToSell < -1) {
+      throw new Error(`[BacktestTradingProvider] Invalid sell amount: ${actualAmountToSell}. Must be -1 (all) or positive number.`);
+    }
+
+    const position = this.portfolio.getPosition(tokenAddress);
+    const tokensToSell = actualAmountToSell === -1 ? (position?.amount || 0) : actualAmountToSell;
+
+    if (!position || tokensToSell <= 0 || position.amount < tokensToSell) {
+      throw new Error(`Insufficient token balance. Required: ${tokensToSell}, Available: ${position?.amount || 0}`);
+    }
+
+    const state = this.portfolio.getPortfolio();
+    const marketData = this.feed.toMarketData(this.feed.getCurrentTick());
+    const venueFees = this.getFillFees('sell', false);
+    const fill = quoteSellFill(this.config, marketData.price, tokensToSell, null, venueFees);
+
+    const trade: PaperTrade = {
+      id: uuidv4(),
+      strategyId: this.strategyId,
+      strategyName: this.strategyName,
+      timestamp: this.feed.now(),
+      type: 'sell',
+      tokenAddress,
+      tokenSymbol: marketData.tokenSymbol,
+      orderType: 'market',
+      requestedAmount: actualAmountToSell,
+      executedAmount: tokensToSell,
+      marketPrice: marketData.price,
+      executionPrice: fill.executionPrice,
+      priceUSD: marketData.priceUSD,
+      solPriceUSD: marketData.solPrice,
+      amountSOL: fill.solReceived,
+      amountTokens: tokensToSell,
+      tradingFee: fill.tradingFee,
+      networkFee: fill.networkFee,
+      slippage: fill.slippageAmount,
+      venueFees: venueFees || undefined,
+      totalCost: fill.solBeforeFees,
+      balanceSOL: state.balanceSOL + fill.solReceived,
+      balanceUSDC: state.balanceUSDC,
+      balanceTokens: Math.max(0, position.amount - tokensToSell),
+      trigger: 'backtest',
+    };
+
+    this.portfolio.addTrade(trade);
+    return trade.id;
+  }
+
+  /**
+   * Actual fill of a simulated trade (signature is the trade ID)
+   */
+  async getTradeFill(signature: string): Promise<TradeFill | null> {
+    const trade = this.portfolio.getTrades().find(t => t.id === signature);
+    return trade
+      ? { tokenAmount: trade.amountTokens, solAmount: trade.amountSOL, executionPrice: trade.executionPrice }
+      : null;
+  }
+
+  async getTokenPriceUSD(): Promise<PriceResult> {
+    const tick = this.feed.getCurrentTick();
+    return {
+      price: tick.priceUSD!,
+      source: 'backtest',
+      timestamp: this.feed.now(),
+    };
+  }
+
+  async getJupiterTokenPrice(): Promise<PriceResult> {
+    return this.getTokenPriceUSD();
+  }
+
+  async getSolPriceUSD(): Promise<PriceResult> {
+    return {
+      price: await this.feed.fetchSolPrice(),
+      source: 'backtest',
+      timestamp: this.feed.now(),
+    };
+  }
+
+  async getMarketData(tokenAddress: string): Promise<MarketData | null> {
+    return this.feed.fetchTokenPrice(tokenAddress);
+  }
+
+  /**
+   * Simulated time, so expressions using `now` follow the replay clock
+   */
+  now(): number {
+    return this.feed.now();
+  }
+
+  /**
+   * Advance simulated time instead of sleeping
+   */
+  async sleep(durationMs: number): Promise<void> {
+    this.feed.advanceBy(durationMs);
+  }
+
+  /**
+   * Jump forward to the first tick above target (USD, like PaperTradingProvider)
+   */
+  async waitForPriceAbove(targetPrice: number, timeoutMs: number = 300000): Promise<TradingResult> {
+    const tick = this.feed.advanceUntil(t => t.priceUSD! > targetPrice, this.feed.now() + timeoutMs);
+
+    if (tick) {
+      return {
+        success: true,
+        data: { price: tick.priceUSD },
+        message: `Price ${tick.priceUSD} exceeded target ${targetPrice}`,
+      };
+    }
+
+    return {
+      success: false,
+      message: `Timeout: Price did not reach ${targetPrice} within ${timeoutMs}ms`,
+    };
+  }
+
+  /**
+   * Jump forward to the first tick below target (USD, like PaperTradingProvider)
+   */
+  async waitForPriceBelow(targetPrice: number, timeoutMs: number = 300000): Promise<TradingResult> {
+    const tick = this.feed.advanceUntil(t => t.priceUSD! < targetPrice, this.feed.now() + timeoutMs);
+
+    if (tick) {
+      return {
+        success: true,
+        data: { price: tick.priceUSD },
+        message: `Price ${tick.priceUSD} below target ${targetPrice}`,
+      };
+    }
+
+    return {
+      success: false,
+      message: `Timeout: Price did not reach ${targetPrice} within ${timeoutMs}ms`,
+    };
+  }
+
+  getProviderName(): string {
+    return 'BacktestTradingProvider';
+  }
+
+  isInitialized(): boolean {
+    return true;
+  }
+
+  /**
+   * Venue fees for a fill when the backtest config names a feeVenue.
+   * History carries no route or fee market, so the venue is fixed and the priority fee is the configured medium fee.
+   */
+  private getFillFees(side: PaperOrderSide, firstBuy: boolean): VenueFeeSchedule | null {
+    if (!this.config.enableFees || !this.config.enableVenueFees || !this.config.feeVenue) {
+      return null;
+    }
+    return buildVenueFeeSchedule(this.config.feeVenue, side, {
+      priorityFeeMicroLamports: TRADING_CONFIG.PRIORITY_FEE_CONFIG.MEDIUM,
+      firstBuy,
+    });
+  }
+
+  private resolveTokenAddress(context?: any, stepTokenAddress?: string): string {
+    const tokenAddress = stepTokenAddress || context?.variables?.tokenAddress || this.feed.getTokenAddress();
+
+    if (tokenAddress !== this.feed.getTokenAddress()) {
+      throw new Error(`[BacktestTradingProvider] No recorded history for ${tokenAddress}`);
+    }
+    return tokenAddress;
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Historical Market Data
+ *
+ * Replays recorded price points and trades on a simulated clock.
+ * Doubles as the portfolio price source so valuations never hit live APIs.
+ */
+
+import type { RealTradeEvent } from '../../server/websocket/RealTradeFeedService';
+import { MarketData } from '../paper-trading/types';
+import { BacktestDataset, HistoricalPricePoint, ReplayMarketData } from './types';
+
+const DEFAULT_SOL_PRICE_USD = 200;
+
+export class HistoricalMarketData implements ReplayMarketData {
+  private readonly tokenAddress: string;
+  private readonly tokenSymbol?: string;
+  private readonly ticks: HistoricalPricePoint[];
+  private readonly trades: RealTradeEvent[];
+  private readonly startTime: number;
+  private readonly endTime: number;
+  private cursor = 0; // Index of the last tick at or before currentTime
+  private currentTime: number;
+
+  constructor(dataset: BacktestDataset, startTime?: number, endTime?: number) {
+    const fallbackSolPrice = dataset.solPriceUSD || DEFAULT_SOL_PRICE_USD;
+
+    this.tokenAddress = dataset.tokenAddress;
+    this.tokenSymbol = dataset.tokenSymbol;
+    this.trades = (dataset.trades || [])
+      .filter(t => t.tokenAddress === dataset.tokenAddress)
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    // Recorded trades are price observations too
+    const tradeTicks: HistoricalPricePoint[] = this.trades
+      .filter(t => t.price > 0)
+      .map(t => ({ timestamp: t.timestamp, price: t.price, volume: t.solAmount }));
+
+    let lastSolPrice = fallbackSolPrice;
+    this.ticks = [...dataset.prices, ...tradeTicks]
+      .filter(p => p.price > 0)
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map(p => {
+        // Carry the last known SOL price forward so every tick can be valued in USD
+        const solPrice = p.solPrice || lastSolPrice;
+        lastSolPrice = solPrice;
+        return {
+          ...p,
+          solPrice,
+          priceUSD: p.priceUSD ?? p.price * solPrice,
+        };
+      });
+
+    if (this.ticks.length === 0) {
+      throw new Error(`No price history for ${dataset.tokenAddress}`);
+    }
+
+    this.startTime = startTime ?? this.ticks[0].timestamp;
+    this.endTime = endTime ?? this.ticks[this.ticks.length - 1].timestamp;
+
+    if (this.endTime < this.startTime) {
+      throw new Error(`Backtest endTime (${this.endTime}) is before startTime (${this.startTime})`);
+    }
+
+    this.currentTime = this.startTime;
+    this.seekCursor();
+  }
+
+  getTokenAddress(): string {
+    return this.tokenAddress;
+  }
+
+  getStartTime(): number {
+    return this.startTime;
+  }
+
+  getEndTime(): number {
+    return this.endTime;
+  }
+
+  /**
+   * Current simulated time
+   */
+  now(): number {
+    return this.currentTime;
+  }
+
+  isExhausted(): boolean {
+    return this.currentTime >= this.endTime;
+  }
+
+  /**
+   * Latest tick at or before the simulated time
+   */
+  getCurrentTick(): HistoricalPricePoint {
+    return this.ticks[this.cursor];
+  }
+
+  /**
+   * All ticks inside the backtest window (for equity curves)
+   */
+  getTicksInRange(): HistoricalPricePoint[] {
+    return this.ticks.filter(t => t.timestamp >= this.startTime && t.timestamp <= this.endTime);
+  }
+
+  /**
+   * Advance the clock to an absolute time (never backwards, never past endTime)
+   */
+  advanceTo(timestamp: number): void {
+    this.currentTime = Math.min(Math.max(timestamp, this.currentTime), this.endTime);
+    this.seekCursor();
+  }
+
+  advanceBy(durationMs: number): void {
+    this.advanceTo(this.currentTime + durationMs);
+  }
+
+  /**
+   * Step forward tick by tick until `predicate` holds or `deadline` passes.
+   * Returns the matching tick (clock parked on it), or null with the clock at the deadline.
+   */
+  advanceUntil(
+    predicate: (tick: HistoricalPricePoint) => boolean,
+    deadline: number
+  ): HistoricalPricePoint | null {
+    const limit = Math.min(deadline, this.endTime);
+
+    if (predicate(this.getCurrentTick())) {
+      return this.getCurrentTick();
+    }
+
+    for (let i = this.cursor + 1; i < this.ticks.length; i++) {
+      const tick = this.ticks[i];
+      if (tick.timestamp > limit) break;
+      if (predicate(tick)) {
+        this.advanceTo(tick.timestamp);
+        return tick;
+      }
+    }
+
+    this.advanceTo(limit);
+    return null;
+  }
+
+  /**
+   * Recorded trades in (now - windowMs, now]
+   */
+  getTradesInWindow(windowMs: number): RealTradeEvent[] {
+    const from = this.currentTime - windowMs;
+    return this.trades.filter(t => t.timestamp > from && t.timestamp <= this.currentTime);
+  }
+
+  toMarketData(tick: HistoricalPricePoint): MarketData {
+    return {
+      tokenAddress: this.tokenAddress,
+      tokenSymbol: this.tokenSymbol,
+      price: tick.price,
+      priceUSD: tick.priceUSD!,
+      solPrice: tick.solPrice!,
+      timestamp: tick.timestamp,
+      source: 'backtest',
+    };
+  }
+
+  async fetchTokenPrice(tokenAddress: string): Promise<MarketData | null> {
+    if (tokenAddress !== this.tokenAddress) {
+      return null;
+    }
+    return this.toMarketData(this.getCurrentTick());
+  }
+
+  async fetchMultipleTokenPrices(tokenAddresses: string[]): Promise<Map<string, MarketData>> {
+    const results = new Map<string, MarketData>();
+    for (const tokenAddress of tokenAddresses) {
+      const data = await this.fetchTokenPrice(tokenAddress);
+      if (data) {
+        results.set(tokenAddress, data);
+      }
+    }
+    return results;
+  }
+
+  async fetchSolPrice(): Promise<number> {
+    return this.getCurrentTick().solPrice!;
+  }
+
+  private seekCursor(): void {
+    while (this.cursor + 1 < this.ticks.length && this.ticks[this.cursor + 1].timestamp <= this.currentTime) {
+      this.cursor++;
+    }
+  }
+}
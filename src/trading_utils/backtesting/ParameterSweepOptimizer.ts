@@ -0,0 +1,622 @@
+/**
+ * Parameter Sweep Optimizer
+ *
+ * Searches template parameters (grid, random or Bayesian) and scores every
+ * candidate by replaying recorded history through BacktestEngine, i.e. the
+ * paper trading fill model. Walk-forward validation searches on rolling train
+ * windows; candidates are ranked on the train windows only and the test windows
+ * are reported alongside, so selection never sees out-of-sample data.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { awsLogger } from '../../aws/logger';
+import { strategyBuilder, Strategy } from '../StrategyBuilder';
+import { createStrategyFromTemplate } from '../StrategyTemplates';
+import { strategyRegistry, StrategyFieldDefinition } from '../StrategyRegistry';
+import { PaperTradingMetrics } from '../paper-trading/types';
+import { BacktestEngine, backtestEngine } from './BacktestEngine';
+import { HistoricalMarketData } from './HistoricalMarketData';
+import {
+  BacktestDataset,
+  ParameterSweepConfig,
+  ParameterSweepResult,
+  SweepCandidate,
+  SweepObjective,
+  SweepJob,
+  SweepParameterRange,
+  SweepRunSummary,
+  SweepWindow,
+  WalkForwardFoldResult,
+} from './types';
+
+const DEFAULT_GRID_POINTS = 5;
+const DEFAULT_SEARCH_BUDGET = 30;
+const MAX_EVALUATIONS = 500;
+const DEFAULT_TRAIN_RATIO = 0.7;
+const BAYESIAN_PROPOSALS = 256; // Random points scored by expected improvement per step
+const MAX_RETAINED_JOBS = 50; // Finished jobs kept for polling before the oldest are dropped
+
+// Template names that differ from their StrategyRegistry type
+const TEMPLATE_REGISTRY_TYPES: Record<string, string> = {
+  dca: 'time_based_dca',
+  dollar_cost_averaging: 'time_based_dca',
+  grid: 'grid_trading',
+  grid_trading: 'grid_trading',
+  momentum: 'momentum',
+  momentum_trading: 'momentum',
+  twap: 'execution_algo',
+  vwap: 'execution_algo',
+  take_profit_ladder: 'laddered_exit',
+  scaled_exit: 'laddered_exit',
+};
+
+// Every objective is oriented so that higher is better
+const OBJECTIVES: Record<SweepObjective, (metrics: PaperTradingMetrics) => number> = {
+  sharpe: m => m.sharpeRatio || 0,
+  roi: m => m.roi,
+  maxDrawdown: m => -m.maxDrawdown,
+  totalPnL: m => m.totalPnL,
+  winRate: m => m.winRate,
+  profitFactor: m => m.profitFactor,
+};
+
+/**
+ * Thrown for sweep requests that can never run (bad ranges, windows or grid size)
+ */
+export class SweepConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SweepConfigError';
+  }
+}
+
+/**
+ * Resolved search dimension (numeric range or categorical choice)
+ */
+type ParameterDomain =
+  | { name: string; kind: 'numeric'; min: number; max: number; step?: number; integer: boolean }
+  | { name: string; kind: 'choice'; values: Array<string | number | boolean> };
+
+/**
+ * Validated search space, ready to evaluate
+ */
+interface SweepPlan {
+  domains: ParameterDomain[];
+  windows: SweepWindow[];
+  grid?: Array<Record<string, any>>;
+}
+
+export class ParameterSweepOptimizer {
+  private jobs: Map<string, SweepJob> = new Map();
+
+  constructor(private readonly engine: BacktestEngine = backtestEngine) {}
+
+  /**
+   * Validate a sweep and run it in the background; poll it with getJob()
+   * Throws SweepConfigError synchronously when the request can never run
+   */
+  startJob(dataset: BacktestDataset, config: ParameterSweepConfig): SweepJob {
+    const plan = this.plan(dataset, config);
+    const job: SweepJob = {
+      id: uuidv4(),
+      status: 'running',
+      templateName: config.templateName,
+      method: config.method,
+      objective: config.objective,
+      createdAt: Date.now(),
+    };
+    this.jobs.set(job.id, job);
+    this.pruneJobs();
+
+    this.search(dataset, config, plan)
+      .then(result => {
+        job.status = 'completed';
+        job.result = result;
+      })
+      .catch(error => {
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message : String(error);
+        awsLogger.error('Parameter sweep job failed', { metadata: { jobId: job.id, error: job.error } });
+      })
+      .finally(() => {
+        job.completedAt = Date.now();
+      });
+
+    return job;
+  }
+
+  getJob(jobId: string): SweepJob | undefined {
+    return this.jobs.get(jobId);
+  }
+
+  /**
+   * Run a parameter search and rank the candidates by the configured objective
+   */
+  async optimize(dataset: BacktestDataset, config: ParameterSweepConfig): Promise<ParameterSweepResult> {
+    return this.search(dataset, config, this.plan(dataset, config));
+  }
+
+  /**
+   * Resolve domains, windows and (for grid search) the candidate list, failing fast on bad input
+   */
+  private plan(dataset: BacktestDataset, config: ParameterSweepConfig): SweepPlan {
+    const domains = this.resolveDomains(config);
+
+    let windows: SweepWindow[];
+    try {
+      windows = this.buildWindows(dataset, config);
+    } catch (error) {
+      // Empty histories and inverted time ranges come straight from the request
+      throw error instanceof SweepConfigError ? error : new SweepConfigError(error instanceof Error ? error.message : String(error));
+    }
+
+    if (config.method !== 'grid') {
+      return { domains, windows };
+    }
+
+    const grid = this.buildGrid(domains, config.gridPoints ?? DEFAULT_GRID_POINTS);
+    const cap = Math.min(config.maxEvaluations ?? MAX_EVALUATIONS, MAX_EVALUATIONS);
+    if (grid.length > cap) {
+      throw new SweepConfigError(`Grid has ${grid.length} candidates, above the limit of ${cap}. Use a coarser step, fewer gridPoints or random/bayesian search.`);
+    }
+    return { domains, windows, grid };
+  }
+
+  private async search(dataset: BacktestDataset, config: ParameterSweepConfig, plan: SweepPlan): Promise<ParameterSweepResult> {
+    const startedAt = Date.now();
+    const { domains, windows } = plan;
+    const budget = Math.min(config.maxEvaluations ?? DEFAULT_SEARCH_BUDGET, MAX_EVALUATIONS);
+    const random = createRandom(config.seed ?? Date.now());
+
+    const evaluated = new Map<string, SweepCandidate>();
+    const evaluate = async (params: Record<string, any>): Promise<void> => {
+      const key = JSON.stringify(params);
+      if (!evaluated.has(key)) {
+        evaluated.set(key, await this.evaluateCandidate(params, dataset, windows, config));
+      }
+    };
+
+    console.log(`🔬 [Sweep] ${config.method} search on '${config.templateName}' (${domains.map(d => d.name).join(', ')}), objective ${config.objective}, ${windows.length} window(s)`);
+
+    if (plan.grid) {
+      for (const params of plan.grid) {
+        await evaluate(params);
+      }
+    } else {
+      // Random search and the Bayesian warm-up sample the unit cube uniformly
+      const warmup = config.method === 'random'
+        ? budget
+        : Math.min(budget, config.initialSamples ?? Math.max(5, domains.length * 2));
+
+      for (let attempt = 0; evaluated.size < warmup && attempt < warmup * 10; attempt++) {
+        await evaluate(this.decode(domains, domains.map(() => random())));
+      }
+
+      for (let attempt = 0; evaluated.size < budget && attempt < budget * 10; attempt++) {
+        const point = this.proposeBayesian(domains, Array.from(evaluated.values()), random);
+        await evaluate(this.decode(domains, point));
+      }
+    }
+
+    const candidates = Array.from(evaluated.values());
+    const ranked = [...candidates].sort((a, b) => rankValue(b) - rankValue(a));
+    const walkForward = config.walkForward ? this.summarizeWalkForward(candidates, windows) : undefined;
+
+    const result: ParameterSweepResult = {
+      templateName: config.templateName,
+      method: config.method,
+      objective: config.objective,
+      evaluations: candidates.length,
+      windows,
+      ranked,
+      best: ranked.find(c => !c.error),
+      walkForward,
+      durationMs: Date.now() - startedAt,
+    };
+
+    await awsLogger.info('Parameter sweep completed', {
+      metadata: {
+        templateName: config.templateName,
+        method: config.method,
+        objective: config.objective,
+        evaluations: result.evaluations,
+        bestParams: result.best?.params,
+        bestScore: result.best?.score,
+        walkForwardEfficiency: walkForward?.efficiency,
+      },
+    });
+
+    console.log(`🔬 [Sweep] Done: ${result.evaluations} candidates in ${(result.durationMs / 1000).toFixed(1)}s, best ${config.objective} ${result.best?.score.toFixed(4) ?? 'n/a'}`);
+
+    return result;
+  }
+
+  /**
+   * Merge requested ranges with StrategyRegistry field definitions
+   */
+  private resolveDomains(config: ParameterSweepConfig): ParameterDomain[] {
+    if (config.parameters.length === 0) {
+      throw new SweepConfigError('At least one parameter range is required');
+    }
+
+    const registryType = config.strategyType
+      || config.baseConfig?.strategyType
+      || TEMPLATE_REGISTRY_TYPES[config.templateName.toLowerCase()]
+      || config.templateName;
+    const definition = strategyRegistry.get(registryType);
+
+    return config.parameters.map(range => {
+      const field = definition?.fields.find(f => f.name === range.name);
+      if (definition && !field) {
+        throw new SweepConfigError(`Unknown parameter '${range.name}' for strategy type ${registryType}`);
+      }
+      return this.resolveDomain(range, field);
+    });
+  }
+
+  private resolveDomain(range: SweepParameterRange, field?: StrategyFieldDefinition): ParameterDomain {
+    if (range.values && range.values.length > 0) {
+      return { name: range.name, kind: 'choice', values: range.values };
+    }
+
+    if (field?.type === 'boolean') {
+      return { name: range.name, kind: 'choice', values: [true, false] };
+    }
+
+    if (field && field.type !== 'number') {
+      throw new SweepConfigError(`Parameter '${range.name}' is a ${field.type} field - list its candidate values`);
+    }
+
+    const min = range.min ?? field?.validation?.min;
+    const max = range.max ?? field?.validation?.max;
+    if (min === undefined || max === undefined) {
+      throw new SweepConfigError(`Parameter '${range.name}' needs min and max (no bounds in StrategyRegistry)`);
+    }
+    if (max < min) {
+      throw new SweepConfigError(`Parameter '${range.name}' has max (${max}) below min (${min})`);
+    }
+    if (field?.validation?.min !== undefined && min < field.validation.min) {
+      throw new SweepConfigError(`Parameter '${range.name}' min ${min} is below the registry bound ${field.validation.min}`);
+    }
+    if (field?.validation?.max !== undefined && max > field.validation.max) {
+      throw new SweepConfigError(`Parameter '${range.name}' max ${max} is above the registry bound ${field.validation.max}`);
+    }
+    if (range.step !== undefined && range.step <= 0) {
+      throw new SweepConfigError(`Parameter '${range.name}' step must be positive`);
+    }
+
+    return { name: range.name, kind: 'numeric', min, max, step: range.step, integer: range.integer ?? false };
+  }
+
+  /**
+   * Whole range, or rolling train/test windows for walk-forward validation
+   */
+  private buildWindows(dataset: BacktestDataset, config: ParameterSweepConfig): SweepWindow[] {
+    const feed = new HistoricalMarketData(dataset, config.backtest?.startTime, config.backtest?.endTime);
+    const start = feed.getStartTime();
+    const end = feed.getEndTime();
+
+    if (!config.walkForward) {
+      return [{ fold: 0, trainStart: start, trainEnd: end }];
+    }
+
+    const { folds } = config.walkForward;
+    const trainRatio = config.walkForward.trainRatio ?? DEFAULT_TRAIN_RATIO;
+    if (!Number.isInteger(folds) || folds < 1) {
+      throw new SweepConfigError('walkForward.folds must be a positive integer');
+    }
+    if (trainRatio <= 0 || trainRatio >= 1) {
+      throw new SweepConfigError('walkForward.trainRatio must be between 0 and 1');
+    }
+
+    // Each train window is followed by its test window; windows roll forward by one test length
+    const span = end - start;
+    const trainLength = span * trainRatio;
+    const testLength = (span - trainLength) / folds;
+    if (testLength <= 0) {
+      throw new SweepConfigError('Dataset range is too short for walk-forward validation');
+    }
+
+    return Array.from({ length: folds }, (_, fold) => {
+      const trainStart = Math.round(start + fold * testLength);
+      const trainEnd = Math.round(start + fold * testLength + trainLength);
+      return {
+        fold,
+        trainStart,
+        trainEnd,
+        testStart: trainEnd,
+        testEnd: fold === folds - 1 ? end : Math.round(start + (fold + 1) * testLength + trainLength),
+      };
+    });
+  }
+
+  /**
+   * Backtest one parameter set on every window
+   */
+  private async evaluateCandidate(
+    params: Record<string, any>,
+    dataset: BacktestDataset,
+    windows: SweepWindow[],
+    config: ParameterSweepConfig
+  ): Promise<SweepCandidate> {
+    const scoreOf = OBJECTIVES[config.objective];
+    const runs: SweepRunSummary[] = [];
+
+    try {
+      const strategy = this.buildStrategy(params, config);
+
+      for (const window of windows) {
+        const samples: Array<['in' | 'out', number, number]> = [['in', window.trainStart, window.trainEnd]];
+        if (window.testStart !== undefined && window.testEnd !== undefined) {
+          samples.push(['out', window.testStart, window.testEnd]);
+        }
+
+        for (const [sample, startTime, endTime] of samples) {
+          const result = await this.engine.runBacktest(strategy, dataset, { ...config.backtest, startTime, endTime });
+          const score = scoreOf(result.metrics);
+          runs.push({
+            fold: window.fold,
+            sample,
+            score: Number.isFinite(score) ? score : 0,
+            roi: result.metrics.roi,
+            sharpeRatio: result.metrics.sharpeRatio || 0,
+            maxDrawdown: result.metrics.maxDrawdown,
+            totalTrades: result.metrics.totalTrades,
+            stopReason: result.stopReason,
+          });
+        }
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      awsLogger.warn('Parameter sweep candidate failed', { metadata: { params, error: message } });
+      return { params, inSampleScore: -Infinity, score: -Infinity, runs, error: message };
+    }
+
+    const inSampleScore = mean(runs.filter(r => r.sample === 'in').map(r => r.score));
+    const outOfSample = runs.filter(r => r.sample === 'out').map(r => r.score);
+    const outOfSampleScore = outOfSample.length > 0 ? mean(outOfSample) : undefined;
+
+    return {
+      params,
+      inSampleScore,
+      outOfSampleScore,
+      score: inSampleScore,
+      runs,
+    };
+  }
+
+  /**
+   * Instantiate the template without leaving it registered in the shared builder
+   */
+  private buildStrategy(params: Record<string, any>, config: ParameterSweepConfig): Strategy {
+    const baseId = config.baseConfig?.id || config.templateName;
+    const templateConfig = { ...config.baseConfig, ...params, id: `${baseId}_sweep_${uuidv4().slice(0, 8)}` };
+
+    try {
+      const strategy = createStrategyFromTemplate(config.templateName, templateConfig);
+      return { ...strategy, variables: { ...(strategy.variables || {}) } };
+    } finally {
+      strategyBuilder.deleteStrategy(templateConfig.id);
+    }
+  }
+
+  /**
+   * Cartesian product of the per-parameter grids
+   */
+  private buildGrid(domains: ParameterDomain[], gridPoints: number): Array<Record<string, any>> {
+    const axes = domains.map(domain => {
+      if (domain.kind === 'choice') return domain.values;
+
+      const values: number[] = [];
+      if (domain.step !== undefined) {
+        for (let v = domain.min; v <= domain.max + 1e-12 && values.length <= MAX_EVALUATIONS; v += domain.step) {
+          values.push(this.snap(domain, v));
+        }
+      } else {
+        const points = Math.max(1, Math.floor(gridPoints));
+        for (let i = 0; i < points; i++) {
+          values.push(this.snap(domain, points === 1 ? domain.min : domain.min + (i / (points - 1)) * (domain.max - domain.min)));
+        }
+      }
+      return Array.from(new Set(values));
+    });
+
+    return axes.reduce<Array<Record<string, any>>>(
+      (combos, axis, i) => combos.flatMap(combo => axis.map(value => ({ ...combo, [domains[i].name]: value }))),
+      [{}]
+    );
+  }
+
+  /**
+   * Gaussian-process surrogate over the unit cube, maximizing expected improvement
+   */
+  private proposeBayesian(domains: ParameterDomain[], candidates: SweepCandidate[], random: () => number): number[] {
+    const scored = candidates.filter(c => Number.isFinite(c.inSampleScore));
+    if (scored.length < 2) {
+      return domains.map(() => random());
+    }
+
+    // Failed candidates are pinned to the worst observed score so the search avoids them
+    const worst = Math.min(...scored.map(c => c.inSampleScore));
+    const observations = candidates.map(c => ({
+      x: this.encode(domains, c.params),
+      y: Number.isFinite(c.inSampleScore) ? c.inSampleScore : worst,
+    }));
+
+    const ys = observations.map(o => o.y);
+    const yMean = mean(ys);
+    const yStd = Math.sqrt(mean(ys.map(y => (y - yMean) ** 2))) || 1;
+    const y = ys.map(v => (v - yMean) / yStd);
+    const best = Math.max(...y);
+
+    const lengthScale = 0.25 * Math.sqrt(domains.length);
+    const kernel = (a: number[], b: number[]) =>
+      Math.exp(-a.reduce((sum, ai, i) => sum + (ai - b[i]) ** 2, 0) / (2 * lengthScale ** 2));
+
+    const K = observations.map((oi, i) => observations.map((oj, j) => kernel(oi.x, oj.x) + (i === j ? 1e-4 : 0)));
+    const L = cholesky(K);
+    const alpha = solveUpper(L, solveLower(L, y));
+
+    let bestPoint = domains.map(() => random());
+    let bestEI = -Infinity;
+    for (let i = 0; i < BAYESIAN_PROPOSALS; i++) {
+      const point = this.encode(domains, this.decode(domains, domains.map(() => random())));
+      const k = observations.map(o => kernel(point, o.x));
+      const mu = k.reduce((sum, ki, j) => sum + ki * alpha[j], 0);
+      const v = solveLower(L, k);
+      const sigma = Math.sqrt(Math.max(1e-12, 1 - v.reduce((sum, vi) => sum + vi * vi, 0)));
+      const z = (mu - best) / sigma;
+      const ei = (mu - best) * normalCdf(z) + sigma * normalPdf(z);
+      if (ei > bestEI) {
+        bestEI = ei;
+        bestPoint = point;
+      }
+    }
+    return bestPoint;
+  }
+
+  /**
+   * Per fold: pick the best in-sample candidate and report how it did out of sample
+   */
+  private summarizeWalkForward(
+    candidates: SweepCandidate[],
+    windows: SweepWindow[]
+  ): { folds: WalkForwardFoldResult[]; efficiency: number } {
+    const folds: WalkForwardFoldResult[] = [];
+
+    for (const window of windows) {
+      let pick: { candidate: SweepCandidate; inSample: number; outOfSample: number } | undefined;
+      for (const candidate of candidates) {
+        if (candidate.error) continue;
+        const inSample = candidate.runs.find(r => r.fold === window.fold && r.sample === 'in');
+        const outOfSample = candidate.runs.find(r => r.fold === window.fold && r.sample === 'out');
+        if (!inSample || !outOfSample) continue;
+        if (!pick || inSample.score > pick.inSample) {
+          pick = { candidate, inSample: inSample.score, outOfSample: outOfSample.score };
+        }
+      }
+      if (pick) {
+        folds.push({ ...window, params: pick.candidate.params, inSampleScore: pick.inSample, outOfSampleScore: pick.outOfSample });
+      }
+    }
+
+    const inSampleMean = mean(folds.map(f => f.inSampleScore));
+    return {
+      folds,
+      efficiency: inSampleMean !== 0 ? mean(folds.map(f => f.outOfSampleScore)) / inSampleMean : 0,
+    };
+  }
+
+  /**
+   * Drop the oldest finished jobs once more than MAX_RETAINED_JOBS are held
+   */
+  private pruneJobs(): void {
+    const finished = Array.from(this.jobs.values())
+      .filter(job => job.status !== 'running')
+      .sort((a, b) => (a.completedAt ?? a.createdAt) - (b.completedAt ?? b.createdAt));
+    for (const job of finished.slice(0, Math.max(0, this.jobs.size - MAX_RETAINED_JOBS))) {
+      this.jobs.delete(job.id);
+    }
+  }
+
+  private decode(domains: ParameterDomain[], point: number[]): Record<string, any> {
+    const params: Record<string, any> = {};
+    domains.forEach((domain, i) => {
+      const u = Math.min(Math.max(point[i], 0), 1);
+      params[domain.name] = domain.kind === 'choice'
+        ? domain.values[Math.min(Math.floor(u * domain.values.length), domain.values.length - 1)]
+        : this.snap(domain, domain.min + u * (domain.max - domain.min));
+    });
+    return params;
+  }
+
+  private encode(domains: ParameterDomain[], params: Record<string, any>): number[] {
+    return domains.map(domain => {
+      if (domain.kind === 'choice') {
+        const index = Math.max(0, domain.values.indexOf(params[domain.name]));
+        return (index + 0.5) / domain.values.length;
+      }
+      return domain.max > domain.min ? (params[domain.name] - domain.min) / (domain.max - domain.min) : 0.5;
+    });
+  }
+
+  private snap(domain: Extract<ParameterDomain, { kind: 'numeric' }>, value: number): number {
+    let snapped = domain.step !== undefined
+      ? domain.min + Math.round((value - domain.min) / domain.step) * domain.step
+      : value;
+    if (domain.integer) snapped = Math.round(snapped);
+    snapped = Math.min(Math.max(snapped, domain.min), domain.max);
+    return parseFloat(snapped.toPrecision(12)); // Drop float noise so grid values stay readable
+  }
+}
+
+function rankValue(candidate: SweepCandidate): number {
+  return candidate.error ? -Infinity : candidate.score;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+/**
+ * Seeded PRNG (mulberry32) so sweeps can be reproduced
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function cholesky(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const L = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k];
+      L[i][j] = i === j ? Math.sqrt(Math.max(sum, 1e-12)) : sum / L[j][j];
+    }
+  }
+  return L;
+}
+
+function solveLower(L: number[][], b: number[]): number[] {
+  const x = new Array<number>(b.length).fill(0);
+  for (let i = 0; i < b.length; i++) {
+    let sum = b[i];
+    for (let k = 0; k < i; k++) sum -= L[i][k] * x[k];
+    x[i] = sum / L[i][i];
+  }
+  return x;
+}
+
+function solveUpper(L: number[][], b: number[]): number[] {
+  // Solves L^T x = b
+  const n = b.length;
+  const x = new Array<number>(n).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = b[i];
+    for (let k = i + 1; k < n; k++) sum -= L[k][i] * x[k];
+    x[i] = sum / L[i][i];
+  }
+  return x;
+}
+
+function normalPdf(z: number): number {
+  return Math.exp(-0.5 * z * z) / Math.sqrt(2 * Math.PI);
+}
+
+function normalCdf(z: number): number {
+  // Abramowitz & Stegun 7.1.26
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-(z * z) / 2);
+  return z >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+}
+
+// Singleton instance
+export const parameterSweepOptimizer = new ParameterSweepOptimizer();
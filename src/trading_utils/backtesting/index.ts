@@ -0,0 +1,11 @@
+/**
+ * Backtesting Module Exports
+ * 
+ * Central export point for historical strategy replay
+ */
+
+export * from './types';
+export { HistoricalMarketData } from './HistoricalMarketData';
+export { BacktestTradingProvider } from './BacktestTradingProvider';
+export { BacktestEngine, backtestEngine, calculateMaxDrawdown, calculateSharpeRatio } from './BacktestEngine';
+export { ParameterSweepOptimizer, parameterSweepOptimizer, SweepConfigError } from './ParameterSweepOptimizer';
@@ -0,0 +1,188 @@
+/**
+ * Backtesting Types & Interfaces
+ *
+ * Type definitions for replaying strategies against recorded market history
+ */
+
+import type { RealTradeEvent } from '../../server/websocket/RealTradeFeedService';
+import type { StrategyContext } from '../StrategyBuilder';
+import type { MarketData, PaperTrade, PaperTradingConfig, PaperTradingMetrics, PortfolioPriceSource } from '../paper-trading/types';
+
+export interface HistoricalPricePoint {
+  timestamp: number;
+  price: number; // TOKEN/SOL
+  priceUSD?: number; // Defaults to price * solPrice
+  solPrice?: number; // SOL/USD, defaults to the dataset SOL price
+  volume?: number;
+}
+
+export interface BacktestDataset {
+  tokenAddress: string;
+  tokenSymbol?: string;
+  prices: HistoricalPricePoint[];
+  trades?: RealTradeEvent[]; // Recorded trades, also replayed as price ticks
+  solPriceUSD?: number; // Fallback SOL/USD when a point does not carry one
+}
+
+/**
+ * Recorded market a replay provider trades against on a simulated clock
+ * (HistoricalMarketData, LaunchTapeMarketData)
+ */
+export interface ReplayMarketData extends PortfolioPriceSource {
+  getTokenAddress(): string; // Token orders go to
+  now(): number;
+  getCurrentTick(): HistoricalPricePoint;
+  toMarketData(tick: HistoricalPricePoint): MarketData;
+  advanceBy(durationMs: number): void;
+  advanceUntil(predicate: (tick: HistoricalPricePoint) => boolean, deadline: number): HistoricalPricePoint | null;
+}
+
+export interface BacktestConfig {
+  initialBalanceSOL?: number;
+  initialBalanceUSDC?: number;
+  fillModel?: Partial<PaperTradingConfig>; // Overrides the paper engine's default fee/slippage settings
+  startTime?: number; // Defaults to the first recorded tick
+  endTime?: number; // Defaults to the last recorded tick
+  restartDelayMs?: number; // Simulated delay between executeStrategy re-invocations
+  maxExecutions?: number; // Safety limit on executeStrategy re-invocations
+  equitySampleIntervalMs?: number; // Minimum spacing between equity points (trades are always sampled)
+  variables?: Record<string, any>; // Extra initial context variables
+}
+
+export interface EquityPoint {
+  timestamp: number;
+  price: number; // TOKEN/SOL at this point
+  balanceSOL: number;
+  balanceTokens: number;
+  totalValueSOL: number;
+  totalValueUSD: number;
+}
+
+export type BacktestStopReason = 'completed' | 'data_exhausted' | 'max_executions' | 'error';
+
+export interface BacktestResult {
+  strategyId: string;
+  strategyName: string;
+  tokenAddress: string;
+  startTime: number; // Simulated
+  endTime: number; // Simulated
+  stopReason: BacktestStopReason;
+  error?: string;
+  executions: number;
+  failedExecutions: number;
+  metrics: PaperTradingMetrics;
+  equityCurve: EquityPoint[];
+  trades: PaperTrade[];
+  finalContext: StrategyContext;
+}
+
+export type BacktestJobStatus = 'running' | 'completed' | 'failed';
+
+export interface BacktestJob {
+  id: string;
+  status: BacktestJobStatus;
+  strategyId: string;
+  tokenAddress: string;
+  createdAt: number;
+  completedAt?: number;
+  result?: BacktestResult; // Set once completed
+  error?: string; // Set once failed
+}
+
+/**
+ * Parameter sweeps (template parameters searched by replaying history)
+ */
+export type SweepSearchMethod = 'grid' | 'random' | 'bayesian';
+export type SweepObjective = 'sharpe' | 'roi' | 'maxDrawdown' | 'totalPnL' | 'winRate' | 'profitFactor';
+
+export interface SweepParameterRange {
+  name: string; // Template config field
+  min?: number; // Defaults to the StrategyRegistry field bound
+  max?: number; // Defaults to the StrategyRegistry field bound
+  step?: number; // Grid spacing / snapping (default: gridPoints evenly spaced values)
+  integer?: boolean;
+  values?: Array<string | number | boolean>; // Explicit candidates (categorical fields)
+}
+
+export interface WalkForwardConfig {
+  folds: number; // Rolling train/test windows
+  trainRatio?: number; // Share of the range covered by each train window (default 0.7)
+}
+
+export interface ParameterSweepConfig {
+  templateName: string; // createStrategyFromTemplate name
+  strategyType?: string; // StrategyRegistry type for bounds (derived from templateName when omitted)
+  baseConfig?: Record<string, any>; // Fixed template fields
+  parameters: SweepParameterRange[];
+  method: SweepSearchMethod;
+  objective: SweepObjective;
+  maxEvaluations?: number; // Candidate budget (grid: hard cap on the grid size)
+  gridPoints?: number; // Values per numeric parameter without a step (default 5)
+  initialSamples?: number; // Random warm-up before Bayesian proposals
+  seed?: number; // Makes random/Bayesian sampling reproducible
+  walkForward?: WalkForwardConfig;
+  backtest?: BacktestConfig;
+}
+
+export interface SweepWindow {
+  fold: number;
+  trainStart: number;
+  trainEnd: number;
+  testStart?: number; // Only with walk-forward validation
+  testEnd?: number;
+}
+
+export interface SweepRunSummary {
+  fold: number;
+  sample: 'in' | 'out';
+  score: number;
+  roi: number;
+  sharpeRatio: number;
+  maxDrawdown: number;
+  totalTrades: number;
+  stopReason: BacktestStopReason;
+}
+
+export interface SweepCandidate {
+  params: Record<string, any>;
+  inSampleScore: number; // Mean objective over train windows (guides the search)
+  outOfSampleScore?: number; // Mean objective over test windows
+  score: number; // Ranking score: always in-sample, test windows are reported only
+  runs: SweepRunSummary[];
+  error?: string;
+}
+
+export interface WalkForwardFoldResult extends SweepWindow {
+  params: Record<string, any>; // Best in-sample candidate for this fold
+  inSampleScore: number;
+  outOfSampleScore: number;
+}
+
+export interface ParameterSweepResult {
+  templateName: string;
+  method: SweepSearchMethod;
+  objective: SweepObjective;
+  evaluations: number;
+  windows: SweepWindow[];
+  ranked: SweepCandidate[]; // Best first
+  best?: SweepCandidate;
+  walkForward?: {
+    folds: WalkForwardFoldResult[];
+    efficiency: number; // Mean out-of-sample / mean in-sample score of the per-fold picks
+  };
+  durationMs: number;
+}
+
+export type SweepJobStatus = 'running' | 'completed' | 'failed';
+
+export interface SweepJob {
+  id: string;
+  status: SweepJobStatus;
+  templateName: string;
+  method: SweepSearchMethod;
+  objective: SweepObjective;
+  createdAt: number;
+  completedAt?: number;
+  result?: ParameterSweepResult; // Set once completed
+  error?: string; // Set once failed
+}
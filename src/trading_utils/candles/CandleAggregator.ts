@@ -0,0 +1,538 @@
+/**
+ * Candle Aggregator
+ *
+ * Folds live trades (RealTradeFeedService, SolanaTradeMonitor) and MarketDataProvider price ticks
+ * into 1s/1m/5m/1h OHLCV candles per token. Changed candles are written to the candles table on a
+ * timer and pushed to 'candles:subscribe' rooms. Ticks only shape candles without trades, so a
+ * quoted price never overrides what actually traded. Closed buckets missing from storage (e.g. the
+ * server was down) are rebuilt from recorded trades when they are queried.
+ */
+
+import { EventEmitter } from 'events';
+import type { Server as SocketServer } from 'socket.io';
+import {
+  deleteCandlesBefore,
+  findCandles,
+  findTradesByTokenInRange,
+  upsertCandles,
+  UpsertCandleInput,
+} from '../../database/dal';
+import type { Candle as CandleRecord } from '../../database/client';
+import type { RealTradeFeedService } from '../../server/websocket/RealTradeFeedService';
+import { CANDLE_CONFIG } from '../config';
+import type { MarketData } from '../paper-trading/types';
+import {
+  Candle,
+  CandleAggregatorOptions,
+  CandleInterval,
+  CandleQuery,
+  CandleSource,
+  CandleTrade,
+  CandleUpdate,
+  CANDLE_INTERVAL_MS,
+  isCandleInterval,
+} from './types';
+
+interface FormingCandle {
+  candle: Candle;
+  closed: boolean; // Bucket has elapsed (the candle stays here until the next bucket starts)
+}
+
+interface TokenCandles {
+  forming: Map<CandleInterval, FormingCandle>;
+  lastTradeAt: number;
+  signatures: Set<string>; // Recently seen trades - several feeds can report the same one
+}
+
+const MAX_SIGNATURES_PER_TOKEN = 1000;
+const MAX_PENDING_CANDLES = 50000; // Unflushed candles kept while the database is unreachable
+const CLOSE_CHECK_INTERVAL_MS = 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export class CandleAggregator extends EventEmitter {
+  private tokens: Map<string, TokenCandles> = new Map(); // Insertion order = least recently updated first
+  private pending: Map<string, Candle> = new Map(); // Changed candles awaiting flush, by candleKey
+  private feeds: Set<RealTradeFeedService> = new Set();
+  private io?: SocketServer;
+  private timer: NodeJS.Timeout | null = null;
+  private flushing = false;
+  private lastFlushAt = 0;
+  private lastPruneAt = 0;
+  private readonly options: CandleAggregatorOptions;
+
+  private tradeHandler = (trade: CandleTrade) => {
+    this.ingestTrade(trade);
+  };
+
+  constructor(options: Partial<CandleAggregatorOptions> = {}) {
+    super();
+    this.options = {
+      intervals: CANDLE_CONFIG.INTERVALS.filter(isCandleInterval),
+      flushIntervalMs: CANDLE_CONFIG.FLUSH_INTERVAL_MS,
+      maxTokens: CANDLE_CONFIG.MAX_TOKENS,
+      defaultLimit: CANDLE_CONFIG.DEFAULT_LIMIT,
+      maxLimit: CANDLE_CONFIG.MAX_LIMIT,
+      backfillMaxTrades: CANDLE_CONFIG.BACKFILL_MAX_TRADES,
+      secondCandleRetentionHours: CANDLE_CONFIG.SECOND_CANDLE_RETENTION_HOURS,
+      ...options,
+    };
+  }
+
+  /**
+   * Set WebSocket server for 'candles:update' pushes
+   */
+  setSocketIO(io: SocketServer): void {
+    this.io = io;
+  }
+
+  /**
+   * Build candles from a feed's unfiltered trades (its recent-trade buffer is also used for backfill)
+   */
+  attachTradeFeed(feed: RealTradeFeedService): void {
+    if (this.feeds.has(feed)) return;
+    this.feeds.add(feed);
+    feed.on('market_trade', this.tradeHandler);
+  }
+
+  detachTradeFeed(feed: RealTradeFeedService): void {
+    if (this.feeds.delete(feed)) {
+      feed.off('market_trade', this.tradeHandler);
+    }
+  }
+
+  /**
+   * Start closing elapsed candles and flushing them to the database
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), CLOSE_CHECK_INTERVAL_MS);
+    console.log(`🕯️ [CandleAggregator] Started (${this.options.intervals.join(', ')} candles, flush every ${this.options.flushIntervalMs}ms)`);
+  }
+
+  /**
+   * Stop the timer and write everything still in memory, including forming candles
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    for (const state of this.tokens.values()) {
+      for (const entry of state.forming.values()) {
+        this.markPending(entry.candle);
+      }
+    }
+    await this.flush();
+  }
+
+  /**
+   * Fold a trade into every interval. Returns false if it was invalid or already seen.
+   */
+  ingestTrade(trade: CandleTrade): boolean {
+    if (!trade?.tokenAddress || !(trade.price > 0) || !Number.isFinite(trade.price) || !Number.isFinite(trade.timestamp)) {
+      return false;
+    }
+
+    const state = this.touch(trade.tokenAddress);
+    if (trade.signature) {
+      if (state.signatures.has(trade.signature)) return false;
+      state.signatures.add(trade.signature);
+      if (state.signatures.size > MAX_SIGNATURES_PER_TOKEN) {
+        state.signatures.delete(state.signatures.values().next().value!);
+      }
+    }
+
+    const isLatest = trade.timestamp >= state.lastTradeAt;
+    if (isLatest) state.lastTradeAt = trade.timestamp;
+
+    for (const interval of this.options.intervals) {
+      const openTime = bucketStart(trade.timestamp, interval);
+      let entry = state.forming.get(interval);
+
+      if (entry && openTime < entry.candle.openTime) {
+        // Late trade for an earlier bucket - patch it if it has not been flushed yet
+        const earlier = this.pending.get(candleKey(trade.tokenAddress, interval, openTime));
+        if (earlier) {
+          applyTrade(earlier, trade, false);
+          this.emitUpdate(earlier, true);
+        }
+        continue;
+      }
+
+      if (!entry || openTime > entry.candle.openTime) {
+        if (entry) this.closeCandle(entry);
+        entry = { candle: createCandle(trade.tokenAddress, interval, openTime, trade.price, 'trade'), closed: false };
+        state.forming.set(interval, entry);
+      } else if (entry.candle.trades === 0) {
+        // First trade in a tick-only bucket replaces the quoted prices
+        Object.assign(entry.candle, createCandle(trade.tokenAddress, interval, openTime, trade.price, 'trade'));
+      }
+
+      applyTrade(entry.candle, trade, isLatest);
+      this.markPending(entry.candle);
+      this.emitUpdate(entry.candle, entry.closed);
+    }
+
+    return true;
+  }
+
+  /**
+   * Fold a quoted price into candles that have no trades yet
+   */
+  ingestTick(data: MarketData): void {
+    const price = data?.price;
+    if (!data?.tokenAddress || !(price > 0) || !Number.isFinite(price)) return;
+
+    const timestamp = Number.isFinite(data.timestamp) ? data.timestamp : Date.now();
+    const state = this.touch(data.tokenAddress);
+
+    for (const interval of this.options.intervals) {
+      const openTime = bucketStart(timestamp, interval);
+      let entry = state.forming.get(interval);
+
+      if (entry && openTime < entry.candle.openTime) continue;
+
+      if (!entry || openTime > entry.candle.openTime) {
+        if (entry) this.closeCandle(entry);
+        entry = { candle: createCandle(data.tokenAddress, interval, openTime, price, 'tick'), closed: false };
+        state.forming.set(interval, entry);
+      } else if (entry.candle.trades > 0) {
+        continue;
+      } else {
+        entry.candle.high = Math.max(entry.candle.high, price);
+        entry.candle.low = Math.min(entry.candle.low, price);
+        entry.candle.close = price;
+      }
+
+      this.markPending(entry.candle);
+      this.emitUpdate(entry.candle, entry.closed);
+    }
+  }
+
+  /**
+   * Candles for a token, oldest first. Without a range, returns the latest `limit` buckets.
+   * Closed buckets with no stored candle are rebuilt from recorded trades (and persisted).
+   */
+  async getCandles(tokenAddress: string, interval: CandleInterval, query: CandleQuery = {}): Promise<Candle[]> {
+    const stepMs = CANDLE_INTERVAL_MS[interval];
+    const limit = Math.min(Math.max(Math.floor(query.limit || this.options.defaultLimit), 1), this.options.maxLimit);
+    const to = query.to ?? Date.now();
+    const from = bucketStart(query.from ?? to - (limit - 1) * stepMs, interval);
+    if (from > to) return [];
+
+    const candles = new Map<number, Candle>();
+
+    try {
+      const stored = await findCandles(tokenAddress, interval, new Date(from), new Date(to), limit);
+      for (const record of stored) {
+        candles.set(record.openTime.getTime(), fromRecord(record));
+      }
+    } catch (error) {
+      console.warn(`⚠️ [CandleAggregator] Could not read stored candles for ${tokenAddress}:`, error instanceof Error ? error.message : error);
+    }
+
+    // In-memory candles are newer than anything stored
+    for (const candle of this.pending.values()) {
+      if (candle.tokenAddress === tokenAddress && candle.interval === interval && candle.openTime >= from && candle.openTime <= to) {
+        candles.set(candle.openTime, { ...candle });
+      }
+    }
+    const forming = this.tokens.get(tokenAddress)?.forming.get(interval)?.candle;
+    if (forming && forming.openTime >= from && forming.openTime <= to) {
+      candles.set(forming.openTime, { ...forming });
+    }
+
+    const expected = Math.floor((bucketStart(to, interval) - from) / stepMs) + 1;
+    if (candles.size < expected) {
+      const now = Date.now();
+      const rebuilt = await this.rebuildFromTrades(tokenAddress, interval, from, to);
+      for (const candle of rebuilt) {
+        // Only closed buckets - the forming one belongs to the live stream
+        if (candles.has(candle.openTime) || candle.openTime + stepMs > now) continue;
+        candles.set(candle.openTime, candle);
+        this.markPending(candle);
+      }
+      if (rebuilt.length > 0) {
+        console.log(`🕯️ [CandleAggregator] Backfilled ${tokenAddress.substring(0, 8)}... ${interval} gaps from ${rebuilt.length} rebuilt candle(s)`);
+      }
+    }
+
+    return Array.from(candles.values())
+      .sort((a, b) => a.openTime - b.openTime)
+      .slice(-limit);
+  }
+
+  /**
+   * Forming candle for a token (undefined if it has no data for the interval)
+   */
+  getLatestCandle(tokenAddress: string, interval: CandleInterval): Candle | undefined {
+    const candle = this.tokens.get(tokenAddress)?.forming.get(interval)?.candle;
+    return candle ? { ...candle } : undefined;
+  }
+
+  getIntervals(): CandleInterval[] {
+    return [...this.options.intervals];
+  }
+
+  getStats() {
+    return {
+      trackedTokens: this.tokens.size,
+      pendingCandles: this.pending.size,
+      attachedFeeds: this.feeds.size,
+      intervals: this.options.intervals,
+      running: this.timer !== null,
+      lastFlushAt: this.lastFlushAt || null,
+    };
+  }
+
+  /**
+   * Write changed candles to the database (failed writes are retried on the next flush)
+   */
+  async flush(): Promise<number> {
+    if (this.flushing || this.pending.size === 0) return 0;
+
+    this.flushing = true;
+    const batch = Array.from(this.pending.values());
+    this.pending.clear();
+
+    try {
+      const written = await upsertCandles(batch.map(toRecord));
+      this.lastFlushAt = Date.now();
+      return written;
+    } catch (error) {
+      for (const candle of batch) {
+        const key = candleKey(candle.tokenAddress, candle.interval, candle.openTime);
+        if (!this.pending.has(key)) this.pending.set(key, candle);
+      }
+      this.trimPending();
+      console.error(`❌ [CandleAggregator] Failed to store ${batch.length} candle(s):`, error instanceof Error ? error.message : error);
+      return 0;
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  /**
+   * Drop in-memory state for one token (or all). Unflushed candles are kept.
+   */
+  reset(tokenAddress?: string): void {
+    if (tokenAddress) {
+      this.tokens.delete(tokenAddress);
+    } else {
+      this.tokens.clear();
+    }
+  }
+
+  private tick(): void {
+    const now = Date.now();
+
+    for (const state of this.tokens.values()) {
+      for (const entry of state.forming.values()) {
+        if (!entry.closed && entry.candle.openTime + CANDLE_INTERVAL_MS[entry.candle.interval] <= now) {
+          this.closeCandle(entry);
+        }
+      }
+    }
+
+    if (now - this.lastFlushAt >= this.options.flushIntervalMs) {
+      this.lastFlushAt = now; // Also spaces out retries while the database is down
+      this.flush().catch(() => undefined);
+    }
+
+    const retentionHours = this.options.secondCandleRetentionHours;
+    if (retentionHours > 0 && now - this.lastPruneAt >= PRUNE_INTERVAL_MS) {
+      this.lastPruneAt = now;
+      deleteCandlesBefore(new Date(now - retentionHours * 60 * 60 * 1000), '1s')
+        .then(count => {
+          if (count > 0) console.log(`🧹 [CandleAggregator] Pruned ${count} 1s candle(s) older than ${retentionHours}h`);
+        })
+        .catch(error => {
+          console.warn('⚠️ [CandleAggregator] Failed to prune 1s candles:', error instanceof Error ? error.message : error);
+        });
+    }
+  }
+
+  /**
+   * Rebuild candles from the feeds' trade buffers and live trades recorded in the trades table
+   */
+  private async rebuildFromTrades(tokenAddress: string, interval: CandleInterval, from: number, to: number): Promise<Candle[]> {
+    const trades: CandleTrade[] = [];
+
+    for (const feed of this.feeds) {
+      for (const trade of feed.getRecentTrades(tokenAddress, this.options.backfillMaxTrades)) {
+        if (trade.timestamp >= from && trade.timestamp <= to) trades.push(trade);
+      }
+    }
+
+    try {
+      const recorded = await findTradesByTokenInRange(tokenAddress, new Date(from), new Date(to), {
+        isPaper: false,
+        limit: this.options.backfillMaxTrades,
+      });
+      for (const trade of recorded) {
+        trades.push({
+          tokenAddress,
+          type: trade.type === 'BUY' ? 'buy' : 'sell',
+          price: trade.price,
+          solAmount: trade.amountSOL,
+          tokenAmount: trade.amountTokens,
+          timestamp: trade.createdAt.getTime(),
+          signature: trade.signature || undefined,
+        });
+      }
+    } catch (error) {
+      console.warn(`⚠️ [CandleAggregator] Could not read recorded trades for ${tokenAddress}:`, error instanceof Error ? error.message : error);
+    }
+
+    return aggregateTrades(trades, interval, 'backfill');
+  }
+
+  private touch(tokenAddress: string): TokenCandles {
+    let state = this.tokens.get(tokenAddress);
+    if (state) {
+      this.tokens.delete(tokenAddress);
+    } else {
+      if (this.tokens.size >= this.options.maxTokens) {
+        const [evicted, evictedState] = this.tokens.entries().next().value!;
+        this.tokens.delete(evicted);
+        for (const entry of evictedState.forming.values()) {
+          this.markPending(entry.candle);
+        }
+      }
+      state = { forming: new Map(), lastTradeAt: 0, signatures: new Set() };
+    }
+    this.tokens.set(tokenAddress, state);
+    return state;
+  }
+
+  private closeCandle(entry: FormingCandle): void {
+    if (entry.closed) return;
+    entry.closed = true;
+    this.markPending(entry.candle);
+    this.emitUpdate(entry.candle, true);
+  }
+
+  private markPending(candle: Candle): void {
+    this.pending.set(candleKey(candle.tokenAddress, candle.interval, candle.openTime), candle);
+    this.trimPending();
+  }
+
+  private trimPending(): void {
+    while (this.pending.size > MAX_PENDING_CANDLES) {
+      this.pending.delete(this.pending.keys().next().value!);
+    }
+  }
+
+  private emitUpdate(candle: Candle, closed: boolean): void {
+    const update: CandleUpdate = {
+      tokenAddress: candle.tokenAddress,
+      interval: candle.interval,
+      candle: { ...candle },
+      closed,
+    };
+    this.emit('candle', update);
+    this.io?.to(candleRoom(candle.tokenAddress, candle.interval)).emit('candles:update', update);
+  }
+}
+
+/**
+ * Socket.io room for one token/interval stream
+ */
+export function candleRoom(tokenAddress: string, interval: CandleInterval): string {
+  return `candles:${tokenAddress}:${interval}`;
+}
+
+/**
+ * Build candles from a batch of trades (oldest first; duplicate signatures count once)
+ */
+export function aggregateTrades(trades: CandleTrade[], interval: CandleInterval, source: CandleSource = 'trade'): Candle[] {
+  const seen = new Set<string>();
+  const candles = new Map<number, Candle>();
+
+  const ordered = trades
+    .filter(t => t.price > 0 && Number.isFinite(t.price) && Number.isFinite(t.timestamp))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  for (const trade of ordered) {
+    if (trade.signature) {
+      if (seen.has(trade.signature)) continue;
+      seen.add(trade.signature);
+    }
+    const openTime = bucketStart(trade.timestamp, interval);
+    let candle = candles.get(openTime);
+    if (!candle) {
+      candle = createCandle(trade.tokenAddress, interval, openTime, trade.price, source);
+      candles.set(openTime, candle);
+    }
+    applyTrade(candle, trade, true);
+  }
+
+  return Array.from(candles.values());
+}
+
+function bucketStart(timestamp: number, interval: CandleInterval): number {
+  const stepMs = CANDLE_INTERVAL_MS[interval];
+  return Math.floor(timestamp / stepMs) * stepMs;
+}
+
+function candleKey(tokenAddress: string, interval: CandleInterval, openTime: number): string {
+  return `${tokenAddress}|${interval}|${openTime}`;
+}
+
+function createCandle(tokenAddress: string, interval: CandleInterval, openTime: number, price: number, source: CandleSource): Candle {
+  return {
+    tokenAddress,
+    interval,
+    openTime,
+    open: price,
+    high: price,
+    low: price,
+    close: price,
+    volumeSol: 0,
+    volumeTokens: 0,
+    buyVolumeSol: 0,
+    sellVolumeSol: 0,
+    trades: 0,
+    source,
+  };
+}
+
+function applyTrade(candle: Candle, trade: CandleTrade, updateClose: boolean): void {
+  candle.high = Math.max(candle.high, trade.price);
+  candle.low = Math.min(candle.low, trade.price);
+  if (updateClose) candle.close = trade.price;
+  candle.volumeSol += trade.solAmount || 0;
+  candle.volumeTokens += trade.tokenAmount || 0;
+  if (trade.type === 'buy') {
+    candle.buyVolumeSol += trade.solAmount || 0;
+  } else {
+    candle.sellVolumeSol += trade.solAmount || 0;
+  }
+  candle.trades++;
+}
+
+function toRecord(candle: Candle): UpsertCandleInput {
+  const { openTime, ...values } = candle;
+  return { ...values, openTime: new Date(openTime) };
+}
+
+function fromRecord(record: CandleRecord): Candle {
+  return {
+    tokenAddress: record.tokenAddress,
+    interval: record.interval as CandleInterval,
+    openTime: record.openTime.getTime(),
+    open: record.open,
+    high: record.high,
+    low: record.low,
+    close: record.close,
+    volumeSol: record.volumeSol,
+    volumeTokens: record.volumeTokens,
+    buyVolumeSol: record.buyVolumeSol,
+    sellVolumeSol: record.sellVolumeSol,
+    trades: record.trades,
+    source: record.source as CandleSource,
+  };
+}
+
+// Singleton instance (fed by RealTradeFeedService, SolanaTradeMonitor and MarketDataProvider)
+export const candleAggregator = new CandleAggregator();
@@ -0,0 +1,8 @@
+/**
+ * Candles Module Exports
+ *
+ * Central export point for OHLCV candle aggregation
+ */
+
+export * from './types';
+export { CandleAggregator, candleAggregator, candleRoom, aggregateTrades } from './CandleAggregator';
@@ -0,0 +1,81 @@
+/**
+ * Candle Types & Interfaces
+ *
+ * OHLCV bars per token, built from live trades and price ticks
+ */
+
+export type CandleInterval = '1s' | '1m' | '5m' | '1h';
+
+export const CANDLE_INTERVAL_MS: Record<CandleInterval, number> = {
+  '1s': 1000,
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+};
+
+export function isCandleInterval(value: unknown): value is CandleInterval {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CANDLE_INTERVAL_MS, value);
+}
+
+/**
+ * Where a candle's data came from: live trades, price ticks only, or rebuilt from recorded trades
+ */
+export type CandleSource = 'trade' | 'tick' | 'backfill';
+
+/**
+ * One OHLCV bar (prices are SOL per token)
+ */
+export interface Candle {
+  tokenAddress: string;
+  interval: CandleInterval;
+  openTime: number; // Bucket start (ms since epoch)
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volumeSol: number;
+  volumeTokens: number;
+  buyVolumeSol: number;
+  sellVolumeSol: number;
+  trades: number; // 0 for tick-only candles
+  source: CandleSource;
+}
+
+/**
+ * Minimal trade shape the aggregator consumes (RealTradeEvent and SolanaTradeMonitor trades fit it)
+ */
+export interface CandleTrade {
+  tokenAddress: string;
+  type: 'buy' | 'sell';
+  price: number;
+  solAmount: number;
+  tokenAmount: number;
+  timestamp: number; // ms
+  signature?: string;
+}
+
+export interface CandleQuery {
+  from?: number; // ms, inclusive
+  to?: number; // ms, inclusive
+  limit?: number;
+}
+
+/**
+ * Pushed to 'candles:update' subscribers
+ */
+export interface CandleUpdate {
+  tokenAddress: string;
+  interval: CandleInterval;
+  candle: Candle;
+  closed: boolean; // False while the bucket is still forming
+}
+
+export interface CandleAggregatorOptions {
+  intervals: CandleInterval[];
+  flushIntervalMs: number;
+  maxTokens: number;
+  defaultLimit: number;
+  maxLimit: number;
+  backfillMaxTrades: number;
+  secondCandleRetentionHours: number;
+}
@@ -262,6 +262,280 @@ export const RISK_CONFIG = {
   MAX_TOKEN_AGE_HOURS: parseInt(process.env.PUMPFUN_MAX_TOKEN_AGE || '0'),
 };
 
+// ============================================================================
+// STRATEGY PLUGIN CONFIGURATION
+// ============================================================================
+
+/**
+ * Filesystem plugin discovery for StrategyPluginManager
+ */
+export const PLUGIN_CONFIG = {
+  /** Load plugins from PLUGINS_DIR on boot */
+  ENABLED: process.env.STRATEGY_PLUGINS_ENABLED !== 'false',
+
+  /** Directory scanned for plugin packages (one sub-directory per plugin) */
+  PLUGINS_DIR: process.env.STRATEGY_PLUGINS_DIR || 'plugins',
+
+  /** Watch plugin directories and hot reload on change */
+  HOT_RELOAD: process.env.STRATEGY_PLUGINS_HOT_RELOAD === 'true',
+
+  /** Permissions plugins may request (manifests asking for anything else are rejected) */
+  ALLOWED_PERMISSIONS: (process.env.STRATEGY_PLUGINS_ALLOWED_PERMISSIONS || 'market-data,trade')
+    .split(',')
+    .map(p => p.trim())
+    .filter(Boolean),
+};
+
+// ============================================================================
+// INDICATOR CONFIGURATION
+// ============================================================================
+
+/**
+ * Rolling indicators computed from the live trade feed (periods are in bars)
+ */
+export const INDICATOR_CONFIG = {
+  /** Bar length in seconds */
+  BAR_SECONDS: parseInt(process.env.INDICATOR_BAR_SECONDS || '60'),
+
+  /** Bars kept per token - the longest usable period */
+  MAX_BARS: parseInt(process.env.INDICATOR_MAX_BARS || '240'),
+
+  /** Tokens tracked at once (least recently traded are dropped) */
+  MAX_TOKENS: parseInt(process.env.INDICATOR_MAX_TOKENS || '500'),
+
+  /** Default periods (strategies can override them with vars.indicatorPeriods) */
+  SMA_PERIOD: parseInt(process.env.INDICATOR_SMA_PERIOD || '20'),
+  EMA_PERIOD: parseInt(process.env.INDICATOR_EMA_PERIOD || '12'),
+  RSI_PERIOD: parseInt(process.env.INDICATOR_RSI_PERIOD || '14'),
+  BOLLINGER_PERIOD: parseInt(process.env.INDICATOR_BOLLINGER_PERIOD || '20'),
+  BOLLINGER_STD_DEV: parseFloat(process.env.INDICATOR_BOLLINGER_STD_DEV || '2'),
+  ATR_PERIOD: parseInt(process.env.INDICATOR_ATR_PERIOD || '14'),
+  VWAP_PERIOD: parseInt(process.env.INDICATOR_VWAP_PERIOD || '60'),
+  PRESSURE_PERIOD: parseInt(process.env.INDICATOR_PRESSURE_PERIOD || '5'),
+};
+
+// ============================================================================
+// CANDLE CONFIGURATION
+// ============================================================================
+
+/**
+ * OHLCV candles aggregated from live trades and price ticks
+ */
+export const CANDLE_CONFIG = {
+  /** Intervals to build (any of 1s, 1m, 5m, 1h) */
+  INTERVALS: (process.env.CANDLE_INTERVALS || '1s,1m,5m,1h')
+    .split(',')
+    .map(i => i.trim())
+    .filter(Boolean),
+
+  /** How often changed candles are written to the database */
+  FLUSH_INTERVAL_MS: parseInt(process.env.CANDLE_FLUSH_INTERVAL_MS || '5000'),
+
+  /** Tokens aggregated at once (least recently traded are dropped) */
+  MAX_TOKENS: parseInt(process.env.CANDLE_MAX_TOKENS || '500'),
+
+  /** Candles returned per query */
+  DEFAULT_LIMIT: parseInt(process.env.CANDLE_DEFAULT_LIMIT || '300'),
+  MAX_LIMIT: parseInt(process.env.CANDLE_MAX_LIMIT || '1000'),
+
+  /** Recorded trades read when backfilling gaps */
+  BACKFILL_MAX_TRADES: parseInt(process.env.CANDLE_BACKFILL_MAX_TRADES || '5000'),
+
+  /** 1s candles older than this are pruned (0 keeps them forever) */
+  SECOND_CANDLE_RETENTION_HOURS: parseInt(process.env.CANDLE_SECOND_RETENTION_HOURS || '24'),
+};
+
+// ============================================================================
+// LAUNCH MONITOR CONFIGURATION
+// ============================================================================
+
+/**
+ * New pump.fun token launches watched by launch sniper strategies
+ */
+export const LAUNCH_CONFIG = {
+  /** Recent launches kept for GET /api/v1/market/launches and late waiters */
+  MAX_RECENT_LAUNCHES: parseInt(process.env.LAUNCH_MAX_RECENT || '500'),
+
+  /** Creators whose launch counts are remembered (least recently seen are dropped) */
+  MAX_TRACKED_CREATORS: parseInt(process.env.LAUNCH_MAX_TRACKED_CREATORS || '10000'),
+
+  /** Metadata JSON fetch from the token uri */
+  METADATA_TIMEOUT_MS: parseInt(process.env.LAUNCH_METADATA_TIMEOUT_MS || '3000'),
+
+  /** Largest metadata JSON read (bytes) - the body is cut off above this */
+  METADATA_MAX_BYTES: parseInt(process.env.LAUNCH_METADATA_MAX_BYTES || '65536'),
+
+  /** Hosts (and their subdomains) metadata may be fetched from - creators pick the uri */
+  METADATA_ALLOWED_HOSTS: (process.env.LAUNCH_METADATA_ALLOWED_HOSTS
+    || 'ipfs.io,cf-ipfs.com,cloudflare-ipfs.com,dweb.link,nftstorage.link,gateway.pinata.cloud,mypinata.cloud,arweave.net')
+    .split(',')
+    .map(h => h.trim().toLowerCase())
+    .filter(Boolean),
+
+  /** How often changed creator launch counts are written to the database */
+  CREATOR_FLUSH_INTERVAL_MS: parseInt(process.env.LAUNCH_CREATOR_FLUSH_INTERVAL_MS || '10000'),
+
+  /** Default time a waitForLaunch step waits before failing */
+  DEFAULT_WAIT_TIMEOUT_MS: parseInt(process.env.LAUNCH_DEFAULT_WAIT_TIMEOUT_MS || '300000'),
+};
+
+// ============================================================================
+// GRADUATION DETECTOR CONFIGURATION
+// ============================================================================
+
+/**
+ * pump.fun bonding curve completion and migration to an AMM pool
+ */
+export const GRADUATION_CONFIG = {
+  /** Bonding curve accounts of watched tokens are re-read this often (0 disables polling) */
+  POLL_INTERVAL_MS: parseInt(process.env.GRADUATION_POLL_INTERVAL_MS || '15000'),
+
+  /** Pool lookups are retried this often while the migration lands */
+  POOL_RETRY_INTERVAL_MS: parseInt(process.env.GRADUATION_POOL_RETRY_INTERVAL_MS || '5000'),
+
+  /** Give up looking for the new pool and emit the graduation without one */
+  POOL_DISCOVERY_TIMEOUT_MS: parseInt(process.env.GRADUATION_POOL_DISCOVERY_TIMEOUT_MS || '120000'),
+
+  /** Graduations remembered for late waiters and GET /api/v1/market/graduations */
+  MAX_RECENT_GRADUATIONS: parseInt(process.env.GRADUATION_MAX_RECENT || '500'),
+
+  /** Default time a waitForGraduation step waits before failing */
+  DEFAULT_WAIT_TIMEOUT_MS: parseInt(process.env.GRADUATION_DEFAULT_WAIT_TIMEOUT_MS || '3600000'),
+};
+
+// ============================================================================
+// COPY TRADING CONFIGURATION
+// ============================================================================
+
+/**
+ * Swaps of followed wallets replicated by copy trading strategies
+ */
+export const COPY_TRADE_CONFIG = {
+  /** Recent leader swaps kept for late waiters */
+  MAX_RECENT_TRADES: parseInt(process.env.COPY_TRADE_MAX_RECENT || '500'),
+
+  /** Wallets one strategy may follow */
+  MAX_LEADER_WALLETS: parseInt(process.env.COPY_TRADE_MAX_LEADER_WALLETS || '20'),
+
+  /** Leader buys older than this when seen are not copied (delay tolerance) */
+  DEFAULT_MAX_DELAY_MS: parseInt(process.env.COPY_TRADE_DEFAULT_MAX_DELAY_MS || '15000'),
+
+  /** Default time a waitForLeaderTrade step waits before failing */
+  DEFAULT_WAIT_TIMEOUT_MS: parseInt(process.env.COPY_TRADE_DEFAULT_WAIT_TIMEOUT_MS || '600000'),
+};
+
+// ============================================================================
+// TOKEN MINTS
+// ============================================================================
+
+/**
+ * Well-known mint addresses
+ */
+export const TOKEN_MINTS = {
+  /** Wrapped SOL */
+  SOL: 'So11111111111111111111111111111111111111112',
+
+  /** USD Coin */
+  USDC: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+} as const;
+
+// ============================================================================
+// PAPER FILL FEE CONFIGURATION
+// ============================================================================
+
+/**
+ * Per-venue costs charged on paper fills (basis points of the SOL notional, lamports for fixed costs)
+ */
+export const PAPER_FEE_CONFIG = {
+  /** pump.fun bonding curve fee, charged on both buys and sells */
+  PUMPFUN_CURVE_FEE_BPS: parseInt(process.env.PAPER_PUMPFUN_CURVE_FEE_BPS || '100'),
+
+  /** Raydium AMM v4 swap fee (0.22% to LPs + 0.03% protocol) */
+  RAYDIUM_AMM_V4_FEE_BPS: parseInt(process.env.PAPER_RAYDIUM_AMM_V4_FEE_BPS || '25'),
+
+  /** Average pool fee per hop on a Jupiter route */
+  JUPITER_HOP_FEE_BPS: parseInt(process.env.PAPER_JUPITER_HOP_FEE_BPS || '25'),
+
+  /** Hops assumed per Jupiter route */
+  JUPITER_ROUTE_HOPS: parseInt(process.env.PAPER_JUPITER_ROUTE_HOPS || '1'),
+
+  /** Jupiter platform fee (0 unless a referral fee account is configured) */
+  JUPITER_PLATFORM_FEE_BPS: parseInt(process.env.PAPER_JUPITER_PLATFORM_FEE_BPS || '0'),
+
+  /** Base fee per signature */
+  BASE_FEE_LAMPORTS: parseInt(process.env.PAPER_BASE_FEE_LAMPORTS || '5000'),
+
+  /** Rent-exempt deposit for the associated token account opened on the first buy of a mint */
+  ATA_RENT_LAMPORTS: parseInt(process.env.PAPER_ATA_RENT_LAMPORTS || '2039280'),
+
+  /** Compute unit limit a swap requests; prices the sampled micro-lamport-per-CU priority fee */
+  COMPUTE_UNIT_LIMIT: parseInt(process.env.PAPER_COMPUTE_UNIT_LIMIT || String(COMPUTE_UNIT_CONFIG.COMPLEX_SWAP)),
+
+  /** Sampled priority fee is reused this long */
+  PRIORITY_FEE_CACHE_MS: parseInt(process.env.PAPER_PRIORITY_FEE_CACHE_MS || '30000'),
+
+  /** Venue/priority fee lookups never hold up a fill longer than this */
+  LOOKUP_TIMEOUT_MS: parseInt(process.env.PAPER_FEE_LOOKUP_TIMEOUT_MS || '2000'),
+};
+
+// ============================================================================
+// PAPER EXECUTION SIMULATION CONFIGURATION
+// ============================================================================
+
+/**
+ * Defaults for simulated submission-to-landing latency and liquidity-limited fills
+ */
+export const PAPER_EXECUTION_CONFIG = {
+  /** Latency distribution: fixed | uniform | normal | lognormal */
+  LATENCY_DISTRIBUTION: process.env.PAPER_LATENCY_DISTRIBUTION || 'lognormal',
+
+  /** Fixed latency, or the distribution mean */
+  LATENCY_MEAN_MS: parseInt(process.env.PAPER_LATENCY_MEAN_MS || '1200'),
+
+  /** Uniform half-range, or the normal/lognormal standard deviation */
+  LATENCY_JITTER_MS: parseInt(process.env.PAPER_LATENCY_JITTER_MS || '600'),
+
+  /** Sampled latencies are clamped to this range */
+  LATENCY_MIN_MS: parseInt(process.env.PAPER_LATENCY_MIN_MS || '400'),
+  LATENCY_MAX_MS: parseInt(process.env.PAPER_LATENCY_MAX_MS || '10000'),
+
+  /** Largest share of the pool's SOL side a single fill may take before it is cut */
+  MAX_POOL_SHARE_PCT: parseFloat(process.env.PAPER_MAX_POOL_SHARE_PCT || '2'),
+
+  /** Partial fills smaller than this share of the order fail instead */
+  MIN_PARTIAL_FILL_PCT: parseFloat(process.env.PAPER_MIN_PARTIAL_FILL_PCT || '10'),
+};
+
+// ============================================================================
+// PAPER EXPERIMENT CONFIGURATION
+// ============================================================================
+
+/**
+ * A/B experiments: strategy variants in linked paper sessions on one shared market feed
+ */
+export const PAPER_EXPERIMENT_CONFIG = {
+  /** Variants one experiment may run side by side */
+  MAX_VARIANTS: parseInt(process.env.PAPER_EXPERIMENT_MAX_VARIANTS || '8'),
+
+  /** Default interval between shared price ticks (each tick also runs every idle variant) */
+  DEFAULT_TICK_INTERVAL_MS: parseInt(process.env.PAPER_EXPERIMENT_TICK_INTERVAL_MS || '5000'),
+
+  /** Shortest tick interval a request may ask for */
+  MIN_TICK_INTERVAL_MS: parseInt(process.env.PAPER_EXPERIMENT_MIN_TICK_INTERVAL_MS || '1000'),
+
+  /** Equity samples kept per variant (oldest dropped first) */
+  MAX_EQUITY_POINTS: parseInt(process.env.PAPER_EXPERIMENT_MAX_EQUITY_POINTS || '20000'),
+
+  /** p-value below which a variant's difference from the control is reported as significant */
+  SIGNIFICANCE_LEVEL: parseFloat(process.env.PAPER_EXPERIMENT_SIGNIFICANCE_LEVEL || '0.05'),
+
+  /** Finished experiments kept for reports (oldest dropped first) */
+  MAX_FINISHED_EXPERIMENTS: parseInt(process.env.PAPER_EXPERIMENT_MAX_FINISHED || '100'),
+
+  /** Finished experiments are dropped after this long */
+  FINISHED_RETENTION_MS: parseInt(process.env.PAPER_EXPERIMENT_FINISHED_RETENTION_MS || '86400000'),
+};
+
 // ============================================================================
 // MAIN TRADING CONFIGURATION
 // ============================================================================
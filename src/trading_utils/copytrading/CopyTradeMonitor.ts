@@ -0,0 +1,247 @@
+/**
+ * Copy Trade Monitor
+ *
+ * Receives swaps of followed wallets from the live feed and hands the ones that
+ * pass a strategy's filter (wallets, blocklist, venues, delay tolerance) to
+ * waiting copy trading strategies. Wallets are followed while a strategy waits on
+ * them and for a grace period afterwards, so swaps between two waits are buffered.
+ */
+
+import { EventEmitter } from 'events';
+import { PublicKey } from '@solana/web3.js';
+import type { WalletSwapEvent } from '../WalletWebSocketListener';
+import { COPY_TRADE_CONFIG } from '../config';
+import {
+  LeaderTrade,
+  LeaderTradeFilter,
+  LeaderTradeFilterResult,
+  LeaderTradeWaitOptions,
+  LeaderTradeWaitResult,
+} from './types';
+
+const STOP_CHECK_INTERVAL_MS = 1000;
+const UNFOLLOW_GRACE_MS = 60000; // Keep following between two waits of the same strategy
+
+/**
+ * Anything that emits 'wallet_trade' events for followed wallets (RealTradeFeedService)
+ */
+export interface WalletTradeSource {
+  on(event: 'wallet_trade', listener: (swap: WalletSwapEvent) => void): unknown;
+  followWallet(wallet: string): Promise<void>;
+  unfollowWallet(wallet: string): Promise<void>;
+}
+
+/**
+ * Reject filters that could never match (bad addresses, negative delay)
+ */
+export function validateLeaderTradeFilter(filter: LeaderTradeFilter): void {
+  if (!Array.isArray(filter.wallets) || filter.wallets.length === 0) {
+    throw new Error('At least one leader wallet is required');
+  }
+  if (filter.wallets.length > COPY_TRADE_CONFIG.MAX_LEADER_WALLETS) {
+    throw new Error(`At most ${COPY_TRADE_CONFIG.MAX_LEADER_WALLETS} leader wallets can be followed`);
+  }
+  for (const address of [...filter.wallets, ...(filter.blocklist || [])]) {
+    try {
+      new PublicKey(address);
+    } catch {
+      throw new Error(`Invalid address: ${address}`);
+    }
+  }
+  if (filter.maxDelayMs !== undefined && !(filter.maxDelayMs > 0)) {
+    throw new Error('maxDelayMs must be positive');
+  }
+}
+
+/**
+ * Check one leader swap against a filter
+ */
+export function evaluateLeaderTrade(trade: LeaderTrade, filter: LeaderTradeFilter, now: number): LeaderTradeFilterResult {
+  const { swap } = trade;
+  const delayMs = Math.max(0, now - swap.timestamp);
+  const maxDelayMs = filter.maxDelayMs ?? COPY_TRADE_CONFIG.DEFAULT_MAX_DELAY_MS;
+
+  if (!filter.wallets.includes(swap.wallet)) {
+    return { passed: false, reason: 'wallet', delayMs };
+  }
+  if (filter.blocklist?.includes(swap.tokenMint)) {
+    return { passed: false, reason: 'blocklist', delayMs };
+  }
+  if (filter.venues?.length && !filter.venues.includes(swap.venue)) {
+    return { passed: false, reason: 'venue', delayMs };
+  }
+  if (swap.isBuy && delayMs > maxDelayMs) {
+    return { passed: false, reason: 'delay', delayMs };
+  }
+  if (!swap.isBuy && filter.exitTokens && !filter.exitTokens.includes(swap.tokenMint)) {
+    return { passed: false, reason: 'no_position', delayMs };
+  }
+  return { passed: true, delayMs };
+}
+
+export class CopyTradeMonitor extends EventEmitter {
+  private source?: WalletTradeSource;
+  private sequence = 0;
+  private recent: LeaderTrade[] = []; // Oldest first
+  private seenSwaps: Set<string> = new Set(); // signature:wallet:mint
+  private followers: Map<string, number> = new Map(); // wallet -> active waits
+  private unfollowTimers: Map<string, NodeJS.Timeout> = new Map();
+
+  /**
+   * Receive leader swaps from a live source
+   */
+  attachSource(source: WalletTradeSource): void {
+    this.source = source;
+    source.on('wallet_trade', (swap) => this.ingestSwap(swap));
+    console.log('👛 [CopyTradeMonitor] Attached to wallet trade source');
+  }
+
+  /**
+   * Record a leader swap and notify waiters (duplicates are ignored)
+   */
+  ingestSwap(swap: WalletSwapEvent): LeaderTrade | undefined {
+    const key = `${swap.signature}:${swap.wallet}:${swap.tokenMint}`;
+    if (this.seenSwaps.has(key)) {
+      return undefined;
+    }
+
+    const trade: LeaderTrade = { sequence: ++this.sequence, swap, receivedAt: Date.now() };
+    this.recent.push(trade);
+    this.seenSwaps.add(key);
+    if (this.recent.length > COPY_TRADE_CONFIG.MAX_RECENT_TRADES) {
+      const dropped = this.recent.shift()!;
+      this.seenSwaps.delete(`${dropped.swap.signature}:${dropped.swap.wallet}:${dropped.swap.tokenMint}`);
+    }
+
+    this.emit('leader_trade', trade);
+    return trade;
+  }
+
+  /**
+   * Wait for the first leader swap that passes the filter.
+   * Without a cursor only swaps arriving from now on are considered.
+   * Resolves without a trade when the timeout passes or shouldStop() turns true.
+   */
+  async waitForLeaderTrade(filter: LeaderTradeFilter, options: LeaderTradeWaitOptions): Promise<LeaderTradeWaitResult> {
+    validateLeaderTradeFilter(filter);
+    await this.follow(filter.wallets);
+
+    const deadline = Date.now() + options.timeoutMs;
+    let cursor = options.cursor ?? this.sequence;
+    const queue = this.recent.filter(t => t.sequence > cursor);
+    let rejected = 0;
+    let wake: (() => void) | undefined;
+
+    const onTrade = (trade: LeaderTrade) => {
+      queue.push(trade);
+      wake?.();
+    };
+    this.on('leader_trade', onTrade);
+
+    try {
+      while (true) {
+        while (queue.length > 0) {
+          const trade = queue.shift()!;
+          cursor = trade.sequence;
+
+          const result = evaluateLeaderTrade(trade, filter, Date.now());
+          if (result.passed) {
+            console.log(`🎯 [CopyTradeMonitor] Copying ${trade.swap.isBuy ? 'buy' : 'exit'} of ${trade.swap.tokenMint.substring(0, 8)}... by ${trade.swap.wallet.substring(0, 8)}... (${result.delayMs}ms late)`);
+            return { trade, delayMs: result.delayMs, rejected, cursor };
+          }
+          if (result.reason !== 'wallet') {
+            console.log(`⏭️ [CopyTradeMonitor] Skipped ${trade.swap.tokenMint.substring(0, 8)}... by ${trade.swap.wallet.substring(0, 8)}...: ${result.reason}`);
+            rejected++;
+          }
+        }
+
+        const remaining = deadline - Date.now();
+        if (remaining <= 0 || options.shouldStop?.()) {
+          return { rejected, cursor };
+        }
+
+        // Sleep until the next swap, checking the stop flag every second
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, Math.min(remaining, STOP_CHECK_INTERVAL_MS));
+          wake = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+        wake = undefined;
+      }
+    } finally {
+      this.off('leader_trade', onTrade);
+      this.release(filter.wallets);
+    }
+  }
+
+  /**
+   * Recent leader swaps, newest first (optionally of one wallet)
+   */
+  getRecentTrades(limit: number = 50, wallet?: string): LeaderTrade[] {
+    return this.recent
+      .filter(trade => !wallet || trade.swap.wallet === wallet)
+      .slice(-limit)
+      .reverse();
+  }
+
+  getFollowedWallets(): string[] {
+    return Array.from(new Set([...this.followers.keys(), ...this.unfollowTimers.keys()]));
+  }
+
+  async stop(): Promise<void> {
+    for (const timer of this.unfollowTimers.values()) {
+      clearTimeout(timer);
+    }
+    if (this.source) {
+      for (const wallet of this.getFollowedWallets()) {
+        await this.source.unfollowWallet(wallet);
+      }
+    }
+    this.unfollowTimers.clear();
+    this.followers.clear();
+    this.removeAllListeners();
+    console.log('🛑 [CopyTradeMonitor] Stopped');
+  }
+
+  private async follow(wallets: string[]): Promise<void> {
+    if (!this.source) {
+      throw new Error('No wallet trade source attached - copy trading needs the real trade feed');
+    }
+
+    for (const wallet of new Set(wallets)) {
+      const pending = this.unfollowTimers.get(wallet);
+      if (pending) {
+        clearTimeout(pending);
+        this.unfollowTimers.delete(wallet);
+      } else if (!this.followers.has(wallet)) {
+        await this.source.followWallet(wallet);
+      }
+      this.followers.set(wallet, (this.followers.get(wallet) ?? 0) + 1);
+    }
+  }
+
+  private release(wallets: string[]): void {
+    for (const wallet of new Set(wallets)) {
+      const count = (this.followers.get(wallet) ?? 1) - 1;
+      if (count > 0) {
+        this.followers.set(wallet, count);
+        continue;
+      }
+
+      this.followers.delete(wallet);
+      const timer = setTimeout(() => {
+        this.unfollowTimers.delete(wallet);
+        this.source?.unfollowWallet(wallet).catch((error) => {
+          console.error(`❌ [CopyTradeMonitor] Failed to unfollow ${wallet}:`, error);
+        });
+      }, UNFOLLOW_GRACE_MS);
+      timer.unref();
+      this.unfollowTimers.set(wallet, timer);
+    }
+  }
+}
+
+// Singleton instance
+export const copyTradeMonitor = new CopyTradeMonitor();
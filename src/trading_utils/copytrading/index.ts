@@ -0,0 +1,9 @@
+/**
+ * Copy Trading Module Exports
+ *
+ * Central export point for following leader wallets and filtering their swaps
+ */
+
+export * from './types';
+export { CopyTradeMonitor, copyTradeMonitor, evaluateLeaderTrade, validateLeaderTradeFilter } from './CopyTradeMonitor';
+export type { WalletTradeSource } from './CopyTradeMonitor';
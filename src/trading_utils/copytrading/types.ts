@@ -0,0 +1,50 @@
+/**
+ * Copy Trading Types
+ *
+ * Leader wallet swaps and the filters a copy trading strategy applies to them
+ */
+
+import type { WalletSwapEvent, WalletSwapVenue } from '../WalletWebSocketListener';
+
+export type { WalletSwapEvent, WalletSwapVenue };
+
+/**
+ * Which leader swaps a waitForLeaderTrade step accepts
+ */
+export interface LeaderTradeFilter {
+  wallets: string[];                // Leader wallets to follow
+  blocklist?: string[];             // Token mints never copied
+  venues?: WalletSwapVenue[];       // Default: every supported venue
+  maxDelayMs?: number;              // Entries seen later than this after the leader's block are skipped (exits are always copied)
+  exitTokens?: string[];            // Only leader sells of these mints are passed on (the strategy's open positions)
+}
+
+/**
+ * A leader swap as handed to a strategy
+ */
+export interface LeaderTrade {
+  sequence: number;
+  swap: WalletSwapEvent;
+  receivedAt: number;               // When the swap reached the monitor
+}
+
+export type LeaderTradeRejection = 'wallet' | 'blocklist' | 'venue' | 'delay' | 'no_position';
+
+export interface LeaderTradeFilterResult {
+  passed: boolean;
+  reason?: LeaderTradeRejection;
+  delayMs: number;
+}
+
+export interface LeaderTradeWaitOptions {
+  timeoutMs: number;
+  cursor?: number;                  // Sequence of the last swap already considered (omit to start with new swaps)
+  shouldStop?: () => boolean;
+}
+
+export interface LeaderTradeWaitResult {
+  trade?: LeaderTrade;              // First swap that passed the filter
+  delayMs?: number;                 // How late the trade was seen, relative to the leader's block time
+  rejected: number;                 // Swaps that failed the filter while waiting
+  cursor?: number;                  // Pass back on the next wait so rejected swaps are not evaluated twice
+}
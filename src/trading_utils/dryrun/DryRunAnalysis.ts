@@ -0,0 +1,216 @@
+/**
+ * Dry Run Analysis
+ *
+ * Price paths for dry runs, the capital check against RiskLimits and the
+ * plain-text summary shown before a strategy is started
+ */
+
+import type { RiskLimits, Strategy } from '../StrategyBuilder';
+import type { BacktestDataset } from '../backtesting/types';
+import {
+  DryRunCapitalUsage,
+  DryRunConfig,
+  DryRunOrder,
+  DryRunPricePath,
+  DryRunResult,
+} from './types';
+
+const DEFAULT_INTERVAL_MS = 60000;
+const DEFAULT_SYNTHETIC_POINTS = 120;
+const DEFAULT_VOLATILITY_PERCENTAGE = 3;
+const DEFAULT_SOL_PRICE_USD = 200; // Same fallback as HistoricalMarketData
+const PLACEHOLDER_TOKEN = 'dry-run-token';
+
+/**
+ * Thrown for dry-run price paths that can never be built (bad interval, prices or synthetic settings)
+ */
+export class DryRunConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DryRunConfigError';
+  }
+}
+
+/**
+ * Deterministic PRNG (mulberry32) so a seed always yields the same path
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Price levels the strategy reacts to (synthetic paths start between them)
+ */
+function findPriceTargets(strategy: Strategy): number[] {
+  const targets = strategy.steps
+    .map(step => (step as { targetPrice?: number }).targetPrice)
+    .filter((price): price is number => typeof price === 'number' && price > 0);
+  const entryPrice = Number(strategy.variables?.entryPrice);
+  return entryPrice > 0 ? [entryPrice, ...targets] : targets;
+}
+
+/**
+ * The supplied USD path, or a seeded random walk around the strategy's price targets
+ */
+export function buildDryRunPricePath(
+  strategy: Strategy,
+  config: DryRunConfig,
+  startTime: number
+): { dataset: BacktestDataset; pricePath: DryRunPricePath } {
+  const intervalMs = config.intervalMs ?? DEFAULT_INTERVAL_MS;
+  if (!(intervalMs > 0)) {
+    throw new DryRunConfigError('intervalMs must be positive');
+  }
+
+  let prices: number[];
+  let seed: number | undefined;
+  if (config.prices?.length) {
+    if (config.prices.some(price => !(price > 0))) {
+      throw new DryRunConfigError('prices must all be positive');
+    }
+    prices = config.prices;
+  } else {
+    const synthetic = config.synthetic || {};
+    const targets = findPriceTargets(strategy);
+    const startPrice = synthetic.startPrice
+      ?? (targets.length > 0 ? targets.reduce((sum, price) => sum + price, 0) / targets.length : 1);
+    const points = synthetic.points ?? DEFAULT_SYNTHETIC_POINTS;
+    const volatility = (synthetic.volatilityPercentage ?? DEFAULT_VOLATILITY_PERCENTAGE) / 100;
+    const drift = (synthetic.driftPercentage ?? 0) / 100;
+    if (!(startPrice > 0) || !(points >= 1) || volatility < 0) {
+      throw new DryRunConfigError('synthetic path needs a positive startPrice, at least one point and a non-negative volatility');
+    }
+
+    seed = synthetic.seed ?? 1;
+    const random = seededRandom(seed);
+    prices = [startPrice];
+    for (let i = 1; i < points; i++) {
+      // Box-Muller normal move, floored so the price stays positive
+      const normal = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+      prices.push(Math.max(prices[i - 1] * (1 + drift + volatility * normal), startPrice * 1e-6));
+    }
+  }
+
+  const solPrice = config.solPriceUSD ?? DEFAULT_SOL_PRICE_USD;
+  const dataset: BacktestDataset = {
+    tokenAddress: config.tokenAddress || strategy.variables?.tokenAddress || PLACEHOLDER_TOKEN,
+    solPriceUSD: solPrice,
+    prices: prices.map((priceUSD, i) => ({
+      timestamp: startTime + i * intervalMs,
+      price: priceUSD / solPrice,
+      priceUSD,
+      solPrice,
+    })),
+  };
+
+  return {
+    dataset,
+    pricePath: {
+      source: config.prices?.length ? 'supplied' : 'synthetic',
+      points: prices.length,
+      intervalMs,
+      startPrice: prices[0],
+      endPrice: prices[prices.length - 1],
+      minPrice: Math.min(...prices),
+      maxPrice: Math.max(...prices),
+      ...(seed !== undefined ? { seed } : {}),
+    },
+  };
+}
+
+/**
+ * Capital the run used, and where it (or the step graph) breaks the strategy's RiskLimits
+ */
+export function assessCapitalUsage(
+  orders: DryRunOrder[],
+  peakExposureSOL: number,
+  riskLimits: RiskLimits,
+  staticBuys: { maxStaticOrderSOL: number | null; repeatingBuySteps: string[] }
+): DryRunCapitalUsage {
+  const buys = orders.filter(order => order.side === 'buy');
+  const largestOrderSOL = buys.reduce((max, order) => Math.max(max, order.amountSOL), 0);
+  const violations: string[] = [];
+
+  const largestPlanned = Math.max(largestOrderSOL, staticBuys.maxStaticOrderSOL ?? 0);
+  if (largestPlanned > riskLimits.maxPositionSizeSOL) {
+    violations.push(`A single buy of ${largestPlanned} SOL exceeds maxPositionSizeSOL (${riskLimits.maxPositionSizeSOL} SOL)`);
+  }
+  if (peakExposureSOL > riskLimits.maxPositionSizeSOL) {
+    violations.push(`Open positions reach ${peakExposureSOL.toFixed(4)} SOL, above maxPositionSizeSOL (${riskLimits.maxPositionSizeSOL} SOL)`);
+  }
+  if (peakExposureSOL > riskLimits.maxDailyLossSOL) {
+    violations.push(`Worst case (open positions going to zero) loses ${peakExposureSOL.toFixed(4)} SOL, above maxDailyLossSOL (${riskLimits.maxDailyLossSOL} SOL)`);
+  }
+
+  return {
+    totalBuySOL: buys.reduce((sum, order) => sum + order.amountSOL, 0),
+    totalSellSOL: orders.filter(order => order.side === 'sell').reduce((sum, order) => sum + order.amountSOL, 0),
+    largestOrderSOL,
+    peakExposureSOL,
+    worstCaseLossSOL: peakExposureSOL,
+    maxStaticOrderSOL: staticBuys.maxStaticOrderSOL,
+    repeatingBuySteps: staticBuys.repeatingBuySteps,
+    riskLimits,
+    violations,
+  };
+}
+
+const STOP_REASON_LABELS: Record<DryRunResult['stopReason'], string> = {
+  completed: 'the strategy ran to its last step',
+  path_exhausted: 'the price path ran out',
+  max_steps: 'the step limit was reached',
+  needs_live_feed: 'the strategy waits for live events (trades, launches, graduations or leader wallets)',
+  error: 'an error stopped it',
+};
+
+/**
+ * Plain-text explanation of a dry run (shown by the agent before confirmation)
+ */
+export function formatDryRunSummary(result: DryRunResult, maxOrders: number = 5): string {
+  const { pricePath, capital } = result;
+  const lines: string[] = [];
+  const durationMinutes = result.timeline.length > 0
+    ? Math.round(result.timeline[result.timeline.length - 1].elapsedMs / 60000)
+    : 0;
+
+  lines.push(`**Dry run** (${pricePath.source} price path, ${pricePath.points} points from $${pricePath.startPrice.toPrecision(4)} to $${pricePath.endPrice.toPrecision(4)}, range $${pricePath.minPrice.toPrecision(4)}-$${pricePath.maxPrice.toPrecision(4)})`);
+  lines.push(`- ${result.timeline.length} step(s) over ~${durationMinutes} simulated minutes; stopped because ${STOP_REASON_LABELS[result.stopReason]}${result.error ? ` (${result.error})` : ''}`);
+
+  if (result.orders.length === 0) {
+    lines.push('- No orders would be placed on this path');
+  } else {
+    lines.push(`- ${result.orders.length} order(s) would be placed:`);
+    for (const order of result.orders.slice(0, maxOrders)) {
+      const minutes = Math.round(order.elapsedMs / 60000);
+      lines.push(order.side === 'buy'
+        ? `  - Buy ${order.amountSOL.toFixed(4)} SOL at $${order.priceUSD.toPrecision(4)} (step ${order.stepId}, ~${minutes} min)`
+        : `  - Sell ${order.amountTokens.toFixed(2)} tokens at $${order.priceUSD.toPrecision(4)} (step ${order.stepId}, ~${minutes} min)${order.exceedsPosition ? ' - more than the run bought' : ''}`);
+    }
+    if (result.orders.length > maxOrders) {
+      lines.push(`  - ...and ${result.orders.length - maxOrders} more`);
+    }
+  }
+
+  lines.push(`- Capital: ${capital.totalBuySOL.toFixed(4)} SOL spent in total, at most ${capital.peakExposureSOL.toFixed(4)} SOL at risk at once (limit ${capital.riskLimits.maxPositionSizeSOL} SOL)`);
+  if (capital.repeatingBuySteps.length > 0) {
+    lines.push(`- Buy step(s) ${capital.repeatingBuySteps.join(', ')} sit in a loop - total spend grows with every pass`);
+  }
+  for (const violation of capital.violations) {
+    lines.push(`- ⚠️ ${violation}`);
+  }
+  if (result.unreachableSteps.length > 0) {
+    lines.push(`- ⚠️ Steps that can never run: ${result.unreachableSteps.join(', ')}`);
+  }
+  if (result.liveFeedSteps.length > 0) {
+    lines.push(`- Steps ${result.liveFeedSteps.join(', ')} wait for live events and were not simulated`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,205 @@
+/**
+ * Dry Run Trading Provider
+ * Implements TradingProvider on a price path's simulated clock and records the
+ * orders a strategy would place instead of filling them (no fees, no slippage).
+ * Every token is priced from the same path.
+ */
+
+import { TradingProvider, TradingResult, PriceResult } from '../TradingProvider';
+import { MarketData } from '../paper-trading/types';
+import { HistoricalMarketData } from '../backtesting/HistoricalMarketData';
+import { DryRunOrder } from './types';
+
+export class DryRunTradingProvider implements TradingProvider {
+  private feed: HistoricalMarketData;
+  private orders: DryRunOrder[] = [];
+  private positions: Map<string, { tokens: number; costSOL: number }> = new Map();
+  private exposureSOL = 0;
+  private peakExposureSOL = 0;
+
+  constructor(feed: HistoricalMarketData) {
+    this.feed = feed;
+  }
+
+  async initialize(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Record a market buy at the current tick
+   */
+  async buyTokens(amountInSol: number, context?: any, stepTokenAddress?: string): Promise<string> {
+    if (!amountInSol || amountInSol <= 0) {
+      throw new Error(`[DryRunTradingProvider] Invalid buy amount: ${amountInSol}. Must be positive number.`);
+    }
+
+    const tokenAddress = this.resolveTokenAddress(context, stepTokenAddress);
+    const tick = this.feed.getCurrentTick();
+    const amountTokens = amountInSol / tick.price;
+
+    const position = this.positions.get(tokenAddress) || { tokens: 0, costSOL: 0 };
+    position.tokens += amountTokens;
+    position.costSOL += amountInSol;
+    this.positions.set(tokenAddress, position);
+    this.exposureSOL += amountInSol;
+    this.peakExposureSOL = Math.max(this.peakExposureSOL, this.exposureSOL);
+
+    return this.record({
+      stepId: context?.currentStepId || '',
+      side: 'buy',
+      tokenAddress,
+      timestamp: this.feed.now(),
+      elapsedMs: this.feed.now() - this.feed.getStartTime(),
+      priceUSD: tick.priceUSD!,
+      price: tick.price,
+      amountSOL: amountInSol,
+      amountTokens,
+    });
+  }
+
+  /**
+   * Record a market sell at the current tick (-1 sells the dry-run position)
+   */
+  async sellTokens(amountToSell: number, context?: any, stepTokenAddress?: string): Promise<string> {
+    // Same dynamic-amount convention as PaperTradingProvider
+    let actualAmountToSell = amountToSell;
+    if (context?.variables?.tokenAmountToSell && amountToSell === -1) {
+      actualAmountToSell = context.variables.tokenAmountToSell;
+    }
+
+    if (actualAmountToSell === 0 || actualAmountToSell < -1) {
+      throw new Error(`[DryRunTradingProvider] Invalid sell amount: ${actualAmountToSell}. Must be -1 (all) or positive number.`);
+    }
+
+    const tokenAddress = this.resolveTokenAddress(context, stepTokenAddress);
+    const tick = this.feed.getCurrentTick();
+    const position = this.positions.get(tokenAddress) || { tokens: 0, costSOL: 0 };
+    const amountTokens = actualAmountToSell === -1 ? position.tokens : actualAmountToSell;
+    const exceedsPosition = amountTokens > position.tokens * 1.000001;
+
+    // Release the cost of the share sold
+    const soldShare = position.tokens > 0 ? Math.min(1, amountTokens / position.tokens) : 0;
+    const releasedSOL = position.costSOL * soldShare;
+    position.tokens = Math.max(0, position.tokens - amountTokens);
+    position.costSOL -= releasedSOL;
+    this.positions.set(tokenAddress, position);
+    this.exposureSOL = Math.max(0, this.exposureSOL - releasedSOL);
+
+    return this.record({
+      stepId: context?.currentStepId || '',
+      side: 'sell',
+      tokenAddress,
+      timestamp: this.feed.now(),
+      elapsedMs: this.feed.now() - this.feed.getStartTime(),
+      priceUSD: tick.priceUSD!,
+      price: tick.price,
+      amountSOL: amountTokens * tick.price,
+      amountTokens,
+      ...(exceedsPosition ? { exceedsPosition } : {}),
+    });
+  }
+
+  async getTokenPriceUSD(): Promise<PriceResult> {
+    return {
+      price: this.feed.getCurrentTick().priceUSD!,
+      source: 'dry-run',
+      timestamp: this.feed.now(),
+    };
+  }
+
+  async getJupiterTokenPrice(): Promise<PriceResult> {
+    return this.getTokenPriceUSD();
+  }
+
+  async getSolPriceUSD(): Promise<PriceResult> {
+    return {
+      price: await this.feed.fetchSolPrice(),
+      source: 'dry-run',
+      timestamp: this.feed.now(),
+    };
+  }
+
+  async getMarketData(tokenAddress: string): Promise<MarketData | null> {
+    return {
+      ...this.feed.toMarketData(this.feed.getCurrentTick()),
+      tokenAddress,
+      source: 'dry-run',
+    };
+  }
+
+  now(): number {
+    return this.feed.now();
+  }
+
+  /**
+   * Advance simulated time instead of sleeping
+   */
+  async sleep(durationMs: number): Promise<void> {
+    this.feed.advanceBy(durationMs);
+  }
+
+  /**
+   * Jump forward to the first tick above target (USD, like PaperTradingProvider)
+   */
+  async waitForPriceAbove(targetPrice: number, timeoutMs: number = 300000): Promise<TradingResult> {
+    const tick = this.feed.advanceUntil(t => t.priceUSD! > targetPrice, this.feed.now() + timeoutMs);
+
+    if (tick) {
+      return {
+        success: true,
+        data: { price: tick.priceUSD },
+        message: `Price ${tick.priceUSD} exceeded target ${targetPrice}`,
+      };
+    }
+
+    return {
+      success: false,
+      message: `Timeout: Price did not reach ${targetPrice} within ${timeoutMs}ms`,
+    };
+  }
+
+  /**
+   * Jump forward to the first tick below target (USD, like PaperTradingProvider)
+   */
+  async waitForPriceBelow(targetPrice: number, timeoutMs: number = 300000): Promise<TradingResult> {
+    const tick = this.feed.advanceUntil(t => t.priceUSD! < targetPrice, this.feed.now() + timeoutMs);
+
+    if (tick) {
+      return {
+        success: true,
+        data: { price: tick.priceUSD },
+        message: `Price ${tick.priceUSD} below target ${targetPrice}`,
+      };
+    }
+
+    return {
+      success: false,
+      message: `Timeout: Price did not reach ${targetPrice} within ${timeoutMs}ms`,
+    };
+  }
+
+  getOrders(): DryRunOrder[] {
+    return [...this.orders];
+  }
+
+  getPeakExposureSOL(): number {
+    return this.peakExposureSOL;
+  }
+
+  getProviderName(): string {
+    return 'DryRunTradingProvider';
+  }
+
+  isInitialized(): boolean {
+    return true;
+  }
+
+  private record(order: DryRunOrder): string {
+    this.orders.push(order);
+    return `dry-run-${this.orders.length}`;
+  }
+
+  private resolveTokenAddress(context?: any, stepTokenAddress?: string): string {
+    return stepTokenAddress || context?.variables?.tokenAddress || this.feed.getTokenAddress();
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * Dry Run Module Exports
+ *
+ * Central export point for explaining what a strategy would do before it is started
+ */
+
+export * from './types';
+export { DryRunTradingProvider } from './DryRunTradingProvider';
+export { assessCapitalUsage, buildDryRunPricePath, formatDryRunSummary, DryRunConfigError } from './DryRunAnalysis';
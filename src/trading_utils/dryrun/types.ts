@@ -0,0 +1,98 @@
+/**
+ * Dry Run Types & Interfaces
+ *
+ * Type definitions for walking a strategy's step graph against a price path
+ * without touching trading providers or live feeds
+ */
+
+import type { RiskLimits } from '../StrategyBuilder';
+
+export interface SyntheticPricePathConfig {
+  startPrice?: number; // USD; defaults to the price targets found in the strategy (or 1)
+  points?: number; // Default 120
+  volatilityPercentage?: number; // Standard deviation of each tick's move (default 3)
+  driftPercentage?: number; // Average move per tick (default 0)
+  seed?: number; // Same seed, same path (default 1)
+}
+
+export interface DryRunConfig {
+  prices?: number[]; // Token price path in USD, one point per intervalMs (synthetic when omitted)
+  intervalMs?: number; // Default 60000
+  synthetic?: SyntheticPricePathConfig;
+  solPriceUSD?: number; // Converts the USD path to TOKEN/SOL for order sizing (default 200, as in backtests)
+  tokenAddress?: string; // Defaults to the strategy's tokenAddress variable
+  variables?: Record<string, any>; // Extra initial context variables
+  maxSteps?: number; // Stop after this many step executions (default 5000)
+}
+
+export interface DryRunPricePath {
+  source: 'supplied' | 'synthetic';
+  points: number;
+  intervalMs: number;
+  startPrice: number;
+  endPrice: number;
+  minPrice: number;
+  maxPrice: number;
+  seed?: number;
+}
+
+export type DryRunStopReason =
+  | 'completed' // The step graph ran to its end
+  | 'path_exhausted' // The clock reached the end of the price path
+  | 'max_steps'
+  | 'needs_live_feed' // Reached a step that waits on live trades, launches, graduations or leader wallets
+  | 'error';
+
+export interface DryRunTimelineEntry {
+  index: number;
+  stepId: string;
+  type: string;
+  description?: string;
+  timestamp: number; // Simulated time after the step
+  elapsedMs: number;
+  priceUSD: number;
+  outcome: 'success' | 'failure' | 'error';
+  message?: string;
+  nextStepId: string | null; // null when the strategy ends here
+}
+
+export interface DryRunOrder {
+  stepId: string;
+  side: 'buy' | 'sell';
+  tokenAddress: string;
+  timestamp: number;
+  elapsedMs: number; // Since the start of the price path
+  priceUSD: number;
+  price: number; // TOKEN/SOL
+  amountSOL: number; // Spent on buys, estimated proceeds on sells (no fees or slippage)
+  amountTokens: number;
+  exceedsPosition?: boolean; // Sells more than the dry run bought (relies on an existing balance)
+}
+
+export interface DryRunCapitalUsage {
+  totalBuySOL: number;
+  totalSellSOL: number;
+  largestOrderSOL: number;
+  peakExposureSOL: number; // Most SOL tied up in open positions at once
+  worstCaseLossSOL: number; // Peak exposure going to zero
+  maxStaticOrderSOL: number | null; // Largest fixed amountInSol on a reachable buy step
+  repeatingBuySteps: string[]; // Reachable buy steps inside a cycle - total spend grows with every pass
+  riskLimits: RiskLimits;
+  violations: string[];
+}
+
+export interface DryRunResult {
+  strategyId: string;
+  strategyName: string;
+  tokenAddress: string;
+  stopReason: DryRunStopReason;
+  error?: string;
+  pricePath: DryRunPricePath;
+  timeline: DryRunTimelineEntry[];
+  orders: DryRunOrder[];
+  capital: DryRunCapitalUsage;
+  unreachableSteps: string[]; // No path from the start step leads here
+  unvisitedSteps: string[]; // Reachable, but not taken on this price path
+  liveFeedSteps: string[]; // Steps that wait on live feeds and always fail in a dry run
+  finalVariables: Record<string, any>;
+}
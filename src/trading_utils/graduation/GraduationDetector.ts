@@ -0,0 +1,387 @@
+/**
+ * Graduation Detector
+ *
+ * Notices when a pump.fun token completes its bonding curve and emits
+ * `token:graduated`. Before the event goes out the token is re-routed: TokenRouter
+ * sends trades to Jupiter and the trade feed moves its subscription from the
+ * PumpFun listener to Raydium + Jupiter, so strategies already running on the
+ * token keep going. The AMM pool it migrated to (PoolDiscovery) is looked up
+ * afterwards and announced with `token:pool_discovered`.
+ *
+ * Completion is seen either on the live feed (a buy that leaves no real tokens
+ * on the curve) or by polling the curve account of watched tokens.
+ */
+
+import { EventEmitter } from 'events';
+import { BorshCoder, Idl } from '@coral-xyz/anchor';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { IDL as PUMP_IDL } from '../../idl/pump.idl';
+import { PoolDiscovery, PoolInfo } from '../../utils/PoolDiscovery';
+import { PUMP_FUN_PROGRAM_ID } from '../PumpFunIntegration';
+import { getTokenRouter } from '../TokenRouter';
+import { GRADUATION_CONFIG, TRADING_CONFIG } from '../config';
+import {
+  CurveCompleteSignal,
+  GraduationDetectionSource,
+  GraduationWaitOptions,
+  TokenGraduation,
+} from './types';
+
+const STOP_CHECK_INTERVAL_MS = 1000;
+const MAX_ACCOUNTS_PER_REQUEST = 100; // getMultipleAccountsInfo limit
+
+/**
+ * Anything that signals completed curves and can re-route a token's trade feed (RealTradeFeedService)
+ */
+export interface GraduationEventSource {
+  on(event: 'curve_complete', listener: (signal: CurveCompleteSignal) => void): unknown;
+  switchToGraduatedRoute(graduation: TokenGraduation): Promise<void>;
+}
+
+interface WatchedToken {
+  tokenAddress: string;
+  watchers: number;
+  isPumpToken?: boolean; // false once the curve account turned out not to exist
+}
+
+export class GraduationDetector extends EventEmitter {
+  private source?: GraduationEventSource;
+  private connection?: Connection;
+  private poolDiscovery?: PoolDiscovery;
+  private coder = new BorshCoder(PUMP_IDL as Idl);
+  private watched: Map<string, WatchedToken> = new Map(); // Lowercase mint -> watch
+  private migrations: Map<string, Promise<TokenGraduation>> = new Map(); // Lowercase mint -> re-route in flight
+  private graduations: Map<string, TokenGraduation> = new Map(); // Lowercase mint -> graduation, oldest first
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  /**
+   * Receive completed curves from the live feed and let it re-route graduated tokens
+   */
+  attachSource(source: GraduationEventSource): void {
+    this.source = source;
+    source.on('curve_complete', (signal) => {
+      this.reportCurveComplete(signal.tokenAddress, 'trade', signal.timestamp).catch((error) => {
+        console.error(`❌ [GraduationDetector] Failed to handle completed curve for ${signal.tokenAddress}:`, error);
+      });
+    });
+    console.log('🎓 [GraduationDetector] Attached to trade feed');
+  }
+
+  /**
+   * Poll a token's bonding curve until it completes (reference counted per caller)
+   */
+  watch(tokenAddress: string): void {
+    const key = tokenAddress.toLowerCase();
+    const existing = this.watched.get(key);
+    if (existing) {
+      existing.watchers++;
+      return;
+    }
+
+    const token: WatchedToken = { tokenAddress, watchers: 1 };
+    this.watched.set(key, token);
+    this.ensurePolling();
+
+    // Check right away so tokens that already graduated don't wait a full interval
+    if (!this.graduations.has(key)) {
+      this.checkCurves([token]).catch((error) => {
+        console.warn(`⚠️ [GraduationDetector] Curve check failed for ${tokenAddress.substring(0, 8)}...: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }
+  }
+
+  unwatch(tokenAddress: string): void {
+    const key = tokenAddress.toLowerCase();
+    const token = this.watched.get(key);
+    if (!token) return;
+
+    token.watchers--;
+    if (token.watchers <= 0) {
+      this.watched.delete(key);
+    }
+    if (this.watched.size === 0) {
+      this.stopPolling();
+    }
+  }
+
+  /**
+   * Handle a completed curve: re-route the token, emit `token:graduated` and start looking for the new pool.
+   * Repeated reports for the same token share one migration.
+   */
+  reportCurveComplete(
+    tokenAddress: string,
+    detectedBy: GraduationDetectionSource = 'manual',
+    completedAt: number = Date.now()
+  ): Promise<TokenGraduation> {
+    const key = tokenAddress.toLowerCase();
+    const known = this.graduations.get(key);
+    if (known) {
+      return Promise.resolve(known);
+    }
+
+    let pending = this.migrations.get(key);
+    if (!pending) {
+      pending = this.migrate(tokenAddress, detectedBy, completedAt)
+        .finally(() => this.migrations.delete(key));
+      this.migrations.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Wait until the token graduates. Resolves immediately for a known graduation and
+   * without one when the timeout passes or shouldStop() turns true.
+   */
+  async waitForGraduation(tokenAddress: string, options: GraduationWaitOptions): Promise<TokenGraduation | undefined> {
+    const key = tokenAddress.toLowerCase();
+    const known = this.graduations.get(key);
+    if (known) {
+      return known;
+    }
+
+    const deadline = Date.now() + options.timeoutMs;
+    let graduation: TokenGraduation | undefined;
+    let wake: (() => void) | undefined;
+
+    const onGraduated = (event: TokenGraduation) => {
+      if (event.tokenAddress.toLowerCase() === key) {
+        graduation = event;
+        wake?.();
+      }
+    };
+    this.on('token:graduated', onGraduated);
+    this.watch(tokenAddress);
+
+    try {
+      while (!graduation) {
+        const remaining = deadline - Date.now();
+        if (remaining <= 0 || options.shouldStop?.()) {
+          break;
+        }
+
+        // Sleep until the graduation, checking the stop flag every second
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, Math.min(remaining, STOP_CHECK_INTERVAL_MS));
+          wake = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+        wake = undefined;
+      }
+      return graduation;
+    } finally {
+      this.off('token:graduated', onGraduated);
+      this.unwatch(tokenAddress);
+    }
+  }
+
+  getGraduation(tokenAddress: string): TokenGraduation | undefined {
+    return this.graduations.get(tokenAddress.toLowerCase());
+  }
+
+  /**
+   * Recent graduations, newest first
+   */
+  getRecentGraduations(limit: number = 50): TokenGraduation[] {
+    return Array.from(this.graduations.values()).slice(-limit).reverse();
+  }
+
+  getWatchedTokens(): string[] {
+    return Array.from(this.watched.values()).map(token => token.tokenAddress);
+  }
+
+  /**
+   * Stop polling curves. Event listeners stay attached, so a restarted detector keeps its subscribers.
+   */
+  async stop(): Promise<void> {
+    this.stopPolling();
+    this.watched.clear();
+    console.log('🛑 [GraduationDetector] Stopped');
+  }
+
+  private async migrate(
+    tokenAddress: string,
+    detectedBy: GraduationDetectionSource,
+    completedAt: number
+  ): Promise<TokenGraduation> {
+    console.log(`🎓 [GraduationDetector] ${tokenAddress.substring(0, 8)}... completed its bonding curve (${detectedBy}) - re-routing via Jupiter`);
+
+    const bondingCurveAddress = this.getBondingCurveAddress(tokenAddress)?.toString() || '';
+    const graduation: TokenGraduation = {
+      tokenAddress,
+      poolAddress: null,
+      bondingCurveAddress,
+      detectedBy,
+      completedAt,
+      graduatedAt: Date.now(),
+    };
+
+    this.graduations.set(tokenAddress.toLowerCase(), graduation);
+    if (this.graduations.size > GRADUATION_CONFIG.MAX_RECENT_GRADUATIONS) {
+      this.graduations.delete(this.graduations.keys().next().value!);
+    }
+
+    // Re-route before announcing so listeners see trades from the new route; the curve no longer trades,
+    // so this cannot wait for the pool to show up
+    getTokenRouter(this.getConnection()).markGraduated(tokenAddress, null, bondingCurveAddress);
+    await this.switchRoute(graduation);
+
+    console.log(`🎓 [GraduationDetector] ${tokenAddress.substring(0, 8)}... graduated → routing via Jupiter`);
+    this.emit('token:graduated', graduation);
+
+    this.attachPool(graduation).catch((error) => {
+      console.error(`❌ [GraduationDetector] Failed to attach the pool of ${tokenAddress.substring(0, 8)}...:`, error);
+    });
+    return graduation;
+  }
+
+  /**
+   * Look up the pool the token migrated to and record it on the graduation once found
+   */
+  private async attachPool(graduation: TokenGraduation): Promise<void> {
+    const { tokenAddress } = graduation;
+    const pool = await this.discoverPool(tokenAddress);
+    if (!pool) {
+      return;
+    }
+
+    graduation.poolAddress = pool.poolAddress;
+    graduation.pool = pool;
+    getTokenRouter(this.getConnection()).markGraduated(tokenAddress, pool.poolAddress, graduation.bondingCurveAddress);
+    // The feed has already switched; this re-announces the graduation with its pool
+    await this.switchRoute(graduation);
+
+    console.log(`🎓 [GraduationDetector] ${tokenAddress.substring(0, 8)}... migrated to pool ${pool.poolAddress}`);
+    this.emit('token:pool_discovered', graduation);
+  }
+
+  private async switchRoute(graduation: TokenGraduation): Promise<void> {
+    if (!this.source) return;
+    try {
+      await this.source.switchToGraduatedRoute(graduation);
+    } catch (error) {
+      console.error(`❌ [GraduationDetector] Failed to switch ${graduation.tokenAddress.substring(0, 8)}... to its new route:`, error);
+    }
+  }
+
+  /**
+   * The pool only shows up once the migration transaction lands - retry until it does
+   */
+  private async discoverPool(tokenAddress: string): Promise<PoolInfo | null> {
+    const deadline = Date.now() + GRADUATION_CONFIG.POOL_DISCOVERY_TIMEOUT_MS;
+
+    while (true) {
+      try {
+        const pool = await this.getPoolDiscovery().findPoolForToken(tokenAddress);
+        if (pool) {
+          return pool;
+        }
+      } catch (error) {
+        console.warn(`⚠️ [GraduationDetector] Pool lookup failed for ${tokenAddress.substring(0, 8)}...: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        console.warn(`⚠️ [GraduationDetector] No pool found for ${tokenAddress.substring(0, 8)}... after ${GRADUATION_CONFIG.POOL_DISCOVERY_TIMEOUT_MS}ms`);
+        return null;
+      }
+      await new Promise<void>((resolve) => {
+        setTimeout(resolve, Math.min(remaining, GRADUATION_CONFIG.POOL_RETRY_INTERVAL_MS)).unref();
+      });
+    }
+  }
+
+  private ensurePolling(): void {
+    if (this.pollTimer || GRADUATION_CONFIG.POLL_INTERVAL_MS <= 0) return;
+    this.pollTimer = setInterval(() => this.pollCurves(), GRADUATION_CONFIG.POLL_INTERVAL_MS);
+    this.pollTimer.unref();
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private async pollCurves(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const pending = Array.from(this.watched.entries())
+        .filter(([key, token]) => token.isPumpToken !== false && !this.graduations.has(key) && !this.migrations.has(key))
+        .map(([, token]) => token);
+
+      for (let i = 0; i < pending.length; i += MAX_ACCOUNTS_PER_REQUEST) {
+        await this.checkCurves(pending.slice(i, i + MAX_ACCOUNTS_PER_REQUEST));
+      }
+    } catch (error) {
+      console.warn(`⚠️ [GraduationDetector] Curve poll failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Read the curve accounts and report the ones marked complete
+   */
+  private async checkCurves(tokens: WatchedToken[]): Promise<void> {
+    const checkable = tokens
+      .map(token => ({ token, curve: this.getBondingCurveAddress(token.tokenAddress) }))
+      .filter((entry): entry is { token: WatchedToken; curve: PublicKey } => {
+        if (!entry.curve) entry.token.isPumpToken = false;
+        return entry.curve !== null;
+      });
+    if (checkable.length === 0) return;
+
+    const accounts = await this.getConnection().getMultipleAccountsInfo(checkable.map(entry => entry.curve));
+
+    accounts.forEach((account, index) => {
+      const { token } = checkable[index];
+      if (!account || !account.owner.equals(PUMP_FUN_PROGRAM_ID)) {
+        token.isPumpToken = false; // Not a pump.fun token - nothing to graduate
+        return;
+      }
+      token.isPumpToken = true;
+
+      const curve = this.coder.accounts.decode<{ complete: boolean }>('bondingCurve', account.data);
+      if (curve.complete) {
+        this.reportCurveComplete(token.tokenAddress, 'account').catch((error) => {
+          console.error(`❌ [GraduationDetector] Failed to handle completed curve for ${token.tokenAddress}:`, error);
+        });
+      }
+    });
+  }
+
+  private getBondingCurveAddress(tokenAddress: string): PublicKey | null {
+    try {
+      const [bondingCurve] = PublicKey.findProgramAddressSync(
+        [Buffer.from('bonding-curve'), new PublicKey(tokenAddress).toBuffer()],
+        PUMP_FUN_PROGRAM_ID
+      );
+      return bondingCurve;
+    } catch {
+      return null; // Not a valid (or not original-case) mint
+    }
+  }
+
+  private getConnection(): Connection {
+    if (!this.connection) {
+      this.connection = new Connection(TRADING_CONFIG.RPC_ENDPOINT || 'https://api.mainnet-beta.solana.com', 'confirmed');
+    }
+    return this.connection;
+  }
+
+  private getPoolDiscovery(): PoolDiscovery {
+    if (!this.poolDiscovery) {
+      this.poolDiscovery = new PoolDiscovery(this.getConnection());
+    }
+    return this.poolDiscovery;
+  }
+}
+
+// Singleton instance
+export const graduationDetector = new GraduationDetector();
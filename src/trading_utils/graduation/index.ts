@@ -0,0 +1,9 @@
+/**
+ * Graduation Module Exports
+ *
+ * Central export point for pump.fun bonding curve graduation detection
+ */
+
+export * from './types';
+export { GraduationDetector, graduationDetector } from './GraduationDetector';
+export type { GraduationEventSource } from './GraduationDetector';
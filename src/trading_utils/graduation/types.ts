@@ -0,0 +1,43 @@
+/**
+ * Graduation Types
+ *
+ * pump.fun bonding curve completion and the AMM pool the token migrates to
+ */
+
+import type { PoolInfo } from '../../utils/PoolDiscovery';
+
+export type { PoolInfo };
+
+/**
+ * How the completed curve was noticed
+ * - trade: a live pump.fun trade left no real tokens on the curve
+ * - account: the bonding curve account reported complete when polled
+ * - manual: reported by a caller (tests, admin tooling)
+ */
+export type GraduationDetectionSource = 'trade' | 'account' | 'manual';
+
+/**
+ * Payload of the `token:graduated` and `token:pool_discovered` events
+ */
+export interface TokenGraduation {
+  tokenAddress: string;         // Mint in its original case
+  poolAddress: string | null;   // New AMM pool (null until discovery finds it - routing goes through Jupiter meanwhile)
+  pool?: PoolInfo;
+  bondingCurveAddress: string;
+  detectedBy: GraduationDetectionSource;
+  completedAt: number;          // When the completed curve was first seen
+  graduatedAt: number;          // When the token was re-routed and `token:graduated` was emitted
+}
+
+/**
+ * Completed curve signalled by the trade feed
+ */
+export interface CurveCompleteSignal {
+  tokenAddress: string;
+  timestamp: number;            // Milliseconds
+}
+
+export interface GraduationWaitOptions {
+  timeoutMs: number;
+  shouldStop?: () => boolean;   // Polled while waiting so stopped strategies return promptly
+}
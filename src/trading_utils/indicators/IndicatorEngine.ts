@@ -0,0 +1,218 @@
+/**
+ * Indicator Engine
+ *
+ * Buckets the incoming RealTradeEvent stream into fixed-interval bars per token
+ * and computes SMA/EMA/RSI/Bollinger/ATR/VWAP/buy-sell pressure on demand.
+ * The forming bar counts as the latest close, so readings move with every trade.
+ * Quiet intervals are carried forward as flat bars; tokens nobody trades stop updating.
+ */
+
+import type { RealTradeEvent } from '../../server/websocket/RealTradeFeedService';
+import { INDICATOR_CONFIG } from '../config';
+import { atr, bollinger, ema, pressure, rsi, sma, vwap } from './calculations';
+import { IndicatorBar, IndicatorEngineOptions, IndicatorPeriods, IndicatorSnapshot } from './types';
+
+interface TokenSeries {
+  bars: IndicatorBar[];
+  lastPrice: number;
+  lastTradeAt: number;
+  snapshot?: IndicatorSnapshot; // Default-period readings, cleared on every trade
+}
+
+const DEFAULT_PERIODS: IndicatorPeriods = {
+  sma: INDICATOR_CONFIG.SMA_PERIOD,
+  ema: INDICATOR_CONFIG.EMA_PERIOD,
+  rsi: INDICATOR_CONFIG.RSI_PERIOD,
+  bollinger: INDICATOR_CONFIG.BOLLINGER_PERIOD,
+  bollingerStdDev: INDICATOR_CONFIG.BOLLINGER_STD_DEV,
+  atr: INDICATOR_CONFIG.ATR_PERIOD,
+  vwap: INDICATOR_CONFIG.VWAP_PERIOD,
+  pressure: INDICATOR_CONFIG.PRESSURE_PERIOD,
+};
+
+export class IndicatorEngine {
+  private series: Map<string, TokenSeries> = new Map(); // Insertion order = least recently traded first
+  private readonly options: IndicatorEngineOptions;
+
+  constructor(options: Partial<IndicatorEngineOptions> = {}) {
+    this.options = {
+      barIntervalMs: INDICATOR_CONFIG.BAR_SECONDS * 1000,
+      maxBars: INDICATOR_CONFIG.MAX_BARS,
+      maxTokens: INDICATOR_CONFIG.MAX_TOKENS,
+      ...options,
+      periods: { ...DEFAULT_PERIODS, ...options.periods },
+    };
+  }
+
+  /**
+   * Fold a trade into its token's bars
+   */
+  update(trade: RealTradeEvent): void {
+    if (!(trade.price > 0) || !Number.isFinite(trade.timestamp)) return;
+
+    const { barIntervalMs, maxBars, maxTokens } = this.options;
+    let series = this.series.get(trade.tokenAddress);
+    if (series) {
+      this.series.delete(trade.tokenAddress);
+    } else {
+      if (this.series.size >= maxTokens) {
+        this.series.delete(this.series.keys().next().value!);
+      }
+      series = { bars: [], lastPrice: trade.price, lastTradeAt: 0 };
+    }
+    this.series.set(trade.tokenAddress, series);
+
+    const bucket = Math.floor(trade.timestamp / barIntervalMs) * barIntervalMs;
+    const bars = series.bars;
+    let bar = bars[bars.length - 1];
+
+    if (!bar || bucket > bar.start) {
+      if (bar) {
+        // Carry the last close through intervals without trades
+        const close = bar.close;
+        for (let start = Math.max(bar.start + barIntervalMs, bucket - maxBars * barIntervalMs); start < bucket; start += barIntervalMs) {
+          bars.push(this.createBar(start, close));
+        }
+      }
+      bar = this.createBar(bucket, trade.price);
+      bars.push(bar);
+      if (bars.length > maxBars) {
+        bars.splice(0, bars.length - maxBars);
+      }
+    }
+
+    // Late trades (older than the forming bar) still count towards its range and volume
+    bar.high = Math.max(bar.high, trade.price);
+    bar.low = Math.min(bar.low, trade.price);
+    if (trade.timestamp >= series.lastTradeAt) {
+      bar.close = trade.price;
+      series.lastPrice = trade.price;
+      series.lastTradeAt = trade.timestamp;
+    }
+    bar.volumeSol += trade.solAmount;
+    bar.volumeTokens += trade.tokenAmount;
+    if (trade.type === 'buy') {
+      bar.buyVolumeSol += trade.solAmount;
+    } else {
+      bar.sellVolumeSol += trade.solAmount;
+    }
+    bar.trades++;
+
+    series.snapshot = undefined;
+  }
+
+  /**
+   * Current readings for a token (periods override the configured defaults)
+   */
+  getIndicators(tokenAddress: string, periods?: Partial<IndicatorPeriods>): IndicatorSnapshot | undefined {
+    const series = this.series.get(tokenAddress);
+    if (!series || series.bars.length === 0) return undefined;
+
+    const overrides = this.sanitizePeriods(periods);
+    if (!overrides && series.snapshot) return series.snapshot;
+
+    const p: IndicatorPeriods = { ...this.options.periods, ...overrides };
+    const closes = series.bars.map(bar => bar.close);
+    const snapshot: IndicatorSnapshot = {
+      tokenAddress,
+      barIntervalMs: this.options.barIntervalMs,
+      bars: series.bars.length,
+      lastPrice: series.lastPrice,
+      lastTradeAt: series.lastTradeAt,
+      periods: p,
+      sma: sma(closes, p.sma),
+      ema: ema(closes, p.ema),
+      rsi: rsi(closes, p.rsi),
+      bollinger: bollinger(closes, p.bollinger, p.bollingerStdDev),
+      atr: atr(series.bars, p.atr),
+      vwap: vwap(series.bars, p.vwap),
+      ...pressure(series.bars, p.pressure),
+    };
+
+    if (!overrides) series.snapshot = snapshot;
+    return snapshot;
+  }
+
+  /**
+   * Most recent bars for a token (oldest first)
+   */
+  getBars(tokenAddress: string, limit?: number): IndicatorBar[] {
+    const bars = this.series.get(tokenAddress)?.bars || [];
+    return limit ? bars.slice(-limit) : [...bars];
+  }
+
+  /**
+   * Tokens with indicator state
+   */
+  getTrackedTokens(): string[] {
+    return Array.from(this.series.keys());
+  }
+
+  /**
+   * Drop state for one token (or all)
+   */
+  reset(tokenAddress?: string): void {
+    if (tokenAddress) {
+      this.series.delete(tokenAddress);
+    } else {
+      this.series.clear();
+    }
+  }
+
+  getDefaultPeriods(): IndicatorPeriods {
+    return { ...this.options.periods };
+  }
+
+  private createBar(start: number, price: number): IndicatorBar {
+    return {
+      start,
+      open: price,
+      high: price,
+      low: price,
+      close: price,
+      volumeSol: 0,
+      volumeTokens: 0,
+      buyVolumeSol: 0,
+      sellVolumeSol: 0,
+      trades: 0,
+    };
+  }
+
+  /**
+   * Keep positive numeric periods, capped at maxBars (returns undefined if nothing is overridden)
+   */
+  private sanitizePeriods(periods?: Partial<IndicatorPeriods>): Partial<IndicatorPeriods> | undefined {
+    if (!periods || typeof periods !== 'object') return undefined;
+
+    const result: Partial<IndicatorPeriods> = {};
+    for (const key of Object.keys(DEFAULT_PERIODS) as Array<keyof IndicatorPeriods>) {
+      const value = Number(periods[key]);
+      if (!Number.isFinite(value) || value <= 0) continue;
+      result[key] = key === 'bollingerStdDev' ? value : Math.min(Math.round(value), this.options.maxBars);
+    }
+    return Object.keys(result).length > 0 ? result : undefined;
+  }
+}
+
+/**
+ * Plain-text readings for prompts and logs
+ */
+export function formatIndicatorSummary(snapshot: IndicatorSnapshot): string {
+  const num = (value: number | undefined, digits: number = 10) =>
+    value === undefined ? 'n/a (warming up)' : Number.isFinite(value) ? Number(value.toPrecision(digits)).toString() : 'all buys';
+  const barMinutes = snapshot.barIntervalMs / 60000;
+  const p = snapshot.periods;
+
+  return [
+    `LIVE INDICATORS for ${snapshot.tokenAddress} (${snapshot.bars} x ${barMinutes}min bars, prices in SOL per token, last trade ${new Date(snapshot.lastTradeAt).toISOString()}):`,
+    `- Last price: ${num(snapshot.lastPrice)}`,
+    `- SMA(${p.sma}): ${num(snapshot.sma)} | EMA(${p.ema}): ${num(snapshot.ema)}`,
+    `- RSI(${p.rsi}): ${num(snapshot.rsi, 4)}`,
+    `- Bollinger(${p.bollinger}, ${p.bollingerStdDev}σ): ${snapshot.bollinger ? `${num(snapshot.bollinger.lower)} / ${num(snapshot.bollinger.middle)} / ${num(snapshot.bollinger.upper)}` : num(undefined)}`,
+    `- ATR(${p.atr}): ${num(snapshot.atr)} | VWAP(${p.vwap}): ${num(snapshot.vwap)}`,
+    `- Buy pressure (${p.pressure} bars): ${num(snapshot.buyPressure, 3)} | buy/sell ratio: ${num(snapshot.pressureRatio, 3)}`,
+  ].join('\n');
+}
+
+// Singleton instance (fed by RealTradeFeedService)
+export const indicatorEngine = new IndicatorEngine();
@@ -0,0 +1,144 @@
+/**
+ * Indicator Calculations
+ *
+ * Pure functions over a bar/close series (oldest first). Each returns undefined
+ * until the series is long enough for the requested period.
+ */
+
+import { BollingerBands, IndicatorBar } from './types';
+
+/**
+ * Simple moving average of the last `period` values
+ */
+export function sma(values: number[], period: number): number | undefined {
+  if (period < 1 || values.length < period) return undefined;
+  let sum = 0;
+  for (let i = values.length - period; i < values.length; i++) {
+    sum += values[i];
+  }
+  return sum / period;
+}
+
+/**
+ * Exponential moving average, seeded with the SMA of the first `period` values
+ */
+export function ema(values: number[], period: number): number | undefined {
+  if (period < 1 || values.length < period) return undefined;
+  const alpha = 2 / (period + 1);
+  let value = sma(values.slice(0, period), period)!;
+  for (let i = period; i < values.length; i++) {
+    value = alpha * values[i] + (1 - alpha) * value;
+  }
+  return value;
+}
+
+/**
+ * Relative strength index with Wilder smoothing (needs period + 1 closes)
+ */
+export function rsi(closes: number[], period: number): number | undefined {
+  if (period < 1 || closes.length < period + 1) return undefined;
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = closes[i] - closes[i - 1];
+    if (change > 0) avgGain += change;
+    else avgLoss -= change;
+  }
+  avgGain /= period;
+  avgLoss /= period;
+
+  for (let i = period + 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+  }
+
+  if (avgLoss === 0) {
+    return avgGain === 0 ? 50 : 100;
+  }
+  return 100 - 100 / (1 + avgGain / avgLoss);
+}
+
+/**
+ * Bollinger bands: SMA +/- `width` population standard deviations
+ */
+export function bollinger(closes: number[], period: number, width: number): BollingerBands | undefined {
+  const middle = sma(closes, period);
+  if (middle === undefined) return undefined;
+
+  let variance = 0;
+  for (let i = closes.length - period; i < closes.length; i++) {
+    variance += (closes[i] - middle) ** 2;
+  }
+  const stdDev = Math.sqrt(variance / period);
+
+  return {
+    upper: middle + width * stdDev,
+    middle,
+    lower: middle - width * stdDev,
+    stdDev,
+  };
+}
+
+/**
+ * Average true range with Wilder smoothing (needs period + 1 bars)
+ */
+export function atr(bars: IndicatorBar[], period: number): number | undefined {
+  if (period < 1 || bars.length < period + 1) return undefined;
+
+  const trueRange = (i: number) => {
+    const { high, low } = bars[i];
+    const prevClose = bars[i - 1].close;
+    return Math.max(high - low, Math.abs(high - prevClose), Math.abs(low - prevClose));
+  };
+
+  let value = 0;
+  for (let i = 1; i <= period; i++) {
+    value += trueRange(i);
+  }
+  value /= period;
+
+  for (let i = period + 1; i < bars.length; i++) {
+    value = (value * (period - 1) + trueRange(i)) / period;
+  }
+  return value;
+}
+
+/**
+ * Volume-weighted average price over the last `period` bars (SOL per token)
+ */
+export function vwap(bars: IndicatorBar[], period: number): number | undefined {
+  let volumeSol = 0;
+  let volumeTokens = 0;
+  for (const bar of bars.slice(-period)) {
+    volumeSol += bar.volumeSol;
+    volumeTokens += bar.volumeTokens;
+  }
+  return volumeTokens > 0 ? volumeSol / volumeTokens : undefined;
+}
+
+/**
+ * Buy/sell volume split over the last `period` bars
+ */
+export function pressure(bars: IndicatorBar[], period: number): {
+  buyVolume: number;
+  sellVolume: number;
+  buyPressure?: number;
+  pressureRatio?: number;
+} {
+  let buyVolume = 0;
+  let sellVolume = 0;
+  for (const bar of bars.slice(-period)) {
+    buyVolume += bar.buyVolumeSol;
+    sellVolume += bar.sellVolumeSol;
+  }
+
+  const total = buyVolume + sellVolume;
+  return {
+    buyVolume,
+    sellVolume,
+    buyPressure: total > 0 ? buyVolume / total : undefined,
+    pressureRatio: sellVolume > 0 ? buyVolume / sellVolume : buyVolume > 0 ? Infinity : undefined,
+  };
+}
@@ -0,0 +1,9 @@
+/**
+ * Indicators Module Exports
+ *
+ * Central export point for rolling technical indicators
+ */
+
+export * from './types';
+export * from './calculations';
+export { IndicatorEngine, indicatorEngine, formatIndicatorSummary } from './IndicatorEngine';
@@ -0,0 +1,71 @@
+/**
+ * Indicator Types & Interfaces
+ *
+ * Rolling technical indicators built from the live trade stream
+ */
+
+/**
+ * One time bucket of trades (prices are SOL per token, as reported by the feed)
+ */
+export interface IndicatorBar {
+  start: number; // Bucket start (ms since epoch)
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volumeSol: number;
+  volumeTokens: number;
+  buyVolumeSol: number;
+  sellVolumeSol: number;
+  trades: number; // 0 for gap-fill bars carried forward from the previous close
+}
+
+/**
+ * Lookback lengths, in bars
+ */
+export interface IndicatorPeriods {
+  sma: number;
+  ema: number;
+  rsi: number;
+  bollinger: number;
+  bollingerStdDev: number; // Band width in standard deviations
+  atr: number;
+  vwap: number;
+  pressure: number;
+}
+
+export interface BollingerBands {
+  upper: number;
+  middle: number;
+  lower: number;
+  stdDev: number;
+}
+
+/**
+ * Indicator readings for one token. A value is undefined until enough bars exist.
+ */
+export interface IndicatorSnapshot {
+  tokenAddress: string;
+  barIntervalMs: number;
+  bars: number; // Bars available (including the forming one)
+  lastPrice: number; // Last trade price (SOL per token)
+  lastTradeAt: number;
+  periods: IndicatorPeriods;
+  sma?: number;
+  ema?: number;
+  rsi?: number; // 0-100
+  bollinger?: BollingerBands;
+  atr?: number;
+  vwap?: number;
+  buyVolume: number; // SOL bought over the pressure window
+  sellVolume: number; // SOL sold over the pressure window
+  buyPressure?: number; // Buy share of volume over the pressure window (0-1)
+  pressureRatio?: number; // buyVolume / sellVolume (Infinity with buys but no sells)
+}
+
+export interface IndicatorEngineOptions {
+  barIntervalMs: number;
+  maxBars: number; // Bars kept per token (caps every period)
+  maxTokens: number; // Least recently traded tokens are dropped beyond this
+  periods: IndicatorPeriods;
+}
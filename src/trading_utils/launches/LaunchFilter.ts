@@ -0,0 +1,126 @@
+/**
+ * Launch Filter
+ *
+ * Checks a launch against a sniper's criteria. Pure, so live and replayed
+ * launches are judged the same way.
+ */
+
+import { LaunchCandidate, LaunchFilterCriteria, LaunchFilterResult, LaunchMetadataField } from './types';
+
+export const LAUNCH_METADATA_FIELDS: LaunchMetadataField[] = [
+  'name', 'symbol', 'description', 'image', 'twitter', 'telegram', 'website',
+];
+
+// pump.fun caps names at 32 characters; creators choose these strings, so patterns never see more
+const MAX_MATCHED_LENGTH = 64;
+
+/**
+ * Throws on criteria that can never be evaluated (bad regex, unknown metadata field)
+ */
+export function validateLaunchCriteria(criteria: LaunchFilterCriteria): void {
+  for (const key of ['namePattern', 'symbolPattern', 'excludePattern'] as const) {
+    const pattern = criteria[key];
+    if (pattern === undefined) continue;
+    try {
+      new RegExp(pattern, 'i');
+    } catch (error) {
+      throw new Error(`Invalid ${key} "${pattern}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (hasNestedRepetition(pattern)) {
+      throw new Error(`Invalid ${key} "${pattern}": repeated groups containing quantifiers or alternation can backtrack exponentially`);
+    }
+  }
+
+  const unknown = (criteria.requireMetadata || []).filter(field => !LAUNCH_METADATA_FIELDS.includes(field));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown requireMetadata field(s): ${unknown.join(', ')}. Use: ${LAUNCH_METADATA_FIELDS.join(', ')}`);
+  }
+
+  if (criteria.minInitialBuySol !== undefined && criteria.maxInitialBuySol !== undefined
+    && criteria.minInitialBuySol > criteria.maxInitialBuySol) {
+    throw new Error('minInitialBuySol must not exceed maxInitialBuySol');
+  }
+}
+
+/**
+ * Evaluate every set criterion and collect the reasons a launch fails
+ */
+export function evaluateLaunch(
+  candidate: LaunchCandidate,
+  criteria: LaunchFilterCriteria,
+  now: number
+): LaunchFilterResult {
+  const { launch, metadata, creatorLaunchCount } = candidate;
+  const reasons: string[] = [];
+  const name = launch.name.slice(0, MAX_MATCHED_LENGTH);
+  const symbol = launch.symbol.slice(0, MAX_MATCHED_LENGTH);
+
+  if (criteria.maxCreatorLaunches !== undefined && creatorLaunchCount > criteria.maxCreatorLaunches) {
+    reasons.push(`creator has ${creatorLaunchCount} earlier launches (max ${criteria.maxCreatorLaunches})`);
+  }
+  if (criteria.minInitialBuySol !== undefined && launch.initialBuySol < criteria.minInitialBuySol) {
+    reasons.push(`initial buy ${launch.initialBuySol} SOL below ${criteria.minInitialBuySol}`);
+  }
+  if (criteria.maxInitialBuySol !== undefined && launch.initialBuySol > criteria.maxInitialBuySol) {
+    reasons.push(`initial buy ${launch.initialBuySol} SOL above ${criteria.maxInitialBuySol}`);
+  }
+  if (criteria.namePattern && !new RegExp(criteria.namePattern, 'i').test(name)) {
+    reasons.push(`name "${launch.name}" does not match /${criteria.namePattern}/`);
+  }
+  if (criteria.symbolPattern && !new RegExp(criteria.symbolPattern, 'i').test(symbol)) {
+    reasons.push(`symbol "${launch.symbol}" does not match /${criteria.symbolPattern}/`);
+  }
+  if (criteria.excludePattern) {
+    const exclude = new RegExp(criteria.excludePattern, 'i');
+    if (exclude.test(name) || exclude.test(symbol)) {
+      reasons.push(`name or symbol matches excluded /${criteria.excludePattern}/`);
+    }
+  }
+
+  const missing = (criteria.requireMetadata || []).filter(field => !metadata?.[field]?.trim());
+  if (missing.length > 0) {
+    reasons.push(metadata ? `metadata missing ${missing.join(', ')}` : 'metadata unavailable');
+  }
+
+  if (criteria.maxLaunchAgeSeconds !== undefined && now - launch.timestamp > criteria.maxLaunchAgeSeconds * 1000) {
+    reasons.push(`launched ${Math.round((now - launch.timestamp) / 1000)}s ago (max ${criteria.maxLaunchAgeSeconds}s)`);
+  }
+
+  return { passed: reasons.length === 0, reasons };
+}
+
+/**
+ * True for patterns like (a+)+ or (a|ab)* where a repeated group can itself match
+ * in several ways - the shapes behind catastrophic backtracking
+ */
+function hasNestedRepetition(pattern: string): boolean {
+  const groups: boolean[] = []; // Per open group: contains a quantifier or alternation
+  let closedGroupVaries = false; // The token just before the current one was such a group
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    let groupVaries = false;
+
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      // Character classes are a single token; skip to the closing bracket
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      groupVaries = groups.pop() ?? false;
+      if (groupVaries && groups.length > 0) groups[groups.length - 1] = true;
+    } else if (char === '|') {
+      if (groups.length > 0) groups[groups.length - 1] = true;
+    } else if (char === '*' || char === '+' || char === '{') {
+      if (closedGroupVaries) return true;
+      if (groups.length > 0) groups[groups.length - 1] = true;
+    }
+
+    closedGroupVaries = groupVaries;
+  }
+  return false;
+}
@@ -0,0 +1,419 @@
+/**
+ * Launch Monitor
+ *
+ * Collects pump.fun create events from the live feed, remembers how many tokens
+ * each creator has launched and hands matching launches to waiting strategies.
+ * The websocket subscription for launches starts with the first waiter.
+ * Creator launch counts are flushed to the database so maxCreatorLaunches
+ * still sees serial launchers after a restart.
+ */
+
+import { EventEmitter } from 'events';
+import { promises as dns } from 'dns';
+import { isIP } from 'net';
+import type { PumpFunLaunchEvent } from '../PumpFunWebSocketListener';
+import { LAUNCH_CONFIG } from '../config';
+import { findRecentLaunchCreators, upsertLaunchCreators } from '../../database/dal';
+import { evaluateLaunch, validateLaunchCriteria } from './LaunchFilter';
+import {
+  CreatorHistory,
+  LaunchCandidate,
+  LaunchFilterCriteria,
+  LaunchMetadata,
+  LaunchWaitOptions,
+  LaunchWaitResult,
+} from './types';
+
+const MAX_MINTS_PER_CREATOR = 20;
+const STOP_CHECK_INTERVAL_MS = 1000;
+const MAX_METADATA_REDIRECTS = 3;
+
+/**
+ * Anything that emits 'launch' events (RealTradeFeedService)
+ */
+export interface LaunchEventSource {
+  on(event: 'launch', listener: (launch: PumpFunLaunchEvent) => void): unknown;
+  watchLaunches(): Promise<void>;
+  unwatchLaunches(): Promise<void>;
+}
+
+export class LaunchMonitor extends EventEmitter {
+  private source?: LaunchEventSource;
+  private watching = false;
+  private sequence = 0;
+  private recent: LaunchCandidate[] = []; // Oldest first
+  private seenMints: Set<string> = new Set();
+  private creators: Map<string, CreatorHistory> = new Map(); // Insertion order = least recently seen first
+  private metadataCache: Map<string, Promise<LaunchMetadata | undefined>> = new Map();
+  private dirtyCreators: Set<string> = new Set(); // Changed since the last flush
+  private flushing = false;
+  private lastFlushAt = Date.now();
+  private historyLoaded = false; // Flushing earlier would overwrite stored counts with this boot's
+
+  /**
+   * Receive launches from a live source
+   */
+  attachSource(source: LaunchEventSource): void {
+    this.source = source;
+    source.on('launch', (launch) => this.ingestLaunch(launch));
+    console.log('🚀 [LaunchMonitor] Attached to launch source');
+  }
+
+  /**
+   * Record a launch and notify waiters (duplicates are ignored)
+   */
+  ingestLaunch(launch: PumpFunLaunchEvent): LaunchCandidate | undefined {
+    if (this.seenMints.has(launch.mint)) {
+      return undefined;
+    }
+
+    const history = this.creators.get(launch.creator);
+    const candidate: LaunchCandidate = {
+      sequence: ++this.sequence,
+      launch,
+      creatorLaunchCount: history?.launches ?? 0,
+    };
+
+    this.creators.delete(launch.creator);
+    this.creators.set(launch.creator, {
+      creator: launch.creator,
+      launches: (history?.launches ?? 0) + 1,
+      lastLaunchAt: launch.timestamp,
+      mints: [launch.mint, ...(history?.mints ?? [])].slice(0, MAX_MINTS_PER_CREATOR),
+    });
+    if (this.creators.size > LAUNCH_CONFIG.MAX_TRACKED_CREATORS) {
+      this.creators.delete(this.creators.keys().next().value!);
+    }
+    this.dirtyCreators.add(launch.creator);
+    if (Date.now() - this.lastFlushAt >= LAUNCH_CONFIG.CREATOR_FLUSH_INTERVAL_MS) {
+      this.flushCreators().catch(() => undefined);
+    }
+
+    this.recent.push(candidate);
+    this.seenMints.add(launch.mint);
+    if (this.recent.length > LAUNCH_CONFIG.MAX_RECENT_LAUNCHES) {
+      const dropped = this.recent.shift()!;
+      this.seenMints.delete(dropped.launch.mint);
+      this.metadataCache.delete(dropped.launch.mint);
+    }
+
+    this.emit('launch', candidate);
+    return candidate;
+  }
+
+  /**
+   * Wait for the first launch that passes the filters.
+   * Resolves without a candidate when the timeout passes or shouldStop() turns true.
+   */
+  async waitForLaunch(criteria: LaunchFilterCriteria, options: LaunchWaitOptions): Promise<LaunchWaitResult> {
+    validateLaunchCriteria(criteria);
+    await this.ensureWatching();
+
+    const deadline = Date.now() + options.timeoutMs;
+    const queue = this.recent.filter(c => options.cursor === undefined || c.sequence > options.cursor);
+    let cursor = options.cursor;
+    let rejected = 0;
+    let wake: (() => void) | undefined;
+
+    const onLaunch = (candidate: LaunchCandidate) => {
+      queue.push(candidate);
+      wake?.();
+    };
+    this.on('launch', onLaunch);
+
+    try {
+      while (true) {
+        while (queue.length > 0) {
+          const candidate = queue.shift()!;
+          cursor = candidate.sequence;
+
+          if (criteria.requireMetadata?.length) {
+            candidate.metadata = await this.getMetadata(candidate.launch);
+          }
+
+          const result = evaluateLaunch(candidate, criteria, Date.now());
+          if (result.passed) {
+            console.log(`🎯 [LaunchMonitor] ${candidate.launch.symbol} (${candidate.launch.mint.substring(0, 8)}...) passed launch filters`);
+            return { candidate, rejected, cursor };
+          }
+          rejected++;
+        }
+
+        const remaining = deadline - Date.now();
+        if (remaining <= 0 || options.shouldStop?.()) {
+          return { rejected, cursor };
+        }
+
+        // Sleep until the next launch, checking the stop flag every second
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, Math.min(remaining, STOP_CHECK_INTERVAL_MS));
+          wake = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+        wake = undefined;
+      }
+    } finally {
+      this.off('launch', onLaunch);
+    }
+  }
+
+  /**
+   * Recent launches, newest first
+   */
+  getRecentLaunches(limit: number = 50): LaunchCandidate[] {
+    return this.recent.slice(-limit).reverse();
+  }
+
+  getCreatorHistory(creator: string): CreatorHistory | undefined {
+    return this.creators.get(creator);
+  }
+
+  isWatching(): boolean {
+    return this.watching;
+  }
+
+  /**
+   * Restore creator launch counts saved before the last shutdown.
+   * Launches seen since boot are added on top of the stored counts.
+   */
+  async loadCreatorHistory(): Promise<number> {
+    let records;
+    try {
+      records = await findRecentLaunchCreators(LAUNCH_CONFIG.MAX_TRACKED_CREATORS);
+    } catch (error) {
+      console.warn(`⚠️ [LaunchMonitor] Failed to load creator history: ${error instanceof Error ? error.message : String(error)}`);
+      return 0;
+    }
+
+    const live = this.creators;
+    this.creators = new Map();
+    // Oldest first so the least recently seen creators are evicted first
+    for (const record of records.reverse()) {
+      const mints = Array.isArray(record.mints) ? record.mints.filter((m): m is string => typeof m === 'string') : [];
+      this.creators.set(record.creator, {
+        creator: record.creator,
+        launches: record.launches,
+        lastLaunchAt: record.lastLaunchAt.getTime(),
+        mints,
+      });
+    }
+    for (const [creator, history] of live) {
+      const stored = this.creators.get(creator);
+      this.creators.delete(creator);
+      this.creators.set(creator, stored ? {
+        creator,
+        launches: stored.launches + history.launches,
+        lastLaunchAt: history.lastLaunchAt,
+        mints: [...history.mints, ...stored.mints.filter(m => !history.mints.includes(m))].slice(0, MAX_MINTS_PER_CREATOR),
+      } : history);
+    }
+    while (this.creators.size > LAUNCH_CONFIG.MAX_TRACKED_CREATORS) {
+      this.creators.delete(this.creators.keys().next().value!);
+    }
+    this.historyLoaded = true;
+
+    console.log(`🚀 [LaunchMonitor] Restored launch history for ${records.length} creator(s)`);
+    return records.length;
+  }
+
+  /**
+   * Write changed creator histories to the database (failed writes are retried on the next flush)
+   */
+  async flushCreators(): Promise<number> {
+    if (!this.historyLoaded || this.flushing || this.dirtyCreators.size === 0) return 0;
+
+    this.flushing = true;
+    this.lastFlushAt = Date.now();
+    const batch = Array.from(this.dirtyCreators)
+      .map(creator => this.creators.get(creator))
+      .filter((history): history is CreatorHistory => history !== undefined);
+    this.dirtyCreators.clear();
+
+    try {
+      return await upsertLaunchCreators(batch.map(history => ({
+        creator: history.creator,
+        launches: history.launches,
+        lastLaunchAt: new Date(history.lastLaunchAt),
+        mints: history.mints,
+      })));
+    } catch (error) {
+      for (const history of batch) {
+        this.dirtyCreators.add(history.creator);
+      }
+      console.error(`❌ [LaunchMonitor] Failed to store ${batch.length} creator history record(s):`, error instanceof Error ? error.message : error);
+      return 0;
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (this.watching && this.source) {
+      await this.source.unwatchLaunches();
+    }
+    this.watching = false;
+    await this.flushCreators();
+    this.removeAllListeners();
+    console.log('🛑 [LaunchMonitor] Stopped');
+  }
+
+  private async ensureWatching(): Promise<void> {
+    if (this.watching) return;
+    if (!this.source) {
+      throw new Error('No launch source attached - launch watching needs the real trade feed');
+    }
+    await this.source.watchLaunches();
+    this.watching = true;
+  }
+
+  /**
+   * Metadata JSON from the launch uri (cached per mint, undefined on failure)
+   */
+  private getMetadata(launch: PumpFunLaunchEvent): Promise<LaunchMetadata | undefined> {
+    let pending = this.metadataCache.get(launch.mint);
+    if (!pending) {
+      pending = this.fetchMetadata(launch.uri);
+      this.metadataCache.set(launch.mint, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * The uri is chosen by the creator: only allow-listed public hosts are fetched,
+   * redirects are re-checked hop by hop and the body is read up to METADATA_MAX_BYTES
+   */
+  private async fetchMetadata(uri: string): Promise<LaunchMetadata | undefined> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), LAUNCH_CONFIG.METADATA_TIMEOUT_MS);
+    try {
+      let url = uri;
+      let response: Response | undefined;
+      for (let hop = 0; hop <= MAX_METADATA_REDIRECTS; hop++) {
+        const blocked = await checkMetadataUrl(url);
+        if (blocked) {
+          console.warn(`⚠️ [LaunchMonitor] Skipping metadata ${url}: ${blocked}`);
+          return undefined;
+        }
+
+        response = await fetch(url, { signal: controller.signal, redirect: 'manual' });
+        const location = response.headers.get('location');
+        if (response.status < 300 || response.status >= 400 || !location) {
+          break;
+        }
+        await response.body?.cancel();
+        url = new URL(location, url).toString();
+        response = undefined;
+      }
+
+      if (!response?.ok) {
+        return undefined;
+      }
+      const body = await readLimited(response, LAUNCH_CONFIG.METADATA_MAX_BYTES);
+      if (body === undefined) {
+        console.warn(`⚠️ [LaunchMonitor] Metadata at ${uri} is larger than ${LAUNCH_CONFIG.METADATA_MAX_BYTES} bytes`);
+        return undefined;
+      }
+      const json = JSON.parse(body) as Record<string, unknown>;
+      const text = (value: unknown) => typeof value === 'string' ? value : undefined;
+      return {
+        name: text(json.name),
+        symbol: text(json.symbol),
+        description: text(json.description),
+        image: text(json.image),
+        twitter: text(json.twitter),
+        telegram: text(json.telegram),
+        website: text(json.website),
+      };
+    } catch (error) {
+      console.warn(`⚠️ [LaunchMonitor] Metadata fetch failed for ${uri}: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+/**
+ * Why a metadata url must not be fetched, or null if it is fine
+ */
+async function checkMetadataUrl(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'invalid url';
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return `unsupported protocol ${parsed.protocol}`;
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (!LAUNCH_CONFIG.METADATA_ALLOWED_HOSTS.some(allowed => host === allowed || host.endsWith(`.${allowed}`))) {
+    return `host ${host} is not allow-listed`;
+  }
+
+  // An allow-listed name can still resolve to an internal address
+  const addresses = isIP(host) ? [host] : (await dns.lookup(host, { all: true })).map(a => a.address);
+  const internal = addresses.find(isPrivateAddress);
+  return internal ? `${host} resolves to internal address ${internal}` : null;
+}
+
+/**
+ * Loopback, private, link-local (incl. cloud metadata), CGNAT, multicast and reserved ranges
+ */
+function isPrivateAddress(address: string): boolean {
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) {
+    return isPrivateAddress(mapped[1]);
+  }
+
+  if (isIP(address) === 4) {
+    const [a, b] = address.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || a >= 224
+      || (a === 100 && b >= 64 && b <= 127)
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168)
+      || (a === 198 && (b === 18 || b === 19));
+  }
+
+  const normalized = address.toLowerCase();
+  return normalized === '::' || normalized === '::1'
+    || /^f[cd]/.test(normalized) // Unique local fc00::/7
+    || /^fe[89ab]/.test(normalized) // Link-local fe80::/10
+    || normalized.startsWith('ff'); // Multicast
+}
+
+/**
+ * Response body as text, or undefined once it grows past maxBytes
+ */
+async function readLimited(response: Response, maxBytes: number): Promise<string | undefined> {
+  const declared = parseInt(response.headers.get('content-length') || '', 10);
+  if (declared > maxBytes) {
+    await response.body?.cancel();
+    return undefined;
+  }
+  if (!response.body) {
+    return '';
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return undefined;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+// Singleton instance
+export const launchMonitor = new LaunchMonitor();
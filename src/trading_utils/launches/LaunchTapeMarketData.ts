@@ -0,0 +1,286 @@
+/**
+ * Launch Tape Market Data
+ *
+ * Replays a recorded tape of launches on one simulated clock: launches arrive
+ * at their recorded time, and the launch a sniper picks becomes the token
+ * orders and prices resolve to. Serves as launch feed, replay market data and
+ * portfolio price source, so a tape replay never touches live services.
+ */
+
+import { MarketData } from '../paper-trading/types';
+import { HistoricalPricePoint, ReplayMarketData } from '../backtesting/types';
+import { evaluateLaunch, validateLaunchCriteria } from './LaunchFilter';
+import {
+  LaunchCandidate,
+  LaunchFilterCriteria,
+  LaunchReplayDecision,
+  LaunchTape,
+  LaunchTapeEntry,
+  LaunchWaitOptions,
+  LaunchWaitResult,
+} from './types';
+
+const DEFAULT_SOL_PRICE_USD = 200;
+
+export class LaunchTapeMarketData implements ReplayMarketData {
+  private readonly entries: LaunchTapeEntry[]; // By launch time
+  private readonly creatorCounts: number[]; // Earlier launches by the same creator, per entry
+  private readonly ticks: Map<string, HistoricalPricePoint[]> = new Map();
+  private readonly solPriceUSD: number;
+  private readonly startTime: number;
+  private readonly endTime: number;
+  private readonly decisions: Map<string, LaunchReplayDecision> = new Map();
+  private currentTime: number;
+  private activeMint?: string;
+
+  constructor(tape: LaunchTape, startTime?: number, endTime?: number) {
+    this.solPriceUSD = tape.solPriceUSD || DEFAULT_SOL_PRICE_USD;
+    this.entries = [...tape.launches].sort((a, b) => a.launch.timestamp - b.launch.timestamp);
+
+    if (this.entries.length === 0) {
+      throw new Error('Launch tape has no launches');
+    }
+
+    const seenByCreator: Record<string, number> = { ...(tape.creatorHistory || {}) };
+    this.creatorCounts = this.entries.map(({ launch }) => {
+      const count = seenByCreator[launch.creator] || 0;
+      seenByCreator[launch.creator] = count + 1;
+      return count;
+    });
+
+    let lastTickTime = 0;
+    for (const entry of this.entries) {
+      const ticks = this.buildTicks(entry);
+      if (ticks.length === 0) {
+        throw new Error(`No price history for launch ${entry.launch.mint}`);
+      }
+      this.ticks.set(entry.launch.mint, ticks);
+      lastTickTime = Math.max(lastTickTime, ticks[ticks.length - 1].timestamp);
+    }
+
+    this.startTime = startTime ?? this.entries[0].launch.timestamp;
+    this.endTime = endTime ?? lastTickTime;
+
+    if (this.endTime < this.startTime) {
+      throw new Error(`Replay endTime (${this.endTime}) is before startTime (${this.startTime})`);
+    }
+
+    this.currentTime = this.startTime;
+  }
+
+  getTokenAddress(): string {
+    return this.activeMint || '';
+  }
+
+  getStartTime(): number {
+    return this.startTime;
+  }
+
+  getEndTime(): number {
+    return this.endTime;
+  }
+
+  now(): number {
+    return this.currentTime;
+  }
+
+  isExhausted(): boolean {
+    return this.currentTime >= this.endTime;
+  }
+
+  /**
+   * Latest tick of the selected launch at or before the simulated time
+   */
+  getCurrentTick(): HistoricalPricePoint {
+    if (!this.activeMint) {
+      throw new Error('[LaunchTape] No launch selected yet - wait for a launch before trading');
+    }
+    return this.tickAt(this.activeMint)!;
+  }
+
+  advanceTo(timestamp: number): void {
+    this.currentTime = Math.min(Math.max(timestamp, this.currentTime), this.endTime);
+  }
+
+  advanceBy(durationMs: number): void {
+    this.advanceTo(this.currentTime + durationMs);
+  }
+
+  /**
+   * Step through the selected launch's ticks until `predicate` holds or `deadline` passes
+   */
+  advanceUntil(
+    predicate: (tick: HistoricalPricePoint) => boolean,
+    deadline: number
+  ): HistoricalPricePoint | null {
+    const limit = Math.min(deadline, this.endTime);
+    const current = this.getCurrentTick();
+
+    if (predicate(current)) {
+      return current;
+    }
+
+    for (const tick of this.ticks.get(this.activeMint!)!) {
+      if (tick.timestamp <= this.currentTime) continue;
+      if (tick.timestamp > limit) break;
+      if (predicate(tick)) {
+        this.advanceTo(tick.timestamp);
+        return tick;
+      }
+    }
+
+    this.advanceTo(limit);
+    return null;
+  }
+
+  toMarketData(tick: HistoricalPricePoint): MarketData {
+    const entry = this.entries.find(e => e.launch.mint === this.activeMint);
+    return {
+      tokenAddress: this.activeMint!,
+      tokenSymbol: entry?.launch.symbol,
+      price: tick.price,
+      priceUSD: tick.priceUSD!,
+      solPrice: tick.solPrice!,
+      timestamp: tick.timestamp,
+      source: 'launch-tape',
+    };
+  }
+
+  async fetchTokenPrice(tokenAddress: string): Promise<MarketData | null> {
+    const tick = this.tickAt(tokenAddress);
+    if (!tick) {
+      return null;
+    }
+    const entry = this.entries.find(e => e.launch.mint === tokenAddress);
+    return {
+      tokenAddress,
+      tokenSymbol: entry?.launch.symbol,
+      price: tick.price,
+      priceUSD: tick.priceUSD!,
+      solPrice: tick.solPrice!,
+      timestamp: tick.timestamp,
+      source: 'launch-tape',
+    };
+  }
+
+  async fetchMultipleTokenPrices(tokenAddresses: string[]): Promise<Map<string, MarketData>> {
+    const results = new Map<string, MarketData>();
+    for (const tokenAddress of tokenAddresses) {
+      const data = await this.fetchTokenPrice(tokenAddress);
+      if (data) {
+        results.set(tokenAddress, data);
+      }
+    }
+    return results;
+  }
+
+  async fetchSolPrice(): Promise<number> {
+    return (this.activeMint && this.tickAt(this.activeMint)?.solPrice) || this.solPriceUSD;
+  }
+
+  /**
+   * Launch feed for waitForLaunch steps: jump the clock to each recorded launch
+   * in turn and return the first one that passes the filters
+   */
+  async waitForLaunch(criteria: LaunchFilterCriteria, options: LaunchWaitOptions): Promise<LaunchWaitResult> {
+    validateLaunchCriteria(criteria);
+
+    const deadline = this.currentTime + options.timeoutMs;
+    let cursor = options.cursor;
+    let rejected = 0;
+
+    for (let i = cursor ?? 0; i < this.entries.length; i++) {
+      const entry = this.entries[i];
+      if (entry.launch.timestamp > this.endTime) break;
+      if (entry.launch.timestamp > deadline) {
+        this.advanceTo(deadline);
+        return { rejected, cursor };
+      }
+
+      this.advanceTo(entry.launch.timestamp);
+      cursor = i + 1;
+
+      const candidate: LaunchCandidate = {
+        sequence: i + 1,
+        launch: entry.launch,
+        metadata: entry.metadata,
+        creatorLaunchCount: this.creatorCounts[i],
+      };
+      const result = evaluateLaunch(candidate, criteria, this.currentTime);
+
+      if (result.passed) {
+        this.activeMint = entry.launch.mint;
+        this.recordDecision(entry, 'selected');
+        return { candidate, rejected, cursor };
+      }
+
+      this.recordDecision(entry, 'rejected', result.reasons);
+      rejected++;
+    }
+
+    return { rejected, cursor, exhausted: true };
+  }
+
+  /**
+   * What happened to every launch on the tape, in launch order
+   */
+  getDecisions(): LaunchReplayDecision[] {
+    return this.entries.map(entry => this.decisions.get(entry.launch.mint) || {
+      mint: entry.launch.mint,
+      symbol: entry.launch.symbol,
+      timestamp: entry.launch.timestamp,
+      action: 'missed',
+    });
+  }
+
+  private recordDecision(entry: LaunchTapeEntry, action: LaunchReplayDecision['action'], reasons?: string[]): void {
+    this.decisions.set(entry.launch.mint, {
+      mint: entry.launch.mint,
+      symbol: entry.launch.symbol,
+      timestamp: entry.launch.timestamp,
+      action,
+      reasons,
+    });
+  }
+
+  private tickAt(mint: string): HistoricalPricePoint | undefined {
+    const ticks = this.ticks.get(mint);
+    if (!ticks || ticks[0].timestamp > this.currentTime) {
+      return undefined;
+    }
+
+    let tick = ticks[0];
+    for (const candidate of ticks) {
+      if (candidate.timestamp > this.currentTime) break;
+      tick = candidate;
+    }
+    return tick;
+  }
+
+  /**
+   * Launch price, recorded prices and recorded trades as one sorted tick list
+   */
+  private buildTicks(entry: LaunchTapeEntry): HistoricalPricePoint[] {
+    const { launch } = entry;
+    const launchTick: HistoricalPricePoint[] = launch.initialPrice > 0
+      ? [{ timestamp: launch.timestamp, price: launch.initialPrice }]
+      : [];
+    const tradeTicks: HistoricalPricePoint[] = (entry.trades || [])
+      .filter(t => t.price > 0 && t.tokenAddress.toLowerCase() === launch.mint.toLowerCase())
+      .map(t => ({ timestamp: t.timestamp, price: t.price, volume: t.solAmount }));
+
+    let lastSolPrice = this.solPriceUSD;
+    return [...launchTick, ...(entry.prices || []), ...tradeTicks]
+      .filter(p => p.price > 0)
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map(p => {
+        const solPrice = p.solPrice || lastSolPrice;
+        lastSolPrice = solPrice;
+        return {
+          ...p,
+          solPrice,
+          priceUSD: p.priceUSD ?? p.price * solPrice,
+        };
+      });
+  }
+}
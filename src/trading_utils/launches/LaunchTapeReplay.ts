@@ -0,0 +1,188 @@
+/**
+ * Launch Tape Replay
+ *
+ * Runs a launch-watching strategy (waitForLaunch steps) against a recorded
+ * launch tape on a simulated clock, with paper fills - the offline test bench
+ * for launch snipers. Reports what it did with every launch on the tape.
+ */
+
+import { StrategyBuilder, Strategy, StrategyContext, strategyBuilder } from '../StrategyBuilder';
+import { PaperTradingPortfolio } from '../paper-trading/PaperTradingPortfolio';
+import { paperTradingEngine } from '../paper-trading/PaperTradingEngine';
+import { PaperTrade, PaperTradingConfig } from '../paper-trading/types';
+import { BacktestTradingProvider } from '../backtesting/BacktestTradingProvider';
+import { calculateMaxDrawdown, calculateSharpeRatio } from '../backtesting/BacktestEngine';
+import { BacktestStopReason, EquityPoint } from '../backtesting/types';
+import { awsLogger } from '../../aws/logger';
+import { LaunchTapeMarketData } from './LaunchTapeMarketData';
+import { LaunchReplayConfig, LaunchReplayResult, LaunchTape } from './types';
+
+const DEFAULT_RESTART_DELAY_MS = 5000;
+const DEFAULT_MAX_EXECUTIONS = 100000;
+
+export class LaunchTapeReplay {
+  /**
+   * Replay a strategy against a recorded launch tape
+   */
+  async runReplay(
+    strategy: Strategy,
+    tape: LaunchTape,
+    config: LaunchReplayConfig = {}
+  ): Promise<LaunchReplayResult> {
+    if (!strategy.steps.some(step => step.type === 'waitForLaunch')) {
+      throw new Error(`Strategy ${strategy.id} has no waitForLaunch step - use a backtest for single-token strategies`);
+    }
+
+    const fillConfig: PaperTradingConfig = {
+      ...paperTradingEngine.getDefaultConfig(),
+      ...config.fillModel,
+      enabled: true,
+    };
+    const initialBalanceSOL = config.initialBalanceSOL ?? fillConfig.initialBalanceSOL;
+    const initialBalanceUSDC = config.initialBalanceUSDC ?? fillConfig.initialBalanceUSDC;
+    const restartDelayMs = config.restartDelayMs ?? DEFAULT_RESTART_DELAY_MS;
+    const maxExecutions = config.maxExecutions ?? DEFAULT_MAX_EXECUTIONS;
+
+    const feed = new LaunchTapeMarketData(tape, config.startTime, config.endTime);
+    const portfolio = new PaperTradingPortfolio(initialBalanceSOL, initialBalanceUSDC, feed, () => feed.now());
+    const provider = new BacktestTradingProvider(feed, portfolio, fillConfig, strategy.id, strategy.name);
+
+    // Private builder so the replay never touches the live provider, launch monitor or shared strategy state
+    const builder = new StrategyBuilder(provider);
+    builder.setLaunchFeed(feed);
+    builder.registerStrategy({ ...strategy, variables: { ...(strategy.variables || {}) } });
+    for (const subStrategy of strategyBuilder.collectSubStrategies(strategy)) {
+      builder.registerStrategy({ ...subStrategy, variables: { ...(subStrategy.variables || {}) } });
+    }
+
+    let context: StrategyContext = {
+      strategyId: strategy.id,
+      currentStepId: strategy.startStepId,
+      variables: {
+        ...(strategy.variables || {}),
+        ...config.variables,
+      },
+      stepResults: {},
+      startTime: feed.now(),
+      logs: [],
+    };
+
+    console.log(`🧪 [LaunchReplay] Starting ${strategy.name} on ${tape.launches.length} recorded launches`);
+
+    let executions = 0;
+    let failedExecutions = 0;
+    let lastError: string | undefined;
+    let stopReason: BacktestStopReason = 'data_exhausted';
+
+    while (true) {
+      if (executions >= maxExecutions) {
+        stopReason = 'max_executions';
+        break;
+      }
+
+      const result = await builder.executeStrategy(strategy.id, context);
+      executions++;
+      context = result.context;
+
+      if (result.completed) {
+        stopReason = context.variables._stopReason === 'Launch tape exhausted' ? 'data_exhausted' : 'completed';
+        lastError = undefined;
+        break;
+      }
+
+      if (!result.success) {
+        failedExecutions++;
+        lastError = result.error;
+      } else {
+        lastError = undefined;
+      }
+
+      if (feed.isExhausted()) {
+        stopReason = lastError ? 'error' : 'data_exhausted';
+        break;
+      }
+
+      feed.advanceBy(restartDelayMs);
+    }
+
+    const trades = portfolio.getTrades();
+    const equityCurve = this.buildEquityCurve(trades, initialBalanceSOL, feed.getStartTime());
+
+    const metrics = await portfolio.calculateMetrics(strategy.id, strategy.name);
+    metrics.endTime = feed.now();
+    metrics.sharpeRatio = calculateSharpeRatio(trades);
+    if (equityCurve.length > 0) {
+      metrics.maxDrawdown = calculateMaxDrawdown(equityCurve);
+    }
+
+    // Realized P&L per selected launch
+    const decisions = feed.getDecisions().map(decision => {
+      if (decision.action !== 'selected') return decision;
+      const realizedPnL = trades
+        .filter(t => t.tokenAddress === decision.mint && t.type === 'sell')
+        .reduce((sum, t) => sum + (t.realizedPnL || 0), 0);
+      return { ...decision, realizedPnL };
+    });
+
+    await awsLogger.info('Launch tape replay completed', {
+      strategyId: strategy.id,
+      metadata: {
+        launches: tape.launches.length,
+        selected: decisions.filter(d => d.action === 'selected').length,
+        stopReason,
+        executions,
+        totalTrades: metrics.totalTrades,
+        roi: metrics.roi,
+      },
+    });
+
+    console.log(`🧪 [LaunchReplay] ${strategy.name} finished (${stopReason}): ${decisions.filter(d => d.action === 'selected').length}/${decisions.length} launches selected, ROI ${metrics.roi.toFixed(2)}%`);
+
+    return {
+      strategyId: strategy.id,
+      strategyName: strategy.name,
+      startTime: feed.getStartTime(),
+      endTime: feed.now(),
+      stopReason,
+      error: lastError,
+      executions,
+      failedExecutions,
+      decisions,
+      metrics,
+      equityCurve,
+      trades,
+      finalContext: context,
+    };
+  }
+
+  /**
+   * Mark the portfolio at every fill (between fills it holds at most the traded launch)
+   */
+  private buildEquityCurve(trades: PaperTrade[], initialBalanceSOL: number, startTime: number): EquityPoint[] {
+    const curve: EquityPoint[] = [{
+      timestamp: startTime,
+      price: 0,
+      balanceSOL: initialBalanceSOL,
+      balanceTokens: 0,
+      totalValueSOL: initialBalanceSOL,
+      totalValueUSD: initialBalanceSOL * (trades[0]?.solPriceUSD ?? 0),
+    }];
+
+    for (const trade of trades) {
+      const totalValueSOL = trade.balanceSOL + trade.balanceTokens * trade.marketPrice;
+      curve.push({
+        timestamp: trade.timestamp,
+        price: trade.marketPrice,
+        balanceSOL: trade.balanceSOL,
+        balanceTokens: trade.balanceTokens,
+        totalValueSOL,
+        totalValueUSD: totalValueSOL * trade.solPriceUSD,
+      });
+    }
+
+    return trades.length > 0 ? curve : [];
+  }
+}
+
+// Singleton instance
+export const launchTapeReplay = new LaunchTapeReplay();
@@ -0,0 +1,12 @@
+/**
+ * Launches Module Exports
+ *
+ * Central export point for new token launch watching and launch tape replay
+ */
+
+export * from './types';
+export { LAUNCH_METADATA_FIELDS, evaluateLaunch, validateLaunchCriteria } from './LaunchFilter';
+export { LaunchMonitor, launchMonitor } from './LaunchMonitor';
+export type { LaunchEventSource } from './LaunchMonitor';
+export { LaunchTapeMarketData } from './LaunchTapeMarketData';
+export { LaunchTapeReplay, launchTapeReplay } from './LaunchTapeReplay';
@@ -0,0 +1,124 @@
+/**
+ * Launch Types & Interfaces
+ *
+ * New pump.fun token launches, the filters snipers apply to them and
+ * recorded launch tapes for offline replay
+ */
+
+import type { PumpFunLaunchEvent } from '../PumpFunWebSocketListener';
+import type { RealTradeEvent } from '../../server/websocket/RealTradeFeedService';
+import type { StrategyContext } from '../StrategyBuilder';
+import type { BacktestConfig, EquityPoint, HistoricalPricePoint, BacktestStopReason } from '../backtesting/types';
+import type { PaperTrade, PaperTradingMetrics } from '../paper-trading/types';
+
+export type { PumpFunLaunchEvent };
+
+/**
+ * Metadata JSON behind a launch uri (only the fields filters look at)
+ */
+export interface LaunchMetadata {
+  name?: string;
+  symbol?: string;
+  description?: string;
+  image?: string;
+  twitter?: string;
+  telegram?: string;
+  website?: string;
+}
+
+export type LaunchMetadataField = keyof LaunchMetadata;
+
+/**
+ * A launch as filters see it
+ */
+export interface LaunchCandidate {
+  sequence: number; // Arrival order (launch timestamps only have second precision)
+  launch: PumpFunLaunchEvent;
+  metadata?: LaunchMetadata; // Undefined when the uri could not be fetched
+  creatorLaunchCount: number; // Launches by the same creator before this one
+}
+
+/**
+ * Which launches a sniper is willing to buy (every set criterion must pass)
+ */
+export interface LaunchFilterCriteria {
+  maxCreatorLaunches?: number; // Reject serial deployers with more earlier launches than this
+  minInitialBuySol?: number; // Creator's own buy in the create transaction
+  maxInitialBuySol?: number;
+  namePattern?: string; // Case-insensitive regex the name must match
+  symbolPattern?: string; // Case-insensitive regex the symbol must match
+  excludePattern?: string; // Case-insensitive regex neither name nor symbol may match
+  requireMetadata?: LaunchMetadataField[]; // Metadata fields that must be non-empty
+  maxLaunchAgeSeconds?: number; // Skip launches older than this when they are evaluated
+}
+
+export interface LaunchFilterResult {
+  passed: boolean;
+  reasons: string[]; // Why it was rejected (empty when passed)
+}
+
+export interface CreatorHistory {
+  creator: string;
+  launches: number;
+  lastLaunchAt: number;
+  mints: string[]; // Most recent first, capped
+}
+
+export interface LaunchWaitOptions {
+  timeoutMs: number;
+  cursor?: number; // Sequence of the last launch already considered (omit to include buffered launches)
+  shouldStop?: () => boolean;
+}
+
+export interface LaunchWaitResult {
+  candidate?: LaunchCandidate; // First launch that passed the filters
+  rejected: number; // Launches that failed the filters while waiting
+  cursor?: number; // Pass back on the next wait so rejected launches are not evaluated twice
+  exhausted?: boolean; // Replay only: no launches left on the tape
+}
+
+/**
+ * One recorded launch: the create event plus what happened to the token afterwards
+ */
+export interface LaunchTapeEntry {
+  launch: PumpFunLaunchEvent;
+  metadata?: LaunchMetadata;
+  prices?: HistoricalPricePoint[]; // TOKEN/SOL after the launch
+  trades?: RealTradeEvent[]; // Recorded trades, also replayed as price ticks
+}
+
+export interface LaunchTape {
+  launches: LaunchTapeEntry[];
+  creatorHistory?: Record<string, number>; // Launches per creator before the tape starts
+  solPriceUSD?: number;
+}
+
+export type LaunchReplayConfig = Omit<BacktestConfig, 'equitySampleIntervalMs'>;
+
+/**
+ * What the sniper did with one recorded launch
+ */
+export interface LaunchReplayDecision {
+  mint: string;
+  symbol: string;
+  timestamp: number;
+  action: 'selected' | 'rejected' | 'missed'; // missed: never evaluated before the replay ended
+  reasons?: string[];
+  realizedPnL?: number; // SOL, selected launches only
+}
+
+export interface LaunchReplayResult {
+  strategyId: string;
+  strategyName: string;
+  startTime: number; // Simulated
+  endTime: number; // Simulated
+  stopReason: BacktestStopReason;
+  error?: string;
+  executions: number;
+  failedExecutions: number;
+  decisions: LaunchReplayDecision[];
+  metrics: PaperTradingMetrics;
+  equityCurve: EquityPoint[];
+  trades: PaperTrade[];
+  finalContext: StrategyContext;
+}
@@ -0,0 +1,255 @@
+/**
+ * Paper Execution Simulator
+ *
+ * Models what happens between deciding on a market fill and the transaction landing:
+ * - latency sampled from a fixed, uniform, normal, lognormal or empirical distribution
+ * - trades from RealTradeFeedService that land in the meantime move the price and the
+ *   pool reserves, so the fill is priced at landing instead of at the decision
+ * - with liquidity simulation, sizes the pool cannot absorb are cut to a partial fill,
+ *   or fail when even the minimum partial fill does not fit
+ *
+ * Tokens the feed is not monitoring land at the decision price after the delay.
+ */
+
+import type { RealTradeEvent, RealTradeFeedService } from '../../server/websocket/RealTradeFeedService';
+import { PAPER_EXECUTION_CONFIG } from '../config';
+import {
+  ExecutionLatencyConfig,
+  ExecutionSimulation,
+  LatencyDistribution,
+  MarketData,
+  PaperOrderSide,
+  PaperTradingConfig,
+  PoolReserves,
+} from './types';
+
+export interface SimulatedExecution {
+  marketData: MarketData; // Tick to fill against (re-priced at landing)
+  reserves: PoolReserves | null; // Reserves to fill against (moved by trades that landed first)
+  execution?: ExecutionSimulation; // Unset when neither latency nor liquidity simulation is enabled
+}
+
+interface InFlightOrder {
+  trades: RealTradeEvent[]; // Feed trades seen while the order was in flight
+}
+
+/**
+ * Session latency settings over the PAPER_EXECUTION_CONFIG defaults
+ */
+export function resolveLatencyConfig(config: PaperTradingConfig): ExecutionLatencyConfig {
+  return {
+    distribution: PAPER_EXECUTION_CONFIG.LATENCY_DISTRIBUTION as LatencyDistribution,
+    meanMs: PAPER_EXECUTION_CONFIG.LATENCY_MEAN_MS,
+    jitterMs: PAPER_EXECUTION_CONFIG.LATENCY_JITTER_MS,
+    minMs: PAPER_EXECUTION_CONFIG.LATENCY_MIN_MS,
+    maxMs: PAPER_EXECUTION_CONFIG.LATENCY_MAX_MS,
+    ...config.latency,
+  };
+}
+
+/**
+ * Standard normal sample (Box-Muller)
+ */
+function standardNormal(random: () => number): number {
+  const u = 1 - random(); // (0, 1] keeps log() finite
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+/**
+ * Draw one submission-to-landing latency. Sampled latencies are clamped to [minMs, maxMs]; fixed ones are used as set.
+ */
+export function sampleLatencyMs(latency: ExecutionLatencyConfig, random: () => number = Math.random): number {
+  if (latency.distribution === 'fixed') {
+    return Math.max(0, Math.round(latency.meanMs));
+  }
+
+  let sample: number;
+  switch (latency.distribution) {
+    case 'uniform':
+      sample = latency.meanMs + (random() * 2 - 1) * latency.jitterMs;
+      break;
+    case 'normal':
+      sample = latency.meanMs + standardNormal(random) * latency.jitterMs;
+      break;
+    case 'lognormal': {
+      // Underlying normal chosen so the samples have the configured mean and standard deviation
+      const variance = Math.log(1 + (latency.jitterMs / latency.meanMs) ** 2);
+      const mu = Math.log(latency.meanMs) - variance / 2;
+      sample = Math.exp(mu + Math.sqrt(variance) * standardNormal(random));
+      break;
+    }
+    case 'empirical':
+      sample = latency.samplesMs?.length
+        ? latency.samplesMs[Math.floor(random() * latency.samplesMs.length)]
+        : latency.meanMs;
+      break;
+    default:
+      sample = latency.meanMs;
+  }
+
+  if (!Number.isFinite(sample)) {
+    sample = latency.meanMs;
+  }
+  return Math.round(Math.min(latency.maxMs, Math.max(latency.minMs, sample)));
+}
+
+/**
+ * Reserves after `trades` went through the pool: buys add SOL and take tokens out, sells the reverse
+ */
+export function applyTradesToReserves(reserves: PoolReserves, trades: RealTradeEvent[]): PoolReserves {
+  let solReserves = reserves.solReserves;
+  let tokenReserves = reserves.tokenReserves;
+
+  for (const trade of trades) {
+    const direction = trade.type === 'buy' ? 1 : -1;
+    solReserves += direction * trade.solAmount;
+    tokenReserves -= direction * trade.tokenAmount;
+  }
+
+  // Feed and pool read disagree (e.g. a pool migration) - keep the read
+  if (solReserves <= 0 || tokenReserves <= 0) {
+    return reserves;
+  }
+
+  return {
+    ...reserves,
+    solReserves,
+    tokenReserves,
+    timestamp: trades.length > 0 ? trades[trades.length - 1].timestamp : reserves.timestamp,
+  };
+}
+
+/**
+ * Share of a `notionalSOL` fill the pool can absorb: 1 when it fits, 0 when even the
+ * minimum partial fill does not, or null when there is no pool size to measure against.
+ * The pool's SOL side comes from the reserves, else from the tick's USD liquidity.
+ */
+export function liquidityFillRatio(
+  config: PaperTradingConfig,
+  notionalSOL: number,
+  reserves: PoolReserves | null,
+  marketData: MarketData
+): { fillRatio: number; maxFillSOL: number } | null {
+  const poolSOL = reserves && reserves.solReserves > 0
+    ? reserves.solReserves
+    : marketData.liquidity && marketData.solPrice > 0
+      ? marketData.liquidity / 2 / marketData.solPrice
+      : 0;
+
+  if (!(poolSOL > 0) || !(notionalSOL > 0)) {
+    return null;
+  }
+
+  const maxPoolSharePercent = config.maxPoolSharePercent ?? PAPER_EXECUTION_CONFIG.MAX_POOL_SHARE_PCT;
+  const minPartialFillPercent = config.minPartialFillPercent ?? PAPER_EXECUTION_CONFIG.MIN_PARTIAL_FILL_PCT;
+  const maxFillSOL = poolSOL * (maxPoolSharePercent / 100);
+  const fillRatio = Math.min(1, maxFillSOL / notionalSOL);
+
+  return {
+    fillRatio: fillRatio * 100 < minPartialFillPercent ? 0 : fillRatio,
+    maxFillSOL,
+  };
+}
+
+export class ExecutionSimulator {
+  private realTradeFeed?: RealTradeFeedService;
+  private inFlight: Map<string, Set<InFlightOrder>> = new Map(); // tokenAddress -> orders waiting to land
+  private tradeHandler = (trade: RealTradeEvent) => {
+    this.inFlight.get(trade.tokenAddress)?.forEach(order => order.trades.push(trade));
+  };
+
+  /**
+   * Price in-flight orders off live trades
+   */
+  setRealTradeFeed(feed: RealTradeFeedService): void {
+    if (this.realTradeFeed) {
+      this.realTradeFeed.off('market_trade', this.tradeHandler);
+    }
+    this.realTradeFeed = feed;
+    feed.on('market_trade', this.tradeHandler);
+  }
+
+  /**
+   * Run a market fill through the session's latency and liquidity simulation
+   * @param amount SOL spent for buys, tokens sold for sells
+   */
+  async simulate(
+    config: PaperTradingConfig,
+    side: PaperOrderSide,
+    tokenAddress: string,
+    amount: number,
+    marketData: MarketData,
+    reserves: PoolReserves | null
+  ): Promise<SimulatedExecution> {
+    if (!config.enableLatencySimulation && !config.enableLiquiditySimulation) {
+      return { marketData, reserves };
+    }
+
+    let latencyMs = 0;
+    let landedTrades: RealTradeEvent[] = [];
+    if (config.enableLatencySimulation) {
+      latencyMs = sampleLatencyMs(resolveLatencyConfig(config));
+      landedTrades = await this.waitForLanding(tokenAddress, latencyMs);
+    }
+
+    // The fill lands behind every trade that landed first
+    const lastTrade = landedTrades[landedTrades.length - 1];
+    const landedMarketData: MarketData = lastTrade
+      ? {
+        ...marketData,
+        price: lastTrade.price,
+        priceUSD: lastTrade.price * marketData.solPrice,
+        timestamp: lastTrade.timestamp,
+        source: 'trade_feed',
+      }
+      : marketData;
+    const landedReserves = reserves && landedTrades.length > 0
+      ? applyTradesToReserves(reserves, landedTrades)
+      : reserves;
+
+    const notionalSOL = side === 'buy' ? amount : amount * landedMarketData.price;
+    const liquidity = config.enableLiquiditySimulation
+      ? liquidityFillRatio(config, notionalSOL, landedReserves, landedMarketData)
+      : null;
+
+    return {
+      marketData: landedMarketData,
+      reserves: landedReserves,
+      execution: {
+        latencyMs,
+        decisionPrice: marketData.price,
+        landingPrice: landedMarketData.price,
+        tradesBeforeLanding: landedTrades.length,
+        fillRatio: liquidity ? liquidity.fillRatio : 1,
+        maxFillSOL: liquidity?.maxFillSOL,
+      },
+    };
+  }
+
+  /**
+   * Wait out the latency and return the token's feed trades that landed in the meantime
+   */
+  private async waitForLanding(tokenAddress: string, latencyMs: number): Promise<RealTradeEvent[]> {
+    const order: InFlightOrder = { trades: [] };
+    let orders = this.inFlight.get(tokenAddress);
+    if (!orders) {
+      orders = new Set();
+      this.inFlight.set(tokenAddress, orders);
+    }
+    orders.add(order);
+
+    try {
+      await new Promise(resolve => setTimeout(resolve, latencyMs));
+    } finally {
+      orders.delete(order);
+      if (orders.size === 0) {
+        this.inFlight.delete(tokenAddress);
+      }
+    }
+
+    return order.trades.filter(trade => trade.price > 0);
+  }
+}
+
+// Singleton instance
+export const executionSimulator = new ExecutionSimulator();
@@ -0,0 +1,158 @@
+/**
+ * Paper Experiment Statistics
+ *
+ * Significance tests for A/B paper experiments. Variants are marked to market
+ * at the same shared ticks, so their per-tick returns are paired and compared
+ * with a two-sided paired t-test.
+ */
+
+export interface PairedTTestResult {
+  sampleSize: number;
+  meanDifference: number; // Mean of a[i] - b[i]
+  tStatistic: number;
+  pValue: number; // Two-sided
+}
+
+// Lanczos approximation coefficients (g = 7, n = 9)
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+  1.5056327351493116e-7,
+];
+
+function logGamma(x: number): number {
+  if (x < 0.5) {
+    // Reflection formula
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  }
+
+  const z = x - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) {
+    sum += LANCZOS[i] / (z + i);
+  }
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+/**
+ * Continued fraction for the incomplete beta function (modified Lentz)
+ */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const MAX_ITERATIONS = 300;
+  const EPSILON = 3e-14;
+  const TINY = 1e-300;
+
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < TINY) d = TINY;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= MAX_ITERATIONS; m++) {
+    const m2 = 2 * m;
+
+    // Even step
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    h *= d * c;
+
+    // Odd step
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+
+    if (Math.abs(delta - 1) < EPSILON) {
+      break;
+    }
+  }
+
+  return h;
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b)
+ */
+function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+
+  // The continued fraction converges fastest on this side of the mean
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+/**
+ * Two-sided p-value of a t statistic with `degreesOfFreedom`
+ */
+export function studentTPValue(tStatistic: number, degreesOfFreedom: number): number {
+  if (!Number.isFinite(tStatistic)) {
+    return Number.isNaN(tStatistic) ? 1 : 0;
+  }
+  return regularizedIncompleteBeta(
+    degreesOfFreedom / (degreesOfFreedom + tStatistic * tStatistic),
+    degreesOfFreedom / 2,
+    0.5
+  );
+}
+
+/**
+ * Per-period simple returns of two value series sampled at the same ticks.
+ * Periods where either series starts at zero are dropped from both, so pairs stay aligned.
+ */
+export function pairedPeriodReturns(a: number[], b: number[]): [number[], number[]] {
+  const returnsA: number[] = [];
+  const returnsB: number[] = [];
+  const length = Math.min(a.length, b.length);
+  for (let i = 1; i < length; i++) {
+    if (a[i - 1] !== 0 && b[i - 1] !== 0) {
+      returnsA.push(a[i] / a[i - 1] - 1);
+      returnsB.push(b[i] / b[i - 1] - 1);
+    }
+  }
+  return [returnsA, returnsB];
+}
+
+/**
+ * Paired t-test of a against b (pairs beyond the shorter series are ignored)
+ */
+export function pairedTTest(a: number[], b: number[]): PairedTTestResult {
+  const sampleSize = Math.min(a.length, b.length);
+  if (sampleSize < 2) {
+    return { sampleSize, meanDifference: 0, tStatistic: 0, pValue: 1 };
+  }
+
+  const differences = Array.from({ length: sampleSize }, (_, i) => a[i] - b[i]);
+  const meanDifference = differences.reduce((sum, d) => sum + d, 0) / sampleSize;
+  const variance = differences.reduce((sum, d) => sum + Math.pow(d - meanDifference, 2), 0) / (sampleSize - 1);
+  const standardError = Math.sqrt(variance / sampleSize);
+
+  if (standardError === 0) {
+    // Identical series, or a constant difference every period
+    return meanDifference === 0
+      ? { sampleSize, meanDifference, tStatistic: 0, pValue: 1 }
+      : { sampleSize, meanDifference, tStatistic: Math.sign(meanDifference) * Infinity, pValue: 0 };
+  }
+
+  const tStatistic = meanDifference / standardError;
+  return {
+    sampleSize,
+    meanDifference,
+    tStatistic,
+    pValue: studentTPValue(tStatistic, sampleSize - 1),
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * Paper Trading Venue Fee Models
+ *
+ * Pure per-venue fee math for paper fills. Each venue contributes its swap fee
+ * (pump.fun curve fee, Raydium AMM v4 pool fee, Jupiter route fees); the fixed
+ * costs every fill pays on-chain (signature fee, priority fee, ATA rent on the
+ * first buy of a mint) are shared. Additional venues plug in through
+ * registerVenueFeeModel.
+ */
+
+import type { TradingRoute } from '../TokenRouter';
+import { PAPER_FEE_CONFIG } from '../config';
+import { FeeVenue, PaperOrderSide, VenueFeeSchedule } from './types';
+
+const LAMPORTS_PER_SOL = 1e9;
+const MICRO_LAMPORTS_PER_LAMPORT = 1e6;
+
+export interface VenueFeeModel {
+  venue: FeeVenue;
+  swapFeeBps(side: PaperOrderSide): number; // Fee on the SOL notional of one fill
+}
+
+export interface FixedFeeInput {
+  priorityFeeMicroLamports: number; // Compute unit price, as sampled by calculateOptimalPriorityFee
+  firstBuy: boolean; // No token account exists yet for the mint
+}
+
+const pumpFunCurveFeeModel: VenueFeeModel = {
+  venue: 'pumpfun',
+  swapFeeBps: () => PAPER_FEE_CONFIG.PUMPFUN_CURVE_FEE_BPS,
+};
+
+const raydiumAmmV4FeeModel: VenueFeeModel = {
+  venue: 'raydium',
+  swapFeeBps: () => PAPER_FEE_CONFIG.RAYDIUM_AMM_V4_FEE_BPS,
+};
+
+const jupiterRouteFeeModel: VenueFeeModel = {
+  venue: 'jupiter',
+  // Jupiter itself is free: the route pays each hop's pool fee plus any platform fee
+  swapFeeBps: () => PAPER_FEE_CONFIG.JUPITER_HOP_FEE_BPS * PAPER_FEE_CONFIG.JUPITER_ROUTE_HOPS
+    + PAPER_FEE_CONFIG.JUPITER_PLATFORM_FEE_BPS,
+};
+
+const feeModels = new Map<FeeVenue, VenueFeeModel>([
+  [pumpFunCurveFeeModel.venue, pumpFunCurveFeeModel],
+  [raydiumAmmV4FeeModel.venue, raydiumAmmV4FeeModel],
+  [jupiterRouteFeeModel.venue, jupiterRouteFeeModel],
+]);
+
+/**
+ * Replace the fee model for a venue
+ */
+export function registerVenueFeeModel(model: VenueFeeModel): void {
+  feeModels.set(model.venue, model);
+}
+
+export function getVenueFeeModel(venue: FeeVenue): VenueFeeModel {
+  return feeModels.get(venue) || jupiterRouteFeeModel;
+}
+
+/**
+ * Venue a TokenRouter route executes on: the pump.fun curve, a single Raydium AMM v4
+ * pool (graduated / Raydium tokens that Jupiter routes straight through), or a Jupiter route
+ */
+export function venueFromRoute(route: TradingRoute): FeeVenue {
+  if (route.engine === 'pumpfun') {
+    return 'pumpfun';
+  }
+  const metadata = route.tokenInfo.metadata;
+  if (metadata?.raydiumPoolAddress && metadata.poolType !== 'clmm') {
+    return 'raydium';
+  }
+  return 'jupiter';
+}
+
+/**
+ * Lamports a transaction pays for a compute unit price of `microLamportsPerCU`
+ */
+export function priorityFeeLamports(microLamportsPerCU: number, computeUnitLimit = PAPER_FEE_CONFIG.COMPUTE_UNIT_LIMIT): number {
+  return (microLamportsPerCU * computeUnitLimit) / MICRO_LAMPORTS_PER_LAMPORT;
+}
+
+/**
+ * Full fee schedule for one fill on `venue`
+ */
+export function buildVenueFeeSchedule(venue: FeeVenue, side: PaperOrderSide, input: FixedFeeInput): VenueFeeSchedule {
+  return {
+    venue,
+    swapFeeBps: getVenueFeeModel(venue).swapFeeBps(side),
+    baseFeeSOL: PAPER_FEE_CONFIG.BASE_FEE_LAMPORTS / LAMPORTS_PER_SOL,
+    priorityFeeSOL: priorityFeeLamports(input.priorityFeeMicroLamports) / LAMPORTS_PER_SOL,
+    ataRentSOL: side === 'buy' && input.firstBuy ? PAPER_FEE_CONFIG.ATA_RENT_LAMPORTS / LAMPORTS_PER_SOL : 0,
+  };
+}
+
+/**
+ * Fixed SOL a fill pays regardless of size
+ */
+export function fixedFeeSOL(schedule: VenueFeeSchedule): number {
+  return schedule.baseFeeSOL + schedule.priorityFeeSOL + schedule.ataRentSOL;
+}
@@ -0,0 +1,185 @@
+/**
+ * Paper Trading Fill Model
+ *
+ * Pure fee/slippage math shared by the live paper engine and the backtester,
+ * so a simulated fill is priced the same way no matter where it comes from.
+ * When pool reserves are supplied the flat slippage percentage is replaced by
+ * constant-product price impact for the actual order size, and when a venue
+ * fee schedule is supplied it replaces the flat fee percentage and network fee.
+ */
+
+import { PaperTradingConfig, PoolReserves, VenueFeeSchedule } from './types';
+import { fixedFeeSOL } from './FeeModels';
+
+export interface BuyFillQuote {
+  basePrice: number; // Token price in SOL before slippage
+  slippageAmount: number;
+  executionPrice: number;
+  tradingFee: number;
+  networkFee: number;
+  totalFees: number;
+  effectiveSOL: number; // SOL left to swap after fees
+  tokensReceived: number;
+  priceImpact?: number; // % vs. pool spot price, set when priced off reserves
+}
+
+export interface SellFillQuote {
+  basePrice: number; // Token price in SOL before slippage
+  slippageAmount: number;
+  executionPrice: number;
+  solBeforeFees: number;
+  tradingFee: number;
+  networkFee: number;
+  totalFees: number;
+  solReceived: number;
+  priceImpact?: number; // % vs. pool spot price, set when priced off reserves
+}
+
+type FillConfig = Pick<
+  PaperTradingConfig,
+  'enableSlippage' | 'slippagePercentage' | 'enableFees' | 'tradingFeePercentage' | 'networkFeeSOL'
+>;
+
+/**
+ * Tokens out for `solIn` against x * y = k (same formula as PumpFunIntegration.calculateTokenOutput)
+ */
+export function curveTokensOut(solIn: number, reserves: PoolReserves): number {
+  const k = reserves.solReserves * reserves.tokenReserves;
+  return reserves.tokenReserves - k / (reserves.solReserves + solIn);
+}
+
+/**
+ * SOL out for `tokensIn` against x * y = k (same formula as PumpFunIntegration.calculateSolOutput)
+ */
+export function curveSolOut(tokensIn: number, reserves: PoolReserves): number {
+  const k = reserves.solReserves * reserves.tokenReserves;
+  return reserves.solReserves - k / (reserves.tokenReserves + tokensIn);
+}
+
+/**
+ * Spot price (SOL per token) implied by the reserves
+ */
+export function reservesSpotPrice(reserves: PoolReserves): number {
+  return reserves.solReserves / reserves.tokenReserves;
+}
+
+function hasUsableReserves(reserves?: PoolReserves | null): reserves is PoolReserves {
+  return !!reserves && reserves.solReserves > 0 && reserves.tokenReserves > 0;
+}
+
+/**
+ * Trading (proportional) and network (fixed) fees on a SOL notional
+ */
+function quoteFees(
+  config: FillConfig,
+  notionalSOL: number,
+  fees?: VenueFeeSchedule | null
+): { tradingFee: number; networkFee: number } {
+  if (!config.enableFees) {
+    return { tradingFee: 0, networkFee: 0 };
+  }
+  if (fees) {
+    return { tradingFee: notionalSOL * (fees.swapFeeBps / 10000), networkFee: fixedFeeSOL(fees) };
+  }
+  return { tradingFee: notionalSOL * (config.tradingFeePercentage / 100), networkFee: config.networkFeeSOL };
+}
+
+/**
+ * Quote a market buy of `amountSOL` at `basePrice` (SOL per token)
+ */
+export function quoteBuyFill(
+  config: FillConfig,
+  basePrice: number,
+  amountSOL: number,
+  reserves?: PoolReserves | null,
+  fees?: VenueFeeSchedule | null
+): BuyFillQuote {
+  // Fees are charged on the SOL amount before the swap
+  const { tradingFee, networkFee } = quoteFees(config, amountSOL, fees);
+  const totalFees = tradingFee + networkFee;
+
+  const effectiveSOL = amountSOL - totalFees;
+
+  if (hasUsableReserves(reserves) && effectiveSOL > 0) {
+    // Real output for this size: walk the curve instead of applying a flat percentage
+    const tokensReceived = curveTokensOut(effectiveSOL, reserves);
+    const executionPrice = effectiveSOL / tokensReceived;
+    const spotPrice = reservesSpotPrice(reserves);
+
+    return {
+      basePrice,
+      slippageAmount: executionPrice - basePrice,
+      executionPrice,
+      tradingFee,
+      networkFee,
+      totalFees,
+      effectiveSOL,
+      tokensReceived,
+      priceImpact: ((executionPrice - spotPrice) / spotPrice) * 100,
+    };
+  }
+
+  const slippageAmount = config.enableSlippage
+    ? basePrice * (config.slippagePercentage / 100) : 0;
+  const executionPrice = basePrice + slippageAmount;
+
+  // Token amount uses the base price (no additional slippage on token amount)
+  const tokensReceived = effectiveSOL / basePrice;
+
+  return {
+    basePrice,
+    slippageAmount,
+    executionPrice,
+    tradingFee,
+    networkFee,
+    totalFees,
+    effectiveSOL,
+    tokensReceived,
+  };
+}
+
+/**
+ * Quote a market sell of `tokenAmount` at `basePrice` (SOL per token)
+ */
+export function quoteSellFill(
+  config: FillConfig,
+  basePrice: number,
+  tokenAmount: number,
+  reserves?: PoolReserves | null,
+  fees?: VenueFeeSchedule | null
+): SellFillQuote {
+  let slippageAmount: number;
+  let executionPrice: number;
+  let solBeforeFees: number;
+  let priceImpact: number | undefined;
+
+  if (hasUsableReserves(reserves) && tokenAmount > 0) {
+    solBeforeFees = curveSolOut(tokenAmount, reserves);
+    executionPrice = solBeforeFees / tokenAmount;
+    slippageAmount = basePrice - executionPrice;
+
+    const spotPrice = reservesSpotPrice(reserves);
+    priceImpact = ((spotPrice - executionPrice) / spotPrice) * 100;
+  } else {
+    // Price drops when selling
+    slippageAmount = config.enableSlippage
+      ? basePrice * (config.slippagePercentage / 100) : 0;
+    executionPrice = basePrice - slippageAmount;
+    solBeforeFees = tokenAmount * executionPrice;
+  }
+
+  const { tradingFee, networkFee } = quoteFees(config, solBeforeFees, fees);
+  const totalFees = tradingFee + networkFee;
+
+  return {
+    basePrice,
+    slippageAmount,
+    executionPrice,
+    solBeforeFees,
+    tradingFee,
+    networkFee,
+    totalFees,
+    solReceived: solBeforeFees - totalFees,
+    priceImpact,
+  };
+}
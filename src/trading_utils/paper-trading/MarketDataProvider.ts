@@ -9,6 +9,7 @@ import { MarketData } from './types';
 import { awsLogger } from '../../aws/logger';
 import { Connection, PublicKey } from '@solana/web3.js';
 import { TRADING_CONFIG } from '../config';
+import { candleAggregator } from '../candles';
 
 export interface MarketDataSource {
   name: string;
@@ -681,6 +682,7 @@ export class MarketDataProvider {
     // Find the first successful result
     for (const result of results) {
       if (result.status === 'fulfilled' && result.value) {
+        candleAggregator.ingestTick(result.value);
         return result.value;
       }
     }
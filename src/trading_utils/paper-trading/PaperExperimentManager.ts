@@ -0,0 +1,687 @@
+/**
+ * Paper Experiment Manager
+ *
+ * A/B experiments: N strategy variants run side by side in linked paper
+ * sessions on one shared market feed. Every variant gets exactly the same
+ * MarketData ticks (polled once per interval for the whole experiment), the
+ * same pool reserve snapshot to price fills against and the same
+ * RealTradeFeedService trade events, so differences in results come from the
+ * strategies rather than from the market state they happened to see. Latency
+ * simulation is not supported: it lands each fill on whatever live trades
+ * arrive while that order is in flight.
+ *
+ * Each variant runs on a private StrategyBuilder (as in backtests) so the
+ * variants never share a trading provider. Variants are marked to market at
+ * every shared tick; the report compares each one against the control (the
+ * first variant) with a paired t-test on those per-tick returns.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Server as SocketServer } from 'socket.io';
+import type { RealTradeEvent, RealTradeFeedService } from '../../server/websocket/RealTradeFeedService';
+import { StrategyBuilder, StrategyContext, strategyBuilder } from '../StrategyBuilder';
+import { calculateMaxDrawdown, calculateSharpeRatio } from '../backtesting/BacktestEngine';
+import type { EquityPoint } from '../backtesting/types';
+import { PAPER_EXPERIMENT_CONFIG } from '../config';
+import { awsLogger } from '../../aws/logger';
+import { paperTradingEngine } from './PaperTradingEngine';
+import { PaperTradingPortfolio } from './PaperTradingPortfolio';
+import { PaperTradingProvider } from './PaperTradingProvider';
+import { marketDataProvider } from './MarketDataProvider';
+import { poolReserveProvider } from './PoolReserveProvider';
+import { applyTradesToReserves } from './ExecutionSimulator';
+import { pairedPeriodReturns, pairedTTest } from './ExperimentStatistics';
+import {
+  MarketData,
+  MarketTickSource,
+  PaperExperiment,
+  PaperExperimentComparison,
+  PaperExperimentReport,
+  PaperExperimentRequest,
+  PaperExperimentStatus,
+  PaperTradingConfig,
+  PaperExperimentVariantResult,
+  PoolReserves,
+  PortfolioPriceSource,
+} from './types';
+
+/**
+ * The one feed every variant of an experiment reads: the latest shared tick
+ * (and reserve snapshot) per token, falling back to MarketDataProvider for
+ * tokens it has not seen
+ */
+class SharedMarketFeed implements MarketTickSource, PortfolioPriceSource {
+  private ticks: Map<string, MarketData> = new Map();
+  private reserves: Map<string, PoolReserves | null> = new Map();
+
+  setTick(tick: MarketData, reserves?: PoolReserves | null): void {
+    this.ticks.set(tick.tokenAddress, tick);
+    if (reserves !== undefined) {
+      this.reserves.set(tick.tokenAddress, reserves);
+    }
+  }
+
+  getTick(tokenAddress: string): MarketData | undefined {
+    return this.ticks.get(tokenAddress);
+  }
+
+  getReserves(tokenAddress: string): PoolReserves | null | undefined {
+    return this.reserves.get(tokenAddress);
+  }
+
+  async fetchTokenPrice(tokenAddress: string): Promise<MarketData | null> {
+    return this.ticks.get(tokenAddress) || await marketDataProvider.fetchTokenPrice(tokenAddress);
+  }
+
+  async fetchMultipleTokenPrices(tokenAddresses: string[]): Promise<Map<string, MarketData>> {
+    const missing = tokenAddresses.filter(tokenAddress => !this.ticks.has(tokenAddress));
+    const results = missing.length > 0
+      ? await marketDataProvider.fetchMultipleTokenPrices(missing)
+      : new Map<string, MarketData>();
+
+    for (const tokenAddress of tokenAddresses) {
+      const tick = this.ticks.get(tokenAddress);
+      if (tick) {
+        results.set(tokenAddress, tick);
+      }
+    }
+    return results;
+  }
+
+  async fetchSolPrice(): Promise<number> {
+    const tick = Array.from(this.ticks.values()).sort((a, b) => b.timestamp - a.timestamp)[0];
+    return tick?.solPrice || await marketDataProvider.fetchSolPrice();
+  }
+}
+
+interface VariantRun {
+  builder: StrategyBuilder;
+  context: StrategyContext;
+  equityCurve: EquityPoint[]; // Marked at every shared tick
+  executing: boolean;
+  rerun: boolean; // An event arrived mid-execution - run again once it returns
+}
+
+interface ExperimentRun {
+  experiment: PaperExperiment;
+  feed: SharedMarketFeed;
+  variants: VariantRun[]; // Same order as experiment.variants
+  abortController: AbortController;
+  tickTimer: NodeJS.Timeout | null;
+  ticking: boolean;
+}
+
+export class PaperExperimentManager {
+  private experiments: Map<string, ExperimentRun> = new Map();
+  private io: SocketServer | null = null;
+  private realTradeFeed?: RealTradeFeedService;
+  private tradeHandler = (trade: RealTradeEvent) => {
+    this.handleMarketTrade(trade);
+  };
+
+  /**
+   * Set WebSocket server for experiment events
+   */
+  setSocketIO(io: SocketServer): void {
+    this.io = io;
+  }
+
+  /**
+   * Deliver live trades to every variant of running experiments
+   */
+  setRealTradeFeed(feed: RealTradeFeedService): void {
+    if (this.realTradeFeed) {
+      this.realTradeFeed.off('market_trade', this.tradeHandler);
+    }
+    this.realTradeFeed = feed;
+    feed.on('market_trade', this.tradeHandler);
+  }
+
+  /**
+   * Returns an error message, or null if the request is valid
+   */
+  validateExperimentRequest(request: Partial<PaperExperimentRequest>): string | null {
+    if (!request.tokenAddress || request.tokenAddress.length < 32 || request.tokenAddress.length > 44) {
+      return 'tokenAddress must be a 32-44 character Solana address';
+    }
+    if (!Array.isArray(request.variants) || request.variants.length < 2) {
+      return 'variants must list at least two strategies (the first is the control)';
+    }
+    if (request.variants.length > PAPER_EXPERIMENT_CONFIG.MAX_VARIANTS) {
+      return `An experiment may run at most ${PAPER_EXPERIMENT_CONFIG.MAX_VARIANTS} variants`;
+    }
+
+    const labels = new Set<string>();
+    for (const variant of request.variants) {
+      if (!variant || typeof variant.strategyId !== 'string' || !variant.strategyId) {
+        return 'Every variant needs a strategyId';
+      }
+      if (variant.variables !== undefined && (typeof variant.variables !== 'object' || variant.variables === null || Array.isArray(variant.variables))) {
+        return `variables of variant '${variant.label || variant.strategyId}' must be an object`;
+      }
+      const label = variant.label || variant.strategyId;
+      if (labels.has(label)) {
+        return `Variant label '${label}' is used twice - give each variant a unique label`;
+      }
+      labels.add(label);
+    }
+
+    if (request.tickIntervalMs !== undefined
+      && (!Number.isFinite(request.tickIntervalMs) || request.tickIntervalMs < PAPER_EXPERIMENT_CONFIG.MIN_TICK_INTERVAL_MS)) {
+      return `tickIntervalMs must be at least ${PAPER_EXPERIMENT_CONFIG.MIN_TICK_INTERVAL_MS}`;
+    }
+    if (request.durationMs !== undefined && (!Number.isFinite(request.durationMs) || request.durationMs <= 0)) {
+      return 'durationMs must be a positive number';
+    }
+    if (request.config?.enableLatencySimulation) {
+      return 'enableLatencySimulation is not supported in experiments - variants would land on different live trades';
+    }
+
+    return null;
+  }
+
+  /**
+   * Create the linked sessions and start feeding them. Call validateExperimentRequest first.
+   */
+  async createExperiment(request: PaperExperimentRequest): Promise<PaperExperiment> {
+    const strategies = request.variants.map(variant => {
+      const strategy = strategyBuilder.getStrategy(variant.strategyId);
+      if (!strategy) {
+        throw new Error(`Strategy '${variant.strategyId}' not found`);
+      }
+      return strategy;
+    });
+
+    // First shared tick: also prices every variant's initial position identically
+    const firstTick = await marketDataProvider.fetchTokenPrice(request.tokenAddress);
+    if (!firstTick) {
+      throw new Error(`Market data unavailable for ${request.tokenAddress}. Please try again when market APIs are responsive.`);
+    }
+
+    const id = uuidv4();
+    const config = { ...request.config, tokenAddress: request.tokenAddress, enableLatencySimulation: false };
+    const feed = new SharedMarketFeed();
+    feed.setTick(firstTick, await this.snapshotReserves(config, request.tokenAddress));
+
+    const experiment: PaperExperiment = {
+      id,
+      name: request.name || strategies.map(s => s.name).join(' vs '),
+      userId: request.userId,
+      tokenAddress: request.tokenAddress,
+      status: 'running',
+      variants: [],
+      tickIntervalMs: request.tickIntervalMs ?? PAPER_EXPERIMENT_CONFIG.DEFAULT_TICK_INTERVAL_MS,
+      durationMs: request.durationMs,
+      ticks: 1,
+      tradeEvents: 0,
+      startTime: Date.now(),
+    };
+
+    const variants: VariantRun[] = [];
+    try {
+      for (const [index, variantRequest] of request.variants.entries()) {
+        const strategy = strategies[index];
+        const sessionId = `${id}-v${index}`;
+
+        await paperTradingEngine.createSession(
+          sessionId,
+          request.userId,
+          strategy.id,
+          config,
+          { marketData: firstTick }
+        );
+
+        // Private builder per variant: the global one holds a single trading provider
+        const provider = new PaperTradingProvider(sessionId, strategy.id, strategy.name, request.tokenAddress, feed);
+        const builder = new StrategyBuilder(provider);
+        builder.registerStrategy({ ...strategy, variables: { ...(strategy.variables || {}) } });
+        for (const subStrategy of strategyBuilder.collectSubStrategies(strategy)) {
+          builder.registerStrategy({ ...subStrategy, variables: { ...(subStrategy.variables || {}) } });
+        }
+
+        experiment.variants.push({
+          label: variantRequest.label || variantRequest.strategyId,
+          strategyId: strategy.id,
+          strategyName: strategy.name,
+          sessionId,
+          variables: variantRequest.variables,
+          status: 'running',
+          executions: 0,
+          failedExecutions: 0,
+        });
+        variants.push({
+          builder,
+          context: {
+            strategyId: strategy.id,
+            currentStepId: strategy.startStepId,
+            variables: {
+              ...(strategy.variables || {}),
+              tokenAddress: request.tokenAddress,
+              ...variantRequest.variables,
+            },
+            stepResults: {},
+            startTime: Date.now(),
+            logs: [],
+          },
+          equityCurve: [],
+          executing: false,
+          rerun: false,
+        });
+      }
+    } catch (error) {
+      // Don't leave half an experiment's sessions running
+      await Promise.all(experiment.variants.map(variant => paperTradingEngine.endSession(variant.sessionId)));
+      throw error;
+    }
+
+    const run: ExperimentRun = {
+      experiment,
+      feed,
+      variants,
+      abortController: new AbortController(),
+      tickTimer: null,
+      ticking: false,
+    };
+    this.pruneFinishedExperiments();
+    this.experiments.set(id, run);
+
+    this.recordEquity(run, firstTick);
+    this.subscribeTradeFeed(run);
+    run.tickTimer = setInterval(() => {
+      this.processTick(run).catch(error => {
+        console.error(`❌ [PaperExperiment] Error processing tick for ${id}:`, error);
+      });
+    }, experiment.tickIntervalMs);
+
+    console.log(`🧪 [PaperExperiment] Started ${experiment.name} (${id}) on ${request.tokenAddress.substring(0, 8)}... with ${variants.length} variants`);
+
+    await awsLogger.info('Paper trading experiment started', {
+      metadata: {
+        experimentId: id,
+        userId: request.userId,
+        tokenAddress: request.tokenAddress,
+        variants: experiment.variants.map(variant => variant.label),
+      }
+    });
+
+    this.emitExperimentEvent('paper:experiment:started', experiment);
+
+    // Every variant starts on the first tick
+    run.variants.forEach((_, index) => this.runVariant(run, index));
+
+    return experiment;
+  }
+
+  getExperiment(experimentId: string): PaperExperiment | undefined {
+    return this.experiments.get(experimentId)?.experiment;
+  }
+
+  /**
+   * Experiments, newest first
+   */
+  listExperiments(userId?: string): PaperExperiment[] {
+    return Array.from(this.experiments.values())
+      .map(run => run.experiment)
+      .filter(experiment => !userId || experiment.userId === userId)
+      .sort((a, b) => b.startTime - a.startTime);
+  }
+
+  /**
+   * Stop feeding the variants and end their sessions
+   */
+  async stopExperiment(experimentId: string): Promise<PaperExperiment | undefined> {
+    const run = this.experiments.get(experimentId);
+    if (!run) {
+      return undefined;
+    }
+    if (run.experiment.status === 'running') {
+      await this.finishExperiment(run, 'stopped');
+    }
+    return run.experiment;
+  }
+
+  /**
+   * Comparative metrics for every variant, valued at the latest shared tick
+   */
+  async getReport(experimentId: string): Promise<PaperExperimentReport | undefined> {
+    const run = this.experiments.get(experimentId);
+    if (!run) {
+      return undefined;
+    }
+
+    const { experiment } = run;
+    const results: PaperExperimentVariantResult[] = [];
+
+    for (const [index, variant] of experiment.variants.entries()) {
+      const state = await paperTradingEngine.findSession(variant.sessionId);
+      if (!state) {
+        throw new Error(`Session '${variant.sessionId}' of experiment '${experimentId}' not found`);
+      }
+
+      // Value against the shared feed so every variant is marked at the same prices
+      const portfolio = new PaperTradingPortfolio(0, 0, run.feed);
+      portfolio.importState({ portfolio: state.portfolio, trades: state.trades, startTime: state.startTime });
+      const metrics = await portfolio.calculateMetrics(variant.strategyId, variant.strategyName);
+      const equityCurve = run.variants[index].equityCurve;
+
+      results.push({
+        label: variant.label,
+        strategyId: variant.strategyId,
+        sessionId: variant.sessionId,
+        roi: metrics.roi,
+        // Mark-to-market drawdown is more accurate than the trade-balance approximation
+        maxDrawdown: equityCurve.length > 0 ? calculateMaxDrawdown(equityCurve) : metrics.maxDrawdown,
+        winRate: metrics.winRate,
+        sharpeRatio: calculateSharpeRatio(state.trades),
+        totalTrades: metrics.totalTrades,
+        totalFees: metrics.totalFees,
+        totalFeesUSD: metrics.totalFeesUSD,
+        totalPnL: metrics.totalPnL,
+        totalPnLUSD: metrics.totalPnLUSD,
+        totalValueSOL: metrics.totalValueSOL,
+      });
+    }
+
+    const significanceLevel = PAPER_EXPERIMENT_CONFIG.SIGNIFICANCE_LEVEL;
+    const control = results[0];
+    const controlValues = run.variants[0].equityCurve.map(point => point.totalValueSOL);
+
+    const comparisons: PaperExperimentComparison[] = results.slice(1).map((result, offset) => {
+      const values = run.variants[offset + 1].equityCurve.map(point => point.totalValueSOL);
+      const [variantReturns, controlReturns] = pairedPeriodReturns(values, controlValues);
+      const test = pairedTTest(
+        variantReturns.map(r => r * 100),
+        controlReturns.map(r => r * 100)
+      );
+
+      return {
+        label: result.label,
+        control: control.label,
+        roiDifference: result.roi - control.roi,
+        sampleSize: test.sampleSize,
+        meanReturnDifference: test.meanDifference,
+        tStatistic: test.tStatistic,
+        pValue: test.pValue,
+        significant: test.pValue < significanceLevel,
+      };
+    });
+
+    return {
+      experiment,
+      tick: run.feed.getTick(experiment.tokenAddress),
+      results,
+      comparisons,
+      significanceLevel,
+      generatedAt: Date.now(),
+    };
+  }
+
+  /**
+   * One shared tick: mark every variant at it, then run the idle ones
+   */
+  private async processTick(run: ExperimentRun): Promise<void> {
+    const { experiment } = run;
+    if (experiment.status !== 'running' || run.ticking) {
+      return;
+    }
+
+    if (experiment.durationMs !== undefined && Date.now() - experiment.startTime >= experiment.durationMs) {
+      await this.finishExperiment(run, 'completed');
+      return;
+    }
+
+    run.ticking = true;
+    try {
+      const tick = await marketDataProvider.fetchTokenPrice(experiment.tokenAddress);
+      if (!tick || experiment.status !== 'running') {
+        return;
+      }
+
+      // Read once here so every variant's fills see the same reserves until the next tick
+      const session = paperTradingEngine.getSession(experiment.variants[0].sessionId);
+      const reserves = session ? await this.snapshotReserves(session.config, experiment.tokenAddress) : undefined;
+      if (experiment.status !== 'running') {
+        return;
+      }
+
+      run.feed.setTick(tick, reserves);
+      experiment.ticks++;
+      this.recordEquity(run, tick);
+      run.variants.forEach((_, index) => this.runVariant(run, index));
+    } finally {
+      run.ticking = false;
+    }
+  }
+
+  /**
+   * Hand a live trade to every variant of experiments on its token - same tick, same context variables
+   */
+  private handleMarketTrade(trade: RealTradeEvent): void {
+    if (!(trade.price > 0)) {
+      return;
+    }
+
+    for (const run of this.experiments.values()) {
+      const { experiment } = run;
+      if (experiment.status !== 'running' || experiment.tokenAddress !== trade.tokenAddress) {
+        continue;
+      }
+
+      const lastTick = run.feed.getTick(trade.tokenAddress);
+      if (!lastTick) {
+        continue;
+      }
+
+      // Move the reserve snapshot by the trade so fills stay consistent with the new price
+      const reserves = run.feed.getReserves(trade.tokenAddress);
+      run.feed.setTick({
+        tokenAddress: trade.tokenAddress,
+        tokenSymbol: lastTick.tokenSymbol,
+        price: trade.price,
+        priceUSD: trade.price * lastTick.solPrice,
+        solPrice: lastTick.solPrice,
+        liquidity: lastTick.liquidity,
+        timestamp: trade.timestamp,
+        source: 'trade_feed',
+      }, reserves ? applyTradesToReserves(reserves, [trade]) : undefined);
+      experiment.tradeEvents++;
+
+      for (const [index, variant] of run.variants.entries()) {
+        if (experiment.variants[index].status !== 'running') {
+          continue;
+        }
+
+        // Same variables StrategyExecutionManager sets for event-driven strategies
+        const variables = variant.context.variables;
+        variables.lastRealTrade = trade;
+        variables.realTradeDetected = true;
+        variables.realTradeType = trade.type;
+        variables.realTradePrice = trade.price;
+        variables.realTradeSolAmount = trade.solAmount;
+        variables.realTradeTokenAmount = trade.tokenAmount;
+        variables.realTradeSignature = trade.signature;
+        variables.detectedVolume = trade.solAmount;
+
+        this.runVariant(run, index);
+      }
+    }
+  }
+
+  /**
+   * Run one variant's strategy from its preserved context (queued if it is already executing)
+   */
+  private runVariant(run: ExperimentRun, index: number): void {
+    const { experiment } = run;
+    const variant = run.variants[index];
+    const summary = experiment.variants[index];
+
+    if (experiment.status !== 'running' || summary.status !== 'running') {
+      return;
+    }
+    if (variant.executing) {
+      variant.rerun = true;
+      return;
+    }
+
+    variant.executing = true;
+    (async () => {
+      do {
+        variant.rerun = false;
+
+        // Same re-invocation contract as StrategyExecutionManager: preserve context between runs
+        const result = await variant.builder.executeStrategy(summary.strategyId, variant.context, run.abortController.signal);
+        summary.executions++;
+        variant.context = result.context;
+
+        if (result.completed) {
+          summary.status = 'completed';
+          summary.lastError = undefined;
+          console.log(`✅ [PaperExperiment] ${experiment.id} variant '${summary.label}' completed`);
+          break;
+        }
+
+        if (!result.success) {
+          summary.failedExecutions++;
+          summary.lastError = result.error;
+        } else {
+          summary.lastError = undefined;
+        }
+      } while (variant.rerun && experiment.status === 'running');
+    })()
+      .catch(error => {
+        summary.failedExecutions++;
+        summary.lastError = error instanceof Error ? error.message : String(error);
+        console.error(`❌ [PaperExperiment] ${experiment.id} variant '${summary.label}' failed:`, error);
+      })
+      .finally(() => {
+        variant.executing = false;
+        // With a duration, finished strategies keep being marked at the shared ticks until it elapses
+        if (experiment.status === 'running' && experiment.durationMs === undefined
+          && experiment.variants.every(v => v.status === 'completed')) {
+          this.finishExperiment(run, 'completed').catch(error => {
+            console.error(`❌ [PaperExperiment] Error completing ${experiment.id}:`, error);
+          });
+        }
+      });
+  }
+
+  /**
+   * Mark every variant to market at `tick` (in SOL, like the backtest equity curve)
+   */
+  private recordEquity(run: ExperimentRun, tick: MarketData): void {
+    for (const [index, variant] of run.experiment.variants.entries()) {
+      const state = paperTradingEngine.getSession(variant.sessionId);
+      if (!state) {
+        continue;
+      }
+
+      const { portfolio } = state;
+      let totalValueSOL = portfolio.balanceSOL + (tick.solPrice > 0 ? portfolio.balanceUSDC / tick.solPrice : 0);
+      for (const [tokenAddress, position] of portfolio.positions) {
+        totalValueSOL += tokenAddress === tick.tokenAddress ? position.amount * tick.price : position.currentValueSOL;
+      }
+
+      const curve = run.variants[index].equityCurve;
+      curve.push({
+        timestamp: tick.timestamp,
+        price: tick.price,
+        balanceSOL: portfolio.balanceSOL,
+        balanceTokens: portfolio.positions.get(tick.tokenAddress)?.amount || 0,
+        totalValueSOL,
+        totalValueUSD: totalValueSOL * tick.solPrice,
+      });
+      if (curve.length > PAPER_EXPERIMENT_CONFIG.MAX_EQUITY_POINTS) {
+        curve.shift();
+      }
+    }
+  }
+
+  private async finishExperiment(run: ExperimentRun, status: Exclude<PaperExperimentStatus, 'running'>): Promise<void> {
+    const { experiment } = run;
+    if (experiment.status !== 'running') {
+      return;
+    }
+
+    experiment.status = status;
+    experiment.endTime = Date.now();
+    if (run.tickTimer) {
+      clearInterval(run.tickTimer);
+      run.tickTimer = null;
+    }
+    run.abortController.abort();
+    this.unsubscribeTradeFeed(run);
+
+    await Promise.all(experiment.variants.map(variant => paperTradingEngine.endSession(variant.sessionId)));
+
+    console.log(`🏁 [PaperExperiment] ${experiment.name} (${experiment.id}) ${status} after ${experiment.ticks} ticks, ${experiment.tradeEvents} trades`);
+
+    await awsLogger.info('Paper trading experiment ended', {
+      metadata: {
+        experimentId: experiment.id,
+        status,
+        ticks: experiment.ticks,
+        tradeEvents: experiment.tradeEvents,
+      }
+    });
+
+    this.emitExperimentEvent('paper:experiment:ended', experiment);
+    this.pruneFinishedExperiments();
+  }
+
+  /**
+   * Reserves every variant's next fills are priced against, or null for flat slippage
+   */
+  private async snapshotReserves(config: Partial<PaperTradingConfig>, tokenAddress: string): Promise<PoolReserves | null> {
+    const enablePriceImpact = config.enablePriceImpact ?? paperTradingEngine.getDefaultConfig().enablePriceImpact;
+    return enablePriceImpact ? poolReserveProvider.getReserves(tokenAddress) : null;
+  }
+
+  /**
+   * The feed ref-counts subscribers, so each experiment holds its own subscription
+   */
+  private subscribeTradeFeed(run: ExperimentRun): void {
+    const { id, tokenAddress } = run.experiment;
+    this.realTradeFeed?.subscribeToToken(tokenAddress, feedSubscriberId(id)).catch(error => {
+      console.warn(`⚠️ [PaperExperiment] Trade feed unavailable for ${tokenAddress.substring(0, 8)}..., using polled ticks only:`, error);
+    });
+  }
+
+  private unsubscribeTradeFeed(run: ExperimentRun): void {
+    const { id, tokenAddress } = run.experiment;
+    this.realTradeFeed?.unsubscribeFromToken(tokenAddress, feedSubscriberId(id)).catch(() => undefined);
+  }
+
+  /**
+   * Drop finished experiments past the retention period, then the oldest beyond the cap
+   */
+  private pruneFinishedExperiments(): void {
+    const cutoff = Date.now() - PAPER_EXPERIMENT_CONFIG.FINISHED_RETENTION_MS;
+    const finished = Array.from(this.experiments.values())
+      .map(run => run.experiment)
+      .filter(experiment => experiment.status !== 'running')
+      .sort((a, b) => (b.endTime ?? b.startTime) - (a.endTime ?? a.startTime));
+
+    finished.forEach((experiment, index) => {
+      if (index >= PAPER_EXPERIMENT_CONFIG.MAX_FINISHED_EXPERIMENTS || (experiment.endTime ?? experiment.startTime) < cutoff) {
+        this.experiments.delete(experiment.id);
+      }
+    });
+  }
+
+  private emitExperimentEvent(event: string, experiment: PaperExperiment): void {
+    if (this.io) {
+      this.io.emit(event, {
+        experimentId: experiment.id,
+        experiment,
+        timestamp: Date.now(),
+      });
+    }
+  }
+}
+
+function feedSubscriberId(experimentId: string): string {
+  return `paper-experiment:${experimentId}`;
+}
+
+// Singleton instance
+export const paperExperimentManager = new PaperExperimentManager();
@@ -0,0 +1,471 @@
+/**
+ * Paper Order Book
+ *
+ * Resting limit, stop-market and stop-limit orders for paper trading sessions.
+ * Orders are matched against MarketDataProvider ticks (polled while orders are
+ * open) and live trades from RealTradeFeedService, and filled through
+ * PaperTradingEngine so fees, slippage and price impact stay identical to
+ * market orders.
+ *
+ * Resting buys do not reserve SOL - a fill that cannot be funded is rejected.
+ * A fill cut short by liquidity simulation leaves the remainder working; a
+ * stop-market stays triggered and fills the remainder at market on later ticks.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Server as SocketServer } from 'socket.io';
+import type { RealTradeEvent, RealTradeFeedService } from '../../server/websocket/RealTradeFeedService';
+import { paperTradingEngine } from './PaperTradingEngine';
+import { marketDataProvider } from './MarketDataProvider';
+import {
+  MarketData,
+  OrderExecutionResult,
+  PaperOrder,
+  PaperOrderRequest,
+  PaperOrderStatus,
+  PaperOrderUpdate,
+} from './types';
+
+const FEED_SUBSCRIBER_ID = 'paper-order-book';
+
+export class PaperOrderBook {
+  private orders: Map<string, Map<string, PaperOrder>> = new Map(); // sessionId -> orderId -> order
+  private io: SocketServer | null = null;
+  private realTradeFeed?: RealTradeFeedService;
+  private pollInterval: NodeJS.Timeout | null = null;
+  private readonly POLL_INTERVAL_MS = 3000;
+  private processing: Set<string> = new Set(); // Tokens currently being matched
+  private feedSubscriptions: Set<string> = new Set(); // Tokens this book asked the feed to monitor
+  private lastMarketData: Map<string, MarketData> = new Map();
+  private tradeHandler = (trade: RealTradeEvent) => {
+    this.handleMarketTrade(trade).catch(error => {
+      console.error('❌ [PaperOrderBook] Error matching trade tick:', error);
+    });
+  };
+
+  /**
+   * Set WebSocket server for order events
+   */
+  setSocketIO(io: SocketServer): void {
+    this.io = io;
+  }
+
+  /**
+   * Match resting orders against live trades
+   */
+  setRealTradeFeed(feed: RealTradeFeedService): void {
+    if (this.realTradeFeed) {
+      this.realTradeFeed.off('market_trade', this.tradeHandler);
+    }
+    this.realTradeFeed = feed;
+    feed.on('market_trade', this.tradeHandler);
+  }
+
+  /**
+   * Returns an error message, or null if the request is valid
+   */
+  validateOrderRequest(request: Partial<PaperOrderRequest>): string | null {
+    if (!request.tokenAddress || request.tokenAddress.length < 32 || request.tokenAddress.length > 44) {
+      return 'tokenAddress must be a 32-44 character Solana address';
+    }
+    if (request.side !== 'buy' && request.side !== 'sell') {
+      return "side must be 'buy' or 'sell'";
+    }
+    if (request.type !== 'limit' && request.type !== 'stop_market' && request.type !== 'stop_limit') {
+      return "type must be 'limit', 'stop_market' or 'stop_limit'";
+    }
+    if (request.quoteCurrency !== undefined && request.quoteCurrency !== 'SOL' && request.quoteCurrency !== 'USDC') {
+      return "quoteCurrency must be 'SOL' or 'USDC'";
+    }
+    return this.validatePrices(request.type, request);
+  }
+
+  /**
+   * Place a resting order on a session
+   */
+  placeOrder(sessionId: string, request: PaperOrderRequest): PaperOrder {
+    const session = paperTradingEngine.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Paper trading session '${sessionId}' not found`);
+    }
+
+    const validationError = this.validateOrderRequest(request);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const now = Date.now();
+    const order: PaperOrder = {
+      id: uuidv4(),
+      sessionId,
+      strategyId: request.strategyId || session.metrics.strategyId || 'manual',
+      strategyName: request.strategyName || session.metrics.strategyName || 'Manual Order',
+      tokenAddress: request.tokenAddress,
+      side: request.side,
+      type: request.type,
+      amount: request.amount,
+      quoteCurrency: request.quoteCurrency,
+      limitPrice: request.limitPrice,
+      stopPrice: request.stopPrice,
+      status: 'open',
+      createdAt: now,
+      updatedAt: now,
+      expiresAt: request.expiresAt,
+    };
+
+    if (!this.orders.has(sessionId)) {
+      this.orders.set(sessionId, new Map());
+    }
+    this.orders.get(sessionId)!.set(order.id, order);
+
+    console.log(`📒 [PaperOrderBook] ${order.side.toUpperCase()} ${order.type} order ${order.id.substring(0, 8)} placed on ${sessionId} (${order.amount} ${order.side === 'buy' ? order.quoteCurrency || 'SOL' : 'tokens'})`);
+    this.emitOrderEvent('paper:order:placed', order);
+
+    this.ensureMarketFeeds(order.tokenAddress);
+
+    // A marketable order should not wait for the next poll
+    const lastTick = this.lastMarketData.get(order.tokenAddress);
+    if (lastTick) {
+      this.processTick(lastTick).catch(error => {
+        console.error('❌ [PaperOrderBook] Error matching new order:', error);
+      });
+    }
+
+    return order;
+  }
+
+  /**
+   * Get orders for a session, optionally filtered by status
+   */
+  getOrders(sessionId: string, status?: PaperOrderStatus): PaperOrder[] {
+    const orders = Array.from(this.orders.get(sessionId)?.values() || []);
+    return orders
+      .filter(order => !status || order.status === status)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  getOrder(sessionId: string, orderId: string): PaperOrder | undefined {
+    return this.orders.get(sessionId)?.get(orderId);
+  }
+
+  /**
+   * Modify price/size/expiry of a working order
+   */
+  modifyOrder(sessionId: string, orderId: string, update: PaperOrderUpdate): PaperOrder {
+    const order = this.getWorkingOrder(sessionId, orderId);
+
+    const next = { ...order, ...this.definedFields(update) };
+    const validationError = this.validatePrices(next.type, next);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    Object.assign(order, this.definedFields(update), { updatedAt: Date.now() });
+    if (order.filledAmount) {
+      order.remainingAmount = order.amount - order.filledAmount;
+    }
+    this.emitOrderEvent('paper:order:updated', order);
+
+    const lastTick = this.lastMarketData.get(order.tokenAddress);
+    if (lastTick) {
+      this.processTick(lastTick).catch(error => {
+        console.error('❌ [PaperOrderBook] Error matching modified order:', error);
+      });
+    }
+
+    return order;
+  }
+
+  /**
+   * Cancel a working order
+   */
+  cancelOrder(sessionId: string, orderId: string): PaperOrder {
+    const order = this.getWorkingOrder(sessionId, orderId);
+    this.closeOrder(order, 'cancelled');
+    this.releaseMarketFeeds(order.tokenAddress);
+    return order;
+  }
+
+  /**
+   * Cancel every working order on a session (session ended/deleted)
+   */
+  cancelAllOrders(sessionId: string): number {
+    const working = this.getOrders(sessionId).filter(order => this.isWorking(order));
+    working.forEach(order => this.closeOrder(order, 'cancelled'));
+    new Set(working.map(order => order.tokenAddress)).forEach(token => this.releaseMarketFeeds(token));
+    return working.length;
+  }
+
+  /**
+   * Drop a session's order history
+   */
+  clearSession(sessionId: string): void {
+    this.cancelAllOrders(sessionId);
+    this.orders.delete(sessionId);
+  }
+
+  /**
+   * Match working orders for a token against a price tick
+   */
+  async processTick(marketData: MarketData): Promise<void> {
+    const { tokenAddress } = marketData;
+    if (this.processing.has(tokenAddress)) {
+      return; // Fills are async - never match the same token twice concurrently
+    }
+
+    this.processing.add(tokenAddress);
+    try {
+      const price = marketData.price;
+      const working = this.getWorkingOrdersForToken(tokenAddress);
+
+      for (const order of working) {
+        if (!this.isWorking(order)) {
+          continue; // Cancelled while an earlier fill was in flight
+        }
+        if (order.expiresAt && order.expiresAt <= Date.now()) {
+          this.closeOrder(order, 'expired');
+          continue;
+        }
+
+        const session = paperTradingEngine.getSession(order.sessionId);
+        if (!session) {
+          this.closeOrder(order, 'cancelled', 'Session no longer exists');
+          continue;
+        }
+        if (!session.isActive) {
+          continue; // Paused sessions keep their orders resting
+        }
+
+        if (order.type !== 'limit' && order.status === 'open') {
+          const stopHit = order.side === 'buy' ? price >= order.stopPrice! : price <= order.stopPrice!;
+          if (!stopHit) {
+            continue;
+          }
+
+          order.status = 'triggered';
+          order.triggeredAt = marketData.timestamp;
+          order.updatedAt = Date.now();
+          console.log(`🛑 [PaperOrderBook] Stop ${order.stopPrice} hit for order ${order.id.substring(0, 8)} at ${price}`);
+          this.emitOrderEvent('paper:order:updated', order);
+        }
+
+        // Triggered stop-markets (and their partially filled remainders) fill at market
+        if (order.type === 'stop_market') {
+          await this.fillOrder(order, marketData);
+          continue;
+        }
+
+        // Limit orders and triggered stop-limits
+        const marketable = order.side === 'buy' ? price <= order.limitPrice! : price >= order.limitPrice!;
+        if (marketable) {
+          await this.fillOrder(order, marketData, order.limitPrice);
+        }
+      }
+    } finally {
+      this.processing.delete(tokenAddress);
+      this.releaseMarketFeeds(tokenAddress);
+    }
+  }
+
+  private async fillOrder(order: PaperOrder, marketData: MarketData, limitPrice?: number): Promise<void> {
+    const trigger = `${order.type} order ${order.id.substring(0, 8)}`;
+    const options = { orderType: order.type, orderId: order.id, marketData, limitPrice, quoteCurrency: order.quoteCurrency };
+    const remaining = order.amount - (order.filledAmount || 0);
+
+    let result: OrderExecutionResult;
+    try {
+      result = order.side === 'buy'
+        ? await paperTradingEngine.executeBuy(order.sessionId, order.tokenAddress, remaining, order.strategyId, order.strategyName, trigger, options)
+        : await paperTradingEngine.executeSell(order.sessionId, order.tokenAddress, remaining, order.strategyId, order.strategyName, trigger, options);
+    } catch (error) {
+      result = { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    if (result.success && result.trade) {
+      order.tradeId = result.trade.id;
+      order.fillPrice = result.trade.executionPrice;
+      order.filledAt = result.trade.timestamp;
+      order.filledAmount = (order.filledAmount || 0) + result.trade.executedAmount;
+      order.remainingAmount = Math.max(0, order.amount - order.filledAmount);
+
+      // Liquidity simulation cut the fill - the rest keeps working
+      if (result.trade.executedAmount < remaining * (1 - 1e-9)) {
+        order.updatedAt = Date.now();
+        this.emitOrderEvent('paper:order:updated', order);
+        console.log(`🧩 [PaperOrderBook] Order ${order.id.substring(0, 8)} partially filled (${order.filledAmount}/${order.amount})`);
+        return;
+      }
+      this.closeOrder(order, 'filled');
+      console.log(`✅ [PaperOrderBook] Order ${order.id.substring(0, 8)} filled at ${order.fillPrice}`);
+      return;
+    }
+
+    if (result.limitNotMet) {
+      return; // Size does not clear the limit yet - keep resting
+    }
+
+    this.closeOrder(order, 'rejected', result.error || 'Fill failed');
+    console.warn(`⚠️ [PaperOrderBook] Order ${order.id.substring(0, 8)} rejected: ${order.error}`);
+  }
+
+  private closeOrder(order: PaperOrder, status: PaperOrderStatus, error?: string): void {
+    order.status = status;
+    order.updatedAt = Date.now();
+    if (error) {
+      order.error = error;
+    }
+
+    const event = status === 'filled'
+      ? 'paper:order:filled'
+      : status === 'cancelled' ? 'paper:order:cancelled' : 'paper:order:updated';
+    this.emitOrderEvent(event, order);
+  }
+
+  private getWorkingOrder(sessionId: string, orderId: string): PaperOrder {
+    const order = this.getOrder(sessionId, orderId);
+    if (!order) {
+      throw new Error(`Order '${orderId}' not found on session '${sessionId}'`);
+    }
+    if (!this.isWorking(order)) {
+      throw new Error(`Order '${orderId}' is already ${order.status}`);
+    }
+    return order;
+  }
+
+  private getWorkingOrdersForToken(tokenAddress: string): PaperOrder[] {
+    const working: PaperOrder[] = [];
+    for (const sessionOrders of this.orders.values()) {
+      for (const order of sessionOrders.values()) {
+        if (order.tokenAddress === tokenAddress && this.isWorking(order)) {
+          working.push(order);
+        }
+      }
+    }
+    return working.sort((a, b) => a.createdAt - b.createdAt); // Time priority
+  }
+
+  private getWorkingTokens(): Set<string> {
+    const tokens = new Set<string>();
+    for (const sessionOrders of this.orders.values()) {
+      for (const order of sessionOrders.values()) {
+        if (this.isWorking(order)) {
+          tokens.add(order.tokenAddress);
+        }
+      }
+    }
+    return tokens;
+  }
+
+  private isWorking(order: PaperOrder): boolean {
+    return order.status === 'open' || order.status === 'triggered';
+  }
+
+  private validatePrices(
+    type: PaperOrder['type'],
+    fields: { amount?: number; limitPrice?: number; stopPrice?: number; expiresAt?: number }
+  ): string | null {
+    if (typeof fields.amount !== 'number' || !(fields.amount > 0)) {
+      return 'amount must be a positive number (SOL for buys, tokens for sells)';
+    }
+    if (type !== 'stop_market' && !(typeof fields.limitPrice === 'number' && fields.limitPrice > 0)) {
+      return `limitPrice (SOL per token) is required for ${type} orders`;
+    }
+    if (type !== 'limit' && !(typeof fields.stopPrice === 'number' && fields.stopPrice > 0)) {
+      return `stopPrice (SOL per token) is required for ${type} orders`;
+    }
+    if (fields.expiresAt !== undefined && !(typeof fields.expiresAt === 'number' && fields.expiresAt > Date.now())) {
+      return 'expiresAt must be a future timestamp (ms)';
+    }
+    return null;
+  }
+
+  private definedFields(update: PaperOrderUpdate): PaperOrderUpdate {
+    return Object.fromEntries(
+      Object.entries(update).filter(([, value]) => value !== undefined)
+    ) as PaperOrderUpdate;
+  }
+
+  /**
+   * Start polling and trade monitoring for a token with working orders
+   */
+  private ensureMarketFeeds(tokenAddress: string): void {
+    if (!this.pollInterval) {
+      this.pollInterval = setInterval(() => {
+        this.pollMarketData().catch(error => {
+          console.error('❌ [PaperOrderBook] Error polling market data:', error);
+        });
+      }, this.POLL_INTERVAL_MS);
+    }
+
+    if (this.realTradeFeed && !this.realTradeFeed.isMonitoring(tokenAddress) && !this.feedSubscriptions.has(tokenAddress)) {
+      this.feedSubscriptions.add(tokenAddress);
+      this.realTradeFeed.subscribeToToken(tokenAddress, FEED_SUBSCRIBER_ID).catch(error => {
+        console.warn(`⚠️ [PaperOrderBook] Trade feed unavailable for ${tokenAddress.substring(0, 8)}..., using polled prices only:`, error);
+      });
+    }
+  }
+
+  /**
+   * Stop feeds nobody needs any more
+   */
+  private releaseMarketFeeds(tokenAddress: string): void {
+    const workingTokens = this.getWorkingTokens();
+
+    if (!workingTokens.has(tokenAddress)) {
+      this.lastMarketData.delete(tokenAddress);
+      if (this.realTradeFeed && this.feedSubscriptions.delete(tokenAddress)) {
+        this.realTradeFeed.unsubscribeFromToken(tokenAddress, FEED_SUBSCRIBER_ID).catch(() => undefined);
+      }
+    }
+
+    if (workingTokens.size === 0 && this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+  }
+
+  private async pollMarketData(): Promise<void> {
+    for (const tokenAddress of this.getWorkingTokens()) {
+      const marketData = await marketDataProvider.fetchTokenPrice(tokenAddress);
+      if (marketData && marketData.price > 0) {
+        this.lastMarketData.set(tokenAddress, marketData);
+        await this.processTick(marketData);
+      }
+    }
+  }
+
+  /**
+   * Each live trade is a price tick at the trade's execution price
+   */
+  private async handleMarketTrade(trade: RealTradeEvent): Promise<void> {
+    if (!(trade.price > 0) || !this.getWorkingTokens().has(trade.tokenAddress)) {
+      return;
+    }
+
+    const lastTick = this.lastMarketData.get(trade.tokenAddress);
+    const solPrice = lastTick?.solPrice || await marketDataProvider.fetchSolPrice();
+
+    await this.processTick({
+      tokenAddress: trade.tokenAddress,
+      tokenSymbol: lastTick?.tokenSymbol,
+      price: trade.price,
+      priceUSD: trade.price * solPrice,
+      solPrice,
+      timestamp: trade.timestamp,
+      source: 'trade_feed',
+    });
+  }
+
+  private emitOrderEvent(event: string, order: PaperOrder): void {
+    if (this.io) {
+      this.io.emit(event, {
+        sessionId: order.sessionId,
+        order,
+        timestamp: Date.now(),
+      });
+    }
+  }
+}
+
+// Singleton instance
+export const paperOrderBook = new PaperOrderBook();
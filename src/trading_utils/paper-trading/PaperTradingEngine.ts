@@ -15,20 +15,62 @@ import {
   OrderExecutionResult,
   PaperTradingLog,
   PaperTradingMetrics,
+  PoolReserves,
+  MarketData,
+  OrderExecutionOptions,
+  QuoteCurrency,
+  PaperOrderSide,
+  VenueFeeSchedule,
+  ExecutionSimulation,
 } from './types';
 import { PaperTradingPortfolio } from './PaperTradingPortfolio';
 import { marketDataProvider } from './MarketDataProvider';
+import { quoteBuyFill, quoteSellFill } from './FillModel';
+import { poolReserveProvider } from './PoolReserveProvider';
+import { venueFeeProvider } from './VenueFeeProvider';
+import { executionSimulator } from './ExecutionSimulator';
 import { awsLogger } from '../../aws/logger';
 import { ENV_CONFIG } from '../../config/environment';
+import { TOKEN_MINTS } from '../config';
+import {
+  savePaperSessionState,
+  findRestorablePaperSessions,
+  findPaperSessionById,
+  listPaperSessions,
+  deletePaperSession,
+  SavePaperSessionStateInput,
+  appendPaperTrades,
+  findPaperTradesBySessionId,
+  deletePaperTradesBySessionId,
+  AppendPaperTradeInput,
+} from '../../database/dal';
+import type { PaperTradingSession as PaperSessionRecord, SessionStatus } from '../../database/client';
 import { timeStamp } from 'console';
 import { date, symbol } from 'zod';
 import { token } from '@coral-xyz/anchor/dist/cjs/utils';
 
 const SOL_ADDRESS = 'So11111111111111111111111111111111111111112';
 
+/**
+ * A priced SOL/USDC conversion, in SOL and USD per SOL
+ */
+interface SolUsdcFill {
+  solAmount: number; // SOL sold, or received after fees
+  usdcAmount: number; // USDC received after fees, or spent
+  solPrice: number; // SOL price in USD the fill was priced off
+  executionPrice: number; // USD per SOL after slippage
+  slippage: number; // USD per SOL, always against the trader
+  tradingFee: number; // SOL
+  networkFee: number; // SOL
+  venueFees: VenueFeeSchedule | null;
+  execution?: ExecutionSimulation;
+}
+
 export class PaperTradingEngine {
   private sessions: Map<string, PaperTradingState> = new Map();
   private logs: Map<string, PaperTradingLog[]> = new Map();
+  private persistQueue: Map<string, Promise<void>> = new Map(); // Keeps writes for one session in order
+  private persistedTrades: Map<string, { count: number }> = new Map(); // Leading trades of each session already in the trades table
   private io: SocketServer | null = null; // WebSocket server for real-time updates
   private periodicUpdateInterval: NodeJS.Timeout | null = null;
   private defaultConfig: PaperTradingConfig = {
@@ -41,6 +83,9 @@ export class PaperTradingEngine {
     tradingFeePercentage: 0.25, // 0.25%
     networkFeeSOL: 0.000005, // 5000 lamports
     enableLiquiditySimulation: false,
+    enableLatencySimulation: false, // Fill after a sampled landing delay (ExecutionSimulator)
+    enablePriceImpact: true, // Use bonding curve / pool reserves when they can be read
+    enableVenueFees: true, // Charge pump.fun / Raydium / Jupiter fees for the token's route
     dataSource: 'jupiter',
   };
 
@@ -162,7 +207,8 @@ export class PaperTradingEngine {
       initialTokenBalance?: number;
       tokenAddress?: string;
       initialSupply?: number;
-    }
+    },
+    options?: { marketData?: MarketData } // Price the initial position from this tick instead of fetching one
   ): Promise<PaperTradingState> {
     const mergedConfig = { ...this.defaultConfig, ...config, enabled: true };
 
@@ -253,7 +299,7 @@ export class PaperTradingEngine {
       let tokenSymbol: string;
 
       try {
-        const marketData = await marketDataProvider.fetchTokenPrice(tokenAddress);
+        const marketData = options?.marketData || await marketDataProvider.fetchTokenPrice(tokenAddress);
         if (!marketData) {
           // FAIL FAST: Never use fake prices in production
           const errorMsg = `❌ CRITICAL: Cannot fetch real market price for ${tokenAddress}. All market data sources failed. Session creation aborted to prevent false data.`;
@@ -353,6 +399,8 @@ export class PaperTradingEngine {
       metadata: { sessionId, userId, strategyId }
     });
 
+    await this.persistSession(sessionId);
+
     // Emit initial balance to UI immediately after session creation
     if (this.io) {
       const positions = Array.from((portfolio as any).positions?.values() || []);
@@ -391,6 +439,31 @@ export class PaperTradingEngine {
     return this.sessions.get(sessionId);
   }
 
+  /**
+   * Session state from memory, or from the database for sessions that are no
+   * longer loaded (ended before the last restart)
+   */
+  async findSession(sessionId: string): Promise<PaperTradingState | undefined> {
+    const state = this.sessions.get(sessionId);
+    if (state) {
+      return state;
+    }
+
+    const record = await findPaperSessionById(sessionId);
+    return record?.state ? (await this.loadPersistedSession(record)).state : undefined;
+  }
+
+  /**
+   * Session summaries from the database, newest first (includes ended sessions)
+   */
+  async listSessions(
+    page: number = 1,
+    limit: number = 50,
+    filters?: { userId?: string; status?: SessionStatus }
+  ) {
+    return listPaperSessions(page, limit, filters);
+  }
+
   /**
    * Execute a paper buy order
    * Added retry logic and better error handling for market data
@@ -398,10 +471,11 @@ export class PaperTradingEngine {
   async executeBuy(
     sessionId: string,
     tokenAddress: string,
-    amountSOL: number,
+    amount: number,
     strategyId: string,
     strategyName: string,
-    trigger?: string
+    trigger?: string,
+    options?: OrderExecutionOptions
   ): Promise<OrderExecutionResult> {
     const state = this.sessions.get(sessionId);
 
@@ -412,28 +486,40 @@ export class PaperTradingEngine {
       };
     }
 
+    if (tokenAddress === TOKEN_MINTS.USDC) {
+      return { success: false, error: 'USDC is a quote currency - trade the SOL/USDC pair (tokenAddress = SOL) instead' };
+    }
+    const quoteCurrency = this.resolveQuoteCurrency(tokenAddress, options);
+
     const portfolio = new PaperTradingPortfolio(0, 0);
     portfolio.importState({ portfolio: state.portfolio, trades: state.trades, startTime: state.startTime });
 
-    // Check balance
-    if (!portfolio.hasSufficientBalance(amountSOL)) {
+    // Check balance in the quote currency being spent
+    if (!portfolio.hasSufficientBalance(amount, quoteCurrency)) {
       this.log(sessionId, 'error', 'Insufficient balance for buy order', {
-        required: amountSOL,
-        available: state.portfolio.balanceSOL,
+        required: amount,
+        available: quoteCurrency === 'USDC' ? state.portfolio.balanceUSDC : state.portfolio.balanceSOL,
+        quoteCurrency,
       });
 
       return {
         success: false,
-        error: 'Insufficient SOL balance',
+        error: `Insufficient ${quoteCurrency} balance`,
         insufficientBalance: true,
       };
     }
 
+    // SOL/USDC: buying SOL with USDC
+    if (tokenAddress === SOL_ADDRESS) {
+      return await this.executeBuySolWithUsdc(sessionId, state, portfolio, amount, strategyId, strategyName, trigger, options);
+    }
+
     try {
       // FIX #10: Fetch real-time market data with enhanced retry logic and multiple fallbacks
-      let marketData = null;
+      // Resting orders fill against the tick that triggered them - no fetch needed
+      let marketData: MarketData | null = options?.marketData || null;
       let lastError = '';
-      const maxRetries = 5; // Increased from 3 to 5 for better reliability
+      const maxRetries = options?.marketData ? 0 : 5; // Increased from 3 to 5 for better reliability
 
       for (let attempt = 1; attempt <= maxRetries; attempt++) {
         try {
@@ -468,7 +554,7 @@ export class PaperTradingEngine {
             timestamp: Date.now(),
             error: `Market data fetch failed: ${lastError}`,
             tokenAddress,
-            attemptedAmount: amountSOL,
+            attemptedAmount: amount,
             reason: 'price_fetch_failure',
             currentBalance: {
               balanceSOL: state.portfolio.balanceSOL,
@@ -483,23 +569,53 @@ export class PaperTradingEngine {
         };
       }
 
-      // Calculate execution price with slippage
-      const basePrice = marketData.price;
-      const slippageAmount = state.config.enableSlippage
-        ? basePrice * (state.config.slippagePercentage / 100) : 0;
-      const executionPrice = basePrice + slippageAmount;
-
-      // Calculate fees FIRST (on the SOL amount)
-      const tradingFee = state.config.enableFees
-        ? amountSOL * (state.config.tradingFeePercentage / 100) : 0;
-      const networkFee = state.config.enableFees ? state.config.networkFeeSOL : 0;
-      const totalFees = tradingFee + networkFee;
+      // TOKEN/USDC fills go through the TOKEN/SOL fill model at the SOL equivalent of the USDC spent
+      const requestedSOL = quoteCurrency === 'USDC' ? amount / marketData.solPrice : amount;
 
-      // Effective SOL after fees
-      const effectiveSOL = amountSOL - totalFees;
+      // Latency / liquidity simulation: fill at the tick the order lands on, possibly only in part
+      const simulated = await executionSimulator.simulate(
+        state.config, 'buy', tokenAddress, requestedSOL, marketData, await this.getFillReserves(state, tokenAddress, options?.reserves)
+      );
+      const { execution, reserves } = simulated;
+      if (execution?.fillRatio === 0) {
+        this.log(sessionId, 'error', 'Pool cannot absorb buy order', { tokenAddress, requestedSOL, maxFillSOL: execution.maxFillSOL });
+        return {
+          success: false,
+          error: `Insufficient liquidity: pool can absorb ${execution.maxFillSOL?.toFixed(4)} SOL of the ${requestedSOL.toFixed(4)} SOL order`,
+          insufficientLiquidity: true,
+        };
+      }
+      marketData = simulated.marketData;
+      if (execution && execution.latencyMs > 0) {
+        // Other fills of this session may have landed while this one was in flight
+        portfolio.importState({ portfolio: state.portfolio, trades: state.trades, startTime: state.startTime });
+        if (!portfolio.hasSufficientBalance(amount, quoteCurrency)) {
+          return { success: false, error: `Insufficient ${quoteCurrency} balance`, insufficientBalance: true };
+        }
+      }
+      const fillRatio = execution?.fillRatio ?? 1;
+      const filledAmount = amount * fillRatio; // Quote currency actually spent
+      const amountSOL = requestedSOL * fillRatio;
+      if (fillRatio < 1) {
+        this.log(sessionId, 'warning', `Partial fill: ${(fillRatio * 100).toFixed(1)}% of buy order`, { tokenAddress, requestedSOL, amountSOL });
+      }
 
-      // Calculate token amount (no additional slippage on token amount)
-      const tokensReceived = effectiveSOL / basePrice; // Use base price, not execution price with slippage
+      // Calculate execution price, fees and token amount with the shared fill model
+      const basePrice = marketData.price;
+      const firstBuy = !portfolio.getPosition(tokenAddress); // No token account yet - pays ATA rent
+      const venueFees = await this.getFillFees(state, tokenAddress, 'buy', firstBuy, reserves);
+      const fill = quoteBuyFill(state.config, basePrice, amountSOL, reserves, venueFees);
+      const { slippageAmount, executionPrice, tradingFee, networkFee, totalFees, effectiveSOL, priceImpact } = fill;
+      const tokensReceived = fill.tokensReceived; // Flat model: base price; reserves: real curve output
+
+      // Limit orders only fill when the whole size clears the limit price
+      if (options?.limitPrice !== undefined && effectiveSOL / tokensReceived > options.limitPrice) {
+        return {
+          success: false,
+          error: `Fill price ${(effectiveSOL / tokensReceived).toFixed(10)} SOL is above limit ${options.limitPrice}`,
+          limitNotMet: true,
+        };
+      }
 
       // Calculate USD cost (we're spending USD to buy SOL/tokens)
       const usdCost = amountSOL * marketData.solPrice;
@@ -521,24 +637,31 @@ export class PaperTradingEngine {
         type: 'buy',
         tokenAddress,
         tokenSymbol: marketData.tokenSymbol,
-        orderType: 'market',
-        requestedAmount: amountSOL,
-        executedAmount: amountSOL, // Show full amount requested
+        orderType: options?.orderType || 'market',
+        orderId: options?.orderId,
+        requestedAmount: amount,
+        executedAmount: filledAmount, // In the quote currency - less than requested on partial fills
         marketPrice: basePrice,
-        executionPrice: basePrice, // Use base price for display
+        executionPrice: priceImpact !== undefined ? executionPrice : basePrice, // Flat model shows base price
         priceUSD: marketData.priceUSD,
         solPriceUSD: marketData.solPrice,
         amountSOL: amountSOL,
         amountTokens: tokensReceived,
+        quoteCurrency,
+        amountUSDC: quoteCurrency === 'USDC' ? filledAmount : undefined,
         tradingFee,
         networkFee,
         slippage: slippageAmount,
+        priceImpact,
+        venueFees: venueFees || undefined,
+        execution,
         totalCost: amountSOL,
-        balanceSOL: state.portfolio.balanceSOL - amountSOL, // SUBTRACT SOL spent (buying tokens WITH SOL)
-        balanceUSDC: state.portfolio.balanceUSDC, // USDC unchanged (not using USDC)
-        // CRITICAL FIX: Calculate total token balance correctly
-        // Previous balance + tokens received = new balance
-        balanceTokens: state.portfolio.balanceTokens + tokensReceived,
+        // SUBTRACT the quote spent - SOL for TOKEN/SOL, USDC for TOKEN/USDC
+        balanceSOL: quoteCurrency === 'SOL' ? state.portfolio.balanceSOL - amountSOL : state.portfolio.balanceSOL,
+        balanceUSDC: quoteCurrency === 'USDC' ? state.portfolio.balanceUSDC - filledAmount : state.portfolio.balanceUSDC,
+        // Token balance is per mint: this position's balance + tokens received
+        // (holdings in other tokens live in portfolio.positions)
+        balanceTokens: balanceBefore.tokens + tokensReceived,
         trigger,
       };
 
@@ -547,6 +670,7 @@ export class PaperTradingEngine {
       state.portfolio = portfolio.getPortfolio();
       state.lastTradeTime = trade.timestamp;
       state.metrics = await portfolio.calculateMetrics(strategyId, strategyName);
+      await this.persistSession(sessionId);
 
       // Calculate Sharpe Ratio (the only metric not in Portfolio's calculateMetrics)
       const riskMetrics = await this.calculateRiskMetrics(sessionId);
@@ -692,6 +816,8 @@ export class PaperTradingEngine {
           amountSOL,
           tokensReceived,
           executionPrice,
+          feeVenue: venueFees?.venue,
+          totalFees,
           trigger,
         }
       });
@@ -714,8 +840,8 @@ export class PaperTradingEngine {
 
         // Calculate balance deltas
         const balanceDeltas = {
-          solDelta: -amountSOL, // Negative because we're spending SOL
-          usdcDelta: -solToUSD, // Negative because we're converting USD to tokens
+          solDelta: quoteCurrency === 'SOL' ? -amountSOL : 0, // Negative when spending SOL
+          usdcDelta: quoteCurrency === 'USDC' ? -filledAmount : 0, // Negative when spending USDC
           tokenDelta: tokensReceived, // Positive because we received tokens
           totalValueDelta: 0 // No immediate value change on buy
         };
@@ -731,7 +857,7 @@ export class PaperTradingEngine {
           price: basePrice, // Token price in SOL
           priceUSD: marketData.priceUSD, // Token price in USD (not SOL price)
           tokenSymbol: marketData.tokenSymbol, // Token symbol
-          baseToken: 'SOL',
+          baseToken: quoteCurrency,
           quoteToken: marketData.tokenSymbol,
           pnl: 0, // No P&L on buy
           pnlUSD: 0,
@@ -920,7 +1046,7 @@ export class PaperTradingEngine {
             allocation: {
               solPercentage: (state.portfolio.balanceSOL * marketData.solPrice / state.metrics.totalValueUSD) * 100,
               usdcPercentage: (state.portfolio.balanceUSDC / state.metrics.totalValueUSD) * 100,
-              tokenPercentage: (state.portfolio.balanceTokens * marketData.priceUSD / state.metrics.totalValueUSD) * 100
+              tokenPercentage: ((portfolio.getPosition(tokenAddress)?.amount || 0) * marketData.priceUSD / state.metrics.totalValueUSD) * 100
             },
 
             // Capital utilization
@@ -1019,9 +1145,9 @@ export class PaperTradingEngine {
 
   /**
    * Execute a paper sell order
-   * Supports both:
-   * - Selling SOL for USD (when tokenAddress = SOL_ADDRESS)
-   * - Selling TOKEN for SOL (when tokenAddress = custom token)
+   * Supports:
+   * - Selling SOL for USDC (when tokenAddress = SOL_ADDRESS)
+   * - Selling TOKEN for SOL, or for USDC with options.quoteCurrency = 'USDC'
    */
   async executeSell(
     sessionId: string,
@@ -1029,7 +1155,8 @@ export class PaperTradingEngine {
     tokenAmount: number,
     strategyId: string,
     strategyName: string,
-    trigger?: string
+    trigger?: string,
+    options?: OrderExecutionOptions
   ): Promise<OrderExecutionResult> {
     const state = this.sessions.get(sessionId);
 
@@ -1040,6 +1167,10 @@ export class PaperTradingEngine {
       };
     }
 
+    if (tokenAddress === TOKEN_MINTS.USDC) {
+      return { success: false, error: 'USDC is a quote currency - trade the SOL/USDC pair (tokenAddress = SOL) instead' };
+    }
+
     const portfolio = new PaperTradingPortfolio(0, 0);
     portfolio.importState({
       portfolio: state.portfolio,
@@ -1047,7 +1178,7 @@ export class PaperTradingEngine {
       startTime: state.startTime
     });
 
-    // Determine trade type: SOL → USD or TOKEN → SOL
+    // Determine trade type: SOL → USD or TOKEN → SOL/USDC
     const isSellingSol = tokenAddress === SOL_ADDRESS;
 
     if (isSellingSol) {
@@ -1063,7 +1194,7 @@ export class PaperTradingEngine {
         trigger
       );
     } else {
-      // CASE 2: SELLING TOKEN FOR SOL
+      // CASE 2: SELLING TOKEN FOR SOL (or USDC when options.quoteCurrency is 'USDC')
       return await this.executeSellTokenForSol(
         sessionId,
         state,
@@ -1072,11 +1203,82 @@ export class PaperTradingEngine {
         tokenAmount,
         strategyId,
         strategyName,
-        trigger
+        trigger,
+        options
       );
     }
   }
 
+  /**
+   * Quote currency an order settles in: SOL always trades against USDC, tokens default to SOL
+   */
+  private resolveQuoteCurrency(tokenAddress: string, options?: OrderExecutionOptions): QuoteCurrency {
+    return tokenAddress === SOL_ADDRESS ? 'USDC' : options?.quoteCurrency || 'SOL';
+  }
+
+  /**
+   * Simulate and price a SOL/USDC conversion with the latency, liquidity and fee models token fills use.
+   * The pair fills as USDC priced in SOL (selling SOL buys USDC, buying SOL sells USDC), so fees are charged in SOL.
+   * `amount` is SOL when selling SOL and USDC when buying it.
+   */
+  private async quoteSolUsdcFill(
+    state: PaperTradingState,
+    side: PaperOrderSide,
+    amount: number,
+    solMarketData: MarketData
+  ): Promise<SolUsdcFill> {
+    const usdcSide: PaperOrderSide = side === 'sell' ? 'buy' : 'sell';
+    const usdcMarketData: MarketData = {
+      tokenAddress: TOKEN_MINTS.USDC,
+      tokenSymbol: 'USDC',
+      price: 1 / solMarketData.solPrice,
+      priceUSD: 1,
+      solPrice: solMarketData.solPrice,
+      timestamp: solMarketData.timestamp,
+      source: solMarketData.source,
+    };
+
+    // No reserve snapshot for the pair, so only latency applies and the order fills in full
+    const { execution, marketData } = await executionSimulator.simulate(
+      state.config, usdcSide, TOKEN_MINTS.USDC, amount, usdcMarketData, null
+    );
+    const filled = amount * (execution?.fillRatio ?? 1);
+
+    const firstBuy = usdcSide === 'buy' && state.portfolio.balanceUSDC <= 0; // No USDC account yet
+    const venueFees = await this.getFillFees(state, TOKEN_MINTS.USDC, usdcSide, firstBuy, null);
+
+    const solPrice = marketData.solPrice;
+    if (usdcSide === 'buy') {
+      const fill = quoteBuyFill(state.config, marketData.price, filled, null, venueFees);
+      const executionPrice = 1 / fill.executionPrice;
+      return {
+        solAmount: filled,
+        usdcAmount: fill.tokensReceived,
+        solPrice,
+        executionPrice,
+        slippage: solPrice - executionPrice,
+        tradingFee: fill.tradingFee,
+        networkFee: fill.networkFee,
+        venueFees,
+        execution,
+      };
+    }
+
+    const fill = quoteSellFill(state.config, marketData.price, filled, null, venueFees);
+    const executionPrice = 1 / fill.executionPrice;
+    return {
+      solAmount: Math.max(0, fill.solReceived),
+      usdcAmount: filled,
+      solPrice,
+      executionPrice,
+      slippage: executionPrice - solPrice,
+      tradingFee: fill.tradingFee,
+      networkFee: fill.networkFee,
+      venueFees,
+      execution,
+    };
+  }
+
   /**
    * PRIVATE: Execute SOL → USD sell
    */
@@ -1090,18 +1292,21 @@ export class PaperTradingEngine {
     strategyName: string,
     trigger?: string
   ): Promise<OrderExecutionResult> {
-    // Check if position exists and has sufficient tokens
-    const position = portfolio.getPosition(tokenAddress);
+    // SOL is a quote balance, not a position - "-1" converts the whole SOL balance
+    const availableSOL = state.portfolio.balanceSOL;
+    if (tokenAmount === -1) {
+      tokenAmount = availableSOL;
+    }
 
-    if (!position || position.amount < tokenAmount) {
+    if (tokenAmount <= 0 || availableSOL < tokenAmount) {
       this.log(sessionId, 'error', 'Insufficient SOL balance for sell order', {
         required: tokenAmount,
-        available: position?.amount || 0,
+        available: availableSOL,
       });
 
       return {
         success: false,
-        error: 'Insufficient token balance',
+        error: 'Insufficient SOL balance',
         insufficientBalance: true,
       };
     }
@@ -1110,7 +1315,7 @@ export class PaperTradingEngine {
       // Fetch real-time market data
       const marketData = await marketDataProvider.fetchTokenPrice(tokenAddress);
 
-      if (!marketData) {
+      if (!marketData || !(marketData.solPrice > 0)) {
         this.log(sessionId, 'error', 'Failed to fetch market data', { tokenAddress });
         return {
           success: false,
@@ -1118,32 +1323,32 @@ export class PaperTradingEngine {
         };
       }
 
-      const solToSell = tokenAmount;
-      const basePrice = marketData.solPrice; // SOL price in USD
-
-      // Calculate slippage
-      const slippageAmount = state.config.enableSlippage
-        ? basePrice * (state.config.slippagePercentage / 100)
-        : 0;
-      const executionPrice = basePrice - slippageAmount;
+      const fill = await this.quoteSolUsdcFill(state, 'sell', tokenAmount, marketData);
+      if (fill.execution && fill.execution.latencyMs > 0 && state.portfolio.balanceSOL < fill.solAmount) {
+        // Other fills of this session may have landed while this one was in flight
+        return { success: false, error: 'Insufficient SOL balance', insufficientBalance: true };
+      }
 
-      // Calculate USD we get from selling SOL
-      const usdBeforeFees = solToSell * executionPrice;
+      const solToSell = fill.solAmount;
+      const basePrice = fill.solPrice; // SOL price in USD
+      const { executionPrice, tradingFee, networkFee } = fill;
+      const slippageAmount = fill.slippage;
 
-      // Calculate fees (in USD)
-      const tradingFee = state.config.enableFees
-        ? usdBeforeFees * (state.config.tradingFeePercentage / 100)
-        : 0;
-      const networkFeeUSD = state.config.enableFees ? state.config.networkFeeSOL * marketData.solPrice : 0;
-      const totalFeesUSD = tradingFee + networkFeeUSD;
+      // Fees are charged in SOL; the USD figures are for the events
+      const tradingFeeUSD = tradingFee * basePrice;
+      const networkFeeUSD = networkFee * basePrice;
+      const totalFeesUSD = tradingFeeUSD + networkFeeUSD;
 
-      // Final USD received after fees
-      const usdReceived = usdBeforeFees - totalFeesUSD;
+      // USD received after fees, and before them
+      const usdReceived = fill.usdcAmount;
+      const usdBeforeFees = usdReceived + totalFeesUSD;
 
       // Calculate realized P&L (in USD)
-      const costBasisUSD = tokenAmount * position.averageEntryPrice * marketData.solPrice;
+      // SOL has no entry price: the only P&L of a conversion is its cost (slippage + fees) against market value.
+      // It is reported on the events but not booked as trade P&L - holding USDC shows up in the portfolio value instead.
+      const costBasisUSD = solToSell * basePrice;
       const realizedPnL = usdReceived - costBasisUSD;
-      const realizedPnLSOL = realizedPnL / marketData.solPrice;
+      const realizedPnLSOL = realizedPnL / basePrice;
 
       // Create trade record
       const trade: PaperTrade = {
@@ -1156,21 +1361,24 @@ export class PaperTradingEngine {
         tokenSymbol: 'SOL',
         orderType: 'market',
         requestedAmount: tokenAmount,
-        executedAmount: tokenAmount,
+        executedAmount: solToSell, // Less than requested on partial fills
         marketPrice: basePrice,
         executionPrice,
-        priceUSD: marketData.priceUSD,
-        solPriceUSD: marketData.solPrice,
+        priceUSD: basePrice,
+        solPriceUSD: basePrice,
         amountSOL: solToSell,
-        amountTokens: tokenAmount,
+        amountTokens: solToSell,
         tradingFee,
-        networkFee: networkFeeUSD / marketData.solPrice,
+        networkFee,
         slippage: slippageAmount,
+        venueFees: fill.venueFees || undefined,
+        execution: fill.execution,
         totalCost: usdBeforeFees,
         balanceSOL: state.portfolio.balanceSOL - solToSell,
         balanceUSDC: state.portfolio.balanceUSDC + usdReceived,
-        balanceTokens: position.amount - tokenAmount,
-        realizedPnL: realizedPnLSOL,
+        balanceTokens: state.portfolio.balanceTokens, // Token positions are untouched by SOL/USDC swaps
+        quoteCurrency: 'USDC',
+        amountUSDC: usdReceived,
         trigger,
       };
 
@@ -1179,6 +1387,7 @@ export class PaperTradingEngine {
       state.portfolio = portfolio.getPortfolio();
       state.lastTradeTime = trade.timestamp;
       state.metrics = await portfolio.calculateMetrics(strategyId, strategyName);
+      await this.persistSession(sessionId);
 
       // Calculate Sharpe Ratio (the only metric not in Portfolio's calculateMetrics)
       const riskMetrics = await this.calculateRiskMetrics(sessionId);
@@ -1203,7 +1412,7 @@ export class PaperTradingEngine {
           : 0
       });
 
-      this.log(sessionId, 'trade', `Sell SOL executed: ${tokenAmount.toFixed(4)} SOL for ${usdReceived.toFixed(2)} USD`, {
+      this.log(sessionId, 'trade', `Sell SOL executed: ${solToSell.toFixed(4)} SOL for ${usdReceived.toFixed(2)} USD`, {
         trade, realizedPnL: realizedPnLSOL,
       });
 
@@ -1211,7 +1420,7 @@ export class PaperTradingEngine {
         metadata: {
           sessionId,
           tokenAddress,
-          solAmount: tokenAmount,
+          solAmount: solToSell,
           usdReceived,
           executionPrice,
           realizedPnL: realizedPnLSOL,
@@ -1221,13 +1430,11 @@ export class PaperTradingEngine {
 
       // Emit WebSocket event
       if (this.io) {
-        const remainingPosition = portfolio.getPosition(tokenAddress);
+        const remainingSOL = state.portfolio.balanceSOL;
 
         // Calculate portfolio allocation
         const totalPortfolioValueUSD = state.metrics.totalValueUSD;
-        const remainingPositionValueUSD = remainingPosition
-          ? remainingPosition.amount * basePrice
-          : 0;
+        const remainingPositionValueUSD = remainingSOL * basePrice;
         const allocationPercentage = totalPortfolioValueUSD > 0
           ? (remainingPositionValueUSD / totalPortfolioValueUSD) * 100
           : 0;
@@ -1265,18 +1472,18 @@ export class PaperTradingEngine {
           // Enhanced fee breakdown
           fees: {
             tradingFee: tradingFee,
-            tradingFeeUSD: tradingFee,
-            networkFee: networkFeeUSD / marketData.solPrice,
+            tradingFeeUSD: tradingFeeUSD,
+            networkFee: networkFee,
             networkFeeUSD: networkFeeUSD,
-            totalFees: totalFeesUSD,
+            totalFees: tradingFee + networkFee,
             totalFeesUSD: totalFeesUSD,
             feePercentage: (totalFeesUSD / usdBeforeFees) * 100
           },
 
           // Slippage impact
           slippage: {
-            amount: slippageAmount * tokenAmount,
-            amountUSD: slippageAmount * tokenAmount,
+            amount: slippageAmount * solToSell / basePrice,
+            amountUSD: slippageAmount * solToSell,
             percentage: state.config.slippagePercentage,
             impactOnPrice: (slippageAmount / basePrice) * 100
           },
@@ -1285,16 +1492,16 @@ export class PaperTradingEngine {
           position: {
             tokenAddress: tokenAddress,
             tokenSymbol: 'SOL',
-            size: remainingPosition?.amount || 0,
+            size: remainingSOL,
             sizeUSD: remainingPositionValueUSD,
-            averageEntryPrice: remainingPosition?.averageEntryPrice || basePrice,
+            averageEntryPrice: basePrice,
             costBasis: costBasisUSD / marketData.solPrice,
             costBasisUSD: costBasisUSD,
             realizedPnL: realizedPnLSOL,
             realizedPnLUSD: realizedPnL,
             allocationPercentage: allocationPercentage,
             soldAmount: solToSell,
-            soldPercentage: position ? (solToSell / position.amount) * 100 : 0
+            soldPercentage: availableSOL > 0 ? (solToSell / availableSOL) * 100 : 0
           },
 
           // Balance changes
@@ -1313,11 +1520,11 @@ export class PaperTradingEngine {
           execution: {
             orderType: 'market',
             requestedAmount: tokenAmount,
-            executedAmount: tokenAmount,
+            executedAmount: solToSell,
             executionPrice: executionPrice,
             marketPrice: basePrice,
             priceDeviation: ((executionPrice - basePrice) / basePrice) * 100,
-            fillRate: 100
+            fillRate: tokenAmount > 0 ? (solToSell / tokenAmount) * 100 : 100
           },
 
           // Trading velocity
@@ -1415,7 +1622,7 @@ export class PaperTradingEngine {
             allocation: {
               solPercentage: (state.portfolio.balanceSOL * marketData.solPrice / state.metrics.totalValueUSD) * 100,
               usdcPercentage: (state.portfolio.balanceUSDC / state.metrics.totalValueUSD) * 100,
-              tokenPercentage: (state.portfolio.balanceTokens * marketData.priceUSD / state.metrics.totalValueUSD) * 100
+              tokenPercentage: (Math.max(0, state.metrics.totalValueUSD - state.portfolio.balanceSOL * marketData.solPrice - state.portfolio.balanceUSDC) / state.metrics.totalValueUSD) * 100
             },
 
             // Capital utilization
@@ -1458,17 +1665,17 @@ export class PaperTradingEngine {
             usdReceived: usdReceived,
             executionPrice: executionPrice,
             marketPrice: basePrice,
-            averageEntryPrice: position.averageEntryPrice,
+            averageEntryPrice: basePrice,
 
             fees: {
               tradingFee: tradingFee,
-              tradingFeeUSD: tradingFee,
-              networkFee: networkFeeUSD / marketData.solPrice,
+              tradingFeeUSD: tradingFeeUSD,
+              networkFee: networkFee,
               networkFeeUSD: networkFeeUSD,
-              totalFees: totalFeesUSD,
+              totalFees: tradingFee + networkFee,
               totalFeesUSD: totalFeesUSD,
               slippage: slippageAmount,
-              slippageUSD: slippageAmount * tokenAmount
+              slippageUSD: slippageAmount * solToSell
             },
 
             realizedPnL: realizedPnLSOL,
@@ -1511,6 +1718,169 @@ export class PaperTradingEngine {
     }
   }
 
+  /**
+   * PRIVATE: Execute USDC → SOL buy (the SOL/USDC pair, mirror of executeSellSolForUsd)
+   */
+  private async executeBuySolWithUsdc(
+    sessionId: string,
+    state: PaperTradingState,
+    portfolio: PaperTradingPortfolio,
+    usdcAmount: number,
+    strategyId: string,
+    strategyName: string,
+    trigger?: string,
+    options?: OrderExecutionOptions
+  ): Promise<OrderExecutionResult> {
+    try {
+      const marketData = options?.marketData || await marketDataProvider.fetchTokenPrice(SOL_ADDRESS);
+
+      if (!marketData || !(marketData.solPrice > 0)) {
+        this.log(sessionId, 'error', 'Failed to fetch market data', { tokenAddress: SOL_ADDRESS });
+        return {
+          success: false,
+          error: 'Failed to fetch market data',
+        };
+      }
+
+      const fill = await this.quoteSolUsdcFill(state, 'buy', usdcAmount, marketData);
+      if (fill.execution && fill.execution.latencyMs > 0 && state.portfolio.balanceUSDC < fill.usdcAmount) {
+        // Other fills of this session may have landed while this one was in flight
+        return { success: false, error: 'Insufficient USDC balance', insufficientBalance: true };
+      }
+
+      const basePrice = fill.solPrice; // SOL price in USD
+      const { executionPrice, tradingFee, networkFee } = fill;
+      const slippageAmount = fill.slippage;
+      const usdcSpent = fill.usdcAmount; // Less than requested on partial fills
+      const solReceived = fill.solAmount;
+
+      // Fees are charged in SOL; the USD figures are for the events
+      const totalFeesUSD = (tradingFee + networkFee) * basePrice;
+
+      // Limit orders only fill when the whole size clears the limit price (USD per SOL)
+      if (options?.limitPrice !== undefined && executionPrice > options.limitPrice) {
+        return {
+          success: false,
+          error: `Fill price ${executionPrice.toFixed(4)} USD is above limit ${options.limitPrice}`,
+          limitNotMet: true,
+        };
+      }
+
+      const trade: PaperTrade = {
+        id: uuidv4(),
+        strategyId,
+        strategyName,
+        timestamp: Date.now(),
+        type: 'buy',
+        tokenAddress: SOL_ADDRESS,
+        tokenSymbol: 'SOL',
+        orderType: options?.orderType || 'market',
+        orderId: options?.orderId,
+        requestedAmount: usdcAmount,
+        executedAmount: usdcSpent,
+        marketPrice: basePrice,
+        executionPrice,
+        priceUSD: basePrice,
+        solPriceUSD: basePrice,
+        amountSOL: solReceived,
+        amountTokens: solReceived,
+        quoteCurrency: 'USDC',
+        amountUSDC: usdcSpent,
+        tradingFee,
+        networkFee,
+        slippage: slippageAmount,
+        venueFees: fill.venueFees || undefined,
+        execution: fill.execution,
+        totalCost: usdcSpent,
+        balanceSOL: state.portfolio.balanceSOL + solReceived,
+        balanceUSDC: state.portfolio.balanceUSDC - usdcSpent,
+        balanceTokens: state.portfolio.balanceTokens, // Token positions are untouched by SOL/USDC swaps
+        trigger,
+      };
+
+      // Update portfolio
+      portfolio.addTrade(trade);
+      state.portfolio = portfolio.getPortfolio();
+      state.lastTradeTime = trade.timestamp;
+      state.metrics = await portfolio.calculateMetrics(strategyId, strategyName);
+      await this.persistSession(sessionId);
+
+      const riskMetrics = await this.calculateRiskMetrics(sessionId);
+      if (riskMetrics) {
+        state.metrics.sharpeRatio = riskMetrics.sharpeRatio || 0;
+      }
+
+      this.log(sessionId, 'trade', `Buy SOL executed: ${solReceived.toFixed(4)} SOL for ${usdcSpent.toFixed(2)} USDC`, { trade });
+
+      await awsLogger.info('Paper trade executed (BUY USDC→SOL)', {
+        metadata: {
+          sessionId,
+          usdcSpent,
+          solReceived,
+          executionPrice,
+          trigger,
+        }
+      });
+
+      if (this.io) {
+        this.io.emit('paper:trade:executed', {
+          sessionId,
+          side: 'buy',
+          type: 'buy',
+          amount: solReceived,
+          amountSOL: solReceived,
+          amountUSD: usdcSpent,
+          price: basePrice,
+          priceUSD: basePrice,
+          tokenSymbol: 'SOL',
+          baseToken: 'USDC',
+          quoteToken: 'SOL',
+          timestamp: trade.timestamp,
+          tradeId: trade.id,
+          totalTrades: state.trades.length,
+          fees: {
+            tradingFee,
+            tradingFeeUSD: tradingFee * basePrice,
+            networkFee,
+            networkFeeUSD: networkFee * basePrice,
+            totalFees: tradingFee + networkFee,
+            totalFeesUSD,
+          },
+          balanceDeltas: {
+            solDelta: solReceived,
+            usdcDelta: -usdcSpent,
+            tokenDelta: 0,
+            totalValueDelta: -(totalFeesUSD + slippageAmount * solReceived),
+          },
+          balances: {
+            solBalance: state.portfolio.balanceSOL,
+            usdcBalance: state.portfolio.balanceUSDC,
+            tokenBalance: state.portfolio.balanceTokens,
+            totalValueUSD: state.metrics.totalValueUSD,
+            availableCash: state.portfolio.balanceSOL * basePrice + state.portfolio.balanceUSDC
+          },
+          metrics: state.metrics,
+          roi: state.metrics.roi,
+          winRate: state.metrics.winRate,
+        });
+      }
+
+      return {
+        success: true,
+        trade,
+      };
+    } catch (error) {
+      this.log(sessionId, 'error', 'Buy SOL order execution failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
   /**
    * PRIVATE: Execute TOKEN → SOL sell
    * This is the NEW functionality for selling meme tokens
@@ -1523,7 +1893,8 @@ export class PaperTradingEngine {
     tokenAmount: number,
     strategyId: string,
     strategyName: string,
-    trigger?: string
+    trigger?: string,
+    options?: OrderExecutionOptions
   ): Promise<OrderExecutionResult> {
     // Check token balance
     let position = portfolio.getPosition(tokenAddress);
@@ -1710,9 +2081,10 @@ export class PaperTradingEngine {
 
     try {
       // FIX #10: Fetch real-time token price with retry logic
-      let marketData = null;
+      // Resting orders fill against the tick that triggered them - no fetch needed
+      let marketData: MarketData | null = options?.marketData || null;
       let lastError = '';
-      const maxRetries = 3;
+      const maxRetries = options?.marketData ? 0 : 3;
 
       for (let attempt = 1; attempt <= maxRetries; attempt++) {
         try {
@@ -1735,29 +2107,61 @@ export class PaperTradingEngine {
         };
       }
 
-      const tokensToSell = actualTokenAmount;
-      const basePrice = marketData.price; // Token price in SOL
-
-      // Calculate slippage (price drops when selling)
-      const slippageAmount = state.config.enableSlippage
-        ? basePrice * (state.config.slippagePercentage / 100)
-        : 0;
-      const executionPrice = basePrice - slippageAmount; // Lower price due to slippage
+      // Latency / liquidity simulation: fill at the tick the order lands on, possibly only in part
+      const simulated = await executionSimulator.simulate(
+        state.config, 'sell', tokenAddress, actualTokenAmount, marketData, await this.getFillReserves(state, tokenAddress, options?.reserves)
+      );
+      const { execution, reserves } = simulated;
+      if (execution?.fillRatio === 0) {
+        this.log(sessionId, 'error', 'Pool cannot absorb sell order', { tokenAddress, tokens: actualTokenAmount, maxFillSOL: execution.maxFillSOL });
+        return {
+          success: false,
+          error: `Insufficient liquidity: pool can absorb ${execution.maxFillSOL?.toFixed(4)} SOL of the sell`,
+          insufficientLiquidity: true,
+        };
+      }
+      marketData = simulated.marketData;
+      if (execution && execution.latencyMs > 0) {
+        // Other fills of this session may have landed while this one was in flight
+        portfolio.importState({ portfolio: state.portfolio, trades: state.trades, startTime: state.startTime });
+        position = portfolio.getPosition(tokenAddress);
+        if (!position || position.amount < actualTokenAmount) {
+          return {
+            success: false,
+            error: `Insufficient token balance. Required: ${actualTokenAmount}, Available: ${position?.amount || 0}`,
+            insufficientBalance: true,
+          };
+        }
+      }
 
-      // Calculate SOL received (before fees)
-      const solBeforeFees = tokensToSell * executionPrice;
+      const fillRatio = execution?.fillRatio ?? 1;
+      const tokensToSell = actualTokenAmount * fillRatio;
+      if (fillRatio < 1) {
+        this.log(sessionId, 'warning', `Partial fill: ${(fillRatio * 100).toFixed(1)}% of sell order`, { tokenAddress, requested: actualTokenAmount, tokensToSell });
+      }
+      const basePrice = marketData.price; // Token price in SOL
 
-      // Calculate fees (in SOL)
-      const tradingFee = state.config.enableFees
-        ? solBeforeFees * (state.config.tradingFeePercentage / 100)
-        : 0;
-      const networkFee = state.config.enableFees
-        ? state.config.networkFeeSOL
-        : 0;
-      const totalFees = tradingFee + networkFee;
+      // Calculate slippage (price drops when selling) and fees with the shared fill model
+      const venueFees = await this.getFillFees(state, tokenAddress, 'sell', false, reserves);
+      const {
+        slippageAmount,
+        executionPrice,
+        solBeforeFees,
+        tradingFee,
+        networkFee,
+        totalFees,
+        solReceived,
+        priceImpact,
+      } = quoteSellFill(state.config, basePrice, tokensToSell, reserves, venueFees);
 
-      // Final SOL received after fees
-      const solReceived = solBeforeFees - totalFees;
+      // Limit orders only fill when the whole size clears the limit price
+      if (options?.limitPrice !== undefined && solBeforeFees / tokensToSell < options.limitPrice) {
+        return {
+          success: false,
+          error: `Fill price ${(solBeforeFees / tokensToSell).toFixed(10)} SOL is below limit ${options.limitPrice}`,
+          limitNotMet: true,
+        };
+      }
 
       // TODO #2: Capture balance BEFORE trade for real-time tracking
       const balanceBefore = {
@@ -1772,6 +2176,10 @@ export class PaperTradingEngine {
       const realizedPnL = solReceived - costBasisSOL;
       const realizedPnLUSD = realizedPnL * marketData.solPrice;
 
+      // TOKEN/USDC sells settle the same fill in USDC at the current SOL/USD rate
+      const quoteCurrency = this.resolveQuoteCurrency(tokenAddress, options);
+      const usdcReceived = quoteCurrency === 'USDC' ? solReceived * marketData.solPrice : 0;
+
       // Create trade record
       const trade: PaperTrade = {
         id: uuidv4(),
@@ -1781,9 +2189,10 @@ export class PaperTradingEngine {
         type: 'sell',
         tokenAddress,
         tokenSymbol: marketData.tokenSymbol || 'TOKEN',
-        orderType: 'market',
+        orderType: options?.orderType || 'market',
+        orderId: options?.orderId,
         requestedAmount: actualTokenAmount,
-        executedAmount: actualTokenAmount,
+        executedAmount: tokensToSell,
         marketPrice: basePrice,
         executionPrice,
         priceUSD: marketData.priceUSD,
@@ -1793,12 +2202,17 @@ export class PaperTradingEngine {
         tradingFee,
         networkFee,
         slippage: slippageAmount,
+        priceImpact,
+        venueFees: venueFees || undefined,
+        execution,
         totalCost: solBeforeFees,
-        balanceSOL: state.portfolio.balanceSOL + solReceived, // ADD SOL received
-        balanceUSDC: state.portfolio.balanceUSDC,
-        // CRITICAL FIX: Calculate total token balance correctly
-        // Previous balance - tokens sold = new balance
-        balanceTokens: state.portfolio.balanceTokens - tokensToSell,
+        quoteCurrency,
+        amountUSDC: quoteCurrency === 'USDC' ? usdcReceived : undefined,
+        // ADD the quote received - SOL for TOKEN/SOL, USDC for TOKEN/USDC
+        balanceSOL: quoteCurrency === 'SOL' ? state.portfolio.balanceSOL + solReceived : state.portfolio.balanceSOL,
+        balanceUSDC: state.portfolio.balanceUSDC + usdcReceived,
+        // Token balance is per mint: this position's balance - tokens sold
+        balanceTokens: position.amount - tokensToSell,
         realizedPnL,
         trigger,
       };
@@ -1808,6 +2222,7 @@ export class PaperTradingEngine {
       state.portfolio = portfolio.getPortfolio();
       state.lastTradeTime = trade.timestamp;
       state.metrics = await portfolio.calculateMetrics(strategyId, strategyName);
+      await this.persistSession(sessionId);
 
       // Emit real-time balance update IMMEDIATELY after SELL trade
       if (this.io) {
@@ -1944,6 +2359,8 @@ export class PaperTradingEngine {
           executionPrice,
           realizedPnL,
           realizedPnLUSD,
+          feeVenue: venueFees?.venue,
+          totalFees,
           trigger,
         }
       });
@@ -1954,7 +2371,7 @@ export class PaperTradingEngine {
         const sessionDuration = (Date.now() - state.startTime) / 60000; // in minutes
         const tradesPerMinute = sessionDuration > 0 ? state.trades.length / sessionDuration : 0;
         const allocationPercentage = state.metrics.totalValueUSD > 0
-          ? ((state.portfolio.balanceTokens * marketData.priceUSD) / state.metrics.totalValueUSD) * 100
+          ? (((portfolio.getPosition(tokenAddress)?.amount || 0) * marketData.priceUSD) / state.metrics.totalValueUSD) * 100
           : 0;
 
         const eventData = {
@@ -2001,21 +2418,21 @@ export class PaperTradingEngine {
           position: {
             tokenAddress: tokenAddress,
             tokenSymbol: marketData.tokenSymbol || 'TOKEN',
-            size: state.portfolio.balanceTokens, // Remaining position
-            sizeUSD: state.portfolio.balanceTokens * marketData.priceUSD,
+            size: trade.balanceTokens, // Remaining position
+            sizeUSD: trade.balanceTokens * marketData.priceUSD,
             averageEntryPrice: position?.averageEntryPrice || basePrice,
             costBasis: position?.totalInvestedSOL || 0,
             costBasisUSD: position?.totalInvestedUSD || 0,
             realizedPnL: realizedPnL,
             realizedPnLUSD: realizedPnLUSD,
             allocationPercentage: allocationPercentage,
-            totalPositionSize: state.portfolio.balanceTokens
+            totalPositionSize: trade.balanceTokens
           },
 
           // Balance changes (consistent with BUY)
           balanceDeltas: {
-            solDelta: solReceived - totalFees, // Positive (received SOL)
-            usdcDelta: 0,
+            solDelta: quoteCurrency === 'SOL' ? solReceived - totalFees : 0, // Positive (received SOL)
+            usdcDelta: usdcReceived,
             tokenDelta: -tokensToSell, // Negative (sold tokens)
             totalValueDelta: realizedPnLUSD
           },
@@ -2175,7 +2592,7 @@ export class PaperTradingEngine {
    * Get metrics for a session
    */
   async getMetrics(sessionId: string): Promise<PaperTradingMetrics | null> {
-    const state = this.sessions.get(sessionId);
+    const state = await this.findSession(sessionId);
 
     if (!state) {
       return null;
@@ -2202,12 +2619,13 @@ export class PaperTradingEngine {
   /**
    * Pause a paper trading session
    */
-  pauseSession(sessionId: string): boolean {
+  async pauseSession(sessionId: string): Promise<boolean> {
     const state = this.sessions.get(sessionId);
 
     if (state) {
       state.isActive = false;
       this.log(sessionId, 'info', 'Session paused');
+      await this.persistSession(sessionId);
       return true;
     }
 
@@ -2217,12 +2635,14 @@ export class PaperTradingEngine {
   /**
    * Resume a paper trading session
    */
-  resumeSession(sessionId: string): boolean {
+  async resumeSession(sessionId: string): Promise<boolean> {
     const state = this.sessions.get(sessionId);
 
     if (state) {
       state.isActive = true;
+      state.endTime = undefined;
       this.log(sessionId, 'info', 'Session resumed');
+      await this.persistSession(sessionId);
       return true;
     }
 
@@ -2237,6 +2657,7 @@ export class PaperTradingEngine {
 
     if (state) {
       state.isActive = false;
+      state.endTime = Date.now();
 
       const portfolio = new PaperTradingPortfolio(0, 0);
       portfolio.importState({ portfolio: state.portfolio, trades: state.trades, startTime: state.startTime });
@@ -2256,6 +2677,7 @@ export class PaperTradingEngine {
         }
       });
 
+      await this.persistSession(sessionId);
       return true;
     }
 
@@ -2280,12 +2702,13 @@ export class PaperTradingEngine {
   /**
    * Update session configuration
    */
-  updateConfig(sessionId: string, config: Partial<PaperTradingConfig>): boolean {
+  async updateConfig(sessionId: string, config: Partial<PaperTradingConfig>): Promise<boolean> {
     const state = this.sessions.get(sessionId);
 
     if (state) {
       state.config = { ...state.config, ...config };
       this.log(sessionId, 'info', 'Configuration updated', { config });
+      await this.persistSession(sessionId);
       return true;
     }
 
@@ -2313,7 +2736,12 @@ export class PaperTradingEngine {
       // Clear logs
       this.logs.set(sessionId, []);
 
+      // Stored trades go too; writes still in flight update the old cursor
+      this.persistedTrades.set(sessionId, { count: 0 });
+      this.enqueueWrite(sessionId, () => deletePaperTradesBySessionId(sessionId), 'Failed to clear persisted paper trades');
+
       this.log(sessionId, 'info', 'Session reset');
+      await this.persistSession(sessionId);
       return true;
     }
 
@@ -2346,6 +2774,47 @@ export class PaperTradingEngine {
     }
   }
 
+  /**
+   * Pool reserves to price a market fill with, or null to use flat slippage.
+   * A snapshot passed by the caller (shared experiment ticks) is used instead of a live read.
+   */
+  private async getFillReserves(
+    state: PaperTradingState,
+    tokenAddress: string,
+    snapshot?: PoolReserves | null
+  ): Promise<PoolReserves | null> {
+    if (!state.config.enablePriceImpact) {
+      return null;
+    }
+
+    const reserves = snapshot !== undefined ? snapshot : await poolReserveProvider.getReserves(tokenAddress);
+    if (!reserves) {
+      this.log(state.sessionId, 'warning', 'Pool reserves unavailable, using flat slippage', { tokenAddress });
+    }
+    return reserves;
+  }
+
+  /**
+   * Venue fee schedule to charge a fill with, or null to use the flat fee settings.
+   * The venue comes from config.feeVenue, else the token's TokenRouter route, else the pool the reserves were read from.
+   */
+  private async getFillFees(
+    state: PaperTradingState,
+    tokenAddress: string,
+    side: PaperOrderSide,
+    firstBuy: boolean,
+    reserves: PoolReserves | null
+  ): Promise<VenueFeeSchedule | null> {
+    if (!state.config.enableFees || !state.config.enableVenueFees) {
+      return null;
+    }
+
+    return venueFeeProvider.getFeeSchedule(tokenAddress, side, firstBuy, {
+      venue: state.config.feeVenue,
+      fallbackVenue: reserves?.venue,
+    });
+  }
+
   /**
    * Get default configuration
    */
@@ -2360,11 +2829,205 @@ export class PaperTradingEngine {
     const deleted = this.sessions.delete(sessionId);
     if (deleted) {
       this.logs.delete(sessionId);
+      this.persistedTrades.delete(sessionId);
       //console.log(`Paper trading session deleted: ${sessionId}`);
+
+      // Drop the rows once queued writes for the session have landed
+      this.enqueueWrite(sessionId, async () => {
+        await deletePaperTradesBySessionId(sessionId);
+        await deletePaperSession(sessionId);
+      }, 'Failed to delete persisted paper trading session');
     }
     return deleted;
   }
 
+  /**
+   * Write a session to the database: trades added since the last write go to the
+   * trades table, config and portfolio (with positions) to the session row.
+   * Best-effort: failures are logged, and writes for one session are applied in order.
+   * Callers await it, so a trade or session change is stored (or its failure logged) before they report it.
+   */
+  persistSession(sessionId: string): Promise<void> {
+    const state = this.sessions.get(sessionId);
+    if (!state) {
+      return Promise.resolve();
+    }
+
+    // Snapshot now - the state keeps mutating while the write is queued
+    let cursor = this.persistedTrades.get(sessionId);
+    if (!cursor) {
+      cursor = { count: 0 };
+      this.persistedTrades.set(sessionId, cursor);
+    }
+    const offset = cursor.count;
+    let snapshot: SavePaperSessionStateInput;
+    let newTrades: AppendPaperTradeInput[];
+    try {
+      snapshot = this.toPersistedSession(state);
+      newTrades = state.trades.slice(offset).map((trade, index) => this.toPersistedTrade(trade, offset + index));
+    } catch (error) {
+      awsLogger.warn('Failed to serialize paper trading session', {
+        metadata: { sessionId, error: error instanceof Error ? error.message : String(error) }
+      });
+      return Promise.resolve();
+    }
+
+    // Trades that are already stored are skipped, so overlapping queued writes are harmless
+    return this.enqueueWrite(sessionId, async () => {
+      await appendPaperTrades(sessionId, state.userId, newTrades);
+      cursor!.count = Math.max(cursor!.count, offset + newTrades.length);
+      await savePaperSessionState(snapshot);
+    }, 'Failed to persist paper trading session');
+  }
+
+  /**
+   * Run a database write after the session's earlier writes (failures are logged, never thrown)
+   */
+  private enqueueWrite(sessionId: string, task: () => Promise<unknown>, failureMessage: string): Promise<void> {
+    const previous = this.persistQueue.get(sessionId) || Promise.resolve();
+    const write = previous
+      .then(task)
+      .then(() => undefined)
+      .catch((error) => {
+        awsLogger.warn(failureMessage, {
+          metadata: { sessionId, error: error instanceof Error ? error.message : String(error) }
+        });
+      });
+
+    this.persistQueue.set(sessionId, write);
+    write.then(() => {
+      if (this.persistQueue.get(sessionId) === write) {
+        this.persistQueue.delete(sessionId);
+      }
+    });
+
+    return write;
+  }
+
+  /**
+   * Reload active and paused sessions from the database after a restart.
+   * Call before StrategyExecutionManager.rehydrateStrategies() so resumed paper
+   * strategies find their session with its balances and trades.
+   */
+  async rehydrateSessions(): Promise<number> {
+    let records: PaperSessionRecord[];
+    try {
+      records = await findRestorablePaperSessions();
+    } catch (error) {
+      awsLogger.warn('Failed to load persisted paper trading sessions', {
+        metadata: { error: error instanceof Error ? error.message : String(error) }
+      });
+      return 0;
+    }
+
+    let restored = 0;
+    for (const record of records) {
+      if (this.sessions.has(record.id)) {
+        continue;
+      }
+
+      try {
+        const { state, storedTrades } = await this.loadPersistedSession(record);
+        this.sessions.set(record.id, state);
+        this.persistedTrades.set(record.id, { count: storedTrades });
+        this.logs.set(record.id, []);
+        this.log(record.id, 'info', 'Session restored after restart', { trades: state.trades.length });
+        restored++;
+      } catch (error) {
+        awsLogger.warn('Failed to restore paper trading session', {
+          metadata: { sessionId: record.id, error: error instanceof Error ? error.message : String(error) }
+        });
+      }
+    }
+
+    if (records.length > 0) {
+      console.log(`♻️ [PaperTradingEngine] Rehydrated ${restored}/${records.length} paper trading sessions`);
+    }
+    return restored;
+  }
+
+  private toPersistedSession(state: PaperTradingState): SavePaperSessionStateInput {
+    // Positions are a Map - exportState turns them into entries for JSON
+    const portfolio = new PaperTradingPortfolio(0, 0);
+    portfolio.importState({ portfolio: state.portfolio, trades: state.trades, startTime: state.startTime });
+    const exported = portfolio.exportState();
+    const { metrics } = state;
+    const finite = (value: number) => (Number.isFinite(value) ? value : 0);
+
+    return {
+      id: state.sessionId,
+      userId: state.userId,
+      tokenAddress: state.config.tokenAddress || SOL_ADDRESS,
+      status: state.endTime ? 'COMPLETED' : state.isActive ? 'ACTIVE' : 'PAUSED',
+      initialBalanceSOL: state.config.initialBalanceSOL,
+      initialBalanceUSDC: state.config.initialBalanceUSDC,
+      currentBalanceSOL: state.portfolio.balanceSOL,
+      currentBalanceUSDC: state.portfolio.balanceUSDC,
+      balanceTokens: state.portfolio.balanceTokens,
+      totalPnL: finite(metrics.totalPnL),
+      totalPnLUSD: finite(metrics.totalPnLUSD),
+      realizedPnL: finite(metrics.realizedPnL),
+      realizedPnLUSD: finite(metrics.realizedPnLUSD),
+      unrealizedPnL: finite(metrics.unrealizedPnL),
+      unrealizedPnLUSD: finite(metrics.unrealizedPnLUSD),
+      roi: finite(metrics.roi),
+      totalValueUSD: finite(metrics.totalValueUSD),
+      tradeCount: state.trades.length,
+      winRate: finite(metrics.winRate),
+      // Trades live in the trades table; the JSON round-trip drops them with undefined and non-finite numbers
+      state: JSON.parse(JSON.stringify({ ...state, portfolio: exported.portfolio, trades: undefined })),
+      startedAt: new Date(state.startTime),
+      endedAt: state.endTime ? new Date(state.endTime) : null,
+    };
+  }
+
+  private toPersistedTrade(trade: PaperTrade, sequence: number): AppendPaperTradeInput {
+    return {
+      id: trade.id,
+      strategyId: trade.strategyId,
+      type: trade.type === 'buy' ? 'BUY' : 'SELL',
+      tokenAddress: trade.tokenAddress,
+      amountSOL: trade.amountSOL,
+      amountTokens: trade.amountTokens,
+      price: trade.executionPrice,
+      priceUSD: trade.priceUSD,
+      total: trade.totalCost,
+      fee: trade.tradingFee + trade.networkFee,
+      slippage: trade.slippage,
+      profitLoss: trade.realizedPnL,
+      trigger: trade.trigger,
+      // The full engine trade, and its position in the session (timestamps can tie)
+      metadata: JSON.parse(JSON.stringify({ sequence, trade })),
+      createdAt: new Date(trade.timestamp),
+    };
+  }
+
+  /**
+   * Session state from its row plus its trades from the trades table.
+   * Rows saved before trades moved out of the state still carry them inline.
+   */
+  private async loadPersistedSession(record: PaperSessionRecord): Promise<{ state: PaperTradingState; storedTrades: number }> {
+    const saved = record.state as unknown as PaperTradingState;
+    const rows = await findPaperTradesBySessionId(record.id);
+    const stored = rows
+      .map(row => row.metadata as unknown as { sequence: number; trade: PaperTrade })
+      .sort((a, b) => a.sequence - b.sequence)
+      .map(entry => entry.trade);
+    const trades = stored.length > 0 ? stored : saved.trades || [];
+
+    const portfolio = new PaperTradingPortfolio(0, 0);
+    portfolio.importState({ portfolio: saved.portfolio, trades, startTime: saved.startTime });
+
+    return {
+      state: {
+        ...saved,
+        portfolio: portfolio.getPortfolio(),
+        trades: portfolio.getTrades(),
+      },
+      storedTrades: stored.length,
+    };
+  }
+
   /**
    * Stream trade history with pagination
    * Get paginated trade history for a session
@@ -5,21 +5,35 @@
  */
 
 import {
+  MarketData,
   PaperPortfolio,
   PaperPosition,
   PaperTrade,
   PaperTradingMetrics,
+  PortfolioPriceSource,
+  QuoteCurrency,
 } from './types';
 import { marketDataProvider } from './MarketDataProvider';
 import { awsLogger } from '../../aws/logger';
 import { roiPnlDebugger } from '../../utils/roi-pnl-debugger';
+import { TOKEN_MINTS } from '../config';
 
 export class PaperTradingPortfolio {
   private portfolio: PaperPortfolio;
   private trades: PaperTrade[] = [];
   private startTime: number;
+  private priceSource: PortfolioPriceSource;
+  private clock: () => number;
+
+  constructor(
+    initialBalanceSOL: number,
+    initialBalanceUSDC: number = 0,
+    priceSource: PortfolioPriceSource = marketDataProvider,
+    clock: () => number = Date.now
+  ) {
+    this.priceSource = priceSource;
+    this.clock = clock;
 
-  constructor(initialBalanceSOL: number, initialBalanceUSDC: number = 0) {
     // Don't hardcode SOL price - will be updated with first trade
     // Use a reasonable estimate for now, but it will be corrected on first price fetch
     const estimatedSolPrice = 200;
@@ -28,21 +42,34 @@ export class PaperTradingPortfolio {
       balanceSOL: initialBalanceSOL,
       balanceUSDC: initialBalanceUSDC,
       balanceTokens: 0, // Will be updated with first trade or auto-init
+      balances: {},
       positions: new Map(),
       totalValueSOL: initialBalanceSOL,
       totalValueUSD: initialBalanceSOL * estimatedSolPrice + initialBalanceUSDC,
       initialBalanceSOL,
       initialBalanceUSD: initialBalanceSOL * estimatedSolPrice + initialBalanceUSDC,
     };
+    this.syncBalances();
 
-    this.startTime = Date.now();
+    this.startTime = this.clock();
   }
 
   /**
    * Get current portfolio snapshot
    */
   getPortfolio(): PaperPortfolio {
-    return { ...this.portfolio, positions: new Map(this.portfolio.positions) };
+    return {
+      ...this.portfolio,
+      balances: { ...this.portfolio.balances },
+      positions: new Map(this.portfolio.positions),
+    };
+  }
+
+  /**
+   * Balance of any held asset by mint (SOL and USDC included)
+   */
+  getBalance(tokenAddress: string): number {
+    return this.portfolio.balances[tokenAddress] || 0;
   }
 
   /**
@@ -67,20 +94,23 @@ export class PaperTradingPortfolio {
     // Update balances from trade execution
     this.portfolio.balanceSOL = trade.balanceSOL;
     this.portfolio.balanceUSDC = trade.balanceUSDC;
-    this.portfolio.balanceTokens = trade.balanceTokens;
     
     // Log balance updates for debugging
     if (this.trades.length <= 5 || this.trades.length % 10 === 0) {
       console.log(`💼 [Portfolio Update #${this.trades.length}] SOL: ${trade.balanceSOL.toFixed(4)}, Tokens: ${trade.balanceTokens.toLocaleString()}`);
     }
 
-    // Update or create position
-    if (trade.type === 'buy') {
-      this.addToPosition(trade);
-    } else if (trade.type === 'sell') {
-      this.reducePosition(trade);
+    // Update or create position (SOL/USDC swaps only move the two quote balances)
+    if (trade.tokenAddress !== TOKEN_MINTS.SOL) {
+      if (trade.type === 'buy') {
+        this.addToPosition(trade);
+      } else if (trade.type === 'sell') {
+        this.reducePosition(trade);
+      }
     }
 
+    this.syncBalances();
+
     // Update total portfolio value
     this.updatePortfolioValue(trade.solPriceUSD);
   }
@@ -90,6 +120,10 @@ export class PaperTradingPortfolio {
    */
   private addToPosition(trade: PaperTrade): void {
     const existing = this.portfolio.positions.get(trade.tokenAddress);
+    // Cost basis stays in SOL (amountSOL is the SOL equivalent of USDC spent); USD is what was actually paid
+    const costUSD = trade.quoteCurrency === 'USDC' && trade.amountUSDC !== undefined
+      ? trade.amountUSDC
+      : trade.amountSOL * trade.solPriceUSD;
 
     if (existing) {
       // Update existing position - calculate new average entry price
@@ -99,7 +133,7 @@ export class PaperTradingPortfolio {
       existing.amount = totalTokens;
       existing.averageEntryPrice = totalInvested / totalTokens;
       existing.totalInvestedSOL = totalInvested;
-      existing.totalInvestedUSD = totalInvested * trade.solPriceUSD;
+      existing.totalInvestedUSD += costUSD;
       existing.currentPrice = trade.executionPrice;
       existing.currentValueSOL = totalTokens * trade.executionPrice;
       existing.currentValueUSD = existing.currentValueSOL * trade.solPriceUSD;
@@ -115,7 +149,7 @@ export class PaperTradingPortfolio {
         amount: trade.amountTokens,
         averageEntryPrice: trade.executionPrice,
         totalInvestedSOL: trade.amountSOL,
-        totalInvestedUSD: trade.amountSOL * trade.solPriceUSD,
+        totalInvestedUSD: costUSD,
         currentPrice: trade.executionPrice,
         currentValueSOL: trade.amountTokens * trade.executionPrice,
         currentValueUSD: trade.amountTokens * trade.executionPrice * trade.solPriceUSD,
@@ -158,7 +192,10 @@ export class PaperTradingPortfolio {
     // Update trade with realized P&L
     trade.realizedPnL = realizedPnL;
 
-    // Update position
+    // Update position (cost basis shrinks with the tokens sold)
+    const remainingShare = position.amount > 0 ? Math.max(0, position.amount - soldTokens) / position.amount : 0;
+    position.totalInvestedSOL *= remainingShare;
+    position.totalInvestedUSD *= remainingShare;
     position.amount -= soldTokens;
     position.currentPrice = trade.executionPrice;
     position.lastTradeTimestamp = trade.timestamp;
@@ -181,31 +218,61 @@ export class PaperTradingPortfolio {
    */
   private async updatePortfolioValue(solPriceUSD: number): Promise<void> {
     let totalPositionValueSOL = 0;
+    let totalPositionValueUSD = 0;
+
+    // One batched quote for every held mint - each carries TOKEN/SOL and TOKEN/USD
+    const tokenAddresses = Array.from(this.portfolio.positions.keys());
+    const prices = tokenAddresses.length > 0
+      ? await this.priceSource.fetchMultipleTokenPrices(tokenAddresses)
+      : new Map<string, MarketData>();
 
     for (const [tokenAddress, position] of this.portfolio.positions) {
-      // Update position with current market price
-      const marketData = await marketDataProvider.fetchTokenPrice(tokenAddress);
+      const marketData = prices.get(tokenAddress);
 
       if (marketData) {
         position.currentPrice = marketData.price;
         position.currentValueSOL = position.amount * marketData.price;
-        position.currentValueUSD = position.currentValueSOL * solPriceUSD;
+        position.currentValueUSD = marketData.priceUSD > 0
+          ? position.amount * marketData.priceUSD
+          : position.currentValueSOL * solPriceUSD;
         position.unrealizedPnL = position.currentValueSOL - position.totalInvestedSOL;
         position.unrealizedPnLPercentage = (position.unrealizedPnL / position.totalInvestedSOL) * 100;
+      } else {
+        position.currentValueUSD = position.currentValueSOL * solPriceUSD;
       }
       totalPositionValueSOL += position.currentValueSOL;
+      totalPositionValueUSD += position.currentValueUSD;
+    }
+
+    // USDC counts in both denominations at the current SOL/USD rate
+    const usdcValueSOL = solPriceUSD > 0 ? this.portfolio.balanceUSDC / solPriceUSD : 0;
+    this.portfolio.totalValueSOL = this.portfolio.balanceSOL + usdcValueSOL + totalPositionValueSOL;
+    this.portfolio.totalValueUSD = this.portfolio.balanceSOL * solPriceUSD + this.portfolio.balanceUSDC + totalPositionValueUSD;
+  }
+
+  /**
+   * Rebuild the per-mint balance map and the aggregate token count from the quote balances and positions
+   */
+  private syncBalances(): void {
+    const balances: Record<string, number> = {
+      [TOKEN_MINTS.SOL]: this.portfolio.balanceSOL,
+      [TOKEN_MINTS.USDC]: this.portfolio.balanceUSDC,
+    };
+    for (const [tokenAddress, position] of this.portfolio.positions) {
+      balances[tokenAddress] = position.amount;
     }
+    this.portfolio.balances = balances;
 
-    this.portfolio.totalValueSOL = this.portfolio.balanceSOL + totalPositionValueSOL;
-    // Include USDC balance in total USD value
-    this.portfolio.totalValueUSD = (this.portfolio.totalValueSOL * solPriceUSD) + this.portfolio.balanceUSDC;
+    // trade.balanceTokens is per mint - the portfolio total spans every open position
+    this.portfolio.balanceTokens = Array.from(this.portfolio.positions.values())
+      .reduce((sum, position) => sum + position.amount, 0);
   }
 
   /**
    * Refresh all positions with current market prices
    */
   async refreshPositions(): Promise<void> {
-    const solPrice = await marketDataProvider.fetchSolPrice();
+    const solPrice = await this.priceSource.fetchSolPrice();
     await this.updatePortfolioValue(solPrice);
   }
 
@@ -229,7 +296,7 @@ export class PaperTradingPortfolio {
   async calculateMetrics(strategyId?: string, strategyName?: string): Promise<PaperTradingMetrics> {
     await this.refreshPositions();
 
-    const solPrice = await marketDataProvider.fetchSolPrice();
+    const solPrice = await this.priceSource.fetchSolPrice();
     // Filter out auto-init trades
     const realTrades = this.trades.filter(t => 
       t.trigger !== 'auto_init_for_sell_strategy' && 
@@ -290,7 +357,8 @@ export class PaperTradingPortfolio {
     // Calculate winRate = (Profitable Trades / Total Completed Sell Trades) * 100
     // Only sell trades can realize profit/loss, so we count those
     // If no sell trades yet, winRate is 0% (haven't closed any positions)
-    const completedSellTrades = sellTrades.length;
+    // SOL/USDC conversions carry no realized P&L and don't count as closed positions
+    const completedSellTrades = sellTrades.filter(t => t.realizedPnL !== undefined).length;
     const winRate = completedSellTrades > 0 ? (winningTrades / completedSellTrades) * 100 : 0;
 
     console.log('📊 [Portfolio Metrics] Win/Loss Analysis:', {
@@ -379,7 +447,7 @@ export class PaperTradingPortfolio {
     });
 
     // Time-based metrics
-    const duration = Date.now() - this.startTime;
+    const duration = this.clock() - this.startTime;
     const daysElapsed = duration / (1000 * 60 * 60 * 24);
     const dailyROI = daysElapsed > 0 ? roi / daysElapsed : 0;
     const roiAnnualized = daysElapsed > 0 ? (roi / daysElapsed) * 365 : 0;
@@ -486,8 +554,9 @@ export class PaperTradingPortfolio {
   /**
    * Check if sufficient balance for trade
    */
-  hasSufficientBalance(amountSOL: number): boolean {
-    return this.portfolio.balanceSOL >= amountSOL;
+  hasSufficientBalance(amount: number, quoteCurrency: QuoteCurrency = 'SOL'): boolean {
+    const available = quoteCurrency === 'USDC' ? this.portfolio.balanceUSDC : this.portfolio.balanceSOL;
+    return available >= amount;
   }
 
   /**
@@ -500,15 +569,17 @@ export class PaperTradingPortfolio {
       balanceSOL: initialBalanceSOL,
       balanceUSDC: initialBalanceUSDC,
       balanceTokens: 0,
+      balances: {},
       positions: new Map(),
       totalValueSOL: initialBalanceSOL,
       totalValueUSD: initialBalanceSOL * solPrice,
       initialBalanceSOL,
       initialBalanceUSD: initialBalanceSOL * solPrice + initialBalanceUSDC,
     };
+    this.syncBalances();
 
     this.trades = [];
-    this.startTime = Date.now();
+    this.startTime = this.clock();
   }
 
   /**
@@ -533,13 +604,15 @@ export class PaperTradingPortfolio {
       balanceSOL: state.portfolio.balanceSOL,
       balanceUSDC: state.portfolio.balanceUSDC,
       balanceTokens: state.portfolio.balanceTokens || 0,
+      balances: {},
       positions: new Map(state.portfolio.positions),
       totalValueSOL: state.portfolio.totalValueSOL,
       totalValueUSD: state.portfolio.totalValueUSD,
       initialBalanceSOL: state.portfolio.initialBalanceSOL,
       initialBalanceUSD: state.portfolio.initialBalanceUSD,
     };
+    this.syncBalances(); // States saved before per-mint balances existed are backfilled here
     this.trades = state.trades || [];
-    this.startTime = state.startTime || Date.now();
+    this.startTime = state.startTime || this.clock();
   }
 }
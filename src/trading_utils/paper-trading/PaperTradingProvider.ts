@@ -3,9 +3,11 @@
  * Implements ITradingProvider interface but routes all trades through paper trading engine
  */
 
-import { TradingProvider, TradingResult, PriceResult } from '../TradingProvider';
+import { TradingProvider, TradingResult, PriceResult, TradeFill } from '../TradingProvider';
 import { paperTradingEngine } from './PaperTradingEngine';
+import type { MarketData, MarketTickSource, QuoteCurrency } from './types';
 import { getTokenPriceUSD, getSolPriceUSD } from '../TokenUtils';
+import { marketDataProvider } from './MarketDataProvider';
 import { ENV_CONFIG } from '../../config/environment';
 
 export class PaperTradingProvider implements TradingProvider {
@@ -13,12 +15,14 @@ export class PaperTradingProvider implements TradingProvider {
   private strategyId: string;
   private strategyName: string;
   private tokenAddress?: string; // Store token address for price fetching
+  private tickSource?: MarketTickSource; // Shared ticks (experiments): prices and fills come from here when it has one
 
-  constructor(sessionId: string, strategyId: string, strategyName: string, tokenAddress?: string) {
+  constructor(sessionId: string, strategyId: string, strategyName: string, tokenAddress?: string, tickSource?: MarketTickSource) {
     this.sessionId = sessionId;
     this.strategyId = strategyId;
     this.strategyName = strategyName;
     this.tokenAddress = tokenAddress;
+    this.tickSource = tickSource;
   }
 
   async initialize(): Promise<boolean> {
@@ -71,7 +75,8 @@ export class PaperTradingProvider implements TradingProvider {
       };
       
       state.portfolio.positions.set(tokenAddress, position);
-      state.portfolio.balanceTokens = amount;
+      state.portfolio.balanceTokens = Array.from(state.portfolio.positions.values())
+        .reduce((sum, p) => sum + p.amount, 0);
       
       console.log(`✅ [PaperTradingProvider] Virtual position added successfully`);
       console.log(`   Price (SOL): ${priceInSOL.toFixed(9)}`);
@@ -84,12 +89,12 @@ export class PaperTradingProvider implements TradingProvider {
   /**
    * Execute a paper buy order
    */
-  async buyTokens(amountInSol: number, context?: any): Promise<string> {
+  async buyTokens(amountInSol: number, context?: any, stepTokenAddress?: string, quoteCurrency?: QuoteCurrency): Promise<string> {
     try {
-      // FIX #5: Require explicit tokenAddress from context or constructor (no ENV_CONFIG fallback)
-      const tokenAddress = context?.variables?.tokenAddress || this.tokenAddress;
+      // FIX #5: Require explicit tokenAddress from step, context or constructor (no ENV_CONFIG fallback)
+      const tokenAddress = stepTokenAddress || context?.variables?.tokenAddress || this.tokenAddress;
       
-      if (!tokenAddress || tokenAddress.length !== 44) {
+      if (!tokenAddress || tokenAddress.length < 32) {
         throw new Error(`[PaperTradingProvider] tokenAddress is required for buyTokens. Received: ${tokenAddress}`);
       }
       
@@ -104,7 +109,8 @@ export class PaperTradingProvider implements TradingProvider {
         sessionId: this.sessionId,
         strategyId: this.strategyId,
         strategyName: this.strategyName,
-        tokenAddress: tokenAddress
+        tokenAddress: tokenAddress,
+        quoteCurrency: quoteCurrency || 'SOL'
       });
       
       //  VALIDATE AMOUNT
@@ -120,7 +126,8 @@ export class PaperTradingProvider implements TradingProvider {
         amountInSol,
         this.strategyId,
         this.strategyName,
-        'strategy_execution'
+        'strategy_execution',
+        { quoteCurrency, marketData: this.tickSource?.getTick(tokenAddress), reserves: this.tickSource?.getReserves?.(tokenAddress) }
       );
 
       if (!result.success) {
@@ -141,7 +148,7 @@ export class PaperTradingProvider implements TradingProvider {
   /**
    * Execute a paper sell order
    */
-  async sellTokens(amountToSell: number, context?: any): Promise<string> {
+  async sellTokens(amountToSell: number, context?: any, stepTokenAddress?: string, quoteCurrency?: QuoteCurrency): Promise<string> {
     try {
       //  ADD MORE DETAILED LOGGING
       console.log(`[PaperTradingProvider] SELL REQUEST RECEIVED:`, {
@@ -182,10 +189,11 @@ export class PaperTradingProvider implements TradingProvider {
         throw new Error(`[PaperTradingProvider] Invalid sell amount: ${actualAmountToSell}. Must be -1 (all) or positive number.`);
       }
 
-      // FIX #5: Require explicit tokenAddress from context or constructor (no ENV_CONFIG fallback)
-      const tokenAddress = context?.variables?.tokenAddress || this.tokenAddress;
+      // FIX #5: Require explicit tokenAddress from step, context or constructor (no ENV_CONFIG fallback)
+      const tokenAddress = stepTokenAddress || context?.variables?.tokenAddress || this.tokenAddress;
       
       console.log(`[PaperTradingProvider] sellTokens - tokenAddress check:`, {
+        fromStep: stepTokenAddress,
         fromContext: context?.variables?.tokenAddress,
         fromThis: this.tokenAddress,
         final: tokenAddress,
@@ -216,7 +224,8 @@ export class PaperTradingProvider implements TradingProvider {
         actualAmountToSell,
         this.strategyId,
         this.strategyName,
-        'strategy_execution'
+        'strategy_execution',
+        { quoteCurrency, marketData: this.tickSource?.getTick(tokenAddress), reserves: this.tickSource?.getReserves?.(tokenAddress) }
       );
 
       if (!result.success) {
@@ -241,6 +250,16 @@ export class PaperTradingProvider implements TradingProvider {
     }
   }
 
+  /**
+   * Actual fill of a paper trade (signature is the trade ID)
+   */
+  async getTradeFill(signature: string): Promise<TradeFill | null> {
+    const trade = paperTradingEngine.getTrades(this.sessionId).find(t => t.id === signature);
+    return trade
+      ? { tokenAmount: trade.amountTokens, solAmount: trade.amountSOL, executionPrice: trade.executionPrice }
+      : null;
+  }
+
   /**
    * Get token price (uses real market data)
    */
@@ -251,6 +270,10 @@ export class PaperTradingProvider implements TradingProvider {
     if (!tokenAddress || tokenAddress.length !== 44) {
       throw new Error(`[PaperTradingProvider] tokenAddress is required for getTokenPriceUSD. Received: ${tokenAddress}`);
     }
+    const tick = this.tickSource?.getTick(tokenAddress);
+    if (tick) {
+      return { price: tick.priceUSD, source: tick.source, timestamp: tick.timestamp };
+    }
     const result = await getTokenPriceUSD(tokenAddress);
     return {
       price: result.price,
@@ -269,6 +292,10 @@ export class PaperTradingProvider implements TradingProvider {
     if (!tokenAddress || tokenAddress.length !== 44) {
       throw new Error(`[PaperTradingProvider] tokenAddress is required for getJupiterTokenPrice. Received: ${tokenAddress}`);
     }
+    const tick = this.tickSource?.getTick(tokenAddress);
+    if (tick) {
+      return { price: tick.priceUSD, source: tick.source, timestamp: tick.timestamp };
+    }
     const result = await getTokenPriceUSD(tokenAddress);
     return {
       price: result.price,
@@ -281,6 +308,10 @@ export class PaperTradingProvider implements TradingProvider {
    * Get SOL price (uses real market data)
    */
   async getSolPriceUSD(): Promise<PriceResult> {
+    const tick = this.tokenAddress ? this.tickSource?.getTick(this.tokenAddress) : undefined;
+    if (tick) {
+      return { price: tick.solPrice, source: tick.source, timestamp: tick.timestamp };
+    }
     const price = await getSolPriceUSD();
     return {
       price: price, // getSolPriceUSD returns just a number
@@ -289,6 +320,13 @@ export class PaperTradingProvider implements TradingProvider {
     };
   }
 
+  /**
+   * Token market data for getPrice steps (the shared tick when there is one)
+   */
+  async getMarketData(tokenAddress: string): Promise<MarketData | null> {
+    return this.tickSource?.getTick(tokenAddress) || await marketDataProvider.fetchTokenPrice(tokenAddress);
+  }
+
   /**
    * Wait for price above target
    */
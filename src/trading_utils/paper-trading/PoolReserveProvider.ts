@@ -0,0 +1,183 @@
+/**
+ * Pool Reserve Provider
+ *
+ * Reads the constant-product reserves a token actually trades against so paper
+ * fills can be priced with real price impact:
+ * - pump.fun: virtual reserves from the bonding curve account (pump IDL), with
+ *   PumpFunIntegration.getTokenDetails as fallback
+ * - graduated / non-pump tokens: Raydium AMM v4 vault balances via PoolDiscovery
+ */
+
+import { BorshCoder, Idl } from '@coral-xyz/anchor';
+import { Connection, PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
+import { IDL as PUMP_IDL } from '../../idl/pump.idl';
+import { PoolDiscovery } from '../../utils/PoolDiscovery';
+import { PumpFunIntegration, PUMP_FUN_PROGRAM_ID } from '../PumpFunIntegration';
+import { TRADING_CONFIG } from '../config';
+import { PoolReserves } from './types';
+
+const NATIVE_SOL_MINT = 'So11111111111111111111111111111111111111112';
+const LAMPORTS_PER_SOL = 1e9;
+const PUMP_TOKEN_DECIMALS = 6;
+
+// Raydium AMM v4 pool state offsets (LIQUIDITY_STATE_LAYOUT_V4)
+const RAYDIUM_LAYOUT = {
+  baseNeedTakePnl: 192,
+  quoteNeedTakePnl: 200,
+  baseVault: 336,
+  quoteVault: 368,
+  baseMint: 400,
+  quoteMint: 432,
+};
+
+interface DecodedBondingCurve {
+  virtualTokenReserves: BN;
+  virtualSolReserves: BN;
+  complete: boolean;
+}
+
+export class PoolReserveProvider {
+  private connection: Connection;
+  private coder = new BorshCoder(PUMP_IDL as Idl);
+  private pumpFun: PumpFunIntegration;
+  private poolDiscovery: PoolDiscovery;
+  private cache = new Map<string, { data: PoolReserves | null; expires: number }>();
+  private cacheDuration = 3000; // Reserves move every trade - keep this short
+  private fetchTimeoutMs = 2000; // Never hold up a fill waiting on RPC
+
+  constructor(connection?: Connection) {
+    this.connection = connection
+      || new Connection(TRADING_CONFIG.RPC_ENDPOINT || 'https://api.mainnet-beta.solana.com', 'confirmed');
+    this.pumpFun = new PumpFunIntegration(this.connection);
+    this.poolDiscovery = new PoolDiscovery(this.connection);
+  }
+
+  /**
+   * Current reserves for a token, or null when no pool could be read
+   */
+  async getReserves(tokenAddress: string): Promise<PoolReserves | null> {
+    const cached = this.cache.get(tokenAddress);
+    if (cached && cached.expires > Date.now()) {
+      return cached.data;
+    }
+
+    let timeout: NodeJS.Timeout | undefined;
+    const timeoutPromise = new Promise<null>((resolve) => {
+      timeout = setTimeout(() => resolve(null), this.fetchTimeoutMs);
+    });
+
+    let reserves: PoolReserves | null = null;
+    try {
+      reserves = await Promise.race([this.fetchReserves(tokenAddress), timeoutPromise]);
+    } catch (error) {
+      console.warn(`⚠️ [PoolReserves] Failed to read reserves for ${tokenAddress.substring(0, 8)}...:`, error instanceof Error ? error.message : error);
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    this.cache.set(tokenAddress, { data: reserves, expires: Date.now() + this.cacheDuration });
+    return reserves;
+  }
+
+  private async fetchReserves(tokenAddress: string): Promise<PoolReserves | null> {
+    const mint = new PublicKey(tokenAddress);
+
+    // Bonding curve first; a completed curve means the token now trades on Raydium
+    const curve = await this.fetchBondingCurveReserves(mint);
+    if (curve) {
+      return curve;
+    }
+
+    return this.fetchRaydiumReserves(tokenAddress);
+  }
+
+  private async fetchBondingCurveReserves(mint: PublicKey): Promise<PoolReserves | null> {
+    const [bondingCurve] = PublicKey.findProgramAddressSync(
+      [Buffer.from('bonding-curve'), mint.toBuffer()],
+      PUMP_FUN_PROGRAM_ID
+    );
+
+    try {
+      const accountInfo = await this.connection.getAccountInfo(bondingCurve);
+      if (!accountInfo) {
+        return null; // Not a pump.fun token
+      }
+
+      const decoded = this.coder.accounts.decode<DecodedBondingCurve>('bondingCurve', accountInfo.data);
+      if (decoded.complete) {
+        return null;
+      }
+
+      return {
+        venue: 'pumpfun',
+        tokenAddress: mint.toString(),
+        poolAddress: bondingCurve.toString(),
+        solReserves: decoded.virtualSolReserves.toNumber() / LAMPORTS_PER_SOL,
+        tokenReserves: decoded.virtualTokenReserves.toNumber() / Math.pow(10, PUMP_TOKEN_DECIMALS),
+        timestamp: Date.now(),
+      };
+    } catch (error) {
+      // RPC read failed - fall back to pump.fun token details
+      const details = await this.pumpFun.getTokenDetails(mint);
+      if (!details || details.complete || !details.virtual_sol_reserves || !details.virtual_token_reserves) {
+        return null;
+      }
+
+      return {
+        venue: 'pumpfun',
+        tokenAddress: mint.toString(),
+        poolAddress: details.bonding_curve || bondingCurve.toString(),
+        solReserves: details.virtual_sol_reserves / LAMPORTS_PER_SOL,
+        tokenReserves: details.virtual_token_reserves / Math.pow(10, details.decimals || PUMP_TOKEN_DECIMALS),
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  private async fetchRaydiumReserves(tokenAddress: string): Promise<PoolReserves | null> {
+    const pool = await this.poolDiscovery.findPoolForToken(tokenAddress);
+    if (!pool) {
+      return null;
+    }
+
+    const accountInfo = await this.connection.getAccountInfo(new PublicKey(pool.poolAddress));
+    if (!accountInfo || accountInfo.data.length < RAYDIUM_LAYOUT.quoteMint + 32) {
+      return null;
+    }
+
+    const data = accountInfo.data;
+    const readPubkey = (offset: number) => new PublicKey(data.slice(offset, offset + 32));
+    const readU64 = (offset: number) => new BN(data.slice(offset, offset + 8), 'le');
+
+    const baseMint = readPubkey(RAYDIUM_LAYOUT.baseMint).toString();
+    const quoteMint = readPubkey(RAYDIUM_LAYOUT.quoteMint).toString();
+    if (baseMint !== NATIVE_SOL_MINT && quoteMint !== NATIVE_SOL_MINT) {
+      return null; // Only SOL-quoted pools can price a SOL fill
+    }
+
+    const [baseBalance, quoteBalance] = await Promise.all([
+      this.connection.getTokenAccountBalance(readPubkey(RAYDIUM_LAYOUT.baseVault)),
+      this.connection.getTokenAccountBalance(readPubkey(RAYDIUM_LAYOUT.quoteVault)),
+    ]);
+
+    // Vault balances include PnL owed to the pool owner, which is not swappable
+    const baseReserve = new BN(baseBalance.value.amount).sub(readU64(RAYDIUM_LAYOUT.baseNeedTakePnl));
+    const quoteReserve = new BN(quoteBalance.value.amount).sub(readU64(RAYDIUM_LAYOUT.quoteNeedTakePnl));
+    const baseAmount = Number(baseReserve.toString()) / Math.pow(10, baseBalance.value.decimals);
+    const quoteAmount = Number(quoteReserve.toString()) / Math.pow(10, quoteBalance.value.decimals);
+
+    const solIsBase = baseMint === NATIVE_SOL_MINT;
+    return {
+      venue: 'raydium',
+      tokenAddress,
+      poolAddress: pool.poolAddress,
+      solReserves: solIsBase ? baseAmount : quoteAmount,
+      tokenReserves: solIsBase ? quoteAmount : baseAmount,
+      timestamp: Date.now(),
+    };
+  }
+}
+
+// Singleton instance
+export const poolReserveProvider = new PoolReserveProvider();
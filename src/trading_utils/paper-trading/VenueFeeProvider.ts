@@ -0,0 +1,96 @@
+/**
+ * Venue Fee Provider
+ *
+ * Resolves what a paper fill would cost on-chain:
+ * - venue from the token's TokenRouter route (graduations update the router cache)
+ * - compute unit price sampled with calculateOptimalPriorityFee, cached briefly
+ * The fee math itself lives in FeeModels.
+ */
+
+import { Connection } from '@solana/web3.js';
+import { getTokenRouter } from '../TokenRouter';
+import { calculateOptimalPriorityFee } from '../PerformanceOptimizer';
+import { PAPER_FEE_CONFIG, TRADING_CONFIG } from '../config';
+import { buildVenueFeeSchedule, venueFromRoute } from './FeeModels';
+import { FeeVenue, PaperOrderSide, VenueFeeSchedule } from './types';
+
+export class VenueFeeProvider {
+  private connection: Connection | null;
+  private priorityFee: { microLamports: number; expires: number } | null = null;
+
+  constructor(connection?: Connection) {
+    this.connection = connection || null;
+  }
+
+  /**
+   * Fee schedule for one fill of `tokenAddress`
+   * @param fallbackVenue Used when the route cannot be resolved in time (e.g. the venue of the pool reserves)
+   */
+  async getFeeSchedule(
+    tokenAddress: string,
+    side: PaperOrderSide,
+    firstBuy: boolean,
+    options: { venue?: FeeVenue; fallbackVenue?: FeeVenue } = {}
+  ): Promise<VenueFeeSchedule> {
+    const [venue, priorityFeeMicroLamports] = await Promise.all([
+      options.venue ? Promise.resolve(options.venue) : this.getVenue(tokenAddress),
+      this.getPriorityFeeMicroLamports(),
+    ]);
+
+    return buildVenueFeeSchedule(venue || options.fallbackVenue || 'jupiter', side, { priorityFeeMicroLamports, firstBuy });
+  }
+
+  /**
+   * Venue the token routes to, or null when TokenRouter could not answer in time
+   */
+  async getVenue(tokenAddress: string): Promise<FeeVenue | null> {
+    try {
+      const route = await this.withTimeout(getTokenRouter(this.getConnection()).route(tokenAddress));
+      return route ? venueFromRoute(route) : null;
+    } catch (error) {
+      console.warn(`⚠️ [VenueFees] Failed to route ${tokenAddress.substring(0, 8)}...:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * Current compute unit price in micro-lamports (configured medium fee when sampling fails)
+   */
+  async getPriorityFeeMicroLamports(): Promise<number> {
+    if (this.priorityFee && this.priorityFee.expires > Date.now()) {
+      return this.priorityFee.microLamports;
+    }
+
+    let microLamports: number | null = null;
+    try {
+      microLamports = await this.withTimeout(calculateOptimalPriorityFee(this.getConnection(), 'medium'));
+    } catch (error) {
+      console.warn('⚠️ [VenueFees] Failed to sample priority fee:', error instanceof Error ? error.message : error);
+    }
+
+    const resolved = microLamports ?? TRADING_CONFIG.PRIORITY_FEE_CONFIG.MEDIUM;
+    this.priorityFee = { microLamports: resolved, expires: Date.now() + PAPER_FEE_CONFIG.PRIORITY_FEE_CACHE_MS };
+    return resolved;
+  }
+
+  /**
+   * Never hold up a fill waiting on RPC - null on timeout
+   */
+  private withTimeout<T>(promise: Promise<T>): Promise<T | null> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeoutPromise = new Promise<null>((resolve) => {
+      timer = setTimeout(() => resolve(null), PAPER_FEE_CONFIG.LOOKUP_TIMEOUT_MS);
+    });
+    return Promise.race([promise, timeoutPromise]).finally(() => clearTimeout(timer));
+  }
+
+  private getConnection(): Connection {
+    if (!this.connection) {
+      this.connection = new Connection(TRADING_CONFIG.RPC_ENDPOINT || 'https://api.mainnet-beta.solana.com', 'confirmed');
+    }
+    return this.connection;
+  }
+}
+
+// Singleton instance
+export const venueFeeProvider = new VenueFeeProvider();
@@ -8,3 +8,21 @@ export * from './types';
 export { MarketDataProvider, marketDataProvider } from './MarketDataProvider';
 export { PaperTradingPortfolio } from './PaperTradingPortfolio';
 export { PaperTradingEngine, paperTradingEngine } from './PaperTradingEngine';
+export { PaperOrderBook, paperOrderBook } from './PaperOrderBook';
+export { quoteBuyFill, quoteSellFill, curveTokensOut, curveSolOut, reservesSpotPrice } from './FillModel';
+export type { BuyFillQuote, SellFillQuote } from './FillModel';
+export { PoolReserveProvider, poolReserveProvider } from './PoolReserveProvider';
+export { registerVenueFeeModel, getVenueFeeModel, venueFromRoute, buildVenueFeeSchedule, fixedFeeSOL, priorityFeeLamports } from './FeeModels';
+export type { VenueFeeModel, FixedFeeInput } from './FeeModels';
+export { VenueFeeProvider, venueFeeProvider } from './VenueFeeProvider';
+export {
+  ExecutionSimulator,
+  executionSimulator,
+  resolveLatencyConfig,
+  sampleLatencyMs,
+  applyTradesToReserves,
+  liquidityFillRatio,
+} from './ExecutionSimulator';
+export type { SimulatedExecution } from './ExecutionSimulator';
+export { studentTPValue, pairedPeriodReturns, pairedTTest } from './ExperimentStatistics';
+export type { PairedTTestResult } from './ExperimentStatistics';
@@ -6,6 +6,12 @@
 
 export type PaperTradingMode = 'paper' | 'live';
 
+/**
+ * Currency a paper order is priced and settled in
+ * SOL: TOKEN/SOL pairs, USDC: TOKEN/USDC and SOL/USDC pairs
+ */
+export type QuoteCurrency = 'SOL' | 'USDC';
+
 export interface PaperTradingConfig {
   enabled: boolean;
   initialBalanceSOL: number;
@@ -15,8 +21,16 @@ export interface PaperTradingConfig {
   enableFees: boolean;
   tradingFeePercentage: number;
   networkFeeSOL: number;
-  enableLiquiditySimulation: boolean;
+  enableLiquiditySimulation: boolean; // Cut or fail fills the pool cannot absorb
+  maxPoolSharePercent?: number; // Liquidity simulation: largest % of the pool's SOL side one fill may take
+  minPartialFillPercent?: number; // Liquidity simulation: smaller partial fills fail instead
+  enableLatencySimulation?: boolean; // Fill at the price when the order lands, not when it was decided
+  latency?: Partial<ExecutionLatencyConfig>; // Overrides PAPER_EXECUTION_CONFIG defaults
+  enablePriceImpact?: boolean; // Price market fills off pool reserves (falls back to flat slippage)
+  enableVenueFees?: boolean; // Charge the routed venue's fees instead of tradingFeePercentage/networkFeeSOL
+  feeVenue?: FeeVenue; // Charge fills as this venue instead of asking TokenRouter
   dataSource: 'coingecko' | 'jupiter' | 'birdeye' | 'dexscreener';
+  tokenAddress?: string; // Token the session was created for
 }
 
 export interface PaperTrade {
@@ -29,7 +43,8 @@ export interface PaperTrade {
   tokenSymbol?: string;
   
   // Order details
-  orderType: 'market' | 'limit';
+  orderType: 'market' | PaperOrderType;
+  orderId?: string; // Resting order that produced this fill
   requestedAmount: number; // Amount user wanted to trade
   executedAmount: number; // Actual amount after slippage/liquidity
   
@@ -40,13 +55,18 @@ export interface PaperTrade {
   solPriceUSD: number;
   
   // Trade amounts
-  amountSOL: number;
+  amountSOL: number; // SOL leg - the SOL equivalent at solPriceUSD for USDC-quoted token trades
   amountTokens: number;
+  quoteCurrency?: QuoteCurrency; // Defaults to SOL
+  amountUSDC?: number; // USDC leg of USDC-quoted trades
   
   // Fees
   tradingFee: number;
   networkFee: number;
   slippage: number;
+  priceImpact?: number; // % move from pool reserves (only when priced off a curve/pool)
+  venueFees?: VenueFeeSchedule; // Fee schedule the fill was charged with (venue fee models only)
+  execution?: ExecutionSimulation; // Latency / liquidity simulation applied to the fill
   totalCost: number;
   
   // Balances after trade
@@ -83,7 +103,8 @@ export interface PaperPosition {
 export interface PaperPortfolio {
   balanceSOL: number;
   balanceUSDC: number;
-  balanceTokens: number;
+  balanceTokens: number; // Sum over every open position (kept for session summaries)
+  balances: Record<string, number>; // Every held asset by mint, SOL and USDC included
   positions: Map<string, PaperPosition>;
   totalValueSOL: number;
   totalValueUSD: number;
@@ -167,6 +188,168 @@ export interface MarketData {
   marketCap?: number;
 }
 
+/**
+ * Price source used for portfolio valuation
+ * MarketDataProvider in live paper trading, recorded history in backtests
+ */
+export interface PortfolioPriceSource {
+  fetchTokenPrice(tokenAddress: string): Promise<MarketData | null>;
+  fetchMultipleTokenPrices(tokenAddresses: string[]): Promise<Map<string, MarketData>>;
+  fetchSolPrice(): Promise<number>;
+}
+
+/**
+ * Constant-product reserves used to price fills
+ * pump.fun: virtual curve reserves, Raydium: pool vault balances (both in UI units)
+ */
+export type LiquidityVenue = 'pumpfun' | 'raydium';
+
+export interface PoolReserves {
+  venue: LiquidityVenue;
+  tokenAddress: string;
+  poolAddress: string; // Bonding curve PDA or AMM id
+  solReserves: number; // SOL
+  tokenReserves: number; // Tokens
+  timestamp: number;
+}
+
+/**
+ * Execution venue a paper fill is charged as (from the token's TokenRouter route)
+ */
+export type FeeVenue = 'pumpfun' | 'raydium' | 'jupiter';
+
+/**
+ * Costs of one fill on its venue: a swap fee on the SOL notional plus fixed SOL costs
+ */
+export interface VenueFeeSchedule {
+  venue: FeeVenue;
+  swapFeeBps: number; // Curve / pool / route fees
+  baseFeeSOL: number; // Signature fee
+  priorityFeeSOL: number;
+  ataRentSOL: number; // Token account opened by the first buy of a mint
+}
+
+/**
+ * Submission-to-landing latency model for simulated fills
+ */
+export type LatencyDistribution = 'fixed' | 'uniform' | 'normal' | 'lognormal' | 'empirical';
+
+export interface ExecutionLatencyConfig {
+  distribution: LatencyDistribution;
+  meanMs: number; // Fixed latency, or the distribution mean
+  jitterMs: number; // Uniform half-range, or the normal/lognormal standard deviation
+  minMs: number;
+  maxMs: number;
+  samplesMs?: number[]; // Empirical: observed landing times, drawn at random
+}
+
+/**
+ * What the execution simulator did to one fill
+ */
+export interface ExecutionSimulation {
+  latencyMs: number; // Submission to landing
+  decisionPrice: number; // SOL per token when the order was submitted
+  landingPrice: number; // SOL per token when it landed
+  tradesBeforeLanding: number; // Feed trades on the token that landed first
+  fillRatio: number; // Filled share of the requested size (1 = complete)
+  maxFillSOL?: number; // Liquidity cap on the SOL notional, when one applied
+}
+
+/**
+ * Price snapshot shared by linked sessions: reads and fills use the same tick
+ */
+export interface MarketTickSource {
+  getTick(tokenAddress: string): MarketData | undefined;
+  getReserves?(tokenAddress: string): PoolReserves | null | undefined; // Snapshot taken with the tick (undefined: read live)
+}
+
+/**
+ * A/B experiments: strategy variants in linked paper sessions on one shared market feed
+ */
+export type PaperExperimentStatus = 'running' | 'completed' | 'stopped';
+
+export interface PaperExperimentVariantRequest {
+  strategyId: string;
+  label?: string; // Defaults to the strategy name
+  variables?: Record<string, any>; // Layered over the strategy's variables
+}
+
+export interface PaperExperimentRequest {
+  name?: string;
+  userId?: string;
+  tokenAddress: string;
+  variants: PaperExperimentVariantRequest[]; // The first variant is the control
+  config?: Partial<PaperTradingConfig> & { initialTokenBalance?: number }; // Shared by every session (no latency simulation)
+  tickIntervalMs?: number;
+  durationMs?: number; // Completes the experiment after this long (if unset: once every variant's strategy completes, or when stopped)
+}
+
+export interface PaperExperimentVariant {
+  label: string;
+  strategyId: string;
+  strategyName: string;
+  sessionId: string;
+  variables?: Record<string, any>;
+  status: 'running' | 'completed';
+  executions: number;
+  failedExecutions: number;
+  lastError?: string;
+}
+
+export interface PaperExperiment {
+  id: string;
+  name: string;
+  userId?: string;
+  tokenAddress: string;
+  status: PaperExperimentStatus;
+  variants: PaperExperimentVariant[];
+  tickIntervalMs: number;
+  durationMs?: number;
+  ticks: number; // Shared price ticks delivered to every variant
+  tradeEvents: number; // Feed trades delivered to every variant
+  startTime: number;
+  endTime?: number;
+}
+
+export interface PaperExperimentVariantResult {
+  label: string;
+  strategyId: string;
+  sessionId: string;
+  roi: number; // %
+  maxDrawdown: number; // % of peak total value, marked at the shared ticks
+  winRate: number;
+  sharpeRatio: number;
+  totalTrades: number;
+  totalFees: number; // SOL
+  totalFeesUSD: number;
+  totalPnL: number; // SOL
+  totalPnLUSD: number;
+  totalValueSOL: number;
+}
+
+/**
+ * One variant against the control, from paired per-tick returns (both saw the same ticks)
+ */
+export interface PaperExperimentComparison {
+  label: string;
+  control: string;
+  roiDifference: number; // Percentage points, variant minus control
+  sampleSize: number; // Paired returns
+  meanReturnDifference: number; // % per tick, variant minus control
+  tStatistic: number;
+  pValue: number; // Two-sided paired t-test
+  significant: boolean; // pValue below the significance level
+}
+
+export interface PaperExperimentReport {
+  experiment: PaperExperiment;
+  tick?: MarketData; // Shared tick every variant is valued at
+  results: PaperExperimentVariantResult[];
+  comparisons: PaperExperimentComparison[];
+  significanceLevel: number;
+  generatedAt: number;
+}
+
 export interface PaperTradingState {
   sessionId: string;
   userId?: string;
@@ -177,6 +360,7 @@ export interface PaperTradingState {
   metrics: PaperTradingMetrics;
   startTime: number;
   lastTradeTime?: number;
+  endTime?: number; // Set by endSession - paused sessions are inactive without one
   isActive: boolean;
 }
 
@@ -196,7 +380,68 @@ export interface OrderExecutionResult {
   trade?: PaperTrade;
   error?: string;
   insufficientBalance?: boolean;
-  insufficientLiquidity?: boolean;
+  insufficientLiquidity?: boolean; // Liquidity simulation: the pool could not absorb a minimum partial fill
+  limitNotMet?: boolean; // Limit order could not fill at or better than its limit
+}
+
+/**
+ * Resting orders (per-session order book)
+ * Prices are SOL per token, like PaperTrade.marketPrice
+ */
+export type PaperOrderType = 'limit' | 'stop_market' | 'stop_limit';
+export type PaperOrderSide = 'buy' | 'sell';
+export type PaperOrderStatus = 'open' | 'triggered' | 'filled' | 'cancelled' | 'rejected' | 'expired';
+
+export interface PaperOrder {
+  id: string;
+  sessionId: string;
+  strategyId: string;
+  strategyName: string;
+  tokenAddress: string;
+  side: PaperOrderSide;
+  type: PaperOrderType;
+  amount: number; // Quote currency (SOL or USDC) for buys, tokens for sells
+  quoteCurrency?: QuoteCurrency; // Defaults to SOL
+  limitPrice?: number; // limit / stop_limit
+  stopPrice?: number; // stop_market / stop_limit
+  status: PaperOrderStatus;
+  createdAt: number;
+  updatedAt: number;
+  expiresAt?: number;
+  triggeredAt?: number; // Stop price crossed
+  filledAt?: number;
+  tradeId?: string; // Latest fill
+  fillPrice?: number;
+  filledAmount?: number; // Filled so far - partial fills keep the remainder working
+  remainingAmount?: number; // Still to fill after a partial fill
+  error?: string; // Reason for rejection
+}
+
+export interface PaperOrderRequest {
+  tokenAddress: string;
+  side: PaperOrderSide;
+  type: PaperOrderType;
+  amount: number;
+  quoteCurrency?: QuoteCurrency;
+  limitPrice?: number;
+  stopPrice?: number;
+  expiresAt?: number;
+  strategyId?: string;
+  strategyName?: string;
+}
+
+export type PaperOrderUpdate = Partial<Pick<PaperOrder, 'amount' | 'limitPrice' | 'stopPrice' | 'expiresAt'>>;
+
+/**
+ * Overrides for executeBuy/executeSell when filling a resting order
+ */
+export interface OrderExecutionOptions {
+  orderType?: PaperOrderType;
+  orderId?: string;
+  marketData?: MarketData; // Tick that triggered the fill
+  reserves?: PoolReserves | null; // Reserve snapshot to price the fill with instead of a live read
+  limitPrice?: number; // Reject (limitNotMet) if the fill would be worse
+  quoteCurrency?: QuoteCurrency; // Spend/receive USDC instead of SOL (buy amounts are then in USDC)
 }
 
 export interface PaperTradingLog {
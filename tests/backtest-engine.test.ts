@@ -0,0 +1,80 @@
+// ================= BACKTEST ENGINE TESTS =================
+import { StrategyBuilder, StrategyStep } from '../src/trading_utils/StrategyBuilder';
+import type { TradingProvider } from '../src/trading_utils/TradingProvider';
+import { BacktestEngine, calculateMaxDrawdown } from '../src/trading_utils/backtesting';
+import type { BacktestDataset, BacktestJob } from '../src/trading_utils/backtesting';
+
+// Backtests trade on their own provider, so the builder's is never called
+const builder = new StrategyBuilder({} as TradingProvider);
+const engine = new BacktestEngine();
+const noCosts = { enableFees: false, enableSlippage: false, enableLatencySimulation: false, enableLiquiditySimulation: false };
+
+// 0.001 SOL per token for ten minutes, then 0.002
+const dataset: BacktestDataset = {
+  tokenAddress: 'token',
+  solPriceUSD: 100,
+  prices: Array.from({ length: 20 }, (_, i) => ({ timestamp: i * 60000, price: i < 10 ? 0.001 : 0.002 })),
+};
+
+const buyWaitSell: StrategyStep[] = [
+  { id: 'buy', type: 'buy', amountInSol: 1, onSuccess: 'pause' },
+  { id: 'pause', type: 'wait', durationMs: 15 * 60000, onSuccess: 'sell' },
+  { id: 'sell', type: 'sell', amountToSell: -1, onSuccess: 'end' },
+  { id: 'end', type: 'stop' } as StrategyStep,
+];
+
+const createStrategy = (id: string) => {
+  const strategy = builder.createStrategy(id, id, 'backtest test', { tokenAddress: 'token' });
+  buyWaitSell.forEach(step => builder.addStep(id, step));
+  return strategy;
+};
+
+const waitForJob = async (job: BacktestJob) => {
+  while (job.status === 'running') {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  return job;
+};
+
+describe('runBacktest', () => {
+  test('should fill on the replayed clock', async () => {
+    const result = await engine.runBacktest(createStrategy('backtest-run'), dataset, { initialBalanceSOL: 10, fillModel: noCosts });
+
+    expect(result.stopReason).toBe('completed');
+    expect(result.trades.map(trade => [trade.type, trade.timestamp, trade.marketPrice])).toEqual([
+      ['buy', 0, 0.001],
+      ['sell', 15 * 60000, 0.002],
+    ]);
+    expect(result.trades[1].balanceSOL).toBeCloseTo(11);
+    expect(result.metrics.roi).toBeCloseTo(10);
+  });
+});
+
+describe('startJob', () => {
+  test('should return a running job and complete it in the background', async () => {
+    const job = engine.startJob(createStrategy('backtest-job'), dataset, { initialBalanceSOL: 10, fillModel: noCosts });
+    expect(job.status).toBe('running');
+    expect(engine.getJob(job.id)).toBe(job);
+
+    await waitForJob(job);
+    expect(job.status).toBe('completed');
+    expect(job.result?.trades).toHaveLength(2);
+    expect(job.completedAt).toBeDefined();
+  });
+
+  test('should record failures on the job', async () => {
+    const strategy = createStrategy('backtest-failing');
+    const job = engine.startJob(strategy, dataset, { startTime: 10 ** 12 });
+
+    await waitForJob(job);
+    expect(job.status).toBe('failed');
+    expect(job.error).toBeDefined();
+  });
+});
+
+describe('calculateMaxDrawdown', () => {
+  test('should measure the largest peak-to-trough drop', () => {
+    const point = (totalValueSOL: number) => ({ timestamp: 0, price: 0, balanceSOL: 0, balanceTokens: 0, totalValueSOL, totalValueUSD: 0 });
+    expect(calculateMaxDrawdown([10, 12, 9, 11, 6, 8].map(point))).toBe(50);
+  });
+});
@@ -0,0 +1,125 @@
+// ================= CANDLE AGGREGATOR TESTS =================
+jest.mock('../src/database/dal', () => ({
+  findCandles: jest.fn(async () => []),
+  upsertCandles: jest.fn(async (records: unknown[]) => records.length),
+  findTradesByTokenInRange: jest.fn(async () => []),
+  deleteCandlesBefore: jest.fn(async () => 0),
+}));
+
+import { findCandles, findTradesByTokenInRange, upsertCandles } from '../src/database/dal';
+import { CandleAggregator, CandleTrade, CandleUpdate, aggregateTrades } from '../src/trading_utils/candles';
+import type { MarketData } from '../src/trading_utils/paper-trading/types';
+
+const upsert = upsertCandles as jest.Mock;
+const MINUTE = 60_000;
+
+const trade = (timestamp: number, price: number, overrides: Partial<CandleTrade> = {}): CandleTrade => ({
+  tokenAddress: 'token', type: 'buy', price, solAmount: 1, tokenAmount: 1 / price, timestamp, ...overrides,
+});
+
+const tick = (timestamp: number, price: number): MarketData => ({
+  tokenAddress: 'token', price, priceUSD: price * 100, solPrice: 100, timestamp, source: 'test',
+});
+
+let aggregator: CandleAggregator;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  aggregator = new CandleAggregator({ intervals: ['1m', '5m'], maxTokens: 10, defaultLimit: 10, maxLimit: 100, backfillMaxTrades: 100 });
+});
+
+describe('ingestTrade', () => {
+  test('should fold trades into every interval and count a repeated signature once', () => {
+    const updates: CandleUpdate[] = [];
+    aggregator.on('candle', update => updates.push(update));
+
+    aggregator.ingestTrade(trade(0, 1, { signature: 'a' }));
+    aggregator.ingestTrade(trade(10_000, 3, { signature: 'b', type: 'sell' }));
+    expect(aggregator.ingestTrade(trade(10_000, 3, { signature: 'b', type: 'sell' }))).toBe(false);
+    aggregator.ingestTrade(trade(20_000, 2));
+
+    expect(aggregator.getLatestCandle('token', '1m')).toMatchObject({
+      openTime: 0, open: 1, high: 3, low: 1, close: 2, trades: 3, buyVolumeSol: 2, sellVolumeSol: 1, source: 'trade',
+    });
+    expect(aggregator.getLatestCandle('token', '5m')).toMatchObject({ close: 2, trades: 3 });
+    expect(updates).toHaveLength(6);
+    expect(updates.every(update => !update.closed)).toBe(true);
+  });
+
+  test('should close the previous bucket when the next one starts', () => {
+    const closed: CandleUpdate[] = [];
+    aggregator.on('candle', update => update.closed && closed.push(update));
+
+    aggregator.ingestTrade(trade(0, 1));
+    aggregator.ingestTrade(trade(MINUTE + 1, 2));
+
+    expect(closed.map(update => [update.interval, update.candle.openTime])).toEqual([['1m', 0]]);
+    expect(aggregator.getLatestCandle('token', '1m')).toMatchObject({ openTime: MINUTE, open: 2 });
+  });
+
+  test('should patch an unflushed earlier bucket with a late trade without moving its close', async () => {
+    aggregator.ingestTrade(trade(0, 1));
+    aggregator.ingestTrade(trade(MINUTE + 1, 2));
+    aggregator.ingestTrade(trade(30_000, 5));
+
+    await aggregator.flush();
+    const written = upsert.mock.calls[0][0];
+    expect(written.find((record: any) => record.interval === '1m' && record.openTime.getTime() === 0))
+      .toMatchObject({ high: 5, close: 1, trades: 2 });
+  });
+});
+
+describe('ingestTick', () => {
+  test('should shape tick-only candles until the first trade replaces them', () => {
+    aggregator.ingestTick(tick(0, 1));
+    aggregator.ingestTick(tick(1000, 4));
+    expect(aggregator.getLatestCandle('token', '1m')).toMatchObject({ open: 1, high: 4, close: 4, trades: 0, source: 'tick' });
+
+    aggregator.ingestTrade(trade(2000, 2));
+    aggregator.ingestTick(tick(3000, 9));
+    expect(aggregator.getLatestCandle('token', '1m')).toMatchObject({ open: 2, high: 2, close: 2, trades: 1, source: 'trade' });
+  });
+});
+
+describe('flush', () => {
+  test('should keep candles pending when the write fails', async () => {
+    aggregator.ingestTrade(trade(0, 1));
+    upsert.mockRejectedValueOnce(new Error('database down'));
+
+    expect(await aggregator.flush()).toBe(0);
+    expect(aggregator.getStats().pendingCandles).toBe(2);
+    expect(await aggregator.flush()).toBe(2);
+    expect(aggregator.getStats().pendingCandles).toBe(0);
+  });
+});
+
+describe('getCandles', () => {
+  test('should merge stored candles and rebuild closed gaps from recorded trades', async () => {
+    (findCandles as jest.Mock).mockResolvedValueOnce([{
+      tokenAddress: 'token', interval: '1m', openTime: new Date(0), open: 1, high: 1, low: 1, close: 1,
+      volumeSol: 1, volumeTokens: 1, buyVolumeSol: 1, sellVolumeSol: 0, trades: 1, source: 'trade',
+    }]);
+    (findTradesByTokenInRange as jest.Mock).mockResolvedValueOnce([
+      { type: 'SELL', price: 2, amountSOL: 2, amountTokens: 1, createdAt: new Date(2 * MINUTE + 5), signature: 'x' },
+    ]);
+
+    const candles = await aggregator.getCandles('token', '1m', { from: 0, to: 2 * MINUTE + 10 });
+    expect(candles.map(candle => [candle.openTime, candle.close, candle.source])).toEqual([
+      [0, 1, 'trade'],
+      [2 * MINUTE, 2, 'backfill'],
+    ]);
+    expect(findTradesByTokenInRange).toHaveBeenCalledWith('token', new Date(0), new Date(2 * MINUTE + 10), expect.objectContaining({ isPaper: false }));
+    expect(aggregator.getStats().pendingCandles).toBe(1);
+  });
+});
+
+describe('aggregateTrades', () => {
+  test('should bucket trades in time order and skip repeated signatures', () => {
+    const candles = aggregateTrades([
+      trade(MINUTE + 1, 4, { signature: 'b' }),
+      trade(0, 1, { signature: 'a' }),
+      trade(1, 2, { signature: 'a' }),
+    ], '1m');
+    expect(candles.map(candle => [candle.openTime, candle.close, candle.trades])).toEqual([[0, 1, 1], [MINUTE, 4, 1]]);
+  });
+});
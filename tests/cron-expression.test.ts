@@ -0,0 +1,56 @@
+// ================= CRON EXPRESSION TESTS =================
+import { CronExpression, parseCronExpression } from '../src/trading_utils/CronExpression';
+
+const utc = (iso: string) => Date.parse(iso);
+const iso = (ms: number | null) => (ms === null ? null : new Date(ms).toISOString());
+
+describe('CronExpression', () => {
+  test('should fire on the next matching minute, strictly after the given time', () => {
+    const cron = parseCronExpression('*/15 * * * *');
+    expect(iso(cron.next(utc('2025-01-01T10:07:30Z')))).toBe('2025-01-01T10:15:00.000Z');
+    expect(iso(cron.next(utc('2025-01-01T10:15:00Z')))).toBe('2025-01-01T10:30:00.000Z');
+  });
+
+  test('should roll over hours, days, months and years', () => {
+    expect(iso(parseCronExpression('30 9 * * *').next(utc('2025-01-01T10:00:00Z')))).toBe('2025-01-02T09:30:00.000Z');
+    expect(iso(parseCronExpression('0 0 1 * *').next(utc('2025-01-15T00:00:00Z')))).toBe('2025-02-01T00:00:00.000Z');
+    expect(iso(parseCronExpression('@yearly').next(utc('2025-06-01T00:00:00Z')))).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  test('should accept lists, ranges with steps and month/day names', () => {
+    const cron = parseCronExpression('0 8-18/5 * JAN MON-FRI');
+    // 2025-01-03 is a Friday, the weekend is skipped
+    expect(cron.nextN(utc('2025-01-03T14:00:00Z'), 3).map(iso)).toEqual([
+      '2025-01-03T18:00:00.000Z',
+      '2025-01-06T08:00:00.000Z',
+      '2025-01-06T13:00:00.000Z',
+    ]);
+    expect(iso(parseCronExpression('0 12 * * 7').next(utc('2025-01-01T00:00:00Z')))).toBe('2025-01-05T12:00:00.000Z');
+  });
+
+  test('should fire on either day field when both are restricted', () => {
+    // The 15th, or any Monday
+    const cron = parseCronExpression('0 0 15 * MON');
+    expect(cron.nextN(utc('2025-01-10T00:00:00Z'), 2).map(iso)).toEqual([
+      '2025-01-13T00:00:00.000Z',
+      '2025-01-15T00:00:00.000Z',
+    ]);
+  });
+
+  test('should give up on dates that never occur', () => {
+    expect(parseCronExpression('0 0 31 2 *').next(utc('2025-01-01T00:00:00Z'))).toBeNull();
+    expect(parseCronExpression('0 0 31 2 *').nextN(utc('2025-01-01T00:00:00Z'), 3)).toEqual([]);
+  });
+
+  test('should find leap days', () => {
+    expect(iso(parseCronExpression('0 0 29 2 *').next(utc('2025-01-01T00:00:00Z')))).toBe('2028-02-29T00:00:00.000Z');
+  });
+
+  test('should reject invalid expressions with a readable message', () => {
+    expect(() => new CronExpression('* * * *')).toThrow('expected 5 fields');
+    expect(() => new CronExpression('60 * * * *')).toThrow('minute value "60" must be between 0 and 59');
+    expect(() => new CronExpression('*/0 * * * *')).toThrow('must be a positive integer');
+    expect(() => new CronExpression('0 10-5 * * *')).toThrow('is reversed');
+    expect(() => new CronExpression('0 0 * FOO *')).toThrow('month value "FOO"');
+  });
+});
@@ -0,0 +1,111 @@
+// ================= TWAP/VWAP EXECUTION TEMPLATE TESTS =================
+import { StrategyBuilder, StrategyNotification } from '../src/trading_utils/StrategyBuilder';
+import { createExecutionAlgoStrategy } from '../src/trading_utils/StrategyTemplates';
+import type { TradingProvider } from '../src/trading_utils/TradingProvider';
+
+const TOKEN = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+// Simulated clock and market: every buy moves the price by `impact`
+let clock = 0;
+let price = 0.001;
+let impact = 0;
+let buys: number[] = [];
+const provider = {
+  initialize: async () => true,
+  now: () => clock,
+  sleep: async (ms: number) => { clock += ms; },
+  getMarketData: async (tokenAddress: string) => ({ tokenAddress, price, priceUSD: price * 100, solPrice: 100, timestamp: clock, source: 'test' }),
+  buyTokens: async (amountInSol: number) => {
+    buys.push(amountInSol);
+    price *= 1 + impact;
+    return `buy-${buys.length}`;
+  },
+  sellTokens: async () => 'sell',
+} as unknown as TradingProvider;
+
+const builder = new StrategyBuilder(provider);
+const notifications: StrategyNotification[] = [];
+builder.onNotification(notification => notifications.push(notification));
+let nextId = 0;
+
+const run = async (config: Omit<Parameters<typeof createExecutionAlgoStrategy>[0], 'id' | 'tokenAddress'>) => {
+  const strategy = createExecutionAlgoStrategy({ id: `exec-algo-${nextId++}`, tokenAddress: TOKEN, ...config });
+  builder.registerStrategy(strategy);
+  return builder.executeStrategy(strategy.id);
+};
+
+beforeEach(() => {
+  clock = 0;
+  price = 0.001;
+  impact = 0;
+  buys = [];
+  notifications.length = 0;
+});
+
+describe('TWAP', () => {
+  test('should split the parent into jittered slices that add up to the total', async () => {
+    const result = await run({ totalAmount: 1, slices: 5, durationMinutes: 10, sizeJitterPercentage: 20 });
+
+    expect(result.success).toBe(true);
+    expect(buys.reduce((sum, amount) => sum + amount, 0)).toBeCloseTo(1);
+    expect(buys.length).toBeGreaterThanOrEqual(4);
+    expect(Math.max(...buys)).toBeLessThanOrEqual(1);
+    expect(result.context.variables).toMatchObject({ executionStatus: 'completed', remaining: 0, arrivalPrice: 0.001 });
+    expect(result.context.variables.avgFillPrice).toBeCloseTo(0.001);
+    // Children are spread over the window (2 minutes apart)
+    expect(clock).toBeGreaterThanOrEqual((buys.length - 1) * 120_000);
+    expect(notifications[notifications.length - 1].message).toContain('TWAP BUY completed');
+  });
+
+  test('should halve later children when a child moves the price too far', async () => {
+    impact = 0.05;
+    const result = await run({ totalAmount: 1, slices: 4, durationMinutes: 8, sizeJitterPercentage: 0, maxImpactPercentage: 3 });
+
+    expect(buys[0]).toBeCloseTo(0.25);
+    expect(buys[1]).toBeCloseTo(0.125);
+    expect(notifications.some(notification => notification.level === 'warning' && notification.message.includes('children scaled to 50%'))).toBe(true);
+    // Paid more than arrival on a rising price
+    expect(result.context.variables.executionCostPct).toBeGreaterThan(0);
+  });
+
+  test('should give up at the deadline and report the parent as expired', async () => {
+    const wallClock = jest.spyOn(Date, 'now').mockImplementation(() => clock);
+    try {
+      const result = await run({ totalAmount: 1, slices: 4, durationMinutes: 8, sizeJitterPercentage: 0, maxDurationMinutes: 3 });
+
+      expect(result.context.variables.executionStatus).toBe('expired');
+      expect(result.context.variables.filledAmount).toBeLessThan(1);
+    } finally {
+      wallClock.mockRestore();
+    }
+  });
+});
+
+describe('VWAP', () => {
+  test('should size children from recent market volume', async () => {
+    builder.setTradeFeed({
+      getTokenStats: () => ({ tradeCount: 1 }),
+      getVolumeInWindow: () => ({ buyVolume: 6, sellVolume: 4 }),
+    } as any);
+    try {
+      const result = await run({ mode: 'vwap', totalAmount: 2, participationRate: 0.1, checkIntervalSeconds: 60, sizeJitterPercentage: 0, minChildAmount: 0.1, maxChildAmount: 2 });
+
+      // 10 SOL a minute at 10% participation
+      expect(buys.slice(0, 2)).toEqual([1, 1]);
+      expect(result.context.variables.executionStatus).toBe('completed');
+    } finally {
+      builder.setTradeFeed(undefined as any);
+    }
+  });
+});
+
+describe('createExecutionAlgoStrategy', () => {
+  test('should reject configs that can never execute', () => {
+    const base = { id: 'exec-algo-invalid', tokenAddress: TOKEN, totalAmount: 1 };
+    expect(() => createExecutionAlgoStrategy({ ...base, totalAmount: 0 })).toThrow('Invalid totalAmount');
+    expect(() => createExecutionAlgoStrategy({ ...base, slices: 41 })).toThrow('1-40 slices');
+    expect(() => createExecutionAlgoStrategy({ ...base, mode: 'vwap', participationRate: 1.5 })).toThrow('participationRate');
+    expect(() => createExecutionAlgoStrategy({ ...base, minChildAmount: 2, maxChildAmount: 1 })).toThrow('minChildAmount');
+    expect(() => createExecutionAlgoStrategy({ ...base, sizeJitterPercentage: 100 })).toThrow('sizeJitterPercentage');
+  });
+});
@@ -0,0 +1,54 @@
+// ================= PAPER EXPERIMENT STATISTICS TESTS =================
+import {
+  studentTPValue,
+  pairedPeriodReturns,
+  pairedTTest,
+} from '../src/trading_utils/paper-trading/ExperimentStatistics';
+
+describe('studentTPValue', () => {
+  test('should match Student t tables', () => {
+    expect(studentTPValue(2, 10)).toBeCloseTo(0.0734, 4);
+    expect(studentTPValue(12.706, 1)).toBeCloseTo(0.05, 4);
+    expect(studentTPValue(-2.228, 10)).toBeCloseTo(0.05, 3);
+  });
+
+  test('should approach the normal distribution for large samples', () => {
+    expect(studentTPValue(1.96, 1e6)).toBeCloseTo(0.05, 4);
+  });
+
+  test('should handle degenerate statistics', () => {
+    expect(studentTPValue(0, 5)).toBeCloseTo(1, 10);
+    expect(studentTPValue(Infinity, 5)).toBe(0);
+    expect(studentTPValue(NaN, 5)).toBe(1);
+  });
+});
+
+describe('pairedPeriodReturns', () => {
+  test('should drop periods where either series starts at zero', () => {
+    expect(pairedPeriodReturns([1, 2, 0, 3], [4, 2, 2, 1])).toEqual([[1, -1], [-0.5, 0]]);
+  });
+});
+
+describe('pairedTTest', () => {
+  test('should not decide on fewer than two pairs', () => {
+    expect(pairedTTest([1], [2])).toEqual({ sampleSize: 1, meanDifference: 0, tStatistic: 0, pValue: 1 });
+  });
+
+  test('should find no difference between identical series', () => {
+    expect(pairedTTest([1, 2, 3], [1, 2, 3])).toEqual({ sampleSize: 3, meanDifference: 0, tStatistic: 0, pValue: 1 });
+  });
+
+  test('should treat a constant non-zero difference as certain', () => {
+    expect(pairedTTest([2, 3, 4], [1, 2, 3])).toEqual({ sampleSize: 3, meanDifference: 1, tStatistic: Infinity, pValue: 0 });
+    expect(pairedTTest([1, 2, 3], [2, 3, 4]).tStatistic).toBe(-Infinity);
+  });
+
+  test('should test the mean of the paired differences', () => {
+    // Differences 1, 2, 3: mean 2, standard error 1/sqrt(3)
+    const result = pairedTTest([2, 4, 6, 9], [1, 2, 3]);
+    expect(result.sampleSize).toBe(3);
+    expect(result.meanDifference).toBeCloseTo(2);
+    expect(result.tStatistic).toBeCloseTo(2 * Math.sqrt(3));
+    expect(result.pValue).toBeCloseTo(studentTPValue(2 * Math.sqrt(3), 2));
+  });
+});
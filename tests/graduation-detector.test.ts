@@ -0,0 +1,162 @@
+// ================= GRADUATION DETECTOR TESTS =================
+const markGraduated = jest.fn();
+const findPoolForToken = jest.fn();
+const getMultipleAccountsInfo = jest.fn();
+
+jest.mock('../src/trading_utils/TokenRouter', () => ({ getTokenRouter: () => ({ markGraduated }) }));
+jest.mock('../src/utils/PoolDiscovery', () => ({ PoolDiscovery: jest.fn(() => ({ findPoolForToken })) }));
+jest.mock('@solana/web3.js', () => ({
+  ...jest.requireActual('@solana/web3.js'),
+  Connection: jest.fn(() => ({ getMultipleAccountsInfo })),
+}));
+
+import { EventEmitter } from 'events';
+import { BorshCoder, Idl } from '@coral-xyz/anchor';
+import { PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
+import { IDL as PUMP_IDL } from '../src/idl/pump.idl';
+import { PUMP_FUN_PROGRAM_ID } from '../src/trading_utils/PumpFunIntegration';
+import { GraduationDetector, TokenGraduation } from '../src/trading_utils/graduation';
+
+const MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const POOL = { poolAddress: 'pool-1', tokenMint: MINT, baseMint: MINT, quoteMint: 'So11111111111111111111111111111111111111112', baseDecimals: 6, quoteDecimals: 9 };
+
+const curveAccount = async (complete: boolean, owner: PublicKey = PUMP_FUN_PROGRAM_ID) => ({
+  owner,
+  data: await new BorshCoder(PUMP_IDL as Idl).accounts.encode('bondingCurve', {
+    virtualTokenReserves: new BN(0),
+    virtualSolReserves: new BN(0),
+    realTokenReserves: new BN(0),
+    realSolReserves: new BN(0),
+    tokenTotalSupply: new BN(0),
+    complete,
+  }),
+});
+
+// Trade feed stand-in that records every route switch
+class FakeSource extends EventEmitter {
+  switched: Array<string | null> = [];
+  async switchToGraduatedRoute(graduation: TokenGraduation): Promise<void> {
+    this.switched.push(graduation.poolAddress);
+  }
+}
+
+const nextEvent = (detector: GraduationDetector, event: string) =>
+  new Promise<TokenGraduation>(resolve => detector.once(event, resolve));
+
+let detector: GraduationDetector;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  findPoolForToken.mockResolvedValue(POOL);
+  detector = new GraduationDetector();
+});
+
+afterEach(() => detector.stop());
+
+describe('reportCurveComplete', () => {
+  test('should re-route right away and attach the pool once discovery finds it', async () => {
+    const source = new FakeSource();
+    detector.attachSource(source);
+    let landPool: (pool: typeof POOL) => void = () => {};
+    findPoolForToken.mockReturnValueOnce(new Promise(resolve => { landPool = resolve; }));
+    const poolDiscovered = nextEvent(detector, 'token:pool_discovered');
+
+    const graduation = await detector.reportCurveComplete(MINT, 'manual', 1000);
+    expect(graduation).toMatchObject({ tokenAddress: MINT, poolAddress: null, detectedBy: 'manual', completedAt: 1000 });
+    expect(markGraduated).toHaveBeenCalledWith(MINT, null, graduation.bondingCurveAddress);
+    expect(graduation.bondingCurveAddress).not.toBe('');
+    expect(source.switched).toEqual([null]);
+
+    landPool(POOL);
+    await poolDiscovered;
+    expect(graduation).toMatchObject({ poolAddress: 'pool-1', pool: POOL });
+    expect(markGraduated).toHaveBeenLastCalledWith(MINT, 'pool-1', graduation.bondingCurveAddress);
+    expect(source.switched).toEqual([null, 'pool-1']);
+  });
+
+  test('should share one migration between repeated reports regardless of mint case', async () => {
+    const graduated = jest.fn();
+    detector.on('token:graduated', graduated);
+
+    const [first, second] = await Promise.all([
+      detector.reportCurveComplete(MINT),
+      detector.reportCurveComplete(MINT.toLowerCase()),
+    ]);
+    expect(second).toBe(first);
+    expect(await detector.reportCurveComplete(MINT)).toBe(first);
+    expect(graduated).toHaveBeenCalledTimes(1);
+    expect(detector.getRecentGraduations()).toEqual([first]);
+  });
+
+  test('should pick up completions signalled by the trade feed', async () => {
+    const source = new FakeSource();
+    detector.attachSource(source);
+    const graduated = nextEvent(detector, 'token:graduated');
+
+    source.emit('curve_complete', { tokenAddress: MINT, timestamp: 42 });
+    expect(await graduated).toMatchObject({ tokenAddress: MINT, detectedBy: 'trade', completedAt: 42 });
+  });
+});
+
+describe('watch', () => {
+  test('should graduate watched tokens whose curve account reports complete', async () => {
+    getMultipleAccountsInfo.mockResolvedValueOnce([await curveAccount(true)]);
+    const graduated = nextEvent(detector, 'token:graduated');
+
+    detector.watch(MINT);
+    expect(await graduated).toMatchObject({ tokenAddress: MINT, detectedBy: 'account' });
+  });
+
+  test('should leave tokens alone when the curve is open or not owned by pump.fun', async () => {
+    getMultipleAccountsInfo
+      .mockResolvedValueOnce([await curveAccount(false)])
+      .mockResolvedValueOnce([await curveAccount(true, PublicKey.default)]);
+
+    detector.watch(MINT);
+    detector.unwatch(MINT);
+    detector.watch(MINT);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(getMultipleAccountsInfo).toHaveBeenCalledTimes(2);
+    expect(detector.getGraduation(MINT)).toBeUndefined();
+  });
+
+  test('should count watchers and stop polling when the last one leaves', () => {
+    getMultipleAccountsInfo.mockResolvedValue([null]);
+    detector.watch(MINT);
+    detector.watch(MINT);
+    detector.unwatch(MINT);
+    expect(detector.getWatchedTokens()).toEqual([MINT]);
+    detector.unwatch(MINT);
+    expect(detector.getWatchedTokens()).toEqual([]);
+  });
+});
+
+describe('waitForGraduation', () => {
+  test('should resolve when the token graduates and stop watching it', async () => {
+    getMultipleAccountsInfo.mockResolvedValue([await curveAccount(false)]);
+
+    const waiting = detector.waitForGraduation(MINT, { timeoutMs: 10_000 });
+    await detector.reportCurveComplete(MINT);
+
+    expect(await waiting).toMatchObject({ tokenAddress: MINT });
+    expect(detector.getWatchedTokens()).toEqual([]);
+  });
+
+  test('should give up on timeout or when asked to stop', async () => {
+    getMultipleAccountsInfo.mockResolvedValue([await curveAccount(false)]);
+
+    expect(await detector.waitForGraduation(MINT, { timeoutMs: 20 })).toBeUndefined();
+    expect(await detector.waitForGraduation(MINT, { timeoutMs: 10_000, shouldStop: () => true })).toBeUndefined();
+  });
+
+  test('should keep subscribers across a stop', async () => {
+    const graduated = jest.fn();
+    detector.on('token:graduated', graduated);
+
+    await detector.stop();
+    await detector.reportCurveComplete(MINT);
+    expect(graduated).toHaveBeenCalledTimes(1);
+  });
+});
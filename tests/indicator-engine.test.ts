@@ -0,0 +1,96 @@
+// ================= INDICATOR ENGINE TESTS =================
+import type { RealTradeEvent } from '../src/server/websocket/RealTradeFeedService';
+import { IndicatorBar, IndicatorEngine, atr, bollinger, ema, formatIndicatorSummary, pressure, rsi, sma, vwap } from '../src/trading_utils/indicators';
+
+const bar = (close: number, overrides: Partial<IndicatorBar> = {}): IndicatorBar => ({
+  start: 0, open: close, high: close, low: close, close,
+  volumeSol: 0, volumeTokens: 0, buyVolumeSol: 0, sellVolumeSol: 0, trades: 1,
+  ...overrides,
+});
+
+const trade = (timestamp: number, price: number, type: 'buy' | 'sell' = 'buy', solAmount = 1): RealTradeEvent => ({
+  tokenAddress: 'token', timestamp, price, type, solAmount, tokenAmount: solAmount / price,
+} as RealTradeEvent);
+
+describe('calculations', () => {
+  test('should average, smooth and stay undefined while warming up', () => {
+    expect(sma([1, 2, 3, 4], 2)).toBe(3.5);
+    expect(sma([1], 2)).toBeUndefined();
+    expect(ema([1, 2, 3], 3)).toBe(2);
+    // Seeded with SMA(1, 2) = 1.5, then 2/3 * 3 + 1/3 * 1.5
+    expect(ema([1, 2, 3], 2)).toBeCloseTo(2.5);
+  });
+
+  test('should measure RSI extremes and the neutral flat case', () => {
+    expect(rsi([1, 2, 3, 4], 3)).toBe(100);
+    expect(rsi([4, 3, 2, 1], 3)).toBe(0);
+    expect(rsi([2, 2, 2, 2], 3)).toBe(50);
+    expect(rsi([1, 2, 3], 3)).toBeUndefined();
+    // Average gain 1, average loss 1
+    expect(rsi([1, 2, 1], 2)).toBe(50);
+  });
+
+  test('should build bands, true range, VWAP and pressure from bars', () => {
+    expect(bollinger([1, 3], 2, 2)).toEqual({ upper: 4, middle: 2, lower: 0, stdDev: 1 });
+    // Gap up: true range reaches back to the previous close
+    expect(atr([bar(1), bar(3, { high: 3.5, low: 2.5 })], 1)).toBe(2.5);
+    expect(vwap([bar(1, { volumeSol: 2, volumeTokens: 2 }), bar(2, { volumeSol: 4, volumeTokens: 2 })], 2)).toBe(1.5);
+    expect(vwap([bar(1)], 1)).toBeUndefined();
+    expect(pressure([bar(1, { buyVolumeSol: 3, sellVolumeSol: 1 })], 1)).toEqual({ buyVolume: 3, sellVolume: 1, buyPressure: 0.75, pressureRatio: 3 });
+    expect(pressure([bar(1, { buyVolumeSol: 3 })], 1).pressureRatio).toBe(Infinity);
+  });
+});
+
+describe('IndicatorEngine', () => {
+  const periods = { sma: 3, ema: 3, rsi: 2, bollinger: 3, bollingerStdDev: 2, atr: 2, vwap: 3, pressure: 3 };
+
+  test('should bucket trades into bars and carry quiet intervals forward', () => {
+    const engine = new IndicatorEngine({ barIntervalMs: 1000, maxBars: 10, periods });
+    engine.update(trade(0, 1));
+    engine.update(trade(500, 2, 'sell'));
+    engine.update(trade(3200, 3));
+
+    const bars = engine.getBars('token');
+    expect(bars.map(b => [b.start, b.open, b.close, b.trades])).toEqual([
+      [0, 1, 2, 2],
+      [1000, 2, 2, 0],
+      [2000, 2, 2, 0],
+      [3000, 3, 3, 1],
+    ]);
+    expect(bars[0]).toMatchObject({ high: 2, low: 1, buyVolumeSol: 1, sellVolumeSol: 1 });
+  });
+
+  test('should read the forming bar as the latest close and honour period overrides', () => {
+    const engine = new IndicatorEngine({ barIntervalMs: 1000, maxBars: 10, periods });
+    [1, 2, 3].forEach((price, i) => engine.update(trade(i * 1000, price)));
+
+    expect(engine.getIndicators('token')).toMatchObject({ bars: 3, lastPrice: 3, sma: 2, rsi: 100, buyPressure: 1 });
+    engine.update(trade(2500, 6));
+    expect(engine.getIndicators('token')?.sma).toBe(3);
+    expect(engine.getIndicators('token', { sma: 2 })?.sma).toBe(4);
+    expect(engine.getIndicators('missing')).toBeUndefined();
+  });
+
+  test('should keep late trades out of the close and cap bars and tokens', () => {
+    const engine = new IndicatorEngine({ barIntervalMs: 1000, maxBars: 3, maxTokens: 1, periods });
+    engine.update(trade(1500, 2));
+    engine.update(trade(1200, 5));
+    expect(engine.getBars('token')[0]).toMatchObject({ close: 2, high: 5, trades: 2 });
+
+    engine.update(trade(10_000, 4));
+    expect(engine.getBars('token')).toHaveLength(3);
+
+    engine.update({ ...trade(0, 1), tokenAddress: 'other' });
+    expect(engine.getTrackedTokens()).toEqual(['other']);
+  });
+
+  test('should summarize readings as plain text', () => {
+    const engine = new IndicatorEngine({ barIntervalMs: 60000, maxBars: 10, periods });
+    engine.update(trade(0, 1));
+
+    const summary = formatIndicatorSummary(engine.getIndicators('token')!);
+    expect(summary).toContain('LIVE INDICATORS for token (1 x 1min bars');
+    expect(summary).toContain('SMA(3): n/a (warming up)');
+    expect(summary).toContain('buy/sell ratio: all buys');
+  });
+});
@@ -0,0 +1,85 @@
+// ================= LADDERED EXIT TEMPLATE TESTS =================
+import { StrategyBuilder } from '../src/trading_utils/StrategyBuilder';
+import { createLadderedExitStrategy } from '../src/trading_utils/StrategyTemplates';
+import type { TradingProvider } from '../src/trading_utils/TradingProvider';
+
+const TOKEN = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const CHECK_MS = 10_000;
+
+// Scripted price per check interval (SOL per token); the last price holds
+let clock = 0;
+let path: number[] = [];
+let buys: number[] = [];
+let sells: number[] = [];
+const priceNow = () => path[Math.min(Math.floor(clock / CHECK_MS), path.length - 1)];
+
+const provider = {
+  initialize: async () => true,
+  now: () => clock,
+  sleep: async (ms: number) => { clock += ms; },
+  getMarketData: async (tokenAddress: string) => ({ tokenAddress, price: priceNow(), priceUSD: priceNow() * 100, solPrice: 100, timestamp: clock, source: 'test' }),
+  buyTokens: async (amountInSol: number) => { buys.push(amountInSol); return 'buy'; },
+  sellTokens: async (amountToSell: number) => { sells.push(amountToSell); return 'sell'; },
+} as unknown as TradingProvider;
+
+const builder = new StrategyBuilder(provider);
+let nextId = 0;
+
+const run = async (config: Omit<Parameters<typeof createLadderedExitStrategy>[0], 'id' | 'tokenAddress'>) => {
+  const strategy = createLadderedExitStrategy({ id: `ladder-${nextId++}`, tokenAddress: TOKEN, checkIntervalSeconds: CHECK_MS / 1000, ...config });
+  builder.registerStrategy(strategy);
+  return builder.executeStrategy(strategy.id);
+};
+
+beforeEach(() => {
+  clock = 0;
+  buys = [];
+  sells = [];
+});
+
+describe('createLadderedExitStrategy', () => {
+  test('should scale in on the dip, take profit in a tranche and trail the runner out', async () => {
+    path = [1, 1, 0.9, 0.9, 1.3, 1.5, 1.1];
+    const result = await run({
+      buyAmountSOL: 1,
+      entryLevels: [{ dropPercentage: 0, allocationPercentage: 50 }, { dropPercentage: 10, allocationPercentage: 50 }],
+      takeProfitLevels: [{ profitPercentage: 30, sellPercentage: 25 }],
+      trailingStopPercentage: 20,
+      stopLossPercentage: 25,
+    });
+
+    expect(result.success).toBe(true);
+    expect(buys).toEqual([0.5, 0.5]);
+    const { positionTokens, avgEntryPrice, exitsDone, costSol, exitReason } = result.context.variables;
+    expect(avgEntryPrice).toBeCloseTo(1 / (0.5 / 1 + 0.5 / 0.9));
+    expect(costSol).toBe(1);
+    expect(exitsDone).toBe(1);
+    // A quarter of the position in the tranche, then everything that is left
+    expect(sells[0]).toBeCloseTo((0.5 / 1 + 0.5 / 0.9) * 0.25);
+    expect(sells[sells.length - 1]).toBe(-1);
+    expect(positionTokens).toBe(0);
+    expect(String(exitReason).toLowerCase()).toContain('trailing');
+  });
+
+  test('should stop out below the average entry before any take-profit', async () => {
+    path = [1, 1, 0.7];
+    const result = await run({ buyAmountSOL: 1, stopLossPercentage: 25 });
+
+    expect(buys).toEqual([1]);
+    expect(sells).toEqual([-1]);
+    expect(String(result.context.variables.exitReason).toLowerCase()).toContain('stop');
+    expect(result.context.variables.realizedPnlPct).toBeCloseTo(-30);
+  });
+
+  test('should reject ladders that could never play out', () => {
+    const base = { id: 'ladder-invalid', tokenAddress: TOKEN, buyAmountSOL: 1 };
+    expect(() => createLadderedExitStrategy({ ...base, buyAmountSOL: 0 })).toThrow('Invalid buyAmountSOL');
+    expect(() => createLadderedExitStrategy({ ...base, entryLevels: [{ dropPercentage: 0, allocationPercentage: 60 }] }))
+      .toThrow('add up to 100%');
+    expect(() => createLadderedExitStrategy({ ...base, entryLevels: [{ dropPercentage: 30, allocationPercentage: 100 }], stopLossPercentage: 25 }))
+      .toThrow('smaller than stopLossPercentage');
+    expect(() => createLadderedExitStrategy({ ...base, takeProfitLevels: [{ profitPercentage: 20, sellPercentage: 100 }] }))
+      .toThrow('leave a runner');
+    expect(() => createLadderedExitStrategy({ ...base, maxHoldMinutes: 0 })).toThrow('must be positive');
+  });
+});
@@ -0,0 +1,100 @@
+// ================= LAUNCH SNIPER TESTS =================
+import { LaunchCandidate, LaunchTape, evaluateLaunch, launchTapeReplay, validateLaunchCriteria } from '../src/trading_utils/launches';
+import type { PumpFunLaunchEvent } from '../src/trading_utils/launches';
+import { createLaunchSniperStrategy } from '../src/trading_utils/StrategyTemplates';
+
+const launch = (overrides: Partial<PumpFunLaunchEvent> = {}): PumpFunLaunchEvent => ({
+  mint: 'A'.repeat(44),
+  name: 'Good Cat',
+  symbol: 'GCAT',
+  uri: 'https://example.com/meta.json',
+  creator: 'creator-a',
+  bondingCurve: 'curve',
+  timestamp: 0,
+  initialBuySol: 1,
+  initialBuyTokens: 1000,
+  initialPrice: 0.001,
+  ...overrides,
+});
+
+const candidate = (overrides: Partial<LaunchCandidate> = {}): LaunchCandidate => ({
+  sequence: 1,
+  launch: launch(),
+  metadata: { twitter: 'https://x.com/goodcat' },
+  creatorLaunchCount: 0,
+  ...overrides,
+});
+
+describe('evaluateLaunch', () => {
+  test('should pass a launch that meets every criterion', () => {
+    expect(evaluateLaunch(candidate(), {
+      maxCreatorLaunches: 0, minInitialBuySol: 0.5, maxInitialBuySol: 2, namePattern: 'cat', requireMetadata: ['twitter'], maxLaunchAgeSeconds: 30,
+    }, 10_000)).toEqual({ passed: true, reasons: [] });
+  });
+
+  test('should collect every reason a launch fails', () => {
+    const result = evaluateLaunch(candidate({ creatorLaunchCount: 3, metadata: { twitter: ' ' } }), {
+      maxCreatorLaunches: 1, minInitialBuySol: 2, symbolPattern: '^DOG', excludePattern: 'good', requireMetadata: ['twitter'], maxLaunchAgeSeconds: 5,
+    }, 10_000);
+
+    expect(result.passed).toBe(false);
+    expect(result.reasons).toEqual([
+      'creator has 3 earlier launches (max 1)',
+      'initial buy 1 SOL below 2',
+      'symbol "GCAT" does not match /^DOG/',
+      'name or symbol matches excluded /good/',
+      'metadata missing twitter',
+      'launched 10s ago (max 5s)',
+    ]);
+    expect(evaluateLaunch(candidate({ metadata: undefined }), { requireMetadata: ['image'] }, 0).reasons).toEqual(['metadata unavailable']);
+  });
+});
+
+describe('validateLaunchCriteria', () => {
+  test('should reject criteria that can never be evaluated', () => {
+    expect(() => validateLaunchCriteria({ namePattern: '(' })).toThrow('Invalid namePattern');
+    expect(() => validateLaunchCriteria({ namePattern: '(a+)+$' })).toThrow('backtrack exponentially');
+    expect(() => validateLaunchCriteria({ excludePattern: '(rug|scam)*' })).toThrow('backtrack exponentially');
+    expect(() => validateLaunchCriteria({ requireMetadata: ['discord' as any] })).toThrow('Unknown requireMetadata field(s): discord');
+    expect(() => validateLaunchCriteria({ minInitialBuySol: 2, maxInitialBuySol: 1 })).toThrow('must not exceed');
+    expect(() => validateLaunchCriteria({ namePattern: '^(pepe|cat)\\b', symbolPattern: '[a-z]+' })).not.toThrow();
+  });
+});
+
+describe('launchTapeReplay', () => {
+  test('should skip rejected launches, trade the selected one and report every decision', async () => {
+    const serial = launch({ mint: 'B'.repeat(44), symbol: 'SER', creator: 'serial', timestamp: 1000 });
+    const pick = launch({ mint: 'C'.repeat(44), symbol: 'PICK', creator: 'fresh', timestamp: 2000 });
+    const late = launch({ mint: 'D'.repeat(44), symbol: 'LATE', creator: 'fresh-2', timestamp: 600_000 });
+    const tape: LaunchTape = {
+      creatorHistory: { serial: 5 },
+      solPriceUSD: 100,
+      launches: [
+        { launch: serial, prices: [{ timestamp: 60_000, price: 0.002 }] },
+        // Doubles, then falls back through the trailing stop
+        { launch: pick, prices: [{ timestamp: 30_000, price: 0.0015 }, { timestamp: 60_000, price: 0.0025 }, { timestamp: 90_000, price: 0.0015 }] },
+        { launch: late, prices: [{ timestamp: 700_000, price: 0.001 }] },
+      ],
+    };
+    const strategy = createLaunchSniperStrategy({ id: 'launch-sniper-replay', buyAmountSOL: 1, maxCreatorLaunches: 1, maxSnipes: 1 });
+
+    const result = await launchTapeReplay.runReplay(strategy, tape, { initialBalanceSOL: 10 });
+
+    expect(result.stopReason).toBe('completed');
+    expect(result.decisions.map(decision => [decision.symbol, decision.action])).toEqual([
+      ['SER', 'rejected'],
+      ['PICK', 'selected'],
+      ['LATE', 'missed'],
+    ]);
+    expect(result.decisions[0].reasons).toEqual(['creator has 5 earlier launches (max 1)']);
+    expect(result.trades.every(trade => trade.tokenAddress === pick.mint)).toBe(true);
+    expect(result.trades.map(trade => trade.type)).toEqual(expect.arrayContaining(['buy', 'sell']));
+    expect(result.decisions[1].realizedPnL).toBeGreaterThan(0);
+  });
+
+  test('should refuse strategies that never wait for a launch', async () => {
+    const tape: LaunchTape = { launches: [{ launch: launch() }] };
+    await expect(launchTapeReplay.runReplay({ id: 'no-launch', name: 'No launch', description: '', steps: [], startStepId: '' } as any, tape))
+      .rejects.toThrow('has no waitForLaunch step');
+  });
+});
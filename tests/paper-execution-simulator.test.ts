@@ -0,0 +1,76 @@
+// ================= PAPER EXECUTION SIMULATOR TESTS =================
+import {
+  sampleLatencyMs,
+  applyTradesToReserves,
+  liquidityFillRatio,
+} from '../src/trading_utils/paper-trading/ExecutionSimulator';
+import type { ExecutionLatencyConfig, MarketData, PaperTradingConfig, PoolReserves } from '../src/trading_utils/paper-trading/types';
+import type { RealTradeEvent } from '../src/server/websocket/RealTradeFeedService';
+
+const latency: ExecutionLatencyConfig = { distribution: 'uniform', meanMs: 1000, jitterMs: 500, minMs: 700, maxMs: 5000 };
+
+const reserves: PoolReserves = {
+  venue: 'pumpfun',
+  tokenAddress: 'token',
+  poolAddress: 'pool',
+  solReserves: 100,
+  tokenReserves: 1_000_000,
+  timestamp: 0,
+};
+
+const marketData: MarketData = { tokenAddress: 'token', price: 0.0001, priceUSD: 0.02, solPrice: 200, timestamp: 0, source: 'test' };
+
+const trade = (type: 'buy' | 'sell', solAmount: number, tokenAmount: number, timestamp: number): RealTradeEvent => ({
+  tokenAddress: 'token', type, solAmount, tokenAmount, trader: 'trader', signature: `sig-${timestamp}`, timestamp, price: solAmount / tokenAmount, isRealTrade: true,
+});
+
+describe('sampleLatencyMs', () => {
+  test('should use fixed latencies as set', () => {
+    expect(sampleLatencyMs({ ...latency, distribution: 'fixed', meanMs: 250 })).toBe(250);
+  });
+
+  test('should clamp sampled latencies to the configured range', () => {
+    expect(sampleLatencyMs(latency, () => 0)).toBe(700);
+    expect(sampleLatencyMs(latency, () => 0.5)).toBe(1000);
+    expect(sampleLatencyMs({ ...latency, maxMs: 1200 }, () => 0.999)).toBe(1200);
+  });
+
+  test('should draw empirical samples', () => {
+    expect(sampleLatencyMs({ ...latency, distribution: 'empirical', samplesMs: [800, 2000] }, () => 0.75)).toBe(2000);
+  });
+});
+
+describe('applyTradesToReserves', () => {
+  test('should move reserves by the trades that landed first', () => {
+    const moved = applyTradesToReserves(reserves, [trade('buy', 10, 90_000, 5), trade('sell', 2, 20_000, 9)]);
+    expect(moved.solReserves).toBe(108);
+    expect(moved.tokenReserves).toBe(930_000);
+    expect(moved.timestamp).toBe(9);
+  });
+
+  test('should keep the read when the trades would empty the pool', () => {
+    expect(applyTradesToReserves(reserves, [trade('sell', 150, 10, 1)])).toBe(reserves);
+  });
+});
+
+describe('liquidityFillRatio', () => {
+  const config = { maxPoolSharePercent: 10, minPartialFillPercent: 25 } as PaperTradingConfig;
+
+  test('should fill orders the pool can absorb in full', () => {
+    expect(liquidityFillRatio(config, 5, reserves, marketData)).toEqual({ fillRatio: 1, maxFillSOL: 10 });
+  });
+
+  test('should cut larger orders to a partial fill', () => {
+    expect(liquidityFillRatio(config, 20, reserves, marketData)!.fillRatio).toBeCloseTo(0.5);
+  });
+
+  test('should fail orders below the minimum partial fill', () => {
+    expect(liquidityFillRatio(config, 50, reserves, marketData)!.fillRatio).toBe(0);
+  });
+
+  test('should size the pool from USD liquidity without reserves', () => {
+    // $40k liquidity at $200/SOL is 100 SOL per side
+    expect(liquidityFillRatio(config, 5, null, { ...marketData, liquidity: 40_000 })!.maxFillSOL).toBeCloseTo(10);
+    expect(liquidityFillRatio(config, 5, null, marketData)).toBeNull();
+  });
+});
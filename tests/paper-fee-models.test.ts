@@ -0,0 +1,53 @@
+// ================= PAPER VENUE FEE MODEL TESTS =================
+import {
+  priorityFeeLamports,
+  buildVenueFeeSchedule,
+  fixedFeeSOL,
+  venueFromRoute,
+  getVenueFeeModel,
+} from '../src/trading_utils/paper-trading/FeeModels';
+import { PAPER_FEE_CONFIG } from '../src/trading_utils/config';
+import type { TradingRoute } from '../src/trading_utils/TokenRouter';
+
+const route = (engine: 'pumpfun' | 'jupiter', metadata?: Record<string, unknown>) =>
+  ({ engine, reason: 'test', tokenInfo: { metadata } } as unknown as TradingRoute);
+
+describe('priorityFeeLamports', () => {
+  test('should convert a compute unit price in micro-lamports to lamports for the unit limit', () => {
+    expect(priorityFeeLamports(1_000_000, 200_000)).toBe(200_000);
+    expect(priorityFeeLamports(50_000, 400_000)).toBe(20_000);
+  });
+
+  test('should default to the configured compute unit limit', () => {
+    expect(priorityFeeLamports(1_000_000)).toBe(PAPER_FEE_CONFIG.COMPUTE_UNIT_LIMIT);
+  });
+});
+
+describe('buildVenueFeeSchedule', () => {
+  test('should charge ATA rent only on the first buy of a mint', () => {
+    const firstBuy = buildVenueFeeSchedule('pumpfun', 'buy', { priorityFeeMicroLamports: 0, firstBuy: true });
+    const sell = buildVenueFeeSchedule('pumpfun', 'sell', { priorityFeeMicroLamports: 0, firstBuy: true });
+    expect(firstBuy.ataRentSOL).toBeCloseTo(PAPER_FEE_CONFIG.ATA_RENT_LAMPORTS / 1e9);
+    expect(sell.ataRentSOL).toBe(0);
+  });
+
+  test('should price the priority fee in SOL', () => {
+    const schedule = buildVenueFeeSchedule('raydium', 'sell', { priorityFeeMicroLamports: 1_000_000, firstBuy: false });
+    expect(schedule.swapFeeBps).toBe(PAPER_FEE_CONFIG.RAYDIUM_AMM_V4_FEE_BPS);
+    expect(schedule.priorityFeeSOL).toBeCloseTo(PAPER_FEE_CONFIG.COMPUTE_UNIT_LIMIT / 1e9);
+    expect(fixedFeeSOL(schedule)).toBeCloseTo(schedule.baseFeeSOL + schedule.priorityFeeSOL);
+  });
+});
+
+describe('venueFromRoute', () => {
+  test('should map routes to the venue that executes them', () => {
+    expect(venueFromRoute(route('pumpfun'))).toBe('pumpfun');
+    expect(venueFromRoute(route('jupiter', { raydiumPoolAddress: 'pool' }))).toBe('raydium');
+    expect(venueFromRoute(route('jupiter', { raydiumPoolAddress: 'pool', poolType: 'clmm' }))).toBe('jupiter');
+    expect(venueFromRoute(route('jupiter'))).toBe('jupiter');
+  });
+
+  test('should fall back to the Jupiter model for unknown venues', () => {
+    expect(getVenueFeeModel('unknown' as never).venue).toBe('jupiter');
+  });
+});
@@ -0,0 +1,90 @@
+// ================= PAPER FILL MODEL TESTS =================
+import {
+  curveTokensOut,
+  curveSolOut,
+  reservesSpotPrice,
+  quoteBuyFill,
+  quoteSellFill,
+} from '../src/trading_utils/paper-trading/FillModel';
+import type { PoolReserves, VenueFeeSchedule } from '../src/trading_utils/paper-trading/types';
+
+const config = {
+  enableSlippage: true,
+  slippagePercentage: 1,
+  enableFees: true,
+  tradingFeePercentage: 1,
+  networkFeeSOL: 0.001,
+};
+
+const reserves: PoolReserves = {
+  venue: 'pumpfun',
+  tokenAddress: 'token',
+  poolAddress: 'pool',
+  solReserves: 30,
+  tokenReserves: 1_000_000,
+  timestamp: 0,
+};
+
+describe('constant-product curve', () => {
+  test('should keep x * y constant across a swap', () => {
+    const tokensOut = curveTokensOut(3, reserves);
+    expect((reserves.solReserves + 3) * (reserves.tokenReserves - tokensOut)).toBeCloseTo(30_000_000, 3);
+
+    const solOut = curveSolOut(100_000, reserves);
+    expect((reserves.solReserves - solOut) * (reserves.tokenReserves + 100_000)).toBeCloseTo(30_000_000, 3);
+  });
+
+  test('should price the spot off the reserves', () => {
+    expect(reservesSpotPrice(reserves)).toBeCloseTo(0.00003);
+  });
+});
+
+describe('quoteBuyFill', () => {
+  test('should charge fees first and slip the execution price by the flat percentage', () => {
+    const quote = quoteBuyFill(config, 0.001, 1);
+    expect(quote.tradingFee).toBeCloseTo(0.01);
+    expect(quote.networkFee).toBeCloseTo(0.001);
+    expect(quote.effectiveSOL).toBeCloseTo(0.989);
+    expect(quote.executionPrice).toBeCloseTo(0.00101);
+    expect(quote.tokensReceived).toBeCloseTo(989);
+    expect(quote.priceImpact).toBeUndefined();
+  });
+
+  test('should skip fees and slippage when both are disabled', () => {
+    const quote = quoteBuyFill({ ...config, enableSlippage: false, enableFees: false }, 0.001, 1);
+    expect(quote.totalFees).toBe(0);
+    expect(quote.executionPrice).toBe(0.001);
+    expect(quote.tokensReceived).toBeCloseTo(1000);
+  });
+
+  test('should walk the curve when reserves are supplied', () => {
+    const quote = quoteBuyFill(config, reservesSpotPrice(reserves), 1, reserves);
+    expect(quote.tokensReceived).toBeCloseTo(curveTokensOut(0.989, reserves));
+    expect(quote.executionPrice).toBeCloseTo(0.989 / quote.tokensReceived);
+    expect(quote.priceImpact).toBeGreaterThan(0);
+  });
+
+  test('should use a venue fee schedule over the flat fees', () => {
+    const fees: VenueFeeSchedule = { venue: 'pumpfun', swapFeeBps: 100, baseFeeSOL: 0.000005, priorityFeeSOL: 0.0001, ataRentSOL: 0.002 };
+    const quote = quoteBuyFill(config, 0.001, 1, null, fees);
+    expect(quote.tradingFee).toBeCloseTo(0.01);
+    expect(quote.networkFee).toBeCloseTo(0.002105);
+  });
+});
+
+describe('quoteSellFill', () => {
+  test('should slip the price down and charge fees on the proceeds', () => {
+    const quote = quoteSellFill(config, 0.001, 1000);
+    expect(quote.executionPrice).toBeCloseTo(0.00099);
+    expect(quote.solBeforeFees).toBeCloseTo(0.99);
+    expect(quote.tradingFee).toBeCloseTo(0.0099);
+    expect(quote.solReceived).toBeCloseTo(0.99 - 0.0099 - 0.001);
+  });
+
+  test('should walk the curve when reserves are supplied', () => {
+    const quote = quoteSellFill(config, reservesSpotPrice(reserves), 100_000, reserves);
+    expect(quote.solBeforeFees).toBeCloseTo(curveSolOut(100_000, reserves));
+    expect(quote.executionPrice).toBeLessThan(reservesSpotPrice(reserves));
+    expect(quote.priceImpact).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,103 @@
+// ================= PAPER MULTI-ASSET PORTFOLIO TESTS =================
+import type { MarketData } from '../src/trading_utils/paper-trading/types';
+
+jest.mock('../src/database/dal', () => ({
+  savePaperSessionState: jest.fn(async () => undefined),
+  appendPaperTrades: jest.fn(async () => 0),
+}));
+jest.mock('../src/trading_utils/paper-trading/MarketDataProvider', () => ({
+  marketDataProvider: { fetchTokenPrice: jest.fn(), fetchMultipleTokenPrices: jest.fn(), fetchSolPrice: jest.fn() },
+}));
+
+import { marketDataProvider } from '../src/trading_utils/paper-trading/MarketDataProvider';
+import { PaperTradingEngine } from '../src/trading_utils/paper-trading/PaperTradingEngine';
+import { TOKEN_MINTS } from '../src/trading_utils/config';
+
+const POPCAT = '7GCihgDB8fe6KNjn2MYtkzZcRjQy3t9GHdC8uHYmW2hr';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+const PRICES: Record<string, number> = { [POPCAT]: 0.01, [BONK]: 0.001, [TOKEN_MINTS.SOL]: 1 };
+const SOL_PRICE = 100;
+const SESSION = 'multi-asset-session';
+
+const tick = (tokenAddress: string): MarketData => ({
+  tokenAddress, price: PRICES[tokenAddress], priceUSD: PRICES[tokenAddress] * SOL_PRICE, solPrice: SOL_PRICE, timestamp: Date.now(), source: 'test',
+});
+
+let engine: PaperTradingEngine;
+
+beforeEach(async () => {
+  (marketDataProvider.fetchTokenPrice as jest.Mock).mockImplementation(async (tokenAddress: string) => tick(tokenAddress));
+  (marketDataProvider.fetchMultipleTokenPrices as jest.Mock).mockImplementation(async (tokenAddresses: string[]) =>
+    new Map(tokenAddresses.map(tokenAddress => [tokenAddress, tick(tokenAddress)])));
+  (marketDataProvider.fetchSolPrice as jest.Mock).mockResolvedValue(SOL_PRICE);
+
+  engine = new PaperTradingEngine();
+  await engine.createSession(SESSION, 'user-1', 'strategy-1', {
+    tokenAddress: POPCAT,
+    initialBalanceSOL: 10,
+    initialBalanceUSDC: 500,
+    enableFees: false,
+    enableSlippage: false,
+    enablePriceImpact: false,
+    enableVenueFees: false,
+  });
+});
+
+const buy = (tokenAddress: string, amount: number, quoteCurrency?: 'SOL' | 'USDC') =>
+  engine.executeBuy(SESSION, tokenAddress, amount, 'strategy-1', 'Test strategy', undefined, quoteCurrency ? { quoteCurrency } : undefined);
+const sell = (tokenAddress: string, amount: number) =>
+  engine.executeSell(SESSION, tokenAddress, amount, 'strategy-1', 'Test strategy');
+
+describe('multi-asset positions', () => {
+  test('should hold one position and balance per mint', async () => {
+    await buy(POPCAT, 1);
+    const result = await buy(BONK, 2);
+
+    const { portfolio } = engine.getSession(SESSION)!;
+    expect(portfolio.positions.get(POPCAT)?.amount).toBeCloseTo(100);
+    expect(portfolio.positions.get(BONK)?.amount).toBeCloseTo(2000);
+    expect(portfolio.balances[POPCAT]).toBeCloseTo(100);
+    expect(portfolio.balances[TOKEN_MINTS.SOL]).toBeCloseTo(7);
+    expect(portfolio.balances[TOKEN_MINTS.USDC]).toBe(500);
+    // The trade reports its own mint; the portfolio sums every position
+    expect(result.trade?.balanceTokens).toBeCloseTo(2000);
+    expect(portfolio.balanceTokens).toBeCloseTo(2100);
+  });
+
+  test('should spend USDC on TOKEN/USDC buys and keep the cost basis in SOL', async () => {
+    const result = await buy(POPCAT, 100, 'USDC');
+
+    expect(result.success).toBe(true);
+    expect(result.trade).toMatchObject({ quoteCurrency: 'USDC', amountUSDC: 100, amountSOL: 1 });
+    const { portfolio } = engine.getSession(SESSION)!;
+    expect(portfolio).toMatchObject({ balanceSOL: 10, balanceUSDC: 400 });
+    expect(portfolio.positions.get(POPCAT)).toMatchObject({ totalInvestedSOL: 1, totalInvestedUSD: 100 });
+
+    expect(await buy(BONK, 1000, 'USDC')).toMatchObject({ success: false, error: 'Insufficient USDC balance', insufficientBalance: true });
+  });
+});
+
+describe('SOL/USDC', () => {
+  test('should convert between SOL and USDC without touching token positions', async () => {
+    await buy(POPCAT, 1);
+
+    const toUsdc = await sell(TOKEN_MINTS.SOL, 2);
+    expect(toUsdc.trade).toMatchObject({ tokenAddress: TOKEN_MINTS.SOL, quoteCurrency: 'USDC', balanceTokens: 100 });
+    expect(engine.getSession(SESSION)!.portfolio).toMatchObject({ balanceSOL: 7, balanceUSDC: 700 });
+
+    const toSol = await buy(TOKEN_MINTS.SOL, 300);
+    expect(toSol.trade).toMatchObject({ type: 'buy', amountSOL: 3, amountUSDC: 300 });
+    const { portfolio } = engine.getSession(SESSION)!;
+    expect(portfolio).toMatchObject({ balanceSOL: 10, balanceUSDC: 400 });
+    expect(portfolio.balanceTokens).toBeCloseTo(100);
+    expect(Array.from(portfolio.positions.keys())).toEqual([POPCAT]);
+  });
+
+  test('should convert the whole SOL balance on -1 and reject USDC as a traded token', async () => {
+    await sell(TOKEN_MINTS.SOL, -1);
+    expect(engine.getSession(SESSION)!.portfolio).toMatchObject({ balanceSOL: 0, balanceUSDC: 1500 });
+
+    expect(await sell(TOKEN_MINTS.SOL, 1)).toMatchObject({ success: false, error: 'Insufficient SOL balance' });
+    expect((await buy(TOKEN_MINTS.USDC, 1)).error).toContain('USDC is a quote currency');
+  });
+});
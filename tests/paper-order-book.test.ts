@@ -0,0 +1,170 @@
+// ================= PAPER ORDER BOOK TESTS =================
+import type { MarketData, OrderExecutionResult } from '../src/trading_utils/paper-trading/types';
+
+jest.mock('../src/trading_utils/paper-trading/PaperTradingEngine', () => ({
+  paperTradingEngine: {
+    getSession: jest.fn(),
+    executeBuy: jest.fn(),
+    executeSell: jest.fn(),
+  },
+}));
+jest.mock('../src/trading_utils/paper-trading/MarketDataProvider', () => ({
+  marketDataProvider: { fetchTokenPrice: jest.fn(), fetchSolPrice: jest.fn() },
+}));
+
+import { PaperOrderBook } from '../src/trading_utils/paper-trading/PaperOrderBook';
+import { paperTradingEngine } from '../src/trading_utils/paper-trading/PaperTradingEngine';
+
+const engine = paperTradingEngine as jest.Mocked<typeof paperTradingEngine>;
+const TOKEN = 'TokenMint1111111111111111111111111111111111';
+const SESSION = 'session-1';
+
+const tick = (price: number): MarketData => ({ tokenAddress: TOKEN, price, priceUSD: price * 200, solPrice: 200, timestamp: Date.now(), source: 'test' });
+
+const filled = (executedAmount: number, executionPrice: number): OrderExecutionResult => ({
+  success: true,
+  trade: { id: `trade-${executionPrice}`, executedAmount, executionPrice, timestamp: Date.now() } as OrderExecutionResult['trade'],
+});
+
+let book: PaperOrderBook;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  engine.getSession.mockReturnValue({ isActive: true, metrics: { strategyId: 'manual', strategyName: 'Manual' } } as any);
+  book = new PaperOrderBook();
+});
+
+afterEach(() => {
+  book.clearSession(SESSION); // Stops the price poll
+});
+
+describe('validateOrderRequest', () => {
+  test('should require the prices each order type needs', () => {
+    const base = { tokenAddress: TOKEN, side: 'buy' as const, amount: 1 };
+    expect(book.validateOrderRequest({ ...base, type: 'limit' })).toContain('limitPrice');
+    expect(book.validateOrderRequest({ ...base, type: 'stop_market' })).toContain('stopPrice');
+    expect(book.validateOrderRequest({ ...base, type: 'stop_limit', stopPrice: 1 })).toContain('limitPrice');
+    expect(book.validateOrderRequest({ ...base, type: 'limit', limitPrice: 1, amount: 0 })).toContain('amount');
+    expect(book.validateOrderRequest({ ...base, type: 'limit', limitPrice: 1 })).toBeNull();
+  });
+});
+
+describe('limit orders', () => {
+  test('should rest until the price crosses the limit, then fill at the limit or better', async () => {
+    engine.executeBuy.mockResolvedValue(filled(1, 0.0009));
+    const order = book.placeOrder(SESSION, { tokenAddress: TOKEN, side: 'buy', type: 'limit', amount: 1, limitPrice: 0.001 });
+
+    await book.processTick(tick(0.0011));
+    expect(engine.executeBuy).not.toHaveBeenCalled();
+    expect(order.status).toBe('open');
+
+    await book.processTick(tick(0.0009));
+    expect(engine.executeBuy).toHaveBeenCalledWith(
+      SESSION, TOKEN, 1, 'manual', 'Manual', expect.stringContaining('limit order'),
+      expect.objectContaining({ orderType: 'limit', orderId: order.id, limitPrice: 0.001 })
+    );
+    expect(order).toMatchObject({ status: 'filled', fillPrice: 0.0009, filledAmount: 1 });
+  });
+
+  test('should keep resting when the fill would not clear the limit', async () => {
+    engine.executeSell.mockResolvedValue({ success: false, limitNotMet: true });
+    const order = book.placeOrder(SESSION, { tokenAddress: TOKEN, side: 'sell', type: 'limit', amount: 1000, limitPrice: 0.002 });
+
+    await book.processTick(tick(0.002));
+    expect(engine.executeSell).toHaveBeenCalledTimes(1);
+    expect(order.status).toBe('open');
+  });
+
+  test('should reject orders whose fill fails', async () => {
+    engine.executeBuy.mockResolvedValue({ success: false, error: 'Insufficient SOL balance', insufficientBalance: true });
+    const order = book.placeOrder(SESSION, { tokenAddress: TOKEN, side: 'buy', type: 'limit', amount: 1, limitPrice: 0.001 });
+
+    await book.processTick(tick(0.001));
+    expect(order).toMatchObject({ status: 'rejected', error: 'Insufficient SOL balance' });
+  });
+
+  test('should leave orders resting on paused sessions', async () => {
+    engine.getSession.mockReturnValue({ isActive: false, metrics: {} } as any);
+    const order = book.placeOrder(SESSION, { tokenAddress: TOKEN, side: 'buy', type: 'limit', amount: 1, limitPrice: 0.001 });
+
+    await book.processTick(tick(0.0005));
+    expect(engine.executeBuy).not.toHaveBeenCalled();
+    expect(order.status).toBe('open');
+  });
+});
+
+describe('stop orders', () => {
+  test('should trigger a stop-market sell once the price falls to the stop and fill at market', async () => {
+    engine.executeSell.mockResolvedValue(filled(1000, 0.0008));
+    const order = book.placeOrder(SESSION, { tokenAddress: TOKEN, side: 'sell', type: 'stop_market', amount: 1000, stopPrice: 0.0009 });
+
+    await book.processTick(tick(0.001));
+    expect(order.status).toBe('open');
+
+    await book.processTick(tick(0.0008));
+    expect(engine.executeSell).toHaveBeenCalledWith(
+      SESSION, TOKEN, 1000, 'manual', 'Manual', expect.any(String),
+      expect.objectContaining({ orderType: 'stop_market', limitPrice: undefined })
+    );
+    expect(order.status).toBe('filled');
+    expect(order.triggeredAt).toBeDefined();
+  });
+
+  test('should trigger a stop-limit buy on the stop, then wait for the limit', async () => {
+    engine.executeBuy.mockResolvedValue(filled(1, 0.0012));
+    const order = book.placeOrder(SESSION, { tokenAddress: TOKEN, side: 'buy', type: 'stop_limit', amount: 1, stopPrice: 0.0012, limitPrice: 0.00125 });
+
+    await book.processTick(tick(0.0013));
+    expect(order.status).toBe('triggered');
+    expect(engine.executeBuy).not.toHaveBeenCalled();
+
+    await book.processTick(tick(0.0012));
+    expect(order.status).toBe('filled');
+  });
+});
+
+describe('order lifecycle', () => {
+  test('should modify and cancel working orders only', () => {
+    const order = book.placeOrder(SESSION, { tokenAddress: TOKEN, side: 'buy', type: 'limit', amount: 1, limitPrice: 0.001 });
+
+    book.modifyOrder(SESSION, order.id, { limitPrice: 0.0005 });
+    expect(order.limitPrice).toBe(0.0005);
+    expect(() => book.modifyOrder(SESSION, order.id, { limitPrice: -1 })).toThrow('limitPrice');
+
+    book.cancelOrder(SESSION, order.id);
+    expect(order.status).toBe('cancelled');
+    expect(() => book.cancelOrder(SESSION, order.id)).toThrow('already cancelled');
+  });
+
+  test('should expire orders past their expiry', async () => {
+    const order = book.placeOrder(SESSION, { tokenAddress: TOKEN, side: 'buy', type: 'limit', amount: 1, limitPrice: 0.001, expiresAt: Date.now() + 1000 });
+    order.expiresAt = Date.now() - 1;
+
+    await book.processTick(tick(0.0005));
+    expect(order.status).toBe('expired');
+    expect(engine.executeBuy).not.toHaveBeenCalled();
+  });
+
+  test('should refuse orders on unknown sessions', () => {
+    engine.getSession.mockReturnValue(undefined);
+    expect(() => book.placeOrder('missing', { tokenAddress: TOKEN, side: 'buy', type: 'limit', amount: 1, limitPrice: 0.001 }))
+      .toThrow("session 'missing' not found");
+  });
+});
+
+describe('partial fills', () => {
+  test('should keep a triggered stop-market working and fill the remainder at market', async () => {
+    engine.executeSell
+      .mockResolvedValueOnce(filled(400, 0.0008))
+      .mockResolvedValueOnce(filled(600, 0.0007));
+    const order = book.placeOrder(SESSION, { tokenAddress: TOKEN, side: 'sell', type: 'stop_market', amount: 1000, stopPrice: 0.0009 });
+
+    await book.processTick(tick(0.0008));
+    expect(order).toMatchObject({ status: 'triggered', filledAmount: 400, remainingAmount: 600 });
+
+    // Price recovered above the stop - the remainder still fills
+    await book.processTick(tick(0.00095));
+    expect(engine.executeSell).toHaveBeenLastCalledWith(SESSION, TOKEN, 600, 'manual', 'Manual', expect.any(String), expect.any(Object));
+    expect(order).toMatchObject({ status: 'filled', filledAmount: 1000, remainingAmount: 0 });
+  });
+});
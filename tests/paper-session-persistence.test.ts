@@ -0,0 +1,139 @@
+// ================= PAPER SESSION PERSISTENCE TESTS =================
+import type { MarketData } from '../src/trading_utils/paper-trading/types';
+
+// In-memory stand-ins for the session and trade tables
+const sessionRows = new Map<string, any>();
+const tradeRows = new Map<string, any[]>();
+
+jest.mock('../src/database/dal', () => ({
+  savePaperSessionState: jest.fn(async (input: any) => { sessionRows.set(input.id, { ...input }); }),
+  findRestorablePaperSessions: jest.fn(async () => Array.from(sessionRows.values()).filter(row => row.status !== 'COMPLETED')),
+  findPaperSessionById: jest.fn(async (id: string) => sessionRows.get(id) || null),
+  listPaperSessions: jest.fn(),
+  deletePaperSession: jest.fn(async (id: string) => sessionRows.delete(id)),
+  appendPaperTrades: jest.fn(async (sessionId: string, _userId: string | undefined, trades: any[]) => {
+    const rows = tradeRows.get(sessionId) || [];
+    const fresh = trades.filter(trade => !rows.some(row => row.id === trade.id));
+    tradeRows.set(sessionId, [...rows, ...fresh]);
+    return fresh.length;
+  }),
+  findPaperTradesBySessionId: jest.fn(async (sessionId: string) => tradeRows.get(sessionId) || []),
+  deletePaperTradesBySessionId: jest.fn(async (sessionId: string) => tradeRows.delete(sessionId)),
+}));
+jest.mock('../src/trading_utils/paper-trading/MarketDataProvider', () => ({
+  marketDataProvider: { fetchTokenPrice: jest.fn(), fetchMultipleTokenPrices: jest.fn(), fetchSolPrice: jest.fn() },
+}));
+
+import { appendPaperTrades, savePaperSessionState } from '../src/database/dal';
+import { marketDataProvider } from '../src/trading_utils/paper-trading/MarketDataProvider';
+import { PaperTradingEngine } from '../src/trading_utils/paper-trading/PaperTradingEngine';
+
+const TOKEN = '7GCihgDB8fe6KNjn2MYtkzZcRjQy3t9GHdC8uHYmW2hr';
+const SESSION = 'paper-session-1';
+const append = appendPaperTrades as jest.Mock;
+
+const tick = (price: number): MarketData => ({ tokenAddress: TOKEN, tokenSymbol: 'TKN', price, priceUSD: price * 100, solPrice: 100, timestamp: Date.now(), source: 'test' });
+
+const startSession = async (engine: PaperTradingEngine, sessionId = SESSION) => {
+  await engine.createSession(sessionId, 'user-1', 'strategy-1', {
+    tokenAddress: TOKEN,
+    initialBalanceSOL: 10,
+    initialBalanceUSDC: 0,
+    enablePriceImpact: false,
+    enableVenueFees: false,
+  });
+  await engine.executeBuy(sessionId, TOKEN, 2, 'strategy-1', 'Test strategy');
+  await engine.executeSell(sessionId, TOKEN, 500, 'strategy-1', 'Test strategy');
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  sessionRows.clear();
+  tradeRows.clear();
+  (marketDataProvider.fetchTokenPrice as jest.Mock).mockResolvedValue(tick(0.001));
+  (marketDataProvider.fetchMultipleTokenPrices as jest.Mock).mockResolvedValue(new Map([[TOKEN, tick(0.001)]]));
+  (marketDataProvider.fetchSolPrice as jest.Mock).mockResolvedValue(100);
+});
+
+describe('persistSession', () => {
+  test('should store each trade once and keep trades out of the session row', async () => {
+    const engine = new PaperTradingEngine();
+    await startSession(engine);
+
+    expect(tradeRows.get(SESSION)!.map(row => [row.type, row.metadata.sequence])).toEqual([['BUY', 0], ['SELL', 1]]);
+    expect(append.mock.calls.map(call => call[2].length)).toEqual([0, 1, 1]);
+    const row = sessionRows.get(SESSION);
+    expect(row).toMatchObject({ status: 'ACTIVE', userId: 'user-1', tradeCount: 2 });
+    expect(row.state.trades).toBeUndefined();
+  });
+
+  test('should log a failed write instead of failing the trade', async () => {
+    const engine = new PaperTradingEngine();
+    await engine.createSession(SESSION, 'user-1', 'strategy-1', { tokenAddress: TOKEN, initialBalanceSOL: 10, enablePriceImpact: false, enableVenueFees: false });
+    (savePaperSessionState as jest.Mock).mockRejectedValueOnce(new Error('database down'));
+
+    const result = await engine.executeBuy(SESSION, TOKEN, 1, 'strategy-1', 'Test strategy');
+    expect(result.success).toBe(true);
+  });
+
+  test('should drop stored trades when a session is reset', async () => {
+    const engine = new PaperTradingEngine();
+    await startSession(engine);
+    await engine.resetSession(SESSION);
+
+    expect(tradeRows.get(SESSION) || []).toEqual([]);
+    expect(sessionRows.get(SESSION)).toMatchObject({ tradeCount: 0, currentBalanceSOL: 10 });
+  });
+});
+
+describe('rehydrateSessions', () => {
+  test('should restore balances, positions and trades in order after a restart', async () => {
+    const before = new PaperTradingEngine();
+    await startSession(before);
+    const original = before.getSession(SESSION)!;
+
+    const after = new PaperTradingEngine();
+    expect(await after.rehydrateSessions()).toBe(1);
+    const restored = after.getSession(SESSION)!;
+
+    expect(restored.portfolio).toMatchObject({
+      balanceSOL: original.portfolio.balanceSOL,
+      balanceTokens: original.portfolio.balanceTokens,
+    });
+    expect(restored.portfolio.positions.get(TOKEN)?.amount).toBeCloseTo(original.portfolio.positions.get(TOKEN)!.amount);
+    expect(restored.trades.map(trade => trade.id)).toEqual(original.trades.map(trade => trade.id));
+    expect(restored.isActive).toBe(true);
+
+    // Only the new trade is written after the restore
+    append.mockClear();
+    await after.executeBuy(SESSION, TOKEN, 1, 'strategy-1', 'Test strategy');
+    expect(append.mock.calls[0][2]).toHaveLength(1);
+    expect(append.mock.calls[0][2][0].metadata.sequence).toBe(2);
+  });
+
+  test('should leave ended sessions in the database but still find them by id', async () => {
+    const before = new PaperTradingEngine();
+    await startSession(before);
+    await before.endSession(SESSION);
+
+    const after = new PaperTradingEngine();
+    expect(await after.rehydrateSessions()).toBe(0);
+    expect(after.getSession(SESSION)).toBeUndefined();
+
+    const found = await after.findSession(SESSION);
+    expect(found).toMatchObject({ sessionId: SESSION, isActive: false });
+    expect(found!.trades).toHaveLength(2);
+  });
+
+  test('should load trades stored inline by rows saved before the trades table', async () => {
+    const before = new PaperTradingEngine();
+    await startSession(before);
+    const row = sessionRows.get(SESSION);
+    row.state = { ...row.state, trades: JSON.parse(JSON.stringify(before.getSession(SESSION)!.trades)) };
+    tradeRows.clear();
+
+    const after = new PaperTradingEngine();
+    await after.rehydrateSessions();
+    expect(after.getSession(SESSION)!.trades).toHaveLength(2);
+  });
+});
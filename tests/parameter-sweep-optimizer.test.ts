@@ -0,0 +1,87 @@
+// ================= PARAMETER SWEEP OPTIMIZER TESTS =================
+import { ParameterSweepOptimizer, SweepConfigError } from '../src/trading_utils/backtesting';
+import type { BacktestDataset, ParameterSweepConfig, SweepJob } from '../src/trading_utils/backtesting';
+
+const optimizer = new ParameterSweepOptimizer();
+
+// Steady climb from 0.001 to 0.0016 SOL per token over an hour
+const dataset: BacktestDataset = {
+  tokenAddress: 'token',
+  solPriceUSD: 100,
+  prices: Array.from({ length: 61 }, (_, i) => ({ timestamp: i * 60000, price: 0.001 + i * 0.00001 })),
+};
+
+const sweep = (overrides: Partial<ParameterSweepConfig> = {}): ParameterSweepConfig => ({
+  templateName: 'dca',
+  baseConfig: { tokenAddress: 'token', buyAmountSOL: 0.1, interval: 5 },
+  parameters: [{ name: 'totalTrades', values: [1, 2, 3] }],
+  method: 'grid',
+  objective: 'roi',
+  backtest: {
+    initialBalanceSOL: 10,
+    fillModel: { enableFees: false, enableSlippage: false, enableLatencySimulation: false, enableLiquiditySimulation: false },
+  },
+  ...overrides,
+});
+
+describe('optimize', () => {
+  test('should backtest every grid candidate and rank them best first', async () => {
+    const result = await optimizer.optimize(dataset, sweep());
+
+    expect(result.evaluations).toBe(3);
+    expect(result.ranked.map(candidate => candidate.params.totalTrades).sort()).toEqual([1, 2, 3]);
+    expect(result.ranked.every(candidate => !candidate.error)).toBe(true);
+    expect(result.ranked.find(candidate => candidate.params.totalTrades === 3)?.runs[0].totalTrades).toBe(3);
+    const scores = result.ranked.map(candidate => candidate.score);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    expect(result.best).toBe(result.ranked[0]);
+  });
+
+  test('should rank on train windows and report test windows alongside', async () => {
+    const result = await optimizer.optimize(dataset, sweep({ walkForward: { folds: 2, trainRatio: 0.5 } }));
+
+    expect(result.windows).toHaveLength(2);
+    expect(result.windows[0]).toMatchObject({ fold: 0, trainStart: 0, testStart: result.windows[0].trainEnd });
+    expect(result.windows[1].testEnd).toBe(60 * 60000);
+    for (const candidate of result.ranked) {
+      expect(candidate.runs.map(run => run.sample)).toEqual(['in', 'out', 'in', 'out']);
+      expect(candidate.score).toBe(candidate.inSampleScore);
+      expect(candidate.outOfSampleScore).toBeDefined();
+    }
+    expect(result.walkForward?.folds).toHaveLength(2);
+  });
+
+  test('should sample the same candidates for the same seed', async () => {
+    const config = sweep({ method: 'random', parameters: [{ name: 'buyAmountSOL', min: 0.01, max: 1 }], maxEvaluations: 3, seed: 42 });
+    const first = await optimizer.optimize(dataset, config);
+    const second = await optimizer.optimize(dataset, config);
+
+    expect(first.evaluations).toBe(3);
+    expect(second.ranked.map(candidate => candidate.params)).toEqual(first.ranked.map(candidate => candidate.params));
+  });
+});
+
+describe('sweep validation', () => {
+  test('should reject requests that can never run', () => {
+    expect(() => optimizer.startJob(dataset, sweep({ parameters: [] }))).toThrow(SweepConfigError);
+    expect(() => optimizer.startJob(dataset, sweep({ parameters: [{ name: 'leverage', min: 1, max: 2 }] })))
+      .toThrow("Unknown parameter 'leverage'");
+    expect(() => optimizer.startJob(dataset, sweep({ parameters: [{ name: 'totalTrades', min: 1, max: 5000 }] })))
+      .toThrow('above the registry bound 1000');
+    expect(() => optimizer.startJob(dataset, sweep({ parameters: [{ name: 'totalTrades', min: 1, max: 1000, step: 1 }] })))
+      .toThrow('above the limit of 500');
+    expect(() => optimizer.startJob(dataset, sweep({ walkForward: { folds: 0 } }))).toThrow('folds');
+  });
+});
+
+describe('startJob', () => {
+  test('should run the sweep in the background and keep the result for polling', async () => {
+    const job: SweepJob = optimizer.startJob(dataset, sweep());
+    expect(job.status).toBe('running');
+
+    while (job.status === 'running') {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    expect(optimizer.getJob(job.id)).toMatchObject({ status: 'completed', result: { evaluations: 3 } });
+  });
+});
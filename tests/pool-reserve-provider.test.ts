@@ -0,0 +1,113 @@
+// ================= POOL RESERVE PROVIDER TESTS =================
+import { BorshCoder, Idl } from '@coral-xyz/anchor';
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
+import { IDL as PUMP_IDL } from '../src/idl/pump.idl';
+import { PoolDiscovery } from '../src/utils/PoolDiscovery';
+import { PoolReserveProvider } from '../src/trading_utils/paper-trading/PoolReserveProvider';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const coder = new BorshCoder(PUMP_IDL as Idl);
+
+const bondingCurveData = (complete: boolean) => coder.accounts.encode('bondingCurve', {
+  virtualTokenReserves: new BN('1000000000000000'), // 1B tokens at 6 decimals
+  virtualSolReserves: new BN('30000000000'), // 30 SOL
+  realTokenReserves: new BN(0),
+  realSolReserves: new BN(0),
+  tokenTotalSupply: new BN(0),
+  complete,
+});
+
+// Raydium AMM v4 pool state with SOL as the quote mint
+const raydiumPoolData = (tokenMint: PublicKey, baseVault: PublicKey, quoteVault: PublicKey) => {
+  const data = Buffer.alloc(752);
+  data.writeBigUInt64LE(1_000_000n, 192); // baseNeedTakePnl (1 token at 6 decimals)
+  data.writeBigUInt64LE(0n, 200);
+  baseVault.toBuffer().copy(data, 336);
+  quoteVault.toBuffer().copy(data, 368);
+  tokenMint.toBuffer().copy(data, 400);
+  new PublicKey(SOL_MINT).toBuffer().copy(data, 432);
+  return data;
+};
+
+const mint = Keypair.generate().publicKey;
+const poolAddress = Keypair.generate().publicKey;
+const baseVault = Keypair.generate().publicKey;
+const quoteVault = Keypair.generate().publicKey;
+let curveData: Buffer | null;
+
+const connection = {
+  getAccountInfo: jest.fn(async (address: PublicKey) => {
+    if (address.equals(poolAddress)) {
+      return { data: raydiumPoolData(mint, baseVault, quoteVault) };
+    }
+    return curveData ? { data: curveData } : null;
+  }),
+  getTokenAccountBalance: jest.fn(async (vault: PublicKey) => ({
+    value: vault.equals(baseVault) ? { amount: '501000000', decimals: 6 } : { amount: '5000000000', decimals: 9 },
+  })),
+};
+
+const findPool = jest.spyOn(PoolDiscovery.prototype, 'findPoolForToken');
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  findPool.mockResolvedValue({
+    poolAddress: poolAddress.toString(), tokenMint: mint.toString(), baseMint: mint.toString(), quoteMint: SOL_MINT, baseDecimals: 6, quoteDecimals: 9,
+  });
+});
+
+describe('PoolReserveProvider', () => {
+  test('should read virtual reserves off an active bonding curve', async () => {
+    curveData = await bondingCurveData(false);
+    const provider = new PoolReserveProvider(connection as unknown as Connection);
+
+    const reserves = await provider.getReserves(mint.toString());
+    expect(reserves).toMatchObject({ venue: 'pumpfun', solReserves: 30, tokenReserves: 1_000_000_000 });
+    expect(findPool).not.toHaveBeenCalled();
+  });
+
+  test('should read Raydium vaults, less pool owner PnL, once the curve completes', async () => {
+    curveData = await bondingCurveData(true);
+    const provider = new PoolReserveProvider(connection as unknown as Connection);
+
+    const reserves = await provider.getReserves(mint.toString());
+    expect(reserves).toMatchObject({ venue: 'raydium', poolAddress: poolAddress.toString(), solReserves: 5, tokenReserves: 500 });
+  });
+
+  test('should cache reads briefly', async () => {
+    curveData = await bondingCurveData(false);
+    const provider = new PoolReserveProvider(connection as unknown as Connection);
+
+    await provider.getReserves(mint.toString());
+    await provider.getReserves(mint.toString());
+    expect(connection.getAccountInfo).toHaveBeenCalledTimes(1);
+  });
+
+  test('should give up on slow reads instead of holding up the fill', async () => {
+    jest.useFakeTimers();
+    try {
+      const stalled = { getAccountInfo: () => new Promise(() => {}) };
+      const provider = new PoolReserveProvider(stalled as unknown as Connection);
+
+      const read = provider.getReserves(mint.toString());
+      jest.advanceTimersByTime(2000);
+      expect(await read).toBeNull();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('should not leave the timeout pending once a read settles', async () => {
+    curveData = await bondingCurveData(false);
+    jest.useFakeTimers();
+    try {
+      const provider = new PoolReserveProvider(connection as unknown as Connection);
+
+      await provider.getReserves(mint.toString());
+      expect(jest.getTimerCount()).toBe(0);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
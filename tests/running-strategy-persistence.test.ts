@@ -0,0 +1,133 @@
+// ================= RUNNING STRATEGY PERSISTENCE TESTS =================
+import type { RunningStrategyState } from '../src/database/client';
+
+jest.mock('../src/database/dal', () => ({
+  ...jest.requireActual('../src/database/dal'),
+  saveRunningStrategy: jest.fn(async (input: any) => input),
+  findResumableRunningStrategies: jest.fn(async () => []),
+  updateRunningStrategyStatus: jest.fn(async () => ({})),
+  findRecentLaunchCreators: jest.fn(async () => []),
+}));
+// The real module loads the MPC wallet, whose approval cleanup interval never lets jest exit
+jest.mock('../src/trading_utils/TokenUtils', () => ({
+  getTokenPriceUSD: jest.fn(),
+  getSolPriceUSD: jest.fn(),
+  buyTokens: jest.fn(),
+  sellTokens: jest.fn(),
+}));
+
+import { saveRunningStrategy, findResumableRunningStrategies, updateRunningStrategyStatus } from '../src/database/dal';
+import { StrategyExecutionManager } from '../src/trading_utils/StrategyExecutionManager';
+import { strategyBuilder } from '../src/trading_utils/StrategyBuilder';
+
+const save = saveRunningStrategy as jest.Mock;
+const findResumable = findResumableRunningStrategies as jest.Mock;
+
+const STRATEGY_ID = 'persist-roundtrip';
+strategyBuilder.createStrategy(STRATEGY_ID, 'Persist Roundtrip', 'persistence test', { tokenAddress: 'token' });
+strategyBuilder.addStep(STRATEGY_ID, { id: 'buy', type: 'buy', amountInSol: 0.1, onSuccess: 'sell' });
+strategyBuilder.addStep(STRATEGY_ID, { id: 'sell', type: 'sell', amountToSell: -1 });
+
+const record = (overrides: Partial<RunningStrategyState> = {}): RunningStrategyState => ({
+  id: 'running-1',
+  strategyId: STRATEGY_ID,
+  userId: 'user-1',
+  walletAddress: 'wallet-1',
+  status: 'ACTIVE',
+  mode: 'live',
+  currentStepId: 'buy',
+  pendingStepId: null,
+  variables: { tokenAddress: 'token', entryPrice: 0.001 },
+  stepResults: { buy: { success: true } },
+  executionCount: 4,
+  restartDelay: 5000,
+  trackingEnabled: false,
+  initialBalanceSOL: null,
+  paperTradingSessionId: null,
+  paperSessionConfig: null,
+  lastError: null,
+  startedAt: new Date(1_000_000),
+  lastExecutionAt: new Date(2_000_000),
+  createdAt: new Date(1_000_000),
+  updatedAt: new Date(2_000_000),
+  ...overrides,
+} as RunningStrategyState);
+
+let manager: StrategyExecutionManager;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  manager = new StrategyExecutionManager();
+});
+
+describe('rehydrateStrategies', () => {
+  test('should restore a paused strategy at its checkpoint and write the same state back', async () => {
+    findResumable.mockResolvedValue([record({ status: 'PAUSED' })]);
+
+    const summary = await manager.rehydrateStrategies();
+    expect(summary).toEqual({ resumed: [], paused: ['running-1'], failed: [] });
+
+    const restored = manager.getStrategyStatus('running-1');
+    expect(restored).toMatchObject({ status: 'paused', executionCount: 4, startTime: 1_000_000, lastExecutionTime: 2_000_000 });
+    expect(restored?.currentContext).toMatchObject({ currentStepId: 'buy', variables: { entryPrice: 0.001 } });
+
+    await Promise.resolve();
+    expect(save).toHaveBeenLastCalledWith(expect.objectContaining({
+      id: 'running-1',
+      status: 'PAUSED',
+      mode: 'live',
+      currentStepId: 'buy',
+      pendingStepId: null,
+      variables: { tokenAddress: 'token', entryPrice: 0.001 },
+      stepResults: { buy: { success: true } },
+      executionCount: 4,
+      startedAt: new Date(1_000_000),
+    }));
+  });
+
+  test('should hold a live strategy interrupted mid-trade for the operator', async () => {
+    findResumable.mockResolvedValue([record({ pendingStepId: 'buy' })]);
+
+    const summary = await manager.rehydrateStrategies();
+    expect(summary.paused).toEqual(['running-1']);
+    expect(manager.getStrategyStatus('running-1')).toMatchObject({ status: 'paused', pendingStepId: 'buy' });
+    expect(manager.getStrategyStatus('running-1')?.error).toContain("Interrupted during trade step 'buy'");
+
+    await Promise.resolve();
+    expect(save).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'PAUSED', pendingStepId: 'buy' }));
+  });
+
+  test('should mark records whose strategy definition is gone as failed', async () => {
+    findResumable.mockResolvedValue([record({ strategyId: 'missing-strategy' })]);
+
+    const summary = await manager.rehydrateStrategies();
+    expect(summary.failed).toEqual(['running-1']);
+    expect(updateRunningStrategyStatus).toHaveBeenCalledWith('running-1', 'ERROR', expect.stringContaining('missing-strategy'));
+  });
+
+  test('should return an empty summary when the database is unavailable', async () => {
+    findResumable.mockRejectedValue(new Error('connection refused'));
+    expect(await manager.rehydrateStrategies()).toEqual({ resumed: [], paused: [], failed: [] });
+  });
+});
+
+describe('persistState', () => {
+  test('should store bigint variables as strings', async () => {
+    findResumable.mockResolvedValue([record({ status: 'PAUSED' })]);
+    await manager.rehydrateStrategies();
+
+    manager.getStrategyStatus('running-1')!.currentContext!.variables.lamports = 5n;
+    await manager.persistState('running-1');
+    expect(save).toHaveBeenLastCalledWith(expect.objectContaining({
+      variables: { tokenAddress: 'token', entryPrice: 0.001, lamports: '5' },
+    }));
+  });
+
+  test('should keep the last checkpoint resumable through shutdown', async () => {
+    findResumable.mockResolvedValue([record({ status: 'PAUSED' })]);
+    await manager.rehydrateStrategies();
+
+    await manager.shutdown();
+    expect(save).toHaveBeenLastCalledWith(expect.objectContaining({ id: 'running-1', status: 'PAUSED' }));
+  });
+});
@@ -0,0 +1,119 @@
+// ================= STRATEGY CONTROL FLOW STEP TESTS =================
+import { MAX_STEPS_PER_EXECUTION, StrategyBuilder, StrategyNotification, StrategyStep } from '../src/trading_utils/StrategyBuilder';
+import { createDCAStrategy } from '../src/trading_utils/StrategyTemplates';
+import type { TradingProvider } from '../src/trading_utils/TradingProvider';
+
+let buys = 0;
+let failBuys = 0;
+const provider = {
+  initialize: async () => true,
+  getTokenPriceUSD: async () => ({ success: true, price: 1 }),
+  buyTokens: async () => {
+    if (failBuys > 0) {
+      failBuys--;
+      throw new Error('rejected');
+    }
+    return `buy-${++buys}`;
+  },
+  sellTokens: async () => 'sell',
+  sleep: async () => {},
+} as unknown as TradingProvider;
+
+const builder = new StrategyBuilder(provider);
+const notifications: StrategyNotification[] = [];
+builder.onNotification(notification => notifications.push(notification));
+
+let nextId = 0;
+const run = async (steps: StrategyStep[], variables: Record<string, any> = {}) => {
+  const id = `flow-${nextId++}`;
+  builder.createStrategy(id, id, 'control flow test', { tokenAddress: 'token', ...variables });
+  steps.forEach(step => builder.addStep(id, step));
+  return builder.executeStrategy(id);
+};
+
+beforeEach(() => {
+  buys = 0;
+  failBuys = 0;
+  notifications.length = 0;
+});
+
+describe('setVariable', () => {
+  test('should set literals, computed values and increments', async () => {
+    const result = await run([
+      { id: 'a', type: 'setVariable', variable: 'entry', value: 2, onSuccess: 'b' },
+      { id: 'b', type: 'setVariable', variable: 'target', expression: 'vars.entry * 1.5', onSuccess: 'c' },
+      { id: 'c', type: 'setVariable', variable: 'count', increment: 3 },
+    ]);
+    expect(result.success).toBe(true);
+    expect(result.context.variables).toMatchObject({ entry: 2, target: 3, count: 3 });
+  });
+});
+
+describe('loop', () => {
+  test('should run the body times passes, then continue at onSuccess', async () => {
+    const result = await run([
+      { id: 'loop', type: 'loop', bodyStepId: 'body', times: 3, onSuccess: 'done' },
+      { id: 'body', type: 'setVariable', variable: 'n', increment: 1, onSuccess: 'loop' },
+      { id: 'done', type: 'setVariable', variable: 'finished', value: true },
+    ]);
+    expect(result.context.variables.n).toBe(3);
+    expect(result.context.variables.finished).toBe(true);
+    // Counter is cleared so an enclosing loop can run it again
+    expect(result.context.variables._loop_loop).toBeUndefined();
+  });
+
+  test('should exit once until is true', async () => {
+    const result = await run([
+      { id: 'loop', type: 'loop', bodyStepId: 'body', until: 'vars.n >= 5' },
+      { id: 'body', type: 'setVariable', variable: 'n', increment: 1, onSuccess: 'loop' },
+    ], { n: 0 });
+    expect(result.context.variables.n).toBe(5);
+  });
+});
+
+describe('branch, notify and stop', () => {
+  test('should take the first matching branch, interpolate the message and end the run', async () => {
+    const result = await run([
+      {
+        id: 'route', type: 'branch', onSuccess: 'fallback',
+        branches: [{ when: 'vars.n > 10', goto: 'big' }, { when: 'vars.n > 1', goto: 'report' }],
+      },
+      { id: 'big', type: 'setVariable', variable: 'path', value: 'big' },
+      { id: 'fallback', type: 'setVariable', variable: 'path', value: 'fallback' },
+      { id: 'report', type: 'notify', message: 'n is {{vars.n * 2}}', level: 'warning', onSuccess: 'end' },
+      { id: 'end', type: 'stop', reason: 'done', onSuccess: 'big' },
+    ], { n: 3 });
+    expect(result.context.variables.path).toBeUndefined();
+    expect(result.context.variables._stopReason).toBe('done');
+    expect(notifications).toEqual([expect.objectContaining({ stepId: 'report', level: 'warning', message: 'n is 6' })]);
+  });
+});
+
+describe('DCA executions', () => {
+  test('should count successful buys, not retries', async () => {
+    const strategy = createDCAStrategy({ id: `dca-${nextId++}`, buyAmountSOL: 0.1, intervalMinutes: 1, buyCount: 3, tokenAddress: 'token' });
+    builder.registerStrategy(strategy);
+    failBuys = 2;
+
+    const result = await builder.executeStrategy(strategy.id);
+    expect(result.success).toBe(true);
+    expect(buys).toBe(3);
+    expect(result.context.variables.executionCount).toBe(3);
+  });
+
+  test('should finish the largest count that fits under the step guard in one run', async () => {
+    const maxCount = Math.floor((MAX_STEPS_PER_EXECUTION - 2) / 6);
+    const strategy = createDCAStrategy({ id: `dca-${nextId++}`, buyAmountSOL: 0.1, intervalMinutes: 1, buyCount: maxCount, tokenAddress: 'token' });
+    builder.registerStrategy(strategy);
+
+    const result = await builder.executeStrategy(strategy.id);
+    expect(result.success).toBe(true);
+    expect(buys).toBe(maxCount);
+  });
+
+  test('should reject counts that cannot finish in one run', () => {
+    const maxCount = Math.floor((MAX_STEPS_PER_EXECUTION - 2) / 6);
+    expect(() => createDCAStrategy({ id: `dca-${nextId++}`, buyAmountSOL: 0.1, intervalMinutes: 1, buyCount: maxCount + 1 }))
+      .toThrow(`At most ${maxCount} executions`);
+  });
+});
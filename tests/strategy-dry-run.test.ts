@@ -0,0 +1,113 @@
+// ================= STRATEGY DRY RUN TESTS =================
+import { StrategyBuilder, StrategyNotification, StrategyStep } from '../src/trading_utils/StrategyBuilder';
+import type { TradingProvider } from '../src/trading_utils/TradingProvider';
+import { HistoricalMarketData } from '../src/trading_utils/backtesting/HistoricalMarketData';
+import {
+  DryRunConfigError,
+  DryRunTradingProvider,
+  assessCapitalUsage,
+  buildDryRunPricePath,
+  formatDryRunSummary,
+} from '../src/trading_utils/dryrun';
+
+// Dry runs trade on their own provider, so the builder's is never called
+const builder = new StrategyBuilder({} as TradingProvider);
+let nextId = 0;
+
+const createStrategy = (steps: StrategyStep[], maxPositionSizeSOL = 10) => {
+  const id = `dry-run-${nextId++}`;
+  const strategy = builder.createStrategy(id, id, 'dry run test', { tokenAddress: 'token' });
+  strategy.riskLimits.maxPositionSizeSOL = maxPositionSizeSOL;
+  strategy.riskLimits.maxDailyLossSOL = maxPositionSizeSOL;
+  steps.forEach(step => builder.addStep(id, step));
+  return strategy;
+};
+
+const buyWaitSell: StrategyStep[] = [
+  { id: 'buy', type: 'buy', amountInSol: 1, onSuccess: 'pause' },
+  { id: 'pause', type: 'wait', durationMs: 120000, onSuccess: 'sell' },
+  { id: 'sell', type: 'sell', amountToSell: -1 },
+];
+
+describe('buildDryRunPricePath', () => {
+  test('should convert a supplied USD path to TOKEN/SOL ticks', () => {
+    const strategy = createStrategy(buyWaitSell);
+    const { dataset, pricePath } = buildDryRunPricePath(strategy, { prices: [1, 2, 0.5], intervalMs: 1000, solPriceUSD: 100 }, 0);
+    expect(dataset.prices.map(tick => tick.timestamp)).toEqual([0, 1000, 2000]);
+    expect(dataset.prices[1].price).toBeCloseTo(0.02);
+    expect(pricePath).toMatchObject({ source: 'supplied', points: 3, minPrice: 0.5, maxPrice: 2 });
+  });
+
+  test('should build the same synthetic path for the same seed', () => {
+    const strategy = createStrategy(buyWaitSell);
+    const first = buildDryRunPricePath(strategy, { synthetic: { seed: 7, points: 20 } }, 0);
+    const second = buildDryRunPricePath(strategy, { synthetic: { seed: 7, points: 20 } }, 0);
+    expect(first.dataset.prices).toEqual(second.dataset.prices);
+    expect(first.pricePath.seed).toBe(7);
+  });
+
+  test('should reject paths that can never be built', () => {
+    const strategy = createStrategy(buyWaitSell);
+    expect(() => buildDryRunPricePath(strategy, { prices: [1, -1] }, 0)).toThrow(DryRunConfigError);
+    expect(() => buildDryRunPricePath(strategy, { intervalMs: 0 }, 0)).toThrow(DryRunConfigError);
+  });
+});
+
+describe('assessCapitalUsage', () => {
+  test('should flag orders and exposure above the risk limits', () => {
+    const riskLimits = { maxPositionSizeSOL: 1, maxDailyLossSOL: 0.5, stopLossPercentage: 10, takeProfitPercentage: 20, maxConcurrentTrades: 1, cooldownPeriodMs: 0 };
+    const usage = assessCapitalUsage([], 2, riskLimits, { maxStaticOrderSOL: 2, repeatingBuySteps: [] });
+    expect(usage.worstCaseLossSOL).toBe(2);
+    expect(usage.violations).toHaveLength(3);
+  });
+});
+
+describe('dryRunStrategy', () => {
+  test('should record orders on the simulated clock without trading', async () => {
+    const strategy = createStrategy(buyWaitSell);
+    const result = await builder.dryRunStrategy(strategy.id, { prices: [1, 1.5, 2, 2.5], intervalMs: 60000 });
+
+    expect(result.stopReason).toBe('completed');
+    expect(result.orders.map(order => [order.side, order.elapsedMs, order.priceUSD])).toEqual([
+      ['buy', 0, 1],
+      ['sell', 120000, 2],
+    ]);
+    expect(result.timeline.map(entry => entry.stepId)).toEqual(['buy', 'pause', 'sell']);
+    expect(result.capital.totalBuySOL).toBe(1);
+    expect(formatDryRunSummary(result)).toContain('the strategy ran to its last step');
+  });
+
+  test('should stop at steps that wait on live feeds', async () => {
+    const strategy = createStrategy([
+      { id: 'launch', type: 'waitForLaunch', onSuccess: 'buy' } as StrategyStep,
+      { id: 'buy', type: 'buy', amountInSol: 1 },
+    ]);
+    const result = await builder.dryRunStrategy(strategy.id, { prices: [1, 1] });
+    expect(result.stopReason).toBe('needs_live_feed');
+    expect(result.orders).toEqual([]);
+    expect(result.liveFeedSteps).toEqual(['launch']);
+  });
+
+  test('should report an unreachable step', async () => {
+    const strategy = createStrategy([...buyWaitSell, { id: 'orphan', type: 'buy', amountInSol: 1 }]);
+    const result = await builder.dryRunStrategy(strategy.id, { prices: [1, 1, 1] });
+    expect(result.unreachableSteps).toEqual(['orphan']);
+  });
+});
+
+describe('notify on a simulated clock', () => {
+  test('should stamp notifications with the provider clock', async () => {
+    const strategy = createStrategy([
+      { id: 'pause', type: 'wait', durationMs: 60000, onSuccess: 'report' },
+      { id: 'report', type: 'notify', message: 'tick' },
+    ]);
+    const { dataset } = buildDryRunPricePath(strategy, { prices: [1, 1, 1], intervalMs: 60000 }, 1_000_000);
+    const replay = new StrategyBuilder(new DryRunTradingProvider(new HistoricalMarketData(dataset)));
+    replay.registerStrategy(strategy);
+    const notifications: StrategyNotification[] = [];
+    replay.onNotification(notification => notifications.push(notification));
+
+    await replay.executeStrategy(strategy.id);
+    expect(notifications.map(notification => notification.timestamp)).toEqual([1_060_000]);
+  });
+});
@@ -0,0 +1,105 @@
+// ================= STRATEGY EXPRESSION LANGUAGE TESTS =================
+import {
+  parseExpression,
+  checkExpression,
+  evaluateExpression,
+  evaluateCondition,
+  ExpressionError,
+} from '../src/trading_utils/StrategyExpression';
+
+const evaluate = (source: string, scope: Record<string, unknown> = {}) =>
+  evaluateExpression(parseExpression(source), scope);
+
+describe('parseExpression', () => {
+  test('should collect the root identifiers an expression reads', () => {
+    const compiled = parseExpression('price < vars.entry * 0.9 && volume5m > 20');
+    expect(Array.from(compiled.identifiers).sort()).toEqual(['price', 'vars', 'volume5m']);
+  });
+
+  test('should reject malformed source', () => {
+    expect(() => parseExpression('price <')).toThrow(ExpressionError);
+    expect(() => parseExpression('(price > 1')).toThrow(ExpressionError);
+  });
+});
+
+describe('evaluateExpression', () => {
+  test('should follow arithmetic precedence', () => {
+    expect(evaluate('1 + 2 * 3 - 4 / 2')).toBe(5);
+    expect(evaluate('-(2 + 3) % 4')).toBe(-1);
+  });
+
+  test('should read nested variables and step results', () => {
+    const scope = { vars: { copyTokens: { mint: 3 }, key: 'mint' }, steps: { buy: { data: { price: 2 } } } };
+    expect(evaluate('vars.copyTokens[vars.key]', scope)).toBe(3);
+    expect(evaluate('steps.buy.data.price * 2', scope)).toBe(4);
+  });
+
+  test('should read missing paths as undefined so defined() can guard them', () => {
+    expect(evaluate('steps.buy.data.price', { steps: {} })).toBeUndefined();
+    expect(evaluate('defined(steps.buy) ? steps.buy.data.price : 0', { steps: {} })).toBe(0);
+    expect(evaluate('defined(vars.entry)', { vars: { entry: null } })).toBe(false);
+  });
+
+  test('should not expose prototype properties', () => {
+    expect(evaluate('vars.constructor', { vars: {} })).toBeUndefined();
+    expect(evaluate('vars["__proto__"]', { vars: {} })).toBeUndefined();
+    expect(evaluate('vars.toString', { vars: {} })).toBeUndefined();
+  });
+
+  test('should only evaluate the chosen branch of a conditional', () => {
+    // The untaken branch would throw on arithmetic with undefined
+    expect(evaluate('defined(vars.entry) ? vars.entry * 2 : -1', { vars: {} })).toBe(-1);
+    expect(evaluate('true ? 1 : false ? 2 : 3')).toBe(1);
+    expect(evaluate('false ? 1 : false ? 2 : 3')).toBe(3);
+  });
+
+  test('should short-circuit && and ||', () => {
+    expect(evaluate('false && vars.missing > 1', { vars: {} })).toBe(false);
+    expect(evaluate('true || vars.missing > 1', { vars: {} })).toBe(true);
+  });
+
+  test('should concatenate and compare strings', () => {
+    expect(evaluate('"a" + "b"')).toBe('ab');
+    expect(evaluate('vars.reason == "stop"', { vars: { reason: 'stop' } })).toBe(true);
+  });
+
+  test('should evaluate whitelisted functions', () => {
+    expect(evaluate('pct(110, 100)')).toBeCloseTo(10);
+    expect(evaluate('round(1.2345, 2)')).toBe(1.23);
+    expect(evaluate('max(1, 5, 3) - min(4, 2)')).toBe(3);
+  });
+
+  test('should throw ExpressionError on runtime type errors', () => {
+    expect(() => evaluate('vars.missing + 1', { vars: {} })).toThrow(ExpressionError);
+    expect(() => evaluate('!1')).toThrow(ExpressionError);
+    expect(() => evaluate('nope(1)')).toThrow(ExpressionError);
+  });
+});
+
+describe('evaluateCondition', () => {
+  test('should require a boolean result', () => {
+    expect(evaluateCondition(parseExpression('price > 1'), { price: 2 })).toBe(true);
+    expect(() => evaluateCondition(parseExpression('price'), { price: 2 })).toThrow(ExpressionError);
+  });
+});
+
+describe('checkExpression', () => {
+  test('should accept well-typed conditions', () => {
+    expect(checkExpression('price < vars.entry * 0.9 && volume5m > 20')).toEqual([]);
+  });
+
+  test('should report unknown names and wrong result types', () => {
+    expect(checkExpression('unknownThing > 1').length).toBeGreaterThan(0);
+    expect(checkExpression('price + 1').length).toBeGreaterThan(0);
+    expect(checkExpression('price + 1', 'number')).toEqual([]);
+  });
+
+  test('should return parse errors instead of throwing', () => {
+    expect(checkExpression('price <')).toHaveLength(1);
+  });
+
+  test('should reject Object.prototype members as function names', () => {
+    expect(checkExpression('toString(1)', 'any')).toEqual([expect.stringContaining("Unknown function 'toString'")]);
+    expect(checkExpression('constructor(1) == 1')).toEqual([expect.stringContaining("Unknown function 'constructor'")]);
+  });
+});
@@ -0,0 +1,88 @@
+// ================= STRATEGY GRAPH VALIDATION TESTS =================
+import { StrategyBuilder, StrategyStep } from '../src/trading_utils/StrategyBuilder';
+import type { TradingProvider } from '../src/trading_utils/TradingProvider';
+
+// Validation never trades, so the provider is never called
+const builder = new StrategyBuilder({} as TradingProvider);
+let nextId = 0;
+
+const validate = (steps: StrategyStep[], maxPositionSizeSOL = 1) => {
+  const id = `graph-${nextId++}`;
+  const strategy = builder.createStrategy(id, id, 'graph validation test', { tokenAddress: 'token' });
+  strategy.riskLimits.maxPositionSizeSOL = maxPositionSizeSOL;
+  steps.forEach(step => builder.addStep(id, step));
+  return builder.validateStrategy(id);
+};
+
+const busyLoopErrors = (steps: StrategyStep[]) =>
+  validate(steps).filter(error => error.message.includes('busy-spin'));
+
+describe('busy loop detection', () => {
+  test('should reject a cycle without a wait step', () => {
+    const errors = busyLoopErrors([
+      { id: 'count', type: 'setVariable', variable: 'n', increment: 1, onSuccess: 'check' },
+      { id: 'check', type: 'condition', condition: 'expression', expression: 'vars.n > 1000000', onSuccess: 'done', onFailure: 'count' },
+      { id: 'done', type: 'stop' } as StrategyStep,
+    ]);
+    // Leaving the cycle depends on a condition that may never become true
+    expect(errors).toHaveLength(1);
+    expect(errors[0].severity).toBe('error');
+    expect(errors[0].stepId).toBe('count');
+  });
+
+  test('should accept a cycle through a wait step', () => {
+    expect(busyLoopErrors([
+      { id: 'count', type: 'setVariable', variable: 'n', increment: 1, onSuccess: 'pause' },
+      { id: 'pause', type: 'wait', durationMs: 1000, onSuccess: 'count' },
+    ])).toEqual([]);
+  });
+
+  test('should accept a loop body bounded by times', () => {
+    expect(busyLoopErrors([
+      { id: 'repeat', type: 'loop', times: 5, bodyStepId: 'count', onSuccess: 'done' },
+      { id: 'count', type: 'setVariable', variable: 'n', increment: 1, onSuccess: 'repeat' },
+      { id: 'done', type: 'stop' } as StrategyStep,
+    ])).toEqual([]);
+  });
+
+  test('should reject a loop body bounded only by until', () => {
+    expect(busyLoopErrors([
+      { id: 'repeat', type: 'loop', until: 'vars.n >= 5', bodyStepId: 'count', onSuccess: 'done' },
+      { id: 'count', type: 'setVariable', variable: 'n', increment: 1, onSuccess: 'repeat' },
+      { id: 'done', type: 'stop' } as StrategyStep,
+    ])).toHaveLength(1);
+  });
+});
+
+describe('graph warnings', () => {
+  test('should warn about unreachable steps and sells before any buy', () => {
+    const errors = validate([
+      { id: 'sell', type: 'sell', amountToSell: -1, onSuccess: 'done' },
+      { id: 'done', type: 'stop' } as StrategyStep,
+      { id: 'orphan', type: 'wait', durationMs: 1000, onSuccess: 'done' },
+    ]);
+    expect(errors).toEqual(expect.arrayContaining([
+      expect.objectContaining({ stepId: 'orphan', message: 'Step is unreachable from start step', severity: 'warning' }),
+      expect.objectContaining({ stepId: 'sell', message: 'Sell step can run before any buy step', severity: 'warning' }),
+    ]));
+  });
+
+  test('should warn when buys on one path spend more than maxPositionSizeSOL', () => {
+    const steps: StrategyStep[] = [
+      { id: 'first', type: 'buy', amountInSol: 0.6, onSuccess: 'pause' },
+      { id: 'pause', type: 'wait', durationMs: 1000, onSuccess: 'second' },
+      { id: 'second', type: 'buy', amountInSol: 0.6, onSuccess: 'done' },
+      { id: 'done', type: 'stop' } as StrategyStep,
+    ];
+    expect(validate(steps).some(error => error.message.includes('spend up to 1.2 SOL'))).toBe(true);
+    expect(validate(steps, 2).some(error => error.errorType === 'risk')).toBe(false);
+  });
+
+  test('should warn when a buy can repeat', () => {
+    const errors = validate([
+      { id: 'buy', type: 'buy', amountInSol: 0.1, onSuccess: 'pause' },
+      { id: 'pause', type: 'wait', durationMs: 1000, onSuccess: 'buy' },
+    ]);
+    expect(errors).toContainEqual(expect.objectContaining({ stepId: 'buy', errorType: 'risk', severity: 'warning' }));
+  });
+});
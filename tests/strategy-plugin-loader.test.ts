@@ -0,0 +1,151 @@
+// ================= STRATEGY PLUGIN LOADER TESTS =================
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { StrategyPluginManager } from '../src/trading_utils/StrategyPlugin';
+import { StrategyPluginLoader, satisfiesVersion } from '../src/trading_utils/StrategyPluginLoader';
+import { strategyRegistry } from '../src/trading_utils/StrategyRegistry';
+
+let pluginsDir: string;
+let manager: StrategyPluginManager;
+let loader: StrategyPluginLoader;
+let nextType = 0;
+
+// Plugin package on disk; the entry is a createPlugin factory that echoes its config
+const writePackage = (name: string, options: { version?: string; type?: string; main?: string; manifest?: Record<string, any>; config?: Record<string, any> } = {}) => {
+  const directory = path.join(pluginsDir, name);
+  const version = options.version || '1.0.0';
+  const type = options.type || `plugin_type_${nextType++}`;
+  const main = options.main || 'index.js';
+  fs.mkdirSync(directory, { recursive: true });
+  fs.writeFileSync(path.join(directory, 'plugin.json'), JSON.stringify({
+    name, version, pluginApi: '^3.0.0', strategyTypes: [type], main,
+    configSchema: [{ name: 'threshold', type: 'number', required: false, description: 'test', defaultValue: 5, validation: { max: 10 } }],
+    ...options.manifest,
+  }));
+  if (options.config) {
+    fs.writeFileSync(path.join(directory, 'config.json'), JSON.stringify(options.config));
+  }
+  fs.writeFileSync(path.join(directory, main), `
+    exports.createPlugin = (config) => ({
+      name: ${JSON.stringify(name)},
+      version: ${JSON.stringify(version)},
+      author: 'tests',
+      configChanges: [],
+      getStrategyDefinition: () => ({
+        type: ${JSON.stringify(type)}, displayName: ${JSON.stringify(name)}, description: 'test plugin', category: 'custom',
+        fields: [], aiPromptHint: '', aiDetectionKeywords: [], exampleInputs: [], exampleConfig: {},
+        riskLevel: 'low', recommendedFor: [], version: ${JSON.stringify(version)},
+      }),
+      execute: async () => ({ success: true, metadata: { threshold: config.threshold } }),
+      async onConfigChange(oldConfig, newConfig) { this.configChanges.push([oldConfig.threshold, newConfig.threshold]); },
+    });
+  `);
+  return { directory, type };
+};
+
+const waitFor = async (condition: () => boolean, timeoutMs = 5000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition() && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+  return condition();
+};
+
+beforeEach(() => {
+  pluginsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'strategy-plugins-'));
+  manager = new StrategyPluginManager();
+  loader = new StrategyPluginLoader(manager, { pluginsDir, allowedPermissions: ['market-data'] });
+});
+
+afterEach(async () => {
+  loader.stopWatching();
+  for (const loaded of loader.getLoadedPackages()) {
+    await loader.unloadPackage(loaded.directory);
+  }
+  fs.rmSync(pluginsDir, { recursive: true, force: true });
+});
+
+describe('loadAll', () => {
+  test('should register valid packages and report broken ones without blocking them', async () => {
+    const { type } = writePackage('good', { config: { threshold: 7 } });
+    writePackage('future', { manifest: { pluginApi: '^4.0.0' } });
+    writePackage('greedy', { manifest: { permissions: ['wallet'] } });
+    writePackage('misconfigured', { config: { threshold: 50 } });
+    writePackage('mislabelled', { manifest: { strategyTypes: ['something_else'] } });
+
+    const report = await loader.loadAll();
+
+    expect(report.loaded.map(loaded => loaded.manifest.name)).toEqual(['good']);
+    expect(report.loaded[0].config).toEqual({ threshold: 7 });
+    expect(strategyRegistry.has(type)).toBe(true);
+    expect(await manager.getPlugin('good')!.execute({}, {} as any)).toMatchObject({ metadata: { threshold: 7 } });
+
+    const errors = Object.fromEntries(report.failed.map(failure => [path.basename(failure.directory), failure.error]));
+    expect(errors.future).toContain('requires plugin API ^4.0.0');
+    expect(errors.greedy).toContain('not allowed: wallet');
+    expect(errors.misconfigured).toContain('threshold must be <= 10');
+    expect(errors.mislabelled).toContain('registers undeclared strategy types');
+  });
+
+  test('should read the manifest from package.json when there is no plugin.json', async () => {
+    const { directory, type } = writePackage('from-package');
+    const manifest = JSON.parse(fs.readFileSync(path.join(directory, 'plugin.json'), 'utf8'));
+    fs.unlinkSync(path.join(directory, 'plugin.json'));
+    const { name, version, main, ...strategyPlugin } = manifest;
+    fs.writeFileSync(path.join(directory, 'package.json'), JSON.stringify({ name, version, main, strategyPlugin }));
+
+    const report = await loader.loadAll();
+    expect(report.failed).toEqual([]);
+    expect(strategyRegistry.has(type)).toBe(true);
+  });
+
+  test('should keep the running version when an update fails to load', async () => {
+    const { directory } = writePackage('stable');
+    await loader.loadPackage(directory);
+
+    writePackage('stable', { version: '2.0.0', manifest: { pluginApi: '^9.0.0' } });
+    await expect(loader.loadPackage(directory)).rejects.toThrow('requires plugin API');
+    expect(manager.getPlugin('stable')?.version).toBe('1.0.0');
+  });
+});
+
+describe('hot reload', () => {
+  test('should push config.json edits to the running plugin without reloading it', async () => {
+    const { directory } = writePackage('tunable');
+    await loader.loadAll();
+    const plugin = manager.getPlugin('tunable') as any;
+    loader.watch();
+
+    fs.writeFileSync(path.join(directory, 'config.json'), JSON.stringify({ threshold: 9 }));
+
+    expect(await waitFor(() => plugin.configChanges.length > 0)).toBe(true);
+    expect(plugin.configChanges).toEqual([[5, 9]]);
+    expect(manager.getPlugin('tunable')).toBe(plugin);
+  });
+
+  test('should swap in new code and drop removed packages', async () => {
+    const { directory, type } = writePackage('evolving');
+    await loader.loadAll();
+    loader.watch();
+
+    writePackage('evolving', { version: '1.1.0', type, main: 'index-1.1.0.js' });
+    expect(await waitFor(() => manager.getPlugin('evolving')?.version === '1.1.0')).toBe(true);
+
+    fs.rmSync(directory, { recursive: true, force: true });
+    expect(await waitFor(() => !manager.getPlugin('evolving'))).toBe(true);
+    expect(strategyRegistry.has(type)).toBe(false);
+  });
+});
+
+describe('satisfiesVersion', () => {
+  test('should match caret, tilde, comparator and alternative ranges', () => {
+    expect(satisfiesVersion('3.1.0', '^3.0.0')).toBe(true);
+    expect(satisfiesVersion('4.0.0', '^3.0.0')).toBe(false);
+    expect(satisfiesVersion('0.3.0', '^0.2.0')).toBe(false);
+    expect(satisfiesVersion('3.0.5', '~3.0.1')).toBe(true);
+    expect(satisfiesVersion('3.1.0', '>=3.0.0 <3.1.0')).toBe(false);
+    expect(satisfiesVersion('2.5.0', '^1.0.0 || ^2.0.0')).toBe(true);
+    expect(satisfiesVersion('3.0.0', '*')).toBe(true);
+  });
+});
@@ -0,0 +1,57 @@
+// ================= PER-STEP TOKEN TESTS =================
+import { StrategyBuilder, StrategyStep } from '../src/trading_utils/StrategyBuilder';
+import type { TradingProvider } from '../src/trading_utils/TradingProvider';
+
+const STRATEGY_TOKEN = 'So11111111111111111111111111111111111111112';
+const ROTATION_TOKEN = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+const provider = {
+  initialize: async () => true,
+  buyTokens: jest.fn(async (_amountInSol: number, _context?: any, _tokenAddress?: string) => 'buy-signature'),
+  sellTokens: jest.fn(async (_amountToSell: number, _context?: any, _tokenAddress?: string) => 'sell-signature'),
+  getMarketData: jest.fn(async (tokenAddress: string) => ({
+    tokenAddress, price: 0.001, priceUSD: 0.2, solPrice: 200, timestamp: 0, source: 'test',
+  })),
+  sleep: async () => {},
+};
+
+const builder = new StrategyBuilder(provider as unknown as TradingProvider);
+let nextId = 0;
+
+const createStrategy = (steps: StrategyStep[]) => {
+  const id = `step-token-${nextId++}`;
+  builder.createStrategy(id, id, 'per-step token test', { tokenAddress: STRATEGY_TOKEN });
+  steps.forEach(step => builder.addStep(id, step));
+  return id;
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('per-step tokenAddress', () => {
+  test('should trade and price the step token, falling back to the strategy token', async () => {
+    const id = createStrategy([
+      { id: 'price', type: 'getPrice', tokenAddress: ROTATION_TOKEN, onSuccess: 'rotate' } as StrategyStep,
+      { id: 'rotate', type: 'buy', amountInSol: 0.1, tokenAddress: ROTATION_TOKEN, onSuccess: 'exit' },
+      { id: 'exit', type: 'sell', amountToSell: -1, tokenAddress: ROTATION_TOKEN, onSuccess: 'base' },
+      { id: 'base', type: 'buy', amountInSol: 0.1 },
+    ]);
+
+    const result = await builder.executeStrategy(id);
+    expect(result.success).toBe(true);
+    expect(provider.getMarketData).toHaveBeenCalledWith(ROTATION_TOKEN);
+    expect(provider.buyTokens.mock.calls.map(call => call[2])).toEqual([ROTATION_TOKEN, undefined]);
+    expect(provider.sellTokens.mock.calls.map(call => call[2])).toEqual([ROTATION_TOKEN]);
+    expect(result.context.stepResults.rotate.data.tokenAddress).toBe(ROTATION_TOKEN);
+    expect(result.context.stepResults.base.data.tokenAddress).toBe(STRATEGY_TOKEN);
+  });
+
+  test('should reject step tokens that are not mint addresses', () => {
+    const id = createStrategy([{ id: 'rotate', type: 'buy', amountInSol: 0.1, tokenAddress: 'not-a-mint' }]);
+
+    expect(builder.validateStrategy(id)).toContainEqual(expect.objectContaining({
+      stepId: 'rotate', severity: 'error', message: expect.stringContaining("Invalid tokenAddress 'not-a-mint'"),
+    }));
+  });
+});
@@ -0,0 +1,86 @@
+// ================= SUB-STRATEGY STEP TESTS =================
+import { MAX_SUB_STRATEGY_DEPTH, StrategyBuilder, StrategyStep } from '../src/trading_utils/StrategyBuilder';
+import type { TradingProvider } from '../src/trading_utils/TradingProvider';
+
+const provider = {
+  initialize: async () => true,
+  getTokenPriceUSD: async () => ({ success: true, price: 1 }),
+  buyTokens: async () => 'buy',
+  sellTokens: async () => 'sell',
+  sleep: async () => {},
+} as unknown as TradingProvider;
+
+const builder = new StrategyBuilder(provider);
+let nextId = 0;
+
+const define = (steps: StrategyStep[], variables: Record<string, any> = {}) => {
+  const id = `sub-${nextId++}`;
+  builder.createStrategy(id, id, 'sub-strategy test', variables);
+  steps.forEach(step => builder.addStep(id, step));
+  return id;
+};
+
+describe('subStrategy', () => {
+  test('should run the sub-strategy with its inputs and copy outputs back', async () => {
+    const double = define([
+      { id: 'double', type: 'setVariable', variable: 'result', expression: 'vars.input * 2', onSuccess: 'token' },
+      { id: 'token', type: 'setVariable', variable: 'seenToken', expression: 'vars.tokenAddress' },
+    ]);
+    const caller = define([
+      { id: 'call', type: 'subStrategy', strategyId: double, inputs: { input: 'vars.n + 1' }, outputs: { doubled: 'result', token: 'seenToken' } },
+    ], { tokenAddress: 'token', n: 2 });
+
+    const result = await builder.executeStrategy(caller);
+    expect(result.success).toBe(true);
+    expect(result.context.variables).toMatchObject({ doubled: 6, token: 'token' });
+    expect(result.context.variables.result).toBeUndefined();
+    expect(result.context.stepResults.call.data).toMatchObject({ strategyId: double, depth: 1, variables: { input: 3, result: 6 } });
+    expect(result.context.logs).toContainEqual(expect.stringContaining(`[${double}]`));
+  });
+
+  test('should branch on a failed last step and let a stop step end only the sub-strategy', async () => {
+    const failing = define([{ id: 'check', type: 'condition', condition: 'expression', expression: 'vars.n > 5' } as StrategyStep], { n: 1 });
+    const stopping = define([{ id: 'halt', type: 'stop', reason: 'inner' }]);
+    const caller = define([
+      { id: 'first', type: 'subStrategy', strategyId: failing, onSuccess: 'wrong', onFailure: 'second' },
+      { id: 'second', type: 'subStrategy', strategyId: stopping, onSuccess: 'after' },
+      { id: 'after', type: 'setVariable', variable: 'reached', value: true },
+      { id: 'wrong', type: 'setVariable', variable: 'reached', value: 'wrong' },
+    ]);
+
+    const result = await builder.executeStrategy(caller);
+    expect(result.context.stepResults.first).toMatchObject({ success: false, data: { error: 'step check failed' } });
+    expect(result.context.variables.reached).toBe(true);
+    expect(result.context.variables._stopReason).toBeUndefined();
+  });
+
+  test('should fail on unknown sub-strategies', async () => {
+    const caller = define([{ id: 'call', type: 'subStrategy', strategyId: 'missing' }]);
+    const result = await builder.executeStrategy(caller);
+    expect(result.context.stepResults.call).toMatchObject({ success: false, message: 'Sub-strategy missing not found' });
+  });
+});
+
+describe('subStrategy validation', () => {
+  test('should reject cycles and nesting deeper than the maximum', () => {
+    const selfCalling = define([]);
+    builder.addStep(selfCalling, { id: 'recurse', type: 'subStrategy', strategyId: selfCalling });
+    expect(builder.validateStrategy(selfCalling)).toContainEqual(expect.objectContaining({ message: expect.stringContaining('Sub-strategy cycle') }));
+
+    let callee = define([{ id: 'leaf', type: 'setVariable', variable: 'x', value: 1 }]);
+    for (let level = 0; level < MAX_SUB_STRATEGY_DEPTH; level++) {
+      callee = define([{ id: 'call', type: 'subStrategy', strategyId: callee }]);
+    }
+    const tooDeep = define([{ id: 'call', type: 'subStrategy', strategyId: callee }]);
+    expect(builder.validateStrategy(tooDeep)).toContainEqual(expect.objectContaining({ message: expect.stringContaining('exceeds maximum') }));
+  });
+
+  test('should reject invalid input and output names', () => {
+    const callee = define([{ id: 'leaf', type: 'setVariable', variable: 'x', value: 1 }]);
+    const caller = define([{ id: 'call', type: 'subStrategy', strategyId: callee, inputs: { 'bad-name': '1' }, outputs: { ok: 'also-bad' } }]);
+
+    const messages = builder.validateStrategy(caller).map(error => error.message);
+    expect(messages).toContainEqual(expect.stringContaining("input 'bad-name'"));
+    expect(messages).toContainEqual(expect.stringContaining("output 'ok' <- 'also-bad'"));
+  });
+});
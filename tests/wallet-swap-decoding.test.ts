@@ -0,0 +1,118 @@
+// ================= WALLET SWAP DECODING TESTS =================
+import type { EventParser } from '@coral-xyz/anchor';
+import type { ParsedTransactionWithMeta } from '@solana/web3.js';
+import { decodeWalletSwaps, detectSwapVenue } from '../src/trading_utils/WalletWebSocketListener';
+import { PUMPFUN_PROGRAM_ID } from '../src/trading_utils/PumpFunWebSocketListener';
+import { RAYDIUM_AMM_V4_PROGRAM_ID } from '../src/trading_utils/RaydiumWebSocketListener';
+import { JUPITER_V6_PROGRAM_ID } from '../src/trading_utils/JupiterWebSocketListener';
+
+const WALLET = 'Wallet1111111111111111111111111111111111111';
+const OTHER = 'Other11111111111111111111111111111111111111';
+const MINT = 'Mint111111111111111111111111111111111111111';
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+const invoke = (programId: string) => `Program ${programId} invoke [1]`;
+const noEvents = { parseLogs: () => [] } as unknown as EventParser;
+const tokenBalance = (owner: string, mint: string, uiAmount: number) =>
+  ({ accountIndex: 1, owner, mint, uiTokenAmount: { uiAmount, amount: '0', decimals: 6 } });
+
+const transaction = (overrides: {
+  logs: string[];
+  pre?: ReturnType<typeof tokenBalance>[];
+  post?: ReturnType<typeof tokenBalance>[];
+  lamports?: [number, number];
+  fee?: number;
+}) => ({
+  blockTime: 1_700_000_000,
+  transaction: { message: { accountKeys: [{ pubkey: { toString: () => WALLET } }] } },
+  meta: {
+    err: null,
+    fee: overrides.fee ?? 5000,
+    logMessages: overrides.logs,
+    preBalances: [overrides.lamports?.[0] ?? 0],
+    postBalances: [overrides.lamports?.[1] ?? 0],
+    preTokenBalances: overrides.pre || [],
+    postTokenBalances: overrides.post || [],
+  },
+} as unknown as ParsedTransactionWithMeta);
+
+describe('detectSwapVenue', () => {
+  test('should prefer Jupiter when it routes through another venue', () => {
+    expect(detectSwapVenue([invoke(JUPITER_V6_PROGRAM_ID), invoke(RAYDIUM_AMM_V4_PROGRAM_ID)])).toBe('jupiter');
+    expect(detectSwapVenue([invoke(PUMPFUN_PROGRAM_ID)])).toBe('pumpfun');
+    expect(detectSwapVenue([invoke(RAYDIUM_AMM_V4_PROGRAM_ID)])).toBe('raydium');
+    expect(detectSwapVenue(['Program 11111111111111111111111111111111 invoke [1]'])).toBeNull();
+  });
+});
+
+describe('decodeWalletSwaps', () => {
+  test('should read pump.fun trades from the wallet\'s tradeEvent', () => {
+    const parser = {
+      parseLogs: () => [
+        { name: 'tradeEvent', data: { user: WALLET, mint: MINT, isBuy: true, solAmount: 500_000_000, tokenAmount: 1_000_000_000_000 } },
+        { name: 'tradeEvent', data: { user: OTHER, mint: MINT, isBuy: false, solAmount: 1, tokenAmount: 1 } },
+      ],
+    } as unknown as EventParser;
+    const swaps = decodeWalletSwaps(
+      transaction({ logs: [invoke(PUMPFUN_PROGRAM_ID)], post: [tokenBalance(WALLET, MINT, 1_000_000)] }),
+      WALLET, parser, 'sig'
+    );
+
+    expect(swaps).toEqual([expect.objectContaining({
+      tokenMint: MINT,
+      isBuy: true,
+      solAmount: 0.5,
+      tokenAmount: 1_000_000,
+      venue: 'pumpfun',
+      walletTokensBefore: 0,
+      walletTokensAfter: 1_000_000,
+      timestamp: 1_700_000_000_000,
+    })]);
+  });
+
+  test('should read Raydium buys from balance changes, adding back the fee the payer paid', () => {
+    const [swap] = decodeWalletSwaps(
+      transaction({
+        logs: [invoke(RAYDIUM_AMM_V4_PROGRAM_ID)],
+        lamports: [2_000_000_000, 999_995_000],
+        post: [tokenBalance(WALLET, MINT, 500)],
+      }),
+      WALLET, noEvents, 'sig'
+    );
+
+    expect(swap).toEqual(expect.objectContaining({ isBuy: true, solAmount: 1, tokenAmount: 500, price: 0.002, venue: 'raydium' }));
+  });
+
+  test('should count wrapped SOL toward the SOL leg of a sell', () => {
+    const [swap] = decodeWalletSwaps(
+      transaction({
+        logs: [invoke(JUPITER_V6_PROGRAM_ID)],
+        lamports: [1_000_000_000, 999_995_000],
+        pre: [tokenBalance(WALLET, MINT, 800), tokenBalance(WALLET, SOL_MINT, 0)],
+        post: [tokenBalance(WALLET, MINT, 200), tokenBalance(WALLET, SOL_MINT, 0.3)],
+      }),
+      WALLET, noEvents, 'sig'
+    );
+
+    expect(swap).toEqual(expect.objectContaining({ isBuy: false, solAmount: 0.3, tokenAmount: 600, walletTokensBefore: 800, walletTokensAfter: 200 }));
+  });
+
+  test('should skip token-to-token routes, fee-only SOL changes and failed transactions', () => {
+    const tokenToToken = transaction({
+      logs: [invoke(JUPITER_V6_PROGRAM_ID)],
+      pre: [tokenBalance(WALLET, MINT, 100), tokenBalance(WALLET, 'Other', 0)],
+      post: [tokenBalance(WALLET, MINT, 0), tokenBalance(WALLET, 'Other', 50)],
+    });
+    const feeOnly = transaction({
+      logs: [invoke(RAYDIUM_AMM_V4_PROGRAM_ID)],
+      lamports: [1_000_000_000, 999_995_000],
+      post: [tokenBalance(WALLET, MINT, 10)],
+    });
+    const failed = transaction({ logs: [invoke(RAYDIUM_AMM_V4_PROGRAM_ID)] });
+    (failed.meta as { err: unknown }).err = { InstructionError: [0, 'Custom'] };
+
+    expect(decodeWalletSwaps(tokenToToken, WALLET, noEvents, 'sig')).toEqual([]);
+    expect(decodeWalletSwaps(feeOnly, WALLET, noEvents, 'sig')).toEqual([]);
+    expect(decodeWalletSwaps(failed, WALLET, noEvents, 'sig')).toEqual([]);
+  });
+});